@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { requireSession } from "@/lib/auth-server";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -23,7 +22,9 @@ function isHex(s: string) {
 }
 
 export async function PATCH(req: NextRequest) {
-  const session = await requireSession();
+  const { session, db, denied } = await requirePermission("agenda.write");
+  if (denied) return denied;
+
   const body = await req.json().catch(() => null);
   if (!body) return bad("JSON inválido.");
 
@@ -33,7 +34,7 @@ export async function PATCH(req: NextRequest) {
   if (!userId) return bad("userId obrigatório.");
   if (!isHex(colorHex)) return bad("colorHex inválido. Use #RRGGBB.");
 
-  const up = await prisma.agendaMemberColor.upsert({
+  const up = await db.agendaMemberColor.upsert({
     where: { team_userId: { team: session.team, userId } },
     create: { team: session.team, userId, colorHex },
     update: { colorHex },
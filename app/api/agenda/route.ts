@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { requireSession } from "@/lib/auth-server";
+import { requirePermission } from "@/lib/require-permission";
+import { tenantPrisma } from "@/lib/tenant";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -154,13 +154,14 @@ function intervalRule(
 }
 
 async function getMembersWithColors(team: string) {
-  const users = await prisma.user.findMany({
+  const db = tenantPrisma(team);
+  const users = await db.user.findMany({
     where: { team },
     select: { id: true, name: true, login: true },
     orderBy: { name: "asc" },
   });
 
-  const colors = await prisma.agendaMemberColor.findMany({
+  const colors = await db.agendaMemberColor.findMany({
     where: { team },
     select: { userId: true, colorHex: true },
   });
@@ -194,8 +195,10 @@ function overlap(aStart: number, aEnd: number, bStart: number, bEnd: number) {
 }
 
 export async function GET(req: NextRequest) {
+  const { session, db, denied } = await requirePermission("agenda.read");
+  if (denied) return denied;
+
   try {
-    const session = await requireSession();
     const url = new URL(req.url);
 
     const mes = url.searchParams.get("mes") || "";
@@ -223,7 +226,7 @@ export async function GET(req: NextRequest) {
 
     const [members, events] = await Promise.all([
       getMembersWithColors(session.team),
-      prisma.agendaEvent.findMany({
+      db.agendaEvent.findMany({
         where: {
           team: session.team,
           status: "ACTIVE",
@@ -262,8 +265,10 @@ export async function GET(req: NextRequest) {
 }
 
 export async function POST(req: NextRequest) {
+  const { session, db, denied } = await requirePermission("agenda.write");
+  if (denied) return denied;
+
   try {
-    const session = await requireSession();
     const body = await req.json().catch(() => null);
     if (!body) return bad("JSON inválido.");
 
@@ -299,7 +304,7 @@ export async function POST(req: NextRequest) {
     if (ruleErr) return bad(ruleErr);
 
     // conflitos (mesmo user + mesma data)
-    const existing = await prisma.agendaEvent.findMany({
+    const existing = await db.agendaEvent.findMany({
       where: { team: session.team, status: "ACTIVE", dateISO, userId },
       select: { id: true, type: true, startMin: true, endMin: true },
     });
@@ -314,7 +319,7 @@ export async function POST(req: NextRequest) {
       }
     }
 
-    const created = await prisma.agendaEvent.create({
+    const created = await db.agendaEvent.create({
       data: {
         team: session.team,
         type,
@@ -346,8 +351,10 @@ export async function POST(req: NextRequest) {
 }
 
 export async function PATCH(req: NextRequest) {
+  const { session, db, denied } = await requirePermission("agenda.write");
+  if (denied) return denied;
+
   try {
-    const session = await requireSession();
     const url = new URL(req.url);
     const id = url.searchParams.get("id") || "";
     if (!id) return bad("Informe ?id=...");
@@ -355,7 +362,7 @@ export async function PATCH(req: NextRequest) {
     const body = await req.json().catch(() => null);
     if (!body) return bad("JSON inválido.");
 
-    const existing = await prisma.agendaEvent.findFirst({
+    const existing = await db.agendaEvent.findFirst({
       where: { id, team: session.team },
       select: {
         id: true,
@@ -381,7 +388,7 @@ export async function PATCH(req: NextRequest) {
       if (!toUserId) return bad("swapToUserId inválido.");
 
       // conflito com agenda do destino
-      const destEvents = await prisma.agendaEvent.findMany({
+      const destEvents = await db.agendaEvent.findMany({
         where: {
           team: session.team,
           status: "ACTIVE",
@@ -396,7 +403,7 @@ export async function PATCH(req: NextRequest) {
         }
       }
 
-      await prisma.agendaEvent.update({
+      await db.agendaEvent.update({
         where: { id },
         data: {
           userId: toUserId,
@@ -439,7 +446,7 @@ export async function PATCH(req: NextRequest) {
     if (ruleErr) return bad(ruleErr);
 
     // conflito com outros eventos do próprio user (exclui ele mesmo)
-    const conflicts = await prisma.agendaEvent.findMany({
+    const conflicts = await db.agendaEvent.findMany({
       where: {
         team: session.team,
         status: "ACTIVE",
@@ -456,7 +463,7 @@ export async function PATCH(req: NextRequest) {
       }
     }
 
-    await prisma.agendaEvent.update({
+    await db.agendaEvent.update({
       where: { id },
       data: {
         startMin: nextStart,
@@ -484,13 +491,15 @@ export async function PATCH(req: NextRequest) {
 }
 
 export async function DELETE(req: NextRequest) {
+  const { session, db, denied } = await requirePermission("agenda.write");
+  if (denied) return denied;
+
   try {
-    const session = await requireSession();
     const url = new URL(req.url);
     const id = url.searchParams.get("id") || "";
     if (!id) return bad("Informe ?id=...");
 
-    const existing = await prisma.agendaEvent.findFirst({
+    const existing = await db.agendaEvent.findFirst({
       where: { id, team: session.team },
       select: {
         id: true,
@@ -508,7 +517,7 @@ export async function DELETE(req: NextRequest) {
     if (!canEditMonth(ym))
       return bad("Exclusão não liberada para este mês ainda.", 403);
 
-    await prisma.agendaEvent.update({
+    await db.agendaEvent.update({
       where: { id },
       data: {
         status: "CANCELED",
@@ -1,8 +1,7 @@
 // app/api/analytics/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { requireSession } from "@/lib/auth-server";
 import type { Prisma } from "@prisma/client";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -195,8 +194,10 @@ function ensureUnassigned(map: Map<string, EmpRow>) {
 }
 
 export async function GET(req: NextRequest) {
+  const { session: sess, db, denied } = await requirePermission("analytics.read");
+  if (denied) return denied;
+
   try {
-    const sess = await requireSession();
     const team = String((sess as any)?.team || "");
 
     // ✅ Agora: qualquer usuário logado do time pode acessar
@@ -252,7 +253,7 @@ export async function GET(req: NextRequest) {
 
     const notCanceled: Prisma.SaleWhereInput = { paymentStatus: { not: "CANCELED" as any } };
 
-    const teamUsers = await prisma.user.findMany({
+    const teamUsers = await db.user.findMany({
       where: { team },
       select: { id: true, name: true, login: true },
       orderBy: { name: "asc" },
@@ -265,7 +266,7 @@ export async function GET(req: NextRequest) {
     const todayISO = isoDateNowSP();
     const { start: tStart, end: tEnd } = dayBoundsUTC(todayISO);
 
-    const todaySales = await prisma.sale.findMany({
+    const todaySales = await db.sale.findMany({
       where: {
         date: { gte: tStart, lt: tEnd },
         ...(program !== "ALL" ? { program } : {}),
@@ -362,7 +363,7 @@ export async function GET(req: NextRequest) {
     // ✅ MÊS CORRENTE: vendas sem taxa vs lucro após imposto (sem taxa)
     // =========================
     const [currentMonthSales, currentMonthPayouts, previousMonthSales, previousMonthPayouts] = await Promise.all([
-      prisma.sale.findMany({
+      db.sale.findMany({
         where: {
           date: { gte: currentMonthStart, lt: currentMonthEnd },
           ...saleTeamWhere(team),
@@ -370,7 +371,7 @@ export async function GET(req: NextRequest) {
         },
         select: { points: true, milheiroCents: true },
       }),
-      prisma.employeePayout.findMany({
+      db.employeePayout.findMany({
         where: {
           team,
           date: { startsWith: `${currentMonth}-` },
@@ -380,7 +381,7 @@ export async function GET(req: NextRequest) {
           tax7Cents: true,
         },
       }),
-      prisma.sale.findMany({
+      db.sale.findMany({
         where: {
           date: { gte: previousMonthStart, lt: previousMonthEnd },
           ...saleTeamWhere(team),
@@ -388,7 +389,7 @@ export async function GET(req: NextRequest) {
         },
         select: { points: true, milheiroCents: true },
       }),
-      prisma.employeePayout.findMany({
+      db.employeePayout.findMany({
         where: {
           team,
           date: { startsWith: `${previousMonth}-` },
@@ -431,7 +432,7 @@ export async function GET(req: NextRequest) {
     // =========================
     // 1) SALES (histórico p/ gráficos + mês selecionado)
     // =========================
-    const salesHist = await prisma.sale.findMany({
+    const salesHist = await db.sale.findMany({
       where: {
         date: { gte: histStart, lt: histEnd },
         ...(program !== "ALL" ? { program } : {}),
@@ -494,7 +495,7 @@ export async function GET(req: NextRequest) {
       latamMilheiroCents: number;
       smilesMilheiroCents: number;
     }> = [];
-    const dailySales = await prisma.sale.findMany({
+    const dailySales = await db.sale.findMany({
       where: {
         date: { gte: dailyStart, lt: dailyEndExclusive },
         ...(program !== "ALL" ? { program } : {}),
@@ -659,7 +660,7 @@ export async function GET(req: NextRequest) {
       monthKeys.push(monthKeyUTC(addMonthsUTC(histStart, i)));
     }
 
-    const payoutHist = await prisma.employeePayout.findMany({
+    const payoutHist = await db.employeePayout.findMany({
       where: {
         team,
         date: {
@@ -681,7 +682,7 @@ export async function GET(req: NextRequest) {
     const lossRangeStart = monthStartUTC(lossMonthKeys[0]);
     const lossRangeEnd = addMonthsUTC(monthStartUTC(lossMonthKeys[lossMonthKeys.length - 1]), 1);
 
-    const lossPurchasesBase = await prisma.purchase.findMany({
+    const lossPurchasesBase = await db.purchase.findMany({
       where: {
         status: "CLOSED",
         finalizedAt: { not: null, gte: lossRangeStart, lt: lossRangeEnd },
@@ -717,7 +718,7 @@ export async function GET(req: NextRequest) {
         return idByNumeroUpper.get(up) || r;
       };
 
-      const lossSales = await prisma.sale.findMany({
+      const lossSales = await db.sale.findMany({
         where: {
           paymentStatus: { not: "CANCELED" as any },
           OR: [{ purchaseId: { in: purchaseIds } }, { purchaseId: { in: numerosAll } }],
@@ -956,7 +957,7 @@ export async function GET(req: NextRequest) {
       latamInactivated: 0,
     }));
 
-    const clubs = await prisma.clubSubscription.findMany({
+    const clubs = await db.clubSubscription.findMany({
       where: {
         team,
         program: { in: ["SMILES", "LATAM"] as any },
@@ -1024,7 +1025,7 @@ export async function GET(req: NextRequest) {
       ...notCanceled,
     };
 
-    const topSales = await prisma.sale.findMany({
+    const topSales = await db.sale.findMany({
       where: topWhere,
       select: {
         points: true,
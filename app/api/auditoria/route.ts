@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server";
+import { AuditAction, Prisma } from "@prisma/client";
+import { requirePermission } from "@/lib/require-permission";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const PAGE_SIZE = 50;
+
+function parseDay(v: string | null, endOfDay = false) {
+  if (!v || !/^\d{4}-\d{2}-\d{2}$/.test(v)) return null;
+  const d = new Date(`${v}T00:00:00-03:00`);
+  if (endOfDay) d.setDate(d.getDate() + 1);
+  return d;
+}
+
+/**
+ * GET /api/auditoria
+ * Filtros: model, recordId, actorId, action, from/to (YYYY-MM-DD), q (id do registro,
+ * request ou texto do motivo), cursor (id da última linha).
+ * Com model + recordId é a linha do tempo de um registro.
+ */
+export async function GET(req: Request) {
+  const { db, denied } = await requirePermission("auditoria.read");
+  if (denied) return denied;
+
+  const sp = new URL(req.url).searchParams;
+  const model = sp.get("model")?.trim() || null;
+  const recordId = sp.get("recordId")?.trim() || null;
+  const actorId = sp.get("actorId")?.trim() || null;
+  const actionRaw = sp.get("action")?.trim().toUpperCase() || "";
+  const action = (Object.values(AuditAction) as string[]).includes(actionRaw)
+    ? (actionRaw as AuditAction)
+    : null;
+  const from = parseDay(sp.get("from"));
+  const to = parseDay(sp.get("to"), true);
+  const q = sp.get("q")?.trim() || "";
+  const cursor = sp.get("cursor")?.trim() || null;
+
+  const where: Prisma.AuditLogWhereInput = {
+    ...(model ? { model } : {}),
+    ...(recordId ? { recordId } : {}),
+    ...(actorId ? { actorId } : {}),
+    ...(action ? { action } : {}),
+    ...(from || to ? { createdAt: { ...(from ? { gte: from } : {}), ...(to ? { lt: to } : {}) } } : {}),
+    ...(q
+      ? {
+          OR: [
+            { recordId: q },
+            { requestId: q },
+            { reason: { contains: q, mode: "insensitive" } },
+          ],
+        }
+      : {}),
+  };
+
+  const rows = await db.auditLog.findMany({
+    where,
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: PAGE_SIZE + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    select: {
+      id: true,
+      model: true,
+      recordId: true,
+      action: true,
+      requestId: true,
+      reason: true,
+      before: true,
+      after: true,
+      changes: true,
+      createdAt: true,
+      actor: { select: { id: true, name: true, login: true } },
+    },
+  });
+
+  const page = rows.slice(0, PAGE_SIZE);
+  const nextCursor = rows.length > PAGE_SIZE ? page[page.length - 1].id : null;
+
+  // filtro de usuário: só quem já aparece no log (primeira página)
+  let actors: Array<{ id: string; name: string }> | undefined;
+  if (!cursor) {
+    const grouped = await db.auditLog.groupBy({ by: ["actorId"], where: { actorId: { not: null } } });
+    const ids = grouped.map((g) => g.actorId).filter((id): id is string => Boolean(id));
+    actors = ids.length
+      ? await db.user.findMany({ where: { id: { in: ids } }, select: { id: true, name: true }, orderBy: { name: "asc" } })
+      : [];
+  }
+
+  return NextResponse.json({
+    ok: true,
+    rows: page.map((r) => ({ ...r, createdAt: r.createdAt.toISOString() })),
+    nextCursor,
+    actors,
+  });
+}
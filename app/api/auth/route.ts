@@ -1,31 +1,32 @@
 import { NextResponse } from "next/server";
 import crypto from "node:crypto";
 import { prisma } from "@/lib/prisma";
+import {
+  SESSION_COOKIE,
+  createSession,
+  readSessionCookie,
+  revokeAllSessions,
+  revokeSession,
+  sessionCookieOptions,
+} from "@/lib/session";
+import type { Role } from "@/lib/permissions";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 
-type Role = "admin" | "staff";
-
 const TEAM = "@loiro_das_milhas";
 const sha256 = (s: string) => crypto.createHash("sha256").update(s).digest("hex");
 const norm = (s: string | null | undefined) => (s ?? "").trim().toLowerCase();
 const OLD_SEED_LOGINS = ["jephesson", "lucas", "paola", "eduarda"] as const;
 
-// ✅ cookie pequeno
-type SessionCookie = {
-  id: string;
-  login: string;
-  role: Role;
-  team: string;
-};
-
 type ApiLogin = { action: "login"; login: string; password: string };
 type ApiSetPassword = { action: "setPassword"; login: string; password: string };
 type ApiResetSeed = { action: "resetSeed" };
 type ApiLogout = { action: "logout" };
-type ApiBody = ApiLogin | ApiSetPassword | ApiResetSeed | ApiLogout;
+type ApiLogoutAll = { action: "logoutAll" };
+type ApiBody = ApiLogin | ApiSetPassword | ApiResetSeed | ApiLogout | ApiLogoutAll;
 
 // ✅ seed REAL (vai pro banco) — apenas usuários
 const SEED_USERS: Array<{
@@ -39,7 +40,7 @@ const SEED_USERS: Array<{
     login: "rafael",
     name: "Rafael Nascimento",
     email: null,
-    role: "admin",
+    role: "owner",
     password: "1234",
   },
 ];
@@ -54,42 +55,43 @@ function noCacheHeaders() {
   };
 }
 
-// Base64 URL-safe
-function b64urlEncode(input: string) {
-  return Buffer.from(input, "utf8")
-    .toString("base64")
-    .replace(/\+/g, "-")
-    .replace(/\//g, "_")
-    .replace(/=+$/g, "");
-}
-
-function setSessionCookie(res: NextResponse, payload: SessionCookie) {
-  const value = b64urlEncode(JSON.stringify(payload));
-
-  const base = {
-    httpOnly: true,
-    secure: process.env.NODE_ENV === "production",
-    sameSite: "lax" as const,
-    path: "/",
-    maxAge: 60 * 60 * 8,
-  };
-
-  const domain = process.env.COOKIE_DOMAIN?.trim();
-  if (domain) res.cookies.set("tm.session", value, { ...base, domain });
-  else res.cookies.set("tm.session", value, base);
+// ✅ cookie leva só o token assinado (v1.payload.assinatura); dados ficam no banco
+function setSessionCookie(res: NextResponse, token: string) {
+  res.cookies.set(SESSION_COOKIE, token, sessionCookieOptions());
 }
 
 function clearSessionCookie(res: NextResponse) {
   const base = { path: "/" as const, maxAge: 0 };
   const domain = process.env.COOKIE_DOMAIN?.trim();
-  if (domain) res.cookies.set("tm.session", "", { ...base, domain });
-  else res.cookies.set("tm.session", "", base);
+  if (domain) res.cookies.set(SESSION_COOKIE, "", { ...base, domain });
+  else res.cookies.set(SESSION_COOKIE, "", base);
+}
+
+function readCookie(req: Request, name: string) {
+  const cookie = req.headers.get("cookie") || "";
+  const parts = cookie.split(";").map((p) => p.trim());
+  for (const p of parts) {
+    if (p.startsWith(name + "=")) return decodeURIComponent(p.slice(name.length + 1));
+  }
+  return null;
+}
+
+function clientIp(req: Request) {
+  const fwd = req.headers.get("x-forwarded-for");
+  if (fwd) return fwd.split(",")[0].trim() || null;
+  return req.headers.get("x-real-ip");
 }
 
 function isApiBody(v: unknown): v is ApiBody {
   if (!v || typeof v !== "object") return false;
   const action = (v as { action?: string }).action;
-  return action === "login" || action === "setPassword" || action === "resetSeed" || action === "logout";
+  return (
+    action === "login" ||
+    action === "setPassword" ||
+    action === "resetSeed" ||
+    action === "logout" ||
+    action === "logoutAll"
+  );
 }
 
 async function pruneOldSeedUsers() {
@@ -158,6 +160,9 @@ export async function POST(req: Request): Promise<NextResponse> {
     }
 
     if (raw.action === "resetSeed") {
+      const { denied } = await requirePermission("system.manage");
+      if (denied) return denied;
+
       await seedUsersToDb();
       return NextResponse.json({ ok: true, message: "Seed restaurado" }, { headers: noCacheHeaders() });
     }
@@ -186,17 +191,20 @@ export async function POST(req: Request): Promise<NextResponse> {
         return NextResponse.json({ ok: false, error: "Senha inválida" }, { status: 401, headers: noCacheHeaders() });
       }
 
-      const res = NextResponse.json({ ok: true }, { headers: noCacheHeaders() });
-      setSessionCookie(res, {
-        id: dbUser.id,
-        login: dbUser.login,
-        role: dbUser.role as Role,
-        team: dbUser.team,
+      const token = await createSession(dbUser.id, {
+        ip: clientIp(req),
+        userAgent: req.headers.get("user-agent"),
       });
+
+      const res = NextResponse.json({ ok: true }, { headers: noCacheHeaders() });
+      setSessionCookie(res, token);
       return res;
     }
 
     if (raw.action === "setPassword") {
+      const { denied } = await requirePermission("funcionarios.write");
+      if (denied) return denied;
+
       await seedUsersToDb();
 
       const login = norm(raw.login);
@@ -208,20 +216,41 @@ export async function POST(req: Request): Promise<NextResponse> {
         );
       }
 
-      await prisma.user.update({
+      const updated = await prisma.user.update({
         where: { login },
         data: { passwordHash: sha256(password) },
+        select: { id: true },
       });
 
+      // ✅ troca de senha derruba as sessões abertas desse usuário
+      await revokeAllSessions(updated.id, "password_changed");
+
       return NextResponse.json({ ok: true }, { headers: noCacheHeaders() });
     }
 
     if (raw.action === "logout") {
+      const sess = await readSessionCookie(readCookie(req, SESSION_COOKIE));
+      if (sess) await revokeSession(sess.sid, "logout");
+
       const res = NextResponse.json({ ok: true }, { headers: noCacheHeaders() });
       clearSessionCookie(res);
       return res;
     }
 
+    // ✅ "sair de todos os dispositivos"
+    if (raw.action === "logoutAll") {
+      const sess = await readSessionCookie(readCookie(req, SESSION_COOKIE));
+      if (!sess) {
+        return NextResponse.json({ ok: false, error: "Não autenticado" }, { status: 401, headers: noCacheHeaders() });
+      }
+
+      const revoked = await revokeAllSessions(sess.id, "logout_all");
+
+      const res = NextResponse.json({ ok: true, revoked }, { headers: noCacheHeaders() });
+      clearSessionCookie(res);
+      return res;
+    }
+
     return NextResponse.json({ ok: false, error: "Ação desconhecida" }, { status: 400, headers: noCacheHeaders() });
   } catch (err) {
     console.error("Erro /api/auth:", err);
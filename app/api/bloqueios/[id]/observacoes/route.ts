@@ -1,5 +1,5 @@
 import { NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -8,6 +8,9 @@ export async function POST(
   req: Request,
   ctx: { params: Promise<{ id: string }> }
 ) {
+  const { db, denied } = await requirePermission("cedentes.write");
+  if (denied) return denied;
+
   try {
     const { id } = await ctx.params;
     const body = await req.json();
@@ -18,7 +21,7 @@ export async function POST(
     // (opcional) createdById via sessão
     const createdById = null;
 
-    const obs = await prisma.blockObservation.create({
+    const obs = await db.blockObservation.create({
       data: {
         blockedId: id,
         text,
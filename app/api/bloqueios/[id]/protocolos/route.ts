@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server";
+import { logProtocolStatus } from "@/lib/protocolos";
+import { requirePermission } from "@/lib/require-permission";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+/**
+ * POST { protocolId } → vincula um protocolo existente (mesmo cedente e programa)
+ * POST { title?, complaint } → abre um protocolo novo já vinculado ao bloqueio
+ */
+export async function POST(req: Request, { params }: Ctx) {
+  const { session, db, denied } = await requirePermission("protocolos.write");
+  if (denied) return denied;
+
+  const { id } = await params;
+  const body = await req.json().catch(() => ({}));
+
+  const block = await db.blockedAccount.findUnique({
+    where: { id },
+    select: { id: true, cedenteId: true, program: true },
+  });
+  if (!block) return NextResponse.json({ ok: false, error: "Bloqueio não encontrado." }, { status: 404 });
+
+  const protocolId = String(body?.protocolId || "").trim();
+  if (protocolId) {
+    const protocol = await db.protocol.findUnique({
+      where: { id: protocolId },
+      select: { id: true, cedenteId: true, program: true },
+    });
+    if (!protocol) return NextResponse.json({ ok: false, error: "Protocolo não encontrado." }, { status: 404 });
+    if (protocol.cedenteId !== block.cedenteId || protocol.program !== block.program) {
+      return NextResponse.json(
+        { ok: false, error: "Protocolo é de outro cedente/programa." },
+        { status: 400 }
+      );
+    }
+
+    await db.protocol.update({
+      where: { id: protocolId },
+      data: { blockedAccountId: block.id, updatedById: session.id },
+    });
+    return NextResponse.json({ ok: true, data: { id: protocolId } });
+  }
+
+  const complaint = String(body?.complaint || "").trim();
+  if (!complaint) return NextResponse.json({ ok: false, error: "Descreva a reclamação." }, { status: 400 });
+
+  const row = await db.$transaction(async (tx) => {
+    const created = await tx.protocol.create({
+      data: {
+        team: session.team,
+        program: block.program,
+        status: "DRAFT",
+        title: String(body?.title || "").trim().slice(0, 120) || "Desbloqueio de conta",
+        complaint,
+        cedenteId: block.cedenteId,
+        blockedAccountId: block.id,
+        createdById: session.id,
+        updatedById: session.id,
+      },
+      select: { id: true },
+    });
+
+    await logProtocolStatus(tx, {
+      team: session.team,
+      protocolId: created.id,
+      from: null,
+      to: "DRAFT",
+      changedById: session.id,
+    });
+
+    return created;
+  });
+
+  return NextResponse.json({ ok: true, data: row }, { status: 201 });
+}
+
+/** DELETE ?protocolId= → desvincula (o protocolo continua existindo). */
+export async function DELETE(req: Request, { params }: Ctx) {
+  const { session, db, denied } = await requirePermission("protocolos.write");
+  if (denied) return denied;
+
+  const { id } = await params;
+  const protocolId = String(new URL(req.url).searchParams.get("protocolId") || "").trim();
+  if (!protocolId) return NextResponse.json({ ok: false, error: "protocolId é obrigatório." }, { status: 400 });
+
+  const res = await db.protocol.updateMany({
+    where: { id: protocolId, blockedAccountId: id },
+    data: { blockedAccountId: null, updatedById: session.id },
+  });
+  if (!res.count) return NextResponse.json({ ok: false, error: "Vínculo não encontrado." }, { status: 404 });
+
+  return NextResponse.json({ ok: true });
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
+import { BlockCaseError, parseReasonCode } from "@/lib/bloqueios";
+import { emitDomainEvent } from "@/lib/outbox";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -7,12 +9,17 @@ export const dynamic = "force-dynamic";
 type PatchBody = {
   status?: "OPEN" | "UNBLOCKED" | "CANCELED";
   resolvedAt?: string | null; // opcional
+  reasonCode?: string | null; // ✅ edição do caso (sem status = só edita)
+  estimatedUnlockAt?: string | null;
 };
 
 export async function PATCH(
   req: NextRequest,
   ctx: { params: Promise<{ id: string }> }
 ) {
+  const { session, db, denied } = await requirePermission("cedentes.write");
+  if (denied) return denied;
+
   try {
     const { id } = await ctx.params;
 
@@ -25,9 +32,30 @@ export async function PATCH(
 
     const body = (await req.json().catch(() => ({}))) as PatchBody;
 
+    const current = await db.blockedAccount.findUnique({
+      where: { id },
+      select: { id: true, status: true, program: true, cedenteId: true, createdAt: true },
+    });
+    if (!current) {
+      return NextResponse.json({ ok: false, error: "Bloqueio não encontrado." }, { status: 404 });
+    }
+
+    // ✅ edição do caso: motivo / previsão (remarcar a previsão rearma o lembrete)
+    const editOnly = !body.status && ("reasonCode" in body || "estimatedUnlockAt" in body);
+    const patch: { reasonCode?: string | null; estimatedUnlockAt?: Date | null; overdueNotifiedAt?: null } = {};
+    if ("reasonCode" in body) patch.reasonCode = parseReasonCode(current.program, body.reasonCode);
+    if ("estimatedUnlockAt" in body) {
+      const raw = String(body.estimatedUnlockAt || "").trim();
+      const d = raw ? new Date(raw) : null;
+      if (d && Number.isNaN(d.getTime())) throw new BlockCaseError("Previsão inválida.");
+      patch.estimatedUnlockAt = d;
+      patch.overdueNotifiedAt = null;
+    }
+
     // ✅ Se não vier status, padrão: UNBLOCKED (desbloqueio manual)
-    const nextStatus =
-      body.status && ["OPEN", "UNBLOCKED", "CANCELED"].includes(body.status)
+    const nextStatus = editOnly
+      ? current.status
+      : body.status && ["OPEN", "UNBLOCKED", "CANCELED"].includes(body.status)
         ? body.status
         : "UNBLOCKED";
 
@@ -37,22 +65,50 @@ export async function PATCH(
           ? new Date(body.resolvedAt)
           : new Date()
         : null;
+    if (resolvedAt && (Number.isNaN(resolvedAt.getTime()) || resolvedAt < current.createdAt)) {
+      throw new BlockCaseError("Data de desbloqueio inválida (antes da abertura).");
+    }
 
-    const updated = await prisma.blockedAccount.update({
-      where: { id },
-      data: {
-        status: nextStatus as any,
-        resolvedAt,
-      },
-      select: {
-        id: true,
-        status: true,
-        resolvedAt: true,
-      },
+    const updated = await db.$transaction(async (tx) => {
+      const row = await tx.blockedAccount.update({
+        where: { id },
+        data: editOnly ? patch : { ...patch, status: nextStatus, resolvedAt },
+        select: {
+          id: true,
+          status: true,
+          resolvedAt: true,
+          reasonCode: true,
+          estimatedUnlockAt: true,
+        },
+      });
+
+      if (!editOnly && nextStatus === "UNBLOCKED" && current.status !== "UNBLOCKED") {
+        await emitDomainEvent(tx, {
+          team: session.team,
+          type: "block.unblocked",
+          aggregateType: "BlockedAccount",
+          aggregateId: id,
+          actorId: session.id,
+          payload: {
+            cedenteId: current.cedenteId,
+            program: current.program,
+            reasonCode: row.reasonCode,
+            resolvedAt: row.resolvedAt ? row.resolvedAt.toISOString() : null,
+            daysBlocked: row.resolvedAt
+              ? Math.round((row.resolvedAt.getTime() - current.createdAt.getTime()) / (24 * 3600_000))
+              : null,
+          },
+        });
+      }
+
+      return row;
     });
 
     return NextResponse.json({ ok: true, data: updated }, { status: 200 });
   } catch (e: any) {
+    if (e instanceof BlockCaseError) {
+      return NextResponse.json({ ok: false, error: e.message }, { status: 400 });
+    }
     console.error(e);
     return NextResponse.json(
       { ok: false, error: e?.message || "Erro." },
@@ -1,5 +1,18 @@
 import { NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
+import {
+  BLOCK_REASONS,
+  BlockCaseError,
+  blockReasonLabel,
+  blockValueSeries,
+  computeSla,
+  forecastUnlock,
+  isBlockProgram,
+  loadSlaBlocks,
+  parseReasonCode,
+} from "@/lib/bloqueios";
+import { loadRateResolver, milheiroValueCents, ratesAt } from "@/lib/milheiro-rates";
+import { requirePermission } from "@/lib/require-permission";
+import { emitDomainEvent } from "@/lib/outbox";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -13,26 +26,15 @@ function programPoints(ced: any, program: string) {
   return 0;
 }
 
-function calcValueCents(points: number, rateCents: number) {
-  const milheiros = Math.floor((points || 0) / 1000);
-  return milheiros * (rateCents || 0);
-}
-
 export async function GET() {
+  const { db, denied } = await requirePermission("cedentes.read");
+  if (denied) return denied;
+
   try {
-    const settings = await prisma.settings.upsert({
-      where: { key: "default" },
-      create: { key: "default" },
-      update: {},
-      select: {
-        latamRateCents: true,
-        smilesRateCents: true,
-        liveloRateCents: true,
-        esferaRateCents: true,
-      },
-    });
+    // ✅ milheiro com vigência: aberto = preço de hoje; resolvido = preço do dia da resolução
+    const resolveRate = await loadRateResolver(db);
 
-    const blocks = await prisma.blockedAccount.findMany({
+    const blocks = await db.blockedAccount.findMany({
       orderBy: { createdAt: "desc" },
       include: {
         cedente: {
@@ -48,30 +50,42 @@ export async function GET() {
           },
         },
         observations: { orderBy: { createdAt: "desc" } },
+        protocols: {
+          orderBy: { updatedAt: "desc" },
+          select: { id: true, status: true, title: true, updatedAt: true },
+        },
       },
     });
 
+    // ✅ SLA (dias até desbloquear por programa/motivo) → previsão dos abertos sem data
+    const now = new Date();
+    const slaBlocks = await loadSlaBlocks(db);
+    const sla = computeSla(slaBlocks, now);
+
     const rows = blocks.map((b) => {
       const pts = programPoints(b.cedente, b.program);
-      const rateCents =
-        b.program === "LATAM"
-          ? settings.latamRateCents
-          : b.program === "SMILES"
-          ? settings.smilesRateCents
-          : b.program === "LIVELO"
-          ? settings.liveloRateCents
-          : settings.esferaRateCents;
+      const valuedAt = b.status === "OPEN" ? new Date() : b.resolvedAt ?? b.updatedAt;
+      const rateCents = resolveRate(b.program, valuedAt).sellRateCents;
+      const openRateCents = resolveRate(b.program, b.createdAt).sellRateCents;
 
-      const valueCents = calcValueCents(pts, rateCents);
+      const valueCents = milheiroValueCents(pts, rateCents);
+      const forecast = forecastUnlock(b, sla);
 
       return {
         id: b.id,
         status: b.status,
         program: b.program,
         note: b.note,
+        reasonCode: b.reasonCode,
+        reasonLabel: blockReasonLabel(b.program, b.reasonCode),
         estimatedUnlockAt: b.estimatedUnlockAt ? b.estimatedUnlockAt.toISOString() : null,
+        forecastUnlockAt: forecast.at ? forecast.at.toISOString() : null,
+        forecastBasis: forecast.basis,
+        forecastSamples: forecast.samples,
+        overdue: b.status === "OPEN" && !!b.estimatedUnlockAt && b.estimatedUnlockAt < now,
         resolvedAt: b.resolvedAt ? b.resolvedAt.toISOString() : null,
         createdAt: b.createdAt.toISOString(),
+        pointsAtBlock: b.pointsAtBlock,
         cedente: {
           id: b.cedente.id,
           identificador: b.cedente.identificador,
@@ -80,11 +94,20 @@ export async function GET() {
         },
         pointsBlocked: pts,
         valueBlockedCents: valueCents,
+        rateCents,
+        // valor no milheiro do dia do bloqueio (mostra quanto o preço andou)
+        valueAtOpenCents: milheiroValueCents(pts, openRateCents),
         observations: b.observations.map((o) => ({
           id: o.id,
           text: o.text,
           createdAt: o.createdAt.toISOString(),
         })),
+        protocols: b.protocols.map((p) => ({
+          id: p.id,
+          status: p.status,
+          title: p.title,
+          updatedAt: p.updatedAt.toISOString(),
+        })),
       };
     });
 
@@ -93,15 +116,23 @@ export async function GET() {
       openCount: open.length,
       pointsBlocked: open.reduce((a, r) => a + (r.pointsBlocked || 0), 0),
       valueBlockedCents: open.reduce((a, r) => a + (r.valueBlockedCents || 0), 0),
+      overdueCount: open.filter((r) => r.overdue).length,
     };
 
+    // histórico do valor parado: semanal, últimos 12 meses
+    const seriesFrom = new Date(now.getTime() - 364 * 24 * 3600_000);
+    const series = blockValueSeries(slaBlocks, resolveRate, { from: seriesFrom, to: now, stepDays: 7 });
+
     return NextResponse.json(
       {
         ok: true,
         data: {
           rows,
           totals,
-          ratesCents: settings, // pra front mostrar/explicar se quiser
+          ratesCents: ratesAt(resolveRate), // pra front mostrar/explicar se quiser
+          reasons: BLOCK_REASONS,
+          sla,
+          series,
         },
       },
       { status: 200 }
@@ -113,6 +144,9 @@ export async function GET() {
 }
 
 export async function POST(req: Request) {
+  const { session, db, denied } = await requirePermission("cedentes.write");
+  if (denied) return denied;
+
   try {
     const body = await req.json();
     const cedenteId = String(body?.cedenteId || "").trim();
@@ -123,25 +157,56 @@ export async function POST(req: Request) {
     const estimatedUnlockAt = estimatedUnlock ? new Date(estimatedUnlock) : null;
 
     if (!cedenteId) return NextResponse.json({ ok: false, error: "Selecione a conta (cedente)." }, { status: 400 });
-    if (!["LATAM", "SMILES", "LIVELO", "ESFERA"].includes(program))
+    if (!isBlockProgram(program))
       return NextResponse.json({ ok: false, error: "Programa inválido." }, { status: 400 });
+    const reasonCode = parseReasonCode(program, body?.reasonCode);
 
     // (opcional) createdById: se você tiver sessão, aqui você pega e seta.
     const createdById = null;
 
-    const created = await prisma.blockedAccount.create({
-      data: {
-        cedenteId,
-        program: program as any,
-        note,
-        estimatedUnlockAt,
-        createdById,
-        status: "OPEN",
-      },
+    const created = await db.$transaction(async (tx) => {
+      // pontos travados na abertura (base do histórico de valor parado)
+      const ced = await tx.cedente.findUnique({
+        where: { id: cedenteId },
+        select: { pontosLatam: true, pontosSmiles: true, pontosLivelo: true, pontosEsfera: true },
+      });
+      if (!ced) throw new BlockCaseError("Cedente não encontrado.");
+
+      const block = await tx.blockedAccount.create({
+        data: {
+          team: session.team,
+          cedenteId,
+          program,
+          reasonCode,
+          pointsAtBlock: programPoints(ced, program),
+          note,
+          estimatedUnlockAt,
+          createdById,
+          status: "OPEN",
+        },
+      });
+
+      await emitDomainEvent(tx, {
+        team: session.team,
+        type: "block.opened",
+        aggregateType: "BlockedAccount",
+        aggregateId: block.id,
+        actorId: session.id,
+        payload: {
+          cedenteId,
+          program,
+          reasonCode,
+          note,
+          estimatedUnlockAt: estimatedUnlockAt ? estimatedUnlockAt.toISOString() : null,
+        },
+      });
+
+      return block;
     });
 
     return NextResponse.json({ ok: true, data: { id: created.id } }, { status: 201 });
   } catch (e: any) {
+    if (e instanceof BlockCaseError) return NextResponse.json({ ok: false, error: e.message }, { status: 400 });
     console.error(e);
     return NextResponse.json({ ok: false, error: e?.message || "Erro." }, { status: 500 });
   }
@@ -1,40 +1,9 @@
 import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
-import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-type Sess = {
-  id: string;
-  login: string;
-  team: string;
-  role: "admin" | "staff";
-  name?: string;
-};
-
-function b64urlDecode(input: string) {
-  const pad = input.length % 4 === 0 ? "" : "=".repeat(4 - (input.length % 4));
-  const base64 = (input + pad).replace(/-/g, "+").replace(/_/g, "/");
-  return Buffer.from(base64, "base64").toString("utf8");
-}
-function readSessionCookie(raw?: string): Sess | null {
-  if (!raw) return null;
-  try {
-    const parsed = JSON.parse(b64urlDecode(raw)) as Partial<Sess>;
-    if (!parsed?.id || !parsed?.login || !parsed?.team || !parsed?.role) return null;
-    if (parsed.role !== "admin" && parsed.role !== "staff") return null;
-    return parsed as Sess;
-  } catch {
-    return null;
-  }
-}
-async function getServerSession(): Promise<Sess | null> {
-  const store = await cookies();
-  const raw = store.get("tm.session")?.value;
-  return readSessionCookie(raw);
-}
-
 function todayISORecife() {
   const d = new Date();
   const parts = new Intl.DateTimeFormat("en-CA", {
@@ -57,10 +26,9 @@ function safeInt(v: unknown, fb = 0) {
 }
 
 export async function POST(req: Request) {
-  const session = await getServerSession();
-  if (!session?.team) {
-    return NextResponse.json({ ok: false, error: "Não autenticado" }, { status: 401 });
-  }
+  const { session, db, denied } = await requirePermission("financeiro.write");
+  if (denied) return denied;
+
 
   const body = await req.json().catch(() => null);
   if (!body) return NextResponse.json({ ok: false, error: "Body inválido" }, { status: 400 });
@@ -72,7 +40,7 @@ export async function POST(req: Request) {
   const totalDividasCents = safeInt(body.totalDividasCents, 0);
   const totalLiquidoCents = safeInt(body.totalLiquidoCents, 0);
 
-  await prisma.caixaImediatoSnapshot.upsert({
+  await db.caixaImediatoSnapshot.upsert({
     where: { team_date: { team: session.team, date } },
     create: {
       team: session.team,
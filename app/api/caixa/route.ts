@@ -1,6 +1,7 @@
 // app/api/caixa/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
+import { loadRateResolver, ratesAt } from "@/lib/milheiro-rates";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -16,6 +17,9 @@ function toInt(v: any) {
 }
 
 export async function POST(req: NextRequest) {
+  const { session, db, denied } = await requirePermission("financeiro.write");
+  if (denied) return denied;
+
   try {
     const body = await req.json().catch(() => ({}));
 
@@ -27,11 +31,12 @@ export async function POST(req: NextRequest) {
     const totalLiquido = toInt(body?.totalLiquido);
 
     const date = startOfDayUTC(new Date());
+    const milheiroRates = ratesAt(await loadRateResolver(db), date);
 
-    const upserted = await prisma.cashSnapshot.upsert({
-      where: { date },
-      create: { date, totalBruto, totalDividas, totalLiquido },
-      update: { totalBruto, totalDividas, totalLiquido },
+    const upserted = await db.cashSnapshot.upsert({
+      where: { team_date: { team: session.team, date } },
+      create: { team: session.team, date, totalBruto, totalDividas, totalLiquido, milheiroRates },
+      update: { totalBruto, totalDividas, totalLiquido, milheiroRates },
       select: { id: true, date: true, totalBruto: true, totalDividas: true, totalLiquido: true },
     });
 
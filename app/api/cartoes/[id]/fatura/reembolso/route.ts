@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+import { PaymentCardError, cardStatement, parseClosingParam, upsertCycle } from "@/lib/payment-cards";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+function bad(message: string, status = 400) {
+  return NextResponse.json({ ok: false, error: message }, { status });
+}
+
+async function loadClosedStatement(db: Parameters<typeof cardStatement>[0], id: string, raw: unknown) {
+  const closing = parseClosingParam(raw);
+  if (!closing) throw new PaymentCardError("fechamento inválido (use YYYY-MM-DD)");
+
+  const st = await cardStatement(db, id, closing);
+  if (st.closingDate.getTime() !== closing.getTime()) {
+    throw new PaymentCardError("Data não é um fechamento deste cartão.");
+  }
+  if (!st.reimbursable) throw new PaymentCardError("Cartão da empresa não tem reembolso.");
+  return st;
+}
+
+/**
+ * POST /api/cartoes/:id/fatura/reembolso
+ * body: { fechamento } — marca a fatura fechada como reembolsada ao dono (valor = total das taxas).
+ */
+export async function POST(req: NextRequest, { params }: Ctx) {
+  const { session, db, denied } = await requirePermission("payouts.write");
+  if (denied) return denied;
+
+  const { id } = await params;
+  const body = await req.json().catch(() => ({}));
+
+  try {
+    const st = await loadClosedStatement(db, id, body?.fechamento);
+    if (st.closingDate > new Date()) return bad("A fatura ainda não fechou.");
+    if (st.cycle?.reimbursedAt) return bad("Fatura já reembolsada.", 409);
+    if (st.totalCents <= 0) return bad("Nenhuma taxa nessa fatura.");
+
+    await upsertCycle(db, st.card, st.closingDate, {
+      reimbursedCents: st.totalCents,
+      reimbursedAt: new Date(),
+      reimbursedById: session.id,
+    });
+
+    return NextResponse.json({ ok: true, data: await cardStatement(db, id, st.closingDate) });
+  } catch (e) {
+    if (e instanceof PaymentCardError) return bad(e.message);
+    throw e;
+  }
+}
+
+/**
+ * DELETE /api/cartoes/:id/fatura/reembolso?fechamento=YYYY-MM-DD
+ * Desfaz o reembolso (lançado por engano).
+ */
+export async function DELETE(req: NextRequest, { params }: Ctx) {
+  const { db, denied } = await requirePermission("payouts.write");
+  if (denied) return denied;
+
+  const { id } = await params;
+
+  try {
+    const st = await loadClosedStatement(db, id, new URL(req.url).searchParams.get("fechamento"));
+    if (!st.cycle?.reimbursedAt) return bad("Fatura não está reembolsada.");
+
+    await upsertCycle(db, st.card, st.closingDate, {
+      reimbursedCents: null,
+      reimbursedAt: null,
+      reimbursedById: null,
+    });
+
+    return NextResponse.json({ ok: true, data: await cardStatement(db, id, st.closingDate) });
+  } catch (e) {
+    if (e instanceof PaymentCardError) return bad(e.message);
+    throw e;
+  }
+}
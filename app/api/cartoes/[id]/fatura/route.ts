@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+import { PaymentCardError, cardStatement, parseClosingParam, upsertCycle } from "@/lib/payment-cards";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+function bad(message: string, status = 400) {
+  return NextResponse.json({ ok: false, error: message }, { status });
+}
+
+/**
+ * GET /api/cartoes/:id/fatura?fechamento=YYYY-MM-DD
+ * Fatura do ciclo (sem fechamento = a aberta hoje): vendas, total, conferência e reembolso.
+ */
+export async function GET(req: NextRequest, { params }: Ctx) {
+  const { db, denied } = await requirePermission("financeiro.read");
+  if (denied) return denied;
+
+  const { id } = await params;
+  const raw = new URL(req.url).searchParams.get("fechamento");
+  const closing = raw ? parseClosingParam(raw) : null;
+  if (raw && !closing) return bad("fechamento inválido (use YYYY-MM-DD)");
+
+  try {
+    const data = await cardStatement(db, id, closing ?? undefined);
+    return NextResponse.json({ ok: true, data });
+  } catch (e) {
+    if (e instanceof PaymentCardError) return bad(e.message, 404);
+    throw e;
+  }
+}
+
+/**
+ * PATCH /api/cartoes/:id/fatura
+ * body: { fechamento, invoiceCents, notes? } → confere com a fatura do banco
+ * body: { fechamento, invoiceCents: null }   → desfaz a conferência
+ */
+export async function PATCH(req: NextRequest, { params }: Ctx) {
+  const { session, db, denied } = await requirePermission("financeiro.write");
+  if (denied) return denied;
+
+  const { id } = await params;
+  const body = await req.json().catch(() => ({}));
+
+  const closing = parseClosingParam(body?.fechamento);
+  if (!closing) return bad("fechamento inválido (use YYYY-MM-DD)");
+
+  const card = await db.paymentCard.findFirst({
+    where: { id },
+    select: { id: true, team: true, closingDay: true, dueDay: true },
+  });
+  if (!card) return bad("Cartão não encontrado.", 404);
+
+  const undo = body?.invoiceCents === null;
+  const invoiceCents = Math.trunc(Number(body?.invoiceCents));
+  if (!undo && !(invoiceCents >= 0)) return bad("Valor da fatura inválido.");
+
+  const notes = body?.notes === undefined ? undefined : String(body.notes || "").trim().slice(0, 500) || null;
+
+  try {
+    // valida que a data é um fechamento do cartão antes de gravar
+    const st = await cardStatement(db, card.id, closing);
+    if (st.closingDate.getTime() !== closing.getTime()) return bad("Data não é um fechamento deste cartão.");
+
+    await upsertCycle(db, card, closing, {
+      invoiceCents: undo ? null : invoiceCents,
+      reconciledAt: undo ? null : new Date(),
+      reconciledById: undo ? null : session.id,
+      ...(notes !== undefined ? { notes } : {}),
+    });
+
+    return NextResponse.json({ ok: true, data: await cardStatement(db, card.id, closing) });
+  } catch (e) {
+    if (e instanceof PaymentCardError) return bad(e.message);
+    throw e;
+  }
+}
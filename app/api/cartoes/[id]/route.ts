@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+import { PaymentCardError, parseCardInput } from "@/lib/payment-cards";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+function bad(message: string, status = 400) {
+  return NextResponse.json({ ok: false, error: message }, { status });
+}
+
+/** PATCH /api/cartoes/:id — edita (só os campos enviados). */
+export async function PATCH(req: NextRequest, { params }: Ctx) {
+  const { db, denied } = await requirePermission("financeiro.write");
+  if (denied) return denied;
+
+  const { id } = await params;
+  const body = await req.json().catch(() => ({}));
+
+  const current = await db.paymentCard.findFirst({
+    where: { id },
+    select: {
+      label: true,
+      brand: true,
+      last4: true,
+      ownerType: true,
+      ownerUserId: true,
+      closingDay: true,
+      dueDay: true,
+      active: true,
+    },
+  });
+  if (!current) return bad("Cartão não encontrado.", 404);
+
+  try {
+    const input = parseCardInput(body, current);
+
+    if (input.ownerUserId && input.ownerUserId !== current.ownerUserId) {
+      const owner = await db.user.findFirst({ where: { id: input.ownerUserId }, select: { id: true } });
+      if (!owner) return bad("Funcionário dono não encontrado.");
+    }
+
+    const updated = await db.paymentCard.update({
+      where: { id },
+      data: input,
+      include: { ownerUser: { select: { id: true, name: true, login: true } } },
+    });
+
+    return NextResponse.json({ ok: true, data: updated });
+  } catch (e) {
+    if (e instanceof PaymentCardError) return bad(e.message);
+    throw e;
+  }
+}
+
+/**
+ * DELETE /api/cartoes/:id
+ * Cartão com venda vinculada só é desativado (as faturas antigas continuam).
+ */
+export async function DELETE(_req: NextRequest, { params }: Ctx) {
+  const { db, denied } = await requirePermission("financeiro.write");
+  if (denied) return denied;
+
+  const { id } = await params;
+
+  const card = await db.paymentCard.findFirst({
+    where: { id },
+    select: { id: true, _count: { select: { sales: true } } },
+  });
+  if (!card) return bad("Cartão não encontrado.", 404);
+
+  if (card._count.sales > 0) {
+    await db.paymentCard.update({ where: { id }, data: { active: false } });
+    return NextResponse.json({ ok: true, deactivated: true });
+  }
+
+  await db.paymentCard.delete({ where: { id } });
+  return NextResponse.json({ ok: true, deactivated: false });
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+import { pendingReimbursements } from "@/lib/payment-cards";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/cartoes/reembolsos
+ * Faturas fechadas de cartões de funcionário com taxa lançada e sem reembolso.
+ */
+export async function GET() {
+  const { db, denied } = await requirePermission("payouts.read");
+  if (denied) return denied;
+
+  const data = await pendingReimbursements(db);
+  return NextResponse.json({ ok: true, data });
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+import { PaymentCardError, closingFor, parseCardInput } from "@/lib/payment-cards";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function bad(message: string, status = 400) {
+  return NextResponse.json({ ok: false, error: message }, { status });
+}
+
+/**
+ * GET /api/cartoes?all=1
+ * Cartões da taxa de embarque (ativos; all=1 inclui os desativados).
+ * Usado também pelo select de cartão da nova venda.
+ */
+export async function GET(req: NextRequest) {
+  const { db, denied } = await requirePermission("vendas.read");
+  if (denied) return denied;
+
+  const all = new URL(req.url).searchParams.get("all") === "1";
+
+  const cards = await db.paymentCard.findMany({
+    where: all ? {} : { active: true },
+    orderBy: [{ active: "desc" }, { label: "asc" }],
+    include: { ownerUser: { select: { id: true, name: true, login: true } } },
+  });
+
+  const now = new Date();
+  const data = cards.map((c) => ({ ...c, openClosingDate: closingFor(c, now) }));
+
+  return NextResponse.json({ ok: true, data });
+}
+
+/** POST /api/cartoes — cadastra um cartão. */
+export async function POST(req: NextRequest) {
+  const { session, db, denied } = await requirePermission("financeiro.write");
+  if (denied) return denied;
+
+  const body = await req.json().catch(() => ({}));
+
+  try {
+    const input = parseCardInput(body);
+
+    if (input.ownerUserId) {
+      const owner = await db.user.findFirst({ where: { id: input.ownerUserId }, select: { id: true } });
+      if (!owner) return bad("Funcionário dono não encontrado.");
+    }
+
+    const created = await db.paymentCard.create({
+      data: { ...input, team: session.team },
+      include: { ownerUser: { select: { id: true, name: true, login: true } } },
+    });
+
+    return NextResponse.json({ ok: true, data: created }, { status: 201 });
+  } catch (e) {
+    if (e instanceof PaymentCardError) return bad(e.message);
+    throw e;
+  }
+}
@@ -1,6 +1,5 @@
-import { prisma } from "@/lib/prisma";
 import { ok, badRequest, notFound, serverError } from "@/lib/api";
-import { getSessionServer } from "@/lib/auth-server";
+import { requirePermission } from "@/lib/require-permission";
 
 export const dynamic = "force-dynamic";
 
@@ -12,19 +11,22 @@ export async function POST(
   req: Request,
   ctx: { params: Promise<{ id: string }> }
 ) {
+  const { session, db, denied } = await requirePermission("payouts.write");
+  if (denied) return denied;
+
   try {
     const { id } = await ctx.params;
     if (!id) return badRequest("id é obrigatório.");
 
-    const session = await getSessionServer();
     const userId = String(session?.id || "");
     if (!userId) return badRequest("Sessão inválida: faça login novamente.");
 
     const body = await req.json().catch(() => ({} as any));
     const note = typeof body?.note === "string" ? body.note.trim() : "";
 
-    const updated = await prisma.$transaction(async (tx) => {
-      const c = await tx.cedenteCommission.findUnique({ where: { id } });
+    const updated = await db.$transaction(async (tx) => {
+      // ✅ comissão não tem `team`: escopo pelo cedente
+      const c = await tx.cedenteCommission.findFirst({ where: { id, cedente: { team: session.team } } });
       if (!c) return null;
 
       if (c.status === "PAID") {
@@ -33,7 +35,7 @@ export async function POST(
 
       if (c.status === "CANCELED") {
         // idempotente
-        return await tx.cedenteCommission.findUnique({ where: { id } });
+        return await tx.cedenteCommission.findFirst({ where: { id, cedente: { team: session.team } } });
       }
 
       return await tx.cedenteCommission.update({
@@ -1,12 +1,13 @@
-import { prisma } from "@/lib/prisma";
 import { ok, badRequest, serverError } from "@/lib/api";
-import { getSessionServer } from "@/lib/auth-server";
+import { requirePermission } from "@/lib/require-permission";
 
 export const dynamic = "force-dynamic";
 
 export async function GET(req: Request) {
+  const { session, db, denied } = await requirePermission("payouts.read");
+  if (denied) return denied;
+
   try {
-    const session = await getSessionServer();
     const userId = String(session?.id || "");
     if (!userId) return badRequest("Sessão inválida: faça login novamente.");
 
@@ -43,8 +44,8 @@ export async function GET(req: Request) {
       if (to) where.generatedAt.lte = endOfDay(parseDateOnly(to));
     }
 
-    const [items, total] = await prisma.$transaction([
-      prisma.cedenteCommission.findMany({
+    const [items, total] = await db.$transaction([
+      db.cedenteCommission.findMany({
         where,
         orderBy: { generatedAt: "desc" },
         take,
@@ -56,7 +57,7 @@ export async function GET(req: Request) {
           paidBy: { select: { id: true, name: true, login: true } },
         },
       }),
-      prisma.cedenteCommission.count({ where }),
+      db.cedenteCommission.count({ where }),
     ]);
 
     return ok({ total, take, skip, items });
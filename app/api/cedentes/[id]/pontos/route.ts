@@ -1,20 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { getSessionServer } from "@/lib/auth-server";
+import { LoyaltyProgram } from "@prisma/client";
+import { reconcileCedentePoints, setPointsBalances } from "@/lib/points-ledger";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-const PROGRAM_FIELD: Record<
-  string,
-  "pontosLatam" | "pontosSmiles" | "pontosLivelo" | "pontosEsfera"
-> = {
-  LATAM: "pontosLatam",
-  SMILES: "pontosSmiles",
-  LIVELO: "pontosLivelo",
-  ESFERA: "pontosEsfera",
-};
-
 function bad(message: string, status = 400) {
   return NextResponse.json({ ok: false, error: message }, { status });
 }
@@ -24,51 +15,120 @@ function safeInt(v: unknown, fb = 0) {
   return Number.isFinite(n) ? Math.trunc(n) : fb;
 }
 
+function parseProgram(v: unknown): LoyaltyProgram | null {
+  const up = String(v || "").trim().toUpperCase();
+  return up in LoyaltyProgram ? (up as LoyaltyProgram) : null;
+}
+
+/**
+ * GET /api/cedentes/[id]/pontos?program=LATAM&limit=200
+ * Extrato de pontos do cedente (mais recentes primeiro) + conciliação com o saldo do cadastro.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { session, db, denied } = await requirePermission("cedentes.read");
+  if (denied) return denied;
+
+  const { id } = await params;
+
+
+  const { searchParams } = new URL(req.url);
+  const programRaw = searchParams.get("program");
+  const program = programRaw ? parseProgram(programRaw) : null;
+  if (programRaw && !program) return bad("Programa inválido");
+
+  const limit = Math.max(1, Math.min(1000, safeInt(searchParams.get("limit"), 200)));
+
+  try {
+    const ced = await db.cedente.findFirst({
+      where: { id, owner: { team: session.team } },
+      select: { id: true, identificador: true, nomeCompleto: true },
+    });
+    if (!ced) return bad("Cedente não encontrado", 404);
+
+    const entries = await db.pointsLedgerEntry.findMany({
+      where: { cedenteId: id, ...(program ? { program } : {}) },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: limit,
+      select: {
+        id: true,
+        program: true,
+        deltaPoints: true,
+        balanceAfter: true,
+        source: true,
+        refType: true,
+        refId: true,
+        note: true,
+        createdAt: true,
+        actor: { select: { id: true, name: true, login: true } },
+      },
+    });
+
+    const reconciliation = await reconcileCedentePoints(id);
+
+    return NextResponse.json({
+      ok: true,
+      cedente: ced,
+      entries,
+      ledger: reconciliation?.ledger ?? null,
+      divergences: reconciliation?.divergences ?? [],
+    });
+  } catch {
+    return bad("Falha ao carregar extrato.", 500);
+  }
+}
+
+/**
+ * PATCH /api/cedentes/[id]/pontos
+ * Body: { program, points, note? } — define o saldo e lança a diferença como ajuste manual.
+ */
 export async function PATCH(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const { session, db, denied } = await requirePermission("cedentes.write");
+  if (denied) return denied;
+
   const { id } = await params; // ✅ Next 16 espera params como Promise
 
-  const session = await getSessionServer();
-  if (!session) return bad("Não autenticado", 401);
 
   const body = await req.json().catch(() => null);
   if (!body) return bad("JSON inválido");
 
-  const program = String(body.program || "").toUpperCase();
-  const field = PROGRAM_FIELD[program];
-  if (!field) return bad("Programa inválido");
+  const program = parseProgram(body.program);
+  if (!program) return bad("Programa inválido");
 
   const points = safeInt(body.points, NaN);
   if (!Number.isFinite(points) || points < 0) return bad("Pontos inválidos");
 
+  const note = body.note ? String(body.note).trim() || null : null;
+
   try {
-    const ced = await prisma.cedente.findFirst({
+    const ced = await db.cedente.findFirst({
       where: { id, owner: { team: session.team } },
       select: { id: true },
     });
     if (!ced) return bad("Cedente não encontrado", 404);
 
-    const updated = await prisma.cedente.update({
-      where: { id },
-      data: { [field]: points } as any,
-      select: {
-        id: true,
-        pontosLatam: true,
-        pontosSmiles: true,
-        pontosLivelo: true,
-        pontosEsfera: true,
-      },
-    });
+    const entries = await db.$transaction((tx) =>
+      setPointsBalances(tx, id, { [program]: points }, {
+        source: "MANUAL_ADJUSTMENT",
+        actorId: session.id,
+        refType: "CEDENTE",
+        refId: id,
+        note,
+      })
+    );
 
     return NextResponse.json({
       ok: true,
-      id: updated.id,
+      id,
       program,
-      points: (updated as any)[field],
+      points: entries[0]?.balanceAfter ?? points,
     });
-  } catch (e) {
+  } catch {
     return bad("Falha ao processar no banco.", 500);
   }
 }
@@ -1,7 +1,6 @@
 // app/api/cedentes/[id]/review/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { getSessionServer } from "@/lib/auth-server";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -16,6 +15,9 @@ function asInt(v: unknown) {
 type Ctx = { params: Promise<{ id: string }> };
 
 export async function POST(req: NextRequest, ctx: Ctx) {
+  const { session, db, denied } = await requirePermission("cedentes.write");
+  if (denied) return denied;
+
   try {
     const { id } = await ctx.params;
     if (!id) {
@@ -29,10 +31,6 @@ export async function POST(req: NextRequest, ctx: Ctx) {
       return NextResponse.json({ ok: false, error: "Ação inválida" }, { status: 400 });
     }
 
-    const session = await getSessionServer();
-    if (!session?.id) {
-      return NextResponse.json({ ok: false, error: "Não autenticado" }, { status: 401 });
-    }
 
     const p = body?.points || {};
     const pontosLatam = asInt(p?.pontosLatam);
@@ -43,7 +41,7 @@ export async function POST(req: NextRequest, ctx: Ctx) {
     // ✅ sem any
     const status = action === "APPROVE" ? "APPROVED" : "REJECTED";
 
-    const updated = await prisma.cedente.update({
+    const updated = await db.cedente.update({
       where: { id },
       data: {
         status,
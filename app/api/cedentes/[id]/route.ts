@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { PixTipo } from "@prisma/client";
+import { LoyaltyProgram, PixTipo } from "@prisma/client";
+import { LEDGER_PROGRAMS, POINTS_FIELD, setPointsBalances } from "@/lib/points-ledger";
+import { encryptSecretFields, maskSecretFields } from "@/lib/cedente-credentials";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -104,24 +106,31 @@ const SELECT = {
 } as const;
 
 export async function GET(_req: NextRequest, ctx: Ctx) {
+  const { db, denied } = await requirePermission("cedentes.read");
+  if (denied) return denied;
+
   try {
     const { id } = await resolveParams(ctx.params);
     if (!id) return bad("ID ausente.", 400);
 
-    const cedente = await prisma.cedente.findUnique({
+    const cedente = await db.cedente.findUnique({
       where: { id },
       select: SELECT,
     });
 
     if (!cedente) return bad("Cedente não encontrado.", 404);
 
-    return NextResponse.json({ ok: true, data: cedente }, { headers: noCacheHeaders() });
+    // ✅ senha nunca sai daqui: só máscara (revelar = /api/cedentes/reveal-credencial)
+    return NextResponse.json({ ok: true, data: maskSecretFields(cedente) }, { headers: noCacheHeaders() });
   } catch (e: any) {
     return bad(e?.message || "Erro ao buscar cedente.", 500);
   }
 }
 
 export async function PUT(req: NextRequest, ctx: Ctx) {
+  const { session, db, denied } = await requirePermission("cedentes.write");
+  if (denied) return denied;
+
   try {
     const { id } = await resolveParams(ctx.params);
     if (!id) return bad("ID ausente.", 400);
@@ -130,7 +139,7 @@ export async function PUT(req: NextRequest, ctx: Ctx) {
     if (!body || typeof body !== "object") return bad("Body inválido.", 400);
 
     // garante que existe
-    const current = await prisma.cedente.findUnique({
+    const current = await db.cedente.findUnique({
       where: { id },
       select: {
         id: true,
@@ -179,7 +188,7 @@ export async function PUT(req: NextRequest, ctx: Ctx) {
       data.dataNascimento = parsed;
     }
 
-    // senhas
+    // senhas (cifradas abaixo; máscara = sem alteração)
     if ("senhaEmail" in body) data.senhaEmail = strOrNull(body.senhaEmail);
     if ("senhaSmiles" in body) data.senhaSmiles = strOrNull(body.senhaSmiles);
     if ("senhaLatamPass" in body) data.senhaLatamPass = strOrNull(body.senhaLatamPass);
@@ -191,16 +200,12 @@ export async function PUT(req: NextRequest, ctx: Ctx) {
     if ("senhaAzul" in body) data.senhaAzul = strOrNull(body.senhaAzul);
     if ("senhaFlyingBlue" in body) data.senhaFlyingBlue = strOrNull(body.senhaFlyingBlue);
 
-    // pontos
-    if ("pontosLatam" in body) data.pontosLatam = intNonNeg(body.pontosLatam);
-    if ("pontosSmiles" in body) data.pontosSmiles = intNonNeg(body.pontosSmiles);
-    if ("pontosLivelo" in body) data.pontosLivelo = intNonNeg(body.pontosLivelo);
-    if ("pontosEsfera" in body) data.pontosEsfera = intNonNeg(body.pontosEsfera);
-    if ("pontosIberia" in body) data.pontosIberia = intNonNeg(body.pontosIberia);
-    if ("pontosAA" in body) data.pontosAA = intNonNeg(body.pontosAA);
-    if ("pontosTAP" in body) data.pontosTAP = intNonNeg(body.pontosTAP);
-    if ("pontosAzul" in body) data.pontosAzul = intNonNeg(body.pontosAzul);
-    if ("pontosFlyingBlue" in body) data.pontosFlyingBlue = intNonNeg(body.pontosFlyingBlue);
+    // pontos (aplicados via extrato: ajuste manual)
+    const pontos: Partial<Record<LoyaltyProgram, number>> = {};
+    for (const program of LEDGER_PROGRAMS) {
+      const field = POINTS_FIELD[program];
+      if (field in body) pontos[program] = intNonNeg(body[field]);
+    }
 
     // obrigatórios (mantém current se não veio no body)
     const bancoFinal = "banco" in data ? data.banco : current.banco;
@@ -223,13 +228,23 @@ export async function PUT(req: NextRequest, ctx: Ctx) {
     data.identificador = identificadorFinal;
     data.nomeCompleto = nomeFinal;
 
-    const updated = await prisma.cedente.update({
-      where: { id },
-      data,
-      select: SELECT,
+    const updated = await db.$transaction(async (tx) => {
+      await setPointsBalances(tx, id, pontos, {
+        source: "MANUAL_ADJUSTMENT",
+        actorId: session?.id ?? null,
+        refType: "CEDENTE",
+        refId: id,
+        note: "Edição do cadastro",
+      });
+
+      return tx.cedente.update({
+        where: { id },
+        data: encryptSecretFields(data),
+        select: SELECT,
+      });
     });
 
-    return NextResponse.json({ ok: true, data: updated }, { headers: noCacheHeaders() });
+    return NextResponse.json({ ok: true, data: maskSecretFields(updated) }, { headers: noCacheHeaders() });
   } catch (e: any) {
     if (e?.code === "P2025") return bad("Cedente não encontrado.", 404);
 
@@ -1,5 +1,5 @@
 import { NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -16,8 +16,11 @@ function noCacheHeaders() {
 }
 
 export async function GET() {
+  const { db, denied } = await requirePermission("cedentes.read");
+  if (denied) return denied;
+
   try {
-    const rows = await prisma.cedente.findMany({
+    const rows = await db.cedente.findMany({
       where: { status: "APPROVED" },
       orderBy: { createdAt: "desc" },
       select: {
@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { getSessionServer } from "@/lib/auth-server";
-import { TERMO_VERSAO } from "@/lib/termos";
+import { getCurrentTermInfo } from "@/lib/termos";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -41,15 +40,16 @@ function getErrorMessage(error: unknown, fallback: string) {
 }
 
 export async function GET(req: NextRequest) {
-  const session = await getSessionServer();
-  if (!session?.id) return bad("Não autenticado.", 401);
+  const { session, db, denied } = await requirePermission("cedentes.read");
+  if (denied) return denied;
+
 
   try {
     const url = new URL(req.url);
-    const termoVersao = (url.searchParams.get("versao") || TERMO_VERSAO).trim();
+    const termoVersao = (url.searchParams.get("versao") || (await getCurrentTermInfo(db)).versao).trim();
     const includeAll = isTruthy(url.searchParams.get("all"));
 
-    const cedentes = await prisma.cedente.findMany({
+    const cedentes = await db.cedente.findMany({
       where: {
         status: "APPROVED",
         owner: { team: session.team },
@@ -109,8 +109,9 @@ export async function GET(req: NextRequest) {
 }
 
 export async function POST(req: NextRequest) {
-  const session = await getSessionServer();
-  if (!session?.id) return bad("Não autenticado.", 401);
+  const { session, db, denied } = await requirePermission("cedentes.write");
+  if (denied) return denied;
+
 
   try {
     const body = await req.json().catch(() => ({}));
@@ -118,7 +119,7 @@ export async function POST(req: NextRequest) {
 
     if (!cedenteId) return bad("cedenteId é obrigatório.");
 
-    const cedente = await prisma.cedente.findFirst({
+    const cedente = await db.cedente.findFirst({
       where: { id: cedenteId, owner: { team: session.team } },
       select: { id: true },
     });
@@ -129,7 +130,7 @@ export async function POST(req: NextRequest) {
     const turnoTarde = asBool(body?.turnoTarde);
     const turnoNoite = asBool(body?.turnoNoite);
 
-    const row = await prisma.cedenteBiometriaHorario.upsert({
+    const row = await db.cedenteBiometriaHorario.upsert({
       where: { cedenteId },
       create: {
         cedenteId,
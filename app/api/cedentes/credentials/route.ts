@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import prisma from "@/lib/prisma";
+import { SECRET_MASK } from "@/lib/cedente-credentials";
+import { requirePermission } from "@/lib/require-permission";
 
 export const dynamic = "force-dynamic";
 // opcional (se usar pg/adapter): garante Node
@@ -30,20 +31,10 @@ function pickSenhaPrograma(program: Program, c: any) {
 }
 
 export async function GET(req: NextRequest) {
-  try {
-    // ✅ pega cookie direto do request (sem cookies() async)
-    const hasSession =
-      req.cookies.get("tm.session")?.value ||
-      req.cookies.get("auth_session")?.value ||
-      req.cookies.get("session")?.value;
-
-    if (!hasSession) {
-      return NextResponse.json(
-        { ok: false, error: "Não autenticado." },
-        { status: 401 }
-      );
-    }
+  const { session, db, denied } = await requirePermission("credentials.reveal");
+  if (denied) return denied;
 
+  try {
     const { searchParams } = new URL(req.url);
     const cedenteId = (searchParams.get("cedenteId") || "").trim();
     const program = (searchParams.get("program") || "")
@@ -75,8 +66,8 @@ export async function GET(req: NextRequest) {
       );
     }
 
-    const cedente = await prisma.cedente.findUnique({
-      where: { id: cedenteId },
+    const cedente = await db.cedente.findFirst({
+      where: { id: cedenteId, owner: { team: session.team } },
       select: {
         cpf: true,
         emailCriado: true,
@@ -105,8 +96,9 @@ export async function GET(req: NextRequest) {
       data: {
         cpf: cedente.cpf,
         email: cedente.emailCriado ?? null,
-        senhaPrograma: pickSenhaPrograma(program, cedente),
-        senhaEmail: cedente.senhaEmail ?? null,
+        // ✅ só máscara: o valor vem de /api/cedentes/reveal-credencial (auditado)
+        senhaPrograma: pickSenhaPrograma(program, cedente) ? SECRET_MASK : null,
+        senhaEmail: cedente.senhaEmail ? SECRET_MASK : null,
       },
     });
   } catch (e: any) {
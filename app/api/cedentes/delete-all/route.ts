@@ -1,48 +1,20 @@
 import { prisma } from "@/lib/prisma";
+import { getSessionServer } from "@/lib/auth-server";
 import { NextResponse } from "next/server";
 import crypto from "node:crypto";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 
-type SessionCookie = {
-  id: string;
-  login: string;
-  role: "admin" | "staff";
-  team: string;
-};
-
 function sha256(s: string) {
   return crypto.createHash("sha256").update(s).digest("hex");
 }
 
-function b64urlDecode(input: string) {
-  const pad = input.length % 4 === 0 ? "" : "=".repeat(4 - (input.length % 4));
-  const b64 = input.replace(/-/g, "+").replace(/_/g, "/") + pad;
-  return Buffer.from(b64, "base64").toString("utf8");
-}
-
-function readCookie(req: Request, name: string) {
-  const raw = req.headers.get("cookie") || "";
-  const parts = raw.split(";").map((s) => s.trim());
-  const hit = parts.find((p) => p.startsWith(name + "="));
-  if (!hit) return null;
-  return decodeURIComponent(hit.slice(name.length + 1));
-}
-
-async function requirePassword(req: Request, password: string) {
-  const cookie = readCookie(req, "tm.session");
-  if (!cookie) return { ok: false as const, status: 401, error: "Não autenticado." };
-
-  let session: SessionCookie | null = null;
-  try {
-    session = JSON.parse(b64urlDecode(cookie)) as SessionCookie;
-  } catch {
-    return { ok: false as const, status: 401, error: "Sessão inválida." };
-  }
-
-  if (!session?.id) return { ok: false as const, status: 401, error: "Sessão sem ID." };
+async function requirePassword(password: string) {
+  const session = await getSessionServer();
+  if (!session?.id) return { ok: false as const, status: 401, error: "Não autenticado." };
 
   const user = await prisma.user.findUnique({
     where: { id: session.id },
@@ -59,6 +31,9 @@ async function requirePassword(req: Request, password: string) {
 }
 
 export async function POST(req: Request) {
+  const { db, denied } = await requirePermission("cedentes.delete");
+  if (denied) return denied;
+
   try {
     const body = await req.json().catch(() => null);
     const password = String(body?.password ?? "").trim();
@@ -67,12 +42,12 @@ export async function POST(req: Request) {
       return NextResponse.json({ ok: false, error: "Senha ausente." }, { status: 400 });
     }
 
-    const auth = await requirePassword(req, password);
+    const auth = await requirePassword(password);
     if (!auth.ok) {
       return NextResponse.json({ ok: false, error: auth.error }, { status: auth.status });
     }
 
-    const r = await prisma.cedente.deleteMany({});
+    const r = await db.cedente.deleteMany({});
     return NextResponse.json({ ok: true, deleted: r.count });
   } catch (e: any) {
     return NextResponse.json({ ok: false, error: e?.message || "Erro ao apagar." }, { status: 500 });
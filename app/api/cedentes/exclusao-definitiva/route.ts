@@ -2,13 +2,9 @@ import { prisma } from "@/lib/prisma";
 import { NextResponse } from "next/server";
 import type { Prisma } from "@prisma/client";
 import crypto from "node:crypto";
-
-type SessionCookie = {
-  id: string;
-  login: string;
-  role: "admin" | "staff";
-  team: string;
-};
+import { setPointsBalances } from "@/lib/points-ledger";
+import { getSessionServer } from "@/lib/auth-server";
+import { requirePermission } from "@/lib/require-permission";
 
 type Program = "LATAM" | "SMILES" | "LIVELO" | "ESFERA";
 type ScopeMode = "ACCOUNT" | "PROGRAM";
@@ -19,34 +15,8 @@ function sha256(s: string) {
   return crypto.createHash("sha256").update(s).digest("hex");
 }
 
-function b64urlDecode(input: string) {
-  const pad = input.length % 4 === 0 ? "" : "=".repeat(4 - (input.length % 4));
-  const b64 = input.replace(/-/g, "+").replace(/_/g, "/") + pad;
-  return Buffer.from(b64, "base64").toString("utf8");
-}
-
-function readCookie(req: Request, name: string) {
-  const raw = req.headers.get("cookie") || "";
-  const parts = raw.split(";").map((s) => s.trim());
-  const hit = parts.find((p) => p.startsWith(name + "="));
-  if (!hit) return null;
-  return decodeURIComponent(hit.slice(name.length + 1));
-}
-
-function getSession(req: Request): SessionCookie | null {
-  const cookie = readCookie(req, "tm.session");
-  if (!cookie) return null;
-  try {
-    const s = JSON.parse(b64urlDecode(cookie)) as SessionCookie;
-    if (!s?.id || !s?.team || !s?.role || !s?.login) return null;
-    return s;
-  } catch {
-    return null;
-  }
-}
-
-async function requirePassword(req: Request, password: string) {
-  const session = getSession(req);
+async function requirePassword(password: string) {
+  const session = await getSessionServer();
   if (!session) return { ok: false as const, status: 401, error: "Não autenticado." };
 
   const user = await prisma.user.findUnique({
@@ -73,14 +43,12 @@ function getErrorMessage(error: unknown, fallback: string) {
   return fallback;
 }
 
-export async function GET(req: Request) {
-  try {
-    const session = getSession(req);
-    if (!session?.id) {
-      return NextResponse.json({ ok: false, error: "Não autenticado." }, { status: 401 });
-    }
+export async function GET() {
+  const { session, db, denied } = await requirePermission("cedentes.delete");
+  if (denied) return denied;
 
-    const rows = await prisma.cedenteExclusion.findMany({
+  try {
+    const rows = await db.cedenteExclusion.findMany({
       where: { team: session.team },
       orderBy: { createdAt: "desc" },
       take: 500,
@@ -109,6 +77,9 @@ export async function GET(req: Request) {
 }
 
 export async function POST(req: Request) {
+  const { db, denied } = await requirePermission("cedentes.delete");
+  if (denied) return denied;
+
   try {
     const body = await req.json().catch(() => null);
 
@@ -130,12 +101,12 @@ export async function POST(req: Request) {
       return NextResponse.json({ ok: false, error: "Senha obrigatória." }, { status: 400 });
     }
 
-    const auth = await requirePassword(req, password);
+    const auth = await requirePassword(password);
     if (!auth.ok) {
       return NextResponse.json({ ok: false, error: auth.error }, { status: auth.status });
     }
 
-    const result = await prisma.$transaction(async (tx) => {
+    const result = await db.$transaction(async (tx) => {
       const ced = await tx.cedente.findUnique({
         where: { id: cedenteId },
         select: {
@@ -173,16 +144,25 @@ export async function POST(req: Request) {
           await tx.latamTurboAccount.deleteMany({ where: { cedenteId } })
         ).count;
 
+        await setPointsBalances(
+          tx,
+          cedenteId,
+          { LATAM: 0, SMILES: 0, LIVELO: 0, ESFERA: 0 },
+          {
+            source: "EXCLUSION",
+            actorId: auth.userId,
+            refType: "CEDENTE",
+            refId: cedenteId,
+            note: "Exclusão definitiva da conta",
+          }
+        );
+
         await tx.cedente.update({
           where: { id: cedenteId },
           data: {
             status: "REJECTED",
             telefone: null,
             emailCriado: null,
-            pontosLatam: 0,
-            pontosSmiles: 0,
-            pontosLivelo: 0,
-            pontosEsfera: 0,
             senhaEmail: null,
             senhaSmiles: null,
             senhaLatamPass: null,
@@ -259,18 +239,29 @@ export async function POST(req: Request) {
         ).count;
       }
 
+      if (program === "LATAM" || program === "SMILES" || program === "LIVELO" || program === "ESFERA") {
+        await setPointsBalances(
+          tx,
+          cedenteId,
+          { [program]: 0 },
+          {
+            source: "EXCLUSION",
+            actorId: auth.userId,
+            refType: "CEDENTE",
+            refId: cedenteId,
+            note: `Exclusão definitiva do programa ${program}`,
+          }
+        );
+      }
+
       const cedentePatch: Prisma.CedenteUpdateInput = {};
       if (program === "LATAM") {
-        cedentePatch.pontosLatam = 0;
         cedentePatch.senhaLatamPass = null;
       } else if (program === "SMILES") {
-        cedentePatch.pontosSmiles = 0;
         cedentePatch.senhaSmiles = null;
       } else if (program === "LIVELO") {
-        cedentePatch.pontosLivelo = 0;
         cedentePatch.senhaLivelo = null;
       } else if (program === "ESFERA") {
-        cedentePatch.pontosEsfera = 0;
         cedentePatch.senhaEsfera = null;
       }
 
@@ -1,8 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { requireSession } from "@/lib/auth-server";
 import { CedenteStatus } from "@prisma/client";
 import type { Prisma } from "@prisma/client";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -31,8 +30,10 @@ function canViewSecrets(roleRaw: any) {
 }
 
 export async function GET(req: NextRequest) {
+  const { session, db, denied } = await requirePermission("cedentes.read");
+  if (denied) return denied;
+
   try {
-    const session = await requireSession();
     if (!session) {
       return NextResponse.json(
         { ok: false, error: "Não autenticado." },
@@ -75,7 +76,7 @@ export async function GET(req: NextRequest) {
         ? [{ createdAt: "desc" }]
         : [{ reviewedAt: "desc" }, { createdAt: "desc" }];
 
-    const rows = await prisma.cedente.findMany({
+    const rows = await db.cedente.findMany({
       where,
       orderBy,
       take: 500,
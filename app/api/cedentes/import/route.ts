@@ -1,6 +1,8 @@
 import { NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
+import { adoptProjectedPoints } from "@/lib/points-ledger";
+import { encryptSecretFields } from "@/lib/cedente-credentials";
 import { PixTipo, CedenteStatus } from "@prisma/client";
+import { requirePermission } from "@/lib/require-permission";
 
 /* =======================
    Tipos
@@ -18,7 +20,7 @@ type ImportRow = {
   pixTipo?: keyof typeof PixTipo | PixTipo | null;
   chavePix?: string | null;
 
-  // Senhas (agora SEM ENC)
+  // Senhas (texto puro na planilha; cifradas ao salvar)
   senhaEmail?: string | null;
   senhaSmiles?: string | null;
   senhaLatamPass?: string | null;
@@ -186,6 +188,9 @@ function asFillNullable(v: unknown): string | null {
    POST
 ======================= */
 export async function POST(req: Request) {
+  const { session, db, denied } = await requirePermission("cedentes.write");
+  if (denied) return denied;
+
   try {
     const body = await req.json().catch(() => null);
     const rows: ImportRow[] = Array.isArray(body?.rows) ? body.rows : [];
@@ -226,10 +231,11 @@ export async function POST(req: Request) {
         String(r?.identificador ?? "").trim() || makeIdentifier(nomeCompleto, i);
 
       try {
-        await prisma.cedente.upsert({
+        const saved = await db.cedente.upsert({
           where: { cpf },
 
-          create: {
+          create: encryptSecretFields({
+            team: session.team,
             identificador,
             nomeCompleto,
             cpf,
@@ -245,7 +251,7 @@ export async function POST(req: Request) {
 
             titularConfirmado: true,
 
-            // ✅ SENHAS (SEM ENC) — se faltar -> "PREENCHER"
+            // ✅ SENHAS (cifradas) — se faltar -> "PREENCHER"
             senhaEmail: asFillText(r?.senhaEmail),
             senhaSmiles: asFillText(r?.senhaSmiles),
             senhaLatamPass: asFillText(r?.senhaLatamPass),
@@ -260,9 +266,9 @@ export async function POST(req: Request) {
 
             status: CedenteStatus.APPROVED,
             ownerId,
-          },
+          }),
 
-          update: {
+          update: encryptSecretFields({
             nomeCompleto,
             dataNascimento: r?.dataNascimento ? parseDateSafe(r.dataNascimento) : undefined,
 
@@ -273,7 +279,7 @@ export async function POST(req: Request) {
             pixTipo: r?.pixTipo ? normalizePixTipo(r.pixTipo) : undefined,
             chavePix: r?.chavePix ? String(r.chavePix).trim() : undefined,
 
-            // ✅ SENHAS (SEM ENC)
+            // ✅ SENHAS (cifradas)
             senhaEmail: r?.senhaEmail ? asPlain(r.senhaEmail) : undefined,
             senhaSmiles: r?.senhaSmiles ? asPlain(r.senhaSmiles) : undefined,
             senhaLatamPass: r?.senhaLatamPass ? asPlain(r.senhaLatamPass) : undefined,
@@ -286,9 +292,19 @@ export async function POST(req: Request) {
             pontosEsfera: r?.pontosEsfera != null ? parsePontosSafe(r.pontosEsfera) : undefined,
 
             ownerId,
-          },
+          }),
+          select: { id: true },
         });
 
+        await db.$transaction((tx) =>
+          adoptProjectedPoints(tx, saved.id, {
+            source: "MANUAL_ADJUSTMENT",
+            refType: "CEDENTE",
+            refId: saved.id,
+            note: "Importação de planilha",
+          })
+        );
+
         count++;
       } catch (e: any) {
         errors.push({ i, reason: e?.code || "erro ao salvar" });
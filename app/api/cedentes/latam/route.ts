@@ -1,7 +1,9 @@
 // app/api/cedentes/latam/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
 import { requireSession } from "@/lib/auth-server";
+import { setPointsBalances } from "@/lib/points-ledger";
+import { SECRET_MASK } from "@/lib/cedente-credentials";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -49,8 +51,10 @@ function addMonthsUTC(d: Date, m: number) {
    GET
 ========================= */
 export async function GET(req: NextRequest) {
+  const { session, db, denied } = await requirePermission("cedentes.read");
+  if (denied) return denied;
+
   try {
-    const session = await requireSession();
     const url = new URL(req.url);
     const q = (url.searchParams.get("q") || "").trim();
     const ownerId = (url.searchParams.get("ownerId") || "").trim();
@@ -82,7 +86,7 @@ export async function GET(req: NextRequest) {
       OR: [{ pontosLatam: { gt: 0 } }, { senhaLatamPass: { not: null } }],
     });
 
-    const cedentesRaw = await prisma.cedente.findMany({
+    const cedentesRaw = await db.cedente.findMany({
       where: whereCedente,
       select: {
         id: true,
@@ -106,7 +110,7 @@ export async function GET(req: NextRequest) {
     // =========================
     // BLOQUEADOS LATAM (BlockedAccount OPEN)
     // =========================
-    const blockedLatam = await prisma.blockedAccount.findMany({
+    const blockedLatam = await db.blockedAccount.findMany({
       where: {
         cedenteId: { in: idsRaw },
         program: "LATAM",
@@ -127,7 +131,7 @@ export async function GET(req: NextRequest) {
     // =========================
     // Pendentes LATAM (PurchaseItem PENDING)
     // =========================
-    const pendingItems = await prisma.purchaseItem.findMany({
+    const pendingItems = await db.purchaseItem.findMany({
       where: {
         status: "PENDING",
         purchase: {
@@ -156,7 +160,7 @@ export async function GET(req: NextRequest) {
     const w0 = addMonthsUTC(m0, -12);
     const w1 = addMonthsUTC(m0, 1);
 
-    const grouped = await prisma.emissionEvent.groupBy({
+    const grouped = await db.emissionEvent.groupBy({
       by: ["cedenteId"],
       where: {
         program: "LATAM",
@@ -188,8 +192,9 @@ export async function GET(req: NextRequest) {
         cpf: c.cpf,
         telefone: c.telefone || null,
         emailCriado: c.emailCriado || null,
-        senhaEmail: c.senhaEmail || null,
-        senhaLatamPass: c.senhaLatamPass || null,
+        // ✅ só máscara: valor real via /api/cedentes/reveal-credencial
+        senhaEmail: c.senhaEmail ? SECRET_MASK : null,
+        senhaLatamPass: c.senhaLatamPass ? SECRET_MASK : null,
         owner: c.owner,
 
         latamAprovado: c.pontosLatam || 0,
@@ -215,6 +220,9 @@ export async function GET(req: NextRequest) {
    PATCH (inline edit pontosLatam)
 ========================= */
 export async function PATCH(req: NextRequest) {
+  const { db, denied } = await requirePermission("cedentes.write");
+  if (denied) return denied;
+
   try {
     // ✅ Tenta com req (se requireSession precisar), senão segue.
     const session = await (requireSession as any)(req);
@@ -228,7 +236,7 @@ export async function PATCH(req: NextRequest) {
       return bad("pontosLatam inválido");
     }
 
-    const ced = await prisma.cedente.findUnique({
+    const ced = await db.cedente.findUnique({
       where: { id },
       select: { id: true, ownerId: true },
     });
@@ -252,7 +260,7 @@ export async function PATCH(req: NextRequest) {
 
     // ✅ se role não veio pela sessão, busca no DB (isso resolve “sou admin mas veio sem role”)
     if ((!role || role === "undefined") && (sessionUserId || sessionLogin)) {
-      const u = await prisma.user.findFirst({
+      const u = await db.user.findFirst({
         where: sessionUserId ? { id: sessionUserId } : { login: sessionLogin },
         select: { id: true, role: true },
       });
@@ -271,10 +279,15 @@ export async function PATCH(req: NextRequest) {
 
     if (!isAdmin && !isOwner) return bad("Sem permissão", 403);
 
-    await prisma.cedente.update({
-      where: { id },
-      data: { pontosLatam },
-    });
+    await db.$transaction((tx) =>
+      setPointsBalances(tx, id, { LATAM: pontosLatam }, {
+        source: "MANUAL_ADJUSTMENT",
+        actorId: sessionUserId || null,
+        refType: "CEDENTE",
+        refId: id,
+        note: "Edição inline (LATAM)",
+      })
+    );
 
     return ok({}); // { ok: true }
   } catch (e: any) {
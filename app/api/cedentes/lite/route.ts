@@ -1,6 +1,5 @@
 import { NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { requireSession } from "@/lib/auth-server";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -17,9 +16,11 @@ function noCacheHeaders() {
 }
 
 export async function GET() {
-  const session = await requireSession();
+  const { session, db, denied } = await requirePermission("cedentes.read");
+  if (denied) return denied;
 
-  const rows = await prisma.cedente.findMany({
+
+  const rows = await db.cedente.findMany({
     where: {
       owner: { team: session.team },
       status: { in: ["PENDING", "APPROVED"] },
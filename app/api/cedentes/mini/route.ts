@@ -1,7 +1,6 @@
 // app/api/cedentes/mini/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { requireSession } from "@/lib/auth-server";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -24,10 +23,12 @@ function bad(message: string, status = 400) {
 }
 
 export async function GET(_req: NextRequest) {
-  const session = await requireSession();
+  const { session, db, denied } = await requirePermission("cedentes.read");
+  if (denied) return denied;
+
 
   // ✅ lista todos os cedentes do time
-  const rows = await prisma.cedente.findMany({
+  const rows = await db.cedente.findMany({
     where: { owner: { team: session.team } },
     orderBy: [{ nomeCompleto: "asc" }],
     select: {
@@ -1,5 +1,5 @@
 import { NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/require-permission";
 
 export const dynamic = "force-dynamic";
 
@@ -10,8 +10,11 @@ export const dynamic = "force-dynamic";
  * -> inclui pontos para pré-visualização no front
  */
 export async function GET() {
+  const { db, denied } = await requirePermission("cedentes.read");
+  if (denied) return denied;
+
   try {
-    const data = await prisma.cedente.findMany({
+    const data = await db.cedente.findMany({
       where: {
         status: { in: ["PENDING", "APPROVED"] },
       },
@@ -1,6 +1,6 @@
 // app/api/cedentes/pendentes/route.ts
 import { NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -17,8 +17,11 @@ function noCacheHeaders() {
 }
 
 export async function GET() {
+  const { db, denied } = await requirePermission("cedentes.read");
+  if (denied) return denied;
+
   try {
-    const items = await prisma.cedente.findMany({
+    const items = await db.cedente.findMany({
       where: { status: "PENDING" },
       orderBy: { createdAt: "desc" },
       select: {
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  LEDGER_PROGRAMS,
+  POINTS_FIELD,
+  adoptProjectedPoints,
+  rebuildCedentePoints,
+  type PointsDivergence,
+} from "@/lib/points-ledger";
+import { requirePermission } from "@/lib/require-permission";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function bad(message: string, status = 400) {
+  return NextResponse.json({ ok: false, error: message }, { status });
+}
+
+/**
+ * GET /api/cedentes/pontos/conciliacao
+ * Lista cedentes do time cujo saldo do cadastro (pontos*) diverge da soma do extrato.
+ */
+export async function GET() {
+  const { session, db, denied } = await requirePermission("cedentes.read");
+  if (denied) return denied;
+
+
+  try {
+    const cedentes = await db.cedente.findMany({
+      where: { owner: { team: session.team } },
+      select: {
+        id: true,
+        identificador: true,
+        nomeCompleto: true,
+        ...Object.fromEntries(LEDGER_PROGRAMS.map((p) => [POINTS_FIELD[p], true])),
+      },
+    });
+
+    const sums = await db.pointsLedgerEntry.groupBy({
+      by: ["cedenteId", "program"],
+      where: { cedente: { owner: { team: session.team } } },
+      _sum: { deltaPoints: true },
+    });
+
+    const ledgerMap = new Map<string, number>();
+    for (const s of sums) ledgerMap.set(`${s.cedenteId}:${s.program}`, s._sum.deltaPoints ?? 0);
+
+    const rows = [];
+    for (const c of cedentes) {
+      const divergences: PointsDivergence[] = [];
+      for (const program of LEDGER_PROGRAMS) {
+        const projected = Number((c as Record<string, unknown>)[POINTS_FIELD[program]] ?? 0);
+        const ledger = ledgerMap.get(`${c.id}:${program}`) ?? 0;
+        if (projected !== ledger) {
+          divergences.push({ program, projected, ledger, diff: projected - ledger });
+        }
+      }
+      if (divergences.length) {
+        rows.push({
+          cedente: { id: c.id, identificador: c.identificador, nomeCompleto: c.nomeCompleto },
+          divergences,
+        });
+      }
+    }
+
+    return NextResponse.json({ ok: true, total: cedentes.length, rows });
+  } catch {
+    return bad("Falha ao conciliar extrato.", 500);
+  }
+}
+
+/**
+ * POST /api/cedentes/pontos/conciliacao
+ * Body: { cedenteId, mode: "REBUILD" | "ADOPT" }
+ * - REBUILD: regrava o saldo do cadastro a partir do extrato.
+ * - ADOPT: mantém o saldo do cadastro e lança a diferença no extrato.
+ */
+export async function POST(req: NextRequest) {
+  const { session, db, denied } = await requirePermission("cedentes.reconcile");
+  if (denied) return denied;
+
+  const body = await req.json().catch(() => null);
+  const cedenteId = String(body?.cedenteId || "").trim();
+  const mode = String(body?.mode || "").trim().toUpperCase();
+
+  if (!cedenteId) return bad("cedenteId é obrigatório");
+  if (mode !== "REBUILD" && mode !== "ADOPT") return bad("mode inválido (REBUILD | ADOPT)");
+
+  try {
+    const ced = await db.cedente.findFirst({
+      where: { id: cedenteId, owner: { team: session.team } },
+      select: { id: true },
+    });
+    if (!ced) return bad("Cedente não encontrado", 404);
+
+    if (mode === "REBUILD") {
+      const ledger = await db.$transaction((tx) => rebuildCedentePoints(tx, cedenteId));
+      return NextResponse.json({ ok: true, mode, ledger });
+    }
+
+    const adjusted = await db.$transaction((tx) =>
+      adoptProjectedPoints(tx, cedenteId, {
+        source: "REBUILD",
+        actorId: session.id,
+        refType: "CEDENTE",
+        refId: cedenteId,
+        note: "Ajuste de conciliação (saldo do cadastro adotado)",
+      })
+    );
+    return NextResponse.json({ ok: true, mode, adjusted });
+  } catch {
+    return bad("Falha ao conciliar extrato.", 500);
+  }
+}
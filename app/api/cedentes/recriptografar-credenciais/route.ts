@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  SECRET_FIELDS,
+  needsReencrypt,
+  reencryptSecret,
+} from "@/lib/cedente-credentials";
+import { requirePermission } from "@/lib/require-permission";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function bad(message: string, status = 400) {
+  return NextResponse.json({ ok: false, error: message }, { status });
+}
+
+const SECRET_SELECT = Object.fromEntries(SECRET_FIELDS.map((f) => [f, true])) as Record<
+  (typeof SECRET_FIELDS)[number],
+  true
+>;
+
+/**
+ * GET /api/cedentes/recriptografar-credenciais
+ * Quantos cedentes do time ainda têm senha em texto puro ou cifrada com chave antiga.
+ */
+export async function GET() {
+  const { session, db, denied } = await requirePermission("credentials.rotate");
+  if (denied) return denied;
+
+  try {
+    const rows = await db.cedente.findMany({
+      where: { owner: { team: session.team } },
+      select: { id: true, ...SECRET_SELECT },
+    });
+
+    const pending = rows.filter((r) => SECRET_FIELDS.some((f) => needsReencrypt(r[f]))).length;
+    return NextResponse.json({ ok: true, total: rows.length, pending });
+  } catch (e) {
+    return bad(e instanceof Error ? e.message : "Falha ao verificar credenciais.", 500);
+  }
+}
+
+/**
+ * POST /api/cedentes/recriptografar-credenciais
+ * Body: { limit?: number }
+ * - texto puro legado → cifrado com a chave ativa
+ * - chave antiga → DEK re-embrulhada com a chave ativa
+ * Roda em lotes; repetir até pending = 0 (aí a chave antiga pode sair do env).
+ */
+export async function POST(req: NextRequest) {
+  const { session, db, denied } = await requirePermission("credentials.rotate");
+  if (denied) return denied;
+
+  const body = await req.json().catch(() => null);
+  const limit = Math.min(500, Math.max(1, Math.trunc(Number(body?.limit) || 200)));
+
+  try {
+    const rows = await db.cedente.findMany({
+      where: { owner: { team: session.team } },
+      select: { id: true, ...SECRET_SELECT },
+      orderBy: { id: "asc" },
+    });
+
+    const todo = rows.filter((r) => SECRET_FIELDS.some((f) => needsReencrypt(r[f])));
+    const batch = todo.slice(0, limit);
+
+    for (const r of batch) {
+      const data: Partial<Record<(typeof SECRET_FIELDS)[number], string>> = {};
+      for (const f of SECRET_FIELDS) {
+        const v = r[f];
+        if (v && needsReencrypt(v)) data[f] = reencryptSecret(v);
+      }
+      await db.cedente.update({ where: { id: r.id }, data });
+    }
+
+    return NextResponse.json({
+      ok: true,
+      processed: batch.length,
+      pending: todo.length - batch.length,
+    });
+  } catch (e) {
+    return bad(e instanceof Error ? e.message : "Falha ao recriptografar credenciais.", 500);
+  }
+}
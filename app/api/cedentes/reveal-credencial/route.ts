@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { requireSession } from "@/lib/auth-server";
+import {
+  SECRET_KIND_FIELD,
+  decryptSecret,
+  type SecretKind,
+} from "@/lib/cedente-credentials";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -16,38 +20,24 @@ function noCacheHeaders() {
   };
 }
 
-function canReveal(roleRaw: any) {
-  const role = String(roleRaw || "").toUpperCase();
-  return role === "ADMIN" || role === "OWNER";
+function getClientIp(req: NextRequest) {
+  const xf = req.headers.get("x-forwarded-for");
+  if (xf) return xf.split(",")[0].trim() || null;
+  return req.headers.get("x-real-ip");
 }
 
-const FIELD_MAP: Record<
-  string,
-  "senhaEmail" | "senhaLatamPass" | "senhaSmiles" | "senhaLivelo" | "senhaEsfera"
-> = {
-  EMAIL: "senhaEmail",
-  LATAM: "senhaLatamPass",
-  SMILES: "senhaSmiles",
-  LIVELO: "senhaLivelo",
-  ESFERA: "senhaEsfera",
-};
-
+/**
+ * POST /api/cedentes/reveal-credencial
+ * Body: { cedenteId, kind: EMAIL | LATAM | SMILES | LIVELO | ESFERA | IBERIA | AA | TAP | AZUL | FLYING_BLUE }
+ *
+ * ✅ Único lugar que decifra senha de cedente.
+ * Toda revelação grava auditoria (quem, cedente, programa, quando, IP).
+ */
 export async function POST(req: NextRequest) {
-  try {
-    const session = await requireSession();
-    if (!session) {
-      return NextResponse.json(
-        { ok: false, error: "Não autenticado." },
-        { status: 401, headers: noCacheHeaders() }
-      );
-    }
-    if (!canReveal(session.role)) {
-      return NextResponse.json(
-        { ok: false, error: "Sem permissão." },
-        { status: 403, headers: noCacheHeaders() }
-      );
-    }
+  const { session, db, denied } = await requirePermission("credentials.reveal");
+  if (denied) return denied;
 
+  try {
     const body = await req.json().catch(() => ({}));
     const cedenteId = String(body?.cedenteId || "");
     const kind = String(body?.kind || "").toUpperCase();
@@ -59,16 +49,17 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const field = FIELD_MAP[kind];
+    const field = SECRET_KIND_FIELD[kind as SecretKind];
     if (!field) {
       return NextResponse.json(
-        { ok: false, error: "kind inválido. Use EMAIL|LATAM|SMILES|LIVELO|ESFERA." },
+        { ok: false, error: `kind inválido. Use ${Object.keys(SECRET_KIND_FIELD).join("|")}.` },
         { status: 400, headers: noCacheHeaders() }
       );
     }
 
-    const c = await prisma.cedente.findUnique({
-      where: { id: cedenteId },
+    // ✅ só cedente do mesmo time
+    const c = await db.cedente.findFirst({
+      where: { id: cedenteId, owner: { team: session.team } },
       select: {
         id: true,
         nomeCompleto: true,
@@ -80,6 +71,11 @@ export async function POST(req: NextRequest) {
         senhaSmiles: true,
         senhaLivelo: true,
         senhaEsfera: true,
+        senhaIberia: true,
+        senhaAA: true,
+        senhaTAP: true,
+        senhaAzul: true,
+        senhaFlyingBlue: true,
       },
     });
 
@@ -90,16 +86,27 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const value = (c as any)[field] as string | null;
-    if (!value) {
+    const stored = c[field];
+    if (!stored) {
       return NextResponse.json(
         { ok: false, error: "Senha não cadastrada para este item." },
         { status: 404, headers: noCacheHeaders() }
       );
     }
 
-    // ✅ aqui seria o lugar ideal pra registrar auditoria (log em tabela)
-    // por enquanto, fica sem (posso te passar o model de log e migração se quiser)
+    const value = decryptSecret(stored);
+
+    // ✅ auditoria: grava antes de devolver o valor
+    await db.cedenteCredentialReveal.create({
+      data: {
+        cedenteId: c.id,
+        userId: session.id,
+        team: session.team,
+        kind,
+        ip: getClientIp(req),
+        userAgent: req.headers.get("user-agent"),
+      },
+    });
 
     return NextResponse.json(
       {
@@ -1,8 +1,9 @@
 // app/api/cedentes/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { getSession } from "@/lib/auth";
+import { adoptProjectedPoints } from "@/lib/points-ledger";
+import { encryptSecretFields } from "@/lib/cedente-credentials";
 import { PixTipo, CedenteStatus } from "@prisma/client";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -48,6 +49,9 @@ function parseDateOrNull(v: unknown): Date | null {
 }
 
 export async function POST(req: NextRequest) {
+  const { session, db, denied } = await requirePermission("cedentes.write");
+  if (denied) return denied;
+
   try {
     const body = await req.json().catch(() => ({}));
 
@@ -73,10 +77,7 @@ export async function POST(req: NextRequest) {
     // 🔐 owner obrigatório (tenta usar sessão se não vier no body)
     let ownerId = typeof body?.ownerId === "string" ? body.ownerId.trim() : "";
 
-    if (!ownerId) {
-      const session = await getSession();
-      if (session?.id) ownerId = session.id;
-    }
+    if (!ownerId) ownerId = session.id;
 
     if (!ownerId) {
       return NextResponse.json(
@@ -131,8 +132,9 @@ export async function POST(req: NextRequest) {
       (typeof body?.identificador === "string" ? body.identificador.trim() : "") ||
       `CED-${Date.now().toString().slice(-6)}`;
 
-    const cedente = await prisma.cedente.create({
-      data: {
+    const cedente = await db.cedente.create({
+      data: encryptSecretFields({
+        team: session.team,
         identificador,
         nomeCompleto,
         cpf,
@@ -146,7 +148,7 @@ export async function POST(req: NextRequest) {
         pixTipo,
         titularConfirmado: true,
 
-        // ✅ SENHAS (SEM ENC)
+        // ✅ SENHAS (cifradas em repouso)
         senhaEmail: fromOneOf(body, ["senhaEmail", "senhaEmailEnc"]),
         senhaSmiles: fromOneOf(body, ["senhaSmiles", "senhaSmilesEnc"]),
         senhaLatamPass: fromOneOf(body, ["senhaLatamPass", "senhaLatamPassEnc"]),
@@ -174,7 +176,7 @@ export async function POST(req: NextRequest) {
         owner: {
           connect: { id: ownerId },
         },
-      },
+      }),
       select: {
         id: true,
         identificador: true,
@@ -186,6 +188,16 @@ export async function POST(req: NextRequest) {
       },
     });
 
+    await db.$transaction((tx) =>
+      adoptProjectedPoints(tx, cedente.id, {
+        source: "OPENING_BALANCE",
+        actorId: ownerId,
+        refType: "CEDENTE",
+        refId: cedente.id,
+        note: "Saldo informado no cadastro",
+      })
+    );
+
     return NextResponse.json({ ok: true, data: cedente }, { status: 201 });
   } catch (e: any) {
     console.error(e);
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
 // import { requireSession } from "@/lib/auth-server";
+import { setPointsBalances } from "@/lib/points-ledger";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -32,6 +33,9 @@ function yearBoundsUTC(year: number) {
 }
 
 export async function GET(req: NextRequest) {
+  const { db, denied } = await requirePermission("cedentes.read");
+  if (denied) return denied;
+
   try {
     // await requireSession();
 
@@ -50,7 +54,7 @@ export async function GET(req: NextRequest) {
       ];
     }
 
-    const rows = await prisma.cedente.findMany({
+    const rows = await db.cedente.findMany({
       where,
       orderBy: { createdAt: "desc" },
       select: {
@@ -69,7 +73,7 @@ export async function GET(req: NextRequest) {
     if (cedenteIds.length) {
       const { start, end } = yearBoundsUTC(YEAR);
 
-      const grouped = await prisma.emissionEvent.groupBy({
+      const grouped = await db.emissionEvent.groupBy({
         by: ["cedenteId"],
         where: {
           cedenteId: { in: cedenteIds },
@@ -125,6 +129,9 @@ export async function GET(req: NextRequest) {
 }
 
 export async function PATCH(req: NextRequest) {
+  const { session, db, denied } = await requirePermission("cedentes.write");
+  if (denied) return denied;
+
   try {
     // await requireSession();
 
@@ -145,10 +152,15 @@ export async function PATCH(req: NextRequest) {
       );
     }
 
-    await prisma.cedente.update({
-      where: { id },
-      data: { pontosSmiles },
-    });
+    await db.$transaction((tx) =>
+      setPointsBalances(tx, id, { SMILES: pontosSmiles }, {
+        source: "MANUAL_ADJUSTMENT",
+        actorId: session?.id ?? null,
+        refType: "CEDENTE",
+        refId: id,
+        note: "Edição inline (SMILES)",
+      })
+    );
 
     return NextResponse.json({ ok: true }, { headers: noCacheHeaders() });
   } catch (e: any) {
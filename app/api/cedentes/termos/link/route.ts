@@ -0,0 +1,37 @@
+import crypto from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+import { termLinkPath } from "@/lib/termos";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * POST /api/cedentes/termos/link
+ * body: { cedenteId }
+ * Gera um link novo do termo para o cedente (o anterior para de funcionar).
+ */
+export async function POST(req: NextRequest) {
+  const { db, denied } = await requirePermission("cedentes.write");
+  if (denied) return denied;
+
+  const body = await req.json().catch(() => ({}));
+  const cedenteId = String(body?.cedenteId || "").trim();
+  if (!cedenteId) {
+    return NextResponse.json({ ok: false, error: "cedenteId é obrigatório." }, { status: 400 });
+  }
+
+  const exists = await db.cedente.findFirst({ where: { id: cedenteId }, select: { id: true } });
+  if (!exists) {
+    return NextResponse.json({ ok: false, error: "Cedente não encontrado." }, { status: 404 });
+  }
+
+  const updated = await db.cedente.update({
+    where: { id: cedenteId },
+    data: { termToken: crypto.randomUUID() },
+    select: { termToken: true },
+  });
+
+  const termLink = `${new URL(req.url).origin}${termLinkPath(updated.termToken)}`;
+  return NextResponse.json({ ok: true, data: { termLink } });
+}
@@ -1,9 +1,8 @@
 // app/api/cedentes/termos/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { getSessionServer } from "@/lib/auth-server";
-import { TERMO_WHATSAPP } from "@/lib/termos";
+import { getCurrentTermInfo, termLinkPath } from "@/lib/termos";
 import { CedenteStatus, TermTriState, TermResponseTime } from "@prisma/client";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -83,17 +82,18 @@ function computeColor(review: {
 }
 
 export async function GET(req: NextRequest) {
-  const session = await getSessionServer();
-  if (!session?.id) {
-    return NextResponse.json({ ok: false, error: "Não autenticado." }, { status: 401 });
-  }
+  const { db, denied } = await requirePermission("cedentes.read");
+  if (denied) return denied;
+
 
   try {
     const { searchParams } = new URL(req.url);
-    const termoVersao = (searchParams.get("versao") || "v1").trim();
+    const current = await getCurrentTermInfo(db);
+    const termoVersao = (searchParams.get("versao") || current.versao).trim();
+    const origin = new URL(req.url).origin;
 
     // ✅ MESMA BASE DO "approved": todos os cedentes aprovados
-    const cedentes = await prisma.cedente.findMany({
+    const cedentes = await db.cedente.findMany({
       where: { status: CedenteStatus.APPROVED },
       orderBy: { nomeCompleto: "asc" },
       select: {
@@ -109,6 +109,14 @@ export async function GET(req: NextRequest) {
 
         owner: { select: { id: true, name: true, login: true } },
 
+        // ✅ aceite pelo link público: o da versão vigente e o último de qualquer versão
+        termToken: true,
+        termAcceptances: {
+          orderBy: { acceptedAt: "desc" },
+          take: 1,
+          select: { termoVersao: true, acceptedAt: true },
+        },
+
         termReviews: {
           where: { termoVersao },
           take: 1,
@@ -129,9 +137,15 @@ export async function GET(req: NextRequest) {
     const data = cedentes.map((c) => {
       const review = c.termReviews[0] || null;
 
+      const lastAcceptance = c.termAcceptances[0] || null;
+      const acceptedCurrent = lastAcceptance?.termoVersao === current.versao ? lastAcceptance : null;
+
+      const termLink = `${origin}${termLinkPath(c.termToken)}`;
+      const termoTexto = current.doc ? `${current.whatsappMsg}\n\n${termLink}` : current.whatsappMsg;
+
       const waNumber = phoneToWaNumber(c.telefone);
       const waUrl = waNumber ? buildWaLink(waNumber) : null;
-      const waUrlTermo = waNumber ? buildWaLink(waNumber, TERMO_WHATSAPP) : null;
+      const waUrlTermo = waNumber ? buildWaLink(waNumber, termoTexto) : null;
 
       const scorePack = review ? computeScore(review) : { rtPts: 0, disp: 0, score: 0 };
       const color = review ? computeColor(review) : "GRAY";
@@ -149,7 +163,14 @@ export async function GET(req: NextRequest) {
           waNumber,
           waUrl,
           waUrlTermo,
-          termoTexto: TERMO_WHATSAPP,
+          termoTexto,
+        },
+
+        aceite: {
+          termLink,
+          acceptedAt: acceptedCurrent?.acceptedAt ?? null,
+          lastVersao: lastAcceptance?.termoVersao ?? null,
+          lastAcceptedAt: lastAcceptance?.acceptedAt ?? null,
         },
 
         review,
@@ -163,7 +184,20 @@ export async function GET(req: NextRequest) {
     });
 
     return NextResponse.json(
-      { ok: true, termoVersao, termoTexto: TERMO_WHATSAPP, data },
+      {
+        ok: true,
+        termoVersao,
+        termoTexto: current.whatsappMsg,
+        termo: current.doc
+          ? {
+              id: current.doc.id,
+              versao: current.doc.versao,
+              title: current.doc.title,
+              effectiveAt: current.doc.effectiveAt,
+            }
+          : null,
+        data,
+      },
       { status: 200, headers: { "Cache-Control": "no-store" } }
     );
   } catch (err: any) {
@@ -176,16 +210,15 @@ export async function GET(req: NextRequest) {
 }
 
 export async function POST(req: NextRequest) {
-  const session = await getSessionServer();
-  if (!session?.id) {
-    return NextResponse.json({ ok: false, error: "Não autenticado." }, { status: 401 });
-  }
+  const { db, denied } = await requirePermission("cedentes.write");
+  if (denied) return denied;
+
 
   try {
     const body = await req.json().catch(() => ({}));
 
     const cedenteId = asString(body?.cedenteId).trim();
-    const termoVersao = (asString(body?.termoVersao).trim() || "v1").trim();
+    const termoVersao = asString(body?.termoVersao).trim() || (await getCurrentTermInfo(db)).versao;
 
     if (!cedenteId) {
       return NextResponse.json({ ok: false, error: "cedenteId é obrigatório." }, { status: 400 });
@@ -197,7 +230,7 @@ export async function POST(req: NextRequest) {
     const responseTime = toRT(body?.responseTime);
     const disponibilidadePoints = clampInt(body?.disponibilidadePoints, 0, 70);
 
-    const review = await prisma.cedenteTermReview.upsert({
+    const review = await db.cedenteTermReview.upsert({
       where: {
         // ✅ seu unique correto
         cedenteId_termoVersao: { cedenteId, termoVersao },
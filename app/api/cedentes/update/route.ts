@@ -1,6 +1,9 @@
 // app/api/cedentes/update/route.ts
-import { prisma } from "@/lib/prisma";
 import { NextResponse } from "next/server";
+import type { LoyaltyProgram } from "@prisma/client";
+import { LEDGER_PROGRAMS, POINTS_FIELD, setPointsBalances } from "@/lib/points-ledger";
+import { encryptSecretFields, maskSecretFields } from "@/lib/cedente-credentials";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -55,6 +58,9 @@ function pickAllowed(data: any) {
 }
 
 export async function PUT(req: Request) {
+  const { session, db, denied } = await requirePermission("cedentes.write");
+  if (denied) return denied;
+
   try {
     const body = await req.json().catch(() => null);
     const id = body?.id;
@@ -76,12 +82,32 @@ export async function PUT(req: Request) {
       );
     }
 
-    const updated = await prisma.cedente.update({
-      where: { id },
-      data: safeData,
+    // pontos passam pelo extrato (ajuste manual); o resto vai direto
+    const pontos: Partial<Record<LoyaltyProgram, number>> = {};
+    for (const program of LEDGER_PROGRAMS) {
+      const field = POINTS_FIELD[program];
+      if (!(field in safeData)) continue;
+      const n = Number(safeData[field]);
+      pontos[program] = Number.isFinite(n) ? Math.max(0, Math.trunc(n)) : 0;
+      delete safeData[field];
+    }
+
+    const updated = await db.$transaction(async (tx) => {
+      await setPointsBalances(tx, id, pontos, {
+        source: "MANUAL_ADJUSTMENT",
+        actorId: session?.id ?? null,
+        refType: "CEDENTE",
+        refId: id,
+        note: "Edição do cadastro",
+      });
+
+      return tx.cedente.update({
+        where: { id },
+        data: encryptSecretFields(safeData),
+      });
     });
 
-    return NextResponse.json({ ok: true, data: updated });
+    return NextResponse.json({ ok: true, data: maskSecretFields(updated) });
   } catch (e: any) {
     console.error("PUT /api/cedentes/update error:", e);
     return NextResponse.json(
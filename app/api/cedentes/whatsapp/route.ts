@@ -1,7 +1,6 @@
 import { NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { requireSession } from "@/lib/auth-server";
 import { buildWhatsAppLink, normalizeBRPhoneToE164 } from "@/lib/whatsapp";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -22,7 +21,9 @@ function bad(message: string, status = 400) {
 }
 
 export async function GET() {
-  const session = await requireSession();
+  const { session, db, denied } = await requirePermission("cedentes.read");
+  if (denied) return denied;
+
 
   // ✅ não encosta em typings de Session: pega dados via "any"
   const s: any = session;
@@ -38,7 +39,7 @@ export async function GET() {
   if (!team) {
     const userId: string | undefined = s?.userId ?? s?.id ?? s?.user?.id;
     if (userId) {
-      const u = await prisma.user.findUnique({
+      const u = await db.user.findUnique({
         where: { id: userId },
         select: { team: true },
       });
@@ -50,7 +51,7 @@ export async function GET() {
     return bad("Sessão inválida: team não encontrado.", 401);
   }
 
-  const cedentes = await prisma.cedente.findMany({
+  const cedentes = await db.cedente.findMany({
     where: { owner: { team } },
     orderBy: { createdAt: "desc" },
     select: {
@@ -0,0 +1,105 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+import { getLocatorProvider, runLocatorChecks } from "@/lib/locator-check";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function bad(message: string, status = 400) {
+  return NextResponse.json({ ok: false, error: message }, { status });
+}
+
+/**
+ * GET /api/check-localizador/fila
+ * Reservas que o check automático viu mudar para ALTERADO/CANCELADO e ninguém tratou ainda.
+ */
+export async function GET() {
+  const { db, denied } = await requirePermission("vendas.read");
+  if (denied) return denied;
+
+  const rows = await db.saleLocatorCheck.findMany({
+    where: { flagged: true, resolvedAt: null },
+    orderBy: { createdAt: "desc" },
+    take: 500,
+    select: {
+      id: true,
+      program: true,
+      status: true,
+      provider: true,
+      note: true,
+      createdAt: true,
+      sale: {
+        select: {
+          id: true,
+          numero: true,
+          locator: true,
+          purchaseCode: true,
+          firstPassengerLastName: true,
+          departureDate: true,
+          returnDate: true,
+          cedente: { select: { identificador: true, nomeCompleto: true } },
+          cliente: { select: { nome: true } },
+        },
+      },
+    },
+  });
+
+  const data = rows.map((r) => ({
+    ...r,
+    createdAt: r.createdAt.toISOString(),
+    sale: {
+      ...r.sale,
+      departureDate: r.sale.departureDate ? r.sale.departureDate.toISOString() : null,
+      returnDate: r.sale.returnDate ? r.sale.returnDate.toISOString() : null,
+    },
+  }));
+
+  return NextResponse.json({ ok: true, rows: data });
+}
+
+/**
+ * PATCH /api/check-localizador/fila
+ * Body: { id, note? } → tira o item da fila.
+ */
+export async function PATCH(req: Request) {
+  const { session, db, denied } = await requirePermission("vendas.write");
+  if (denied) return denied;
+
+  const body = await req.json().catch(() => ({}));
+  const id = String(body?.id || "").trim();
+  const note = String(body?.note || "").trim().slice(0, 500) || null;
+  if (!id) return bad("id obrigatório.");
+
+  const r = await db.saleLocatorCheck.updateMany({
+    where: { id, flagged: true, resolvedAt: null },
+    data: { resolvedAt: new Date(), resolvedById: session.id, resolvedNote: note },
+  });
+  if (r.count === 0) return bad("Item não encontrado ou já resolvido.", 404);
+
+  return NextResponse.json({ ok: true });
+}
+
+/**
+ * POST /api/check-localizador/fila
+ * Roda o check automático agora (só o time da sessão, lote pequeno).
+ */
+export async function POST() {
+  const { session, denied } = await requirePermission("vendas.write");
+  if (denied) return denied;
+
+  let provider;
+  try {
+    provider = getLocatorProvider();
+  } catch (e: unknown) {
+    return bad(e instanceof Error ? e.message : "Provider inválido", 500);
+  }
+
+  try {
+    const r = await runLocatorChecks(session.team, provider, { limit: 20 });
+    return NextResponse.json({ ok: true, provider: provider.name, ...r });
+  } catch (e: unknown) {
+    return bad(e instanceof Error ? e.message : "Falha ao rodar o check.", 500);
+  } finally {
+    await provider.close?.();
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/check-localizador/historico?saleId=...
+ * Todos os checks da venda (automáticos e manuais), do mais novo ao mais antigo.
+ */
+export async function GET(req: Request) {
+  const { db, denied } = await requirePermission("vendas.read");
+  if (denied) return denied;
+
+  const saleId = String(new URL(req.url).searchParams.get("saleId") || "").trim();
+  if (!saleId) {
+    return NextResponse.json({ ok: false, error: "saleId obrigatório." }, { status: 400 });
+  }
+
+  const rows = await db.saleLocatorCheck.findMany({
+    where: { saleId },
+    orderBy: { createdAt: "desc" },
+    take: 100,
+    select: {
+      id: true,
+      status: true,
+      source: true,
+      provider: true,
+      note: true,
+      flagged: true,
+      resolvedAt: true,
+      resolvedNote: true,
+      createdAt: true,
+      checkedBy: { select: { name: true } },
+      resolvedBy: { select: { name: true } },
+    },
+  });
+
+  return NextResponse.json({
+    ok: true,
+    rows: rows.map((r) => ({
+      ...r,
+      resolvedAt: r.resolvedAt ? r.resolvedAt.toISOString() : null,
+      createdAt: r.createdAt.toISOString(),
+    })),
+  });
+}
@@ -1,41 +1,15 @@
 import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
-import { prisma } from "@/lib/prisma";
-
-type Sess = {
-  id: string;
-  login: string;
-  team: string;
-  role: "admin" | "staff";
-};
+import { requirePermission } from "@/lib/require-permission";
+import {
+  LAST_LOCATOR_CHECK,
+  buildLatamUrl,
+  recordLocatorCheck,
+  serializeLastCheck,
+} from "@/lib/locator-check";
 
 const MANUAL_STATUS = ["CANCELADO", "CONFIRMADO", "ALTERADO"] as const;
 type ManualStatus = (typeof MANUAL_STATUS)[number];
 
-function b64urlDecode(input: string) {
-  const pad = input.length % 4 === 0 ? "" : "=".repeat(4 - (input.length % 4));
-  const base64 = (input + pad).replace(/-/g, "+").replace(/_/g, "/");
-  return Buffer.from(base64, "base64").toString("utf8");
-}
-
-function readSessionCookie(raw?: string): Sess | null {
-  if (!raw) return null;
-  try {
-    const parsed = JSON.parse(b64urlDecode(raw)) as Partial<Sess>;
-    if (!parsed?.id || !parsed?.login || !parsed?.team || !parsed?.role) return null;
-    if (parsed.role !== "admin" && parsed.role !== "staff") return null;
-    return parsed as Sess;
-  } catch {
-    return null;
-  }
-}
-
-async function getServerSession(): Promise<Sess | null> {
-  const store = await cookies();
-  const raw = store.get("tm.session")?.value;
-  return readSessionCookie(raw);
-}
-
 function parseDateMs(v?: string | null) {
   if (!v) return null;
   const dt = new Date(v);
@@ -63,22 +37,14 @@ function proximityKey(args: { departureDate?: string | null; returnDate?: string
   return { hasUpcoming: 0, diff: nearestAbs };
 }
 
-function buildLatamUrl(purchaseCode: string, lastName: string) {
-  return `https://www.latamairlines.com/br/pt/minhas-viagens/second-detail?orderId=${encodeURIComponent(
-    purchaseCode
-  )}&lastname=${encodeURIComponent(lastName)}`;
-}
-
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 export async function GET() {
-  const session = await getServerSession();
-  if (!session?.id) {
-    return NextResponse.json({ ok: false, error: "Não autenticado" }, { status: 401 });
-  }
+  const { db, denied } = await requirePermission("vendas.read");
+  if (denied) return denied;
 
-  const rows = await prisma.sale.findMany({
+  const rows = await db.sale.findMany({
     where: {
       program: "LATAM",
       purchaseCode: { startsWith: "LA", mode: "insensitive" },
@@ -93,21 +59,19 @@ export async function GET() {
       firstPassengerLastName: true,
       departureDate: true,
       returnDate: true,
-      latamLocatorCheckStatus: true,
-      latamLocatorCheckedAt: true,
-      latamLocatorCheckNote: true,
+      locatorChecks: LAST_LOCATOR_CHECK,
       cedente: { select: { identificador: true, nomeCompleto: true } },
       createdAt: true,
     },
     take: 5000,
   });
 
-  const mapped = rows.map((r) => ({
+  const mapped = rows.map(({ locatorChecks, ...r }) => ({
     ...r,
     departureDate: r.departureDate ? r.departureDate.toISOString() : null,
     returnDate: r.returnDate ? r.returnDate.toISOString() : null,
     checkUrl: buildLatamUrl(String(r.purchaseCode || ""), String(r.firstPassengerLastName || "")),
-    latamLocatorCheckedAt: r.latamLocatorCheckedAt ? r.latamLocatorCheckedAt.toISOString() : null,
+    lastCheck: serializeLastCheck(locatorChecks),
     createdAt: r.createdAt.toISOString(),
   }));
 
@@ -123,10 +87,8 @@ export async function GET() {
 }
 
 export async function POST(req: Request) {
-  const session = await getServerSession();
-  if (!session?.id) {
-    return NextResponse.json({ ok: false, error: "Não autenticado" }, { status: 401 });
-  }
+  const { session, db, denied } = await requirePermission("vendas.write");
+  if (denied) return denied;
 
   const body = await req.json().catch(() => ({}));
   const saleId = String(body?.saleId || "").trim();
@@ -146,7 +108,7 @@ export async function POST(req: Request) {
     return NextResponse.json({ ok: false, error: "Status manual inválido." }, { status: 400 });
   }
 
-  const sale = await prisma.sale.findUnique({
+  const sale = await db.sale.findUnique({
     where: { id: saleId },
     select: {
       id: true,
@@ -158,28 +120,20 @@ export async function POST(req: Request) {
     return NextResponse.json({ ok: false, error: "Venda LATAM não encontrada." }, { status: 404 });
   }
 
-  const updated = await prisma.sale.update({
-    where: { id: saleId },
-    data: {
-      latamLocatorCheckStatus: status,
-      latamLocatorCheckedAt: new Date(),
-      latamLocatorCheckNote: "Atualização manual.",
-    },
-    select: {
-      id: true,
-      latamLocatorCheckStatus: true,
-      latamLocatorCheckedAt: true,
-      latamLocatorCheckNote: true,
-    },
+  const check = await recordLocatorCheck(db, {
+    team: session.team,
+    saleId,
+    program: "LATAM",
+    source: "MANUAL",
+    result: { status, note: "Atualização manual." },
+    checkedById: session.id,
   });
 
   return NextResponse.json({
     ok: true,
     row: {
-      ...updated,
-      latamLocatorCheckedAt: updated.latamLocatorCheckedAt
-        ? updated.latamLocatorCheckedAt.toISOString()
-        : null,
+      id: saleId,
+      lastCheck: serializeLastCheck([{ ...check, resolvedAt: null }]),
     },
   });
 }
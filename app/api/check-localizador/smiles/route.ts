@@ -1,37 +1,14 @@
 import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
-import { prisma } from "@/lib/prisma";
-
-type Sess = {
-  id: string;
-  login: string;
-  team: string;
-  role: "admin" | "staff";
-};
-
-function b64urlDecode(input: string) {
-  const pad = input.length % 4 === 0 ? "" : "=".repeat(4 - (input.length % 4));
-  const base64 = (input + pad).replace(/-/g, "+").replace(/_/g, "/");
-  return Buffer.from(base64, "base64").toString("utf8");
-}
+import { requirePermission } from "@/lib/require-permission";
+import {
+  LAST_LOCATOR_CHECK,
+  buildSmilesUrl,
+  recordLocatorCheck,
+  serializeLastCheck,
+} from "@/lib/locator-check";
 
-function readSessionCookie(raw?: string): Sess | null {
-  if (!raw) return null;
-  try {
-    const parsed = JSON.parse(b64urlDecode(raw)) as Partial<Sess>;
-    if (!parsed?.id || !parsed?.login || !parsed?.team || !parsed?.role) return null;
-    if (parsed.role !== "admin" && parsed.role !== "staff") return null;
-    return parsed as Sess;
-  } catch {
-    return null;
-  }
-}
-
-async function getServerSession(): Promise<Sess | null> {
-  const store = await cookies();
-  const raw = store.get("tm.session")?.value;
-  return readSessionCookie(raw);
-}
+const MANUAL_STATUS = ["CANCELADO", "CONFIRMADO", "ALTERADO"] as const;
+type ManualStatus = (typeof MANUAL_STATUS)[number];
 
 function parseDateMs(v?: string | null) {
   if (!v) return null;
@@ -64,12 +41,10 @@ export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 export async function GET() {
-  const session = await getServerSession();
-  if (!session?.id) {
-    return NextResponse.json({ ok: false, error: "Não autenticado" }, { status: 401 });
-  }
+  const { db, denied } = await requirePermission("vendas.read");
+  if (denied) return denied;
 
-  const rows = await prisma.sale.findMany({
+  const rows = await db.sale.findMany({
     where: {
       program: "SMILES",
       locator: { not: null },
@@ -84,16 +59,19 @@ export async function GET() {
       departureAirportIata: true,
       departureDate: true,
       returnDate: true,
+      locatorChecks: LAST_LOCATOR_CHECK,
       cedente: { select: { identificador: true, nomeCompleto: true } },
       createdAt: true,
     },
     take: 5000,
   });
 
-  const mapped = rows.map((r) => ({
+  const mapped = rows.map(({ locatorChecks, ...r }) => ({
     ...r,
     departureDate: r.departureDate ? r.departureDate.toISOString() : null,
     returnDate: r.returnDate ? r.returnDate.toISOString() : null,
+    checkUrl: buildSmilesUrl(String(r.locator || ""), String(r.firstPassengerLastName || "")),
+    lastCheck: serializeLastCheck(locatorChecks),
     createdAt: r.createdAt.toISOString(),
   }));
 
@@ -107,3 +85,44 @@ export async function GET() {
 
   return NextResponse.json({ ok: true, rows: mapped });
 }
+
+export async function POST(req: Request) {
+  const { session, db, denied } = await requirePermission("vendas.write");
+  if (denied) return denied;
+
+  const body = await req.json().catch(() => ({}));
+  const saleId = String(body?.saleId || "").trim();
+  const status = String(body?.status || "").trim().toUpperCase() as ManualStatus;
+
+  if (!saleId) {
+    return NextResponse.json({ ok: false, error: "saleId obrigatório." }, { status: 400 });
+  }
+  if (!MANUAL_STATUS.includes(status)) {
+    return NextResponse.json(
+      { ok: false, error: "Informe o status manual (CANCELADO/CONFIRMADO/ALTERADO)." },
+      { status: 400 }
+    );
+  }
+
+  const sale = await db.sale.findUnique({ where: { id: saleId }, select: { id: true, program: true } });
+  if (!sale || sale.program !== "SMILES") {
+    return NextResponse.json({ ok: false, error: "Venda Smiles não encontrada." }, { status: 404 });
+  }
+
+  const check = await recordLocatorCheck(db, {
+    team: session.team,
+    saleId,
+    program: "SMILES",
+    source: "MANUAL",
+    result: { status, note: "Atualização manual." },
+    checkedById: session.id,
+  });
+
+  return NextResponse.json({
+    ok: true,
+    row: {
+      id: saleId,
+      lastCheck: serializeLastCheck([{ ...check, resolvedAt: null }]),
+    },
+  });
+}
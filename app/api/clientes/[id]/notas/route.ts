@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+import { addClienteNote, ClienteCrmError } from "@/lib/clientes";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+function bad(msg: string, status = 400) {
+  return NextResponse.json({ ok: false, error: msg }, { status });
+}
+
+/** POST { text }: nova nota no histórico do cliente */
+export async function POST(req: Request, { params }: Ctx) {
+  const { session, db, denied } = await requirePermission("clientes.write");
+  if (denied) return denied;
+
+  const { id } = await params;
+  const body = await req.json().catch(() => ({}));
+
+  try {
+    const note = await addClienteNote(db, {
+      team: session.team,
+      clienteId: id,
+      authorId: session.id,
+      text: String(body?.text || ""),
+    });
+    return NextResponse.json({ ok: true, data: note });
+  } catch (e) {
+    if (e instanceof ClienteCrmError) return bad(e.message);
+    throw e;
+  }
+}
+
+/** DELETE ?noteId=...: remove uma nota do cliente */
+export async function DELETE(req: Request, { params }: Ctx) {
+  const { db, denied } = await requirePermission("clientes.write");
+  if (denied) return denied;
+
+  const { id } = await params;
+  const noteId = new URL(req.url).searchParams.get("noteId") || "";
+  if (!noteId) return bad("noteId obrigatório.");
+
+  const { count } = await db.clienteNote.deleteMany({ where: { id: noteId, clienteId: id } });
+  if (!count) return bad("Nota não encontrada.", 404);
+
+  return NextResponse.json({ ok: true });
+}
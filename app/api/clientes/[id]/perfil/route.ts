@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+import { clienteProfile } from "@/lib/clientes";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+/** GET: cadastro + perfil (vendas e balcão agregados) + notas do cliente. */
+export async function GET(_req: Request, { params }: Ctx) {
+  const { db, denied } = await requirePermission("clientes.read");
+  if (denied) return denied;
+
+  const { id } = await params;
+  const cliente = await db.cliente.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      identificador: true,
+      tipo: true,
+      nome: true,
+      cpfCnpj: true,
+      telefone: true,
+      origem: true,
+      origemDescricao: true,
+      tags: true,
+      createdAt: true,
+      mergedAt: true,
+      mergedInto: { select: { id: true, identificador: true, nome: true } },
+    },
+  });
+  if (!cliente) return NextResponse.json({ ok: false, error: "Cliente não encontrado." }, { status: 404 });
+
+  const [profile, notes] = await Promise.all([
+    clienteProfile(db, id),
+    db.clienteNote.findMany({
+      where: { clienteId: id },
+      orderBy: { createdAt: "desc" },
+      take: 200,
+      select: { id: true, text: true, createdAt: true, author: { select: { id: true, name: true } } },
+    }),
+  ]);
+
+  return NextResponse.json({ ok: true, data: { cliente, profile, notes } });
+}
@@ -1,7 +1,8 @@
 // app/api/clientes/[id]/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { getSessionServer } from "@/lib/auth-server";
+import { requirePermission } from "@/lib/require-permission";
+import { ClienteCrmError, normalizeTags } from "@/lib/clientes";
+import { findDuplicatesFor } from "@/lib/clientes-merge";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -35,9 +36,12 @@ function isOrigem(v: any) {
 }
 
 export async function GET(_req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const { db, denied } = await requirePermission("clientes.read");
+  if (denied) return denied;
+
   try {
     const { id } = await ctx.params;
-    const cliente = await prisma.cliente.findUnique({
+    const cliente = await db.cliente.findUnique({
       where: { id },
       select: {
         id: true,
@@ -48,6 +52,7 @@ export async function GET(_req: NextRequest, ctx: { params: Promise<{ id: string
         telefone: true,
         origem: true,
         origemDescricao: true,
+        tags: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -65,8 +70,10 @@ export async function GET(_req: NextRequest, ctx: { params: Promise<{ id: string
 }
 
 export async function PUT(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const { session, db, denied } = await requirePermission("clientes.write");
+  if (denied) return denied;
+
   try {
-    const session = await getSessionServer();
     const userId = String(session?.id || "");
     if (!userId) {
       return NextResponse.json({ ok: false, error: "Sessão inválida." }, { status: 401 });
@@ -98,7 +105,24 @@ export async function PUT(req: NextRequest, ctx: { params: Promise<{ id: string
       return NextResponse.json({ ok: false, error: "Telefone inválido." }, { status: 400 });
     }
 
-    const updated = await prisma.cliente.update({
+    // ✅ CPF/CNPJ não pode repetir entre clientes ativos
+    if (cpfCnpj) {
+      const dup = (await findDuplicatesFor(db, { nome, cpfCnpj, excludeId: id })).find((d) =>
+        d.reasons.includes("CPF_CNPJ")
+      );
+      if (dup) {
+        return NextResponse.json(
+          {
+            ok: false,
+            error: `Já existe cliente com este CPF/CNPJ: ${dup.cliente.nome} (${dup.cliente.identificador}). Use a mesclagem.`,
+            code: "DUPLICATE",
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    const updated = await db.cliente.update({
       where: { id },
       data: {
         tipo,
@@ -131,3 +155,30 @@ export async function PUT(req: NextRequest, ctx: { params: Promise<{ id: string
     );
   }
 }
+
+/** PATCH { tags: string[] | "a, b" } — só as etiquetas do CRM */
+export async function PATCH(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const { db, denied } = await requirePermission("clientes.write");
+  if (denied) return denied;
+
+  try {
+    const { id } = await ctx.params;
+    const body = await req.json().catch(() => ({}));
+    const tags = normalizeTags(body?.tags);
+
+    const exists = await db.cliente.findUnique({ where: { id }, select: { id: true } });
+    if (!exists) return NextResponse.json({ ok: false, error: "Cliente não encontrado." }, { status: 404 });
+
+    const updated = await db.cliente.update({
+      where: { id },
+      data: { tags },
+      select: { id: true, tags: true },
+    });
+    return NextResponse.json({ ok: true, data: { cliente: updated } }, { status: 200 });
+  } catch (e) {
+    if (e instanceof ClienteCrmError) {
+      return NextResponse.json({ ok: false, error: e.message }, { status: 400 });
+    }
+    throw e;
+  }
+}
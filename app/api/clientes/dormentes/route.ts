@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+import { DEFAULT_DORMANT_DAYS, dormantClientes } from "@/lib/clientes";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** GET ?days=90: clientes sem comprar há N dias (para reativação). */
+export async function GET(req: Request) {
+  const { db, denied } = await requirePermission("clientes.read");
+  if (denied) return denied;
+
+  const raw = Number(new URL(req.url).searchParams.get("days"));
+  const days = Number.isFinite(raw) && raw > 0 ? Math.min(Math.trunc(raw), 3650) : DEFAULT_DORMANT_DAYS;
+
+  const data = await dormantClientes(db, { days });
+  return NextResponse.json({ ok: true, data });
+}
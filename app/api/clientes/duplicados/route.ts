@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+import { findDuplicateGroups, listMerges } from "@/lib/clientes-merge";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** GET: grupos de possíveis duplicados + histórico de mesclagens */
+export async function GET() {
+  const { db, denied } = await requirePermission("clientes.read");
+  if (denied) return denied;
+
+  const [groups, merges] = await Promise.all([findDuplicateGroups(db), listMerges(db)]);
+  return NextResponse.json({ ok: true, data: { groups, merges } });
+}
@@ -1,6 +1,6 @@
 // app/api/clientes/export/route.ts
 import { NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -24,12 +24,16 @@ function origemLabel(
 }
 
 export async function GET() {
+  const { db, denied } = await requirePermission("clientes.read");
+  if (denied) return denied;
+
   try {
     // ✅ dynamic import (evita resolver no build)
     const mod = await import("exceljs");
     const ExcelJS = mod.default ?? mod;
 
-    const clientes = await prisma.cliente.findMany({
+    const clientes = await db.cliente.findMany({
+      where: { mergedIntoId: null },
       orderBy: { createdAt: "desc" },
       select: {
         identificador: true,
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+import { ClienteMergeError, undoMerge } from "@/lib/clientes-merge";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+/** POST: desfaz a mesclagem (o duplicado volta a aparecer com o que era dele) */
+export async function POST(_req: Request, { params }: Ctx) {
+  const { session, db, denied } = await requirePermission("clientes.write");
+  if (denied) return denied;
+
+  const { id } = await params;
+  try {
+    const data = await db.$transaction((tx) => undoMerge(tx, { actorId: session.id, mergeId: id }));
+    return NextResponse.json({ ok: true, data });
+  } catch (e) {
+    if (e instanceof ClienteMergeError) return NextResponse.json({ ok: false, error: e.message }, { status: 409 });
+    throw e;
+  }
+}
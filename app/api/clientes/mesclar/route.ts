@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+import { ClienteMergeError, mergeClientes } from "@/lib/clientes-merge";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * POST { keepId, mergeId, reason? }
+ * Vendas, balcão, cancelamentos e notas do `mergeId` passam para o `keepId`.
+ */
+export async function POST(req: Request) {
+  const { session, db, denied } = await requirePermission("clientes.write");
+  if (denied) return denied;
+
+  const body = await req.json().catch(() => ({}));
+
+  try {
+    const data = await db.$transaction((tx) =>
+      mergeClientes(tx, {
+        team: session.team,
+        actorId: session.id,
+        keepId: String(body?.keepId || "").trim(),
+        mergeId: String(body?.mergeId || "").trim(),
+        reason: String(body?.reason || "").trim().slice(0, 500) || null,
+      })
+    );
+    return NextResponse.json({ ok: true, data });
+  } catch (e) {
+    if (e instanceof ClienteMergeError) return NextResponse.json({ ok: false, error: e.message }, { status: 400 });
+    throw e;
+  }
+}
@@ -1,7 +1,7 @@
 // app/api/clientes/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { getSessionServer } from "@/lib/auth-server";
+import { requirePermission } from "@/lib/require-permission";
+import { findDuplicatesFor } from "@/lib/clientes-merge";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -44,22 +44,27 @@ function pad5(n: number) {
 }
 
 export async function GET(req: NextRequest) {
+  const { db, denied } = await requirePermission("clientes.read");
+  if (denied) return denied;
+
   try {
     // opcional: filtro simples por q
     const { searchParams } = new URL(req.url);
     const q = (searchParams.get("q") || "").trim();
 
+    // ✅ mesclados (duplicados) ficam ocultos
     const where = q
       ? {
+          mergedIntoId: null,
           OR: [
             { nome: { contains: q, mode: "insensitive" as const } },
             { identificador: { contains: q, mode: "insensitive" as const } },
             { cpfCnpj: { contains: onlyDigits(q), mode: "insensitive" as const } },
           ],
         }
-      : {};
+      : { mergedIntoId: null };
 
-    const clientes = await prisma.cliente.findMany({
+    const clientes = await db.cliente.findMany({
       where,
       orderBy: { createdAt: "desc" },
       take: 100,
@@ -72,6 +77,7 @@ export async function GET(req: NextRequest) {
         telefone: true,
         origem: true,
         origemDescricao: true,
+        tags: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -88,8 +94,10 @@ export async function GET(req: NextRequest) {
 }
 
 export async function POST(req: NextRequest) {
+  const { session, db, denied } = await requirePermission("clientes.write");
+  if (denied) return denied;
+
   try {
-    const session = await getSessionServer();
     const userId = String(session?.id || "");
     if (!userId) {
       return NextResponse.json(
@@ -142,7 +150,36 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const created = await prisma.$transaction(async (tx) => {
+    // ✅ barra duplicado: mesmo CPF/CNPJ sempre; telefone/nome parecido pede confirmação
+    const duplicates = await findDuplicatesFor(db, { nome, cpfCnpj, telefone });
+    const sameDoc = duplicates.filter((d) => d.reasons.includes("CPF_CNPJ"));
+    if (sameDoc.length) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: `Já existe cliente com este CPF/CNPJ: ${sameDoc[0].cliente.nome} (${sameDoc[0].cliente.identificador}).`,
+          code: "DUPLICATE",
+          duplicates: sameDoc,
+        },
+        { status: 409 }
+      );
+    }
+    if (duplicates.length && body?.confirmDuplicate !== true) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: `Possível duplicado: ${duplicates
+            .slice(0, 3)
+            .map((d) => `${d.cliente.nome} (${d.cliente.identificador})`)
+            .join(", ")}.`,
+          code: "POSSIBLE_DUPLICATE",
+          duplicates,
+        },
+        { status: 409 }
+      );
+    }
+
+    const created = await db.$transaction(async (tx) => {
       // contador sequencial CL00001
       const counter = await tx.counter.upsert({
         where: { key: "cliente" },
@@ -155,6 +192,7 @@ export async function POST(req: NextRequest) {
 
       const cliente = await tx.cliente.create({
         data: {
+          team: session.team,
           identificador,
           tipo,
           nome,
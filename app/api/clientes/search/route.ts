@@ -1,13 +1,16 @@
 // app/api/clientes/search/route.ts
 import { NextResponse } from "next/server";
 import { Prisma } from "@prisma/client";
-import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/require-permission";
 
 function onlyDigits(v: string) {
   return (v || "").replace(/\D+/g, "");
 }
 
 export async function GET(req: Request) {
+  const { db, denied } = await requirePermission("clientes.read");
+  if (denied) return denied;
+
   try {
     const { searchParams } = new URL(req.url);
 
@@ -19,7 +22,8 @@ export async function GET(req: Request) {
 
     // recentes
     if (recent || q.length < 2) {
-      const clientes = await prisma.cliente.findMany({
+      const clientes = await db.cliente.findMany({
+        where: { mergedIntoId: null },
         orderBy: { createdAt: "desc" },
         take: limit,
         select: {
@@ -37,6 +41,7 @@ export async function GET(req: Request) {
     const digits = onlyDigits(q);
 
     const where: Prisma.ClienteWhereInput = {
+      mergedIntoId: null,
       OR: [
         { nome: { contains: q, mode } },
         { identificador: { contains: q, mode } },
@@ -49,7 +54,7 @@ export async function GET(req: Request) {
       ],
     };
 
-    const clientes = await prisma.cliente.findMany({
+    const clientes = await db.cliente.findMany({
       where,
       orderBy: { createdAt: "desc" },
       take: limit,
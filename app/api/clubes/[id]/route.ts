@@ -1,7 +1,8 @@
 // app/api/clubes/[id]/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { getSessionServer } from "@/lib/auth-server";
+import { requirePermission } from "@/lib/require-permission";
+import { getClubRule, projectClub, serializeProjection } from "@/lib/club-rules";
+import { recordClubCharge } from "@/lib/club-charges";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -63,91 +64,11 @@ function prismaMsg(e: any) {
   return "Falha ao processar no banco.";
 }
 
-/* ======================
-   Regras de automação
-====================== */
-const LATAM_CANCEL_AFTER_INACTIVE_DAYS = 10;
-const SMILES_CANCEL_AFTER_INACTIVE_DAYS = 60;
-const LIVELO_INACTIVE_AFTER_SUBSCRIBE_DAYS = 30;
-const SMILES_PROMO_DAYS = 365;
-
 /** normaliza qualquer date para "início do dia" em UTC */
 function startUTC(d: Date) {
   return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
 }
 
-/** datas em UTC para não “pular dia” por timezone */
-function addDaysUTC(base: Date, days: number) {
-  const d = startUTC(base);
-  d.setUTCDate(d.getUTCDate() + days);
-  return d;
-}
-
-function daysInMonthUTC(year: number, month0: number) {
-  return new Date(Date.UTC(year, month0 + 1, 0)).getUTCDate();
-}
-
-/** dia X do mês seguinte ao base (clamp se mês não tem aquele dia) */
-function nextMonthOnDayUTC(base: Date, day: number) {
-  const b = startUTC(base);
-  const y0 = b.getUTCFullYear();
-  const m0 = b.getUTCMonth();
-
-  let y = y0;
-  let m = m0 + 1;
-  if (m > 11) {
-    m = 0;
-    y += 1;
-  }
-
-  const last = daysInMonthUTC(y, m);
-  const dd = Math.min(Math.max(1, day), last);
-
-  return new Date(Date.UTC(y, m, dd));
-}
-
-function computeAutoDates(input: {
-  program: Program;
-  subscribedAt: Date;
-  renewalDay: number;
-  lastRenewedAt: Date | null;
-  // ✅ base do Promo SMILES por cedente = ÚLTIMA assinatura SMILES
-  smilesPromoBaseAt?: Date | null;
-}) {
-  const { program, subscribedAt, renewalDay, lastRenewedAt } = input;
-
-  let nextRenewalAt: Date | null = null;
-  let inactiveAt: Date | null = null;
-  let pointsExpireAt: Date | null = null;
-  let smilesBonusEligibleAt: Date | null = null;
-
-  if (program === "LATAM" || program === "SMILES") {
-    const base = lastRenewedAt ?? subscribedAt;
-
-    nextRenewalAt = nextMonthOnDayUTC(base, renewalDay);
-    inactiveAt = addDaysUTC(nextRenewalAt, 1);
-
-    const cancelAfter =
-      program === "LATAM"
-        ? LATAM_CANCEL_AFTER_INACTIVE_DAYS
-        : SMILES_CANCEL_AFTER_INACTIVE_DAYS;
-
-    pointsExpireAt = addDaysUTC(inactiveAt, cancelAfter);
-
-    if (program === "SMILES") {
-      const promoBase = input.smilesPromoBaseAt ?? subscribedAt;
-      smilesBonusEligibleAt = addDaysUTC(promoBase, SMILES_PROMO_DAYS);
-    }
-  } else if (program === "LIVELO") {
-    const base = lastRenewedAt ?? subscribedAt;
-    inactiveAt = addDaysUTC(base, LIVELO_INACTIVE_AFTER_SUBSCRIBE_DAYS);
-    pointsExpireAt = inactiveAt;
-    nextRenewalAt = inactiveAt;
-  }
-
-  return { nextRenewalAt, inactiveAt, pointsExpireAt, smilesBonusEligibleAt };
-}
-
 function clampTierK(n: number) {
   return Math.min(20, Math.max(1, n));
 }
@@ -156,43 +77,15 @@ function clampRenewalDay(n: number) {
   return Math.min(31, Math.max(1, n));
 }
 
-function applyAutoDowngrade(params: {
-  now: Date;
-  program: Program;
-  currentStatus: Status;
-  inactiveAt: Date | null;
-  cancelAtOrInativaAt: Date | null; // pointsExpireAt
-}) {
-  const now = startUTC(params.now);
-  const { program, currentStatus, inactiveAt, cancelAtOrInativaAt } = params;
-
-  let s: Status = currentStatus;
-
-  confirms: if (s !== "CANCELED") {
-    if ((program === "LATAM" || program === "SMILES") && cancelAtOrInativaAt) {
-      if (now >= startUTC(cancelAtOrInativaAt)) s = "CANCELED";
-    }
-
-    if (inactiveAt && now >= startUTC(inactiveAt) && s === "ACTIVE") {
-      s = "PAUSED";
-    }
-
-    if (program === "LIVELO" && inactiveAt && now >= startUTC(inactiveAt) && s === "ACTIVE") {
-      s = "PAUSED";
-    }
-  }
-
-  return s;
-}
-
 export async function PATCH(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
-  const session = await getSessionServer();
-  if (!session) return bad("Não autenticado", 401);
+  const { session, db, denied } = await requirePermission("cedentes.write");
+  if (denied) return denied;
+
 
   const { id } = await ctx.params;
 
   try {
-    const existing = await prisma.clubSubscription.findFirst({
+    const existing = await db.clubSubscription.findFirst({
       where: { id, team: session.team },
       select: {
         id: true,
@@ -203,6 +96,7 @@ export async function PATCH(req: NextRequest, ctx: { params: Promise<{ id: strin
         renewalDay: true,
         lastRenewedAt: true,
         tierK: true,
+        priceCents: true,
         status: true,
         renewedThisCycle: true,
         notes: true,
@@ -220,7 +114,7 @@ export async function PATCH(req: NextRequest, ctx: { params: Promise<{ id: strin
       const cedenteId = String(body.cedenteId || "").trim();
       if (!cedenteId) return bad("cedenteId inválido");
 
-      const ced = await prisma.cedente.findFirst({
+      const ced = await db.cedente.findFirst({
         where: { id: cedenteId, owner: { team: session.team } },
         select: { id: true },
       });
@@ -243,8 +137,17 @@ export async function PATCH(req: NextRequest, ctx: { params: Promise<{ id: strin
       data.tierK = clampTierK(raw);
     }
 
-    // preço sempre 0
-    data.priceCents = 0;
+    // mensalidade (vai para a cobrança de cada renovação)
+    if (body.priceCents !== undefined) {
+      const priceCents = toInt(body.priceCents, 0) ?? 0;
+      if (priceCents < 0) return bad("priceCents não pode ser negativo");
+      data.priceCents = priceCents;
+    }
+
+    // débito automático (o cron renova e cobra no vencimento)
+    if (body.autoRenew !== undefined) {
+      data.autoRenew = Boolean(body.autoRenew);
+    }
 
     // subscribedAt (normaliza UTC)
     if (body.subscribedAt !== undefined) {
@@ -311,14 +214,17 @@ export async function PATCH(req: NextRequest, ctx: { params: Promise<{ id: strin
     data.subscribedAt = finalSubscribedAt;
     data.lastRenewedAt = finalLastRenewedAt;
 
-    // ✅ SMILES promo: ÚLTIMA assinatura SMILES do cedente (MAX), incluindo este registro
+    // ✅ regra do time (lib/club-rules.ts)
+    const rule = await getClubRule(db, finalProgram);
+
+    // ✅ promo: ÚLTIMA assinatura do programa no cedente (MAX), incluindo este registro
     let promoBaseAt: Date | null = null;
-    if (finalProgram === "SMILES") {
-      const agg = await prisma.clubSubscription.aggregate({
+    if (rule.bonusEligibleDays != null) {
+      const agg = await db.clubSubscription.aggregate({
         where: {
           team: session.team,
           cedenteId: finalCedenteId,
-          program: "SMILES" as any,
+          program: finalProgram,
           NOT: { id }, // pega “outros” e compara com este
         },
         _max: { subscribedAt: true },
@@ -329,50 +235,55 @@ export async function PATCH(req: NextRequest, ctx: { params: Promise<{ id: strin
         lastOther && lastOther.getTime() > finalSubscribedAt.getTime() ? lastOther : finalSubscribedAt;
     }
 
-    const auto = computeAutoDates({
-      program: finalProgram,
+    // status downgrade automático (não reativa sozinho)
+    const auto = projectClub(rule, {
+      status: (data.status as Status) ?? (existing.status as Status),
       subscribedAt: finalSubscribedAt,
       renewalDay: finalRenewalDay,
       lastRenewedAt: finalLastRenewedAt,
-      smilesPromoBaseAt: promoBaseAt,
-    });
-
-    data.pointsExpireAt = auto.pointsExpireAt ?? null;
-    data.smilesBonusEligibleAt = finalProgram === "SMILES" ? auto.smilesBonusEligibleAt ?? null : null;
-
-    // status downgrade automático (não reativa sozinho)
-    const now = startUTC(new Date());
-    const currentStatus: Status = (data.status as Status) ?? (existing.status as Status);
-
-    const desiredStatus = applyAutoDowngrade({
-      now,
-      program: finalProgram,
-      currentStatus,
-      inactiveAt: auto.inactiveAt,
-      cancelAtOrInativaAt: auto.pointsExpireAt,
+      bonusBaseAt: promoBaseAt,
     });
 
-    data.status = desiredStatus;
-
-    const updated = await prisma.clubSubscription.update({
-      where: { id },
-      data,
-      include: {
-        cedente: {
-          select: { id: true, identificador: true, nomeCompleto: true, cpf: true },
+    data.pointsExpireAt = auto.pointsExpireAt;
+    data.smilesBonusEligibleAt = auto.bonusEligibleAt;
+    data.status = auto.status;
+
+    // ✅ última renovação avançou = renovação marcada na tela → lança a cobrança
+    const renewed =
+      !!finalLastRenewedAt &&
+      (!existing.lastRenewedAt || finalLastRenewedAt > startUTC(existing.lastRenewedAt));
+
+    const updated = await db.$transaction(async (tx) => {
+      const sub = await tx.clubSubscription.update({
+        where: { id },
+        data,
+        include: {
+          cedente: {
+            select: { id: true, identificador: true, nomeCompleto: true, cpf: true },
+          },
         },
-      },
+      });
+
+      if (renewed && finalLastRenewedAt) {
+        await recordClubCharge(tx, sub, {
+          chargedAt: finalLastRenewedAt,
+          source: "MANUAL",
+          actorId: session.id,
+        });
+      }
+      return sub;
     });
 
-    return NextResponse.json({ ok: true, item: updated });
+    return NextResponse.json({ ok: true, item: { ...updated, projection: serializeProjection(auto) } });
   } catch (e: any) {
     return bad(prismaMsg(e), 500);
   }
 }
 
 export async function DELETE(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
-  const session = await getSessionServer();
-  if (!session) return bad("Não autenticado", 401);
+  const { session, db, denied } = await requirePermission("cedentes.write");
+  if (denied) return denied;
+
 
   const { id } = await ctx.params;
 
@@ -380,18 +291,18 @@ export async function DELETE(req: NextRequest, ctx: { params: Promise<{ id: stri
     const { searchParams } = new URL(req.url);
     const hard = searchParams.get("hard") === "1";
 
-    const existing = await prisma.clubSubscription.findFirst({
+    const existing = await db.clubSubscription.findFirst({
       where: { id, team: session.team },
       select: { id: true },
     });
     if (!existing) return bad("Clube não encontrado", 404);
 
     if (hard) {
-      await prisma.clubSubscription.delete({ where: { id } });
+      await db.clubSubscription.delete({ where: { id } });
       return NextResponse.json({ ok: true, deleted: true });
     }
 
-    const updated = await prisma.clubSubscription.update({
+    const updated = await db.clubSubscription.update({
       where: { id },
       data: { status: "CANCELED" as any },
       include: {
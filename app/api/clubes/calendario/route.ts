@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+import { getClubRules, projectClub } from "@/lib/club-rules";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/clubes/calendario?days=60
+ * Próximas renovações, pausas, cancelamentos e promos das assinaturas do time
+ * (regra de cada programa em lib/club-rules.ts), em ordem de data.
+ */
+export async function GET(req: NextRequest) {
+  const { db, denied } = await requirePermission("cedentes.read");
+  if (denied) return denied;
+
+  const daysRaw = Math.trunc(Number(new URL(req.url).searchParams.get("days") || 60));
+  const days = Number.isFinite(daysRaw) ? Math.min(366, Math.max(1, daysRaw)) : 60;
+
+  const [rules, subs] = await Promise.all([
+    getClubRules(db),
+    db.clubSubscription.findMany({
+      select: {
+        id: true,
+        cedenteId: true,
+        program: true,
+        tierK: true,
+        status: true,
+        subscribedAt: true,
+        renewalDay: true,
+        lastRenewedAt: true,
+        cedente: { select: { identificador: true, nomeCompleto: true } },
+      },
+    }),
+  ]);
+
+  // promo: base = última assinatura do cedente no programa
+  const lastSub = new Map<string, Date>();
+  for (const s of subs) {
+    const k = `${s.cedenteId}:${s.program}`;
+    const cur = lastSub.get(k);
+    if (!cur || s.subscribedAt > cur) lastSub.set(k, s.subscribedAt);
+  }
+
+  const events = subs.flatMap((s) => {
+    const p = projectClub(
+      rules[s.program],
+      { ...s, bonusBaseAt: lastSub.get(`${s.cedenteId}:${s.program}`) },
+      { horizonDays: days }
+    );
+    return p.calendar.map((e) => ({
+      kind: e.kind,
+      at: e.at.toISOString(),
+      clubId: s.id,
+      program: s.program,
+      tierK: s.tierK,
+      status: p.status,
+      cedente: { id: s.cedenteId, ...s.cedente },
+    }));
+  });
+
+  events.sort((a, b) => a.at.localeCompare(b.at) || a.cedente.nomeCompleto.localeCompare(b.cedente.nomeCompleto));
+
+  return NextResponse.json({ ok: true, days, events });
+}
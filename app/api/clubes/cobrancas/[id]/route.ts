@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+import { recomputeCompra } from "@/lib/compras";
+import {
+  ClubChargeError,
+  attachChargeToPurchase,
+  detachChargeFromPurchase,
+} from "@/lib/club-charges";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+function bad(message: string, status = 400) {
+  return NextResponse.json({ ok: false, error: message }, { status });
+}
+
+/**
+ * PATCH /api/clubes/cobrancas/:id
+ * body: { purchaseId: string | null }
+ * - purchaseId → lança a cobrança como item CLUB na compra aberta
+ * - null       → tira da compra (volta a ser custo avulso)
+ */
+export async function PATCH(req: NextRequest, { params }: Ctx) {
+  const { db, denied } = await requirePermission("compras.write");
+  if (denied) return denied;
+
+  const { id } = await params;
+  const body = await req.json().catch(() => ({}));
+  if (!("purchaseId" in body)) return bad("purchaseId é obrigatório (ou null para tirar da compra)");
+
+  const purchaseId = body.purchaseId ? String(body.purchaseId).trim() : null;
+
+  try {
+    // recalcula a compra antiga e a nova (fora da transação: recomputeCompra usa o client raiz)
+    const touched = await db.$transaction(async (tx) => {
+      const from = await detachChargeFromPurchase(tx, id);
+      if (purchaseId) await attachChargeToPurchase(tx, id, purchaseId);
+      return [from, purchaseId].filter((x): x is string => !!x);
+    });
+
+    for (const pid of new Set(touched)) await recomputeCompra(pid);
+
+    const item = await db.clubCharge.findFirst({
+      where: { id },
+      include: { purchase: { select: { id: true, numero: true, status: true } } },
+    });
+    return NextResponse.json({ ok: true, item });
+  } catch (e) {
+    if (e instanceof ClubChargeError) return bad(e.message);
+    throw e;
+  }
+}
+
+/**
+ * DELETE /api/clubes/cobrancas/:id
+ * Remove uma cobrança lançada por engano (tira da compra antes).
+ */
+export async function DELETE(_req: NextRequest, { params }: Ctx) {
+  const { db, denied } = await requirePermission("compras.write");
+  if (denied) return denied;
+
+  const { id } = await params;
+
+  try {
+    const purchaseId = await db.$transaction(async (tx) => {
+      const from = await detachChargeFromPurchase(tx, id);
+      await tx.clubCharge.delete({ where: { id } });
+      return from;
+    });
+
+    if (purchaseId) await recomputeCompra(purchaseId);
+
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    if (e instanceof ClubChargeError) return bad(e.message);
+    throw e;
+  }
+}
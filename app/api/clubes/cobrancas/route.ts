@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+import { clubSpendReport } from "@/lib/club-charges";
+import { LoyaltyProgram } from "@prisma/client";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function bad(message: string, status = 400) {
+  return NextResponse.json({ ok: false, error: message }, { status });
+}
+
+/**
+ * GET /api/clubes/cobrancas?month=YYYY-MM&program=SMILES
+ * Cobranças dos clubes no mês + resumo por programa (gasto × pontos creditados,
+ * quanto foi para compras e quanto ficou como custo avulso).
+ */
+export async function GET(req: NextRequest) {
+  const { db, denied } = await requirePermission("compras.read");
+  if (denied) return denied;
+
+  const sp = new URL(req.url).searchParams;
+
+  const now = new Date();
+  const month =
+    (sp.get("month") || "").trim() ||
+    `${now.getUTCFullYear()}-${String(now.getUTCMonth() + 1).padStart(2, "0")}`;
+  const m = /^(\d{4})-(\d{2})$/.exec(month);
+  if (!m) return bad("month inválido (use YYYY-MM)");
+
+  const y = Number(m[1]);
+  const mo = Number(m[2]) - 1;
+  if (mo < 0 || mo > 11) return bad("month inválido (use YYYY-MM)");
+
+  const programRaw = (sp.get("program") || "").trim().toUpperCase();
+  if (programRaw && !(Object.values(LoyaltyProgram) as string[]).includes(programRaw)) {
+    return bad("program inválido");
+  }
+  const program = programRaw ? (programRaw as LoyaltyProgram) : null;
+
+  const from = new Date(Date.UTC(y, mo, 1));
+  const to = new Date(Date.UTC(y, mo + 1, 1));
+
+  const { charges, summary } = await clubSpendReport(db, { from, to, program });
+
+  return NextResponse.json({
+    ok: true,
+    month,
+    charges: charges.map((c) => ({ ...c, chargedAt: c.chargedAt.toISOString() })),
+    summary,
+  });
+}
@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { getSessionServer } from "@/lib/auth-server";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -150,8 +149,9 @@ function applyFilters(rows: MatrixRow[], q?: string, program?: Program | "", sta
 }
 
 export async function GET(req: NextRequest) {
-  const session = await getSessionServer();
-  if (!session) return bad("Não autenticado", 401);
+  const { session, db, denied } = await requirePermission("cedentes.read");
+  if (denied) return denied;
+
 
   const { searchParams } = new URL(req.url);
 
@@ -166,7 +166,7 @@ export async function GET(req: NextRequest) {
 
   try {
     // 1) cedentes do time (sempre todos; filtro q é aplicado depois)
-    const cedentes = await prisma.cedente.findMany({
+    const cedentes = await db.cedente.findMany({
       where: { owner: { team: session.team } },
       select: { id: true, identificador: true, nomeCompleto: true, cpf: true },
       orderBy: [{ nomeCompleto: "asc" }, { identificador: "asc" }],
@@ -175,7 +175,7 @@ export async function GET(req: NextRequest) {
     const cedenteIds = cedentes.map((c) => c.id);
 
     // 2) clubes do time (pegamos tudo e escolhemos o mais recente por programa)
-    const clubs = await prisma.clubSubscription.findMany({
+    const clubs = await db.clubSubscription.findMany({
       where: {
         team: session.team,
         ...(cedenteIds.length ? { cedenteId: { in: cedenteIds } } : {}),
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from "next/server";
+import { LoyaltyProgram } from "@prisma/client";
+import { requirePermission } from "@/lib/require-permission";
+import { DEFAULT_CLUB_RULES, describeClubRule, getClubRules, parseClubRuleInput } from "@/lib/club-rules";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function bad(message: string, status = 400) {
+  return NextResponse.json({ ok: false, error: message }, { status });
+}
+
+function parseProgram(v: unknown): LoyaltyProgram | null {
+  const s = String(v || "").trim().toUpperCase();
+  return (Object.values(LoyaltyProgram) as string[]).includes(s) ? (s as LoyaltyProgram) : null;
+}
+
+/**
+ * GET /api/clubes/regras
+ * Regra de clube de cada programa do time (custom=false → padrão do sistema).
+ */
+export async function GET() {
+  const { db, denied } = await requirePermission("cedentes.read");
+  if (denied) return denied;
+
+  const [rules, saved] = await Promise.all([
+    getClubRules(db),
+    db.clubRule.findMany({ select: { program: true, updatedAt: true } }),
+  ]);
+  const savedAt = new Map(saved.map((r) => [r.program, r.updatedAt.toISOString()]));
+
+  const data = Object.values(LoyaltyProgram).map((program) => ({
+    ...rules[program],
+    label: describeClubRule(rules[program]),
+    custom: savedAt.has(program),
+    updatedAt: savedAt.get(program) ?? null,
+  }));
+
+  return NextResponse.json({ ok: true, data });
+}
+
+/**
+ * PUT /api/clubes/regras
+ * Body: { program, cycleType, renewalDay?, cycleDays?, pauseAfterDays, cancelAfterDays?, bonusEligibleDays? }
+ */
+export async function PUT(req: NextRequest) {
+  const { session, db, denied } = await requirePermission("cedentes.write");
+  if (denied) return denied;
+
+  const body = await req.json().catch(() => ({}));
+  const program = parseProgram(body?.program);
+  if (!program) return bad("Programa inválido.");
+
+  const rule = parseClubRuleInput(program, body);
+  if (typeof rule === "string") return bad(rule);
+
+  const fields = {
+    cycleType: rule.cycleType,
+    renewalDay: rule.renewalDay,
+    cycleDays: rule.cycleDays,
+    pauseAfterDays: rule.pauseAfterDays,
+    cancelAfterDays: rule.cancelAfterDays,
+    bonusEligibleDays: rule.bonusEligibleDays,
+  };
+
+  const saved = await db.clubRule.upsert({
+    where: { team_program: { team: session.team, program } },
+    create: { team: session.team, program, ...fields, updatedById: session.id },
+    update: { ...fields, updatedById: session.id },
+    select: {
+      program: true,
+      cycleType: true,
+      renewalDay: true,
+      cycleDays: true,
+      pauseAfterDays: true,
+      cancelAfterDays: true,
+      bonusEligibleDays: true,
+      updatedAt: true,
+    },
+  });
+
+  return NextResponse.json({
+    ok: true,
+    data: {
+      ...saved,
+      label: describeClubRule(saved),
+      custom: true,
+      updatedAt: saved.updatedAt.toISOString(),
+    },
+  });
+}
+
+/**
+ * DELETE /api/clubes/regras?program=LATAM
+ * Apaga a regra do time → volta ao padrão.
+ */
+export async function DELETE(req: NextRequest) {
+  const { db, denied } = await requirePermission("cedentes.write");
+  if (denied) return denied;
+
+  const program = parseProgram(new URL(req.url).searchParams.get("program"));
+  if (!program) return bad("Programa inválido.");
+
+  await db.clubRule.deleteMany({ where: { program } });
+
+  const rule = DEFAULT_CLUB_RULES[program];
+  return NextResponse.json({
+    ok: true,
+    data: { ...rule, label: describeClubRule(rule), custom: false, updatedAt: null },
+  });
+}
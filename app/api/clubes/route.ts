@@ -1,7 +1,8 @@
 // app/api/clubes/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { getSessionServer } from "@/lib/auth-server";
+import { requirePermission } from "@/lib/require-permission";
+import { getClubRule, getClubRules, projectClub, serializeProjection } from "@/lib/club-rules";
+import { recordClubCharge } from "@/lib/club-charges";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -68,93 +69,10 @@ function startUTC(d: Date) {
   return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
 }
 
-/** datas em UTC para não “pular dia” por timezone */
-function addDaysUTC(base: Date, days: number) {
-  const d = startUTC(base);
-  d.setUTCDate(d.getUTCDate() + days);
-  return d;
-}
-
-function daysInMonthUTC(year: number, month0: number) {
-  // dia 0 do mês seguinte = último dia do mês atual
-  return new Date(Date.UTC(year, month0 + 1, 0)).getUTCDate();
-}
-
-/** dia X do mês seguinte ao base (clamp se mês não tem aquele dia) */
-function nextMonthOnDayUTC(base: Date, day: number) {
-  const y0 = base.getUTCFullYear();
-  const m0 = base.getUTCMonth();
-
-  let y = y0;
-  let m = m0 + 1;
-  if (m > 11) {
-    m = 0;
-    y += 1;
-  }
-
-  const last = daysInMonthUTC(y, m);
-  const dd = Math.min(Math.max(1, day), last);
-
-  return new Date(Date.UTC(y, m, dd));
-}
-
-const LATAM_CANCEL_AFTER_INACTIVE_DAYS = 10;
-const SMILES_CANCEL_AFTER_INACTIVE_DAYS = 60;
-
-// ✅ LIVELO: exatamente 30 dias após assinatura/renovação
-const LIVELO_INACTIVE_AFTER_SUBSCRIBE_DAYS = 30;
-
-const SMILES_PROMO_DAYS = 365;
-
-function computeAutoDates(input: {
-  program: Program;
-  subscribedAt: Date;
-  renewalDay: number;
-  lastRenewedAt: Date | null;
-  // ✅ base do Promo SMILES por cedente = ÚLTIMA assinatura SMILES
-  smilesPromoBaseAt?: Date | null;
-}) {
-  const { program, subscribedAt, renewalDay, lastRenewedAt } = input;
-
-  let nextRenewalAt: Date | null = null;
-  let inactiveAt: Date | null = null;
-  let pointsExpireAt: Date | null = null;
-  let smilesBonusEligibleAt: Date | null = null;
-
-  if (program === "LATAM" || program === "SMILES") {
-    const base = lastRenewedAt ?? subscribedAt;
-
-    // ✅ SEMPRE mês seguinte (nunca no mesmo mês)
-    nextRenewalAt = nextMonthOnDayUTC(base, renewalDay);
-
-    // fica inativo no dia seguinte
-    inactiveAt = addDaysUTC(nextRenewalAt, 1);
-
-    const cancelAfter =
-      program === "LATAM"
-        ? LATAM_CANCEL_AFTER_INACTIVE_DAYS
-        : SMILES_CANCEL_AFTER_INACTIVE_DAYS;
-
-    // cancela após X dias de inatividade
-    pointsExpireAt = addDaysUTC(inactiveAt, cancelAfter);
-
-    if (program === "SMILES") {
-      const promoBase = input.smilesPromoBaseAt ?? subscribedAt; // ✅ usa a ÚLTIMA
-      smilesBonusEligibleAt = addDaysUTC(promoBase, SMILES_PROMO_DAYS);
-    }
-  } else if (program === "LIVELO") {
-    const base = lastRenewedAt ?? subscribedAt;
-    inactiveAt = addDaysUTC(base, LIVELO_INACTIVE_AFTER_SUBSCRIBE_DAYS);
-    pointsExpireAt = inactiveAt;
-    nextRenewalAt = inactiveAt;
-  }
-
-  return { nextRenewalAt, inactiveAt, pointsExpireAt, smilesBonusEligibleAt };
-}
-
 export async function GET(req: NextRequest) {
-  const session = await getSessionServer();
-  if (!session) return bad("Não autenticado", 401);
+  const { session, db, denied } = await requirePermission("cedentes.read");
+  if (denied) return denied;
+
 
   const { searchParams } = new URL(req.url);
 
@@ -189,7 +107,7 @@ export async function GET(req: NextRequest) {
   };
 
   try {
-    const items = await prisma.clubSubscription.findMany({
+    const items = await db.clubSubscription.findMany({
       where,
       include: {
         cedente: {
@@ -199,65 +117,57 @@ export async function GET(req: NextRequest) {
       orderBy: [{ subscribedAt: "desc" }, { createdAt: "desc" }],
     });
 
-    const now = startUTC(new Date());
+    // ✅ regras do time (lib/club-rules.ts)
+    const rules = await getClubRules(db);
 
-    // ✅ SMILES: ÚLTIMA assinatura por cedente (MAX) para promo+365
-    const smilesCedenteIds = Array.from(
-      new Set(items.filter((i) => i.program === "SMILES").map((i) => i.cedenteId))
+    // ✅ promo: ÚLTIMA assinatura por cedente/programa (MAX) — programas com bônus na regra
+    const bonusPrograms = Array.from(new Set(items.map((i) => i.program))).filter(
+      (p) => rules[p].bonusEligibleDays != null
+    );
+    const bonusCedenteIds = Array.from(
+      new Set(items.filter((i) => bonusPrograms.includes(i.program)).map((i) => i.cedenteId))
     );
 
-    const lastSmilesByCedente = new Map<string, Date>();
-    if (smilesCedenteIds.length) {
-      const grouped = await prisma.clubSubscription.groupBy({
-        by: ["cedenteId"],
+    const lastSubByCedente = new Map<string, Date>();
+    if (bonusCedenteIds.length) {
+      const grouped = await db.clubSubscription.groupBy({
+        by: ["cedenteId", "program"],
         where: {
           team: session.team,
-          program: "SMILES" as any,
-          cedenteId: { in: smilesCedenteIds },
+          program: { in: bonusPrograms },
+          cedenteId: { in: bonusCedenteIds },
         },
         _max: { subscribedAt: true },
       });
 
       for (const g of grouped) {
-        if (g._max.subscribedAt) lastSmilesByCedente.set(g.cedenteId, g._max.subscribedAt);
+        if (g._max.subscribedAt) lastSubByCedente.set(`${g.cedenteId}:${g.program}`, g._max.subscribedAt);
       }
     }
 
     const updates: Promise<any>[] = [];
+    const projections = new Map<string, ReturnType<typeof serializeProjection>>();
 
     for (const it of items as any[]) {
       const tierK = Math.min(20, Math.max(1, Number(it.tierK) || 10));
       const renewalDay = Math.min(31, Math.max(1, Number(it.renewalDay) || 1));
 
-      const auto = computeAutoDates({
-        program: it.program as Program,
+      const auto = projectClub(rules[it.program as Program], {
+        status: it.status,
         subscribedAt: it.subscribedAt as Date,
         renewalDay,
         lastRenewedAt: (it.lastRenewedAt as Date | null) ?? null,
-        smilesPromoBaseAt:
-          it.program === "SMILES" ? (lastSmilesByCedente.get(it.cedenteId) ?? null) : null,
+        bonusBaseAt: lastSubByCedente.get(`${it.cedenteId}:${it.program}`) ?? null,
       });
+      projections.set(it.id, serializeProjection(auto));
 
       // downgrade automático (não reativa sozinho)
-      let desiredStatus: Status = it.status as Status;
-
-      if (desiredStatus !== "CANCELED") {
-        if (auto.pointsExpireAt && (it.program === "LATAM" || it.program === "SMILES")) {
-          if (now >= startUTC(auto.pointsExpireAt)) desiredStatus = "CANCELED";
-        }
-        if (auto.inactiveAt && now >= startUTC(auto.inactiveAt) && desiredStatus === "ACTIVE") {
-          desiredStatus = "PAUSED";
-        }
-      }
+      const desiredStatus: Status = auto.status;
 
       const desired: any = {};
       let dirty = false;
 
       // normalizações
-      if (it.priceCents !== 0) {
-        desired.priceCents = 0;
-        dirty = true;
-      }
       if (it.tierK !== tierK) {
         desired.tierK = tierK;
         dirty = true;
@@ -279,21 +189,16 @@ export async function GET(req: NextRequest) {
         dirty = true;
       }
 
-      // SMILES promo: sempre recalcula e aplica igual em todos os registros do cedente
-      if (it.program === "SMILES") {
-        const curSB: Date | null = it.smilesBonusEligibleAt ?? null;
-        const nxtSB: Date | null = auto.smilesBonusEligibleAt ?? null;
+      // promo: sempre recalcula e aplica igual em todos os registros do cedente
+      const curSB: Date | null = it.smilesBonusEligibleAt ?? null;
+      const nxtSB: Date | null = auto.bonusEligibleAt;
 
-        const sameSB =
-          (!curSB && !nxtSB) ||
-          (curSB && nxtSB && startUTC(curSB).getTime() === startUTC(nxtSB).getTime());
+      const sameSB =
+        (!curSB && !nxtSB) ||
+        (curSB && nxtSB && startUTC(curSB).getTime() === startUTC(nxtSB).getTime());
 
-        if (!sameSB) {
-          desired.smilesBonusEligibleAt = nxtSB;
-          dirty = true;
-        }
-      } else if (it.smilesBonusEligibleAt) {
-        desired.smilesBonusEligibleAt = null;
+      if (!sameSB) {
+        desired.smilesBonusEligibleAt = nxtSB;
         dirty = true;
       }
 
@@ -304,7 +209,7 @@ export async function GET(req: NextRequest) {
 
       if (dirty) {
         updates.push(
-          prisma.clubSubscription.update({
+          db.clubSubscription.update({
             where: { id: it.id },
             data: desired,
           })
@@ -317,7 +222,10 @@ export async function GET(req: NextRequest) {
       await Promise.allSettled(updates);
     }
 
-    const finalItems = status ? items.filter((i: any) => i.status === status) : items;
+    const finalItems = (status ? items.filter((i: any) => i.status === status) : items).map((i) => ({
+      ...i,
+      projection: projections.get(i.id) ?? null,
+    }));
     return NextResponse.json({ ok: true, items: finalItems });
   } catch (e: any) {
     return bad(prismaMsg(e), 500);
@@ -325,8 +233,9 @@ export async function GET(req: NextRequest) {
 }
 
 export async function POST(req: NextRequest) {
-  const session = await getSessionServer();
-  if (!session) return bad("Não autenticado", 401);
+  const { session, db, denied } = await requirePermission("cedentes.write");
+  if (denied) return denied;
+
 
   const body = await req.json().catch(() => null);
   if (!body) return bad("JSON inválido");
@@ -337,10 +246,10 @@ export async function POST(req: NextRequest) {
 
   const tierKRaw = toInt(body.tierK, 10) ?? 10;
   const tierK = Math.min(20, Math.max(1, tierKRaw));
-  const priceCents = 0;
+  const priceCents = Math.max(0, toInt(body.priceCents, 0) ?? 0);
+  const autoRenew = Boolean(body.autoRenew ?? false);
 
   const subscribedAt = startUTC(toDate(body.subscribedAt) || new Date());
-  const renewalDay = Math.min(31, Math.max(1, toInt(body.renewalDay, 1) ?? 1));
 
   const lastRenewedAtRaw = toDate(body.lastRenewedAt);
   const lastRenewedAt = lastRenewedAtRaw ? startUTC(lastRenewedAtRaw) : null;
@@ -357,53 +266,67 @@ export async function POST(req: NextRequest) {
   if (!status) return bad("status inválido");
 
   try {
-    const ced = await prisma.cedente.findFirst({
+    const ced = await db.cedente.findFirst({
       where: { id: cedenteId, owner: { team: session.team } },
       select: { id: true },
     });
     if (!ced) return bad("Cedente não encontrado (ou não pertence ao seu time)", 404);
 
-    // ✅ SMILES: base = última assinatura SMILES (MAX), incluindo o registro novo
+    // ✅ regra do time; sem dia informado vale o dia padrão dela
+    const rule = await getClubRule(db, program);
+    const renewalDay = Math.min(31, Math.max(1, toInt(body.renewalDay, rule.renewalDay ?? 1) ?? 1));
+
+    // ✅ promo: base = última assinatura do programa (MAX), incluindo o registro novo
     let promoBaseAt: Date | null = null;
-    if (program === "SMILES") {
-      const agg = await prisma.clubSubscription.aggregate({
-        where: { team: session.team, cedenteId, program: "SMILES" as any },
+    if (rule.bonusEligibleDays != null) {
+      const agg = await db.clubSubscription.aggregate({
+        where: { team: session.team, cedenteId, program },
         _max: { subscribedAt: true },
       });
       const last = agg._max.subscribedAt ? startUTC(agg._max.subscribedAt) : null;
       promoBaseAt = last && last.getTime() > subscribedAt.getTime() ? last : subscribedAt;
     }
 
-    const auto = computeAutoDates({
-      program,
+    const auto = projectClub(rule, {
+      status,
       subscribedAt,
       renewalDay,
       lastRenewedAt,
-      smilesPromoBaseAt: promoBaseAt,
+      bonusBaseAt: promoBaseAt,
     });
 
-    const created = await prisma.clubSubscription.create({
-      data: {
-        team: session.team,
-        cedenteId,
-        program: program as any,
-        tierK,
-        priceCents,
-        subscribedAt,
-        renewalDay,
-        lastRenewedAt,
-        pointsExpireAt: auto.pointsExpireAt,
-        renewedThisCycle,
-        status: status as any,
-        smilesBonusEligibleAt: auto.smilesBonusEligibleAt,
-        notes,
-      },
-      include: {
-        cedente: { select: { id: true, identificador: true, nomeCompleto: true, cpf: true } },
-      },
+    // ✅ assinatura (e renovação já informada) viram cobrança na mesma transação
+    const created = await db.$transaction(async (tx) => {
+      const sub = await tx.clubSubscription.create({
+        data: {
+          team: session.team,
+          cedenteId,
+          program: program as any,
+          tierK,
+          priceCents,
+          subscribedAt,
+          renewalDay,
+          lastRenewedAt,
+          pointsExpireAt: auto.pointsExpireAt,
+          renewedThisCycle,
+          autoRenew,
+          status: status as any,
+          smilesBonusEligibleAt: auto.bonusEligibleAt,
+          notes,
+        },
+        include: {
+          cedente: { select: { id: true, identificador: true, nomeCompleto: true, cpf: true } },
+        },
+      });
+
+      await recordClubCharge(tx, sub, { chargedAt: subscribedAt, source: "MANUAL", actorId: session.id });
+      if (lastRenewedAt && lastRenewedAt > subscribedAt) {
+        await recordClubCharge(tx, sub, { chargedAt: lastRenewedAt, source: "MANUAL", actorId: session.id });
+      }
+      return sub;
     });
 
-    return NextResponse.json({ ok: true, item: created });
+    return NextResponse.json({ ok: true, item: { ...created, projection: serializeProjection(auto) } });
   } catch (e: any) {
     return bad(prismaMsg(e), 500);
   }
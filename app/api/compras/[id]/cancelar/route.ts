@@ -1,16 +1,19 @@
-import { prisma } from "@/lib/prisma";
 import { ok, badRequest, notFound, serverError } from "@/lib/api";
 import { recomputeCompra } from "@/lib/compras";
 import { NextRequest } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
 
 export const dynamic = "force-dynamic";
 
 export async function POST(_req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const { db, denied } = await requirePermission("compras.write");
+  if (denied) return denied;
+
   try {
     const { id } = await ctx.params;
     if (!id) return badRequest("id é obrigatório.");
 
-    const exists = await prisma.purchase.findUnique({
+    const exists = await db.purchase.findUnique({
       where: { id },
       select: { id: true, status: true },
     });
@@ -19,7 +22,7 @@ export async function POST(_req: NextRequest, ctx: { params: Promise<{ id: strin
     // (opcional) se quiser impedir cancelar compra liberada:
     // if (exists.status === "CLOSED") return badRequest("Compra já liberada não pode ser cancelada.");
 
-    const compra = await prisma.purchase.update({
+    const compra = await db.purchase.update({
       where: { id },
       data: { status: "CANCELED" },
       include: { items: true },
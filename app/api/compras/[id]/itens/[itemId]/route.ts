@@ -1,6 +1,6 @@
-import { prisma } from "@/lib/prisma";
 import { ok, badRequest, notFound, serverError } from "@/lib/api";
 import { recomputeCompra } from "@/lib/compras";
+import { requirePermission } from "@/lib/require-permission";
 
 export const dynamic = "force-dynamic";
 
@@ -8,6 +8,9 @@ export async function PATCH(
   req: Request,
   ctx: { params: Promise<{ id: string; itemId: string }> }
 ) {
+  const { db, denied } = await requirePermission("compras.write");
+  if (denied) return denied;
+
   try {
     const { id, itemId } = await ctx.params;
     if (!id || !itemId) return badRequest("id e itemId são obrigatórios.");
@@ -15,12 +18,12 @@ export async function PATCH(
     const body = await req.json().catch(() => null);
     if (!body) return badRequest("JSON inválido.");
 
-    const item = await prisma.purchaseItem.findFirst({
+    const item = await db.purchaseItem.findFirst({
       where: { id: itemId, purchaseId: id },
     });
     if (!item) return notFound("Item não encontrado.");
 
-    const updated = await prisma.purchaseItem.update({
+    const updated = await db.purchaseItem.update({
       where: { id: itemId },
       data: {
         status: body.status === undefined ? undefined : body.status,
@@ -55,18 +58,21 @@ export async function DELETE(
   _req: Request,
   ctx: { params: Promise<{ id: string; itemId: string }> }
 ) {
+  const { db, denied } = await requirePermission("compras.write");
+  if (denied) return denied;
+
   try {
     const { id, itemId } = await ctx.params;
     if (!id || !itemId) return badRequest("id e itemId são obrigatórios.");
 
-    const item = await prisma.purchaseItem.findFirst({
+    const item = await db.purchaseItem.findFirst({
       where: { id: itemId, purchaseId: id },
       select: { id: true },
     });
     if (!item) return notFound("Item não encontrado.");
 
     // em vez de apagar físico, marca como CANCELED
-    const updated = await prisma.purchaseItem.update({
+    const updated = await db.purchaseItem.update({
       where: { id: itemId },
       data: { status: "CANCELED" },
     });
@@ -1,21 +1,24 @@
-import { prisma } from "@/lib/prisma";
 import { ok, badRequest, notFound, serverError } from "@/lib/api";
 import { recomputeCompra } from "@/lib/compras";
+import { requirePermission } from "@/lib/require-permission";
 
 export const dynamic = "force-dynamic";
 
 export async function GET(_req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const { db, denied } = await requirePermission("compras.read");
+  if (denied) return denied;
+
   try {
     const { id } = await ctx.params;
     if (!id) return badRequest("id é obrigatório.");
 
-    const compra = await prisma.purchase.findUnique({
+    const compra = await db.purchase.findUnique({
       where: { id },
       select: { id: true },
     });
     if (!compra) return notFound("Compra não encontrada.");
 
-    const itens = await prisma.purchaseItem.findMany({
+    const itens = await db.purchaseItem.findMany({
       where: { purchaseId: id },
       orderBy: { createdAt: "asc" },
     });
@@ -27,6 +30,9 @@ export async function GET(_req: Request, ctx: { params: Promise<{ id: string }>
 }
 
 export async function POST(req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const { db, denied } = await requirePermission("compras.write");
+  if (denied) return denied;
+
   try {
     const { id } = await ctx.params;
     if (!id) return badRequest("id é obrigatório.");
@@ -34,7 +40,7 @@ export async function POST(req: Request, ctx: { params: Promise<{ id: string }>
     const body = await req.json().catch(() => null);
     if (!body) return badRequest("JSON inválido.");
 
-    const compra = await prisma.purchase.findUnique({ where: { id }, select: { id: true, status: true } });
+    const compra = await db.purchase.findUnique({ where: { id }, select: { id: true, status: true } });
     if (!compra) return notFound("Compra não encontrada.");
     if (compra.status !== "OPEN") return badRequest("Só pode adicionar itens com a compra em OPEN.");
 
@@ -43,7 +49,7 @@ export async function POST(req: Request, ctx: { params: Promise<{ id: string }>
     if (!type) return badRequest("type é obrigatório.");
     if (!title) return badRequest("title é obrigatório.");
 
-    const item = await prisma.purchaseItem.create({
+    const item = await db.purchaseItem.create({
       data: {
         purchaseId: id,
         type,
@@ -1,7 +1,10 @@
-import { prisma } from "@/lib/prisma";
 import { ok, badRequest, notFound, serverError } from "@/lib/api";
 import { recomputeCompra } from "@/lib/compras";
-import { getSessionServer } from "@/lib/auth-server";
+import { setPointsBalances } from "@/lib/points-ledger";
+import { createPurchaseLots } from "@/lib/points-lots";
+import { maskSecretFields } from "@/lib/cedente-credentials";
+import { requirePermission } from "@/lib/require-permission";
+import { emitDomainEvent } from "@/lib/outbox";
 
 export const dynamic = "force-dynamic";
 
@@ -18,12 +21,13 @@ export async function POST(
   req: Request,
   ctx: { params: Promise<{ id: string }> }
 ) {
+  const { session, db, denied } = await requirePermission("compras.write");
+  if (denied) return denied;
+
   try {
     const { id } = await ctx.params;
     if (!id) return badRequest("id é obrigatório.");
 
-    // ✅ sessão vem do cookie (server)
-    const session = await getSessionServer();
     const userId = String(session?.id || "");
     if (!userId) return badRequest("Sessão inválida: faça login novamente.");
 
@@ -31,7 +35,7 @@ export async function POST(
     const body = await req.json().catch(() => ({} as any));
 
     // 1) valida compra
-    const compraBase = await prisma.purchase.findUnique({
+    const compraBase = await db.purchase.findUnique({
       where: { id },
       include: { cedente: true },
     });
@@ -44,7 +48,7 @@ export async function POST(
     await recomputeCompra(id);
 
     // 3) recarrega (garante valores atualizados)
-    const compra = await prisma.purchase.findUnique({
+    const compra = await db.purchase.findUnique({
       where: { id },
       include: { cedente: true },
     });
@@ -55,7 +59,7 @@ export async function POST(
     if (!compra.cedente) return badRequest("Cedente não encontrado na compra.");
 
     // 4) transação: aplica saldo no cedente + fecha compra + libera itens + gera comissão
-    const result = await prisma.$transaction(async (tx) => {
+    const result = await db.$transaction(async (tx) => {
       const stillOpen = await tx.purchase.findUnique({
         where: { id },
         include: { cedente: true, items: true },
@@ -113,20 +117,42 @@ export async function POST(
         ),
       };
 
-      // aplica saldos no cedente
-      await tx.cedente.update({
-        where: { id: stillOpen.cedenteId },
-        data: {
-          pontosLatam: applied.latam,
-          pontosSmiles: applied.smiles,
-          pontosLivelo: applied.livelo,
-          pontosEsfera: applied.esfera,
-          pontosAzul: applied.azul,
-          pontosIberia: applied.iberia,
-          pontosAA: applied.aa,
-          pontosTAP: applied.tap,
-          pontosFlyingBlue: applied.flyingBlue,
+      // aplica saldos no cedente (via extrato: lança só a diferença)
+      await setPointsBalances(
+        tx,
+        stillOpen.cedenteId,
+        {
+          LATAM: applied.latam,
+          SMILES: applied.smiles,
+          LIVELO: applied.livelo,
+          ESFERA: applied.esfera,
+          AZUL: applied.azul,
+          IBERIA: applied.iberia,
+          AA: applied.aa,
+          TAP: applied.tap,
+          FLYING_BLUE: applied.flyingBlue,
+        },
+        {
+          source: "PURCHASE_RELEASE",
+          actorId: userId,
+          refType: "PURCHASE",
+          refId: stillOpen.id,
+          note: `Liberação da compra ${stillOpen.numero}`,
+        }
+      );
+
+      // ✅ lotes de custo: o total da compra segue os pontos (transferência leva o custo da origem)
+      const releasedAt = new Date();
+      await createPurchaseLots(tx, {
+        team: session.team,
+        purchase: {
+          id: stillOpen.id,
+          numero: stillOpen.numero,
+          cedenteId: stillOpen.cedenteId,
+          totalCents: stillOpen.totalCents,
         },
+        items: stillOpen.items.filter((it) => it.status === "PENDING"),
+        acquiredAt: releasedAt,
       });
 
       // libera itens pendentes
@@ -139,7 +165,7 @@ export async function POST(
       const closedPurchase = await tx.purchase.update({
         where: { id },
         data: {
-          liberadoEm: new Date(),
+          liberadoEm: releasedAt,
           liberadoPorId: userId,
           status: "CLOSED",
 
@@ -178,7 +204,26 @@ export async function POST(
         });
       }
 
-      return { compra: closedPurchase, commission };
+      await emitDomainEvent(tx, {
+        team: session.team,
+        type: "purchase.released",
+        aggregateType: "Purchase",
+        aggregateId: closedPurchase.id,
+        actorId: userId,
+        payload: {
+          numero: closedPurchase.numero,
+          cedenteId: closedPurchase.cedenteId,
+          totalCents: closedPurchase.totalCents,
+          cedentePayCents: closedPurchase.cedentePayCents,
+          saldosAplicados: applied,
+          liberadoEm: closedPurchase.liberadoEm?.toISOString() ?? null,
+        },
+      });
+
+      return {
+        compra: { ...closedPurchase, cedente: maskSecretFields(closedPurchase.cedente) },
+        commission,
+      };
     });
 
     return ok(result);
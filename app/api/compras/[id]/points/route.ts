@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { requireSession } from "@/lib/auth-server";
+import { postPointsMovement } from "@/lib/points-ledger";
+import { consumeLots, createLot } from "@/lib/points-lots";
 import type { LoyaltyProgram, PurchaseItemStatus } from "@prisma/client";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -98,11 +99,13 @@ async function recalcPurchaseTotals(tx: any, purchaseId: string) {
  * GET /api/compras/:id/points
  */
 export async function GET(_req: NextRequest, { params }: Ctx) {
+  const { session, db, denied } = await requirePermission("compras.read");
+  if (denied) return denied;
+
   try {
-    const session = await requireSession();
     const { id: purchaseId } = await params;
 
-    const compra = await prisma.purchase.findFirst({
+    const compra = await db.purchase.findFirst({
       where: { id: purchaseId, cedente: { owner: { team: session.team } } },
       include: { items: true },
     });
@@ -148,15 +151,17 @@ export async function GET(_req: NextRequest, { params }: Ctx) {
  * body: { items: [{id?, title, pointsFinal, amountCents}], deleteIds: string[] }
  */
 export async function POST(req: NextRequest, { params }: Ctx) {
+  const { session, db, denied } = await requirePermission("compras.write");
+  if (denied) return denied;
+
   try {
-    const session = await requireSession();
     const { id: purchaseId } = await params;
 
     const body = await req.json().catch(() => ({}));
     const items = Array.isArray(body?.items) ? body.items : [];
     const deleteIds = Array.isArray(body?.deleteIds) ? body.deleteIds : [];
 
-    const compra = await prisma.purchase.findFirst({
+    const compra = await db.purchase.findFirst({
       where: { id: purchaseId, cedente: { owner: { team: session.team } } },
       include: { items: true, cedente: true },
     });
@@ -182,7 +187,7 @@ export async function POST(req: NextRequest, { params }: Ctx) {
 
     let deltaPoints = 0;
 
-    await prisma.$transaction(async (tx) => {
+    await db.$transaction(async (tx) => {
       // deletar
       for (const delId of deleteIds) {
         const old = byId.get(delId);
@@ -240,32 +245,26 @@ export async function POST(req: NextRequest, { params }: Ctx) {
       if (compra.status === "CLOSED" && deltaPoints !== 0) {
         const cedenteId = compra.cedenteId;
 
+        await postPointsMovement(tx, {
+          cedenteId,
+          program: cia,
+          deltaPoints,
+          source: "PURCHASE_ADJUSTMENT",
+          actorId: session.id,
+          refType: "PURCHASE",
+          refId: purchaseId,
+          note: `Ajuste de pontos na compra ${compra.numero}`,
+        });
+
         const patchPurchase: any = {};
         if (cia === "LATAM") {
-          await tx.cedente.update({ where: { id: cedenteId }, data: { pontosLatam: { increment: deltaPoints } } });
           patchPurchase.saldoAplicadoLatam = safeInt((compra as any).saldoAplicadoLatam, 0) + deltaPoints;
         } else if (cia === "SMILES") {
-          await tx.cedente.update({ where: { id: cedenteId }, data: { pontosSmiles: { increment: deltaPoints } } });
           patchPurchase.saldoAplicadoSmiles = safeInt((compra as any).saldoAplicadoSmiles, 0) + deltaPoints;
         } else if (cia === "LIVELO") {
-          await tx.cedente.update({ where: { id: cedenteId }, data: { pontosLivelo: { increment: deltaPoints } } });
           patchPurchase.saldoAplicadoLivelo = safeInt((compra as any).saldoAplicadoLivelo, 0) + deltaPoints;
         } else if (cia === "ESFERA") {
-          await tx.cedente.update({ where: { id: cedenteId }, data: { pontosEsfera: { increment: deltaPoints } } });
           patchPurchase.saldoAplicadoEsfera = safeInt((compra as any).saldoAplicadoEsfera, 0) + deltaPoints;
-        } else if (cia === "AZUL") {
-          await tx.cedente.update({ where: { id: cedenteId }, data: { pontosAzul: { increment: deltaPoints } } });
-        } else if (cia === "IBERIA") {
-          await tx.cedente.update({ where: { id: cedenteId }, data: { pontosIberia: { increment: deltaPoints } } });
-        } else if (cia === "AA") {
-          await tx.cedente.update({ where: { id: cedenteId }, data: { pontosAA: { increment: deltaPoints } } });
-        } else if (cia === "TAP") {
-          await tx.cedente.update({ where: { id: cedenteId }, data: { pontosTAP: { increment: deltaPoints } } });
-        } else if (cia === "FLYING_BLUE") {
-          await tx.cedente.update({
-            where: { id: cedenteId },
-            data: { pontosFlyingBlue: { increment: deltaPoints } },
-          });
         }
 
         if (Object.keys(patchPurchase).length > 0) {
@@ -275,6 +274,45 @@ export async function POST(req: NextRequest, { params }: Ctx) {
 
       // recalcula totais/custos/meta
       await recalcPurchaseTotals(tx, purchaseId);
+
+      // ✅ lotes de custo (compra já liberada): entra/sai o delta e os lotes da
+      // compra nesse programa passam a valer o milheiro recalculado
+      if (compra.status === "CLOSED" && deltaPoints !== 0) {
+        const fresh = await tx.purchase.findUnique({
+          where: { id: purchaseId },
+          select: { custoMilheiroCents: true },
+        });
+        const custoMilheiroCents = safeInt(fresh?.custoMilheiroCents, 0);
+
+        if (deltaPoints > 0) {
+          await createLot(tx, {
+            team: session.team,
+            cedenteId: compra.cedenteId,
+            program: cia,
+            source: "PURCHASE_ADJUSTMENT",
+            points: deltaPoints,
+            costPerMilheiroCents: custoMilheiroCents,
+            acquiredAt: new Date(),
+            purchaseId,
+            note: `Ajuste de pontos na compra ${compra.numero}`,
+          });
+        } else {
+          await consumeLots(tx, {
+            team: session.team,
+            cedenteId: compra.cedenteId,
+            program: cia,
+            points: -deltaPoints,
+            refType: "PURCHASE",
+            refId: purchaseId,
+          });
+        }
+
+        // só os lotes do programa ajustado (lote de origem de transferência tem custo próprio)
+        await tx.pointsLot.updateMany({
+          where: { purchaseId, program: cia },
+          data: { costPerMilheiroCents: custoMilheiroCents },
+        });
+      }
     });
 
     return NextResponse.json({ ok: true, deltaPoints });
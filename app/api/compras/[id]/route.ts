@@ -1,6 +1,6 @@
-import { prisma } from "@/lib/prisma";
 import { ok, badRequest, notFound, serverError } from "@/lib/api";
 import { recomputeCompra } from "@/lib/compras";
+import { requirePermission } from "@/lib/require-permission";
 
 export const dynamic = "force-dynamic";
 
@@ -74,11 +74,14 @@ function mapItemCreate(it: any) {
  * =========================
  */
 export async function GET(_req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const { db, denied } = await requirePermission("compras.read");
+  if (denied) return denied;
+
   try {
     const { id } = await ctx.params;
     if (!id) return badRequest("id é obrigatório.");
 
-    const compra = await prisma.purchase.findUnique({
+    const compra = await db.purchase.findUnique({
       where: { id },
       include: {
         cedente: {
@@ -115,6 +118,9 @@ export async function GET(_req: Request, ctx: { params: Promise<{ id: string }>
  * =========================
  */
 export async function PATCH(req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const { db, denied } = await requirePermission("compras.write");
+  if (denied) return denied;
+
   try {
     const { id } = await ctx.params;
     if (!id) return badRequest("id é obrigatório.");
@@ -122,7 +128,7 @@ export async function PATCH(req: Request, ctx: { params: Promise<{ id: string }>
     const body = await req.json().catch(() => null);
     if (!body) return badRequest("JSON inválido.");
 
-    const exists = await prisma.purchase.findUnique({
+    const exists = await db.purchase.findUnique({
       where: { id },
       select: { id: true },
     });
@@ -130,7 +136,7 @@ export async function PATCH(req: Request, ctx: { params: Promise<{ id: string }>
 
     const items = Array.isArray(body.items) ? body.items : null;
 
-    await prisma.purchase.update({
+    await db.purchase.update({
       where: { id },
       data: {
         ciaAerea: body.ciaProgram === undefined ? undefined : body.ciaProgram,
@@ -198,7 +204,7 @@ export async function PATCH(req: Request, ctx: { params: Promise<{ id: string }>
 
     await recomputeCompra(id);
 
-    const compraFinal = await prisma.purchase.findUnique({
+    const compraFinal = await db.purchase.findUnique({
       where: { id },
       include: {
         cedente: {
@@ -235,11 +241,14 @@ export async function PATCH(req: Request, ctx: { params: Promise<{ id: string }>
  * =========================
  */
 export async function DELETE(_req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const { db, denied } = await requirePermission("compras.write");
+  if (denied) return denied;
+
   try {
     const { id } = await ctx.params;
     if (!id) return badRequest("id é obrigatório.");
 
-    const compra = await prisma.purchase.findUnique({
+    const compra = await db.purchase.findUnique({
       where: { id },
       select: { id: true, status: true },
     });
@@ -255,7 +264,7 @@ export async function DELETE(_req: Request, ctx: { params: Promise<{ id: string
       return ok({ ok: true });
     }
 
-    const updated = await prisma.purchase.update({
+    const updated = await db.purchase.update({
       where: { id },
       data: { status: "CANCELED" },
       include: { items: true },
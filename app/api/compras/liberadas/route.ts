@@ -1,7 +1,6 @@
 // app/api/compras/liberadas/route.ts
-import { cookies } from "next/headers";
-import { prisma } from "@/lib/prisma";
 import { ok, badRequest, serverError } from "@/lib/api";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -17,8 +16,6 @@ type Program =
   | "AA"
   | "TAP"
   | "FLYING_BLUE";
-type Sess = { id: string; login: string; team: string; role: "admin" | "staff" };
-
 function clampNonNegInt(n: any) {
   const x = Number(n);
   if (!Number.isFinite(x)) return 0;
@@ -55,30 +52,6 @@ function fixMetaMilheiroCents(row: {
   return markup;
 }
 
-function b64urlDecode(input: string) {
-  const pad = input.length % 4 === 0 ? "" : "=".repeat(4 - (input.length % 4));
-  const base64 = (input + pad).replace(/-/g, "+").replace(/_/g, "/");
-  return Buffer.from(base64, "base64").toString("utf8");
-}
-
-function readSessionCookie(raw?: string): Sess | null {
-  if (!raw) return null;
-  try {
-    const parsed = JSON.parse(b64urlDecode(raw)) as Partial<Sess>;
-    if (!parsed?.id || !parsed?.login || !parsed?.team || !parsed?.role) return null;
-    if (parsed.role !== "admin" && parsed.role !== "staff") return null;
-    return parsed as Sess;
-  } catch {
-    return null;
-  }
-}
-
-async function getServerSession(): Promise<Sess | null> {
-  const store = await cookies();
-  const raw = store.get("tm.session")?.value;
-  return readSessionCookie(raw);
-}
-
 function isProgram(v: any): v is Program {
   return (
     v === "LATAM" ||
@@ -111,10 +84,10 @@ function parseFinalizedMode(searchParams: URLSearchParams): FinalizedMode {
 }
 
 export async function GET(req: Request) {
-  try {
-    const session = await getServerSession();
-    if (!session?.id) return badRequest("Não autenticado.");
+  const { session, db, denied } = await requirePermission("compras.read");
+  if (denied) return denied;
 
+  try {
     const { searchParams } = new URL(req.url);
 
     const cedenteId = String(searchParams.get("cedenteId") || "").trim();
@@ -135,7 +108,7 @@ export async function GET(req: Request) {
     void parseFinalizedMode(searchParams);
     const finalizedMode: FinalizedMode = "OPEN";
 
-    const comprasRaw = await prisma.purchase.findMany({
+    const comprasRaw = await db.purchase.findMany({
       where: {
         cedenteId,
         status: "CLOSED",
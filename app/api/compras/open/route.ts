@@ -1,11 +1,12 @@
 import { NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/require-permission";
+import type { TenantPrisma } from "@/lib/tenant";
 
-async function resolveCedenteId(cedenteKey: string): Promise<string | null> {
+async function resolveCedenteId(db: TenantPrisma, cedenteKey: string): Promise<string | null> {
   const key = (cedenteKey || "").trim();
   if (!key) return null;
 
-  const ced = await prisma.cedente.findFirst({
+  const ced = await db.cedente.findFirst({
     where: { OR: [{ id: key }, { identificador: key }] },
     select: { id: true },
   });
@@ -14,18 +15,21 @@ async function resolveCedenteId(cedenteKey: string): Promise<string | null> {
 }
 
 export async function GET(req: Request) {
+  const { db, denied } = await requirePermission("compras.read");
+  if (denied) return denied;
+
   const { searchParams } = new URL(req.url);
   const cedenteKey = searchParams.get("cedenteId") || "";
 
   // ✅ aceita UUID ou "LUC-267"
-  const cedenteIdResolved = await resolveCedenteId(cedenteKey);
+  const cedenteIdResolved = await resolveCedenteId(db, cedenteKey);
 
   // se mandou cedenteId e não achou, retorna vazio
   if (cedenteKey.trim() && !cedenteIdResolved) {
     return NextResponse.json({ ok: true, compras: [] });
   }
 
-  const compras = await prisma.purchase.findMany({
+  const compras = await db.purchase.findMany({
     where: {
       status: "OPEN",
       ...(cedenteIdResolved ? { cedenteId: cedenteIdResolved } : {}),
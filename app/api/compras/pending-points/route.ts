@@ -1,19 +1,19 @@
-import { prisma } from "@/lib/prisma";
 import { ok, serverError } from "@/lib/api";
-import { requireSession } from "@/lib/auth-server";
 import { LoyaltyProgram } from "@prisma/client";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 
 export async function GET() {
-  try {
-    const session = await requireSession();
+  const { session, db, denied } = await requirePermission("compras.read");
+  if (denied) return denied;
 
+  try {
     // Cedentes por programa (mesma lógica das telas de visualização).
     const [latamCedentes, smilesCedentes] = await Promise.all([
-      prisma.cedente.findMany({
+      db.cedente.findMany({
         where: {
           status: "APPROVED",
           owner: { team: session.team },
@@ -21,7 +21,7 @@ export async function GET() {
         },
         select: { id: true },
       }),
-      prisma.cedente.findMany({
+      db.cedente.findMany({
         where: {
           status: "APPROVED",
           owner: { team: session.team },
@@ -40,7 +40,7 @@ export async function GET() {
     }
 
     // Base principal: itens pendentes por compra.
-    const pendingItems = await prisma.purchaseItem.findMany({
+    const pendingItems = await db.purchaseItem.findMany({
       where: {
         status: "PENDING",
         pointsFinal: { gt: 0 },
@@ -87,7 +87,7 @@ export async function GET() {
     }
 
     // Fallback: se a compra OPEN não tiver itens pendentes lançados, usa pontosCiaTotal.
-    const openPurchases = await prisma.purchase.findMany({
+    const openPurchases = await db.purchase.findMany({
       where: {
         status: "OPEN",
         pontosCiaTotal: { gt: 0 },
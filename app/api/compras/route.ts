@@ -1,9 +1,9 @@
 // app/api/compras/route.ts
-import { prisma } from "@/lib/prisma";
 import { ok, badRequest, serverError } from "@/lib/api";
 import { nextNumeroCompra } from "@/lib/compraNumero";
 import { recomputeCompra } from "@/lib/compras";
 import { Prisma, LoyaltyProgram } from "@prisma/client";
+import { requirePermission } from "@/lib/require-permission";
 
 export const dynamic = "force-dynamic";
 
@@ -88,6 +88,9 @@ function normalizeEnumQ(q: string): LoyaltyProgram | null {
 }
 
 export async function GET(req: Request) {
+  const { db, denied } = await requirePermission("compras.read");
+  if (denied) return denied;
+
   try {
     const { searchParams } = new URL(req.url);
 
@@ -143,7 +146,7 @@ export async function GET(req: Request) {
       { id: "desc" },
     ];
 
-    const comprasPlusOne = await prisma.purchase.findMany({
+    const comprasPlusOne = await db.purchase.findMany({
       where,
       orderBy,
       take: take + 1,
@@ -183,7 +186,7 @@ export async function GET(req: Request) {
     const sumByProgram = new Map<string, Map<string, number>>(); // purchaseId -> (programTo -> soma)
 
     if (ids.length > 0) {
-      const grouped = await prisma.purchaseItem.groupBy({
+      const grouped = await db.purchaseItem.groupBy({
         by: ["purchaseId", "programTo"],
         where: {
           purchaseId: { in: ids },
@@ -236,6 +239,9 @@ export async function GET(req: Request) {
 }
 
 export async function POST(req: Request) {
+  const { session, db, denied } = await requirePermission("compras.write");
+  if (denied) return denied;
+
   try {
     const body = await req.json().catch(() => null);
     if (!body) return badRequest("JSON inválido.");
@@ -268,8 +274,9 @@ export async function POST(req: Request) {
         ? String(body.note)
         : null;
 
-    const compra = await prisma.purchase.create({
+    const compra = await db.purchase.create({
       data: {
+        team: session.team,
         numero,
         cedenteId,
         status: "OPEN",
@@ -299,7 +306,7 @@ export async function POST(req: Request) {
     // ✅ garante totais atualizados
     await recomputeCompra(compra.id);
 
-    const compraFinal = await prisma.purchase.findUnique({
+    const compraFinal = await db.purchase.findUnique({
       where: { id: compra.id },
       include: {
         cedente: {
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+import { loadMatchTargets, rankTargets } from "@/lib/conciliacao";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/conciliacao/:id/candidates?q=
+ * Registros em aberto que o lançamento pode quitar, melhor pontuação primeiro.
+ * Sem `q`: só quem tem algum sinal (valor, chave, nome, data). Com `q`: busca pelo nome.
+ */
+export async function GET(req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const { session, db, denied } = await requirePermission("financeiro.read");
+  if (denied) return denied;
+
+  const { id } = await ctx.params;
+  const q = new URL(req.url).searchParams.get("q")?.trim() || "";
+
+  const line = await db.bankStatementLine.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      postedAt: true,
+      direction: true,
+      amountCents: true,
+      description: true,
+      document: true,
+      pixKey: true,
+    },
+  });
+  if (!line) {
+    return NextResponse.json({ ok: false, error: "Lançamento não encontrado." }, { status: 404 });
+  }
+
+  const targets = await loadMatchTargets(db, session.team, line.direction);
+  return NextResponse.json({ ok: true, candidates: rankTargets(line, targets, q).slice(0, 30) });
+}
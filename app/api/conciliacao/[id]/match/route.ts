@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { BankMatchType } from "@prisma/client";
+import { can } from "@/lib/permissions";
+import { requirePermission } from "@/lib/require-permission";
+import {
+  confirmMatch,
+  MATCH_PERMISSION,
+  MATCH_TYPE_LABEL,
+  ReconciliationError,
+} from "@/lib/conciliacao";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function bad(message: string, status = 400) {
+  return NextResponse.json({ ok: false, error: message }, { status });
+}
+
+/**
+ * POST /api/conciliacao/:id/match
+ * Body: { type, targetId } — sem body confirma a sugestão da linha.
+ * Quita o registro (recebimento, mensalidade, comissão, pagamento) na mesma transaction.
+ */
+export async function POST(req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const { session, db, denied } = await requirePermission("financeiro.write");
+  if (denied) return denied;
+
+  const { id } = await ctx.params;
+  const body = await req.json().catch(() => ({}));
+
+  let type = String(body?.type || "").trim().toUpperCase();
+  let targetId = String(body?.targetId || "").trim();
+
+  if (!type && !targetId) {
+    const line = await db.bankStatementLine.findUnique({
+      where: { id },
+      select: { suggestedType: true, suggestedId: true },
+    });
+    if (!line) return bad("Lançamento não encontrado.", 404);
+    if (!line.suggestedType || !line.suggestedId) return bad("Lançamento sem sugestão: escolha o registro.");
+    type = line.suggestedType;
+    targetId = line.suggestedId;
+  }
+
+  if (!(Object.values(BankMatchType) as string[]).includes(type)) return bad("Tipo de registro inválido.");
+  if (!targetId) return bad("targetId obrigatório.");
+
+  const matchType = type as BankMatchType;
+  if (!can(session.role, MATCH_PERMISSION[matchType])) {
+    return bad(`Sem permissão para quitar ${MATCH_TYPE_LABEL[matchType].toLowerCase()}.`, 403);
+  }
+
+  try {
+    const line = await confirmMatch(db, {
+      team: session.team,
+      actorId: session.id,
+      lineId: id,
+      type: matchType,
+      targetId,
+    });
+    return NextResponse.json({ ok: true, data: line });
+  } catch (e) {
+    if (e instanceof ReconciliationError) return bad(e.message, 409);
+    console.error("[conciliacao] match falhou", e);
+    return bad("Falha ao conciliar.", 500);
+  }
+}
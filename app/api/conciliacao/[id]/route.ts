@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * PATCH /api/conciliacao/:id
+ * Body: { action: "ignore" | "reopen" }
+ * ignore: tira da fila (tarifa, transferência entre contas...). reopen: volta para a fila.
+ * Linha conciliada não muda por aqui.
+ */
+export async function PATCH(req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const { db, denied } = await requirePermission("financeiro.write");
+  if (denied) return denied;
+
+  const { id } = await ctx.params;
+  const body = await req.json().catch(() => ({}));
+  const action = String(body?.action || "");
+  if (action !== "ignore" && action !== "reopen") {
+    return NextResponse.json({ ok: false, error: "Ação inválida." }, { status: 400 });
+  }
+
+  const res =
+    action === "ignore"
+      ? await db.bankStatementLine.updateMany({
+          where: { id, status: { in: ["UNMATCHED", "SUGGESTED"] } },
+          data: { status: "IGNORED" },
+        })
+      : await db.bankStatementLine.updateMany({
+          where: { id, status: "IGNORED" },
+          data: { status: "UNMATCHED" },
+        });
+
+  if (res.count !== 1) {
+    return NextResponse.json(
+      { ok: false, error: "Lançamento não encontrado ou já conciliado." },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ ok: true, id, status: action === "ignore" ? "IGNORED" : "UNMATCHED" });
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+import {
+  decodeStatement,
+  importStatement,
+  parseStatement,
+  StatementParseError,
+} from "@/lib/conciliacao";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_BYTES = 5 * 1024 * 1024;
+
+function bad(message: string, status = 400) {
+  return NextResponse.json({ ok: false, error: message }, { status });
+}
+
+/**
+ * POST /api/conciliacao/import (multipart, field "file": .ofx ou .csv)
+ * Lançamentos já importados antes são pulados.
+ */
+export async function POST(req: Request) {
+  const { session, db, denied } = await requirePermission("financeiro.write");
+  if (denied) return denied;
+
+  const form = await req.formData().catch(() => null);
+  const file = form?.get("file");
+  if (!file || typeof file === "string") return bad('Arquivo do extrato é obrigatório (field: "file").');
+  if (file.size > MAX_BYTES) return bad("Arquivo muito grande (máx. 5 MB).");
+
+  try {
+    const parsed = parseStatement(file.name, decodeStatement(await file.arrayBuffer()));
+    const out = await importStatement(db, {
+      team: session.team,
+      actorId: session.id,
+      fileName: file.name || `extrato.${parsed.format.toLowerCase()}`,
+      parsed,
+    });
+    return NextResponse.json({ ok: true, ...out });
+  } catch (e) {
+    if (e instanceof StatementParseError) return bad(e.message);
+    console.error("[conciliacao] import falhou", e);
+    return bad("Falha ao importar o extrato.", 500);
+  }
+}
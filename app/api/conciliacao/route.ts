@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+import { BankLineDirection, BankLineStatus, Prisma } from "@prisma/client";
+import { requirePermission } from "@/lib/require-permission";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const PAGE_SIZE = 100;
+
+/**
+ * GET /api/conciliacao
+ * Filtros: status (OPEN = fila: UNMATCHED + SUGGESTED; padrão), direction,
+ * statementId, q (descrição), cursor (id da última linha).
+ * Primeira página traz também contagens por status e os últimos extratos.
+ */
+export async function GET(req: Request) {
+  const { db, denied } = await requirePermission("financeiro.read");
+  if (denied) return denied;
+
+  const sp = new URL(req.url).searchParams;
+  const statusRaw = sp.get("status")?.trim().toUpperCase() || "OPEN";
+  const directionRaw = sp.get("direction")?.trim().toUpperCase() || "";
+  const statementId = sp.get("statementId")?.trim() || null;
+  const q = sp.get("q")?.trim() || "";
+  const cursor = sp.get("cursor")?.trim() || null;
+
+  const status: BankLineStatus[] =
+    statusRaw === "OPEN"
+      ? ["UNMATCHED", "SUGGESTED"]
+      : (Object.values(BankLineStatus) as string[]).includes(statusRaw)
+        ? [statusRaw as BankLineStatus]
+        : ["UNMATCHED", "SUGGESTED"];
+  const direction = (Object.values(BankLineDirection) as string[]).includes(directionRaw)
+    ? (directionRaw as BankLineDirection)
+    : null;
+
+  const where: Prisma.BankStatementLineWhereInput = {
+    status: { in: status },
+    ...(direction ? { direction } : {}),
+    ...(statementId ? { statementId } : {}),
+    ...(q ? { description: { contains: q, mode: "insensitive" } } : {}),
+  };
+
+  const rows = await db.bankStatementLine.findMany({
+    where,
+    orderBy: [{ postedAt: "desc" }, { id: "desc" }],
+    take: PAGE_SIZE + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    select: {
+      id: true,
+      postedAt: true,
+      direction: true,
+      amountCents: true,
+      description: true,
+      document: true,
+      pixKey: true,
+      status: true,
+      suggestedType: true,
+      suggestedId: true,
+      suggestedScore: true,
+      suggestedLabel: true,
+      matchedType: true,
+      matchedLabel: true,
+      matchedAt: true,
+      matchedBy: { select: { id: true, name: true } },
+      statement: { select: { id: true, fileName: true } },
+    },
+  });
+
+  const page = rows.slice(0, PAGE_SIZE);
+  const nextCursor = rows.length > PAGE_SIZE ? page[page.length - 1].id : null;
+
+  let counts: Partial<Record<BankLineStatus, number>> | undefined;
+  let statements: unknown[] | undefined;
+  if (!cursor) {
+    const [grouped, recent] = await Promise.all([
+      db.bankStatementLine.groupBy({ by: ["status"], _count: { _all: true } }),
+      db.bankStatement.findMany({
+        orderBy: { createdAt: "desc" },
+        take: 10,
+        select: {
+          id: true,
+          fileName: true,
+          format: true,
+          periodFrom: true,
+          periodTo: true,
+          linesCount: true,
+          skippedCount: true,
+          createdAt: true,
+          importedBy: { select: { id: true, name: true } },
+        },
+      }),
+    ]);
+    counts = Object.fromEntries(grouped.map((g) => [g.status, g._count._all]));
+    statements = recent;
+  }
+
+  return NextResponse.json({ ok: true, rows: page, nextCursor, counts, statements });
+}
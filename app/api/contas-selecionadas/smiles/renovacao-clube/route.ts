@@ -1,7 +1,6 @@
 // app/api/contas-selecionadas/smiles/renovacao-clube/route.ts
 import { NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { getSessionServer } from "@/lib/auth-server";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -11,8 +10,9 @@ function bad(message: string, status = 400) {
 }
 
 export async function GET(req: Request) {
-  const session = await getSessionServer();
-  if (!session) return bad("Não autenticado", 401);
+  const { session, db, denied } = await requirePermission("analytics.read");
+  if (denied) return denied;
+
 
   try {
     /**
@@ -32,7 +32,7 @@ export async function GET(req: Request) {
      * - depois vem o critério do "mais recente" (updatedAt desc)
      * - tie-break por id desc para ficar determinístico
      */
-    const latestPerCedente = await prisma.clubSubscription.findMany({
+    const latestPerCedente = await db.clubSubscription.findMany({
       where: {
         program: "SMILES",
         status: { in: statusIn as any },
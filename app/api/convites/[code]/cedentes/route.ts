@@ -1,6 +1,8 @@
 // app/api/convites/[code]/cedentes/route.ts
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { adoptProjectedPoints } from "@/lib/points-ledger";
+import { encryptSecretFields } from "@/lib/cedente-credentials";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -130,7 +132,7 @@ export async function POST(
     // ✅ valida convite
     const invite = await prisma.employeeInvite.findUnique({
       where: { code },
-      select: { id: true, isActive: true, userId: true },
+      select: { id: true, isActive: true, userId: true, user: { select: { team: true } } },
     });
 
     if (!invite || !invite.isActive) {
@@ -222,7 +224,7 @@ export async function POST(
      * ✅ AJUSTE DEFINITIVO:
      * - Prisma Cedente tem: senhaEmail/senhaSmiles/senhaLatamPass/senhaLivelo/senhaEsfera + demais CIAs
      * - Frontend manda: senhaEmailEnc etc
-     * Então: aceitamos ambos e salvamos nos campos corretos.
+     * Então: aceitamos ambos e salvamos nos campos corretos (cifrados em repouso).
      */
     const senhaEmail = normalizeString(body?.senhaEmailEnc ?? body?.senhaEmail, 255);
     const senhaSmiles = normalizeString(body?.senhaSmilesEnc ?? body?.senhaSmiles, 255);
@@ -238,7 +240,7 @@ export async function POST(
       255
     );
 
-    const baseCedenteData = {
+    const baseCedenteData = encryptSecretFields({
       nomeCompleto,
       cpf,
       dataNascimento: safeIsoDateToDate(body?.dataNascimento),
@@ -275,11 +277,19 @@ export async function POST(
 
       ownerId: invite.userId,
       inviteId: invite.id,
-    };
+      team: invite.user.team,
+    });
 
     const created = await prisma.$transaction(async (tx) => {
       const cedente = await createCedenteWithRetry(tx, baseCedenteData, 6);
 
+      await adoptProjectedPoints(tx, cedente.id, {
+        source: "OPENING_BALANCE",
+        refType: "INVITE",
+        refId: invite.id,
+        note: "Saldo informado no cadastro via convite",
+      });
+
       await tx.cedenteTermAcceptance.create({
         data: {
           cedenteId: cedente.id,
@@ -0,0 +1,46 @@
+// app/api/cron/bloqueios/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { notifyOverdueBlocks } from "@/lib/bloqueios";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function bad(message: string, status = 400) {
+  return NextResponse.json({ ok: false, error: message }, { status });
+}
+
+function getBearer(req: NextRequest) {
+  const auth = req.headers.get("authorization") || "";
+  const m = auth.match(/^Bearer\s+(.+)$/i);
+  return m ? m[1].trim() : "";
+}
+
+/**
+ * ✅ Lembrete de bloqueios com previsão de desbloqueio vencida (todos os times).
+ * Emite `block.unlock_overdue` (webhooks) uma vez por previsão.
+ */
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET?.trim() || "";
+  const token = getBearer(req) || new URL(req.url).searchParams.get("secret")?.trim() || "";
+
+  if (!secret || token !== secret) return bad("Não autorizado", 401);
+
+  try {
+    const teams = await prisma.blockedAccount.findMany({
+      where: { status: "OPEN", estimatedUnlockAt: { not: null } },
+      select: { team: true },
+      distinct: ["team"],
+    });
+
+    let notified = 0;
+    for (const t of teams) {
+      const r = await notifyOverdueBlocks(t.team);
+      notified += r.notified;
+    }
+
+    return NextResponse.json({ ok: true, teams: teams.length, notified });
+  } catch {
+    return bad("Falha ao rodar cron", 500);
+  }
+}
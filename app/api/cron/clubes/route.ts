@@ -29,13 +29,15 @@ export async function GET(req: NextRequest) {
     });
 
     let changedTotal = 0;
+    let chargedTotal = 0;
 
     for (const t of teams) {
       const r = await autoUpdateClubStatuses(t.team);
       changedTotal += r.changed;
+      chargedTotal += r.charged;
     }
 
-    return NextResponse.json({ ok: true, teams: teams.length, changed: changedTotal });
+    return NextResponse.json({ ok: true, teams: teams.length, changed: changedTotal, charged: chargedTotal });
   } catch (e: any) {
     return bad("Falha ao rodar cron", 500);
   }
@@ -0,0 +1,58 @@
+// app/api/cron/localizadores/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { CHECKED_PROGRAMS, getLocatorProvider, runLocatorChecks } from "@/lib/locator-check";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function bad(message: string, status = 400) {
+  return NextResponse.json({ ok: false, error: message }, { status });
+}
+
+function getBearer(req: NextRequest) {
+  const auth = req.headers.get("authorization") || "";
+  const m = auth.match(/^Bearer\s+(.+)$/i);
+  return m ? m[1].trim() : "";
+}
+
+/**
+ * ✅ Check automático de localizadores (todos os times).
+ * Um browser/provider para a execução inteira; fechado no fim.
+ */
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET?.trim() || "";
+  const token = getBearer(req) || new URL(req.url).searchParams.get("secret")?.trim() || "";
+
+  if (!secret || token !== secret) return bad("Não autorizado", 401);
+
+  let provider;
+  try {
+    provider = getLocatorProvider();
+  } catch (e: unknown) {
+    return bad(e instanceof Error ? e.message : "Provider inválido", 500);
+  }
+
+  try {
+    const teams = await prisma.sale.findMany({
+      where: { program: { in: CHECKED_PROGRAMS } },
+      select: { team: true },
+      distinct: ["team"],
+    });
+
+    const totals = { checked: 0, flagged: 0, errors: 0 };
+
+    for (const t of teams) {
+      const r = await runLocatorChecks(t.team, provider);
+      totals.checked += r.checked;
+      totals.flagged += r.flagged;
+      totals.errors += r.errors;
+    }
+
+    return NextResponse.json({ ok: true, provider: provider.name, teams: teams.length, ...totals });
+  } catch {
+    return bad("Falha ao rodar cron", 500);
+  } finally {
+    await provider.close?.();
+  }
+}
@@ -0,0 +1,31 @@
+// app/api/cron/webhooks/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { dispatchWebhooks } from "@/lib/webhooks";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function bad(message: string, status = 400) {
+  return NextResponse.json({ ok: false, error: message }, { status });
+}
+
+function getBearer(req: NextRequest) {
+  const auth = req.headers.get("authorization") || "";
+  const m = auth.match(/^Bearer\s+(.+)$/i);
+  return m ? m[1].trim() : "";
+}
+
+/** ✅ Dispatcher do outbox: fan-out + entregas vencidas (todos os times). */
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET?.trim() || "";
+  const token = getBearer(req) || new URL(req.url).searchParams.get("secret")?.trim() || "";
+
+  if (!secret || token !== secret) return bad("Não autorizado", 401);
+
+  try {
+    const r = await dispatchWebhooks();
+    return NextResponse.json({ ok: true, ...r });
+  } catch {
+    return bad("Falha ao rodar cron", 500);
+  }
+}
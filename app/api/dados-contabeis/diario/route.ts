@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+import { buildJournal, journalCsv, markPeriodExported, monthBounds } from "@/lib/contabil";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function bad(msg: string, status = 400) {
+  return NextResponse.json({ ok: false, error: msg }, { status });
+}
+
+/**
+ * GET /api/dados-contabeis/diario?month=YYYY-MM
+ * Diário em partidas dobradas (CSV): vendas, compras, pagamentos, impostos e dívidas.
+ */
+export async function GET(req: Request) {
+  const { session, db, denied } = await requirePermission("financeiro.read");
+  if (denied) return denied;
+
+  const url = new URL(req.url);
+  const month = String(url.searchParams.get("month") || "").slice(0, 7);
+  if (!monthBounds(month)) return bad("month inválido. Use YYYY-MM");
+
+  try {
+    const entries = await buildJournal(db, session.team, month);
+    await markPeriodExported(db, session.team, month, "diario");
+
+    return new NextResponse(journalCsv(entries), {
+      status: 200,
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="diario_${month}.csv"`,
+        "Cache-Control": "no-store",
+        "X-TM-Entries": String(entries.length),
+      },
+    });
+  } catch (e) {
+    return bad(e instanceof Error ? e.message : "Erro ao gerar diário.", 500);
+  }
+}
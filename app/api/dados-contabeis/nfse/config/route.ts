@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const NFSE_SELECT = {
+  nfseCnpj: true,
+  nfseInscricaoMunicipal: true,
+  nfseRazaoSocial: true,
+  nfseCodigoMunicipio: true,
+  nfseItemListaServico: true,
+  nfseCodigoTributacao: true,
+  nfseAliquotaBps: true,
+  nfseSimplesNacional: true,
+} as const;
+
+function text(v: unknown, max: number) {
+  const s = String(v ?? "").trim();
+  return s ? s.slice(0, max) : null;
+}
+
+/** GET: dados do prestador da NFS-e (Settings "default" do time). */
+export async function GET() {
+  const { session, db, denied } = await requirePermission("financeiro.read");
+  if (denied) return denied;
+
+  const settings = await db.settings.upsert({
+    where: { team_key: { team: session.team, key: "default" } },
+    create: { team: session.team, key: "default" },
+    update: {},
+    select: NFSE_SELECT,
+  });
+
+  return NextResponse.json({ ok: true, data: settings });
+}
+
+/** POST: salva os dados do prestador. */
+export async function POST(req: Request) {
+  const { session, db, denied } = await requirePermission("financeiro.write");
+  if (denied) return denied;
+
+  const body = await req.json().catch(() => ({}));
+
+  const aliquota = Number(String(body?.aliquotaPercent ?? "").replace(",", "."));
+  if (!Number.isFinite(aliquota) || aliquota < 0 || aliquota > 10) {
+    return NextResponse.json({ ok: false, error: "Alíquota do ISS inválida (0–10%)." }, { status: 400 });
+  }
+
+  const data = {
+    nfseCnpj: text(body?.cnpj, 20)?.replace(/\D+/g, "") || null,
+    nfseInscricaoMunicipal: text(body?.inscricaoMunicipal, 20),
+    nfseRazaoSocial: text(body?.razaoSocial, 150),
+    nfseCodigoMunicipio: text(body?.codigoMunicipio, 7)?.replace(/\D+/g, "") || null,
+    nfseItemListaServico: text(body?.itemListaServico, 10),
+    nfseCodigoTributacao: text(body?.codigoTributacao, 20),
+    nfseAliquotaBps: Math.round(aliquota * 100),
+    nfseSimplesNacional: body?.simplesNacional !== false,
+  };
+
+  const saved = await db.settings.upsert({
+    where: { team_key: { team: session.team, key: "default" } },
+    create: { team: session.team, key: "default", ...data },
+    update: data,
+    select: NFSE_SELECT,
+  });
+
+  return NextResponse.json({ ok: true, data: saved });
+}
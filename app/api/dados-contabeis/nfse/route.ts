@@ -0,0 +1,108 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+import {
+  buildNfseLote,
+  markPeriodExported,
+  monthBounds,
+  NfseConfigError,
+  periodSalesWhere,
+  readNfseConfig,
+  splitProfitProportional,
+  taxableProfit,
+  type NfseRps,
+} from "@/lib/contabil";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function bad(msg: string, status = 400) {
+  return NextResponse.json({ ok: false, error: msg }, { status });
+}
+
+/**
+ * GET /api/dados-contabeis/nfse?month=YYYY-MM
+ * Lote de RPS (XML ABRASF) com as vendas do mês (pagas + pendentes).
+ * Mês fechado: as vendas congeladas no fechamento.
+ */
+export async function GET(req: Request) {
+  const { session, db, denied } = await requirePermission("financeiro.read");
+  if (denied) return denied;
+
+  const url = new URL(req.url);
+  const month = String(url.searchParams.get("month") || "").slice(0, 7);
+  const mb = monthBounds(month);
+  if (!mb) return bad("month inválido. Use YYYY-MM");
+
+  try {
+    const settings = await db.settings.findFirst({ where: { team: session.team, key: "default" } });
+    const cfg = readNfseConfig(settings);
+
+    const frozenScope = await periodSalesWhere(db, month);
+    const sales = await db.sale.findMany({
+      where: {
+        ...(frozenScope ?? { date: { gte: mb.start, lt: mb.end }, paymentStatus: { in: ["PAID", "PENDING"] } }),
+        totalCents: { gt: 0 },
+      },
+      select: {
+        id: true,
+        numero: true,
+        date: true,
+        program: true,
+        points: true,
+        passengers: true,
+        locator: true,
+        totalCents: true,
+        cliente: { select: { nome: true, cpfCnpj: true } },
+      },
+      orderBy: [{ date: "asc" }, { numero: "asc" }],
+      take: 50000,
+    });
+    if (!sales.length) return bad("Nenhuma venda no mês.", 404);
+
+    // ✅ mesma base do XLSX: dedução = venda − lucro tributável rateado
+    const { profitAfterLossCents } = await taxableProfit(db, session.team, {
+      startISO: mb.startISO,
+      endISO: mb.endISO,
+      month,
+      applyLoss: true,
+    });
+    const profitBySale = splitProfitProportional(
+      sales.map((s) => ({ key: s.id, totalCents: s.totalCents })),
+      profitAfterLossCents
+    );
+
+    const rps: NfseRps[] = sales.map((s) => {
+      const lucroCents = profitBySale.get(s.id) || 0;
+      return {
+        numero: s.numero.replace(/\D+/g, "") || s.id,
+        serie: "V",
+        dataEmissao: s.date,
+        valorServicosCents: s.totalCents,
+        valorDeducoesCents: Math.max(0, s.totalCents - lucroCents),
+        discriminacao:
+          `Intermediação de passagem aérea ${s.program} - venda ${s.numero}` +
+          ` (${s.passengers} pax${s.locator ? `, localizador ${s.locator}` : ""})`,
+        tomador: { cpfCnpj: s.cliente.cpfCnpj || "", nome: s.cliente.nome },
+      };
+    });
+
+    const xml = buildNfseLote(cfg, { month, numeroLote: month.replace("-", ""), rps });
+    await markPeriodExported(db, session.team, month, "nfse");
+
+    const semDocumento = sales.filter((s) => !String(s.cliente.cpfCnpj || "").replace(/\D+/g, "")).length;
+
+    return new NextResponse(xml, {
+      status: 200,
+      headers: {
+        "Content-Type": "application/xml; charset=utf-8",
+        "Content-Disposition": `attachment; filename="nfse_lote_${month}.xml"`,
+        "Cache-Control": "no-store",
+        "X-TM-Rps-Count": String(rps.length),
+        "X-TM-Sem-Documento": String(semDocumento),
+      },
+    });
+  } catch (e) {
+    if (e instanceof NfseConfigError) return bad(e.message);
+    return bad(e instanceof Error ? e.message : "Erro ao gerar lote NFS-e.", 500);
+  }
+}
@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { can } from "@/lib/permissions";
+import { requirePermission } from "@/lib/require-permission";
+import {
+  approveReopen,
+  ClosedPeriodError,
+  closePeriod,
+  listAdjustments,
+  listPeriods,
+  monthBounds,
+  rejectReopen,
+  requestReopen,
+} from "@/lib/contabil";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function bad(msg: string, status = 400) {
+  return NextResponse.json({ ok: false, error: msg }, { status });
+}
+
+const ACTIONS = ["close", "request_reopen", "approve_reopen", "reject_reopen"] as const;
+type Action = (typeof ACTIONS)[number];
+
+/**
+ * GET: meses com export ou fechamento (mais recentes primeiro).
+ * ?month=YYYY-MM → também os ajustes lançados no mês ou referentes a ele.
+ */
+export async function GET(req: Request) {
+  const { session, db, denied } = await requirePermission("financeiro.read");
+  if (denied) return denied;
+
+  const month = new URL(req.url).searchParams.get("month") || "";
+  const adjustments = monthBounds(month) ? await listAdjustments(db, month) : [];
+
+  return NextResponse.json({
+    ok: true,
+    data: await listPeriods(db),
+    adjustments,
+    canApproveReopen: can(session.role, "periodos.reopen"),
+  });
+}
+
+/**
+ * POST { month: "YYYY-MM", action, notes?, reason? }
+ * - close: congela o mês (snapshot) e trava vendas, pagamentos e impostos dele
+ * - request_reopen: pede reabertura (reason obrigatório)
+ * - approve_reopen / reject_reopen: só quem tem periodos.reopen (admin)
+ */
+export async function POST(req: Request) {
+  const { session, db, denied } = await requirePermission("financeiro.write");
+  if (denied) return denied;
+
+  const body = await req.json().catch(() => ({}));
+  const month = String(body?.month || "").slice(0, 7);
+  if (!monthBounds(month)) return bad("month inválido. Use YYYY-MM");
+
+  const action = String(body?.action || "") as Action;
+  if (!ACTIONS.includes(action)) return bad("action inválida.");
+
+  if ((action === "approve_reopen" || action === "reject_reopen") && !can(session.role, "periodos.reopen")) {
+    return bad("Só um admin pode aprovar ou recusar a reabertura.", 403);
+  }
+
+  try {
+    const saved = await db.$transaction(async (tx) => {
+      if (action === "close") {
+        const notes = String(body?.notes || "").trim().slice(0, 500) || null;
+        return closePeriod(tx, session.team, month, { userId: session.id, notes });
+      }
+      if (action === "request_reopen") {
+        const reason = String(body?.reason || "").slice(0, 500);
+        return requestReopen(tx, session.team, month, { userId: session.id, reason });
+      }
+      if (action === "approve_reopen") return approveReopen(tx, session.team, month, { userId: session.id });
+      return rejectReopen(tx, session.team, month);
+    });
+
+    return NextResponse.json({ ok: true, data: saved });
+  } catch (e) {
+    if (e instanceof ClosedPeriodError) return bad(e.message, 409);
+    throw e;
+  }
+}
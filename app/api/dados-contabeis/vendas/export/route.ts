@@ -1,7 +1,7 @@
 import { NextResponse } from "next/server";
 import ExcelJS from "exceljs";
-import { prisma } from "@/lib/prisma";
-import { requireSession } from "@/lib/auth-server";
+import { requirePermission } from "@/lib/require-permission";
+import { markPeriodExported, periodSalesWhere, splitProfitProportional, taxableProfit } from "@/lib/contabil";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -59,43 +59,6 @@ function cleanDoc(v: string) {
   return String(v || "").replace(/\D+/g, "");
 }
 
-function safeInt(v: unknown, fb = 0) {
-  const n = Number(v);
-  return Number.isFinite(n) ? Math.trunc(n) : fb;
-}
-
-/**
- * ✅ Rateio proporcional (idêntico ao preview)
- * Só rateia se totalProfitCents > 0, senão tudo 0
- */
-function splitProfitProportional(
-  items: Array<{ key: string; totalCents: number }>,
-  totalProfitCents: number
-) {
-  const total = items.reduce((a, x) => a + (x.totalCents || 0), 0);
-  if (total <= 0 || totalProfitCents <= 0) {
-    return new Map(items.map((i) => [i.key, 0]));
-  }
-
-  const tmp = items.map((i) => {
-    const raw = (i.totalCents / total) * totalProfitCents;
-    return { key: i.key, raw, floor: Math.floor(raw) };
-  });
-
-  const allocated = tmp.reduce((a, x) => a + x.floor, 0);
-  let remaining = totalProfitCents - allocated;
-
-  tmp.sort((a, b) => (b.raw - b.floor) - (a.raw - a.floor));
-
-  const out = new Map<string, number>();
-  for (let i = 0; i < tmp.length; i++) {
-    const add = remaining > 0 ? 1 : 0;
-    out.set(tmp[i].key, tmp[i].floor + add);
-    if (remaining > 0) remaining -= 1;
-  }
-  return out;
-}
-
 function styleHeaderRow(ws: ExcelJS.Worksheet, lastCol: number) {
   const headerRow = ws.getRow(1);
   headerRow.height = 18;
@@ -121,201 +84,11 @@ function styleHeaderRow(ws: ExcelJS.Worksheet, lastCol: number) {
   }
 }
 
-// =========================
-// ✅ PREJUÍZO DO MÊS — IGUAL AO PREVIEW (/prejuizo-like)
-// - purchases CLOSED no mês
-// - sales vinculadas (purchaseId pode ser id ou numero em várias capitalizações)
-// - ignora CANCELED
-// - pvCents fallback total-fee
-// - bonus 30% por venda (excedente acima da meta)
-// - remove “sem venda” (includeZeroSales=false)
-// - soma SOMENTE negativos
-// =========================
-
-function milheiroFrom(points: number, pointsValueCents: number) {
-  const pts = safeInt(points, 0);
-  const cents = safeInt(pointsValueCents, 0);
-  if (!pts || !cents) return 0;
-  return Math.round((cents * 1000) / pts);
-}
-
-function bonus30(points: number, milheiroCents: number, metaMilheiroCents: number) {
-  const pts = safeInt(points, 0);
-  const mil = safeInt(milheiroCents, 0);
-  const meta = safeInt(metaMilheiroCents, 0);
-  if (!pts || !mil || !meta) return 0;
-
-  const diff = mil - meta;
-  if (diff <= 0) return 0;
-
-  const excedenteCents = Math.round((pts * diff) / 1000);
-  return Math.round(excedenteCents * 0.3);
-}
-
-function monthBoundsISO(ym: string) {
-  if (!/^\d{4}-\d{2}$/.test(String(ym || ""))) return null;
-  const startISO = `${ym}-01`;
-  const endISO = nextMonthStart(ym);
-  if (!endISO) return null;
-  return { startISO, endISO };
-}
-
-async function computeLossTotalCentsLikePrejuizo(team: string, scopeMonth: string) {
-  const mb = monthBoundsISO(scopeMonth);
-  if (!mb) return 0;
-
-  const start = new Date(`${mb.startISO}T00:00:00.000Z`);
-  const end = new Date(`${mb.endISO}T00:00:00.000Z`);
-
-  const purchasesBase = await prisma.purchase.findMany({
-    where: {
-      status: "CLOSED",
-      finalizedAt: { not: null, gte: start, lt: end },
-      cedente: { owner: { team } },
-    },
-    orderBy: [{ finalizedAt: "desc" }, { updatedAt: "desc" }],
-    take: 5000,
-    select: {
-      id: true,
-      numero: true,
-      metaMilheiroCents: true,
-      totalCents: true,
-      finalizedAt: true,
-    },
-  });
-
-  if (purchasesBase.length === 0) return 0;
-
-  const ids = purchasesBase.map((p) => p.id);
-  const numeros = purchasesBase.map((p) => String(p.numero || "").trim()).filter(Boolean);
-
-  const idByNumeroUpper = new Map<string, string>(
-    purchasesBase
-      .map((p) => [String(p.numero || "").trim().toUpperCase(), p.id] as const)
-      .filter(([k]) => !!k)
-  );
-
-  const numerosUpper = Array.from(new Set(numeros.map((n) => n.toUpperCase())));
-  const numerosLower = Array.from(new Set(numeros.map((n) => n.toLowerCase())));
-  const numerosAll = Array.from(new Set([...numeros, ...numerosUpper, ...numerosLower]));
-
-  function normalizePurchaseId(raw: string) {
-    const r = (raw || "").trim();
-    if (!r) return "";
-    const upper = r.toUpperCase();
-    return idByNumeroUpper.get(upper) || r;
-  }
-
-  const byId = new Map(purchasesBase.map((p) => [p.id, p]));
-
-  const sales = await prisma.sale.findMany({
-    where: {
-      paymentStatus: { not: "CANCELED" },
-      OR: [{ purchaseId: { in: ids } }, { purchaseId: { in: numerosAll } }],
-    },
-    select: {
-      purchaseId: true,
-      points: true,
-      totalCents: true,
-      pointsValueCents: true,
-      embarqueFeeCents: true,
-      passengers: true,
-    },
-    take: 20000,
-  });
-
-  const agg = new Map<
-    string,
-    {
-      soldPoints: number;
-      pax: number;
-      salesTotalCents: number;
-      salesPointsValueCents: number;
-      salesTaxesCents: number;
-      bonusCents: number;
-      salesCount: number;
-    }
-  >();
-
-  for (const s of sales) {
-    const pid = normalizePurchaseId(String(s.purchaseId || ""));
-    if (!pid) continue;
-
-    const totalCents = safeInt(s.totalCents, 0);
-    const feeCents = safeInt(s.embarqueFeeCents, 0);
-    let pvCents = safeInt(s.pointsValueCents as any, 0);
-
-    // fallback igual ao preview
-    if (pvCents <= 0 && totalCents > 0) {
-      const cand = Math.max(totalCents - feeCents, 0);
-      pvCents = cand > 0 ? cand : totalCents;
-    }
-
-    const taxes = Math.max(totalCents - pvCents, 0);
-
-    const cur =
-      agg.get(pid) || {
-        soldPoints: 0,
-        pax: 0,
-        salesTotalCents: 0,
-        salesPointsValueCents: 0,
-        salesTaxesCents: 0,
-        bonusCents: 0,
-        salesCount: 0,
-      };
-
-    cur.soldPoints += safeInt(s.points, 0);
-    cur.pax += safeInt(s.passengers, 0);
-    cur.salesTotalCents += totalCents;
-    cur.salesPointsValueCents += pvCents;
-    cur.salesTaxesCents += taxes;
-    cur.salesCount += 1;
-
-    const p = byId.get(pid);
-    if (p) {
-      const mil = milheiroFrom(safeInt(s.points, 0), pvCents);
-      cur.bonusCents += bonus30(safeInt(s.points, 0), mil, safeInt(p.metaMilheiroCents, 0));
-    }
-
-    agg.set(pid, cur);
-  }
-
-  let lossTotalCents = 0; // negativo
-
-  for (const p of purchasesBase) {
-    const a =
-      agg.get(p.id) || {
-        soldPoints: 0,
-        pax: 0,
-        salesTotalCents: 0,
-        salesPointsValueCents: 0,
-        salesTaxesCents: 0,
-        bonusCents: 0,
-        salesCount: 0,
-      };
-
-    // remove “sem venda”
-    const hasSales =
-      safeInt(a.salesCount, 0) > 0 ||
-      safeInt(a.salesPointsValueCents, 0) > 0 ||
-      safeInt(a.salesTotalCents, 0) > 0 ||
-      safeInt(a.soldPoints, 0) > 0;
-
-    if (!hasSales) continue;
-
-    const purchaseTotalCents = safeInt(p.totalCents, 0);
-    const profitBruto = a.salesPointsValueCents - purchaseTotalCents;
-    const profitLiquido = profitBruto - a.bonusCents;
-
-    if (profitLiquido < 0) lossTotalCents += profitLiquido;
-  }
-
-  return lossTotalCents; // negativo
-}
-
 export async function GET(req: Request) {
+  const { session: sess, db, denied } = await requirePermission("financeiro.read");
+  if (denied) return denied;
+
   try {
-    const sess = await requireSession();
     const team = String((sess as any)?.team || "");
     const meId = String((sess as any)?.id || "");
     if (!team || !meId) return bad("Não autenticado", 401);
@@ -353,26 +126,25 @@ export async function GET(req: Request) {
     const paymentStatusWhere =
       status === "PAID" ? "PAID" : status === "PENDING" ? "PENDING" : undefined;
 
-    // ✅ lucro do período (SEM 8%) — igual preview
-    const lucroAgg = await prisma.employeePayout.aggregate({
-      where: { team, date: { gte: startDate, lt: endExclusive } },
-      _sum: { grossProfitCents: true },
+    // ✅ lucro (SEM 8%), prejuízo do mês (só mês inteiro) e lucro tributável — igual preview
+    const { profitTotalCents, lossTotalCents, profitAfterLossCents } = await taxableProfit(db, team, {
+      startISO: startDate,
+      endISO: endExclusive,
+      month: scopeMonth,
+      applyLoss: !date,
     });
-    const profitTotalCents = Number(lucroAgg._sum.grossProfitCents || 0);
-
-    // ✅ prejuízo do mês — IGUAL preview (/prejuizo-like) e só quando é mês inteiro
-    const applyLoss = !date;
-    const lossTotalCents = applyLoss ? await computeLossTotalCentsLikePrejuizo(team, scopeMonth) : 0;
-
-    // ✅ lucro tributável (não deixar negativo)
-    const profitAfterLossCents = Math.max(0, profitTotalCents + lossTotalCents);
 
-    // vendas do período (para montar XLSX)
-    const sales = await prisma.sale.findMany({
+    // vendas do período (para montar XLSX); mês fechado = vendas congeladas no fechamento
+    const frozenScope = date ? null : await periodSalesWhere(db, scopeMonth);
+    const sales = await db.sale.findMany({
       where: {
         cedente: { owner: { team } },
-        date: { gte: startDT, lt: endDT },
-        paymentStatus: paymentStatusWhere ? paymentStatusWhere : { in: ["PAID", "PENDING"] },
+        ...(frozenScope
+          ? { ...frozenScope, ...(paymentStatusWhere ? { paymentStatus: paymentStatusWhere } : {}) }
+          : {
+              date: { gte: startDT, lt: endDT },
+              paymentStatus: paymentStatusWhere ? paymentStatusWhere : { in: ["PAID", "PENDING"] },
+            }),
       },
       select: {
         id: true,
@@ -473,6 +245,7 @@ export async function GET(req: Request) {
       ws.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: 6 } };
 
       const buf = await wb.xlsx.writeBuffer();
+      if (!date) await markPeriodExported(db, team, scopeMonth, "xlsx");
       const label = date ? `vendas_${date}` : `vendas_${scopeMonth}`;
 
       return new NextResponse(Buffer.from(buf), {
@@ -551,6 +324,7 @@ export async function GET(req: Request) {
     ws.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: 8 } };
 
     const buf = await wb.xlsx.writeBuffer();
+    if (!date) await markPeriodExported(db, team, scopeMonth, "xlsx");
     const label = date ? `vendas_${date}_raw` : `vendas_${scopeMonth}_raw`;
 
     return new NextResponse(Buffer.from(buf), {
@@ -1,7 +1,7 @@
 // app/api/dados-contabeis/vendas/route.ts (PREVIEW JSON)
 import { NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { requireSession } from "@/lib/auth-server";
+import { requirePermission } from "@/lib/require-permission";
+import { tenantPrisma } from "@/lib/tenant";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -134,6 +134,7 @@ function monthBoundsISO(ym: string) {
 }
 
 async function computeLossTotalCentsLikePrejuizo(team: string, scopeMonth: string) {
+  const db = tenantPrisma(team);
   const mb = monthBoundsISO(scopeMonth);
   if (!mb) return 0;
 
@@ -141,7 +142,7 @@ async function computeLossTotalCentsLikePrejuizo(team: string, scopeMonth: strin
   const end = new Date(`${mb.endISO}T00:00:00.000Z`);
 
   // purchases fechadas no mês (já filtrado por mês, diferente do /prejuizo que busca tudo e filtra depois)
-  const purchasesBase = await prisma.purchase.findMany({
+  const purchasesBase = await db.purchase.findMany({
     where: {
       status: "CLOSED",
       finalizedAt: { not: null, gte: start, lt: end },
@@ -183,7 +184,7 @@ async function computeLossTotalCentsLikePrejuizo(team: string, scopeMonth: strin
   const byId = new Map(purchasesBase.map((p) => [p.id, p]));
 
   // sales ligadas às purchases (ignora canceladas) — igual ao /prejuizo
-  const sales = await prisma.sale.findMany({
+  const sales = await db.sale.findMany({
     where: {
       paymentStatus: { not: "CANCELED" },
       OR: [{ purchaseId: { in: ids } }, { purchaseId: { in: numerosAll } }],
@@ -290,8 +291,10 @@ async function computeLossTotalCentsLikePrejuizo(team: string, scopeMonth: strin
 }
 
 export async function GET(req: Request) {
+  const { session: sess, db, denied } = await requirePermission("financeiro.read");
+  if (denied) return denied;
+
   try {
-    const sess = await requireSession();
     const team = String((sess as any)?.team || "");
     const meId = String((sess as any)?.id || "");
     if (!team || !meId) return bad("Não autenticado", 401);
@@ -331,7 +334,7 @@ export async function GET(req: Request) {
       status === "PAID" ? "PAID" : status === "PENDING" ? "PENDING" : undefined;
 
     // ✅ vendas do período (conforme filtro de status)
-    const sales = await prisma.sale.findMany({
+    const sales = await db.sale.findMany({
       where: {
         cedente: { owner: { team } },
         date: { gte: startDT, lt: endDT },
@@ -354,7 +357,7 @@ export async function GET(req: Request) {
     const totalSoldCents = sales.reduce((a, s) => a + (s.totalCents || 0), 0);
 
     // ✅ lucro do período (time) = soma grossProfitCents (SEM 8%)
-    const lucroAgg = await prisma.employeePayout.aggregate({
+    const lucroAgg = await db.employeePayout.aggregate({
       where: { team, date: { gte: startDate, lt: endExclusive } },
       _sum: { grossProfitCents: true },
     });
@@ -1,9 +1,13 @@
 import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 export async function GET() {
+  const { denied } = await requirePermission("system.manage");
+  if (denied) return denied;
+
   return NextResponse.json({
     ok: true,
     DATABASE_URL_host: process.env.DATABASE_URL?.split("@")?.[1]?.split("/")?.[0] || null,
@@ -1,8 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { requireSession } from "@/lib/auth-server";
-import { computeStatus } from "../../route";
+import { computeStatus } from "@/lib/dividas-a-receber";
 import { ReceberMetodo } from "@prisma/client";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -45,10 +44,12 @@ function parseMethod(v: unknown): ReceberMetodo {
 type Ctx = { params: Promise<{ id: string }> };
 
 export async function GET(_req: NextRequest, { params }: Ctx) {
-  const session = await requireSession();
+  const { session, db, denied } = await requirePermission("dividas.read");
+  if (denied) return denied;
+
   const { id } = await params;
 
-  const row = await prisma.dividaAReceber.findFirst({
+  const row = await db.dividaAReceber.findFirst({
     where: { id: String(id || ""), team: session.team },
     include: { payments: { orderBy: { receivedAt: "desc" } } },
   });
@@ -64,12 +65,14 @@ export async function GET(_req: NextRequest, { params }: Ctx) {
 }
 
 export async function POST(req: NextRequest, { params }: Ctx) {
-  const session = await requireSession();
+  const { session, db, denied } = await requirePermission("dividas.write");
+  if (denied) return denied;
+
   const { id } = await params;
 
   const body = await req.json().catch(() => ({}));
 
-  const parent = await prisma.dividaAReceber.findFirst({
+  const parent = await db.dividaAReceber.findFirst({
     where: { id: String(id || ""), team: session.team },
     select: { id: true, totalCents: true, status: true },
   });
@@ -103,7 +106,7 @@ export async function POST(req: NextRequest, { params }: Ctx) {
   const receivedAt = parseDate(body.receivedAt) || new Date();
   const note = normalizeText(body.note, 1000) || null;
 
-  const result = await prisma.$transaction(async (tx) => {
+  const result = await db.$transaction(async (tx) => {
     const payment = await tx.dividaAReceberPagamento.create({
       data: {
         dividaId: String(id || ""),
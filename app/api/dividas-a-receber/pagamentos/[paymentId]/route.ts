@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { requireSession } from "@/lib/auth-server";
-import { computeStatus } from "../../route";
+import { computeStatus } from "@/lib/dividas-a-receber";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -9,12 +8,14 @@ export const dynamic = "force-dynamic";
 type Ctx = { params: Promise<{ paymentId: string }> };
 
 export async function DELETE(_req: NextRequest, { params }: Ctx) {
-  const session = await requireSession();
+  const { session, db, denied } = await requirePermission("dividas.write");
+  if (denied) return denied;
+
   const { paymentId } = await params;
 
   const paymentIdStr = String(paymentId || "");
 
-  const payment = await prisma.dividaAReceberPagamento.findUnique({
+  const payment = await db.dividaAReceberPagamento.findUnique({
     where: { id: paymentIdStr },
     select: { id: true, dividaId: true },
   });
@@ -25,14 +26,14 @@ export async function DELETE(_req: NextRequest, { params }: Ctx) {
     );
 
   // garante que a dívida é do team do usuário
-  const parent = await prisma.dividaAReceber.findFirst({
+  const parent = await db.dividaAReceber.findFirst({
     where: { id: payment.dividaId, team: session.team },
     select: { id: true, totalCents: true, status: true },
   });
   if (!parent)
     return NextResponse.json({ ok: false, error: "Sem acesso." }, { status: 403 });
 
-  const result = await prisma.$transaction(async (tx) => {
+  const result = await db.$transaction(async (tx) => {
     await tx.dividaAReceberPagamento.delete({ where: { id: paymentIdStr } });
 
     const agg = await tx.dividaAReceberPagamento.aggregate({
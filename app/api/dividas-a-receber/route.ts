@@ -1,6 +1,5 @@
 import { NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { requireSession } from "@/lib/auth-server";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -53,16 +52,6 @@ const METOD: ReceberMetodo[] = [
   "OUTRO",
 ];
 
-export function computeStatus(
-  totalCents: number,
-  receivedCents: number
-): ReceberStatus {
-  if (totalCents <= 0) return "OPEN";
-  if (receivedCents <= 0) return "OPEN";
-  if (receivedCents >= totalCents) return "PAID";
-  return "PARTIAL";
-}
-
 function buildWhere(sessionTeam: string, statusRaw: string, q: string) {
   const where: any = { team: sessionTeam };
 
@@ -92,7 +81,9 @@ function summarizeFromAggregate(sumTotal: number, sumReceived: number) {
 }
 
 export async function GET(req: Request) {
-  const session = await requireSession();
+  const { session, db, denied } = await requirePermission("dividas.read");
+  if (denied) return denied;
+
 
   const url = new URL(req.url);
   const status = (url.searchParams.get("status") || "").toUpperCase();
@@ -102,7 +93,7 @@ export async function GET(req: Request) {
   const where = buildWhere(session.team, status, q);
 
   // ✅ lista (paginada)
-  const rows = await prisma.dividaAReceber.findMany({
+  const rows = await db.dividaAReceber.findMany({
     where,
     orderBy: [{ status: "asc" }, { dueDate: "asc" }, { createdAt: "desc" }],
     take,
@@ -113,7 +104,7 @@ export async function GET(req: Request) {
   });
 
   // ✅ totais ALL (independente de take)
-  const aggAll = await prisma.dividaAReceber.aggregate({
+  const aggAll = await db.dividaAReceber.aggregate({
     where,
     _sum: { totalCents: true, receivedCents: true },
   });
@@ -124,7 +115,7 @@ export async function GET(req: Request) {
     status: { in: ["OPEN", "PARTIAL"] as ReceberStatus[] },
   };
 
-  const aggOpen = await prisma.dividaAReceber.aggregate({
+  const aggOpen = await db.dividaAReceber.aggregate({
     where: whereOpen,
     _sum: { totalCents: true, receivedCents: true },
   });
@@ -143,7 +134,9 @@ export async function GET(req: Request) {
 }
 
 export async function POST(req: Request) {
-  const session = await requireSession();
+  const { session, db, denied } = await requirePermission("dividas.write");
+  if (denied) return denied;
+
   const body = await req.json().catch(() => ({}));
 
   const debtorName = normalizeText(body.debtorName, 120);
@@ -179,7 +172,7 @@ export async function POST(req: Request) {
 
   const dueDate = parseDate(body.dueDate);
 
-  const created = await prisma.dividaAReceber.create({
+  const created = await db.dividaAReceber.create({
     data: {
       ownerId: session.id,
       team: session.team,
@@ -1,6 +1,6 @@
 // app/api/dividas/[id]/pagamentos/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -23,6 +23,9 @@ export async function POST(
   request: NextRequest,
   context: { params: Promise<{ id: string }> }
 ) {
+  const { db, denied } = await requirePermission("dividas.write");
+  if (denied) return denied;
+
   try {
     const { id } = await context.params;
     if (!id) {
@@ -39,7 +42,7 @@ export async function POST(
       return NextResponse.json({ ok: false, error: "Pagamento inválido." }, { status: 400 });
     }
 
-    const debt = await prisma.debt.findUnique({
+    const debt = await db.debt.findUnique({
       where: { id },
       select: { id: true, totalCents: true, status: true },
     });
@@ -51,7 +54,7 @@ export async function POST(
       return NextResponse.json({ ok: false, error: "Dívida cancelada." }, { status: 400 });
     }
 
-    await prisma.debtPayment.create({
+    await db.debtPayment.create({
       data: {
         debtId: id,
         amountCents,
@@ -61,7 +64,7 @@ export async function POST(
     });
 
     // recalcula saldo
-    const agg = await prisma.debtPayment.aggregate({
+    const agg = await db.debtPayment.aggregate({
       where: { debtId: id },
       _sum: { amountCents: true },
     });
@@ -71,7 +74,7 @@ export async function POST(
 
     // marca como PAID se quitou
     if (debt.status === "OPEN" && balanceCents === 0) {
-      await prisma.debt.update({ where: { id }, data: { status: "PAID" } });
+      await db.debt.update({ where: { id }, data: { status: "PAID" } });
     }
 
     return NextResponse.json({ ok: true }, { status: 200 });
@@ -1,6 +1,6 @@
 // app/api/dividas/[id]/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -35,6 +35,9 @@ export async function PATCH(
   req: NextRequest,
   ctx: { params: Promise<{ id: string }> }
 ) {
+  const { db, denied } = await requirePermission("dividas.write");
+  if (denied) return denied;
+
   try {
     const { id } = await ctx.params;
     if (!id) {
@@ -43,7 +46,7 @@ export async function PATCH(
 
     const body = await req.json().catch(() => ({} as any));
 
-    const debt = await prisma.debt.findUnique({
+    const debt = await db.debt.findUnique({
       where: { id },
       select: { id: true, status: true },
     });
@@ -77,7 +80,7 @@ export async function PATCH(
       data.payOrder = parsed ?? null;
     }
 
-    const updated = await prisma.debt.update({
+    const updated = await db.debt.update({
       where: { id },
       data,
       select: { id: true },
@@ -1,6 +1,6 @@
 // app/api/dividas/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -46,8 +46,11 @@ function parseOrderOrNull(v: any): number | null | undefined {
 }
 
 export async function GET() {
+  const { db, denied } = await requirePermission("dividas.read");
+  if (denied) return denied;
+
   try {
-    const debts = await prisma.debt.findMany({
+    const debts = await db.debt.findMany({
       orderBy: { createdAt: "desc" },
       include: {
         payments: { orderBy: { paidAt: "desc" } },
@@ -90,6 +93,9 @@ export async function GET() {
 }
 
 export async function POST(request: NextRequest) {
+  const { session, db, denied } = await requirePermission("dividas.write");
+  if (denied) return denied;
+
   try {
     const body = await request.json().catch(() => ({} as any));
 
@@ -112,8 +118,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ ok: false, error: "Data de vencimento inválida." }, { status: 400 });
     }
 
-    const created = await prisma.debt.create({
+    const created = await db.debt.create({
       data: {
+        team: session.team,
         title,
         description,
         totalCents,
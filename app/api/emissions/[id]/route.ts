@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { getSessionServer as getSession } from "@/lib/auth-server";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -9,12 +8,10 @@ export async function PATCH(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  try {
-    const session = await getSession();
-    if (!session?.id) {
-      return NextResponse.json({ ok: false, error: "Não autenticado." }, { status: 401 });
-    }
+  const { db, denied } = await requirePermission("emissoes.write");
+  if (denied) return denied;
 
+  try {
     const { id } = await params;
     const body = await req.json().catch(() => ({}));
 
@@ -37,7 +34,7 @@ export async function PATCH(
       else data.note = null;
     }
 
-    const updated = await prisma.emissionEvent.update({
+    const updated = await db.emissionEvent.update({
       where: { id },
       data,
       select: {
@@ -73,15 +70,13 @@ export async function DELETE(
   _req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  try {
-    const session = await getSession();
-    if (!session?.id) {
-      return NextResponse.json({ ok: false, error: "Não autenticado." }, { status: 401 });
-    }
+  const { db, denied } = await requirePermission("emissoes.write");
+  if (denied) return denied;
 
+  try {
     const { id } = await params;
 
-    await prisma.emissionEvent.delete({ where: { id } });
+    await db.emissionEvent.delete({ where: { id } });
 
     return NextResponse.json({ ok: true });
   } catch (err: any) {
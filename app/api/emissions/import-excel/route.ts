@@ -1,57 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { getSessionServer as getSession } from "@/lib/auth-server";
 import { LoyaltyProgram } from "@prisma/client";
 import * as XLSX from "xlsx";
+import { requirePermission } from "@/lib/require-permission";
+import { diceSimilarity, normName } from "@/lib/text-match";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-/** =========================
- *  NORMALIZAÇÕES / MATCH
- *  ========================= */
-
-function normName(s: string) {
-  return (s || "")
-    .normalize("NFD")
-    .replace(/[\u0300-\u036f]/g, "")
-    .toLowerCase()
-    .replace(/[^a-z0-9\s]/g, " ")
-    .replace(/\s+/g, " ")
-    .trim();
-}
-
-// Similaridade Dice (bigrams)
-function diceSimilarity(a: string, b: string) {
-  const A = normName(a);
-  const B = normName(b);
-  if (!A || !B) return 0;
-  if (A === B) return 1;
-
-  const bigrams = (s: string) => {
-    const out: string[] = [];
-    for (let i = 0; i < s.length - 1; i++) out.push(s.slice(i, i + 2));
-    return out;
-  };
-
-  const a2 = bigrams(A);
-  const b2 = bigrams(B);
-  if (a2.length === 0 || b2.length === 0) return 0;
-
-  const map = new Map<string, number>();
-  for (const x of a2) map.set(x, (map.get(x) || 0) + 1);
-
-  let inter = 0;
-  for (const x of b2) {
-    const c = map.get(x) || 0;
-    if (c > 0) {
-      inter++;
-      map.set(x, c - 1);
-    }
-  }
-  return (2 * inter) / (a2.length + b2.length);
-}
-
 /** =========================
  *  PARSE DE MÊS
  *  Aceita: "dez/24", "jan/25", "jan/25 (at)", "jan/2025"
@@ -166,12 +121,10 @@ function colLettersToIdx(col: string) {
 type MonthCol = { colIdx: number; dateLastDayUTC: Date; label: string };
 
 export async function POST(req: NextRequest) {
-  try {
-    const session = await getSession();
-    if (!session?.id) {
-      return NextResponse.json({ ok: false, error: "Não autenticado." }, { status: 401 });
-    }
+  const { session, db, denied } = await requirePermission("emissoes.write");
+  if (denied) return denied;
 
+  try {
     const form = await req.formData();
     const file = form.get("file") as File | null;
 
@@ -250,7 +203,7 @@ export async function POST(req: NextRequest) {
     // ✅ LATAM fixo
     const program = LoyaltyProgram.LATAM;
 
-    const cedentes = await prisma.cedente.findMany({
+    const cedentes = await db.cedente.findMany({
       select: { id: true, identificador: true, nomeCompleto: true, cpf: true },
     });
 
@@ -346,8 +299,9 @@ export async function POST(req: NextRequest) {
     for (let i = 0; i < plannedEvents.length; i += BATCH_SIZE) {
       const batch = plannedEvents.slice(i, i + BATCH_SIZE);
 
-      const res = await prisma.emissionEvent.createMany({
+      const res = await db.emissionEvent.createMany({
         data: batch.map((e) => ({
+          team: session.team,
           cedenteId: e.cedenteId,
           program,
           passengersCount: e.passengersCount,
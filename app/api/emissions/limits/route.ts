@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from "next/server";
+import { LoyaltyProgram } from "@prisma/client";
+import { requirePermission } from "@/lib/require-permission";
+import {
+  DEFAULT_EMISSION_LIMITS,
+  describeEmissionLimit,
+  getEmissionLimits,
+  parseEmissionLimitInput,
+} from "@/lib/emissions";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function bad(message: string, status = 400) {
+  return NextResponse.json({ ok: false, error: message }, { status });
+}
+
+function parseProgram(v: unknown): LoyaltyProgram | null {
+  const s = String(v || "").trim().toUpperCase();
+  return (Object.values(LoyaltyProgram) as string[]).includes(s) ? (s as LoyaltyProgram) : null;
+}
+
+/**
+ * GET /api/emissions/limits
+ * Regra de CPFs de cada programa do time (custom=false → padrão do sistema).
+ */
+export async function GET() {
+  const { db, denied } = await requirePermission("emissoes.read");
+  if (denied) return denied;
+
+  const [limits, saved] = await Promise.all([
+    getEmissionLimits(db),
+    db.emissionLimitRule.findMany({ select: { program: true, updatedAt: true } }),
+  ]);
+  const savedAt = new Map(saved.map((r) => [r.program, r.updatedAt.toISOString()]));
+
+  const data = Object.values(LoyaltyProgram).map((program) => ({
+    ...limits[program],
+    label: describeEmissionLimit(limits[program]),
+    custom: savedAt.has(program),
+    updatedAt: savedAt.get(program) ?? null,
+  }));
+
+  return NextResponse.json({ ok: true, data });
+}
+
+/**
+ * PUT /api/emissions/limits
+ * Body: { program, windowType, windowDays?, resetMonth?, resetDay?, paxLimit }
+ */
+export async function PUT(req: NextRequest) {
+  const { session, db, denied } = await requirePermission("emissoes.write");
+  if (denied) return denied;
+
+  const body = await req.json().catch(() => ({}));
+  const program = parseProgram(body?.program);
+  if (!program) return bad("Programa inválido.");
+
+  const rule = parseEmissionLimitInput(program, body);
+  if (typeof rule === "string") return bad(rule);
+
+  const fields = {
+    windowType: rule.windowType,
+    windowDays: rule.windowDays,
+    resetMonth: rule.resetMonth,
+    resetDay: rule.resetDay,
+    paxLimit: rule.paxLimit,
+  };
+
+  const saved = await db.emissionLimitRule.upsert({
+    where: { team_program: { team: session.team, program } },
+    create: { team: session.team, program, ...fields, updatedById: session.id },
+    update: { ...fields, updatedById: session.id },
+    select: {
+      program: true,
+      windowType: true,
+      windowDays: true,
+      resetMonth: true,
+      resetDay: true,
+      paxLimit: true,
+      updatedAt: true,
+    },
+  });
+
+  return NextResponse.json({
+    ok: true,
+    data: {
+      ...saved,
+      label: describeEmissionLimit(saved),
+      custom: true,
+      updatedAt: saved.updatedAt.toISOString(),
+    },
+  });
+}
+
+/**
+ * DELETE /api/emissions/limits?program=LATAM
+ * Apaga a regra do time → volta ao padrão.
+ */
+export async function DELETE(req: NextRequest) {
+  const { db, denied } = await requirePermission("emissoes.write");
+  if (denied) return denied;
+
+  const program = parseProgram(new URL(req.url).searchParams.get("program"));
+  if (!program) return bad("Programa inválido.");
+
+  await db.emissionLimitRule.deleteMany({ where: { program } });
+
+  const rule = DEFAULT_EMISSION_LIMITS[program];
+  return NextResponse.json({
+    ok: true,
+    data: { ...rule, label: describeEmissionLimit(rule), custom: false, updatedAt: null },
+  });
+}
@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { getSessionServer as getSession } from "@/lib/auth-server";
 import { LoyaltyProgram, EmissionSource } from "@prisma/client";
+import { requirePermission } from "@/lib/require-permission";
+import {
+  describeEmissionLimit,
+  getEmissionLimit,
+  getEmissionUsageByCedente,
+  releasedBetween,
+} from "@/lib/emissions";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -51,6 +56,8 @@ type PanelRow = {
   total: number;
   manual: number;
   renewEndOfMonth: number;
+  used: number; // na janela da regra do programa
+  remaining: number;
   perMonth: Record<string, number>; // YYYY-MM -> count
 };
 
@@ -60,6 +67,7 @@ type PanelResponse = {
   months: Array<{ key: string; label: string }>;
   currentMonthKey: string;
   renewMonthKey: string;
+  limit: { label: string; paxLimit: number; windowStart: string; windowEnd: string };
   rows: PanelRow[];
   totals: { total: number; manual: number; renewEndOfMonth: number };
 };
@@ -72,12 +80,10 @@ type PanelResponse = {
  *  - cedenteIds?: string[] (opcional, recomendado)
  */
 export async function POST(req: NextRequest) {
-  try {
-    const session = await getSession();
-    if (!session?.id) {
-      return NextResponse.json({ ok: false, error: "Não autenticado." }, { status: 401 });
-    }
+  const { db, denied } = await requirePermission("emissoes.write");
+  if (denied) return denied;
 
+  try {
     const body = await req.json().catch(() => ({}));
 
     const program = parseProgram(body?.programa || body?.program);
@@ -110,9 +116,13 @@ export async function POST(req: NextRequest) {
     const rangeStart = monthsArr[0].start;
     const rangeEnd = monthsArr[monthsArr.length - 1].end; // fim do mês atual
 
-    // "Renovam no fim do mês" (LATAM): coluna do mesmo mês do ano anterior (mês-12)
-    const renewMonthStart = addMonthsUTC(curMonthStart, -12);
-    const renewMonthKey = monthKeyUTC(renewMonthStart);
+    // ✅ regra de CPFs do programa (lib/emissions.ts)
+    const rule = await getEmissionLimit(db, program);
+
+    // "Renovam no fim do mês": emissões que saem da janela até a virada do mês
+    const released = releasedBetween(rule, now, addMonthsUTC(curMonthStart, 1));
+    const renewMonthKey =
+      rule.windowType === "ROLLING_DAYS" ? monthKeyUTC(released.start) : "";
     const monthKeysSet = new Set(monthsArr.map((m) => m.key));
 
     // buscar eventos do range
@@ -124,7 +134,7 @@ export async function POST(req: NextRequest) {
       where.cedenteId = { in: cedenteIds };
     }
 
-    const events = await prisma.emissionEvent.findMany({
+    const events = await db.emissionEvent.findMany({
       where,
       select: {
         cedenteId: true,
@@ -140,7 +150,15 @@ export async function POST(req: NextRequest) {
     function ensureRow(id: string): PanelRow {
       let r = byCedente.get(id);
       if (!r) {
-        r = { cedenteId: id, total: 0, manual: 0, renewEndOfMonth: 0, perMonth: {} };
+        r = {
+          cedenteId: id,
+          total: 0,
+          manual: 0,
+          renewEndOfMonth: 0,
+          used: 0,
+          remaining: rule.paxLimit,
+          perMonth: {},
+        };
         // inicia todos meses com 0 (mantém estrutura estável)
         for (const m of monthsArr) r.perMonth[m.key] = 0;
         byCedente.set(id, r);
@@ -163,23 +181,42 @@ export async function POST(req: NextRequest) {
       if (ev.source === EmissionSource.MANUAL) row.manual += n;
     }
 
-    // calcula renovação no fim do mês
-    // - LATAM: usa mês-12 (mesma ideia da sua planilha por colunas)
-    // - SMILES: só faz sentido em dezembro (reset em 01/01) -> renovam = total do ano (aprox) se quiser depois
-    for (const r of byCedente.values()) {
-      if (program === LoyaltyProgram.LATAM) {
-        r.renewEndOfMonth = Number(r.perMonth[renewMonthKey] || 0);
-      } else {
-        r.renewEndOfMonth = 0;
-      }
+    // usados na janela + o que renova até o fim do mês (mesma regra da venda)
+    const cedenteFilter = cedenteIds && cedenteIds.length > 0 ? cedenteIds : undefined;
+    const usage = await getEmissionUsageByCedente(db, {
+      program,
+      at: now,
+      cedenteIds: cedenteFilter,
+      rule,
+    });
+
+    const renewByCedente = new Map<string, number>();
+    if (released.end.getTime() > released.start.getTime()) {
+      const renewAgg = await db.emissionEvent.groupBy({
+        by: ["cedenteId"],
+        where: {
+          program,
+          issuedAt: { gte: released.start, lt: released.end },
+          ...(cedenteFilter ? { cedenteId: { in: cedenteFilter } } : {}),
+        },
+        _sum: { passengersCount: true },
+      });
+      for (const g of renewAgg) renewByCedente.set(g.cedenteId, g._sum.passengersCount ?? 0);
     }
 
+    for (const id of usage.usedByCedente.keys()) ensureRow(id);
+
     // se o front mandou cedenteIds, devolve TODOS (mesmo os zerados)
     if (cedenteIds && cedenteIds.length > 0) {
       for (const id of cedenteIds) ensureRow(id);
     }
 
     const rows = Array.from(byCedente.values());
+    for (const r of rows) {
+      r.used = usage.usedByCedente.get(r.cedenteId) ?? 0;
+      r.remaining = Math.max(0, rule.paxLimit - r.used);
+      r.renewEndOfMonth = renewByCedente.get(r.cedenteId) ?? 0;
+    }
 
     // totais gerais
     const totals = rows.reduce(
@@ -198,6 +235,12 @@ export async function POST(req: NextRequest) {
       months: monthsArr.map((m) => ({ key: m.key, label: m.label })),
       currentMonthKey,
       renewMonthKey,
+      limit: {
+        label: describeEmissionLimit(rule),
+        paxLimit: rule.paxLimit,
+        windowStart: usage.windowStart.toISOString(),
+        windowEnd: usage.windowEnd.toISOString(),
+      },
       rows,
       totals,
     };
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { getSessionServer as getSession } from "@/lib/auth-server";
 import { LoyaltyProgram, EmissionSource } from "@prisma/client";
 import bcrypt from "bcryptjs";
+import { requirePermission } from "@/lib/require-permission";
+import { getEmissionUsage } from "@/lib/emissions";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -30,27 +31,6 @@ function parseIssuedDateYYYYMMDD(s: string | null): Date | null {
   return isNaN(d.getTime()) ? null : d;
 }
 
-function startOfYearUTC(d: Date) {
-  return new Date(Date.UTC(d.getUTCFullYear(), 0, 1, 0, 0, 0, 0));
-}
-function endOfYearUTC(d: Date) {
-  return new Date(Date.UTC(d.getUTCFullYear(), 11, 31, 23, 59, 59, 999));
-}
-function endOfDayUTC(d: Date) {
-  return new Date(
-    Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate(), 23, 59, 59, 999)
-  );
-}
-function addDaysUTC(d: Date, days: number) {
-  return new Date(d.getTime() + days * 24 * 60 * 60 * 1000);
-}
-
-function programLimit(p: LoyaltyProgram) {
-  if (p === LoyaltyProgram.LATAM) return 25;
-  if (p === LoyaltyProgram.SMILES) return 25;
-  return 999999;
-}
-
 /** =========================
  *  AUTH: validar senha do usuário logado
  *  ========================= */
@@ -116,12 +96,10 @@ async function assertReauthByPassword(session: any, typedPassword: string) {
  *  GET (inalterado)
  *  ========================= */
 export async function GET(req: NextRequest) {
-  try {
-    const session = await getSession();
-    if (!session?.id) {
-      return NextResponse.json({ ok: false, error: "Não autenticado." }, { status: 401 });
-    }
+  const { db, denied } = await requirePermission("emissoes.read");
+  if (denied) return denied;
 
+  try {
     const { searchParams } = new URL(req.url);
     const mode = String(searchParams.get("mode") || "list");
     const cedenteId = String(searchParams.get("cedenteId") || "").trim();
@@ -140,57 +118,22 @@ export async function GET(req: NextRequest) {
         return NextResponse.json({ ok: false, error: "issuedDate inválida." }, { status: 400 });
       }
 
-      const limit = programLimit(programa);
-
-      let windowStart: Date;
-      let windowEnd: Date;
-
-      if (programa === LoyaltyProgram.SMILES) {
-        windowStart = startOfYearUTC(issuedDate);
-        windowEnd = endOfYearUTC(issuedDate);
-      } else if (programa === LoyaltyProgram.LATAM) {
-        windowEnd = endOfDayUTC(issuedDate);
-        windowStart = addDaysUTC(
-          new Date(
-            Date.UTC(
-              issuedDate.getUTCFullYear(),
-              issuedDate.getUTCMonth(),
-              issuedDate.getUTCDate(),
-              0, 0, 0, 0
-            )
-          ),
-          -364
-        );
-      } else {
-        windowStart = startOfYearUTC(issuedDate);
-        windowEnd = endOfYearUTC(issuedDate);
-      }
-
-      const agg = await prisma.emissionEvent.aggregate({
-        where: {
-          cedenteId,
-          program: programa,
-          issuedAt: { gte: windowStart, lte: windowEnd },
-        },
-        _sum: { passengersCount: true },
-      });
-
-      const used = agg._sum.passengersCount || 0;
-      const remaining = Math.max(0, limit - used);
+      // ✅ mesma regra da venda/sugestões (lib/emissions.ts)
+      const usage = await getEmissionUsage(db, { cedenteId, program: programa, at: issuedDate });
 
       return NextResponse.json({
         program: programa,
-        windowStart: windowStart.toISOString(),
-        windowEnd: windowEnd.toISOString(),
-        limit,
-        used,
-        remaining,
+        windowStart: usage.windowStart.toISOString(),
+        windowEnd: usage.windowEnd.toISOString(),
+        limit: usage.limit,
+        used: usage.used,
+        remaining: usage.remaining,
       });
     }
 
     const take = Math.min(200, Math.max(1, Number(searchParams.get("take") || 50)));
 
-    const rows = await prisma.emissionEvent.findMany({
+    const rows = await db.emissionEvent.findMany({
       where: { cedenteId, program: programa },
       orderBy: [{ issuedAt: "desc" }, { createdAt: "desc" }],
       take,
@@ -223,12 +166,10 @@ export async function GET(req: NextRequest) {
  *  POST (inalterado)
  *  ========================= */
 export async function POST(req: NextRequest) {
-  try {
-    const session = await getSession();
-    if (!session?.id) {
-      return NextResponse.json({ ok: false, error: "Não autenticado." }, { status: 401 });
-    }
+  const { session, db, denied } = await requirePermission("emissoes.write");
+  if (denied) return denied;
 
+  try {
     const body = await req.json().catch(() => ({}));
     const cedenteId = String(body?.cedenteId || "").trim();
     const programa = parseProgram(body?.programa || body?.program);
@@ -244,8 +185,9 @@ export async function POST(req: NextRequest) {
 
     const note = typeof body?.note === "string" ? body.note.trim() : "";
 
-    const created = await prisma.emissionEvent.create({
+    const created = await db.emissionEvent.create({
       data: {
+        team: session.team,
         cedenteId,
         program: programa,
         passengersCount: Math.trunc(passengersCount),
@@ -296,12 +238,10 @@ export async function POST(req: NextRequest) {
  *   mas NÃO são mais validados.)
  *  ========================= */
 export async function DELETE(req: NextRequest) {
-  try {
-    const session = await getSession();
-    if (!session?.id) {
-      return NextResponse.json({ ok: false, error: "Não autenticado." }, { status: 401 });
-    }
+  const { db, denied } = await requirePermission("emissoes.write");
+  if (denied) return denied;
 
+  try {
     const body = await req.json().catch(() => ({}));
 
     // ✅ agora é só confirmação explícita
@@ -342,7 +282,7 @@ export async function DELETE(req: NextRequest) {
           { status: 400 }
         );
       }
-      const del = await prisma.emissionEvent.deleteMany({ where: baseWhere });
+      const del = await db.emissionEvent.deleteMany({ where: baseWhere });
       return NextResponse.json({
         ok: true,
         scope: "CEDENTE",
@@ -368,7 +308,7 @@ export async function DELETE(req: NextRequest) {
       if (cedenteId) delWhere.cedenteId = cedenteId;
       if (programa) delWhere.program = programa;
 
-      const del = await prisma.emissionEvent.deleteMany({ where: delWhere });
+      const del = await db.emissionEvent.deleteMany({ where: delWhere });
 
       return NextResponse.json({
         ok: true,
@@ -388,7 +328,7 @@ export async function DELETE(req: NextRequest) {
         );
       }
 
-      const del = await prisma.emissionEvent.deleteMany({ where: baseWhere });
+      const del = await db.emissionEvent.deleteMany({ where: baseWhere });
 
       return NextResponse.json({
         ok: true,
@@ -1,7 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
 import { BalcaoAirline } from "@prisma/client";
-import { prisma } from "@/lib/prisma";
-import { requireSession } from "@/lib/auth-server";
 import {
   BALCAO_TAX_DEFAULT_PERCENT,
   BalcaoTaxRule,
@@ -9,10 +7,11 @@ import {
   buildTaxRule,
   recifeDateISO,
   resolveTaxPercent,
-  sellerCommissionCentsFromNet,
   taxFromProfitCents,
   netProfitAfterTaxCents,
 } from "@/lib/balcao-commission";
+import { balcaoCommissionCents, loadPlanResolver, type PlanResolver } from "@/lib/payouts/commissionPlans";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -85,7 +84,7 @@ function toRow(item: {
   supplierCliente: { id: string; identificador: string; nome: string };
   finalCliente: { id: string; identificador: string; nome: string };
   employee: { id: string; name: string; login: string } | null;
-}, rule: BalcaoTaxRule) {
+}, rule: BalcaoTaxRule, resolvePlan: PlanResolver) {
   const normalizedProfitCents = balcaoProfitSemTaxaCents({
     customerChargeCents: item.customerChargeCents,
     supplierPayCents: item.supplierPayCents,
@@ -95,7 +94,10 @@ function toRow(item: {
   const taxPercent = resolveTaxPercent(dateISO, rule);
   const taxCents = taxFromProfitCents(normalizedProfitCents, taxPercent);
   const netProfitCents = netProfitAfterTaxCents(normalizedProfitCents, taxCents);
-  const sellerCommissionCents = sellerCommissionCentsFromNet(netProfitCents);
+  const sellerCommissionCents = balcaoCommissionCents(
+    resolvePlan(item.employee?.id ?? null, item.createdAt).rules,
+    netProfitCents
+  );
 
   return {
     id: item.id,
@@ -121,14 +123,16 @@ function toRow(item: {
 }
 
 export async function GET(req: NextRequest) {
+  const { session, db, denied } = await requirePermission("emissoes.read");
+  if (denied) return denied;
+
   try {
-    const session = await requireSession();
     const team = session?.team;
     if (!team) return bad("Sessão inválida.", 401);
 
-    const settings = await prisma.settings.upsert({
-      where: { key: "default" },
-      create: { key: "default" },
+    const settings = await db.settings.upsert({
+      where: { team_key: { team: team, key: "default" } },
+      create: { team: team, key: "default" },
       update: {},
       select: { taxPercent: true, taxEffectiveFrom: true },
     });
@@ -136,7 +140,7 @@ export async function GET(req: NextRequest) {
 
     const q = new URL(req.url).searchParams.get("q")?.trim() || "";
 
-    const rows = await prisma.balcaoOperacao.findMany({
+    const rows = await db.balcaoOperacao.findMany({
       where: q
         ? {
             team,
@@ -173,7 +177,8 @@ export async function GET(req: NextRequest) {
       },
     });
 
-    const data = rows.map((row) => toRow(row, taxRule));
+    const resolvePlan = await loadPlanResolver(db);
+    const data = rows.map((row) => toRow(row, taxRule, resolvePlan));
 
     const resumo = data.reduce(
       (acc, row) => {
@@ -212,14 +217,16 @@ export async function GET(req: NextRequest) {
 }
 
 export async function POST(req: NextRequest) {
+  const { session, db, denied } = await requirePermission("emissoes.write");
+  if (denied) return denied;
+
   try {
-    const session = await requireSession();
     const team = session?.team;
     if (!team) return bad("Sessão inválida.", 401);
 
-    const settings = await prisma.settings.upsert({
-      where: { key: "default" },
-      create: { key: "default" },
+    const settings = await db.settings.upsert({
+      where: { team_key: { team: team, key: "default" } },
+      create: { team: team, key: "default" },
       update: {},
       select: { taxPercent: true, taxEffectiveFrom: true },
     });
@@ -258,11 +265,11 @@ export async function POST(req: NextRequest) {
     if (locator && locator.length > 32) return bad("Localizador muito longo.");
 
     const [supplier, customer] = await Promise.all([
-      prisma.cliente.findUnique({
+      db.cliente.findUnique({
         where: { id: supplierClienteId },
         select: { id: true },
       }),
-      prisma.cliente.findUnique({
+      db.cliente.findUnique({
         where: { id: finalClienteId },
         select: { id: true },
       }),
@@ -272,7 +279,7 @@ export async function POST(req: NextRequest) {
     if (!customer) return bad("Cliente final não encontrado.");
 
     const employeeId = employeeIdRaw || session.id;
-    const employee = await prisma.user.findFirst({
+    const employee = await db.user.findFirst({
       where: { id: employeeId, team },
       select: { id: true },
     });
@@ -285,7 +292,7 @@ export async function POST(req: NextRequest) {
     const customerChargeCents = Math.round((points * sellRateCents) / 1000) + boardingFeeCents;
     const profitCents = customerChargeCents - supplierPayCents - boardingFeeCents;
 
-    const created = await prisma.balcaoOperacao.create({
+    const created = await db.balcaoOperacao.create({
       data: {
         team,
         supplierClienteId,
@@ -321,7 +328,7 @@ export async function POST(req: NextRequest) {
       },
     });
 
-    return ok({ row: toRow(created, taxRule) }, 201);
+    return ok({ row: toRow(created, taxRule, await loadPlanResolver(db)) }, 201);
   } catch (e: unknown) {
     const message = e instanceof Error ? e.message : "Erro ao cadastrar emissão no balcão.";
     const status = message === "UNAUTHENTICATED" ? 401 : 500;
@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { loadRateResolver, MILHEIRO_PROGRAM_LABEL } from "@/lib/milheiro-rates";
+import { COST_METHOD_LABEL, loadStockValuation, PointsLotError, setTeamCostMethod, teamCostMethod } from "@/lib/points-lots";
+import { requirePermission } from "@/lib/require-permission";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET
+ * Estoque a custo (lotes) x mercado (milheiro vigente) por programa e cedente,
+ * + CMV/margem das últimas vendas.
+ */
+export async function GET() {
+  const { db, denied } = await requirePermission("financeiro.read");
+  if (denied) return denied;
+
+  const resolveRate = await loadRateResolver(db);
+  const [method, stock, sales] = await Promise.all([
+    teamCostMethod(db),
+    loadStockValuation(db, resolveRate),
+    db.sale.findMany({
+      where: { paymentStatus: { not: "CANCELED" }, cogsCents: { not: null } },
+      orderBy: { date: "desc" },
+      take: 50,
+      select: {
+        id: true,
+        numero: true,
+        date: true,
+        program: true,
+        points: true,
+        pointsValueCents: true,
+        cogsCents: true,
+        cogsUncoveredPoints: true,
+        cedente: { select: { identificador: true, nomeCompleto: true } },
+      },
+    }),
+  ]);
+
+  return NextResponse.json({
+    ok: true,
+    data: {
+      method,
+      methods: COST_METHOD_LABEL,
+      labels: MILHEIRO_PROGRAM_LABEL,
+      programs: stock.programs.filter((p) => p.balancePoints > 0),
+      rows: stock.rows,
+      sales: sales.map((s) => {
+        const cogsCents = s.cogsCents ?? 0;
+        return {
+          id: s.id,
+          numero: s.numero,
+          date: s.date.toISOString(),
+          program: s.program,
+          points: s.points,
+          cedente: s.cedente,
+          revenueCents: s.pointsValueCents,
+          cogsCents,
+          cogsUncoveredPoints: s.cogsUncoveredPoints,
+          marginCents: s.pointsValueCents - cogsCents,
+        };
+      }),
+    },
+  });
+}
+
+/**
+ * PATCH { method: "FIFO" | "AVERAGE" }
+ * Método de custo das próximas saídas (vendas já feitas mantêm o CMV gravado).
+ */
+export async function PATCH(req: Request) {
+  const { session, db, denied } = await requirePermission("financeiro.write");
+  if (denied) return denied;
+
+  const body = await req.json().catch(() => ({}));
+
+  try {
+    const method = await setTeamCostMethod(db, session.team, body?.method);
+    return NextResponse.json({ ok: true, data: { method } });
+  } catch (e) {
+    if (e instanceof PointsLotError) return NextResponse.json({ ok: false, error: e.message }, { status: 400 });
+    throw e;
+  }
+}
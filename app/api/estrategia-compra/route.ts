@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { requireSession } from "@/lib/auth-server";
 import {
   LoyaltyProgram,
   ClubSubscriptionStatus,
   CedenteStatus,
   BlockStatus,
 } from "@prisma/client";
+import { requirePermission } from "@/lib/require-permission";
+import { getEmissionLimits, getEmissionUsageByCedente, turboCpfUsage } from "@/lib/emissions";
+import { getClubRule, projectClub } from "@/lib/club-rules";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -61,30 +62,6 @@ function birthDayLabel(date: Date, tz: string) {
 function startUTC(d: Date) {
   return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
 }
-function addDaysUTC(base: Date, days: number) {
-  const d = startUTC(base);
-  d.setUTCDate(d.getUTCDate() + days);
-  return d;
-}
-function daysInMonthUTC(year: number, month0: number) {
-  return new Date(Date.UTC(year, month0 + 1, 0)).getUTCDate();
-}
-function nextMonthOnDayUTC(base: Date, day: number) {
-  const y0 = base.getUTCFullYear();
-  const m0 = base.getUTCMonth();
-
-  let y = y0;
-  let m = m0 + 1;
-  if (m > 11) {
-    m = 0;
-    y += 1;
-  }
-
-  const last = daysInMonthUTC(y, m);
-  const dd = Math.min(Math.max(1, day), last);
-
-  return new Date(Date.UTC(y, m, dd));
-}
 function monthKeyUTC(d: Date) {
   const y = d.getUTCFullYear();
   const m = String(d.getUTCMonth() + 1).padStart(2, "0");
@@ -108,9 +85,6 @@ function endOfMonthUTCFromKey(key: string) {
   if (!p) return null;
   return new Date(Date.UTC(p.y, p.m0 + 1, 0, 23, 59, 59, 999));
 }
-function clampInt(n: number, min: number, max: number) {
-  return Math.min(max, Math.max(min, n));
-}
 function safeInt(v: unknown, fb = 0) {
   const n = Number(v);
   return Number.isFinite(n) ? Math.trunc(n) : fb;
@@ -120,40 +94,6 @@ function isBetweenUTC(d: Date, start: Date, end: Date) {
   return t >= startUTC(start).getTime() && t <= startUTC(end).getTime();
 }
 
-// ✅ últimos 365 dias (UTC) por DIA (inclui hoje)
-function boundsLast365UTC() {
-  const now = new Date();
-
-  const end = new Date(
-    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), 23, 59, 59, 999)
-  );
-
-  // hoje (1) + 364 dias anteriores = 365 dias
-  const start = new Date(end);
-  start.setUTCDate(start.getUTCDate() - 364);
-  start.setUTCHours(0, 0, 0, 0);
-
-  return { start, end };
-}
-
-const LATAM_CANCEL_AFTER_INACTIVE_DAYS = 10;
-
-function computeLatamAutoDates(input: {
-  subscribedAt: Date;
-  renewalDay: number;
-  lastRenewedAt: Date | null;
-}) {
-  const renewalDay = clampInt(Number(input.renewalDay) || 1, 1, 31);
-  const base = input.lastRenewedAt ?? input.subscribedAt;
-
-  const nextRenewalAt = nextMonthOnDayUTC(base, renewalDay);
-  const inactiveAt = addDaysUTC(nextRenewalAt, 1);
-  const activeUntil = addDaysUTC(inactiveAt, -1);
-  const cancelAt = addDaysUTC(inactiveAt, LATAM_CANCEL_AFTER_INACTIVE_DAYS);
-
-  return { nextRenewalAt, inactiveAt, activeUntil, cancelAt };
-}
-
 function programLabel(p: LoyaltyProgram) {
   // só para “plano”
   if (p === "LATAM") return "Latam";
@@ -218,14 +158,11 @@ function scoreRow(opts: {
 }
 
 export async function POST(req: NextRequest) {
-  // 🔒 garante logado
-  const session: any = await requireSession();
-
-  // tenta achar o team na sua sessão
-  const team: string | undefined =
-    session?.user?.team ?? session?.team ?? session?.session?.user?.team;
+  const { session, db, denied } = await requirePermission("analytics.read");
+  if (denied) return denied;
 
-  if (!team) return bad("Sessão sem team (requireSession não retornou team)");
+  const team = session.team;
+  if (!team) return bad("Sessão sem team");
 
   const body = await req.json().catch(() => null);
   if (!body) return bad("Body inválido");
@@ -239,10 +176,9 @@ export async function POST(req: NextRequest) {
     const monthStart = startOfMonthUTCFromKey(monthKey);
     const monthEnd = endOfMonthUTCFromKey(monthKey);
 
-    const today = startUTC(new Date());
     const currentBirthMonth = monthNumberInTZ(new Date(), BIRTHDAY_TZ);
 
-    const cedentes = await prisma.cedente.findMany({
+    const cedentes = await db.cedente.findMany({
       where: {
         status: CedenteStatus.APPROVED,
         owner: { team },
@@ -282,7 +218,7 @@ export async function POST(req: NextRequest) {
 
     const birthdayIds = birthdayCedentes.map((c) => c.id);
 
-    const clubs = await prisma.clubSubscription.findMany({
+    const clubs = await db.clubSubscription.findMany({
       where: {
         team,
         program: "LATAM",
@@ -307,7 +243,7 @@ export async function POST(req: NextRequest) {
       if (!latestClubByCedente.has(c.cedenteId)) latestClubByCedente.set(c.cedenteId, c);
     }
 
-    const monthMarks = await prisma.latamTurboMonth.findMany({
+    const monthMarks = await db.latamTurboMonth.findMany({
       where: {
         team,
         monthKey,
@@ -319,7 +255,7 @@ export async function POST(req: NextRequest) {
     const markByCedente = new Map<string, (typeof monthMarks)[number]>();
     for (const m of monthMarks) markByCedente.set(m.cedenteId, m);
 
-    const accounts = await prisma.latamTurboAccount.findMany({
+    const accounts = await db.latamTurboAccount.findMany({
       where: { team, cedenteId: { in: birthdayIds } },
       select: { cedenteId: true, cpfLimit: true, cpfUsed: true },
     });
@@ -327,48 +263,26 @@ export async function POST(req: NextRequest) {
     const accByCedente = new Map<string, { cpfLimit: number; cpfUsed: number }>();
     for (const a of accounts) accByCedente.set(a.cedenteId, { cpfLimit: a.cpfLimit, cpfUsed: a.cpfUsed });
 
-    const { start: yStart, end: yEnd } = boundsLast365UTC();
-    const usedAgg = await prisma.emissionEvent.groupBy({
-      by: ["cedenteId"],
-      where: {
-        program: LoyaltyProgram.LATAM,
-        issuedAt: { gte: yStart, lte: yEnd },
-        cedenteId: { in: birthdayIds },
-      },
-      _sum: { passengersCount: true },
+    const { rule: latamRule, usedByCedente: usedCalcByCedente } = await getEmissionUsageByCedente(db, {
+      program: LoyaltyProgram.LATAM,
+      at: new Date(),
+      cedenteIds: birthdayIds,
     });
 
-    const usedCalcByCedente = new Map<string, number>(
-      usedAgg.map((x) => [x.cedenteId, Number(x._sum.passengersCount || 0)])
-    );
+    const latamClubRule = await getClubRule(db, LoyaltyProgram.LATAM);
 
     const rows = birthdayCedentes
       .map((c) => {
         const club = latestClubByCedente.get(c.id);
         if (!club) return null;
 
-        const auto = computeLatamAutoDates({
-          subscribedAt: club.subscribedAt,
-          renewalDay: clampInt(Number(club.renewalDay) || 1, 1, 31),
-          lastRenewedAt: club.lastRenewedAt,
-        });
-
-        let effectiveStatus = club.status as ClubSubscriptionStatus;
-        if (effectiveStatus !== "CANCELED") {
-          if (today.getTime() >= startUTC(auto.cancelAt).getTime()) {
-            effectiveStatus = "CANCELED";
-          } else if (
-            today.getTime() >= startUTC(auto.inactiveAt).getTime() &&
-            effectiveStatus === "ACTIVE"
-          ) {
-            effectiveStatus = "PAUSED";
-          }
-        }
-
-        if (effectiveStatus !== "ACTIVE") return null;
+        // ✅ regra LATAM do time (lib/club-rules.ts)
+        const auto = projectClub(latamClubRule, club);
+        if (auto.status !== "ACTIVE") return null;
 
         const inactiveInMonth =
-          Boolean(monthStart && monthEnd) && isBetweenUTC(auto.inactiveAt, monthStart!, monthEnd!);
+          Boolean(auto.inactiveAt && monthStart && monthEnd) &&
+          isBetweenUTC(auto.inactiveAt!, monthStart!, monthEnd!);
 
         const mark = markByCedente.get(c.id) || null;
         const transferredPoints =
@@ -378,12 +292,11 @@ export async function POST(req: NextRequest) {
 
         const remainingPoints = Math.max(0, TURBO_MONTH_LIMIT - transferredPoints);
 
-        const acc = accByCedente.get(c.id) || { cpfLimit: 25, cpfUsed: 0 };
-        const cpfLimit = clampInt(safeInt(acc.cpfLimit, 25), 0, 999);
-        const usedCalc = clampInt(safeInt(usedCalcByCedente.get(c.id) ?? 0, 0), 0, 999);
-        const usedManual = clampInt(safeInt(acc.cpfUsed, 0), 0, 999);
-        const cpfUsed = Math.max(usedCalc, usedManual);
-        const cpfFree = Math.max(0, cpfLimit - cpfUsed);
+        const { cpfFree } = turboCpfUsage(
+          latamRule,
+          accByCedente.get(c.id),
+          usedCalcByCedente.get(c.id) ?? 0
+        );
 
         return {
           cedenteId: c.id,
@@ -398,7 +311,7 @@ export async function POST(req: NextRequest) {
             transferredPoints,
             remainingPoints,
             willInactivate: inactiveInMonth,
-            cancelAt: inactiveInMonth ? auto.cancelAt.toISOString() : null,
+            cancelAt: inactiveInMonth ? (auto.cancelAt?.toISOString() ?? null) : null,
           },
         };
       })
@@ -488,7 +401,7 @@ export async function POST(req: NextRequest) {
 
   // ======= Busca cedentes do time
   // OBS: Cedente não tem team, então filtramos pelo owner.team
-  const cedentes = await prisma.cedente.findMany({
+  const cedentes = await db.cedente.findMany({
     where: {
       status: CedenteStatus.APPROVED,
       owner: { team },
@@ -527,24 +440,20 @@ export async function POST(req: NextRequest) {
 
   const cedenteIds = cedentes.map((c) => c.id);
 
-  // ======= pax usados (últimos 365 dias) por cedente+program (só se tiver paxProgram)
-  const since = new Date(Date.now() - 365 * 24 * 60 * 60 * 1000);
+  // ======= pax usados na janela da regra do programa (só se tiver paxProgram)
+  const limits = await getEmissionLimits(db);
 
   const paxUsedMap = new Map<string, number>(); // key = `${cedenteId}:${program}`
   if (paxProgram && cedenteIds.length) {
-    const aggs = await prisma.emissionEvent.groupBy({
-      by: ["cedenteId", "program"],
-      where: {
-        cedenteId: { in: cedenteIds },
-        program: paxProgram,
-        issuedAt: { gte: since },
-      },
-      _sum: { passengersCount: true },
+    const usage = await getEmissionUsageByCedente(db, {
+      program: paxProgram,
+      at: new Date(),
+      cedenteIds,
+      rule: limits[paxProgram],
     });
 
-    for (const a of aggs) {
-      const key = `${a.cedenteId}:${a.program}`;
-      paxUsedMap.set(key, a._sum.passengersCount ?? 0);
+    for (const [cedenteId, used] of usage.usedByCedente) {
+      paxUsedMap.set(`${cedenteId}:${paxProgram}`, used);
     }
   }
 
@@ -601,13 +510,14 @@ export async function POST(req: NextRequest) {
       const bankPoints = bankP ? getPointsByProgram(c, bankP) : 0;
 
       // pax/cpf (no modo clube, só faz sentido se for cia)
-      const paxLimitDefault = 25;
       const paxUsed = paxProgram && ciaP ? (paxUsedMap.get(`${c.id}:${ciaP}`) ?? 0) : 0;
-      const paxAvailable = ciaP ? Math.max(0, paxLimitDefault - paxUsed) : null;
+      const paxAvailable = ciaP ? Math.max(0, limits[ciaP].paxLimit - paxUsed) : null;
 
       const turbo = c.latamTurboAccount;
-      const cpfsAvailable =
-        turbo ? Math.max(0, (turbo.cpfLimit ?? 0) - (turbo.cpfUsed ?? 0)) : (paxAvailable ?? null);
+      const latamUsed = paxUsedMap.get(`${c.id}:LATAM`) ?? 0;
+      const cpfsAvailable = turbo
+        ? turboCpfUsage(limits.LATAM, turbo, latamUsed).cpfFree
+        : (paxAvailable ?? null);
 
       const score = scoreRow(
         {
@@ -685,15 +595,16 @@ export async function POST(req: NextRequest) {
     const ciaPoints = getPointsByProgram(c, cia);
     const bankPoints = getPointsByProgram(c, bank);
 
-    // pax disponíveis (rolling 365d) — default 25
-    const paxLimitDefault = 25;
+    // pax disponíveis na janela da regra do programa (lib/emissions.ts)
     const paxUsed = paxProgram ? (paxUsedMap.get(`${c.id}:${paxProgram}`) ?? 0) : 0;
-    const paxAvailable = paxProgram ? Math.max(0, paxLimitDefault - paxUsed) : null;
+    const paxAvailable = paxProgram ? Math.max(0, limits[paxProgram].paxLimit - paxUsed) : null;
 
     // cpfs disponíveis (prioriza LatamTurboAccount se existir)
     const turbo = c.latamTurboAccount;
-    const cpfsAvailable =
-      turbo ? Math.max(0, (turbo.cpfLimit ?? 0) - (turbo.cpfUsed ?? 0)) : (paxAvailable ?? null);
+    const latamUsed = paxUsedMap.get(`${c.id}:LATAM`) ?? 0;
+    const cpfsAvailable = turbo
+      ? turboCpfUsage(limits.LATAM, turbo, latamUsed).cpfFree
+      : (paxAvailable ?? null);
 
     const score = scoreRow(
       {
@@ -1,6 +1,7 @@
 // app/api/funcionarios/[id]/invite/route.ts
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -35,9 +36,12 @@ async function makeUniqueCode(base: string) {
 }
 
 export async function POST(_req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const { db, denied } = await requirePermission("funcionarios.write");
+  if (denied) return denied;
+
   const { id } = await context.params;
 
-  const user = await prisma.user.findUnique({
+  const user = await db.user.findUnique({
     where: { id },
     select: { id: true, name: true },
   });
@@ -50,7 +54,7 @@ export async function POST(_req: NextRequest, context: { params: Promise<{ id: s
     const base = baseCodeFromName(user.name);
     const code = await makeUniqueCode(base);
 
-    const invite = await prisma.employeeInvite.upsert({
+    const invite = await db.employeeInvite.upsert({
       where: { userId: user.id },
       update: { code, isActive: true },
       create: { userId: user.id, code, isActive: true },
@@ -1,7 +1,9 @@
 // app/api/funcionarios/[id]/password/route.ts
 import { NextRequest, NextResponse } from "next/server";
 import crypto from "node:crypto";
-import { prisma } from "@/lib/prisma";
+import { can } from "@/lib/permissions";
+import { requireAuthenticated } from "@/lib/require-permission";
+import { SESSION_COOKIE, reissueSession, revokeAllSessions, sessionCookieOptions } from "@/lib/session";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -20,7 +22,16 @@ function noCacheHeaders() {
 }
 
 export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const { session, db, denied } = await requireAuthenticated();
+  if (denied) return denied;
+
   const { id } = await ctx.params;
+
+  // ✅ cada um troca a própria senha; a de outro funcionário só quem gerencia funcionários
+  if (id !== session.id && !can(session.role, "funcionarios.write")) {
+    return NextResponse.json({ ok: false, error: "Sem permissão" }, { status: 403, headers: noCacheHeaders() });
+  }
+
   const body = await req.json().catch(() => ({}));
 
   const oldPassword = typeof body?.oldPassword === "string" ? body.oldPassword : "";
@@ -37,17 +48,27 @@ export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string
     return NextResponse.json({ ok: false, error: "As novas senhas não conferem." }, { status: 400, headers: noCacheHeaders() });
   }
 
-  const u = await prisma.user.findUnique({ where: { id }, select: { id: true, passwordHash: true } });
+  const u = await db.user.findUnique({ where: { id }, select: { id: true, passwordHash: true } });
   if (!u) return NextResponse.json({ ok: false, error: "Funcionário não encontrado." }, { status: 404, headers: noCacheHeaders() });
 
   if (u.passwordHash !== sha256(oldPassword)) {
     return NextResponse.json({ ok: false, error: "Senha antiga incorreta." }, { status: 401, headers: noCacheHeaders() });
   }
 
-  await prisma.user.update({
+  await db.user.update({
     where: { id },
     data: { passwordHash: sha256(newPassword) },
   });
 
-  return NextResponse.json({ ok: true }, { headers: noCacheHeaders() });
+  // ✅ troca de senha derruba as sessões abertas desse usuário
+  await revokeAllSessions(id, "password_changed");
+
+  const res = NextResponse.json({ ok: true }, { headers: noCacheHeaders() });
+
+  // a própria senha: este dispositivo segue logado com um token novo
+  if (id === session.id) {
+    res.cookies.set(SESSION_COOKIE, await reissueSession(session.sid, id), sessionCookieOptions());
+  }
+
+  return res;
 }
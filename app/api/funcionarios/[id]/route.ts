@@ -1,6 +1,6 @@
 // app/api/funcionarios/[id]/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -32,9 +32,12 @@ function slugifyId(v: string) {
 }
 
 export async function GET(_req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const { db, denied } = await requirePermission("funcionarios.read");
+  if (denied) return denied;
+
   const { id } = await ctx.params;
 
-  const u = await prisma.user.findUnique({
+  const u = await db.user.findUnique({
     where: { id },
     select: {
       id: true,
@@ -77,6 +80,9 @@ export async function GET(_req: NextRequest, ctx: { params: Promise<{ id: string
 }
 
 export async function PATCH(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const { db, denied } = await requirePermission("funcionarios.write");
+  if (denied) return denied;
+
   const { id } = await ctx.params;
   const body = await req.json().catch(() => ({}));
 
@@ -96,7 +102,7 @@ export async function PATCH(req: NextRequest, ctx: { params: Promise<{ id: strin
   }
 
   try {
-    const updated = await prisma.user.update({
+    const updated = await db.user.update({
       where: { id },
       data: {
         name,
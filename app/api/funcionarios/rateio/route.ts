@@ -1,36 +1,9 @@
 import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
-import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-type Sess = { id: string; login: string; team: string; role: "admin" | "staff" };
-
-function b64urlDecode(input: string) {
-  const pad = input.length % 4 === 0 ? "" : "=".repeat(4 - (input.length % 4));
-  const base64 = (input + pad).replace(/-/g, "+").replace(/_/g, "/");
-  return Buffer.from(base64, "base64").toString("utf8");
-}
-
-function readSessionCookie(raw?: string): Sess | null {
-  if (!raw) return null;
-  try {
-    const parsed = JSON.parse(b64urlDecode(raw)) as Partial<Sess>;
-    if (!parsed?.id || !parsed?.login || !parsed?.team || !parsed?.role) return null;
-    if (parsed.role !== "admin" && parsed.role !== "staff") return null;
-    return parsed as Sess;
-  } catch {
-    return null;
-  }
-}
-
-async function getServerSession(): Promise<Sess | null> {
-  const store = await cookies();
-  const raw = store.get("tm.session")?.value;
-  return readSessionCookie(raw);
-}
-
 function safeInt(v: unknown, fb = 0) {
   const n = Number(v);
   return Number.isFinite(n) ? Math.trunc(n) : fb;
@@ -74,23 +47,22 @@ type SharePack = {
 type RateioItem = { payeeId: string; bps: number };
 
 export async function GET(req: Request) {
-  const session = await getServerSession();
-  if (!session?.id) {
-    return NextResponse.json({ ok: false, error: "Não autenticado" }, { status: 401 });
-  }
+  const { session, db, denied } = await requirePermission("payouts.read");
+  if (denied) return denied;
+
 
   const url = new URL(req.url);
   const atParam = url.searchParams.get("at"); // opcional: simular "vigência em X data"
   const at = atParam ? parseDateISOToLocalDay(atParam) : null;
   const now = at ?? new Date();
 
-  const users = await prisma.user.findMany({
+  const users = await db.user.findMany({
     where: { team: session.team },
     orderBy: { name: "asc" },
     select: { id: true, name: true, login: true, role: true },
   });
 
-  const cedCounts = await prisma.cedente.groupBy({
+  const cedCounts = await db.cedente.groupBy({
     by: ["ownerId"],
     where: { owner: { team: session.team } },
     _count: { _all: true },
@@ -104,7 +76,7 @@ export async function GET(req: Request) {
    * effectiveFrom <= now AND (effectiveTo is null OR effectiveTo > now)
    * distinct(ownerId) com orderBy ownerId asc, effectiveFrom desc (DISTINCT ON)
    */
-  const shares = await prisma.profitShare.findMany({
+  const shares = await db.profitShare.findMany({
     where: {
       team: session.team,
       isActive: true,
@@ -162,10 +134,9 @@ export async function GET(req: Request) {
 }
 
 export async function PUT(req: Request) {
-  const session = await getServerSession();
-  if (!session?.id) {
-    return NextResponse.json({ ok: false, error: "Não autenticado" }, { status: 401 });
-  }
+  const { session, db, denied } = await requirePermission("payouts.write");
+  if (denied) return denied;
+
 
   const body: any = await req.json().catch(() => ({}));
 
@@ -181,7 +152,7 @@ export async function PUT(req: Request) {
     return NextResponse.json({ ok: false, error: "ownerId obrigatório" }, { status: 400 });
   }
 
-  const owner = await prisma.user.findFirst({
+  const owner = await db.user.findFirst({
     where: { id: ownerId, team: session.team },
     select: { id: true },
   });
@@ -215,7 +186,7 @@ export async function PUT(req: Request) {
 
   // valida payees no mesmo team
   const payeeIds: string[] = items.map((it: RateioItem) => it.payeeId);
-  const payees = await prisma.user.findMany({
+  const payees = await db.user.findMany({
     where: { id: { in: payeeIds }, team: session.team },
     select: { id: true },
   });
@@ -231,7 +202,7 @@ export async function PUT(req: Request) {
     return NextResponse.json({ ok: false, error: "O rateio precisa somar 100%" }, { status: 400 });
   }
 
-  await prisma.$transaction(async (tx) => {
+  await db.$transaction(async (tx) => {
     // acha o "próximo" já agendado (pra setar effectiveTo do novo)
     const next = await tx.profitShare.findFirst({
       where: { team: session.team, ownerId, effectiveFrom: { gt: effectiveFrom } },
@@ -1,14 +1,13 @@
 // app/api/funcionarios/route.ts
 import { NextRequest, NextResponse } from "next/server";
 import crypto from "node:crypto";
-import { prisma } from "@/lib/prisma";
+import { normalizeRole } from "@/lib/permissions";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 
-type Role = "admin" | "staff";
-
 const sha256 = (s: string) => crypto.createHash("sha256").update(s).digest("hex");
 const norm = (s: string | null | undefined) => (s ?? "").trim().toLowerCase();
 
@@ -41,8 +40,11 @@ function slugifyId(v: string) {
 // GET /api/funcionarios
 // =========================
 export async function GET() {
+  const { db, denied } = await requirePermission("funcionarios.read");
+  if (denied) return denied;
+
   try {
-    const users = await prisma.user.findMany({
+    const users = await db.user.findMany({
       orderBy: { createdAt: "desc" },
       select: {
         id: true,
@@ -90,6 +92,9 @@ export async function GET() {
 // (CRIA SÓ O USUÁRIO - SEM CONVITE)
 // =========================
 export async function POST(req: NextRequest) {
+  const { session, db, denied } = await requirePermission("funcionarios.write");
+  if (denied) return denied;
+
   try {
     const body = await req.json().catch(() => ({}));
 
@@ -104,7 +109,7 @@ export async function POST(req: NextRequest) {
     const whatsappRaw = typeof body?.whatsapp === "string" ? body.whatsapp.trim() : "";
     const whatsapp = whatsappRaw || null;
     const team = typeof body?.team === "string" && body.team.trim() ? body.team.trim() : "@loiro_das_milhas";
-    const role: Role = body?.role === "admin" ? "admin" : "staff";
+    const role = body?.role ? normalizeRole(body.role) : "seller";
     const password = typeof body?.password === "string" ? body.password : "";
 
     if (!login || !name || !password) {
@@ -114,6 +119,14 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // ✅ só o dono cria outro dono
+    if (role === "owner" && session.role !== "owner") {
+      return NextResponse.json(
+        { ok: false, error: "Sem permissão para criar usuário dono." },
+        { status: 403, headers: noCacheHeaders() }
+      );
+    }
+
     if (!employeeId) {
       return NextResponse.json(
         { ok: false, error: "Informe o ID do funcionário (ex: eduarda.freitas)." },
@@ -128,7 +141,7 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const exists = await prisma.user.findUnique({ where: { login } });
+    const exists = await db.user.findUnique({ where: { login } });
     if (exists) {
       return NextResponse.json(
         { ok: false, error: "Já existe um usuário com esse login." },
@@ -137,7 +150,7 @@ export async function POST(req: NextRequest) {
     }
 
     // se employeeId for @unique no prisma, já vai garantir; mas tratamos erro também
-    const user = await prisma.user.create({
+    const user = await db.user.create({
       data: {
         login,
         name,
@@ -1,6 +1,4 @@
 import { NextRequest, NextResponse } from "next/server";
-import { requireSession } from "@/lib/auth-server";
-import { prisma } from "@/lib/prisma";
 import {
   computeVipRateioDistribution,
   normalizeEmployeeShares,
@@ -8,13 +6,16 @@ import {
   resolveMonthRef,
   toRateioSetting,
 } from "@/lib/vip-rateio";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 export async function GET(req: NextRequest) {
+  const { session: sess, db, denied } = await requirePermission("vip.read");
+  if (denied) return denied;
+
   try {
-    const sess = await requireSession();
     const team = String(sess.team || "");
     if (!team) {
       return NextResponse.json(
@@ -27,7 +28,7 @@ export async function GET(req: NextRequest) {
     const month = String(url.searchParams.get("month") || "").trim();
     const monthResolved = resolveMonthRef(month);
 
-    const settingRow = await prisma.vipWhatsappRateioSetting.upsert({
+    const settingRow = await db.vipWhatsappRateioSetting.upsert({
       where: { team },
       create: { team },
       update: {},
@@ -41,16 +42,16 @@ export async function GET(req: NextRequest) {
     const setting = toRateioSetting(settingRow);
 
     const [employees, leads, payments, sharesRows] = await Promise.all([
-      prisma.user.findMany({
+      db.user.findMany({
         where: { team },
         select: { id: true, name: true, login: true },
         orderBy: { name: "asc" },
       }),
-      prisma.vipWhatsappLead.findMany({
+      db.vipWhatsappLead.findMany({
         where: { team },
         select: { employeeId: true, status: true },
       }),
-      prisma.vipWhatsappPayment.findMany({
+      db.vipWhatsappPayment.findMany({
         where: {
           team,
           paidAt: { gte: monthResolved.start, lt: monthResolved.nextStart },
@@ -60,7 +61,7 @@ export async function GET(req: NextRequest) {
           lead: { select: { employeeId: true } },
         },
       }),
-      prisma.vipWhatsappRateioShare.findMany({
+      db.vipWhatsappRateioShare.findMany({
         where: { team },
         select: { employeeId: true, shareBps: true },
       }),
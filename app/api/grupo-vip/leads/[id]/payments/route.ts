@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { requireSession } from "@/lib/auth-server";
-import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -36,8 +35,10 @@ export async function POST(
   req: NextRequest,
   context: { params: Promise<{ id: string }> }
 ) {
+  const { session: sess, db, denied } = await requirePermission("vip.write");
+  if (denied) return denied;
+
   try {
-    const sess = await requireSession();
     const team = String(sess.team || "");
     if (!team) {
       return NextResponse.json(
@@ -73,7 +74,7 @@ export async function POST(
       );
     }
 
-    const lead = await prisma.vipWhatsappLead.findFirst({
+    const lead = await db.vipWhatsappLead.findFirst({
       where: { id, team },
       select: { id: true, team: true, status: true },
     });
@@ -85,7 +86,7 @@ export async function POST(
       );
     }
 
-    const payment = await prisma.vipWhatsappPayment.create({
+    const payment = await db.vipWhatsappPayment.create({
       data: {
         team: lead.team,
         leadId: lead.id,
@@ -99,7 +100,7 @@ export async function POST(
       },
     });
 
-    const agg = await prisma.vipWhatsappPayment.aggregate({
+    const agg = await db.vipWhatsappPayment.aggregate({
       where: { leadId: lead.id },
       _sum: { amountCents: true },
       _count: { _all: true },
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { requireSession } from "@/lib/auth-server";
-import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/require-permission";
+import { emitDomainEvent } from "@/lib/outbox";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -23,8 +23,10 @@ export async function PATCH(
   req: NextRequest,
   context: { params: Promise<{ id: string }> }
 ) {
+  const { session: sess, db, denied } = await requirePermission("vip.write");
+  if (denied) return denied;
+
   try {
-    const sess = await requireSession();
     const team = String(sess.team || "");
     if (!team) {
       return NextResponse.json(
@@ -52,7 +54,7 @@ export async function PATCH(
       );
     }
 
-    const existing = await prisma.vipWhatsappLead.findFirst({
+    const existing = await db.vipWhatsappLead.findFirst({
       where: { id, team },
       select: { id: true, status: true },
     });
@@ -86,13 +88,33 @@ export async function PATCH(
       }
     }
 
-    const updated = await prisma.vipWhatsappLead.update({
-      where: { id: existing.id },
-      data,
-      include: {
-        employee: { select: { id: true, name: true, login: true } },
-        approvedBy: { select: { id: true, name: true, login: true } },
-      },
+    const updated = await db.$transaction(async (tx) => {
+      const lead = await tx.vipWhatsappLead.update({
+        where: { id: existing.id },
+        data,
+        include: {
+          employee: { select: { id: true, name: true, login: true } },
+          approvedBy: { select: { id: true, name: true, login: true } },
+        },
+      });
+
+      if (status === "APPROVED" && existing.status !== "APPROVED") {
+        await emitDomainEvent(tx, {
+          team,
+          type: "vip_lead.approved",
+          aggregateType: "VipWhatsappLead",
+          aggregateId: lead.id,
+          actorId: sess.id,
+          payload: {
+            fullName: lead.fullName,
+            employeeId: lead.employee.id,
+            employeeName: lead.employee.name,
+            approvedAt: lead.approvedAt?.toISOString() ?? null,
+          },
+        });
+      }
+
+      return lead;
     });
 
     return NextResponse.json({
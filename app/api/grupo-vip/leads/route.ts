@@ -1,13 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
-import { requireSession } from "@/lib/auth-server";
-import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 export async function GET(req: NextRequest) {
+  const { session: sess, db, denied } = await requirePermission("vip.read");
+  if (denied) return denied;
+
   try {
-    const sess = await requireSession();
     const team = String(sess.team || "");
     if (!team) return NextResponse.json({ ok: false, error: "Não autenticado." }, { status: 401 });
 
@@ -39,7 +40,7 @@ export async function GET(req: NextRequest) {
       ];
     }
 
-    const leads = await prisma.vipWhatsappLead.findMany({
+    const leads = await db.vipWhatsappLead.findMany({
       where,
       orderBy: { createdAt: "desc" },
       include: {
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import { requireSession } from "@/lib/auth-server";
 import { prisma } from "@/lib/prisma";
 import { digitsOnly, generateVipCode } from "@/lib/vip-whatsapp";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -40,18 +40,20 @@ async function createLinkWithUniqueCode(params: {
 }
 
 export async function GET() {
+  const { session: sess, db, denied } = await requirePermission("vip.read");
+  if (denied) return denied;
+
   try {
-    const sess = await requireSession();
     const team = String(sess.team || "");
     if (!team) return NextResponse.json({ ok: false, error: "Não autenticado." }, { status: 401 });
 
     const [employees, links] = await Promise.all([
-      prisma.user.findMany({
+      db.user.findMany({
         where: { team },
         select: { id: true, name: true, login: true, role: true },
         orderBy: { name: "asc" },
       }),
-      prisma.vipWhatsappLink.findMany({
+      db.vipWhatsappLink.findMany({
         where: { team },
         select: {
           id: true,
@@ -95,8 +97,10 @@ export async function GET() {
 }
 
 export async function POST(req: NextRequest) {
+  const { session: sess, db, denied } = await requirePermission("vip.write");
+  if (denied) return denied;
+
   try {
-    const sess = await requireSession();
     const team = String(sess.team || "");
     if (!team) return NextResponse.json({ ok: false, error: "Não autenticado." }, { status: 401 });
 
@@ -115,7 +119,7 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const employee = await prisma.user.findFirst({
+    const employee = await db.user.findFirst({
       where: { id: employeeId, team },
       select: { id: true },
     });
@@ -123,13 +127,13 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ ok: false, error: "Funcionário não encontrado no seu time." }, { status: 404 });
     }
 
-    const existing = await prisma.vipWhatsappLink.findFirst({
+    const existing = await db.vipWhatsappLink.findFirst({
       where: { team, employeeId },
       select: { id: true },
     });
 
     const link = existing
-      ? await prisma.vipWhatsappLink.update({
+      ? await db.vipWhatsappLink.update({
           where: { id: existing.id },
           data: { whatsappE164, isActive },
         })
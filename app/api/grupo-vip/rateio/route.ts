@@ -1,6 +1,4 @@
 import { NextRequest, NextResponse } from "next/server";
-import { requireSession } from "@/lib/auth-server";
-import { prisma } from "@/lib/prisma";
 import {
   clampInt,
   normalizeEmployeeShares,
@@ -10,6 +8,7 @@ import {
   resolveMonthRef,
   toRateioSetting,
 } from "@/lib/vip-rateio";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -55,8 +54,10 @@ function parseEmployeeShares(input: unknown) {
 }
 
 export async function GET(req: NextRequest) {
+  const { session: sess, db, denied } = await requirePermission("vip.read");
+  if (denied) return denied;
+
   try {
-    const sess = await requireSession();
     const team = String(sess.team || "");
     if (!team) {
       return NextResponse.json(
@@ -68,7 +69,7 @@ export async function GET(req: NextRequest) {
     const month = resolveMonthRef(new URL(req.url).searchParams.get("month"));
 
     const [settingRow, employees, sharesRows] = await Promise.all([
-      prisma.vipWhatsappRateioSetting.upsert({
+      db.vipWhatsappRateioSetting.upsert({
         where: { team },
         create: { team },
         update: {},
@@ -80,12 +81,12 @@ export async function GET(req: NextRequest) {
           updatedAt: true,
         },
       }),
-      prisma.user.findMany({
+      db.user.findMany({
         where: { team },
         select: { id: true, name: true, login: true },
         orderBy: { name: "asc" },
       }),
-      prisma.vipWhatsappRateioShare.findMany({
+      db.vipWhatsappRateioShare.findMany({
         where: { team },
         select: { employeeId: true, shareBps: true },
       }),
@@ -141,8 +142,10 @@ export async function GET(req: NextRequest) {
 }
 
 export async function POST(req: NextRequest) {
+  const { session: sess, db, denied } = await requirePermission("vip.write");
+  if (denied) return denied;
+
   try {
-    const sess = await requireSession();
     const team = String(sess.team || "");
     if (!team) {
       return NextResponse.json(
@@ -152,7 +155,7 @@ export async function POST(req: NextRequest) {
     }
 
     const [current, employees] = await Promise.all([
-      prisma.vipWhatsappRateioSetting.upsert({
+      db.vipWhatsappRateioSetting.upsert({
         where: { team },
         create: { team },
         update: {},
@@ -163,7 +166,7 @@ export async function POST(req: NextRequest) {
           payoutDaysCsv: true,
         },
       }),
-      prisma.user.findMany({
+      db.user.findMany({
         where: { team },
         select: { id: true, name: true, login: true },
       }),
@@ -216,7 +219,7 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const updated = await prisma.$transaction(async (tx) => {
+    const updated = await db.$transaction(async (tx) => {
       const setting = await tx.vipWhatsappRateioSetting.upsert({
         where: { team },
         create: {
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { getSessionServer } from "@/lib/auth-server";
 import { LoyaltyProgram } from "@prisma/client";
+import { requirePermission } from "@/lib/require-permission";
+import { getEmissionUsageByCedente, turboCpfUsage } from "@/lib/emissions";
+import { getClubRule, projectClub } from "@/lib/club-rules";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -14,30 +15,6 @@ const LIMIT_POINTS = 100_000;
 function startUTC(d: Date) {
   return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
 }
-function addDaysUTC(base: Date, days: number) {
-  const d = startUTC(base);
-  d.setUTCDate(d.getUTCDate() + days);
-  return d;
-}
-function daysInMonthUTC(year: number, month0: number) {
-  return new Date(Date.UTC(year, month0 + 1, 0)).getUTCDate();
-}
-function nextMonthOnDayUTC(base: Date, day: number) {
-  const y0 = base.getUTCFullYear();
-  const m0 = base.getUTCMonth();
-
-  let y = y0;
-  let m = m0 + 1;
-  if (m > 11) {
-    m = 0;
-    y += 1;
-  }
-
-  const last = daysInMonthUTC(y, m);
-  const dd = Math.min(Math.max(1, day), last);
-
-  return new Date(Date.UTC(y, m, dd));
-}
 function monthKeyUTC(d: Date) {
   const y = d.getUTCFullYear();
   const m = String(d.getUTCMonth() + 1).padStart(2, "0");
@@ -76,50 +53,6 @@ function isBetweenUTC(d: Date, start: Date, end: Date) {
   return t >= startUTC(start).getTime() && t <= startUTC(end).getTime();
 }
 
-// ✅ últimos 365 dias (UTC) por DIA (inclui hoje)
-function boundsLast365UTC() {
-  const now = new Date();
-
-  const end = new Date(
-    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), 23, 59, 59, 999)
-  );
-
-  // hoje (1) + 364 dias anteriores = 365 dias
-  const start = new Date(end);
-  start.setUTCDate(start.getUTCDate() - 364);
-  start.setUTCHours(0, 0, 0, 0);
-
-  return { start, end };
-}
-
-// ======================
-// Regras LATAM (mesmas da sua automação)
-// ======================
-const LATAM_CANCEL_AFTER_INACTIVE_DAYS = 10;
-
-function computeLatamAutoDates(input: {
-  subscribedAt: Date;
-  renewalDay: number;
-  lastRenewedAt: Date | null;
-}) {
-  const renewalDay = clampInt(Number(input.renewalDay) || 1, 1, 31);
-  const base = input.lastRenewedAt ?? input.subscribedAt;
-
-  // sempre mês seguinte
-  const nextRenewalAt = nextMonthOnDayUTC(base, renewalDay);
-
-  // inativa no dia seguinte
-  const inactiveAt = addDaysUTC(nextRenewalAt, 1);
-
-  // ✅ até quando fica ativo (dia anterior a ficar inativo)
-  const activeUntil = addDaysUTC(inactiveAt, -1);
-
-  // cancela após 10 dias inativo
-  const cancelAt = addDaysUTC(inactiveAt, LATAM_CANCEL_AFTER_INACTIVE_DAYS);
-
-  return { nextRenewalAt, inactiveAt, activeUntil, cancelAt };
-}
-
 type TurboStatus = "PENDING" | "TRANSFERRED" | "SKIPPED";
 type ClubStatus = "ACTIVE" | "PAUSED" | "CANCELED";
 
@@ -140,7 +73,7 @@ type Row = {
     nextRenewalAt: string;
     inactiveAt: string;
     activeUntil: string; // ✅ até quando fica ativo
-    cancelAt: string;
+    cancelAt: string | null; // null = regra do time não cancela
 
     inactiveInMonth: boolean; // ✅ fica inativo no mês
     cancelInMonth: boolean; // ✅ cancela no mês
@@ -169,8 +102,9 @@ type Row = {
 };
 
 export async function GET(req: NextRequest) {
-  const session = await getSessionServer();
-  if (!session) return bad("Não autenticado", 401);
+  const { session, db, denied } = await requirePermission("analytics.read");
+  if (denied) return denied;
+
 
   const { searchParams } = new URL(req.url);
 
@@ -186,7 +120,7 @@ export async function GET(req: NextRequest) {
   if (!monthStart || !monthEnd) return bad("monthKey inválido (use YYYY-MM)");
 
   // 1) cedentes do time
-  const cedentes = await prisma.cedente.findMany({
+  const cedentes = await db.cedente.findMany({
     where: {
       owner: { team: session.team },
       ...(q
@@ -206,7 +140,7 @@ export async function GET(req: NextRequest) {
   const cedenteIds = cedentes.map((c) => c.id);
 
   // 2) pegar LATAM club mais recente por cedente (e aplicar downgrade on-demand)
-  const clubs = await prisma.clubSubscription.findMany({
+  const clubs = await db.clubSubscription.findMany({
     where: {
       team: session.team,
       program: "LATAM",
@@ -231,35 +165,21 @@ export async function GET(req: NextRequest) {
     if (!latestClubByCedente.has(c.cedenteId)) latestClubByCedente.set(c.cedenteId, c);
   }
 
-  // automação leve (LATAM) só no "latest"
+  // automação leve (LATAM) só no "latest" — regra do time (lib/club-rules.ts)
+  const latamClubRule = await getClubRule(db, LoyaltyProgram.LATAM);
   const updates: Promise<any>[] = [];
-  const today = startUTC(new Date());
 
   for (const c of latestClubByCedente.values()) {
     const tierK = clampInt(Number(c.tierK) || 10, 1, 20);
     const renewalDay = clampInt(Number(c.renewalDay) || 1, 1, 31);
 
-    const auto = computeLatamAutoDates({
-      subscribedAt: c.subscribedAt,
-      renewalDay,
-      lastRenewedAt: c.lastRenewedAt,
-    });
+    const auto = projectClub(latamClubRule, { ...c, renewalDay });
 
     // pointsExpireAt (cancelAt)
     const curPE = c.pointsExpireAt ? startUTC(c.pointsExpireAt).getTime() : null;
-    const nxtPE = startUTC(auto.cancelAt).getTime();
-
-    let desiredStatus = c.status as ClubStatus;
-
-    if (desiredStatus !== "CANCELED") {
-      if (today.getTime() >= nxtPE) desiredStatus = "CANCELED";
-      else if (
-        today.getTime() >= startUTC(auto.inactiveAt).getTime() &&
-        desiredStatus === "ACTIVE"
-      ) {
-        desiredStatus = "PAUSED";
-      }
-    }
+    const nxtPE = auto.pointsExpireAt?.getTime() ?? null;
+
+    const desiredStatus = auto.status;
 
     const data: any = {};
     let dirty = false;
@@ -273,7 +193,7 @@ export async function GET(req: NextRequest) {
       dirty = true;
     }
     if (curPE !== nxtPE) {
-      data.pointsExpireAt = auto.cancelAt;
+      data.pointsExpireAt = auto.pointsExpireAt;
       dirty = true;
     }
     if (c.status !== desiredStatus) {
@@ -282,7 +202,7 @@ export async function GET(req: NextRequest) {
     }
 
     if (dirty) {
-      updates.push(prisma.clubSubscription.update({ where: { id: c.id }, data }));
+      updates.push(db.clubSubscription.update({ where: { id: c.id }, data }));
       Object.assign(c, data);
     }
   }
@@ -290,7 +210,7 @@ export async function GET(req: NextRequest) {
   if (updates.length) await Promise.allSettled(updates);
 
   // 3) marcações Turbo do mês
-  const monthMarks = await prisma.latamTurboMonth.findMany({
+  const monthMarks = await db.latamTurboMonth.findMany({
     where: { team: session.team, monthKey },
     select: { id: true, cedenteId: true, status: true, points: true, notes: true, updatedAt: true },
   });
@@ -299,7 +219,7 @@ export async function GET(req: NextRequest) {
   for (const m of monthMarks) markByCedente.set(m.cedenteId, m);
 
   // 4) dados de CPFs (LatamTurboAccount)
-  const accounts = await prisma.latamTurboAccount.findMany({
+  const accounts = await db.latamTurboAccount.findMany({
     where: { team: session.team, ...(cedenteIds.length ? { cedenteId: { in: cedenteIds } } : {}) },
     select: { cedenteId: true, cpfLimit: true, cpfUsed: true },
   });
@@ -307,54 +227,37 @@ export async function GET(req: NextRequest) {
   const accByCedente = new Map<string, { cpfLimit: number; cpfUsed: number }>();
   for (const a of accounts) accByCedente.set(a.cedenteId, { cpfLimit: a.cpfLimit, cpfUsed: a.cpfUsed });
 
-  // ✅ 4b) CPFs usados (calculado) = soma passengersCount nos últimos 365 dias (UTC)
-  const { start: yStart, end: yEnd } = boundsLast365UTC();
-
-  const usedAgg = await prisma.emissionEvent.groupBy({
-    by: ["cedenteId"],
-    where: {
-      program: LoyaltyProgram.LATAM, // se for string, troque por "LATAM"
-      issuedAt: { gte: yStart, lte: yEnd },
-      ...(cedenteIds.length ? { cedenteId: { in: cedenteIds } } : {}),
-    },
-    _sum: { passengersCount: true },
+  // ✅ 4b) CPFs usados (calculado) = regra LATAM do time (lib/emissions.ts)
+  const { rule: latamRule, usedByCedente: usedCalcByCedente } = await getEmissionUsageByCedente(db, {
+    program: LoyaltyProgram.LATAM,
+    at: new Date(),
+    cedenteIds,
   });
 
-  const usedCalcByCedente = new Map<string, number>(
-    usedAgg.map((x) => [x.cedenteId, Number(x._sum.passengersCount || 0)])
-  );
-
   // 5) montar rows + buckets
   const rows: Row[] = cedentes.map((ced) => {
     const club = latestClubByCedente.get(ced.id) || null;
 
-    const acc = accByCedente.get(ced.id) || { cpfLimit: 25, cpfUsed: 0 };
-    const cpfLimit = clampInt(safeInt(acc.cpfLimit, 25), 0, 999);
-
-    const usedCalc = clampInt(safeInt(usedCalcByCedente.get(ced.id) ?? 0, 0), 0, 999);
-    const usedManual = clampInt(safeInt(acc.cpfUsed, 0), 0, 999);
-
     // ✅ efetivo: usado = max(calculado, manual)
-    const cpfUsed = Math.max(usedCalc, usedManual);
-    const cpfFree = Math.max(0, cpfLimit - cpfUsed);
+    const { cpfLimit, cpfUsed, cpfFree } = turboCpfUsage(
+      latamRule,
+      accByCedente.get(ced.id),
+      usedCalcByCedente.get(ced.id) ?? 0
+    );
 
     let auto: Row["auto"] = null;
 
-    if (club) {
-      const a = computeLatamAutoDates({
-        subscribedAt: club.subscribedAt,
-        renewalDay: clampInt(Number(club.renewalDay) || 1, 1, 31),
-        lastRenewedAt: club.lastRenewedAt,
-      });
+    const a = club ? projectClub(latamClubRule, club) : null;
 
+    if (a?.nextRenewalAt && a.inactiveAt && a.activeUntil) {
       const inactiveInMonth = isBetweenUTC(a.inactiveAt, monthStart, monthEnd);
-      const cancelInMonth = isBetweenUTC(a.cancelAt, monthStart, monthEnd);
+      const cancelInMonth = Boolean(a.cancelAt && isBetweenUTC(a.cancelAt, monthStart, monthEnd));
 
       auto = {
         nextRenewalAt: a.nextRenewalAt.toISOString(),
         inactiveAt: a.inactiveAt.toISOString(),
         activeUntil: a.activeUntil.toISOString(),
-        cancelAt: a.cancelAt.toISOString(),
+        cancelAt: a.cancelAt ? a.cancelAt.toISOString() : null,
         inactiveInMonth,
         cancelInMonth,
       };
@@ -416,8 +319,8 @@ export async function GET(req: NextRequest) {
   const cancelThisMonth = filteredRows
     .filter((r) => r.buckets.isCancelBucket)
     .sort((a, b) => {
-      const ta = a.auto ? startUTC(new Date(a.auto.cancelAt)).getTime() : 0;
-      const tb = b.auto ? startUTC(new Date(b.auto.cancelAt)).getTime() : 0;
+      const ta = a.auto?.cancelAt ? startUTC(new Date(a.auto.cancelAt)).getTime() : 0;
+      const tb = b.auto?.cancelAt ? startUTC(new Date(b.auto.cancelAt)).getTime() : 0;
       return ta - tb || a.cedente.nomeCompleto.localeCompare(b.cedente.nomeCompleto);
     });
 
@@ -458,8 +361,9 @@ export async function GET(req: NextRequest) {
 }
 
 export async function POST(req: NextRequest) {
-  const session = await getSessionServer();
-  if (!session) return bad("Não autenticado", 401);
+  const { session, db, denied } = await requirePermission("cedentes.write");
+  if (denied) return denied;
+
 
   const body = await req.json().catch(() => null);
   if (!body) return bad("JSON inválido");
@@ -485,13 +389,13 @@ export async function POST(req: NextRequest) {
       : null;
 
   // garante que cedente é do time
-  const ced = await prisma.cedente.findFirst({
+  const ced = await db.cedente.findFirst({
     where: { id: cedenteId, owner: { team: session.team } },
     select: { id: true },
   });
   if (!ced) return bad("Cedente não encontrado (ou fora do seu time)", 404);
 
-  const item = await prisma.latamTurboMonth.upsert({
+  const item = await db.latamTurboMonth.upsert({
     where: {
       team_monthKey_cedenteId: { team: session.team, monthKey, cedenteId },
     },
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { deleteMilheiroRate, MilheiroRateError } from "@/lib/milheiro-rates";
+import { requirePermission } from "@/lib/require-permission";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+/** DELETE: remove um lançamento do histórico (o espelho de Settings é recalculado) */
+export async function DELETE(_req: Request, { params }: Ctx) {
+  const { session, db, denied } = await requirePermission("financeiro.write");
+  if (denied) return denied;
+
+  const { id } = await params;
+
+  try {
+    const current = await deleteMilheiroRate(db, session.team, id);
+    return NextResponse.json({ ok: true, data: { current } });
+  } catch (e) {
+    if (e instanceof MilheiroRateError) return NextResponse.json({ ok: false, error: e.message }, { status: 409 });
+    throw e;
+  }
+}
@@ -0,0 +1,94 @@
+import type { LoyaltyProgram } from "@prisma/client";
+import { NextResponse } from "next/server";
+import {
+  MILHEIRO_PROGRAM_LABEL,
+  MilheiroRateError,
+  milheiroSeries,
+  RATE_PROGRAMS,
+  rateDateFromISO,
+  rateDateToday,
+  recordMilheiroRates,
+} from "@/lib/milheiro-rates";
+import { requirePermission } from "@/lib/require-permission";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function isProgram(v: string): v is LoyaltyProgram {
+  return (RATE_PROGRAMS as string[]).includes(v);
+}
+
+/**
+ * GET ?from=YYYY-MM-DD&to=YYYY-MM-DD&programs=LATAM,SMILES
+ * Série do milheiro (venda e compra) por programa. Padrão: últimos 12 meses, todos os programas.
+ */
+export async function GET(req: Request) {
+  const { db, denied } = await requirePermission("financeiro.read");
+  if (denied) return denied;
+
+  const url = new URL(req.url);
+  const today = rateDateToday();
+  const to = rateDateFromISO(url.searchParams.get("to") || "") ?? today;
+  const defaultFrom = new Date(to);
+  defaultFrom.setUTCFullYear(defaultFrom.getUTCFullYear() - 1);
+  const from = rateDateFromISO(url.searchParams.get("from") || "") ?? defaultFrom;
+  if (from > to) {
+    return NextResponse.json({ ok: false, error: "Período inválido (de > até)." }, { status: 400 });
+  }
+
+  const programs = String(url.searchParams.get("programs") || "")
+    .split(",")
+    .map((p) => p.trim().toUpperCase())
+    .filter(isProgram);
+
+  // fim do dia "to" (lançamentos com vigência no próprio dia entram)
+  const toEnd = new Date(to.getTime() + 24 * 3600_000 - 1);
+  const series = await milheiroSeries(db, { from, to: toEnd, programs });
+
+  return NextResponse.json({
+    ok: true,
+    data: { from: from.toISOString(), to: to.toISOString(), series, labels: MILHEIRO_PROGRAM_LABEL },
+  });
+}
+
+/**
+ * POST { program, date: "YYYY-MM-DD", sellRateCents, buyRateCents?, note? }
+ * Lança o preço vigente a partir da data (mesmo dia = substitui).
+ */
+export async function POST(req: Request) {
+  const { session, db, denied } = await requirePermission("financeiro.write");
+  if (denied) return denied;
+
+  const body = await req.json().catch(() => ({}));
+
+  try {
+    const program = String(body?.program || "").trim().toUpperCase();
+    if (!isProgram(program)) throw new MilheiroRateError("Programa inválido.");
+
+    const effectiveFrom = rateDateFromISO(String(body?.date || ""));
+    if (!effectiveFrom) throw new MilheiroRateError("Data inválida (YYYY-MM-DD).");
+    if (effectiveFrom > rateDateToday()) throw new MilheiroRateError("Data no futuro: lance o preço no dia.");
+
+    // sem a chave: herda a compra vigente; vazio/null: sem preço de compra
+    const rawBuy = body?.buyRateCents;
+    const buyRateCents = rawBuy === undefined ? undefined : rawBuy === null || rawBuy === "" ? null : Number(rawBuy);
+
+    const data = await recordMilheiroRates(db, {
+      team: session.team,
+      actorId: session.id,
+      effectiveFrom,
+      rates: [
+        {
+          program,
+          sellRateCents: Number(body?.sellRateCents),
+          buyRateCents,
+        },
+      ],
+      note: String(body?.note || "").trim().slice(0, 300) || null,
+    });
+    return NextResponse.json({ ok: true, data }, { status: 201 });
+  } catch (e) {
+    if (e instanceof MilheiroRateError) return NextResponse.json({ ok: false, error: e.message }, { status: 400 });
+    throw e;
+  }
+}
@@ -1,7 +1,18 @@
 import { NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { requireSession } from "@/lib/auth-server";
+import { buildTaxRule } from "@/lib/balcao-commission";
+import { applyClawbacks, pendingClawbacks } from "@/lib/cancelamentos";
+import { assertMonthsOpen, ClosedPeriodError } from "@/lib/contabil";
+import {
+  commissionBonusCents,
+  commissionC1Cents,
+  loadPlanResolver,
+  payoutTaxPercent,
+  saleCommissionBase,
+  type PlanRules,
+} from "@/lib/payouts/commissionPlans";
 import { dayBounds, todayISORecife } from "@/lib/payouts/employeePayouts";
+import { can, ROLES } from "@/lib/permissions";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -22,51 +33,32 @@ function taxByPercent(cents: number, percent: number) {
   return Math.round(Math.max(0, safeInt(cents, 0)) * (percent / 100));
 }
 
-function pointsValueCentsFallback(points: number, milheiroCents: number) {
-  const denom = (safeInt(points, 0) || 0) / 1000;
-  if (denom <= 0) return 0;
-  return Math.round(denom * safeInt(milheiroCents, 0));
-}
-
-function commission1Fallback(pointsValueCents: number) {
-  return Math.round(Math.max(0, safeInt(pointsValueCents, 0)) * 0.01);
-}
-
-function bonusFallback(args: { points: number; milheiroCents: number; metaMilheiroCents: number }) {
-  const points = safeInt(args.points, 0);
-  const mil = safeInt(args.milheiroCents, 0);
-  const meta = safeInt(args.metaMilheiroCents, 0);
-  if (!points || !mil || !meta) return 0;
-
-  const diff = mil - meta;
-  if (diff <= 0) return 0;
-
-  const denom = points / 1000;
-  const diffTotal = Math.round(denom * diff);
-  return Math.round(diffTotal * 0.3);
-}
-
 /* =========================
-  ✅ PV SEM TAXA
-  - pointsValueCents (se vier)
-  - total - embarqueFee
-  - fallback pontos * milheiro
+  ✅ C1/C2 pelo plano de comissão do vendedor (lib/payouts/commissionPlans)
+  - PV SEM TAXA: pointsValueCents > total − taxa > pontos × milheiro
+  - bônus sobre o milheiro sem taxa
 ========================= */
-function pvSemTaxaFromSale(s: {
-  totalCents: number;
-  embarqueFeeCents: number;
-  pointsValueCents: number;
-  points: number;
-  milheiroCents: number;
-}) {
-  const pvDb = safeInt(s.pointsValueCents, 0);
-  if (pvDb > 0) return pvDb;
-
-  const total = safeInt(s.totalCents, 0);
-  const fee = safeInt(s.embarqueFeeCents, 0);
-  if (total > 0) return Math.max(total - fee, 0);
-
-  return pointsValueCentsFallback(safeInt(s.points, 0), safeInt(s.milheiroCents, 0));
+function saleC1C2(
+  rules: PlanRules,
+  s: {
+    totalCents: number;
+    embarqueFeeCents: number;
+    pointsValueCents: number;
+    points: number;
+    milheiroCents: number;
+  },
+  metaMilheiroCents: number
+) {
+  const base = saleCommissionBase(s);
+  return {
+    pvSemTaxa: base.pvNoFeeCents,
+    c1: commissionC1Cents(rules, base.pvNoFeeCents),
+    c2: commissionBonusCents(rules, {
+      points: safeInt(s.points, 0),
+      milheiroCents: base.milheiroNoFeeCents,
+      metaMilheiroCents,
+    }),
+  };
 }
 
 /* =========================
@@ -281,12 +273,13 @@ type Basis = "PURCHASE_FINALIZED" | "SALE_DATE";
     - sempre por compras finalizadas no dia
 ========================= */
 export async function POST(req: Request) {
+  const { session: sess, db, denied } = await requirePermission("payouts.read");
+  if (denied) return denied;
+
   try {
-    const sess = await requireSession();
     const team = String((sess as any)?.team || "");
     const meId = String((sess as any)?.id || "");
-    const role = String((sess as any)?.role || "");
-    const isAdmin = role === "admin";
+    const canForce = can(sess.role, "payouts.write");
 
     if (!team || !meId) return NextResponse.json({ ok: false, error: "Não autenticado" }, { status: 401 });
 
@@ -297,9 +290,9 @@ export async function POST(req: Request) {
     const basis: Basis = basisRaw === "PURCHASE_FINALIZED" ? "PURCHASE_FINALIZED" : "SALE_DATE";
 
     const force = Boolean(body?.force);
-    if (force && !isAdmin) {
+    if (force && !canForce) {
       return NextResponse.json(
-        { ok: false, error: "Somente admin pode forçar o recálculo." },
+        { ok: false, error: "Sem permissão para forçar o recálculo." },
         { status: 403 }
       );
     }
@@ -313,32 +306,36 @@ export async function POST(req: Request) {
       return NextResponse.json({ ok: false, error: "Não computa datas futuras." }, { status: 400 });
     }
 
-    const settings = await prisma.settings.upsert({
-      where: { key: "default" },
-      create: { key: "default" },
+    // ✅ mês fechado na contabilidade: pagamentos congelados no fechamento
+    try {
+      await assertMonthsOpen(db, [date.slice(0, 7)]);
+    } catch (e) {
+      if (e instanceof ClosedPeriodError) return NextResponse.json({ ok: false, error: e.message }, { status: 409 });
+      throw e;
+    }
+
+    const settings = await db.settings.upsert({
+      where: { team_key: { team: team, key: "default" } },
+      create: { team: team, key: "default" },
       update: {},
       select: { taxPercent: true, taxEffectiveFrom: true },
     });
 
-    const effectiveISO = settings.taxEffectiveFrom
-      ? settings.taxEffectiveFrom.toISOString().slice(0, 10)
-      : null;
-    const defaultPercent = 8;
-    const configuredPercent = Number.isFinite(settings.taxPercent)
-      ? Math.max(0, Math.min(100, Number(settings.taxPercent)))
-      : defaultPercent;
-    const taxPercent = effectiveISO && date >= effectiveISO ? configuredPercent : defaultPercent;
+    const taxRule = buildTaxRule(settings);
 
     const { start, end } = dayBounds(date);
 
+    // ✅ plano de comissão vigente por funcionário (C1/C2/imposto)
+    const resolvePlan = await loadPlanResolver(db);
+
     // ✅ força: apaga tudo que NÃO foi pago e reconstrói
     if (force) {
-      await prisma.employeePayout.deleteMany({ where: { team, date, paidById: null } });
+      await db.employeePayout.deleteMany({ where: { team, date, paidById: null } });
     }
 
     // ✅ membros do time (para feeCardLabel -> userId)
-    const membersRaw = await prisma.user.findMany({
-      where: { team, role: { in: ["admin", "staff"] } },
+    const membersRaw = await db.user.findMany({
+      where: { team, role: { in: [...ROLES] } },
       select: { id: true, name: true, login: true },
     });
     const members: TeamMemberLite[] = membersRaw.map((u) => ({
@@ -348,14 +345,14 @@ export async function POST(req: Request) {
     }));
 
     // 1) preserva payouts já pagos
-    const existingPayouts = await prisma.employeePayout.findMany({
+    const existingPayouts = await db.employeePayout.findMany({
       where: { team, date },
       select: { userId: true, paidById: true },
     });
     const existingByUserId = new Map(existingPayouts.map((p) => [p.userId, p]));
 
     // 2) compras FINALIZADAS no dia (pra C3) — garante CLOSED
-    const purchasesFinalized = await prisma.purchase.findMany({
+    const purchasesFinalized = await db.purchase.findMany({
       where: {
         status: "CLOSED",
         finalizedAt: { gte: start, lt: end },
@@ -402,7 +399,7 @@ export async function POST(req: Request) {
 
     const salesForFinalizedPurchases =
       purchaseIdsFinalized.length > 0
-        ? await prisma.sale.findMany({
+        ? await db.sale.findMany({
             where: {
               AND: [
                 {
@@ -425,6 +422,7 @@ export async function POST(req: Request) {
               totalCents: true,
               embarqueFeeCents: true,
               feeCardLabel: true,
+              feeCardId: true,
 
               commissionCents: true,
               bonusCents: true,
@@ -452,6 +450,7 @@ export async function POST(req: Request) {
         metaMilheiroCents: number;
         purchaseMetaMilheiroCents: number;
         sellerId: string | null;
+        createdAt: Date;
       }>
     > = {};
 
@@ -475,6 +474,7 @@ export async function POST(req: Request) {
         metaMilheiroCents: safeInt(s.metaMilheiroCents, 0),
         purchaseMetaMilheiroCents: purchaseMeta,
         sellerId: s.sellerId ?? null,
+        createdAt: s.createdAt,
       });
     }
 
@@ -502,23 +502,12 @@ export async function POST(req: Request) {
       let bonusSum = 0;
 
       for (const s of ss) {
-        const pvSemTaxa = pvSemTaxaFromSale({
-          totalCents: s.totalCents,
-          embarqueFeeCents: s.embarqueFeeCents,
-          pointsValueCents: s.pointsValueCents,
-          points: s.points,
-          milheiroCents: s.milheiroCents,
-        });
-        pvSemTaxaSum += pvSemTaxa;
-
-        if (s.bonusCents !== null) {
-          bonusSum += safeInt(s.bonusCents, 0);
-        } else {
-          const meta = chooseMetaMilheiro(
-            safeInt(s.metaMilheiroCents, 0) > 0 ? s.metaMilheiroCents : s.purchaseMetaMilheiroCents
-          );
-          bonusSum += bonusFallback({ points: s.points, milheiroCents: s.milheiroCents, metaMilheiroCents: meta });
-        }
+        const meta = chooseMetaMilheiro(
+          safeInt(s.metaMilheiroCents, 0) > 0 ? s.metaMilheiroCents : s.purchaseMetaMilheiroCents
+        );
+        const calc = saleC1C2(resolvePlan(s.sellerId, s.createdAt).rules, s, meta);
+        pvSemTaxaSum += calc.pvSemTaxa;
+        bonusSum += s.bonusCents !== null ? safeInt(s.bonusCents, 0) : calc.c2;
       }
 
       const bruto = pvSemTaxaSum - cost;
@@ -528,7 +517,7 @@ export async function POST(req: Request) {
     // 4) ProfitShare dos owners envolvidos (C3)
     const ownerIds = Array.from(new Set(purchasesFinalized.map((p) => p.cedente.ownerId).filter(Boolean)));
 
-    const shares = await prisma.profitShare.findMany({
+    const shares = await db.profitShare.findMany({
       where: {
         team,
         ownerId: { in: ownerIds.length ? ownerIds : ["__none__"] },
@@ -565,12 +554,14 @@ export async function POST(req: Request) {
       totalCents: number;
       embarqueFeeCents: number;
       feeCardLabel: string | null;
+      feeCardId: string | null;
       commissionCents: number;
       bonusCents: number | null;
       pointsValueCents: number;
       metaMilheiroCents: number;
       sellerId: string | null;
       purchaseMetaMilheiroCents: number;
+      createdAt: Date;
     };
 
     let salesForCommission: SaleForCommission[] = [];
@@ -591,17 +582,19 @@ export async function POST(req: Request) {
           totalCents: safeInt(s.totalCents, 0),
           embarqueFeeCents: safeInt(s.embarqueFeeCents, 0),
           feeCardLabel: s.feeCardLabel ?? null,
+          feeCardId: s.feeCardId ?? null,
           commissionCents: safeInt(s.commissionCents, 0),
           bonusCents: typeof s.bonusCents === "number" ? safeInt(s.bonusCents, 0) : null,
           pointsValueCents: safeInt(s.pointsValueCents, 0),
           metaMilheiroCents: safeInt(s.metaMilheiroCents, 0),
           sellerId: s.sellerId ?? null,
           purchaseMetaMilheiroCents: purchaseMeta,
+          createdAt: s.createdAt,
         };
       });
     } else {
       // SALE_DATE: vendas criadas no dia + filtra por team via purchase id/numero
-      const salesTodayRaw = await prisma.sale.findMany({
+      const salesTodayRaw = await db.sale.findMany({
         where: {
           createdAt: { gte: start, lt: end },
           paymentStatus: { not: "CANCELED" },
@@ -616,6 +609,7 @@ export async function POST(req: Request) {
           totalCents: true,
           embarqueFeeCents: true,
           feeCardLabel: true,
+          feeCardId: true,
 
           commissionCents: true,
           bonusCents: true,
@@ -634,7 +628,7 @@ export async function POST(req: Request) {
       const maybeIds = rawPurchaseIds.filter((x) => x.length >= 20); // heurística ok
       const numerosAll = makeNumeroVariants(rawPurchaseIds);
 
-      const purchasesRef = await prisma.purchase.findMany({
+      const purchasesRef = await db.purchase.findMany({
         where: {
           cedente: { owner: { team } },
           OR: [
@@ -667,6 +661,7 @@ export async function POST(req: Request) {
           totalCents: safeInt(s.totalCents, 0),
           embarqueFeeCents: safeInt(s.embarqueFeeCents, 0),
           feeCardLabel: s.feeCardLabel ?? null,
+          feeCardId: s.feeCardId ?? null,
 
           commissionCents: safeInt(s.commissionCents, 0),
           bonusCents: typeof s.bonusCents === "number" ? safeInt(s.bonusCents, 0) : null,
@@ -675,6 +670,7 @@ export async function POST(req: Request) {
           metaMilheiroCents: safeInt(s.metaMilheiroCents, 0),
           sellerId: s.sellerId ?? null,
           purchaseMetaMilheiroCents: safeInt(p.metaMilheiroCents, 0),
+          createdAt: s.createdAt,
         });
       }
     }
@@ -683,25 +679,15 @@ export async function POST(req: Request) {
     for (const s of salesForCommission) {
       const sellerId = s.sellerId;
 
-      // C1/C2 só se tiver seller
+      // C1/C2 só se tiver seller (gravado na venda > plano vigente na criação dela)
       if (sellerId) {
-        const pvSemTaxa = pvSemTaxaFromSale({
-          totalCents: s.totalCents,
-          embarqueFeeCents: s.embarqueFeeCents,
-          pointsValueCents: s.pointsValueCents,
-          points: s.points,
-          milheiroCents: s.milheiroCents,
-        });
-
         const meta = chooseMetaMilheiro(
           safeInt(s.metaMilheiroCents, 0) > 0 ? s.metaMilheiroCents : s.purchaseMetaMilheiroCents
         );
+        const calc = saleC1C2(resolvePlan(sellerId, s.createdAt).rules, s, meta);
 
-        const c1 = safeInt(s.commissionCents, 0) > 0 ? safeInt(s.commissionCents, 0) : commission1Fallback(pvSemTaxa);
-        const c2 =
-          safeInt(s.bonusCents ?? 0, 0) > 0
-            ? safeInt(s.bonusCents ?? 0, 0)
-            : bonusFallback({ points: s.points, milheiroCents: s.milheiroCents, metaMilheiroCents: meta });
+        const c1 = safeInt(s.commissionCents, 0) > 0 ? safeInt(s.commissionCents, 0) : calc.c1;
+        const c2 = safeInt(s.bonusCents ?? 0, 0) > 0 ? safeInt(s.bonusCents ?? 0, 0) : calc.c2;
 
         const aSeller = ensure(sellerId);
         aSeller.commission1Cents += safeInt(c1, 0);
@@ -710,8 +696,9 @@ export async function POST(req: Request) {
       }
 
       // ✅ Fee: vai pra pessoa do cartão (ou fallback seller)
+      // venda com cartão cadastrado: reembolso sai pela fatura do cartão (/dashboard/cartoes)
       const fee = safeInt(s.embarqueFeeCents, 0);
-      if (fee > 0) {
+      if (fee > 0 && !s.feeCardId) {
         const { ignore, userId } = resolveFeePayerFromLabel(s.feeCardLabel, members);
         if (!ignore) {
           const receiverId = userId || sellerId;
@@ -750,7 +737,7 @@ export async function POST(req: Request) {
 
     if (!computedUserIds.length) {
       // sem nada pra computar: limpa não pagos e sai
-      await prisma.employeePayout.deleteMany({ where: { team, date, paidById: null } });
+      await db.employeePayout.deleteMany({ where: { team, date, paidById: null } });
       return NextResponse.json({
         ok: true,
         date,
@@ -764,7 +751,7 @@ export async function POST(req: Request) {
     }
 
     // 8) remove payouts "lixo" não pagos (mantém consistência)
-    await prisma.employeePayout.deleteMany({
+    await db.employeePayout.deleteMany({
       where: {
         team,
         date,
@@ -773,6 +760,14 @@ export async function POST(req: Request) {
       },
     });
 
+    // ✅ estornos de comissão (venda cancelada depois do dia pago) entram no próximo pagamento
+    const clawbacks = await pendingClawbacks(db, {
+      team,
+      date,
+      dayEnd: end,
+      userIds: computedUserIds.filter((u) => !existingByUserId.get(u)?.paidById),
+    });
+
     // 9) upsert preservando pagos
     for (const userId of computedUserIds) {
       const agg = byUser[userId];
@@ -783,12 +778,29 @@ export async function POST(req: Request) {
       const c2 = safeInt(agg.commission2Cents, 0);
       const c3 = safeInt(agg.commission3RateioCents, 0);
 
+      // ✅ imposto pela base do plano do funcionário (time / fixo / nenhum)
+      const plan = resolvePlan(userId, start);
+      const taxPercent = payoutTaxPercent(plan.rules, date, taxRule);
+
       const gross = c1 + c2 + c3;
       const tax = taxByPercent(gross, taxPercent);
       const fee = safeInt(agg.feeCents, 0);
-      const net = gross - tax + fee;
+      const clawback = clawbacks.get(userId);
+      const clawbackCents = clawback?.amountCents ?? 0;
+      const net = gross - tax + fee - clawbackCents;
+      const breakdown = {
+        commission1Cents: c1,
+        commission2Cents: c2,
+        commission3RateioCents: c3,
+        salesCount: safeInt(agg.salesCount, 0),
+        taxPercent,
+        basis,
+        clawbackCents,
+        planId: plan.id,
+        planVersion: plan.version,
+      };
 
-      await prisma.employeePayout.upsert({
+      const payout = await db.employeePayout.upsert({
         where: { team_date_userId: { team, date, userId } },
         create: {
           team,
@@ -798,30 +810,19 @@ export async function POST(req: Request) {
           tax7Cents: tax, // legado
           feeCents: fee,
           netPayCents: net,
-          breakdown: {
-            commission1Cents: c1,
-            commission2Cents: c2,
-            commission3RateioCents: c3,
-            salesCount: safeInt(agg.salesCount, 0),
-            taxPercent,
-            basis,
-          },
+          breakdown,
         },
         update: {
           grossProfitCents: gross,
           tax7Cents: tax,
           feeCents: fee,
           netPayCents: net,
-          breakdown: {
-            commission1Cents: c1,
-            commission2Cents: c2,
-            commission3RateioCents: c3,
-            salesCount: safeInt(agg.salesCount, 0),
-            taxPercent,
-            basis,
-          },
+          breakdown,
         },
+        select: { id: true },
       });
+
+      if (clawback) await applyClawbacks(db, { ids: clawback.ids, payoutId: payout.id, date });
     }
 
     return NextResponse.json({
@@ -1,6 +1,4 @@
 import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
-import { prisma } from "@/lib/prisma";
 import {
   BALCAO_TAX_DEFAULT_PERCENT,
   BalcaoTaxRule,
@@ -8,49 +6,16 @@ import {
   buildTaxRule,
   recifeDateISO,
   resolveTaxPercent,
-  sellerCommissionCentsFromNet,
   taxFromProfitCents,
   netProfitAfterTaxCents,
 } from "@/lib/balcao-commission";
+import { balcaoCommissionCents, loadPlanResolver } from "@/lib/payouts/commissionPlans";
+import { ROLES } from "@/lib/permissions";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-type Sess = {
-  id: string;
-  login: string;
-  team: string;
-  role: "admin" | "staff";
-  name?: string;
-};
-
-/* =========================
-   Session (tm.session)
-========================= */
-function b64urlDecode(input: string) {
-  const pad = input.length % 4 === 0 ? "" : "=".repeat(4 - (input.length % 4));
-  const base64 = (input + pad).replace(/-/g, "+").replace(/_/g, "/");
-  return Buffer.from(base64, "base64").toString("utf8");
-}
-
-function readSessionCookie(raw?: string): Sess | null {
-  if (!raw) return null;
-  try {
-    const parsed = JSON.parse(b64urlDecode(raw)) as Partial<Sess>;
-    if (!parsed?.id || !parsed?.login || !parsed?.team || !parsed?.role) return null;
-    if (parsed.role !== "admin" && parsed.role !== "staff") return null;
-    return parsed as Sess;
-  } catch {
-    return null;
-  }
-}
-
-async function getServerSession(): Promise<Sess | null> {
-  const store = await cookies(); // ✅ Next 16: cookies() é Promise
-  const raw = store.get("tm.session")?.value;
-  return readSessionCookie(raw);
-}
-
 /* =========================
    Utils
 ========================= */
@@ -113,16 +78,6 @@ function pointsValueCentsFallback(points: number, milheiroCents: number) {
   return Math.round(denom * (milheiroCents ?? 0));
 }
 
-function commission1Fallback(pointsValueCents: number) {
-  return Math.round((pointsValueCents ?? 0) * 0.01);
-}
-
-/** 8% só em cima do positivo (se negativo, não “vira crédito”) */
-function tax8OnPositive(cents: number) {
-  const base = Math.max(0, safeInt(cents, 0));
-  return Math.round(base * 0.08);
-}
-
 function milheiroFrom(points: number, pointsValueCents: number) {
   const pts = safeInt(points, 0);
   const cents = safeInt(pointsValueCents, 0);
@@ -130,19 +85,6 @@ function milheiroFrom(points: number, pointsValueCents: number) {
   return Math.round((cents * 1000) / pts);
 }
 
-function bonus30(points: number, milheiroCents: number, metaMilheiroCents: number) {
-  const pts = safeInt(points, 0);
-  const mil = safeInt(milheiroCents, 0);
-  const meta = safeInt(metaMilheiroCents, 0);
-  if (!pts || !mil || !meta) return 0;
-
-  const diff = mil - meta;
-  if (diff <= 0) return 0;
-
-  const excedenteCents = Math.round((pts * diff) / 1000);
-  return Math.round(excedenteCents * 0.3);
-}
-
 type RateioItem = { payeeId: string; bps: number };
 function splitByBps(totalCents: number, items: RateioItem[]) {
   const total = safeInt(totalCents, 0);
@@ -165,12 +107,10 @@ function splitByBps(totalCents: number, items: RateioItem[]) {
    - Só lê do banco e devolve TODOS os funcionários
 ========================= */
 export async function GET(req: Request) {
-  try {
-    const session = await getServerSession();
-    if (!session?.id || !session?.team) {
-      return NextResponse.json({ ok: false, error: "Não autenticado" }, { status: 401 });
-    }
+  const { session, db, denied } = await requirePermission("payouts.read");
+  if (denied) return denied;
 
+  try {
     const url = new URL(req.url);
     const date = String(url.searchParams.get("date") || "").trim();
 
@@ -181,9 +121,9 @@ export async function GET(req: Request) {
       );
     }
 
-    const settings = await prisma.settings.upsert({
-      where: { key: "default" },
-      create: { key: "default" },
+    const settings = await db.settings.upsert({
+      where: { team_key: { team: session.team, key: "default" } },
+      create: { team: session.team, key: "default" },
       update: {},
       select: { taxPercent: true, taxEffectiveFrom: true },
     });
@@ -203,14 +143,14 @@ export async function GET(req: Request) {
     dayBoundsUTC(date);
 
     // 1) todos usuários do time
-    const users = await prisma.user.findMany({
-      where: { team: session.team, role: { in: ["admin", "staff"] } },
+    const users = await db.user.findMany({
+      where: { team: session.team, role: { in: [...ROLES] } },
       select: { id: true, name: true, login: true },
       orderBy: [{ name: "asc" }],
     });
 
     // 2) lê payouts do dia (com joins)
-    const payouts = await prisma.employeePayout.findMany({
+    const payouts = await db.employeePayout.findMany({
       where: { team: session.team, date },
       include: {
         user: { select: { id: true, name: true, login: true } },
@@ -221,7 +161,7 @@ export async function GET(req: Request) {
     const byUserId = new Map(payouts.map((p) => [p.userId, p]));
 
     const { start: balcaoStart, end: balcaoEnd } = dayBoundsRecife(date);
-    const balcaoOps = await prisma.balcaoOperacao.findMany({
+    const balcaoOps = await db.balcaoOperacao.findMany({
       where: {
         team: session.team,
         createdAt: { gte: balcaoStart, lt: balcaoEnd },
@@ -236,6 +176,7 @@ export async function GET(req: Request) {
       },
     });
 
+    const resolvePlan = await loadPlanResolver(db);
     const balcaoCommissionByUser = new Map<string, number>();
     for (const op of balcaoOps) {
       const employeeId = String(op.employeeId || "").trim();
@@ -249,7 +190,7 @@ export async function GET(req: Request) {
       });
       const opTaxCents = taxFromProfitCents(opProfitCents, opTaxPercent);
       const opNetCents = netProfitAfterTaxCents(opProfitCents, opTaxCents);
-      const opCommissionCents = sellerCommissionCentsFromNet(opNetCents);
+      const opCommissionCents = balcaoCommissionCents(resolvePlan(employeeId, op.createdAt).rules, opNetCents);
 
       balcaoCommissionByUser.set(
         employeeId,
@@ -334,7 +275,7 @@ export async function GET(req: Request) {
 
     // ✅ alerta de atraso: pendências há mais de 48h
     const todayRecife = todayISORecife();
-    const pendingRows = await prisma.employeePayout.findMany({
+    const pendingRows = await db.employeePayout.findMany({
       where: {
         team: session.team,
         paidAt: null,
@@ -1,7 +1,6 @@
 // app/api/payouts/funcionarios/details/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { requireSession } from "@/lib/auth-server";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -80,7 +79,9 @@ function isoDayUTC(d: Date) {
 }
 
 export async function GET(req: NextRequest) {
-  const session = await requireSession();
+  const { session, db, denied } = await requirePermission("payouts.read");
+  if (denied) return denied;
+
   const url = new URL(req.url);
 
   const date = String(url.searchParams.get("date") || "").trim(); // sempre obrigatório (pra UX do front)
@@ -97,7 +98,7 @@ export async function GET(req: NextRequest) {
   const monthKey = scopeMonth ? month.slice(0, 7) : monthFromISODate(date);
 
   // ✅ carrega payouts do banco (fonte de verdade)
-  const payouts = await prisma.employeePayout.findMany({
+  const payouts = await db.employeePayout.findMany({
     where: {
       team: session.team,
       userId,
@@ -182,7 +183,7 @@ export async function GET(req: NextRequest) {
     return bad(e?.message || "Parâmetro inválido");
   }
 
-  const sales = await prisma.sale.findMany({
+  const sales = await db.sale.findMany({
     where: {
       sellerId: userId,
       date: { gte: start, lt: end },
@@ -1,15 +1,14 @@
 import { NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { requireSession } from "@/lib/auth-server";
 import {
   balcaoProfitSemTaxaCents,
   buildTaxRule,
   netProfitAfterTaxCents,
   recifeDateISO,
   resolveTaxPercent,
-  sellerCommissionCentsFromNet,
   taxFromProfitCents,
 } from "@/lib/balcao-commission";
+import { balcaoCommissionCents, loadPlanResolver } from "@/lib/payouts/commissionPlans";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -47,18 +46,16 @@ function nextMonthStart(month: string) {
 }
 
 export async function GET(req: Request) {
+  const { session: sess, db, denied } = await requirePermission("payouts.write");
+  if (denied) return denied;
+
   try {
-    const sess = await requireSession();
     const team = String((sess as { team?: unknown })?.team || "");
     const meId = String((sess as { id?: unknown })?.id || "");
-    const role = String((sess as { role?: unknown })?.role || "");
 
     if (!team || !meId) {
       return NextResponse.json({ ok: false, error: "Não autenticado" }, { status: 401 });
     }
-    if (role !== "admin") {
-      return NextResponse.json({ ok: false, error: "Sem permissão." }, { status: 403 });
-    }
 
     const { searchParams } = new URL(req.url);
     const monthParam = String(searchParams.get("month") || "").trim();
@@ -68,12 +65,12 @@ export async function GET(req: Request) {
     const endDate = nextMonthStart(month);
 
     const [users, payouts, settings] = await Promise.all([
-      prisma.user.findMany({
+      db.user.findMany({
         where: { team },
         select: { id: true, name: true, login: true, role: true },
         orderBy: { name: "asc" },
       }),
-      prisma.employeePayout.findMany({
+      db.employeePayout.findMany({
         where: {
           team,
           date: { gte: startDate, lt: endDate },
@@ -88,9 +85,9 @@ export async function GET(req: Request) {
           breakdown: true,
         },
       }),
-      prisma.settings.upsert({
-        where: { key: "default" },
-        create: { key: "default" },
+      db.settings.upsert({
+        where: { team_key: { team: team, key: "default" } },
+        create: { team: team, key: "default" },
         update: {},
         select: { taxPercent: true, taxEffectiveFrom: true },
       }),
@@ -101,7 +98,7 @@ export async function GET(req: Request) {
     const balcaoStart = new Date(`${month}-01T00:00:00-03:00`);
     const balcaoEnd = new Date(`${endDate}T00:00:00-03:00`);
 
-    const balcaoOps = await prisma.balcaoOperacao.findMany({
+    const balcaoOps = await db.balcaoOperacao.findMany({
       where: {
         team,
         employeeId: { not: null },
@@ -189,6 +186,7 @@ export async function GET(req: Request) {
       a.netWithFee += netWithFee;
     }
 
+    const resolvePlan = await loadPlanResolver(db);
     for (const op of balcaoOps) {
       const userId = String(op.employeeId || "").trim();
       if (!userId) continue;
@@ -206,7 +204,7 @@ export async function GET(req: Request) {
       );
       const opTax = safeInt(taxFromProfitCents(opGross, taxPercent), 0);
       const opNetNoFee = safeInt(netProfitAfterTaxCents(opGross, opTax), 0);
-      const opCommission = safeInt(sellerCommissionCentsFromNet(opNetNoFee), 0);
+      const opCommission = safeInt(balcaoCommissionCents(resolvePlan(userId, op.createdAt).rules, opNetNoFee), 0);
 
       a.balcaoOps += 1;
       a.balcaoGross += opGross;
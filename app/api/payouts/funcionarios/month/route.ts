@@ -1,23 +1,24 @@
 import { NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { requireSession } from "@/lib/auth-server";
 import {
   BalcaoTaxRule,
   balcaoProfitSemTaxaCents,
   buildTaxRule,
   recifeDateISO,
   resolveTaxPercent,
-  sellerCommissionCentsFromNet,
   taxFromProfitCents,
   netProfitAfterTaxCents,
 } from "@/lib/balcao-commission";
+import { balcaoCommissionCents, loadPlanResolver } from "@/lib/payouts/commissionPlans";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 export async function GET(req: Request) {
+  const { session: sess, db, denied } = await requirePermission("payouts.read");
+  if (denied) return denied;
+
   try {
-    const sess = await requireSession();
     const team = String((sess as { team?: unknown })?.team || "");
     const meId = String((sess as { id?: unknown })?.id || "");
 
@@ -41,9 +42,9 @@ export async function GET(req: Request) {
       return NextResponse.json({ ok: false, error: "month inválido. Use YYYY-MM" }, { status: 400 });
     }
 
-    const settings = await prisma.settings.upsert({
-      where: { key: "default" },
-      create: { key: "default" },
+    const settings = await db.settings.upsert({
+      where: { team_key: { team: team, key: "default" } },
+      create: { team: team, key: "default" },
       update: {},
       select: { taxPercent: true, taxEffectiveFrom: true },
     });
@@ -53,7 +54,7 @@ export async function GET(req: Request) {
     const endRecife = new Date(`${m}-01T00:00:00-03:00`);
     endRecife.setMonth(endRecife.getMonth() + 1);
 
-    const balcaoOps = await prisma.balcaoOperacao.findMany({
+    const balcaoOps = await db.balcaoOperacao.findMany({
       where: {
         team,
         employeeId: userId,
@@ -67,6 +68,7 @@ export async function GET(req: Request) {
       },
     });
 
+    const resolvePlan = await loadPlanResolver(db);
     const balcaoByDate = new Map<string, number>();
     for (const op of balcaoOps) {
       const dateISO = recifeDateISO(op.createdAt);
@@ -78,11 +80,11 @@ export async function GET(req: Request) {
       });
       const taxCents = taxFromProfitCents(profitCents, percent);
       const netCents = netProfitAfterTaxCents(profitCents, taxCents);
-      const commissionCents = sellerCommissionCentsFromNet(netCents);
+      const commissionCents = balcaoCommissionCents(resolvePlan(userId, op.createdAt).rules, netCents);
       balcaoByDate.set(dateISO, (balcaoByDate.get(dateISO) || 0) + commissionCents);
     }
 
-    const dbDays = await prisma.employeePayout.findMany({
+    const dbDays = await db.employeePayout.findMany({
       where: { team, userId, date: { startsWith: `${m}-` } },
       orderBy: { date: "desc" },
       include: {
@@ -1,7 +1,7 @@
 import { NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { requireSession } from "@/lib/auth-server";
 import { todayISORecife } from "@/lib/payouts/employeePayouts";
+import { requirePermission } from "@/lib/require-permission";
+import { emitDomainEvent } from "@/lib/outbox";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -11,21 +11,17 @@ function isISODate(v: string) {
 }
 
 export async function POST(req: Request) {
+  const { session: sess, db, denied } = await requirePermission("payouts.write");
+  if (denied) return denied;
+
   try {
-    const sess = await requireSession();
     const team = String((sess as any)?.team || "");
     const meId = String((sess as any)?.id || "");
-    const role = String((sess as any)?.role || "");
 
     if (!team || !meId) {
       return NextResponse.json({ ok: false, error: "Não autenticado" }, { status: 401 });
     }
 
-    // ✅ sugiro travar pagamento só pra admin
-    if (role !== "admin") {
-      return NextResponse.json({ ok: false, error: "Sem permissão para pagar." }, { status: 403 });
-    }
-
     const body = await req.json().catch(() => ({}));
     const date = String(body?.date || "").slice(0, 10);
     const userId = String(body?.userId || "");
@@ -45,19 +41,41 @@ export async function POST(req: Request) {
       );
     }
 
-    // 1) tenta pagar de forma atômica (evita corrida)
-    const res = await prisma.employeePayout.updateMany({
-      where: { team, date, userId, paidById: null },
-      data: { paidById: meId, paidAt: new Date() },
-    });
+    const { res, row } = await db.$transaction(async (tx) => {
+      // 1) tenta pagar de forma atômica (evita corrida)
+      const res = await tx.employeePayout.updateMany({
+        where: { team, date, userId, paidById: null },
+        data: { paidById: meId, paidAt: new Date() },
+      });
+
+      // 2) lê a linha final (paga ou já paga)
+      const row = await tx.employeePayout.findFirst({
+        where: { team, date, userId },
+        include: {
+          user: { select: { id: true, name: true, login: true } },
+          paidBy: { select: { id: true, name: true } },
+        },
+      });
+
+      // ✅ evento só quando ESTA chamada pagou
+      if (row && res.count === 1) {
+        await emitDomainEvent(tx, {
+          team,
+          type: "payout.paid",
+          aggregateType: "EmployeePayout",
+          aggregateId: row.id,
+          actorId: meId,
+          payload: {
+            date,
+            userId,
+            userName: row.user.name,
+            netPayCents: row.netPayCents,
+            paidAt: row.paidAt?.toISOString() ?? null,
+          },
+        });
+      }
 
-    // 2) lê a linha final (paga ou já paga)
-    const row = await prisma.employeePayout.findFirst({
-      where: { team, date, userId },
-      include: {
-        user: { select: { id: true, name: true, login: true } },
-        paidBy: { select: { id: true, name: true } },
-      },
+      return { res, row };
     });
 
     if (!row) {
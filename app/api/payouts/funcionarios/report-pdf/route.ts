@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { Prisma } from "@prisma/client";
-import { prisma } from "@/lib/prisma";
-import { requireSession } from "@/lib/auth-server";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -772,8 +771,10 @@ function renderReportToPages(input: {
 }
 
 export async function GET(req: NextRequest) {
+  const { session, db, denied } = await requirePermission("payouts.read");
+  if (denied) return denied;
+
   try {
-    const session = await requireSession();
     const team = String(session?.team || "").trim();
 
     if (!team) {
@@ -795,7 +796,7 @@ export async function GET(req: NextRequest) {
       );
     }
 
-    const user = await prisma.user.findFirst({
+    const user = await db.user.findFirst({
       where: { id: userId, team },
       select: { id: true, name: true, login: true },
     });
@@ -807,7 +808,7 @@ export async function GET(req: NextRequest) {
       );
     }
 
-    const payouts = await prisma.employeePayout.findMany({
+    const payouts = await db.employeePayout.findMany({
       where: {
         team,
         userId,
@@ -1,6 +1,6 @@
 import { NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { requireSession } from "@/lib/auth-server";
+import { can, ROLES } from "@/lib/permissions";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -23,11 +23,12 @@ type Breakdown = {
 };
 
 export async function GET(req: Request) {
+  const { session: sess, db, denied } = await requirePermission("payouts.read");
+  if (denied) return denied;
+
   try {
-    const sess = await requireSession();
     const team = String((sess as any)?.team || "");
     const meId = String((sess as any)?.id || "");
-    const role = String((sess as any)?.role || ""); // "admin" | "staff"
 
     if (!team || !meId) {
       return NextResponse.json({ ok: false, error: "Não autenticado" }, { status: 401 });
@@ -49,21 +50,21 @@ export async function GET(req: Request) {
       return NextResponse.json({ ok: false, error: "month inválido. Use YYYY-MM" }, { status: 400 });
     }
 
-    // ✅ permissão: staff só pode ver a si mesmo
-    if (role !== "admin" && userId !== meId) {
+    // ✅ permissão: quem não gerencia pagamentos só vê a si mesmo
+    if (!can(sess.role, "payouts.write") && userId !== meId) {
       return NextResponse.json({ ok: false, error: "Sem permissão." }, { status: 403 });
     }
 
     // (opcional, mas bom) garante que o userId existe no time
-    const user = await prisma.user.findFirst({
-      where: { id: userId, team, role: { in: ["admin", "staff"] } },
+    const user = await db.user.findFirst({
+      where: { id: userId, team, role: { in: [...ROLES] } },
       select: { id: true, name: true, login: true },
     });
     if (!user) {
       return NextResponse.json({ ok: false, error: "Usuário não encontrado no time." }, { status: 404 });
     }
 
-    const days = await prisma.employeePayout.findMany({
+    const days = await db.employeePayout.findMany({
       where: { team, userId, date: { startsWith: `${month}-` } },
       orderBy: { date: "desc" },
       include: {
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { CommissionPlanError, deletePlanVersion } from "@/lib/payouts/commissionPlans";
+import { requirePermission } from "@/lib/require-permission";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+/** DELETE: remove uma versão ainda não vigente */
+export async function DELETE(_req: Request, { params }: Ctx) {
+  const { db, denied } = await requirePermission("payouts.write");
+  if (denied) return denied;
+
+  const { id } = await params;
+
+  try {
+    await deletePlanVersion(db, id);
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    if (e instanceof CommissionPlanError) return NextResponse.json({ ok: false, error: e.message }, { status: 409 });
+    throw e;
+  }
+}
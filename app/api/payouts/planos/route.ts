@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { ClosedPeriodError } from "@/lib/contabil";
+import {
+  CommissionPlanError,
+  createPlanVersion,
+  DEFAULT_PLAN_RULES,
+  listPlans,
+  parsePlanRules,
+  planDateFromISO,
+  TAX_BASIS_LABEL,
+} from "@/lib/payouts/commissionPlans";
+import { ROLES } from "@/lib/permissions";
+import { requirePermission } from "@/lib/require-permission";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** GET: versões dos planos (time e por funcionário) + funcionários + regras padrão */
+export async function GET() {
+  const { db, denied } = await requirePermission("payouts.read");
+  if (denied) return denied;
+
+  const [plans, users] = await Promise.all([
+    listPlans(db),
+    db.user.findMany({
+      where: { role: { in: [...ROLES] } },
+      orderBy: { name: "asc" },
+      select: { id: true, name: true, login: true },
+    }),
+  ]);
+
+  return NextResponse.json({
+    ok: true,
+    data: { plans, users, defaults: DEFAULT_PLAN_RULES, taxBasisLabel: TAX_BASIS_LABEL },
+  });
+}
+
+/**
+ * POST { userId?, name, effectiveFrom: "YYYY-MM-DD", c1Tiers, bonusCurve, balcaoBps, taxBasis, taxPercent?, note? }
+ * Cria uma versão nova (userId vazio = plano do time).
+ */
+export async function POST(req: Request) {
+  const { session, db, denied } = await requirePermission("payouts.write");
+  if (denied) return denied;
+
+  const body = await req.json().catch(() => ({}));
+
+  try {
+    const effectiveFrom = planDateFromISO(String(body?.effectiveFrom || ""));
+    if (!effectiveFrom) throw new CommissionPlanError("Vigência inválida (YYYY-MM-DD).");
+
+    const data = await createPlanVersion(db, {
+      team: session.team,
+      actorId: session.id,
+      userId: String(body?.userId || "").trim() || null,
+      name: String(body?.name || ""),
+      effectiveFrom,
+      rules: parsePlanRules(body),
+      note: String(body?.note || "").trim().slice(0, 500) || null,
+    });
+    return NextResponse.json({ ok: true, data }, { status: 201 });
+  } catch (e) {
+    if (e instanceof CommissionPlanError) return NextResponse.json({ ok: false, error: e.message }, { status: 400 });
+    if (e instanceof ClosedPeriodError) return NextResponse.json({ ok: false, error: e.message }, { status: 409 });
+    throw e;
+  }
+}
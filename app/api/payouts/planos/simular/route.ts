@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { buildTaxRule } from "@/lib/balcao-commission";
+import { CommissionPlanError, parsePlanRules, simulatePlanChange } from "@/lib/payouts/commissionPlans";
+import { requirePermission } from "@/lib/require-permission";
+import { recifeDateISO } from "@/lib/taxes";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function previousMonth(now = new Date()) {
+  const [y, m] = recifeDateISO(now).split("-").map(Number);
+  return m === 1 ? `${y - 1}-12` : `${y}-${String(m - 1).padStart(2, "0")}`;
+}
+
+/**
+ * POST { month?: "YYYY-MM", userId?, ...regras }
+ * Prévia: quanto cada funcionário teria recebido no mês (padrão: mês passado)
+ * com o plano proposto, comparado ao plano vigente. Não grava nada.
+ */
+export async function POST(req: Request) {
+  const { session, db, denied } = await requirePermission("payouts.read");
+  if (denied) return denied;
+
+  const body = await req.json().catch(() => ({}));
+  const month = String(body?.month || "").trim() || previousMonth();
+  if (!/^\d{4}-\d{2}$/.test(month)) {
+    return NextResponse.json({ ok: false, error: "month inválido. Use YYYY-MM" }, { status: 400 });
+  }
+
+  try {
+    const settings = await db.settings.upsert({
+      where: { team_key: { team: session.team, key: "default" } },
+      create: { team: session.team, key: "default" },
+      update: {},
+      select: { taxPercent: true, taxEffectiveFrom: true },
+    });
+
+    const data = await simulatePlanChange(db, {
+      month,
+      userId: String(body?.userId || "").trim() || null,
+      rules: parsePlanRules(body),
+      taxRule: buildTaxRule(settings),
+    });
+    return NextResponse.json({ ok: true, data });
+  } catch (e) {
+    if (e instanceof CommissionPlanError) return NextResponse.json({ ok: false, error: e.message }, { status: 400 });
+    throw e;
+  }
+}
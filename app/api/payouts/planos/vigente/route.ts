@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { resolvePlanFor } from "@/lib/payouts/commissionPlans";
+import { requirePermission } from "@/lib/require-permission";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** GET ?userId= (padrão: quem está logado) → plano de comissão vigente hoje (prévias de venda/balcão) */
+export async function GET(req: Request) {
+  const { session, db, denied } = await requirePermission("payouts.read");
+  if (denied) return denied;
+
+  const userId = new URL(req.url).searchParams.get("userId")?.trim() || session.id;
+  const data = await resolvePlanFor(db, userId, new Date());
+  return NextResponse.json({ ok: true, data });
+}
@@ -1,6 +1,5 @@
 import { NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { requireSession } from "@/lib/auth-server";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -37,8 +36,10 @@ function addDaysISO(iso: string, days: number) {
 }
 
 export async function GET(req: Request) {
+  const { session: sess, db, denied } = await requirePermission("payouts.read");
+  if (denied) return denied;
+
   try {
-    const sess = await requireSession();
     const team = String((sess as any)?.team || "");
     const meId = String((sess as any)?.id || "");
     if (!team || !meId) return bad("Não autenticado", 401);
@@ -63,7 +64,7 @@ export async function GET(req: Request) {
       if (!endExclusive) return bad("month inválido");
     }
 
-    const agg = await prisma.employeePayout.aggregate({
+    const agg = await db.employeePayout.aggregate({
       where: { team, date: { gte: startDate, lt: endExclusive } },
       _sum: { grossProfitCents: true },
     });
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { readProtocolAttachment, removeProtocolAttachment } from "@/lib/protocolos";
+import { requirePermission } from "@/lib/require-permission";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ id: string; anexoId: string }> };
+
+/** GET → baixa o arquivo (inline para PDF/imagem abrir no navegador). */
+export async function GET(_req: Request, { params }: Ctx) {
+  const { db, denied } = await requirePermission("protocolos.read");
+  if (denied) return denied;
+
+  const { id, anexoId } = await params;
+
+  const row = await db.protocolAttachment.findFirst({
+    where: { id: anexoId, protocolId: id },
+    select: { fileName: true, contentType: true, storage: true, storageKey: true },
+  });
+  if (!row) return NextResponse.json({ ok: false, error: "Anexo não encontrado." }, { status: 404 });
+
+  const obj = await readProtocolAttachment(row).catch((e) => {
+    console.error("[protocolos] leitura de anexo falhou", e);
+    return null;
+  });
+  if (!obj) return NextResponse.json({ ok: false, error: "Arquivo indisponível no storage." }, { status: 404 });
+
+  return new NextResponse(new Uint8Array(obj.body), {
+    headers: {
+      "Content-Type": row.contentType || obj.contentType || "application/octet-stream",
+      "Content-Disposition": `inline; filename*=UTF-8''${encodeURIComponent(row.fileName)}`,
+      "Cache-Control": "private, no-store",
+      "X-Content-Type-Options": "nosniff",
+    },
+  });
+}
+
+export async function DELETE(_req: Request, { params }: Ctx) {
+  const { db, denied } = await requirePermission("protocolos.write");
+  if (denied) return denied;
+
+  const { id, anexoId } = await params;
+
+  const removed = await removeProtocolAttachment(db, { protocolId: id, attachmentId: anexoId });
+  if (!removed) return NextResponse.json({ ok: false, error: "Anexo não encontrado." }, { status: 404 });
+
+  return NextResponse.json({ ok: true });
+}
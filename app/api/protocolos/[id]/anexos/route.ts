@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { ProtocolError, saveProtocolAttachment } from "@/lib/protocolos";
+import { requirePermission } from "@/lib/require-permission";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+function bad(message: string, status = 400) {
+  return NextResponse.json({ ok: false, error: message }, { status });
+}
+
+/** POST (multipart, field "file": PDF ou imagem) → anexa ao protocolo. */
+export async function POST(req: Request, { params }: Ctx) {
+  const { session, db, denied } = await requirePermission("protocolos.write");
+  if (denied) return denied;
+
+  const { id } = await params;
+
+  const protocol = await db.protocol.findUnique({ where: { id }, select: { id: true } });
+  if (!protocol) return bad("Protocolo não encontrado.", 404);
+
+  const form = await req.formData().catch(() => null);
+  const file = form?.get("file");
+  if (!file || typeof file === "string") return bad('Arquivo é obrigatório (field: "file").');
+
+  try {
+    const row = await saveProtocolAttachment(db, {
+      team: session.team,
+      protocolId: protocol.id,
+      userId: session.id,
+      file,
+    });
+    return NextResponse.json({ ok: true, row }, { status: 201 });
+  } catch (e) {
+    if (e instanceof ProtocolError) return bad(e.message);
+    console.error("[protocolos] upload de anexo falhou", e);
+    return bad("Falha ao salvar o anexo.", 500);
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { escalateProtocol, ProtocolError } from "@/lib/protocolos";
+import { requirePermission } from "@/lib/require-permission";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+/** POST { note? } → abre o protocolo seguinte no próximo canal (SAC → Reclame Aqui → Consumidor.gov). */
+export async function POST(req: Request, { params }: Ctx) {
+  const { session, db, denied } = await requirePermission("protocolos.write");
+  if (denied) return denied;
+
+  const { id } = await params;
+  const body = await req.json().catch(() => ({}));
+
+  try {
+    const row = await db.$transaction((tx) =>
+      escalateProtocol(tx, {
+        team: session.team,
+        protocolId: id,
+        userId: session.id,
+        note: String(body?.note || "").trim() || null,
+      })
+    );
+    return NextResponse.json({ ok: true, row }, { status: 201 });
+  } catch (e) {
+    if (e instanceof ProtocolError) {
+      return NextResponse.json({ ok: false, error: e.message }, { status: 400 });
+    }
+    console.error("[protocolos] escalonar falhou", e);
+    return NextResponse.json({ ok: false, error: "Falha ao escalonar." }, { status: 500 });
+  }
+}
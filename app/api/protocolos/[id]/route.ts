@@ -1,6 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { requireSession } from "@/lib/auth-server";
+import type { Prisma, ProtocolChannel, ProtocolStatus } from "@prisma/client";
+import { requirePermission } from "@/lib/require-permission";
+import {
+  ATTACHMENT_SELECT,
+  isOverdue,
+  isProtocolStatus,
+  logProtocolStatus,
+  NEXT_CHANNEL,
+  parseChannel,
+  parseDateInput,
+  PROTOCOL_TRACKING_SELECT,
+  ProtocolError,
+  statusChangeData,
+} from "@/lib/protocolos";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -23,38 +35,68 @@ function bad(message: string, status = 400) {
   );
 }
 
-const STATUSES = new Set(["DRAFT", "SENT", "WAITING", "RESOLVED", "DENIED"]);
+const ROW_SELECT = {
+  id: true,
+  program: true,
+  status: true,
+  title: true,
+  complaint: true,
+  response: true,
+  cedenteId: true,
+  createdAt: true,
+  updatedAt: true,
+  ...PROTOCOL_TRACKING_SELECT,
+} satisfies Prisma.ProtocolSelect;
+
+// ✅ detalhe: log de status, anexos e a cadeia de escalonamento
+const DETAIL_SELECT = {
+  ...ROW_SELECT,
+  statusLogs: {
+    orderBy: { createdAt: "asc" },
+    select: {
+      id: true,
+      fromStatus: true,
+      toStatus: true,
+      note: true,
+      createdAt: true,
+      changedBy: { select: { id: true, name: true } },
+    },
+  },
+  attachments: { orderBy: { createdAt: "asc" }, select: ATTACHMENT_SELECT },
+  escalatedFrom: { select: { id: true, title: true, channel: true, externalNumber: true, status: true } },
+  escalations: { select: { id: true, title: true, channel: true, externalNumber: true, status: true } },
+} satisfies Prisma.ProtocolSelect;
+
+function withFlags<
+  T extends { status: ProtocolStatus; channel: ProtocolChannel | null; dueAt: Date | null; escalatedAt: Date | null },
+>(row: T) {
+  return { ...row, overdue: isOverdue(row), nextChannel: NEXT_CHANNEL[row.channel ?? "SAC"] };
+}
 
 type Ctx = { params: Promise<{ id: string }> };
 
 export async function GET(_req: NextRequest, { params }: Ctx) {
-  const session = await requireSession();
+  const { session, db, denied } = await requirePermission("protocolos.read");
+  if (denied) return denied;
+
   const { id } = await params;
 
   const protocolId = String(id || "");
   if (!protocolId) return bad("id inválido");
 
-  const row = await prisma.protocol.findFirst({
+  const row = await db.protocol.findFirst({
     where: { id: protocolId, team: session.team },
-    select: {
-      id: true,
-      program: true,
-      status: true,
-      title: true,
-      complaint: true,
-      response: true,
-      cedenteId: true,
-      createdAt: true,
-      updatedAt: true,
-    },
+    select: DETAIL_SELECT,
   });
 
   if (!row) return bad("Protocolo não encontrado", 404);
-  return NextResponse.json({ ok: true, row }, { headers: noCacheHeaders() });
+  return NextResponse.json({ ok: true, row: withFlags(row) }, { headers: noCacheHeaders() });
 }
 
 export async function PATCH(req: NextRequest, { params }: Ctx) {
-  const session = await requireSession();
+  const { session, db, denied } = await requirePermission("protocolos.write");
+  if (denied) return denied;
+
   const { id } = await params;
 
   const protocolId = String(id || "");
@@ -68,40 +110,68 @@ export async function PATCH(req: NextRequest, { params }: Ctx) {
   const complaint = body.complaint != null ? String(body.complaint) : undefined;
   const response = body.response != null ? String(body.response) : undefined;
 
-  let status: string | undefined = undefined;
-  if (body.status != null) {
-    const s = String(body.status).toUpperCase();
-    if (!STATUSES.has(s)) return bad("status inválido");
-    status = s;
-  }
+  const statusNote = String(body.statusNote || "").trim() || null;
+  const externalNumber =
+    body.externalNumber !== undefined ? String(body.externalNumber || "").trim().slice(0, 60) || null : undefined;
 
-  const exists = await prisma.protocol.findFirst({
+  const current = await db.protocol.findFirst({
     where: { id: protocolId, team: session.team },
-    select: { id: true },
-  });
-  if (!exists) return bad("Protocolo não encontrado", 404);
-
-  const row = await prisma.protocol.update({
-    where: { id: protocolId },
-    data: {
-      ...(title !== undefined ? { title } : {}),
-      ...(complaint !== undefined ? { complaint } : {}),
-      ...(response !== undefined ? { response } : {}),
-      ...(status !== undefined ? { status: status as any } : {}),
-      updatedById: session.id,
-    },
-    select: {
-      id: true,
-      program: true,
-      status: true,
-      title: true,
-      complaint: true,
-      response: true,
-      cedenteId: true,
-      createdAt: true,
-      updatedAt: true,
-    },
+    select: { id: true, status: true, channel: true, sentAt: true, dueAt: true },
   });
-
-  return NextResponse.json({ ok: true, row }, { headers: noCacheHeaders() });
+  if (!current) return bad("Protocolo não encontrado", 404);
+
+  try {
+    const channel = body.channel !== undefined ? parseChannel(body.channel) : undefined;
+    const dueAt = body.dueAt !== undefined ? parseDateInput(body.dueAt, "Prazo") : undefined;
+
+    let statusData: Prisma.ProtocolUncheckedUpdateInput | null = null;
+    if (body.status != null) {
+      const s = String(body.status).toUpperCase();
+      if (!isProtocolStatus(s)) return bad("status inválido");
+      // prazo/canal informados junto já valem para o envio
+      statusData = statusChangeData(
+        {
+          ...current,
+          channel: channel !== undefined ? channel : current.channel,
+          dueAt: dueAt !== undefined ? dueAt : current.dueAt,
+        },
+        s
+      );
+    }
+
+    const row = await db.$transaction(async (tx) => {
+      const updated = await tx.protocol.update({
+        where: { id: protocolId },
+        data: {
+          ...(title !== undefined ? { title } : {}),
+          ...(complaint !== undefined ? { complaint } : {}),
+          ...(response !== undefined ? { response } : {}),
+          ...(externalNumber !== undefined ? { externalNumber } : {}),
+          ...(channel !== undefined ? { channel } : {}),
+          ...(dueAt !== undefined ? { dueAt } : {}),
+          ...(statusData ?? {}),
+          updatedById: session.id,
+        },
+        select: ROW_SELECT,
+      });
+
+      if (statusData) {
+        await logProtocolStatus(tx, {
+          team: session.team,
+          protocolId,
+          from: current.status,
+          to: updated.status,
+          changedById: session.id,
+          note: statusNote,
+        });
+      }
+
+      return updated;
+    });
+
+    return NextResponse.json({ ok: true, row: withFlags(row) }, { headers: noCacheHeaders() });
+  } catch (e) {
+    if (e instanceof ProtocolError) return bad(e.message);
+    throw e;
+  }
 }
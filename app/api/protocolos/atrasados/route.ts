@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { CHANNEL_LABEL, loadOverdueProtocols } from "@/lib/protocolos";
+import { requirePermission } from "@/lib/require-permission";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET → protocolos com prazo vencido (SENT/WAITING, não escalonados) de todos os programas.
+ * Alimenta o aviso de "escalonar" nas telas protocolos/*.
+ */
+export async function GET() {
+  const { db, denied } = await requirePermission("protocolos.read");
+  if (denied) return denied;
+
+  const rows = await loadOverdueProtocols(db);
+
+  return NextResponse.json(
+    {
+      ok: true,
+      rows: rows.map((r) => ({
+        ...r,
+        channelLabel: CHANNEL_LABEL[r.channel ?? "SAC"],
+        nextChannelLabel: r.nextChannel ? CHANNEL_LABEL[r.nextChannel] : null,
+      })),
+    },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
@@ -1,7 +1,16 @@
 // app/api/protocolos/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { requireSession } from "@/lib/auth-server";
+import type { ProtocolChannel } from "@prisma/client";
+import { requirePermission } from "@/lib/require-permission";
+import {
+  defaultDueAt,
+  isOverdue,
+  logProtocolStatus,
+  parseChannel,
+  parseDateInput,
+  PROTOCOL_TRACKING_SELECT,
+  ProtocolError,
+} from "@/lib/protocolos";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -28,7 +37,9 @@ const STATUSES = new Set(["DRAFT", "SENT", "WAITING", "RESOLVED", "DENIED"]);
 const PROGRAMS = new Set(["LATAM", "SMILES", "LIVELO", "ESFERA"]);
 
 export async function GET(req: NextRequest) {
-  const session = await requireSession();
+  const { session, db, denied } = await requirePermission("protocolos.read");
+  if (denied) return denied;
+
   const url = new URL(req.url);
 
   const program = String(url.searchParams.get("program") || "").toUpperCase();
@@ -44,7 +55,7 @@ export async function GET(req: NextRequest) {
 
   // ✅ se vier cedenteId, garante que é do time (igual sua versão antiga)
   if (cedenteId) {
-    const ced = await prisma.cedente.findFirst({
+    const ced = await db.cedente.findFirst({
       where: { id: cedenteId, owner: { team: session.team } },
       select: { id: true },
     });
@@ -66,7 +77,7 @@ export async function GET(req: NextRequest) {
     where.status = s;
   }
 
-  const rows = await prisma.protocol.findMany({
+  const rows = await db.protocol.findMany({
     where,
     orderBy: { updatedAt: "desc" },
     take: 200,
@@ -80,6 +91,8 @@ export async function GET(req: NextRequest) {
       cedenteId: true,
       createdAt: true,
       updatedAt: true,
+      ...PROTOCOL_TRACKING_SELECT,
+      _count: { select: { attachments: true } },
 
       // ✅ pra lista “abertos do programa” (sem cedente selecionado)
       // (não atrapalha quando vier cedenteId)
@@ -89,11 +102,17 @@ export async function GET(req: NextRequest) {
     },
   });
 
-  return NextResponse.json({ ok: true, rows }, { headers: noCacheHeaders() });
+  const now = new Date();
+  return NextResponse.json(
+    { ok: true, rows: rows.map((r) => ({ ...r, overdue: isOverdue(r, now) })) },
+    { headers: noCacheHeaders() }
+  );
 }
 
 export async function POST(req: NextRequest) {
-  const session = await requireSession();
+  const { session, db, denied } = await requirePermission("protocolos.write");
+  if (denied) return denied;
+
   const body = await req.json().catch(() => null);
   if (!body) return bad("JSON inválido");
 
@@ -109,25 +128,57 @@ export async function POST(req: NextRequest) {
   const statusRaw = body.status != null ? String(body.status).toUpperCase() : "DRAFT";
   if (!STATUSES.has(statusRaw)) return bad("status inválido");
 
+  let channel: ProtocolChannel | null;
+  let dueAt: Date | null;
+  try {
+    channel = parseChannel(body.channel);
+    dueAt = parseDateInput(body.dueAt, "Prazo");
+  } catch (e) {
+    if (e instanceof ProtocolError) return bad(e.message);
+    throw e;
+  }
+  const externalNumber = String(body.externalNumber || "").trim().slice(0, 60) || null;
+
   // ✅ garante que o cedente é do time
-  const cedente = await prisma.cedente.findFirst({
+  const cedente = await db.cedente.findFirst({
     where: { id: cedenteId, owner: { team: session.team } },
     select: { id: true },
   });
   if (!cedente) return bad("Cedente não encontrado", 404);
 
-  const row = await prisma.protocol.create({
-    data: {
+  // ✅ já nasce enviado/fechado: marca as datas como numa transição
+  const now = new Date();
+  const sent = statusRaw !== "DRAFT";
+
+  const row = await db.$transaction(async (tx) => {
+    const created = await tx.protocol.create({
+      data: {
+        team: session.team,
+        program: program as any,
+        status: statusRaw as any,
+        title,
+        complaint,
+        cedenteId,
+        externalNumber,
+        channel,
+        sentAt: sent ? now : null,
+        dueAt: dueAt ?? (sent ? defaultDueAt(channel, now) : null),
+        closedAt: statusRaw === "RESOLVED" || statusRaw === "DENIED" ? now : null,
+        createdById: session.id,
+        updatedById: session.id,
+      },
+      select: { id: true, status: true },
+    });
+
+    await logProtocolStatus(tx, {
       team: session.team,
-      program: program as any,
-      status: statusRaw as any,
-      title,
-      complaint,
-      cedenteId,
-      createdById: session.id,
-      updatedById: session.id,
-    },
-    select: { id: true },
+      protocolId: created.id,
+      from: null,
+      to: created.status,
+      changedById: session.id,
+    });
+
+    return { id: created.id };
   });
 
   return NextResponse.json({ ok: true, row }, { headers: noCacheHeaders() });
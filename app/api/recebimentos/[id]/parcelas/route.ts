@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+import {
+  dueDateFromISO,
+  planFromInput,
+  ReceivableError,
+  setInstallmentPlan,
+  type PlanItem,
+} from "@/lib/recebiveis";
+import { recifeDateISO } from "@/lib/taxes";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+function bad(msg: string, status = 400) {
+  return NextResponse.json({ ok: false, error: msg }, { status });
+}
+
+/**
+ * POST: troca o plano de parcelas do recebível
+ * - { installments, firstDueDate?, intervalDays? } → parcelas iguais (mensais por padrão)
+ * - { plan: [{ dueDate: "YYYY-MM-DD", amountCents }] } → plano livre (soma = total)
+ * Recebimentos já lançados são realocados nas novas parcelas.
+ */
+export async function POST(req: Request, { params }: Ctx) {
+  const { session, db, denied } = await requirePermission("financeiro.write");
+  if (denied) return denied;
+
+  const { id } = await params;
+  const body = await req.json().catch(() => ({}));
+
+  try {
+    const data = await db.$transaction(async (tx) => {
+      const r = await tx.receivable.findUnique({ where: { id }, select: { totalCents: true } });
+      if (!r) throw new ReceivableError("Recebimento não encontrado.");
+
+      let plan: PlanItem[];
+      if (Array.isArray(body?.plan)) {
+        plan = body.plan.map((p: { dueDate?: unknown; amountCents?: unknown }, i: number) => {
+          const dueDate = dueDateFromISO(String(p?.dueDate || ""));
+          if (!dueDate) throw new ReceivableError(`Vencimento inválido na parcela ${i + 1}.`);
+          return { number: i + 1, dueDate, amountCents: Math.round(Number(p?.amountCents) || 0) };
+        });
+      } else {
+        plan = planFromInput(r.totalCents, body ?? {}, recifeDateISO(new Date()));
+      }
+
+      return setInstallmentPlan(tx, { team: session.team, receivableId: id, plan });
+    });
+
+    return NextResponse.json({ ok: true, data });
+  } catch (e) {
+    if (e instanceof ReceivableError) return bad(e.message);
+    throw e;
+  }
+}
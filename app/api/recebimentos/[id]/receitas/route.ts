@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/require-permission";
+import { applyReceipt, ReceivableError } from "@/lib/recebiveis";
 
 function toCentsFromInput(s: string) {
   const cleaned = (s || "").trim();
@@ -13,6 +14,9 @@ export async function POST(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const { db, denied } = await requirePermission("financeiro.write");
+  if (denied) return denied;
+
   try {
     const { id: receivableId } = await params;
     const body = await req.json();
@@ -25,41 +29,17 @@ export async function POST(
       return NextResponse.json({ ok: false, error: "Valor inválido" }, { status: 400 });
     }
 
-    const receivable = await prisma.receivable.findUnique({
-      where: { id: receivableId },
-    });
-
-    if (!receivable) {
-      return NextResponse.json({ ok: false, error: "Recebimento não encontrado" }, { status: 404 });
-    }
-
-    if (receivable.status === "CANCELED") {
-      return NextResponse.json({ ok: false, error: "Recebimento cancelado" }, { status: 400 });
-    }
-
-    const nextReceived = (receivable.receivedCents || 0) + amountCents;
-    const nextBalance = Math.max(0, (receivable.totalCents || 0) - nextReceived);
-    const nextStatus = nextBalance === 0 ? "RECEIVED" : "OPEN";
-
-    const created = await prisma.$transaction(async (tx) => {
-      const receipt = await tx.receipt.create({
-        data: { receivableId, amountCents, note },
-      });
-
-      await tx.receivable.update({
-        where: { id: receivableId },
-        data: {
-          receivedCents: nextReceived,
-          balanceCents: nextBalance,
-          status: nextStatus,
-        },
-      });
-
-      return receipt;
+    // ✅ aloca nas parcelas por vencimento; quitou → venda paga
+    const created = await db.$transaction(async (tx) => {
+      const out = await applyReceipt(tx, { receivableId, amountCents, note });
+      return out.receipt;
     });
 
     return NextResponse.json({ ok: true, data: created });
   } catch (e: any) {
+    if (e instanceof ReceivableError) {
+      return NextResponse.json({ ok: false, error: e.message }, { status: 400 });
+    }
     return NextResponse.json(
       { ok: false, error: e?.message || "Erro" },
       { status: 500 }
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+import { agingByCliente, listOpenInstallments } from "@/lib/recebiveis";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET: aging por cliente (a vencer / 0-30 / 31-60 / 60+) e parcelas vencidas
+ * com o link de cobrança no WhatsApp.
+ */
+export async function GET() {
+  const { db, denied } = await requirePermission("financeiro.read");
+  if (denied) return denied;
+
+  const items = await listOpenInstallments(db);
+  const aging = agingByCliente(items);
+
+  return NextResponse.json({
+    ok: true,
+    aging,
+    overdue: items.filter((i) => i.daysOverdue > 0),
+  });
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+import { ReceivableError, recordReminder } from "@/lib/recebiveis";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+/** POST: registra que a cobrança da parcela foi enviada pelo WhatsApp. */
+export async function POST(_req: Request, { params }: Ctx) {
+  const { db, denied } = await requirePermission("financeiro.write");
+  if (denied) return denied;
+
+  const { id } = await params;
+  try {
+    const data = await recordReminder(db, id);
+    return NextResponse.json({ ok: true, data });
+  } catch (e) {
+    if (e instanceof ReceivableError) return NextResponse.json({ ok: false, error: e.message }, { status: 400 });
+    throw e;
+  }
+}
@@ -1,6 +1,8 @@
 import { NextResponse } from "next/server";
 // ajuste o import do prisma conforme seu projeto
-import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/require-permission";
+import { createInstallmentPlan, planFromInput, ReceivableError } from "@/lib/recebiveis";
+import { recifeDateISO } from "@/lib/taxes";
 
 function toCentsFromInput(s: string) {
   const cleaned = (s || "").trim();
@@ -11,10 +13,17 @@ function toCentsFromInput(s: string) {
 }
 
 export async function GET() {
+  const { db, denied } = await requirePermission("financeiro.read");
+  if (denied) return denied;
+
   try {
-    const data = await prisma.receivable.findMany({
+    const data = await db.receivable.findMany({
       orderBy: { createdAt: "desc" },
-      include: { receipts: { orderBy: { receivedAt: "desc" } } },
+      include: {
+        receipts: { orderBy: { receivedAt: "desc" } },
+        installments: { orderBy: { number: "asc" } },
+        sale: { select: { id: true, numero: true, cliente: { select: { id: true, nome: true } } } },
+      },
     });
     return NextResponse.json({ ok: true, data });
   } catch (e: any) {
@@ -23,6 +32,9 @@ export async function GET() {
 }
 
 export async function POST(req: Request) {
+  const { session, db, denied } = await requirePermission("financeiro.write");
+  if (denied) return denied;
+
   try {
     const body = await req.json();
     const title = String(body?.title || "").trim();
@@ -35,19 +47,30 @@ export async function POST(req: Request) {
     if (totalCents <= 0)
       return NextResponse.json({ ok: false, error: "Valor inválido" }, { status: 400 });
 
-    const created = await prisma.receivable.create({
-      data: {
-        title,
-        description,
-        totalCents,
-        receivedCents: 0,
-        balanceCents: totalCents,
-        status: "OPEN",
-      },
+    // ✅ plano de parcelas (padrão: 1 parcela vencendo hoje)
+    const plan = planFromInput(totalCents, body ?? {}, recifeDateISO(new Date()));
+
+    const created = await db.$transaction(async (tx) => {
+      const receivable = await tx.receivable.create({
+        data: {
+          team: session.team,
+          title,
+          description,
+          totalCents,
+          receivedCents: 0,
+          balanceCents: totalCents,
+          status: "OPEN",
+        },
+      });
+      await createInstallmentPlan(tx, { team: session.team, receivableId: receivable.id, plan });
+      return receivable;
     });
 
     return NextResponse.json({ ok: true, data: created });
   } catch (e: any) {
+    if (e instanceof ReceivableError) {
+      return NextResponse.json({ ok: false, error: e.message }, { status: 400 });
+    }
     return NextResponse.json({ ok: false, error: e.message || "Erro" }, { status: 500 });
   }
 }
@@ -1,6 +1,8 @@
 // app/api/resumo/rates/route.ts
+import type { LoyaltyProgram } from "@prisma/client";
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
+import { RATE_PROGRAMS, rateDateToday, recordMilheiroRates } from "@/lib/milheiro-rates";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -14,6 +16,9 @@ function toCents(v: any) {
 }
 
 export async function POST(req: NextRequest) {
+  const { session, db, denied } = await requirePermission("financeiro.write");
+  if (denied) return denied;
+
   try {
     const body = await req.json().catch(() => ({}));
 
@@ -45,42 +50,24 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const saved = await prisma.settings.upsert({
-      where: { key: "default" },
-      create: {
-        key: "default",
-        latamRateCents,
-        smilesRateCents,
-        liveloRateCents,
-        esferaRateCents,
-        azulRateCents,
-        iberiaRateCents,
-        aaRateCents,
-        tapRateCents,
-        flyingBlueRateCents,
-      },
-      update: {
-        latamRateCents,
-        smilesRateCents,
-        liveloRateCents,
-        esferaRateCents,
-        azulRateCents,
-        iberiaRateCents,
-        aaRateCents,
-        tapRateCents,
-        flyingBlueRateCents,
-      },
-      select: {
-        latamRateCents: true,
-        smilesRateCents: true,
-        liveloRateCents: true,
-        esferaRateCents: true,
-        azulRateCents: true,
-        iberiaRateCents: true,
-        aaRateCents: true,
-        tapRateCents: true,
-        flyingBlueRateCents: true,
-      },
+    // ✅ grava no histórico (vigência hoje) e ressincroniza Settings
+    const rates: Record<LoyaltyProgram, number> = {
+      LATAM: latamRateCents,
+      SMILES: smilesRateCents,
+      LIVELO: liveloRateCents,
+      ESFERA: esferaRateCents,
+      AZUL: azulRateCents,
+      IBERIA: iberiaRateCents,
+      AA: aaRateCents,
+      TAP: tapRateCents,
+      FLYING_BLUE: flyingBlueRateCents,
+    };
+    const { current: saved } = await recordMilheiroRates(db, {
+      team: session.team,
+      actorId: session.id,
+      effectiveFrom: rateDateToday(),
+      rates: RATE_PROGRAMS.map((program) => ({ program, sellRateCents: rates[program] })),
+      onlyChanged: true,
     });
 
     return NextResponse.json({ ok: true, data: saved }, { status: 200 });
@@ -1,6 +1,6 @@
 // app/api/resumo/route.ts
 import { NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
+import type { LoyaltyProgram } from "@prisma/client";
 import { requireSession } from "@/lib/require-session";
 import {
   BalcaoTaxRule,
@@ -9,9 +9,12 @@ import {
   netProfitAfterTaxCents,
   recifeDateISO,
   resolveTaxPercent,
-  sellerCommissionCentsFromNet,
   taxFromProfitCents,
 } from "@/lib/balcao-commission";
+import { loadRateResolver, parseSettingsRates, ratesAt } from "@/lib/milheiro-rates";
+import { balcaoCommissionCents, loadPlanResolver } from "@/lib/payouts/commissionPlans";
+import { loadStockValuation } from "@/lib/points-lots";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -77,11 +80,14 @@ function parseTaxSnapshotComponents(payment: { totalTaxCents: number; breakdown:
 }
 
 export async function GET(req: Request) {
+  const { db, denied } = await requirePermission("financeiro.read");
+  if (denied) return denied;
+
   try {
     const session = await requireSession(req);
 
     // soma pontos de TODOS cedentes (do team)
-    const agg = await prisma.cedente.aggregate({
+    const agg = await db.cedente.aggregate({
       where: { owner: { team: session.team } },
       _sum: {
         pontosLatam: true,
@@ -108,28 +114,41 @@ export async function GET(req: Request) {
       flyingBlue: safeInt(agg._sum.pontosFlyingBlue),
     };
 
-    // rates (milheiro) salvo (config única)
-    const settings = await prisma.settings.upsert({
-      where: { key: "default" },
-      create: { key: "default" },
+    // imposto (config única)
+    const settings = await db.settings.upsert({
+      where: { team_key: { team: session.team, key: "default" } },
+      create: { team: session.team, key: "default" },
       update: {},
       select: {
-        latamRateCents: true,
-        smilesRateCents: true,
-        liveloRateCents: true,
-        esferaRateCents: true,
-        azulRateCents: true,
-        iberiaRateCents: true,
-        aaRateCents: true,
-        tapRateCents: true,
-        flyingBlueRateCents: true,
         taxPercent: true,
         taxEffectiveFrom: true,
       },
     });
 
+    // ✅ milheiro vigente (histórico por programa; Settings é só o espelho de hoje)
+    const resolveRate = await loadRateResolver(db);
+    const ratesCents = ratesAt(resolveRate);
+
+    // ✅ estoque a custo (lotes FIFO/média), no formato de `points`
+    const stock = await loadStockValuation(db, resolveRate);
+    const lotOf = (program: LoyaltyProgram) => {
+      const p = stock.programs.find((x) => x.program === program);
+      return { lotPoints: p?.lotPoints ?? 0, costCents: p?.costCents ?? 0 };
+    };
+    const stockLots = {
+      latam: lotOf("LATAM"),
+      smiles: lotOf("SMILES"),
+      livelo: lotOf("LIVELO"),
+      esfera: lotOf("ESFERA"),
+      azul: lotOf("AZUL"),
+      iberia: lotOf("IBERIA"),
+      aa: lotOf("AA"),
+      tap: lotOf("TAP"),
+      flyingBlue: lotOf("FLYING_BLUE"),
+    };
+
     // histórico (bruto/dividas/liquido + cashCents)
-    const snapshots = await prisma.cashSnapshot.findMany({
+    const snapshots = await db.cashSnapshot.findMany({
       orderBy: { date: "desc" },
       take: 60,
       select: {
@@ -139,6 +158,7 @@ export async function GET(req: Request) {
         totalBruto: true,
         totalDividas: true,
         totalLiquido: true,
+        milheiroRates: true,
         createdAt: true,
       },
     });
@@ -146,7 +166,7 @@ export async function GET(req: Request) {
     const latest = snapshots[0] ?? null;
 
     // saldo total das dívidas em aberto (OPEN): total - pagamentos
-    const openDebts = await prisma.debt.findMany({
+    const openDebts = await db.debt.findMany({
       where: { status: "OPEN" },
       select: {
         totalCents: true,
@@ -161,7 +181,7 @@ export async function GET(req: Request) {
     }, 0);
 
     // ✅ comissões pendentes de cedentes (do team)
-    const pendingAgg = await prisma.cedenteCommission.aggregate({
+    const pendingAgg = await db.cedenteCommission.aggregate({
       where: { status: "PENDING", cedente: { owner: { team: session.team } } },
       _sum: { amountCents: true },
     });
@@ -169,7 +189,7 @@ export async function GET(req: Request) {
 
     // ✅ A RECEBER (clientes): soma balanceCents dos receivables OPEN do team
     // (deriva o team via Sale -> Cedente -> Owner.team)
-    const receivablesAgg = await prisma.receivable.aggregate({
+    const receivablesAgg = await db.receivable.aggregate({
       where: {
         status: "OPEN",
         sale: { is: { cedente: { owner: { team: session.team } } } },
@@ -179,7 +199,7 @@ export async function GET(req: Request) {
     const receivablesOpenCents = safeInt(receivablesAgg._sum.balanceCents);
 
     // ✅ A PAGAR (funcionários) = netPay pendente + comissão pendente do balcão
-    const empPendingAgg = await prisma.employeePayout.aggregate({
+    const empPendingAgg = await db.employeePayout.aggregate({
       where: { team: session.team, paidAt: null },
       _sum: { netPayCents: true },
     });
@@ -190,13 +210,13 @@ export async function GET(req: Request) {
       taxEffectiveFrom: settings.taxEffectiveFrom,
     });
 
-    const paidPayoutRows = await prisma.employeePayout.findMany({
+    const paidPayoutRows = await db.employeePayout.findMany({
       where: { team: session.team, paidAt: { not: null } },
       select: { userId: true, date: true },
     });
     const paidKeys = new Set(paidPayoutRows.map((r) => `${r.userId}|${r.date}`));
 
-    const balcaoOpsWithEmployee = await prisma.balcaoOperacao.findMany({
+    const balcaoOpsWithEmployee = await db.balcaoOperacao.findMany({
       where: { team: session.team, employeeId: { not: null } },
       select: {
         employeeId: true,
@@ -207,6 +227,7 @@ export async function GET(req: Request) {
       },
     });
 
+    const resolvePlan = await loadPlanResolver(db);
     const employeePayoutsPendingBalcaoCents = balcaoOpsWithEmployee.reduce((acc, op) => {
       const employeeId = String(op.employeeId || "").trim();
       if (!employeeId) return acc;
@@ -225,7 +246,7 @@ export async function GET(req: Request) {
       });
       const opTaxCents = taxFromProfitCents(opProfitCents, opTaxPercent);
       const opNetCents = netProfitAfterTaxCents(opProfitCents, opTaxCents);
-      const opCommissionCents = sellerCommissionCentsFromNet(opNetCents);
+      const opCommissionCents = balcaoCommissionCents(resolvePlan(employeeId, op.createdAt).rules, opNetCents);
 
       return acc + opCommissionCents;
     }, 0);
@@ -235,7 +256,7 @@ export async function GET(req: Request) {
 
     // ✅ IMPOSTOS pendentes (igual /api/taxes/months):
     // venda de milhas (tax7) + emissões no balcão (imposto sobre lucro), respeitando snapshot de mês pago.
-    const payoutRows = await prisma.$queryRaw<Array<{ month: string; taxCents: bigint }>>`
+    const payoutRows = await db.$queryRaw<Array<{ month: string; taxCents: bigint }>>`
       SELECT
         substring(ep."date", 1, 7) AS "month",
         COALESCE(SUM(ep."tax7Cents"), 0)::bigint AS "taxCents"
@@ -247,7 +268,7 @@ export async function GET(req: Request) {
     const payoutByMonth = new Map<string, number>();
     for (const row of payoutRows) payoutByMonth.set(row.month, safeInt(row.taxCents));
 
-    const balcaoOpsTax = await prisma.balcaoOperacao.findMany({
+    const balcaoOpsTax = await db.balcaoOperacao.findMany({
       where: { team: session.team },
       select: {
         createdAt: true,
@@ -275,7 +296,7 @@ export async function GET(req: Request) {
       new Set<string>([...payoutByMonth.keys(), ...balcaoTaxByMonth.keys()])
     );
 
-    const taxPayments = await prisma.taxMonthPayment.findMany({
+    const taxPayments = await db.taxMonthPayment.findMany({
       where: { team: session.team, month: { in: allTaxMonths.length ? allTaxMonths : ["__none__"] } },
       select: { month: true, totalTaxCents: true, breakdown: true, paidAt: true },
     });
@@ -322,7 +343,8 @@ export async function GET(req: Request) {
         ok: true,
         data: {
           points,
-          ratesCents: settings,
+          ratesCents,
+          stockLots,
 
           latestCashCents,
           latestTotalLiquidoCents: safeInt(latest?.totalLiquido ?? 0),
@@ -334,6 +356,8 @@ export async function GET(req: Request) {
             totalBruto: safeInt(s.totalBruto),
             totalDividas: safeInt(s.totalDividas),
             totalLiquido: safeInt(s.totalLiquido),
+            // milheiro do dia do snapshot (antigos: o vigente naquela data)
+            ratesCents: parseSettingsRates(s.milheiroRates) ?? ratesAt(resolveRate, s.date),
           })),
 
           debtsOpenCents,
@@ -366,6 +390,9 @@ export async function GET(req: Request) {
 }
 
 export async function POST(req: Request) {
+  const { session, db, denied } = await requirePermission("financeiro.write");
+  if (denied) return denied;
+
   try {
     const body = await req.json();
 
@@ -387,20 +414,25 @@ export async function POST(req: Request) {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
 
-    await prisma.cashSnapshot.upsert({
-      where: { date: today },
+    const milheiroRates = ratesAt(await loadRateResolver(db), today);
+
+    await db.cashSnapshot.upsert({
+      where: { team_date: { team: session.team, date: today } },
       create: {
+        team: session.team,
         date: today,
         cashCents,
         totalBruto: totalBrutoCents,
         totalDividas: totalDividasCents,
         totalLiquido: totalLiquidoCents,
+        milheiroRates,
       },
       update: {
         cashCents,
         totalBruto: totalBrutoCents,
         totalDividas: totalDividasCents,
         totalLiquido: totalLiquidoCents,
+        milheiroRates,
       },
     });
 
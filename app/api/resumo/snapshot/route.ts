@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
+import { loadRateResolver, ratesAt } from "@/lib/milheiro-rates";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -10,6 +11,9 @@ function toInt(v: any) {
 }
 
 export async function POST(req: Request) {
+  const { session, db, denied } = await requirePermission("financeiro.write");
+  if (denied) return denied;
+
   try {
     const body = await req.json();
 
@@ -38,20 +42,26 @@ export async function POST(req: Request) {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
 
-    await prisma.cashSnapshot.upsert({
-      where: { date: today },
+    // ✅ guarda o milheiro vigente no dia (o histórico não muda com preços futuros)
+    const milheiroRates = ratesAt(await loadRateResolver(db), today);
+
+    await db.cashSnapshot.upsert({
+      where: { team_date: { team: session.team, date: today } },
       create: {
+        team: session.team,
         date: today,
         cashCents,
         totalBruto: totalBrutoCents,
         totalDividas: totalDividasCents,
         totalLiquido: totalLiquidoCents,
+        milheiroRates,
       },
       update: {
         cashCents,
         totalBruto: totalBrutoCents,
         totalDividas: totalDividasCents,
         totalLiquido: totalLiquidoCents,
+        milheiroRates,
       },
     });
 
@@ -1,6 +1,6 @@
 // app/api/session/route.ts
 import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
+import { getSessionServer } from "@/lib/auth-server";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -16,42 +16,12 @@ function noCache() {
   };
 }
 
-type Sess = {
-  id: string;
-  login: string;
-  team: string;
-  role: "admin" | "staff";
-  // se você salvar isso no cookie, habilita aqui:
-  name?: string;
-  email?: string | null;
-};
-
-function b64urlDecode(input: string) {
-  const pad = input.length % 4 === 0 ? "" : "=".repeat(4 - (input.length % 4));
-  const base64 = (input + pad).replace(/-/g, "+").replace(/_/g, "/");
-  return Buffer.from(base64, "base64").toString("utf8");
-}
-
 export async function GET() {
   try {
-    const store = await cookies();
-    const raw = store.get("tm.session")?.value ?? "";
-
-    if (!raw) {
-      return NextResponse.json(
-        { ok: true, hasSession: false, user: null },
-        { headers: noCache() }
-      );
-    }
-
-    let sess: Sess | null = null;
-    try {
-      sess = JSON.parse(b64urlDecode(raw)) as Sess;
-    } catch {
-      sess = null;
-    }
+    // ✅ token assinado + sessão ativa no banco
+    const sess = await getSessionServer();
 
-    if (!sess?.id || !sess?.login || !sess?.team || !sess?.role) {
+    if (!sess) {
       return NextResponse.json(
         { ok: true, hasSession: false, user: null },
         { headers: noCache() }
@@ -63,8 +33,8 @@ export async function GET() {
       login: String(sess.login),
       team: String(sess.team),
       role: sess.role,
-      name: sess.name ?? "",
-      email: sess.email ?? null,
+      name: "",
+      email: null,
     };
 
     return NextResponse.json(
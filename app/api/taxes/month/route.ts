@@ -1,9 +1,8 @@
 import { NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
 import { requireSession } from "@/lib/require-session";
-
-const TAX_TZ = "America/Recife";
-const DEFAULT_TAX_PERCENT = 8;
+import { requirePermission } from "@/lib/require-permission";
+import { closedSnapshot } from "@/lib/contabil";
+import { computeTaxMonth } from "@/lib/taxes";
 
 function bad(status: number, error: string) {
   return NextResponse.json({ ok: false, error }, { status });
@@ -21,52 +20,6 @@ function toNumber(v: unknown) {
   return Number.isFinite(n) ? n : 0;
 }
 
-function normalizePercent(v: unknown, fallback = DEFAULT_TAX_PERCENT) {
-  const n = Number(v);
-  if (!Number.isFinite(n)) return fallback;
-  return Math.max(0, Math.min(100, Math.round(n)));
-}
-
-function recifeDateISO(date: Date) {
-  const parts = new Intl.DateTimeFormat("en-CA", {
-    timeZone: TAX_TZ,
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-  })
-    .formatToParts(date)
-    .reduce<Record<string, string>>((acc, p) => {
-      acc[p.type] = p.value;
-      return acc;
-    }, {});
-
-  return `${parts.year}-${parts.month}-${parts.day}`;
-}
-
-function resolveTaxPercent(
-  dateISO: string,
-  settings: { configuredPercent: number; effectiveISO: string | null }
-) {
-  if (!settings.effectiveISO) return DEFAULT_TAX_PERCENT;
-  return dateISO >= settings.effectiveISO ? settings.configuredPercent : DEFAULT_TAX_PERCENT;
-}
-
-function taxByPercent(profitCents: number, percent: number) {
-  return Math.round(Math.max(0, toNumber(profitCents)) * (percent / 100));
-}
-
-function normalizedBalcaoProfit(row: {
-  customerChargeCents: number;
-  supplierPayCents: number;
-  boardingFeeCents: number;
-}) {
-  return (
-    toNumber(row.customerChargeCents) -
-    toNumber(row.supplierPayCents) -
-    toNumber(row.boardingFeeCents)
-  );
-}
-
 function parseSnapshot(payment: { totalTaxCents: number; breakdown: unknown }) {
   const totalTaxCents = toNumber(payment.totalTaxCents);
   const raw = payment.breakdown;
@@ -117,79 +70,10 @@ function parseSnapshot(payment: { totalTaxCents: number; breakdown: unknown }) {
   };
 }
 
-async function computeMonth(team: string, month: string) {
-  const settings = await prisma.settings.upsert({
-    where: { key: "default" },
-    create: { key: "default" },
-    update: {},
-    select: { taxPercent: true, taxEffectiveFrom: true },
-  });
-  const taxSettings = {
-    configuredPercent: normalizePercent(settings.taxPercent, DEFAULT_TAX_PERCENT),
-    effectiveISO: settings.taxEffectiveFrom
-      ? settings.taxEffectiveFrom.toISOString().slice(0, 10)
-      : null,
-  };
-
-  const grouped = await prisma.employeePayout.groupBy({
-    by: ["userId"],
-    where: { team, date: { startsWith: month } },
-    _sum: { tax7Cents: true },
-    _count: { _all: true },
-  });
-
-  const userIds = grouped.map((g) => g.userId);
-  const users = await prisma.user.findMany({
-    where: { id: { in: userIds.length ? userIds : ["__none__"] } },
-    select: { id: true, name: true, login: true },
-  });
-
-  const uById: Record<string, { name: string; login: string }> = {};
-  for (const u of users) uById[u.id] = { name: u.name, login: u.login };
-
-  const payoutBreakdown = grouped
-    .map((g) => ({
-      userId: g.userId,
-      name: uById[g.userId]?.name || "-",
-      login: uById[g.userId]?.login || "-",
-      taxCents: g._sum.tax7Cents ?? 0,
-      daysCount: g._count._all ?? 0,
-    }))
-    .sort((a, b) => (b.taxCents || 0) - (a.taxCents || 0));
-
-  const payoutTaxCents = payoutBreakdown.reduce((acc, b) => acc + (b.taxCents || 0), 0);
-
-  const balcaoRows = await prisma.balcaoOperacao.findMany({
-    where: { team },
-    select: {
-      createdAt: true,
-      customerChargeCents: true,
-      supplierPayCents: true,
-      boardingFeeCents: true,
-    },
-  });
-
-  let balcaoTaxCents = 0;
-  let balcaoOperationsCount = 0;
-
-  for (const row of balcaoRows) {
-    const dateISO = recifeDateISO(row.createdAt);
-    if (!dateISO.startsWith(`${month}-`)) continue;
-    const percent = resolveTaxPercent(dateISO, taxSettings);
-    balcaoTaxCents += taxByPercent(normalizedBalcaoProfit(row), percent);
-    balcaoOperationsCount += 1;
-  }
-
-  return {
-    payoutTaxCents,
-    balcaoTaxCents,
-    totalTaxCents: payoutTaxCents + balcaoTaxCents,
-    payoutBreakdown,
-    balcaoOperationsCount,
-  };
-}
-
 export async function GET(req: Request) {
+  const { db, denied } = await requirePermission("taxes.read");
+  if (denied) return denied;
+
   try {
     const session = await requireSession(req);
     const { searchParams } = new URL(req.url);
@@ -197,7 +81,7 @@ export async function GET(req: Request) {
     const month = String(searchParams.get("month") || "").slice(0, 7);
     if (!isValidMonth(month)) return bad(400, "Parâmetro month inválido. Use YYYY-MM.");
 
-    const payment = await prisma.taxMonthPayment.findUnique({
+    const payment = await db.taxMonthPayment.findUnique({
       where: { team_month: { team: session.team, month } },
       select: {
         totalTaxCents: true,
@@ -223,7 +107,9 @@ export async function GET(req: Request) {
       });
     }
 
-    const computed = await computeMonth(session.team, month);
+    // ✅ mês fechado na contabilidade: imposto congelado no fechamento
+    const frozen = await closedSnapshot(db, month);
+    const computed = frozen ? frozen.taxes : await computeTaxMonth(db, session.team, month);
 
     return NextResponse.json({
       ok: true,
@@ -235,7 +121,7 @@ export async function GET(req: Request) {
       breakdown: computed.payoutBreakdown,
       paidAt: payment?.paidAt ? payment.paidAt.toISOString() : null,
       paidBy: payment?.paidBy ? { id: payment.paidBy.id, name: payment.paidBy.name } : null,
-      source: "COMPUTED",
+      source: frozen ? "CLOSED" : "COMPUTED",
     });
   } catch (e: unknown) {
     const msg = e instanceof Error && e.message ? e.message : String(e);
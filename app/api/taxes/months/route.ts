@@ -1,6 +1,6 @@
 import { NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
 import { requireSession } from "@/lib/require-session";
+import { requirePermission } from "@/lib/require-permission";
 
 const TAX_TZ = "America/Recife";
 const DEFAULT_TAX_PERCENT = 8;
@@ -104,14 +104,17 @@ function parseSnapshotComponents(payment: {
 }
 
 export async function GET(req: Request) {
+  const { db, denied } = await requirePermission("taxes.read");
+  if (denied) return denied;
+
   try {
     const session = await requireSession(req); // { userId, team, role? }
     const { searchParams } = new URL(req.url);
     const limit = Math.min(Math.max(Number(searchParams.get("limit") || 24), 1), 60);
 
-    const settings = await prisma.settings.upsert({
-      where: { key: "default" },
-      create: { key: "default" },
+    const settings = await db.settings.upsert({
+      where: { team_key: { team: session.team, key: "default" } },
+      create: { team: session.team, key: "default" },
       update: {},
       select: { taxPercent: true, taxEffectiveFrom: true },
     });
@@ -122,7 +125,7 @@ export async function GET(req: Request) {
         : null,
     };
 
-    const payoutRows = await prisma.$queryRaw<
+    const payoutRows = await db.$queryRaw<
       Array<{
         month: string;
         taxCents: bigint;
@@ -152,7 +155,7 @@ export async function GET(req: Request) {
       });
     }
 
-    const balcaoRows = await prisma.balcaoOperacao.findMany({
+    const balcaoRows = await db.balcaoOperacao.findMany({
       where: { team: session.team },
       select: {
         createdAt: true,
@@ -181,7 +184,7 @@ export async function GET(req: Request) {
       .sort((a, b) => b.localeCompare(a))
       .slice(0, limit);
 
-    const payments = await prisma.taxMonthPayment.findMany({
+    const payments = await db.taxMonthPayment.findMany({
       where: { team: session.team, month: { in: allMonths.length ? allMonths : ["__none__"] } },
       select: {
         month: true,
@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { requireSession } from "@/lib/require-session";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -24,9 +23,12 @@ function parseDateOrNull(v: any): Date | null | undefined {
 }
 
 export async function GET() {
-  const settings = await prisma.settings.upsert({
-    where: { key: "default" },
-    create: { key: "default" },
+  const { session, db, denied } = await requirePermission("taxes.read");
+  if (denied) return denied;
+
+  const settings = await db.settings.upsert({
+    where: { team_key: { team: session.team, key: "default" } },
+    create: { team: session.team, key: "default" },
     update: {},
     select: {
       taxPercent: true,
@@ -49,13 +51,10 @@ export async function GET() {
 }
 
 export async function POST(req: NextRequest) {
-  try {
-    const session = await requireSession(req);
-    const role = String((session as any)?.role || "");
-    if (role !== "admin") {
-      return NextResponse.json({ ok: false, error: "Sem permissão." }, { status: 403 });
-    }
+  const { session, db, denied } = await requirePermission("taxes.write");
+  if (denied) return denied;
 
+  try {
     const body = await req.json().catch(() => ({}));
     const taxPercent = parsePercent(body?.taxPercent);
     const taxEffectiveFrom = parseDateOrNull(body?.taxEffectiveFrom);
@@ -70,9 +69,10 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ ok: false, error: "Data de início inválida." }, { status: 400 });
     }
 
-    const saved = await prisma.settings.upsert({
-      where: { key: "default" },
+    const saved = await db.settings.upsert({
+      where: { team_key: { team: session.team, key: "default" } },
       create: {
+        team: session.team,
         key: "default",
         taxPercent,
         taxEffectiveFrom: taxEffectiveFrom ?? null,
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+function bad(message: string, status = 400) {
+  return NextResponse.json({ ok: false, error: message }, { status });
+}
+
+/**
+ * DELETE /api/termos/:id
+ * Só apaga versão que ninguém aceitou (publicada por engano).
+ */
+export async function DELETE(_req: Request, { params }: Ctx) {
+  const { db, denied } = await requirePermission("cedentes.write");
+  if (denied) return denied;
+
+  const { id } = await params;
+
+  const doc = await db.termDocument.findFirst({
+    where: { id },
+    select: { id: true, _count: { select: { acceptances: true } } },
+  });
+  if (!doc) return bad("Versão não encontrada.", 404);
+  if (doc._count.acceptances > 0) {
+    return bad("Versão já aceita por cedentes: publique uma nova em vez de apagar.", 409);
+  }
+
+  await db.termDocument.delete({ where: { id } });
+  return NextResponse.json({ ok: true });
+}
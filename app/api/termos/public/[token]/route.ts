@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from "next/server";
+import { LoyaltyProgram } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { tenantPrisma } from "@/lib/tenant";
+import { getCurrentTerm, readClauses, termAcceptanceHash } from "@/lib/termos";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+function noCacheHeaders() {
+  return {
+    "Content-Type": "application/json; charset=utf-8",
+    "Cache-Control": "no-store, no-cache, must-revalidate, proxy-revalidate",
+    Pragma: "no-cache",
+    Expires: "0",
+    "Surrogate-Control": "no-store",
+  };
+}
+
+function bad(message: string, status = 400) {
+  return NextResponse.json({ ok: false, error: message }, { status, headers: noCacheHeaders() });
+}
+
+function getClientIp(req: NextRequest) {
+  const xff = req.headers.get("x-forwarded-for");
+  if (xff) return xff.split(",")[0].trim();
+  const xr = req.headers.get("x-real-ip");
+  if (xr) return xr.trim();
+  return null;
+}
+
+const ACCEPTANCE_SELECT = { acceptedAt: true, acceptedPrograms: true, acceptanceHash: true } as const;
+
+async function loadByToken(token: string) {
+  const t = (token || "").trim();
+  if (!t) return null;
+
+  const cedente = await prisma.cedente.findUnique({
+    where: { termToken: t },
+    select: { id: true, team: true, cpf: true, nomeCompleto: true },
+  });
+  if (!cedente) return null;
+
+  const doc = await getCurrentTerm(tenantPrisma(cedente.team));
+  const accepted = doc
+    ? await prisma.cedenteTermAcceptance.findUnique({
+        where: { cedenteId_termDocumentId: { cedenteId: cedente.id, termDocumentId: doc.id } },
+        select: ACCEPTANCE_SELECT,
+      })
+    : null;
+
+  return { cedente, doc, accepted };
+}
+
+/**
+ * GET /api/termos/public/:token
+ * Termo vigente do time do cedente + se ele já aceitou essa versão.
+ */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  const found = await loadByToken(token);
+  if (!found) return bad("Link inválido.", 404);
+
+  const { cedente, doc, accepted } = found;
+  if (!doc) return bad("Nenhum termo publicado no momento.", 404);
+
+  return NextResponse.json(
+    {
+      ok: true,
+      data: {
+        // ✅ só o primeiro nome (o link pode ser repassado)
+        cedente: { primeiroNome: cedente.nomeCompleto.trim().split(/\s+/)[0] || "" },
+        termo: {
+          versao: doc.versao,
+          title: doc.title,
+          body: doc.body,
+          clauses: readClauses(doc.clauses),
+          effectiveAt: doc.effectiveAt,
+        },
+        accepted,
+      },
+    },
+    { headers: noCacheHeaders() }
+  );
+}
+
+/**
+ * POST /api/termos/public/:token
+ * body: { aceito: true, versao, programs: LoyaltyProgram[] }
+ * `versao` tem que ser a vigente (se publicaram outra enquanto a pessoa lia, recarrega).
+ */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  const found = await loadByToken(token);
+  if (!found) return bad("Link inválido.", 404);
+
+  const { cedente, doc, accepted } = found;
+  if (!doc) return bad("Nenhum termo publicado no momento.", 404);
+
+  const body = await req.json().catch(() => ({}));
+  if (body?.aceito !== true) return bad("Você precisa marcar que leu e aceita o termo.");
+  if (String(body?.versao || "") !== doc.versao) {
+    return bad("O termo foi atualizado enquanto você lia. Recarregue a página.", 409);
+  }
+
+  // idempotente: o mesmo link aceito de novo devolve o aceite original
+  if (accepted) {
+    return NextResponse.json({ ok: true, data: { accepted } }, { headers: noCacheHeaders() });
+  }
+
+  const offered = new Set<string>(readClauses(doc.clauses).map((c) => c.program));
+  const acceptedPrograms = (Array.isArray(body?.programs) ? body.programs : [])
+    .map((p: unknown) => String(p || "").toUpperCase())
+    .filter((p: string, i: number, all: string[]) => offered.has(p) && all.indexOf(p) === i) as LoyaltyProgram[];
+
+  const ip = getClientIp(req);
+  const userAgent = req.headers.get("user-agent")?.slice(0, 500) || null;
+  const acceptedAt = new Date();
+
+  const acceptanceHash = termAcceptanceHash({
+    contentHash: doc.contentHash,
+    cedenteId: cedente.id,
+    cpf: cedente.cpf,
+    acceptedAt,
+    acceptedPrograms,
+    ip,
+    userAgent,
+  });
+
+  try {
+    const created = await prisma.cedenteTermAcceptance.create({
+      data: {
+        cedenteId: cedente.id,
+        termoVersao: doc.versao,
+        termDocumentId: doc.id,
+        acceptedPrograms,
+        ip,
+        userAgent,
+        acceptedAt,
+        acceptanceHash,
+      },
+      select: ACCEPTANCE_SELECT,
+    });
+
+    return NextResponse.json({ ok: true, data: { accepted: created } }, { status: 201, headers: noCacheHeaders() });
+  } catch (e: unknown) {
+    // ✅ dois envios ao mesmo tempo: o unique (cedente + versão) barra o segundo,
+    // que devolve o aceite que ganhou
+    if ((e as { code?: string })?.code !== "P2002") throw e;
+
+    const first = await prisma.cedenteTermAcceptance.findUnique({
+      where: { cedenteId_termDocumentId: { cedenteId: cedente.id, termDocumentId: doc.id } },
+      select: ACCEPTANCE_SELECT,
+    });
+    return NextResponse.json({ ok: true, data: { accepted: first } }, { headers: noCacheHeaders() });
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+import {
+  TermInputError,
+  getCurrentTerm,
+  parseTermInput,
+  readClauses,
+  termContentHash,
+} from "@/lib/termos";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function bad(message: string, status = 400) {
+  return NextResponse.json({ ok: false, error: message }, { status });
+}
+
+/**
+ * GET /api/termos
+ * Versões publicadas do time (mais nova primeiro) com quantos cedentes aceitaram.
+ */
+export async function GET() {
+  const { db, denied } = await requirePermission("cedentes.read");
+  if (denied) return denied;
+
+  const [docs, current] = await Promise.all([
+    db.termDocument.findMany({
+      orderBy: [{ effectiveAt: "desc" }, { createdAt: "desc" }],
+      include: {
+        createdBy: { select: { id: true, name: true } },
+        _count: { select: { acceptances: true } },
+      },
+    }),
+    getCurrentTerm(db),
+  ]);
+
+  const data = docs.map(({ _count, clauses, ...d }) => ({
+    ...d,
+    clauses: readClauses(clauses),
+    acceptances: _count.acceptances,
+    current: d.id === current?.id,
+  }));
+
+  return NextResponse.json({ ok: true, data });
+}
+
+/**
+ * POST /api/termos
+ * Publica uma versão nova (texto, vigência, cláusulas por programa).
+ * Versões são imutáveis: corrigir o texto = publicar outra versão.
+ */
+export async function POST(req: NextRequest) {
+  const { session, db, denied } = await requirePermission("cedentes.write");
+  if (denied) return denied;
+
+  const body = await req.json().catch(() => ({}));
+
+  let input;
+  try {
+    input = parseTermInput(body);
+  } catch (e) {
+    if (e instanceof TermInputError) return bad(e.message);
+    throw e;
+  }
+
+  const exists = await db.termDocument.findFirst({ where: { versao: input.versao }, select: { id: true } });
+  if (exists) return bad(`Versão ${input.versao} já existe.`, 409);
+
+  const created = await db.termDocument.create({
+    data: {
+      team: session.team,
+      versao: input.versao,
+      title: input.title,
+      body: input.body,
+      clauses: input.clauses,
+      whatsappMsg: input.whatsappMsg,
+      effectiveAt: input.effectiveAt,
+      contentHash: termContentHash(input),
+      createdById: session.id,
+    },
+  });
+
+  return NextResponse.json({ ok: true, data: created }, { status: 201 });
+}
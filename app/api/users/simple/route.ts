@@ -1,8 +1,11 @@
 import { NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/require-permission";
 
 export async function GET() {
-  const users = await prisma.user.findMany({
+  const { db, denied } = await requirePermission("funcionarios.read");
+  if (denied) return denied;
+
+  const users = await db.user.findMany({
     orderBy: { name: "asc" },
     select: { id: true, name: true, login: true, team: true, role: true },
     take: 200,
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+import { markRefundPaid, SaleCancelError, undoRefundPaid } from "@/lib/cancelamentos";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+function bad(message: string, status = 400) {
+  return NextResponse.json({ ok: false, error: message }, { status });
+}
+
+/**
+ * POST /api/vendas/cancelamentos/:id/reembolso
+ * body: { note? } — marca o reembolso ao cliente como pago.
+ */
+export async function POST(req: NextRequest, { params }: Ctx) {
+  const { session, db, denied } = await requirePermission("financeiro.write");
+  if (denied) return denied;
+
+  const { id } = await params;
+  const body = await req.json().catch(() => ({}));
+
+  try {
+    const note = String(body?.note || "").trim().slice(0, 500) || null;
+    const data = await markRefundPaid(db, { id, userId: session.id, note });
+    return NextResponse.json({ ok: true, data });
+  } catch (e) {
+    if (e instanceof SaleCancelError) return bad(e.message);
+    throw e;
+  }
+}
+
+/**
+ * DELETE /api/vendas/cancelamentos/:id/reembolso
+ * Desfaz o pagamento do reembolso (lançado por engano).
+ */
+export async function DELETE(_req: NextRequest, { params }: Ctx) {
+  const { db, denied } = await requirePermission("financeiro.write");
+  if (denied) return denied;
+
+  const { id } = await params;
+
+  try {
+    const data = await undoRefundPaid(db, id);
+    return NextResponse.json({ ok: true, data });
+  } catch (e) {
+    if (e instanceof SaleCancelError) return bad(e.message);
+    throw e;
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+import { cancellationReport } from "@/lib/cancelamentos";
+import { monthBounds } from "@/lib/contabil";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function bad(message: string, status = 400) {
+  return NextResponse.json({ ok: false, error: message }, { status });
+}
+
+/**
+ * GET /api/vendas/cancelamentos?month=YYYY-MM
+ * Relatório de cancelamentos do mês: reembolso, pontos, passageiros e estorno de comissão.
+ */
+export async function GET(req: Request) {
+  const { db, denied } = await requirePermission("vendas.read");
+  if (denied) return denied;
+
+  const month = String(new URL(req.url).searchParams.get("month") || "").slice(0, 7);
+  const mb = monthBounds(month);
+  if (!mb) return bad("month inválido. Use YYYY-MM");
+
+  const report = await cancellationReport(db, { start: mb.start, end: mb.end });
+  return NextResponse.json({ ok: true, month, ...report });
+}
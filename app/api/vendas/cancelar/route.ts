@@ -1,104 +1,59 @@
-import { prisma } from "@/lib/prisma";
-import { ok, badRequest, serverError } from "@/lib/api";
-import { LoyaltyProgram, EmissionSource } from "@prisma/client";
-
+import { ok, badRequest, conflict, serverError } from "@/lib/api";
+import { requirePermission } from "@/lib/require-permission";
+import { ClosedPeriodError } from "@/lib/contabil";
+import { cancelSale, SaleCancelError } from "@/lib/cancelamentos";
+
+/**
+ * POST { saleId, reason?, refundCents?, returnPoints?, keepPassengers?, ajuste? }
+ * - refundCents: reembolso ao cliente (padrão = tudo o que ele pagou; 0 = nada)
+ * - returnPoints: devolve os pontos ao cedente (padrão: sim)
+ * - keepPassengers: mantém os CPFs queimados (padrão: sim); false = estorna a cota
+ * - ajuste: venda de mês fechado entra como ajuste no mês atual
+ */
 export async function POST(req: Request) {
+  const { session, db, denied } = await requirePermission("vendas.write");
+  if (denied) return denied;
+
   try {
     const body = await req.json().catch(() => ({}));
     const saleId = String(body?.saleId || "").trim();
-    const keepPassengers = body?.keepPassengers !== false; // default: true
-
     if (!saleId) return badRequest("saleId é obrigatório.");
 
-    const venda = await prisma.sale.findUnique({
-      where: { id: saleId },
-      include: { receivable: true },
-    });
-
-    if (!venda) return badRequest("Venda não encontrada.");
-
-    // se já estiver cancelada, idempotente
-    if (venda.paymentStatus === "CANCELED") {
-      return ok({ ok: true, alreadyCanceled: true });
-    }
-
-    // ✅ 1) estornar pontos (sempre volta pontos)
-    if (venda.points > 0) {
-      const inc = venda.points;
-
-      if (venda.program === LoyaltyProgram.LATAM) {
-        await prisma.cedente.update({ where: { id: venda.cedenteId }, data: { pontosLatam: { increment: inc } } });
-      } else if (venda.program === LoyaltyProgram.SMILES) {
-        await prisma.cedente.update({ where: { id: venda.cedenteId }, data: { pontosSmiles: { increment: inc } } });
-      } else if (venda.program === LoyaltyProgram.LIVELO) {
-        await prisma.cedente.update({ where: { id: venda.cedenteId }, data: { pontosLivelo: { increment: inc } } });
-      } else if (venda.program === LoyaltyProgram.ESFERA) {
-        await prisma.cedente.update({ where: { id: venda.cedenteId }, data: { pontosEsfera: { increment: inc } } });
-      } else if (venda.program === LoyaltyProgram.AZUL) {
-        await prisma.cedente.update({ where: { id: venda.cedenteId }, data: { pontosAzul: { increment: inc } } });
-      } else if (venda.program === LoyaltyProgram.IBERIA) {
-        await prisma.cedente.update({ where: { id: venda.cedenteId }, data: { pontosIberia: { increment: inc } } });
-      } else if (venda.program === LoyaltyProgram.AA) {
-        await prisma.cedente.update({ where: { id: venda.cedenteId }, data: { pontosAA: { increment: inc } } });
-      } else if (venda.program === LoyaltyProgram.TAP) {
-        await prisma.cedente.update({ where: { id: venda.cedenteId }, data: { pontosTAP: { increment: inc } } });
-      } else if (venda.program === LoyaltyProgram.FLYING_BLUE) {
-        await prisma.cedente.update({
-          where: { id: venda.cedenteId },
-          data: { pontosFlyingBlue: { increment: inc } },
-        });
-      }
-    }
-
-    // ✅ 2) pax: só desfaz se for "cadastro errado"
-    // Como você já conta pax por EmissionEvent, aqui a gente remove o evento de emissão.
-    // (Sem mexer no prisma) fazemos um match pelo dia + pax + source=SALE.
-    let removedEmission = false;
-
-    if (!keepPassengers && venda.passengers > 0) {
-      const d = new Date(venda.date);
-      const start = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate(), 0, 0, 0, 0));
-      const end = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate(), 23, 59, 59, 999));
-
-      const ev = await prisma.emissionEvent.findFirst({
-        where: {
-          cedenteId: venda.cedenteId,
-          program: venda.program,
-          source: EmissionSource.SALE,
-          passengersCount: venda.passengers,
-          issuedAt: { gte: start, lte: end },
+    const rawRefund = body?.refundCents;
+    const refundCents = rawRefund === undefined || rawRefund === null || rawRefund === "" ? null : Number(rawRefund);
+    if (refundCents !== null && !Number.isFinite(refundCents)) return badRequest("refundCents inválido.");
+
+    const out = await db.$transaction((tx) =>
+      cancelSale(tx, {
+        team: session.team,
+        actorId: session.id,
+        input: {
+          saleId,
+          reason: String(body?.reason || "").trim().slice(0, 500) || null,
+          refundCents: refundCents === null ? null : Math.round(refundCents),
+          returnPoints: body?.returnPoints !== false, // default: true
+          keepPassengers: body?.keepPassengers !== false, // default: true
+          ajuste: body?.ajuste === true,
         },
-        orderBy: { createdAt: "desc" },
-      });
+      })
+    );
 
-      if (ev) {
-        await prisma.emissionEvent.delete({ where: { id: ev.id } });
-        removedEmission = true;
-      }
-    }
-
-    // ✅ 3) cancelar recebível (se existir)
-    if (venda.receivableId) {
-      await prisma.receivable.update({
-        where: { id: venda.receivableId },
-        data: {
-          status: "CANCELED",
-          balanceCents: 0,
-        },
-      });
-    }
-
-    // ✅ 4) cancelar venda
-    await prisma.sale.update({
-      where: { id: venda.id },
-      data: {
-        paymentStatus: "CANCELED",
-        paidAt: null,
-      },
+    // se já estiver cancelada, idempotente
+    if (out.alreadyCanceled) return ok({ ok: true, alreadyCanceled: true });
+
+    return ok({
+      ok: true,
+      cancellationId: out.cancellation.id,
+      refundCents: out.cancellation.refundCents,
+      removedEmission: out.cancellation.passengersReleased > 0,
+      clawbackCents: out.clawback?.amountCents ?? 0,
+      adjustmentId: out.adjustment?.id ?? null,
     });
-
-    return ok({ ok: true, removedEmission });
   } catch (e: any) {
+    if (e instanceof ClosedPeriodError) {
+      return conflict(e.message, { code: "PERIOD_CLOSED", adjustable: e.adjustable });
+    }
+    if (e instanceof SaleCancelError) return badRequest(e.message);
     console.error(e);
     return serverError("Falha ao cancelar venda.", { detail: e?.message });
   }
@@ -1,47 +1,19 @@
 import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
-import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-type Sess = { id: string; login: string; team: string; role: "admin" | "staff" };
-
-function b64urlDecode(input: string) {
-  const pad = input.length % 4 === 0 ? "" : "=".repeat(4 - (input.length % 4));
-  const base64 = (input + pad).replace(/-/g, "+").replace(/_/g, "/");
-  return Buffer.from(base64, "base64").toString("utf8");
-}
-
-function readSessionCookie(raw?: string): Sess | null {
-  if (!raw) return null;
-  try {
-    const parsed = JSON.parse(b64urlDecode(raw)) as Partial<Sess>;
-    if (!parsed?.id || !parsed?.login || !parsed?.team || !parsed?.role) return null;
-    if (parsed.role !== "admin" && parsed.role !== "staff") return null;
-    return parsed as Sess;
-  } catch {
-    return null;
-  }
-}
-
-async function getServerSession(): Promise<Sess | null> {
-  const store = await cookies();
-  const raw = store.get("tm.session")?.value;
-  return readSessionCookie(raw);
-}
-
 type Ctx = { params: Promise<{ id: string }> };
 
 export async function POST(_req: Request, { params }: Ctx) {
-  const session = await getServerSession();
-  if (!session?.id) {
-    return NextResponse.json({ ok: false, error: "Não autenticado" }, { status: 401 });
-  }
+  const { session, db, denied } = await requirePermission("vendas.write");
+  if (denied) return denied;
+
 
   const { id } = await params;
 
-  const compra = await prisma.purchase.findFirst({
+  const compra = await db.purchase.findFirst({
     where: {
       id,
       status: "CLOSED",
@@ -63,7 +35,7 @@ export async function POST(_req: Request, { params }: Ctx) {
   const obs =
     (compra.observacao ? String(compra.observacao).trim() + "\n" : "") + stamp;
 
-  await prisma.purchase.update({
+  await db.purchase.update({
     where: { id },
     data: {
       finalizedAt: new Date(),
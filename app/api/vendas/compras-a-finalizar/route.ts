@@ -1,36 +1,9 @@
 import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
-import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-type Sess = { id: string; login: string; team: string; role: "admin" | "staff" };
-
-function b64urlDecode(input: string) {
-  const pad = input.length % 4 === 0 ? "" : "=".repeat(4 - (input.length % 4));
-  const base64 = (input + pad).replace(/-/g, "+").replace(/_/g, "/");
-  return Buffer.from(base64, "base64").toString("utf8");
-}
-
-function readSessionCookie(raw?: string): Sess | null {
-  if (!raw) return null;
-  try {
-    const parsed = JSON.parse(b64urlDecode(raw)) as Partial<Sess>;
-    if (!parsed?.id || !parsed?.login || !parsed?.team || !parsed?.role) return null;
-    if (parsed.role !== "admin" && parsed.role !== "staff") return null;
-    return parsed as Sess;
-  } catch {
-    return null;
-  }
-}
-
-async function getServerSession(): Promise<Sess | null> {
-  const store = await cookies(); // Next 16 (await ok mesmo se sync)
-  const raw = store.get("tm.session")?.value;
-  return readSessionCookie(raw);
-}
-
 type OutSale = {
   id: string;
   numero: string;
@@ -55,10 +28,9 @@ function safeInt(v: any, fb = 0) {
 }
 
 export async function GET(req: Request) {
-  const session = await getServerSession();
-  if (!session?.id) {
-    return NextResponse.json({ ok: false, error: "Não autenticado" }, { status: 401 });
-  }
+  const { session, db, denied } = await requirePermission("vendas.read");
+  if (denied) return denied;
+
 
   const url = new URL(req.url);
   const q = (url.searchParams.get("q") || "").trim();
@@ -113,14 +85,14 @@ export async function GET(req: Request) {
   }> = [];
 
   try {
-    purchases = await prisma.purchase.findMany({
+    purchases = await db.purchase.findMany({
       where: { ...whereBase, finalizedAt: null },
       orderBy: { createdAt: "desc" },
       select: selectPurchase,
     });
   } catch {
     needsMigration = true;
-    purchases = await prisma.purchase.findMany({
+    purchases = await db.purchase.findMany({
       where: whereBase,
       orderBy: { createdAt: "desc" },
       select: selectPurchase,
@@ -138,7 +110,7 @@ export async function GET(req: Request) {
    * - pointsValueCents (sem taxa)
    * - fallback: se pointsValueCents vier 0 nos dados antigos, assume = totalCents (taxas = 0)
    */
-  const sales = await prisma.sale.findMany({
+  const sales = await db.sale.findMany({
     where: {
       purchaseId: { in: ids },
       paymentStatus: { not: "CANCELED" },
@@ -194,7 +166,7 @@ export async function GET(req: Request) {
    * - pointsValueCents = milhas (sem taxa)
    * - fallback: se sum(pointsValueCents)=0 e totalCents>0, assume "sem taxa" = total (taxas=0)
    */
-  const sums = await prisma.sale.groupBy({
+  const sums = await db.sale.groupBy({
     by: ["purchaseId"],
     where: {
       purchaseId: { in: ids },
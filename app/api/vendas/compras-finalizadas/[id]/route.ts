@@ -1,36 +1,9 @@
 import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
-import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-type Sess = { id: string; login: string; team: string; role: "admin" | "staff" };
-
-function b64urlDecode(input: string) {
-  const pad = input.length % 4 === 0 ? "" : "=".repeat(4 - (input.length % 4));
-  const base64 = (input + pad).replace(/-/g, "+").replace(/_/g, "/");
-  return Buffer.from(base64, "base64").toString("utf8");
-}
-
-function readSessionCookie(raw?: string): Sess | null {
-  if (!raw) return null;
-  try {
-    const parsed = JSON.parse(b64urlDecode(raw)) as Partial<Sess>;
-    if (!parsed?.id || !parsed?.login || !parsed?.team || !parsed?.role) return null;
-    if (parsed.role !== "admin" && parsed.role !== "staff") return null;
-    return parsed as Sess;
-  } catch {
-    return null;
-  }
-}
-
-async function getServerSession(): Promise<Sess | null> {
-  const store = await cookies();
-  const raw = store.get("tm.session")?.value;
-  return readSessionCookie(raw);
-}
-
 function safeInt(v: unknown, fb = 0) {
   const n = Number(v);
   return Number.isFinite(n) ? Math.trunc(n) : fb;
@@ -79,10 +52,9 @@ export async function GET(
   _req: Request,
   ctx: { params: Promise<{ id: string }> }
 ) {
-  const session = await getServerSession();
-  if (!session?.id) {
-    return NextResponse.json({ ok: false, error: "Não autenticado" }, { status: 401 });
-  }
+  const { session, db, denied } = await requirePermission("vendas.read");
+  if (denied) return denied;
+
 
   const { id } = await ctx.params;
   const purchaseId = String(id || "").trim();
@@ -90,7 +62,7 @@ export async function GET(
     return NextResponse.json({ ok: false, error: "ID inválido" }, { status: 400 });
   }
 
-  const p = await prisma.purchase.findFirst({
+  const p = await db.purchase.findFirst({
     where: {
       id: purchaseId,
       finalizedAt: { not: null },
@@ -131,7 +103,7 @@ export async function GET(
   const finalizedAt = p.finalizedAt ?? new Date();
 
   // vendas (não canceladas)
-  const sales = await prisma.sale.findMany({
+  const sales = await db.sale.findMany({
     where: {
       purchaseId: p.id,
       paymentStatus: { not: "CANCELED" },
@@ -199,7 +171,7 @@ export async function GET(
   // ✅ rateio vigente na data de finalização
   const ownerId = p.cedente.ownerId;
 
-  const plan = await prisma.profitShare.findFirst({
+  const plan = await db.profitShare.findFirst({
     where: {
       team: session.team,
       ownerId,
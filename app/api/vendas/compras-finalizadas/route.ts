@@ -1,36 +1,9 @@
 import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
-import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-type Sess = { id: string; login: string; team: string; role: "admin" | "staff" };
-
-function b64urlDecode(input: string) {
-  const pad = input.length % 4 === 0 ? "" : "=".repeat(4 - (input.length % 4));
-  const base64 = (input + pad).replace(/-/g, "+").replace(/_/g, "/");
-  return Buffer.from(base64, "base64").toString("utf8");
-}
-
-function readSessionCookie(raw?: string): Sess | null {
-  if (!raw) return null;
-  try {
-    const parsed = JSON.parse(b64urlDecode(raw)) as Partial<Sess>;
-    if (!parsed?.id || !parsed?.login || !parsed?.team || !parsed?.role) return null;
-    if (parsed.role !== "admin" && parsed.role !== "staff") return null;
-    return parsed as Sess;
-  } catch {
-    return null;
-  }
-}
-
-async function getServerSession(): Promise<Sess | null> {
-  const store = await cookies();
-  const raw = store.get("tm.session")?.value;
-  return readSessionCookie(raw);
-}
-
 function safeInt(v: unknown, fb = 0) {
   const n = Number(v);
   return Number.isFinite(n) ? Math.trunc(n) : fb;
@@ -63,10 +36,9 @@ function clampTake(v: any, fallback = 200) {
 }
 
 export async function GET(req: Request) {
-  const session = await getServerSession();
-  if (!session?.id) {
-    return NextResponse.json({ ok: false, error: "Não autenticado" }, { status: 401 });
-  }
+  const { session, db, denied } = await requirePermission("vendas.read");
+  if (denied) return denied;
+
 
   const url = new URL(req.url);
   const q = (url.searchParams.get("q") || "").trim();
@@ -96,7 +68,7 @@ export async function GET(req: Request) {
     });
   }
 
-  const purchases = await prisma.purchase.findMany({
+  const purchases = await db.purchase.findMany({
     where,
     orderBy: [{ finalizedAt: "desc" }, { updatedAt: "desc" }],
     take,
@@ -139,7 +111,7 @@ export async function GET(req: Request) {
   const numerosAll = Array.from(new Set([...numeros, ...numerosUpper, ...numerosLower]));
 
   // ✅ busca vendas por purchaseId (cuid) OU por numero (legado)
-  const sales = await prisma.sale.findMany({
+  const sales = await db.sale.findMany({
     where: {
       paymentStatus: { not: "CANCELED" },
       OR: [{ purchaseId: { in: ids } }, { purchaseId: { in: numerosAll } }],
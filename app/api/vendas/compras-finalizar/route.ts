@@ -1,39 +1,13 @@
 import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
-import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/require-permission";
+import { emitDomainEvent } from "@/lib/outbox";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-type Sess = { id: string; login: string; team: string; role: "admin" | "staff" };
-
-function b64urlDecode(input: string) {
-  const pad = input.length % 4 === 0 ? "" : "=".repeat(4 - (input.length % 4));
-  const base64 = (input + pad).replace(/-/g, "+").replace(/_/g, "/");
-  return Buffer.from(base64, "base64").toString("utf8");
-}
-function readSessionCookie(raw?: string): Sess | null {
-  if (!raw) return null;
-  try {
-    const parsed = JSON.parse(b64urlDecode(raw)) as Partial<Sess>;
-    if (!parsed?.id || !parsed?.login || !parsed?.team || !parsed?.role) return null;
-    if (parsed.role !== "admin" && parsed.role !== "staff") return null;
-    return parsed as Sess;
-  } catch {
-    return null;
-  }
-}
-async function getServerSession(): Promise<Sess | null> {
-  const store = await cookies();
-  const raw = store.get("tm.session")?.value;
-  return readSessionCookie(raw);
-}
-
 export async function PATCH(req: Request) {
-  const session = await getServerSession();
-  if (!session?.id) {
-    return NextResponse.json({ ok: false, error: "Não autenticado" }, { status: 401 });
-  }
+  const { session, db, denied } = await requirePermission("vendas.write");
+  if (denied) return denied;
 
   const body = await req.json().catch(() => ({}));
   const purchaseId = String(body.purchaseId || "").trim();
@@ -42,7 +16,7 @@ export async function PATCH(req: Request) {
   }
 
   try {
-    const out = await prisma.$transaction(async (tx) => {
+    const out = await db.$transaction(async (tx) => {
       const purchase = await tx.purchase.findUnique({
         where: { id: purchaseId },
         select: {
@@ -100,6 +74,23 @@ export async function PATCH(req: Request) {
         },
       });
 
+      await emitDomainEvent(tx, {
+        team: session.team,
+        type: "purchase.finalized",
+        aggregateType: "Purchase",
+        aggregateId: updated.id,
+        actorId: session.id,
+        payload: {
+          numero: updated.numero,
+          finalizedAt: updated.finalizedAt?.toISOString() ?? null,
+          finalSalesCents: updated.finalSalesCents,
+          finalProfitCents: updated.finalProfitCents,
+          finalSoldPoints: updated.finalSoldPoints,
+          finalPax: updated.finalPax,
+          finalAvgMilheiroCents: updated.finalAvgMilheiroCents,
+        },
+      });
+
       return updated;
     });
 
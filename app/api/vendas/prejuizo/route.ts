@@ -1,8 +1,7 @@
 // app/api/vendas/prejuizo/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { cookies } from "next/headers";
-import { prisma } from "@/lib/prisma";
-import { requireSession } from "@/lib/auth-server";
+import { loadRateResolver, milheiroValueCents } from "@/lib/milheiro-rates";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -21,30 +20,6 @@ function bad(message: string, status = 400) {
   return NextResponse.json({ ok: false, error: message }, { status, headers: noCacheHeaders() });
 }
 
-type Sess = { id: string; login: string; team: string; role: "admin" | "staff" };
-
-function b64urlDecode(input: string) {
-  const pad = input.length % 4 === 0 ? "" : "=".repeat(4 - (input.length % 4));
-  const base64 = (input + pad).replace(/-/g, "+").replace(/_/g, "/");
-  return Buffer.from(base64, "base64").toString("utf8");
-}
-function readSessionCookie(raw?: string): Sess | null {
-  if (!raw) return null;
-  try {
-    const parsed = JSON.parse(b64urlDecode(raw)) as Partial<Sess>;
-    if (!parsed?.id || !parsed?.login || !parsed?.team || !parsed?.role) return null;
-    if (parsed.role !== "admin" && parsed.role !== "staff") return null;
-    return parsed as Sess;
-  } catch {
-    return null;
-  }
-}
-async function getServerSession(): Promise<Sess | null> {
-  const store = await cookies();
-  const raw = store.get("tm.session")?.value;
-  return readSessionCookie(raw);
-}
-
 function safeInt(v: unknown, fb = 0) {
   const n = Number(v);
   return Number.isFinite(n) ? Math.trunc(n) : fb;
@@ -88,13 +63,10 @@ function bonus30(points: number, milheiroCents: number, metaMilheiroCents: numbe
 type MonthAgg = { month: string; count: number; sumProfitCents: number };
 
 export async function GET(req: NextRequest) {
-  try {
-    // garante auth (seu helper)
-    await requireSession();
-
-    const session = await getServerSession();
-    if (!session?.id) return bad("Não autenticado", 401);
+  const { session, db, denied } = await requirePermission("vendas.read");
+  if (denied) return denied;
 
+  try {
     const { searchParams } = new URL(req.url);
     const q = String(searchParams.get("q") || "").trim();
     const month = String(searchParams.get("month") || "").trim(); // YYYY-MM
@@ -117,7 +89,7 @@ export async function GET(req: NextRequest) {
       ];
     }
 
-    const purchasesBase = await prisma.purchase.findMany({
+    const purchasesBase = await db.purchase.findMany({
       where: wherePurch,
       orderBy: [{ finalizedAt: "desc" }, { updatedAt: "desc" }],
       take: 5000, // limite pra não explodir
@@ -157,7 +129,7 @@ export async function GET(req: NextRequest) {
     const numerosLower = Array.from(new Set(numeros.map((n) => n.toLowerCase())));
     const numerosAll = Array.from(new Set([...numeros, ...numerosUpper, ...numerosLower]));
 
-    const sales = await prisma.sale.findMany({
+    const sales = await db.sale.findMany({
       where: {
         paymentStatus: { not: "CANCELED" }, // ✅ aqui que “cancelada” não entra
         OR: [{ purchaseId: { in: ids } }, { purchaseId: { in: numerosAll } }],
@@ -259,6 +231,9 @@ export async function GET(req: NextRequest) {
       }
     }
 
+    // ✅ milheiro vigente na data da finalização (avalia os pontos que sobraram)
+    const resolveRate = await loadRateResolver(db);
+
     // monta “out” calculado (igual compras finalizadas)
     const computed = purchasesBase.map((p) => {
       const a =
@@ -284,6 +259,11 @@ export async function GET(req: NextRequest) {
       const remaining =
         safeInt(p.pontosCiaTotal, 0) > 0 ? Math.max(safeInt(p.pontosCiaTotal, 0) - a.soldPoints, 0) : null;
 
+      const marketMilheiroCents =
+        p.ciaAerea && p.finalizedAt ? resolveRate(p.ciaAerea, p.finalizedAt).sellRateCents || null : null;
+      const remainingValue =
+        remaining != null && marketMilheiroCents ? milheiroValueCents(remaining, marketMilheiroCents) : null;
+
       const listSales = salesByPurchase.get(p.id) || [];
 
       return {
@@ -303,6 +283,8 @@ export async function GET(req: NextRequest) {
         finalPax: a.pax,
         finalAvgMilheiroCents: avgMilheiro,
         finalRemainingPoints: remaining,
+        finalMarketMilheiroCents: marketMilheiroCents,
+        finalRemainingValueCents: remainingValue,
       };
     });
 
@@ -1,18 +1,20 @@
 import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
-import { prisma } from "@/lib/prisma";
 import { Prisma } from "@prisma/client";
 import {
-  calcBonusCents,
-  calcCommissionCents,
   calcPointsValueCents,
   clampInt,
   formatSaleNumber,
-  passengerLimit,
   pointsField,
-  startOfYear,
-  endOfYearExclusive,
 } from "../_helpers/sales";
+import { getEmissionUsage } from "@/lib/emissions";
+import { postPointsMovement } from "@/lib/points-ledger";
+import { applySaleCogs } from "@/lib/points-lots";
+import { emitDomainEvent } from "@/lib/outbox";
+import { requirePermission } from "@/lib/require-permission";
+import { cardDisplayLabel } from "@/lib/payment-cards";
+import { assertPeriodsOpen, ClosedPeriodError } from "@/lib/contabil";
+import { createInstallmentPlan, MAX_INSTALLMENTS, planFromInput } from "@/lib/recebiveis";
+import { commissionBonusCents, commissionC1Cents, resolvePlanFor } from "@/lib/payouts/commissionPlans";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -28,51 +30,16 @@ type Program =
   | "TAP"
   | "FLYING_BLUE";
 
-type Sess = {
-  id: string;
-  login: string;
-  team: string;
-  role: "admin" | "staff";
-  name?: string;
-  email?: string | null;
-};
-
-function b64urlDecode(input: string) {
-  const pad = input.length % 4 === 0 ? "" : "=".repeat(4 - (input.length % 4));
-  const base64 = (input + pad).replace(/-/g, "+").replace(/_/g, "/");
-  return Buffer.from(base64, "base64").toString("utf8");
-}
-
-function readSessionCookie(raw?: string): Sess | null {
-  if (!raw) return null;
-  try {
-    const parsed = JSON.parse(b64urlDecode(raw)) as Partial<Sess>;
-    if (!parsed?.id || !parsed?.login || !parsed?.team || !parsed?.role) return null;
-    if (parsed.role !== "admin" && parsed.role !== "staff") return null;
-    return parsed as Sess;
-  } catch {
-    return null;
-  }
-}
-
-async function getServerSession(): Promise<Sess | null> {
-  const store = await cookies();
-  const raw = store.get("tm.session")?.value;
-  return readSessionCookie(raw);
-}
-
 function isPurchaseNumero(v: string) {
   return /^ID\d{5}$/i.test((v || "").trim());
 }
 
+// ✅ dia da venda ao meio-dia de Recife: mesmo dia/mês em UTC e no fuso do fechamento
 function parseDateISOToLocal(v?: any): Date {
   const s = String(v || "").trim();
   const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(s);
   if (!m) return new Date();
-  const y = Number(m[1]);
-  const mm = Number(m[2]);
-  const d = Number(m[3]);
-  return new Date(y, mm - 1, d);
+  return new Date(`${m[1]}-${m[2]}-${m[3]}T12:00:00-03:00`);
 }
 
 function parseDateISOToLocalOrNull(v?: any): Date | null {
@@ -165,10 +132,9 @@ function normalizeSaleValues(args: {
 }
 
 export async function GET(req: Request) {
-  const session = await getServerSession();
-  if (!session?.id) {
-    return NextResponse.json({ ok: false, error: "Não autenticado" }, { status: 401 });
-  }
+  const { db, denied } = await requirePermission("vendas.read");
+  if (denied) return denied;
+
 
   const { searchParams } = new URL(req.url);
   const limitRaw = Number(searchParams.get("limit") || 200);
@@ -202,7 +168,7 @@ export async function GET(req: Request) {
     ];
   }
 
-  const sales = await prisma.sale.findMany({
+  const sales = await db.sale.findMany({
     where,
     orderBy: [{ createdAt: "desc" }, { id: "desc" }],
     select: {
@@ -263,7 +229,9 @@ export async function GET(req: Request) {
 }
 
 export async function POST(req: Request) {
-  const session = await getServerSession();
+  const { session, db, denied } = await requirePermission("vendas.write");
+  if (denied) return denied;
+
   const userId = session?.id ?? null;
 
   if (!userId) {
@@ -288,7 +256,8 @@ export async function POST(req: Request) {
   const clienteId = String(body.clienteId || "").trim();
   const purchaseKey = String(body.purchaseNumero || body.purchaseId || "").trim();
 
-  const feeCardLabel = body.feeCardLabel ? String(body.feeCardLabel) : null;
+  let feeCardLabel = body.feeCardLabel ? String(body.feeCardLabel) : null;
+  const feeCardId = body.feeCardId ? String(body.feeCardId).trim() : null;
   const locator = body.locator ? String(body.locator) : null;
   const purchaseCodeRaw = body.purchaseCode
     ? String(body.purchaseCode).trim()
@@ -308,6 +277,20 @@ export async function POST(req: Request) {
 
   const date = parseDateISOToLocal(body.date);
 
+  // ✅ plano de pagamento: { installments?, firstDueDate?, intervalDays? } (padrão: 1 parcela na data da venda)
+  const installmentsIn = {
+    installments: body.installments,
+    firstDueDate: body.firstDueDate,
+    intervalDays: body.intervalDays,
+  };
+  const installmentsCount = body.installments === undefined || body.installments === null ? 1 : Number(body.installments);
+  if (!Number.isInteger(installmentsCount) || installmentsCount < 1 || installmentsCount > MAX_INSTALLMENTS) {
+    return NextResponse.json(
+      { ok: false, error: `Parcelas inválidas (1 a ${MAX_INSTALLMENTS}).` },
+      { status: 400 }
+    );
+  }
+
   if (
     ![
       "LATAM",
@@ -369,12 +352,23 @@ export async function POST(req: Request) {
     }
   }
 
-  const yearStart = startOfYear();
-  const yearEnd = endOfYearExclusive();
-  const paxLimit = passengerLimit(program);
+  // ✅ cartão cadastrado: o label sai do cadastro (a fatura do cartão usa o id)
+  if (feeCardId) {
+    const card = await db.paymentCard.findFirst({
+      where: { id: feeCardId, active: true },
+      select: { label: true, last4: true },
+    });
+    if (!card) {
+      return NextResponse.json({ ok: false, error: "Cartão da taxa não encontrado." }, { status: 400 });
+    }
+    feeCardLabel = cardDisplayLabel(card);
+  }
 
   try {
-    const result = await prisma.$transaction(async (tx) => {
+    const result = await db.$transaction(async (tx) => {
+      // ✅ mês já fechado na contabilidade não recebe venda retroativa
+      await assertPeriodsOpen(tx, [date]);
+
       const cedenteId = await resolveCedenteId(tx, cedenteKey);
       if (!cedenteId) throw new Error("Cedente não encontrado.");
 
@@ -403,13 +397,11 @@ export async function POST(req: Request) {
       if (!ced) throw new Error("Cedente não encontrado.");
       if (ced.status !== "APPROVED") throw new Error("Cedente não aprovado.");
 
-      const usedAgg = await tx.emissionEvent.aggregate({
-        where: { cedenteId, program, issuedAt: { gte: yearStart, lt: yearEnd } },
-        _sum: { passengersCount: true },
-      });
-      const used = clampInt(usedAgg._sum.passengersCount);
-      const availablePax = Math.max(0, paxLimit - used);
-      if (availablePax < passengers) throw new Error("Passageiros insuficientes no ano.");
+      // ✅ limite de CPFs pela regra do programa (lib/emissions.ts)
+      const usage = await getEmissionUsage(tx, { cedenteId, program, at: date });
+      if (usage.remaining < passengers) {
+        throw new Error(`Passageiros insuficientes (${usage.remaining} de ${usage.limit} livres na janela).`);
+      }
 
       const field = pointsField(program) as keyof typeof ced;
       const availablePts = clampInt((ced as any)[field]);
@@ -418,11 +410,11 @@ export async function POST(req: Request) {
       const purchase = isPurchaseNumero(purchaseKey)
         ? await tx.purchase.findFirst({
             where: { numero: purchaseKey.toUpperCase(), cedenteId },
-            select: { id: true, cedenteId: true, status: true, metaMilheiroCents: true },
+            select: { id: true, cedenteId: true, status: true, metaMilheiroCents: true, custoMilheiroCents: true },
           })
         : await tx.purchase.findUnique({
             where: { id: purchaseKey },
-            select: { id: true, cedenteId: true, status: true, metaMilheiroCents: true },
+            select: { id: true, cedenteId: true, status: true, metaMilheiroCents: true, custoMilheiroCents: true },
           });
 
       if (!purchase) throw new Error("Compra não encontrada.");
@@ -445,9 +437,10 @@ export async function POST(req: Request) {
       const totalCents = norm.totalCents;
       const milheiroFinal = norm.milheiroFinal;
 
-      // ✅ comissão e bônus SEM taxa
-      const commissionCents = calcCommissionCents(pointsValueCents);
-      const bonusCents = calcBonusCents(points, milheiroFinal, metaMilheiroCents);
+      // ✅ comissão e bônus SEM taxa, pelo plano vigente do vendedor
+      const plan = await resolvePlanFor(tx, userId, new Date());
+      const commissionCents = commissionC1Cents(plan.rules, pointsValueCents);
+      const bonusCents = commissionBonusCents(plan.rules, { points, milheiroCents: milheiroFinal, metaMilheiroCents });
 
       const n = await nextCounter(tx, "SALE");
       const numero = formatSaleNumber(n);
@@ -460,6 +453,7 @@ export async function POST(req: Request) {
 
       const receivable = await tx.receivable.create({
         data: {
+          team: session.team,
           title: `Venda ${numero} • ${cliente.nome}`,
           description: `Programa ${program} • ${points} pts • ${passengers} pax`,
           totalCents,
@@ -468,9 +462,15 @@ export async function POST(req: Request) {
           status: "OPEN",
         },
       });
+      await createInstallmentPlan(tx, {
+        team: session.team,
+        receivableId: receivable.id,
+        plan: planFromInput(totalCents, installmentsIn, String(body.date || "")),
+      });
 
       const sale = await tx.sale.create({
         data: {
+          team: session.team,
           numero,
           date,
           program,
@@ -489,6 +489,7 @@ export async function POST(req: Request) {
           metaMilheiroCents,
 
           feeCardLabel,
+          feeCardId,
           locator,
           purchaseCode,
           firstPassengerLastName,
@@ -505,16 +506,30 @@ export async function POST(req: Request) {
         select: { id: true, numero: true },
       });
 
-      const decData: any = {};
-      decData[field] = { decrement: points };
+      await postPointsMovement(tx, {
+        cedenteId,
+        program,
+        deltaPoints: -points,
+        source: "SALE",
+        actorId: userId,
+        refType: "SALE",
+        refId: sale.id,
+        note: `Venda ${sale.numero}`,
+      });
 
-      await tx.cedente.update({
-        where: { id: cedenteId },
-        data: decData,
+      // ✅ CMV real: consome os lotes de custo (FIFO/média); sem lote = milheiro de custo da compra
+      await applySaleCogs(tx, {
+        team: session.team,
+        saleId: sale.id,
+        cedenteId,
+        program,
+        points,
+        fallbackCostPerMilheiroCents: clampInt(purchase.custoMilheiroCents),
       });
 
       await tx.emissionEvent.create({
         data: {
+          team: session.team,
           cedenteId,
           program,
           passengersCount: passengers,
@@ -524,6 +539,26 @@ export async function POST(req: Request) {
         },
       });
 
+      await emitDomainEvent(tx, {
+        team: session.team,
+        type: "sale.created",
+        aggregateType: "Sale",
+        aggregateId: sale.id,
+        actorId: userId,
+        payload: {
+          numero: sale.numero,
+          date: date.toISOString(),
+          program,
+          points,
+          passengers,
+          totalCents,
+          cedenteId,
+          clienteId,
+          purchaseId: purchaseIdReal,
+          locator,
+        },
+      });
+
       return sale;
     });
 
@@ -531,7 +566,7 @@ export async function POST(req: Request) {
   } catch (e: any) {
     return NextResponse.json(
       { ok: false, error: e?.message || "Erro ao criar venda" },
-      { status: 400 }
+      { status: e instanceof ClosedPeriodError ? 409 : 400 }
     );
   }
 }
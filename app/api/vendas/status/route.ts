@@ -1,66 +1,77 @@
 import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
-import { prisma } from "@/lib/prisma";
+import { requirePermission } from "@/lib/require-permission";
+import { ClosedPeriodError, gateSaleChange } from "@/lib/contabil";
+import { syncInstallmentsWithSaleStatus } from "@/lib/recebiveis";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-type Sess = {
-  id: string;
-  login: string;
-  team: string;
-  role: "admin" | "staff";
-};
-
-function b64urlDecode(input: string) {
-  const pad = input.length % 4 === 0 ? "" : "=".repeat(4 - (input.length % 4));
-  const base64 = (input + pad).replace(/-/g, "+").replace(/_/g, "/");
-  return Buffer.from(base64, "base64").toString("utf8");
-}
-
-function readSessionCookie(raw?: string): Sess | null {
-  if (!raw) return null;
-  try {
-    const parsed = JSON.parse(b64urlDecode(raw)) as Partial<Sess>;
-    if (!parsed?.id || !parsed?.login || !parsed?.team || !parsed?.role) return null;
-    if (parsed.role !== "admin" && parsed.role !== "staff") return null;
-    return parsed as Sess;
-  } catch {
-    return null;
-  }
-}
-
-async function getServerSession(): Promise<Sess | null> {
-  const store = await cookies();
-  const raw = store.get("tm.session")?.value;
-  return readSessionCookie(raw);
-}
-
-type PaymentStatus = "PENDING" | "PAID" | "CANCELED";
+type PaymentStatus = "PENDING" | "PAID";
 
+/**
+ * PATCH { saleId, status: "PENDING" | "PAID", ajuste? }
+ *
+ * Só marca pago / pendente. Cancelar é em /api/vendas/cancelar (reembolso,
+ * pontos de volta, estorno de emissão e clawback); venda cancelada por lá
+ * não volta por aqui.
+ */
 export async function PATCH(req: Request) {
-  const session = await getServerSession();
-  if (!session?.id) {
-    return NextResponse.json({ ok: false, error: "Não autenticado" }, { status: 401 });
-  }
+  const { session, db, denied } = await requirePermission("vendas.write");
+  if (denied) return denied;
 
   const body = await req.json().catch(() => ({}));
   const saleId = String(body.saleId || "").trim();
   const status = String(body.status || "").trim().toUpperCase() as PaymentStatus;
+  const ajuste = body.ajuste === true;
 
   if (!saleId) return NextResponse.json({ ok: false, error: "saleId obrigatório" }, { status: 400 });
-  if (!["PENDING", "PAID", "CANCELED"].includes(status)) {
+  if (String(status) === "CANCELED") {
+    return NextResponse.json(
+      { ok: false, error: "Para cancelar a venda use /api/vendas/cancelar." },
+      { status: 400 }
+    );
+  }
+  if (!["PENDING", "PAID"].includes(status)) {
     return NextResponse.json({ ok: false, error: "status inválido" }, { status: 400 });
   }
 
   try {
-    const out = await prisma.$transaction(async (tx) => {
+    const out = await db.$transaction(async (tx) => {
       const sale = await tx.sale.findUnique({
         where: { id: saleId },
-        select: { id: true, totalCents: true, receivableId: true },
+        select: {
+          id: true,
+          numero: true,
+          program: true,
+          points: true,
+          passengers: true,
+          totalCents: true,
+          receivableId: true,
+          paymentStatus: true,
+          date: true,
+          _count: { select: { cancellations: true } },
+        },
       });
       if (!sale) throw new Error("Venda não encontrada.");
 
+      // ✅ cancelamento estruturado devolveu pontos/lotes/emissão: reativar aqui deixaria tudo torto
+      if (sale._count.cancellations > 0) {
+        throw new Error("Venda cancelada pelo fluxo de cancelamento: não dá para mudar o status por aqui (veja /api/vendas/cancelar).");
+      }
+
+      // ✅ mês fechado: reativar muda o faturamento e pago ↔ pendente muda
+      // recebido × a receber do snapshot → os dois só como ajuste
+      if (sale.paymentStatus !== status) {
+        await gateSaleChange(tx, {
+          team: session.team,
+          userId: session.id,
+          sale,
+          kind: sale.paymentStatus === "CANCELED" ? "SALE_REACTIVATE" : "SALE_STATUS",
+          ajuste,
+          status,
+        });
+      }
+
       const now = new Date();
 
       // Atualiza venda
@@ -83,7 +94,7 @@ export async function PATCH(req: Request) {
               balanceCents: 0,
             },
           });
-        } else if (status === "PENDING") {
+        } else {
           await tx.receivable.update({
             where: { id: sale.receivableId },
             data: {
@@ -92,17 +103,8 @@ export async function PATCH(req: Request) {
               balanceCents: sale.totalCents,
             },
           });
-        } else {
-          // CANCELED
-          await tx.receivable.update({
-            where: { id: sale.receivableId },
-            data: {
-              status: "CANCELED",
-              receivedCents: 0,
-              balanceCents: 0,
-            },
-          });
         }
+        await syncInstallmentsWithSaleStatus(tx, sale.receivableId, status);
       }
 
       return { saleId, status };
@@ -110,6 +112,12 @@ export async function PATCH(req: Request) {
 
     return NextResponse.json({ ok: true, ...out });
   } catch (e: any) {
+    if (e instanceof ClosedPeriodError) {
+      return NextResponse.json(
+        { ok: false, error: e.message, code: "PERIOD_CLOSED", adjustable: e.adjustable },
+        { status: 409 }
+      );
+    }
     return NextResponse.json({ ok: false, error: e?.message || "Erro ao atualizar status" }, { status: 400 });
   }
 }
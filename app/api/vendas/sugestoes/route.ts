@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { clampInt, endOfYearExclusive, passengerLimit, pointsField, startOfYear } from "../../_helpers/sales";
+import { clampInt, pointsField } from "../../_helpers/sales";
+import { describeEmissionLimit, getEmissionUsageByCedente } from "@/lib/emissions";
+import { requirePermission } from "@/lib/require-permission";
 
 type Program =
   | "LATAM"
@@ -21,6 +22,9 @@ function priorityBucket(leftover: number) {
 }
 
 export async function GET(req: Request) {
+  const { db, denied } = await requirePermission("vendas.read");
+  if (denied) return denied;
+
   const { searchParams } = new URL(req.url);
 
   const program = (searchParams.get("program") || "") as Program;
@@ -46,28 +50,22 @@ export async function GET(req: Request) {
     return NextResponse.json({ ok: true, suggestions: [] });
   }
 
-  const yearStart = startOfYear();
-  const yearEnd = endOfYearExclusive();
-  const paxLimit = passengerLimit(program);
-
   // bloqueios ABERTOS para esse programa
-  const blocked = await prisma.blockedAccount.findMany({
+  const blocked = await db.blockedAccount.findMany({
     where: { status: "OPEN", program },
     select: { cedenteId: true },
   });
   const blockedSet = new Set(blocked.map((b) => b.cedenteId));
 
-  // contagem anual de passageiros (soma passengersCount)
-  const usage = await prisma.emissionEvent.groupBy({
-    by: ["cedenteId"],
-    where: { program, issuedAt: { gte: yearStart, lt: yearEnd } },
-    _sum: { passengersCount: true },
+  // passageiros usados na janela do programa (mesma regra da venda e do painel)
+  const { rule, usedByCedente: usedMap } = await getEmissionUsageByCedente(db, {
+    program,
+    at: new Date(),
   });
-  const usedMap = new Map<string, number>();
-  for (const u of usage) usedMap.set(u.cedenteId, clampInt(u._sum.passengersCount));
+  const paxLimit = rule.paxLimit;
 
   // cedentes aprovados
-  const cedentes = await prisma.cedente.findMany({
+  const cedentes = await db.cedente.findMany({
     where: { status: "APPROVED" },
     select: {
       id: true,
@@ -158,5 +156,9 @@ export async function GET(req: Request) {
     return a.leftoverPoints - b.leftoverPoints;
   });
 
-  return NextResponse.json({ ok: true, suggestions: rows.slice(0, 60) });
+  return NextResponse.json({
+    ok: true,
+    suggestions: rows.slice(0, 60),
+    paxRule: describeEmissionLimit(rule),
+  });
 }
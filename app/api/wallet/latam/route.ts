@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { requireSession } from "@/lib/auth-server";
 import { LoyaltyProgram } from "@prisma/client";
+import { requirePermission } from "@/lib/require-permission";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -35,11 +34,13 @@ async function resolveUserId(session: any) {
 }
 
 export async function GET() {
-  const session = await requireSession();
+  const { session, db, denied } = await requirePermission("financeiro.read");
+  if (denied) return denied;
+
   const team = session.team;
 
   // ✅ TODOS os cedentes do time (sem heurística LATAM)
-  const cedentes = await prisma.cedente.findMany({
+  const cedentes = await db.cedente.findMany({
     where: {
       owner: { team },
     },
@@ -53,7 +54,7 @@ export async function GET() {
     orderBy: [{ nomeCompleto: "asc" }],
   });
 
-  const balances = await prisma.walletBalance.findMany({
+  const balances = await db.walletBalance.findMany({
     where: { team, program: LoyaltyProgram.LATAM },
     select: { cedenteId: true, amountCents: true, updatedAt: true },
   });
@@ -74,7 +75,7 @@ export async function GET() {
   }));
 
   // ✅ total eficiente (somatório direto no banco)
-  const agg = await prisma.walletBalance.aggregate({
+  const agg = await db.walletBalance.aggregate({
     where: { team, program: LoyaltyProgram.LATAM },
     _sum: { amountCents: true },
   });
@@ -87,7 +88,9 @@ export async function GET() {
 }
 
 export async function POST(req: NextRequest) {
-  const session = await requireSession();
+  const { session, db, denied } = await requirePermission("financeiro.write");
+  if (denied) return denied;
+
   const team = session.team;
   const userId = await resolveUserId(session);
 
@@ -100,13 +103,13 @@ export async function POST(req: NextRequest) {
   if (!cedenteId) return bad("cedenteId é obrigatório.");
 
   // garante que o cedente é do time
-  const cedente = await prisma.cedente.findFirst({
+  const cedente = await db.cedente.findFirst({
     where: { id: cedenteId, owner: { team } },
     select: { id: true },
   });
   if (!cedente) return bad("Cedente não encontrado para seu time.", 404);
 
-  const saved = await prisma.walletBalance.upsert({
+  const saved = await db.walletBalance.upsert({
     where: {
       team_cedenteId_program: {
         team,
@@ -129,7 +132,7 @@ export async function POST(req: NextRequest) {
   });
 
   // ✅ total eficiente (somatório direto no banco)
-  const agg = await prisma.walletBalance.aggregate({
+  const agg = await db.walletBalance.aggregate({
     where: { team, program: LoyaltyProgram.LATAM },
     _sum: { amountCents: true },
   });
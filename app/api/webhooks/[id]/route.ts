@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+import { isDomainEventType } from "@/lib/outbox";
+import {
+  WEBHOOK_ENDPOINT_SELECT,
+  generateWebhookSecret,
+  sealWebhookSecret,
+  validateWebhookUrl,
+} from "@/lib/webhooks";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function bad(message: string, status = 400) {
+  return NextResponse.json({ ok: false, error: message }, { status });
+}
+
+type Ctx = { params: Promise<{ id: string }> };
+
+/**
+ * PATCH /api/webhooks/:id
+ * Body: { name?, url?, events?, active?, rotateSecret? }
+ */
+export async function PATCH(req: Request, ctx: Ctx) {
+  const { db, denied } = await requirePermission("webhooks.manage");
+  if (denied) return denied;
+
+  const { id } = await ctx.params;
+  const body = await req.json().catch(() => ({}));
+
+  const data: {
+    name?: string;
+    url?: string;
+    events?: string[];
+    active?: boolean;
+    secret?: string;
+  } = {};
+
+  if (body?.name !== undefined) {
+    const name = String(body.name || "").trim().slice(0, 100);
+    if (!name) return bad("Informe um nome.");
+    data.name = name;
+  }
+  if (body?.url !== undefined) {
+    const url = await validateWebhookUrl(body.url);
+    if (!url.ok) return bad(url.error);
+    data.url = url.url;
+  }
+  if (body?.events !== undefined) {
+    const events: unknown[] = Array.isArray(body.events) ? body.events : [];
+    if (!events.every(isDomainEventType)) return bad("Evento desconhecido na lista.");
+    data.events = Array.from(new Set(events as string[]));
+  }
+  if (body?.active !== undefined) data.active = body.active === true;
+
+  let secret: string | null = null;
+  if (body?.rotateSecret === true) {
+    secret = generateWebhookSecret();
+    data.secret = sealWebhookSecret(secret);
+  }
+
+  const exists = await db.webhookEndpoint.findUnique({ where: { id }, select: { id: true } });
+  if (!exists) return bad("Endpoint não encontrado.", 404);
+
+  const updated = await db.webhookEndpoint.update({ where: { id }, data, select: WEBHOOK_ENDPOINT_SELECT });
+
+  return NextResponse.json({ ok: true, data: updated, secret });
+}
+
+/** DELETE /api/webhooks/:id (apaga também o histórico de entregas) */
+export async function DELETE(_req: Request, ctx: Ctx) {
+  const { db, denied } = await requirePermission("webhooks.manage");
+  if (denied) return denied;
+
+  const { id } = await ctx.params;
+  const r = await db.webhookEndpoint.deleteMany({ where: { id } });
+  if (r.count === 0) return bad("Endpoint não encontrado.", 404);
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+import { replayDelivery } from "@/lib/webhooks";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * POST /api/webhooks/deliveries/:id/replay
+ * Reenvia agora (zera as tentativas). Falhou de novo → volta para o backoff normal.
+ */
+export async function POST(_req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const { session, denied } = await requirePermission("webhooks.manage");
+  if (denied) return denied;
+
+  const { id } = await ctx.params;
+  const row = await replayDelivery(session.team, id);
+  if (!row) {
+    return NextResponse.json({ ok: false, error: "Entrega não encontrada." }, { status: 404 });
+  }
+
+  return NextResponse.json({ ok: true, data: row });
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { WebhookDeliveryStatus } from "@prisma/client";
+import { requirePermission } from "@/lib/require-permission";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/webhooks/deliveries?status=DEAD&endpointId=...
+ * Sem status = todas. DEAD = dead-letter (esgotou as tentativas).
+ */
+export async function GET(req: Request) {
+  const { db, denied } = await requirePermission("webhooks.manage");
+  if (denied) return denied;
+
+  const sp = new URL(req.url).searchParams;
+  const statusRaw = String(sp.get("status") || "").trim().toUpperCase();
+  const status = (Object.values(WebhookDeliveryStatus) as string[]).includes(statusRaw)
+    ? (statusRaw as WebhookDeliveryStatus)
+    : null;
+  const endpointId = String(sp.get("endpointId") || "").trim() || null;
+
+  const rows = await db.webhookDelivery.findMany({
+    where: {
+      ...(status ? { status } : {}),
+      ...(endpointId ? { endpointId } : {}),
+    },
+    orderBy: { createdAt: "desc" },
+    take: 200,
+    select: {
+      id: true,
+      status: true,
+      attempts: true,
+      nextAttemptAt: true,
+      lastAttemptAt: true,
+      lastStatusCode: true,
+      lastError: true,
+      deliveredAt: true,
+      createdAt: true,
+      endpoint: { select: { id: true, name: true } },
+      event: { select: { id: true, type: true, aggregateType: true, aggregateId: true, payload: true } },
+    },
+  });
+
+  return NextResponse.json({
+    ok: true,
+    rows: rows.map((r) => ({
+      ...r,
+      nextAttemptAt: r.nextAttemptAt.toISOString(),
+      lastAttemptAt: r.lastAttemptAt ? r.lastAttemptAt.toISOString() : null,
+      deliveredAt: r.deliveredAt ? r.deliveredAt.toISOString() : null,
+      createdAt: r.createdAt.toISOString(),
+    })),
+  });
+}
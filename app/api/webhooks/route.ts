@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/require-permission";
+import { DOMAIN_EVENTS, isDomainEventType } from "@/lib/outbox";
+import {
+  WEBHOOK_ENDPOINT_SELECT,
+  generateWebhookSecret,
+  sealWebhookSecret,
+  validateWebhookUrl,
+} from "@/lib/webhooks";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function bad(message: string, status = 400) {
+  return NextResponse.json({ ok: false, error: message }, { status });
+}
+
+/**
+ * GET /api/webhooks
+ * Endpoints do time (sem o segredo) + resumo das entregas de cada um.
+ */
+export async function GET() {
+  const { db, denied } = await requirePermission("webhooks.manage");
+  if (denied) return denied;
+
+  const [endpoints, counts] = await Promise.all([
+    db.webhookEndpoint.findMany({ orderBy: { createdAt: "asc" }, select: WEBHOOK_ENDPOINT_SELECT }),
+    db.webhookDelivery.groupBy({ by: ["endpointId", "status"], _count: { _all: true } }),
+  ]);
+
+  const stats = new Map<string, { PENDING: number; DELIVERED: number; DEAD: number }>();
+  for (const c of counts) {
+    const s = stats.get(c.endpointId) ?? { PENDING: 0, DELIVERED: 0, DEAD: 0 };
+    s[c.status] = c._count._all;
+    stats.set(c.endpointId, s);
+  }
+
+  return NextResponse.json({
+    ok: true,
+    events: DOMAIN_EVENTS,
+    data: endpoints.map((e) => ({
+      ...e,
+      stats: stats.get(e.id) ?? { PENDING: 0, DELIVERED: 0, DEAD: 0 },
+    })),
+  });
+}
+
+/**
+ * POST /api/webhooks
+ * Body: { name, url, events?: string[] }
+ * O segredo é gerado aqui e devolvido UMA vez (depois só dá para rotacionar).
+ */
+export async function POST(req: Request) {
+  const { session, db, denied } = await requirePermission("webhooks.manage");
+  if (denied) return denied;
+
+  const body = await req.json().catch(() => ({}));
+  const name = String(body?.name || "").trim().slice(0, 100);
+  const url = await validateWebhookUrl(body?.url);
+  const events: unknown[] = Array.isArray(body?.events) ? body.events : [];
+
+  if (!name) return bad("Informe um nome.");
+  if (!url.ok) return bad(url.error);
+  if (!events.every(isDomainEventType)) return bad("Evento desconhecido na lista.");
+
+  const secret = generateWebhookSecret();
+
+  const created = await db.webhookEndpoint.create({
+    data: {
+      team: session.team,
+      name,
+      url: url.url,
+      events: Array.from(new Set(events as string[])),
+      secret: sealWebhookSecret(secret),
+      createdById: session.id,
+    },
+    select: WEBHOOK_ENDPOINT_SELECT,
+  });
+
+  return NextResponse.json({ ok: true, data: created, secret }, { status: 201 });
+}
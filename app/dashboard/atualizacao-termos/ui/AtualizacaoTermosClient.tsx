@@ -14,11 +14,20 @@ type Horarios = {
 
 type BiometriaDisponibilidade = "YES" | "NO";
 
+type Aceite = {
+  termLink: string;
+  acceptedAt: string | null; // aceite da versão vigente
+  lastVersao: string | null;
+  lastAcceptedAt: string | null;
+};
+
 type Row = {
   id: string;
   nomeCompleto: string;
   telefone: string | null;
   owner: Owner;
+  waUrlTermo: string | null;
+  aceite: Aceite;
   disponibilidadeBiometria: BiometriaDisponibilidade;
   horarios: Horarios;
 };
@@ -28,10 +37,22 @@ type TermsApiRow = {
   nomeCompleto: string;
   telefone: string | null;
   owner: Owner;
+  whatsapp: { waUrlTermo: string | null };
+  aceite: Aceite;
+};
+
+type TermoAtual = {
+  id: string;
+  versao: string;
+  title: string;
+  effectiveAt: string;
 };
 
 type TermsResponse = {
   ok?: boolean;
+  termoVersao?: string;
+  termoTexto?: string;
+  termo?: TermoAtual | null;
   data?: TermsApiRow[];
   error?: string;
 };
@@ -53,18 +74,6 @@ const TURNOS: { key: TurnoKey; label: string; hint: string }[] = [
   { key: "turnoNoite", label: "Noite", hint: "18–22" },
 ];
 
-function onlyDigits(v: string) {
-  return (v || "").replace(/\D+/g, "");
-}
-
-function brToE164WhatsApp(raw: string | null) {
-  const d = onlyDigits(raw || "");
-  if (!d) return null;
-  if (d.length === 13 && d.startsWith("55")) return d;
-  if (d.length === 11) return `55${d}`;
-  return d.length >= 10 ? (d.startsWith("55") ? d : `55${d}`) : null;
-}
-
 function hasAnyTurno(horarios: Omit<Horarios, "updatedAt"> | Horarios) {
   return Boolean(horarios.turnoManha || horarios.turnoTarde || horarios.turnoNoite);
 }
@@ -84,15 +93,13 @@ function getErrorMessage(error: unknown, fallback: string) {
   return fallback;
 }
 
-export default function AtualizacaoTermosClient({
-  termoVersao,
-  termoTexto,
-}: {
-  termoVersao: string;
-  termoTexto: string;
-}) {
+export default function AtualizacaoTermosClient() {
+  const [termoVersao, setTermoVersao] = useState("");
+  const [termoTexto, setTermoTexto] = useState("");
+  const [termo, setTermo] = useState<TermoAtual | null>(null);
   const [rows, setRows] = useState<Row[]>([]);
   const [q, setQ] = useState("");
+  const [onlyPending, setOnlyPending] = useState(false);
   const [loading, setLoading] = useState(true);
   const [err, setErr] = useState<string | null>(null);
   const [savingId, setSavingId] = useState<string | null>(null);
@@ -102,24 +109,25 @@ export default function AtualizacaoTermosClient({
     setErr(null);
 
     try {
-      const [rTerms, rBio] = await Promise.all([
-        fetch(`/api/cedentes/termos?versao=${encodeURIComponent(termoVersao)}`, {
-          cache: "no-store",
-        }),
-        fetch(
-          `/api/cedentes/biometria-horarios?versao=${encodeURIComponent(
-            termoVersao
-          )}&all=1`,
-          { cache: "no-store" }
-        ),
-      ]);
-
+      // ✅ sem ?versao o backend usa a versão vigente do time
+      const rTerms = await fetch("/api/cedentes/termos", { cache: "no-store" });
       const jTerms = (await rTerms.json().catch(() => ({}))) as TermsResponse;
-      const jBio = (await rBio.json().catch(() => ({}))) as BioResponse;
 
       if (!rTerms.ok || jTerms?.ok === false) {
         throw new Error(jTerms?.error || "Falha ao carregar cedentes.");
       }
+
+      const versao = jTerms.termoVersao || "";
+      setTermoVersao(versao);
+      setTermoTexto(jTerms.termoTexto || "");
+      setTermo(jTerms.termo ?? null);
+
+      const rBio = await fetch(
+        `/api/cedentes/biometria-horarios?versao=${encodeURIComponent(versao)}&all=1`,
+        { cache: "no-store" }
+      );
+      const jBio = (await rBio.json().catch(() => ({}))) as BioResponse;
+
       if (!rBio.ok || jBio?.ok === false) {
         throw new Error(jBio?.error || "Falha ao carregar horários de biometria.");
       }
@@ -137,6 +145,8 @@ export default function AtualizacaoTermosClient({
           nomeCompleto: item.nomeCompleto,
           telefone: item.telefone,
           owner: item.owner,
+          waUrlTermo: item.whatsapp?.waUrlTermo ?? null,
+          aceite: item.aceite,
           horarios,
           disponibilidadeBiometria: hasAnyTurno(horarios) ? "YES" : "NO",
         };
@@ -153,20 +163,22 @@ export default function AtualizacaoTermosClient({
 
   useEffect(() => {
     load();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [termoVersao]);
+  }, []);
+
+  const pendingCount = useMemo(() => rows.filter((r) => !r.aceite?.acceptedAt).length, [rows]);
 
   const filtered = useMemo(() => {
     const s = q.trim().toLowerCase();
-    if (!s) return rows;
-    return rows.filter((r) => {
+    const base = onlyPending ? rows.filter((r) => !r.aceite?.acceptedAt) : rows;
+    if (!s) return base;
+    return base.filter((r) => {
       return (
         r.nomeCompleto.toLowerCase().includes(s) ||
         r.owner?.name?.toLowerCase().includes(s) ||
         r.owner?.login?.toLowerCase().includes(s)
       );
     });
-  }, [rows, q]);
+  }, [rows, q, onlyPending]);
 
   async function saveBiometria(
     cedenteId: string,
@@ -237,10 +249,25 @@ export default function AtualizacaoTermosClient({
     await navigator.clipboard.writeText(text);
   }
 
-  function makeWhatsAppUrl(row: Row) {
-    const e164 = brToE164WhatsApp(row.telefone);
-    if (!e164) return null;
-    return `https://wa.me/${e164}?text=${encodeURIComponent(termoTexto)}`;
+  // ✅ troca o token: o link antigo deixa de abrir o termo
+  async function renewLink(row: Row) {
+    if (!confirm(`Gerar um link novo para ${row.nomeCompleto}? O link anterior deixa de funcionar.`)) return;
+
+    setSavingId(row.id);
+    try {
+      const res = await fetch("/api/cedentes/termos/link", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ cedenteId: row.id }),
+      });
+      const j = (await res.json().catch(() => ({}))) as { ok?: boolean; error?: string };
+      if (!res.ok || j?.ok === false) throw new Error(j?.error || "Falha ao gerar link.");
+      await load();
+    } catch (error: unknown) {
+      alert(getErrorMessage(error, "Falha ao gerar link."));
+    } finally {
+      setSavingId(null);
+    }
   }
 
   return (
@@ -256,6 +283,15 @@ export default function AtualizacaoTermosClient({
               placeholder="Buscar cedente ou responsável..."
               className="h-10 w-[320px] rounded border border-zinc-300 px-3 text-sm"
             />
+            <label className="flex items-center gap-2 text-sm text-zinc-700">
+              <input
+                type="checkbox"
+                className="h-4 w-4"
+                checked={onlyPending}
+                onChange={(e) => setOnlyPending(e.target.checked)}
+              />
+              Só quem não aceitou
+            </label>
             <button
               onClick={load}
               className="h-10 rounded bg-zinc-900 text-white px-4 text-sm"
@@ -269,13 +305,35 @@ export default function AtualizacaoTermosClient({
           <div className="flex items-center justify-between gap-2 flex-wrap">
             <div className="text-sm text-zinc-700">
               <b>Versão do termo:</b> {termoVersao}
+              {termo ? (
+                <span className="text-zinc-500">
+                  {" "}
+                  • {termo.title} • vigente desde{" "}
+                  {new Date(termo.effectiveAt).toLocaleDateString("pt-BR", { timeZone: "UTC" })}
+                </span>
+              ) : (
+                <span className="text-zinc-500"> • termo legado (sem link de aceite)</span>
+              )}
+              {!loading ? (
+                <span className="ml-2 rounded bg-amber-100 px-2 py-0.5 text-xs text-amber-800">
+                  {pendingCount} sem aceite
+                </span>
+              ) : null}
+            </div>
+            <div className="flex items-center gap-2">
+              <a
+                href="/dashboard/atualizacao-termos/versoes"
+                className="inline-flex items-center h-9 rounded border border-zinc-300 px-3 text-sm"
+              >
+                Versões do termo
+              </a>
+              <button
+                className="h-9 rounded border border-zinc-300 px-3 text-sm"
+                onClick={() => copyText(termoTexto)}
+              >
+                Copiar mensagem
+              </button>
             </div>
-            <button
-              className="h-9 rounded border border-zinc-300 px-3 text-sm"
-              onClick={() => copyText(termoTexto)}
-            >
-              Copiar termo
-            </button>
           </div>
         </div>
       </div>
@@ -293,6 +351,7 @@ export default function AtualizacaoTermosClient({
               <th className="p-3">Cedente</th>
               <th className="p-3">Responsável</th>
               <th className="p-3">WhatsApp</th>
+              <th className="p-3">Aceite {termoVersao}</th>
               <th className="p-3">Disponibilidade de biometria?</th>
               <th className="p-3">Turnos</th>
               <th className="p-3">Atualizado</th>
@@ -302,19 +361,19 @@ export default function AtualizacaoTermosClient({
           <tbody>
             {loading ? (
               <tr>
-                <td className="p-4 text-zinc-600" colSpan={6}>
+                <td className="p-4 text-zinc-600" colSpan={7}>
                   Carregando...
                 </td>
               </tr>
             ) : filtered.length === 0 ? (
               <tr>
-                <td className="p-4 text-zinc-600" colSpan={6}>
+                <td className="p-4 text-zinc-600" colSpan={7}>
                   Nenhum cedente encontrado.
                 </td>
               </tr>
             ) : (
               filtered.map((r) => {
-                const wa = makeWhatsAppUrl(r);
+                const wa = r.waUrlTermo;
                 const saving = savingId === r.id;
 
                 return (
@@ -352,6 +411,43 @@ export default function AtualizacaoTermosClient({
                       )}
                     </td>
 
+                    <td className="p-3">
+                      {r.aceite?.acceptedAt ? (
+                        <span className="rounded bg-emerald-100 px-2 py-0.5 text-xs text-emerald-800">
+                          Aceito em {new Date(r.aceite.acceptedAt).toLocaleString("pt-BR")}
+                        </span>
+                      ) : (
+                        <div className="flex flex-col gap-1">
+                          <span className="w-fit rounded bg-amber-100 px-2 py-0.5 text-xs text-amber-800">
+                            Pendente
+                          </span>
+                          {r.aceite?.lastVersao ? (
+                            <span className="text-xs text-zinc-500">
+                              Último aceite: {r.aceite.lastVersao}
+                            </span>
+                          ) : null}
+                        </div>
+                      )}
+
+                      {termo && r.aceite ? (
+                        <div className="mt-2 flex gap-2">
+                          <button
+                            className="h-8 rounded border border-zinc-300 px-2 text-xs"
+                            onClick={() => copyText(r.aceite.termLink)}
+                          >
+                            Copiar link do termo
+                          </button>
+                          <button
+                            className="h-8 rounded border border-zinc-300 px-2 text-xs disabled:opacity-50"
+                            disabled={saving}
+                            onClick={() => renewLink(r)}
+                          >
+                            Novo link
+                          </button>
+                        </div>
+                      ) : null}
+                    </td>
+
                     <td className="p-3">
                       <select
                         className="h-9 rounded border border-zinc-300 px-2"
@@ -0,0 +1,6 @@
+// app/dashboard/atualizacao-termos/versoes/page.tsx
+import VersoesTermoClient from "./ui/VersoesTermoClient";
+
+export default function Page() {
+  return <VersoesTermoClient />;
+}
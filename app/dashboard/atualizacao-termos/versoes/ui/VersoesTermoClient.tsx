@@ -0,0 +1,354 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+const PROGRAMS = ["LATAM", "SMILES", "LIVELO", "ESFERA", "AZUL", "IBERIA", "AA", "TAP", "FLYING_BLUE"] as const;
+type Program = (typeof PROGRAMS)[number];
+
+type Clause = { program: Program; title: string; text: string };
+
+type TermDoc = {
+  id: string;
+  versao: string;
+  title: string;
+  body: string;
+  clauses: Clause[];
+  whatsappMsg: string | null;
+  effectiveAt: string;
+  contentHash: string;
+  createdAt: string;
+  createdBy: { id: string; name: string } | null;
+  acceptances: number;
+  current: boolean;
+};
+
+type Form = {
+  versao: string;
+  title: string;
+  effectiveAt: string; // YYYY-MM-DD
+  body: string;
+  whatsappMsg: string;
+  clauses: Clause[];
+};
+
+function todayInput() {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+function emptyForm(): Form {
+  return { versao: todayInput(), title: "", effectiveAt: todayInput(), body: "", whatsappMsg: "", clauses: [] };
+}
+
+function getErrorMessage(error: unknown, fallback: string) {
+  if (error instanceof Error && error.message) return error.message;
+  return fallback;
+}
+
+async function fetchDocs() {
+  const res = await fetch("/api/termos", { cache: "no-store" });
+  const j = (await res.json().catch(() => ({}))) as { ok?: boolean; data?: TermDoc[]; error?: string };
+  if (!res.ok || j?.ok === false) throw new Error(j?.error || "Falha ao carregar versões.");
+  return j.data || [];
+}
+
+export default function VersoesTermoClient() {
+  const [docs, setDocs] = useState<TermDoc[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [err, setErr] = useState<string | null>(null);
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  const [form, setForm] = useState<Form>(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  async function load() {
+    setLoading(true);
+    setErr(null);
+    try {
+      setDocs(await fetchDocs());
+    } catch (error: unknown) {
+      setErr(getErrorMessage(error, "Erro inesperado."));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    let alive = true;
+    fetchDocs()
+      .then((data) => alive && setDocs(data))
+      .catch((error: unknown) => alive && setErr(getErrorMessage(error, "Erro inesperado.")))
+      .finally(() => alive && setLoading(false));
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  // ✅ nova versão parte do texto da vigente (só muda o que precisa)
+  function copyFrom(doc: TermDoc) {
+    setForm({
+      versao: todayInput(),
+      title: doc.title,
+      effectiveAt: todayInput(),
+      body: doc.body,
+      whatsappMsg: doc.whatsappMsg || "",
+      clauses: doc.clauses.map((c) => ({ ...c })),
+    });
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  }
+
+  function patchClause(i: number, patch: Partial<Clause>) {
+    setForm((f) => ({ ...f, clauses: f.clauses.map((c, j) => (j === i ? { ...c, ...patch } : c)) }));
+  }
+
+  function addClause() {
+    const used = new Set(form.clauses.map((c) => c.program));
+    const program = PROGRAMS.find((p) => !used.has(p));
+    if (!program) return;
+    setForm((f) => ({ ...f, clauses: [...f.clauses, { program, title: program, text: "" }] }));
+  }
+
+  async function publish() {
+    if (!confirm(`Publicar a versão ${form.versao}? Depois de publicada ela não pode ser editada.`)) return;
+
+    setSaving(true);
+    setErr(null);
+    try {
+      const res = await fetch("/api/termos", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...form, effectiveAt: `${form.effectiveAt}T00:00:00` }),
+      });
+      const j = (await res.json().catch(() => ({}))) as { ok?: boolean; error?: string };
+      if (!res.ok || j?.ok === false) throw new Error(j?.error || "Falha ao publicar.");
+      setForm(emptyForm());
+      await load();
+    } catch (error: unknown) {
+      setErr(getErrorMessage(error, "Falha ao publicar."));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function remove(doc: TermDoc) {
+    if (!confirm(`Apagar a versão ${doc.versao}?`)) return;
+
+    setErr(null);
+    try {
+      const res = await fetch(`/api/termos/${doc.id}`, { method: "DELETE" });
+      const j = (await res.json().catch(() => ({}))) as { ok?: boolean; error?: string };
+      if (!res.ok || j?.ok === false) throw new Error(j?.error || "Falha ao apagar.");
+      await load();
+    } catch (error: unknown) {
+      setErr(getErrorMessage(error, "Falha ao apagar."));
+    }
+  }
+
+  const inputCls = "h-10 w-full rounded border border-zinc-300 px-3 text-sm";
+
+  return (
+    <div className="p-6 space-y-4">
+      <div className="flex items-center justify-between gap-3 flex-wrap">
+        <div>
+          <h1 className="text-xl font-semibold">Versões do termo</h1>
+          <p className="text-sm text-zinc-500">
+            Vigente = a de data mais recente que já começou. Cada cedente aceita pelo próprio link em{" "}
+            <a href="/dashboard/atualizacao-termos" className="underline">
+              Atualização de termos
+            </a>
+            .
+          </p>
+        </div>
+        <button onClick={load} className="h-10 rounded bg-zinc-900 text-white px-4 text-sm">
+          {loading ? "Atualizando..." : "Atualizar"}
+        </button>
+      </div>
+
+      {err ? <div className="rounded border border-red-200 bg-red-50 p-3 text-sm text-red-700">{err}</div> : null}
+
+      <div className="rounded border border-zinc-200 bg-white p-4 space-y-3">
+        <div className="text-sm font-semibold">Publicar nova versão</div>
+
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+          <label className="text-xs text-zinc-600">
+            Versão
+            <input
+              className={inputCls}
+              value={form.versao}
+              onChange={(e) => setForm((f) => ({ ...f, versao: e.target.value }))}
+              placeholder="2026-03-01"
+            />
+          </label>
+          <label className="text-xs text-zinc-600">
+            Título
+            <input
+              className={inputCls}
+              value={form.title}
+              onChange={(e) => setForm((f) => ({ ...f, title: e.target.value }))}
+              placeholder="Termo de ciência e autorização"
+            />
+          </label>
+          <label className="text-xs text-zinc-600">
+            Vigente a partir de
+            <input
+              type="date"
+              className={inputCls}
+              value={form.effectiveAt}
+              onChange={(e) => setForm((f) => ({ ...f, effectiveAt: e.target.value }))}
+            />
+          </label>
+        </div>
+
+        <label className="block text-xs text-zinc-600">
+          Texto integral
+          <textarea
+            className="mt-1 min-h-[220px] w-full rounded border border-zinc-300 p-3 text-sm"
+            value={form.body}
+            onChange={(e) => setForm((f) => ({ ...f, body: e.target.value }))}
+          />
+        </label>
+
+        <label className="block text-xs text-zinc-600">
+          Mensagem do WhatsApp (o link do cedente vai no final)
+          <textarea
+            className="mt-1 min-h-[80px] w-full rounded border border-zinc-300 p-3 text-sm"
+            value={form.whatsappMsg}
+            onChange={(e) => setForm((f) => ({ ...f, whatsappMsg: e.target.value }))}
+          />
+        </label>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <div className="text-xs font-medium text-zinc-600">Cláusulas por programa (o cedente escolhe quais aceita)</div>
+            <button
+              onClick={addClause}
+              disabled={form.clauses.length >= PROGRAMS.length}
+              className="h-8 rounded border border-zinc-300 px-3 text-xs disabled:opacity-50"
+            >
+              + Cláusula
+            </button>
+          </div>
+
+          {form.clauses.map((c, i) => (
+            <div key={i} className="grid grid-cols-1 gap-2 rounded border border-zinc-200 p-3 md:grid-cols-[160px_1fr_auto]">
+              <select
+                className="h-10 rounded border border-zinc-300 px-2 text-sm"
+                value={c.program}
+                onChange={(e) => patchClause(i, { program: e.target.value as Program })}
+              >
+                {PROGRAMS.map((p) => (
+                  <option key={p} value={p}>
+                    {p}
+                  </option>
+                ))}
+              </select>
+              <input
+                className={inputCls}
+                value={c.title}
+                onChange={(e) => patchClause(i, { title: e.target.value })}
+                placeholder="Título da cláusula"
+              />
+              <button
+                onClick={() => setForm((f) => ({ ...f, clauses: f.clauses.filter((_, j) => j !== i) }))}
+                className="h-10 rounded border border-zinc-300 px-3 text-xs"
+              >
+                Remover
+              </button>
+              <textarea
+                className="min-h-[80px] w-full rounded border border-zinc-300 p-3 text-sm md:col-span-3"
+                value={c.text}
+                onChange={(e) => patchClause(i, { text: e.target.value })}
+                placeholder="Texto da cláusula"
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            onClick={publish}
+            disabled={saving}
+            className="h-10 rounded bg-zinc-900 px-4 text-sm text-white disabled:opacity-50"
+          >
+            {saving ? "Publicando..." : "Publicar versão"}
+          </button>
+        </div>
+      </div>
+
+      <div className="rounded border border-zinc-200 bg-white overflow-x-auto">
+        <table className="min-w-[900px] w-full text-sm">
+          <thead className="bg-zinc-50">
+            <tr className="text-left">
+              <th className="p-3">Versão</th>
+              <th className="p-3">Título</th>
+              <th className="p-3">Vigente desde</th>
+              <th className="p-3">Aceites</th>
+              <th className="p-3">Publicada por</th>
+              <th className="p-3" />
+            </tr>
+          </thead>
+          <tbody>
+            {docs.map((d) => (
+              <tr key={d.id} className="border-t border-zinc-100 align-top">
+                <td className="p-3">
+                  <div className="font-medium">{d.versao}</div>
+                  {d.current ? (
+                    <span className="rounded bg-emerald-100 px-2 py-0.5 text-xs text-emerald-800">vigente</span>
+                  ) : null}
+                </td>
+                <td className="p-3">
+                  <div>{d.title}</div>
+                  {d.clauses.length ? (
+                    <div className="text-xs text-zinc-500">Cláusulas: {d.clauses.map((c) => c.program).join(", ")}</div>
+                  ) : null}
+                  {openId === d.id ? (
+                    <div className="mt-2 max-h-[300px] overflow-auto whitespace-pre-wrap rounded border bg-zinc-50 p-2 text-xs">
+                      {d.body}
+                    </div>
+                  ) : null}
+                  <div className="mt-1 break-all text-[11px] text-zinc-400">sha256 {d.contentHash}</div>
+                </td>
+                <td className="p-3">{new Date(d.effectiveAt).toLocaleDateString("pt-BR")}</td>
+                <td className="p-3 tabular-nums">{d.acceptances}</td>
+                <td className="p-3">
+                  <div>{d.createdBy?.name || "-"}</div>
+                  <div className="text-xs text-zinc-500">{new Date(d.createdAt).toLocaleString("pt-BR")}</div>
+                </td>
+                <td className="p-3">
+                  <div className="flex justify-end gap-2">
+                    <button
+                      onClick={() => setOpenId((v) => (v === d.id ? null : d.id))}
+                      className="h-8 rounded border border-zinc-300 px-2 text-xs"
+                    >
+                      {openId === d.id ? "Fechar" : "Ver texto"}
+                    </button>
+                    <button onClick={() => copyFrom(d)} className="h-8 rounded border border-zinc-300 px-2 text-xs">
+                      Usar como base
+                    </button>
+                    {d.acceptances === 0 ? (
+                      <button
+                        onClick={() => remove(d)}
+                        className="h-8 rounded border border-red-200 px-2 text-xs text-red-700"
+                      >
+                        Apagar
+                      </button>
+                    ) : null}
+                  </div>
+                </td>
+              </tr>
+            ))}
+
+            {!loading && docs.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="p-4 text-zinc-600">
+                  Nenhuma versão publicada. Enquanto isso vale o termo legado (só mensagem de WhatsApp, sem link de
+                  aceite).
+                </td>
+              </tr>
+            ) : null}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,303 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  AUDIT_ACTION_LABEL,
+  AUDIT_MODEL_LABEL,
+  AuditChanges,
+  type AuditRow,
+} from "@/components/AuditTimeline";
+
+type Filters = {
+  model: string;
+  recordId: string;
+  actorId: string;
+  action: string;
+  from: string;
+  to: string;
+  q: string;
+};
+
+function cn(...xs: Array<string | false | null | undefined>) {
+  return xs.filter(Boolean).join(" ");
+}
+
+function fmtDateTimeBR(v: string) {
+  const d = new Date(v);
+  if (Number.isNaN(d.getTime())) return "-";
+  return d.toLocaleString("pt-BR", { dateStyle: "short", timeStyle: "medium" });
+}
+
+function toQuery(f: Filters, cursor?: string | null) {
+  const sp = new URLSearchParams();
+  for (const [k, v] of Object.entries(f)) if (v.trim()) sp.set(k, v.trim());
+  if (cursor) sp.set("cursor", cursor);
+  return sp.toString();
+}
+
+async function fetchPage(f: Filters, cursor?: string | null) {
+  const res = await fetch(`/api/auditoria?${toQuery(f, cursor)}`, { cache: "no-store" });
+  const json = await res.json().catch(() => null);
+  if (!res.ok || !json?.ok) throw new Error(json?.error || "Falha ao carregar auditoria.");
+  return json as {
+    rows: AuditRow[];
+    nextCursor: string | null;
+    actors?: Array<{ id: string; name: string }>;
+  };
+}
+
+export default function AuditoriaClient({
+  initialModel,
+  initialRecordId,
+}: {
+  initialModel: string;
+  initialRecordId: string;
+}) {
+  const [draft, setDraft] = useState<Filters>({
+    model: initialModel,
+    recordId: initialRecordId,
+    actorId: "",
+    action: "",
+    from: "",
+    to: "",
+    q: "",
+  });
+  const [filters, setFilters] = useState<Filters>(draft);
+
+  const [rows, setRows] = useState<AuditRow[]>([]);
+  const [actors, setActors] = useState<Array<{ id: string; name: string }>>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let alive = true;
+    fetchPage(filters)
+      .then((json) => {
+        if (!alive) return;
+        setRows(json.rows);
+        setNextCursor(json.nextCursor);
+        if (json.actors) setActors(json.actors);
+        setError("");
+      })
+      .catch((e) => alive && setError(e instanceof Error ? e.message : "Erro ao carregar."))
+      .finally(() => alive && setLoading(false));
+    return () => {
+      alive = false;
+    };
+  }, [filters]);
+
+  function apply() {
+    setLoading(true);
+    setFilters({ ...draft });
+  }
+
+  function clear() {
+    const empty = { model: "", recordId: "", actorId: "", action: "", from: "", to: "", q: "" };
+    setDraft(empty);
+    setLoading(true);
+    setFilters(empty);
+  }
+
+  async function loadMore() {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const json = await fetchPage(filters, nextCursor);
+      setRows((prev) => [...prev, ...json.rows]);
+      setNextCursor(json.nextCursor);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao carregar.");
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
+  function showTimeline(r: AuditRow) {
+    const next = { ...draft, model: r.model, recordId: r.recordId };
+    setDraft(next);
+    setLoading(true);
+    setFilters(next);
+  }
+
+  const input = "h-9 rounded-xl border border-slate-200 bg-white px-3 text-sm";
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h1 className="text-2xl font-semibold">Auditoria</h1>
+        <p className="text-sm text-slate-500">
+          Toda criação, alteração e exclusão em vendas, compras, pagamentos, impostos, dívidas,
+          comissões e configurações — com antes/depois, usuário e motivo.
+        </p>
+      </div>
+
+      <div className="rounded-2xl border bg-white p-4 space-y-3">
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={draft.model}
+            onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+            className={input}
+          >
+            <option value="">Todos os registros</option>
+            {Object.entries(AUDIT_MODEL_LABEL).map(([k, label]) => (
+              <option key={k} value={k}>
+                {label}
+              </option>
+            ))}
+          </select>
+
+          <select
+            value={draft.action}
+            onChange={(e) => setDraft({ ...draft, action: e.target.value })}
+            className={input}
+          >
+            <option value="">Todas as ações</option>
+            {Object.entries(AUDIT_ACTION_LABEL).map(([k, label]) => (
+              <option key={k} value={k}>
+                {label}
+              </option>
+            ))}
+          </select>
+
+          <select
+            value={draft.actorId}
+            onChange={(e) => setDraft({ ...draft, actorId: e.target.value })}
+            className={input}
+          >
+            <option value="">Todos os usuários</option>
+            {actors.map((a) => (
+              <option key={a.id} value={a.id}>
+                {a.name}
+              </option>
+            ))}
+          </select>
+
+          <input
+            type="date"
+            value={draft.from}
+            onChange={(e) => setDraft({ ...draft, from: e.target.value })}
+            className={input}
+          />
+          <input
+            type="date"
+            value={draft.to}
+            onChange={(e) => setDraft({ ...draft, to: e.target.value })}
+            className={input}
+          />
+
+          <input
+            value={draft.recordId}
+            onChange={(e) => setDraft({ ...draft, recordId: e.target.value })}
+            placeholder="ID do registro"
+            className={cn(input, "w-56 font-mono")}
+          />
+          <input
+            value={draft.q}
+            onChange={(e) => setDraft({ ...draft, q: e.target.value })}
+            onKeyDown={(e) => e.key === "Enter" && apply()}
+            placeholder="Motivo, request ID..."
+            className={cn(input, "w-56")}
+          />
+
+          <button onClick={apply} className="h-9 rounded-xl bg-black px-4 text-sm text-white">
+            Filtrar
+          </button>
+          <button onClick={clear} className="h-9 rounded-xl border px-3 text-sm hover:bg-slate-50">
+            Limpar
+          </button>
+        </div>
+
+        {filters.model && filters.recordId ? (
+          <div className="text-xs text-slate-500">
+            Linha do tempo de {AUDIT_MODEL_LABEL[filters.model] || filters.model}{" "}
+            <span className="font-mono">{filters.recordId}</span>
+          </div>
+        ) : null}
+      </div>
+
+      {error ? <div className="text-sm text-rose-600">{error}</div> : null}
+
+      <div className="rounded-2xl border bg-white overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 border-b text-slate-600">
+            <tr>
+              <th className="px-3 py-2 text-left">Quando</th>
+              <th className="px-3 py-2 text-left">Registro</th>
+              <th className="px-3 py-2 text-left">Ação</th>
+              <th className="px-3 py-2 text-left">Usuário</th>
+              <th className="px-3 py-2 text-left">Alterações</th>
+              <th className="px-3 py-2 text-left">Motivo / request</th>
+            </tr>
+          </thead>
+          <tbody>
+            {loading ? (
+              <tr>
+                <td className="px-3 py-6 text-slate-500" colSpan={6}>
+                  Carregando...
+                </td>
+              </tr>
+            ) : rows.length === 0 ? (
+              <tr>
+                <td className="px-3 py-6 text-slate-500" colSpan={6}>
+                  Nenhum registro de auditoria.
+                </td>
+              </tr>
+            ) : (
+              rows.map((r) => (
+                <tr key={r.id} className="border-b last:border-b-0 align-top">
+                  <td className="px-3 py-2 whitespace-nowrap">{fmtDateTimeBR(r.createdAt)}</td>
+                  <td className="px-3 py-2">
+                    <div>{AUDIT_MODEL_LABEL[r.model] || r.model}</div>
+                    <button
+                      onClick={() => showTimeline(r)}
+                      className="font-mono text-xs text-slate-500 underline"
+                      title="Ver linha do tempo deste registro"
+                    >
+                      {r.recordId}
+                    </button>
+                  </td>
+                  <td className="px-3 py-2">
+                    <span
+                      className={cn(
+                        "rounded-full px-2 py-0.5 text-xs",
+                        r.action === "CREATE" && "bg-emerald-100 text-emerald-700",
+                        r.action === "UPDATE" && "bg-sky-100 text-sky-700",
+                        r.action === "DELETE" && "bg-rose-100 text-rose-700"
+                      )}
+                    >
+                      {AUDIT_ACTION_LABEL[r.action]}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2">{r.actor?.name || "sistema"}</td>
+                  <td className="px-3 py-2">
+                    <AuditChanges row={r} />
+                  </td>
+                  <td className="px-3 py-2 text-xs text-slate-600">
+                    {r.reason ? <div>{r.reason}</div> : <div className="text-slate-400">—</div>}
+                    {r.requestId ? (
+                      <div className="font-mono text-[11px] text-slate-400 break-all">{r.requestId}</div>
+                    ) : null}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {nextCursor ? (
+        <div className="flex justify-center">
+          <button
+            onClick={loadMore}
+            disabled={loadingMore}
+            className="rounded-xl border px-4 py-2 text-sm hover:bg-slate-50 disabled:opacity-50"
+          >
+            {loadingMore ? "Carregando..." : "Carregar mais"}
+          </button>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import AuditoriaClient from "./AuditoriaClient";
+
+export const dynamic = "force-dynamic";
+
+type SP = Record<string, string | string[] | undefined>;
+
+function pick(sp: SP, key: string) {
+  const v = sp[key];
+  return (Array.isArray(v) ? v[0] : v) ?? "";
+}
+
+export default async function Page({ searchParams }: { searchParams: Promise<SP> }) {
+  const sp = await searchParams;
+  return <AuditoriaClient initialModel={pick(sp, "model")} initialRecordId={pick(sp, "recordId")} />;
+}
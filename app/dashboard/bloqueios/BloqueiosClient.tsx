@@ -17,20 +17,61 @@ type CedenteOpt = {
 
 type Observation = { id: string; text: string; createdAt: string };
 
+type ProtocolStatus = "DRAFT" | "SENT" | "WAITING" | "RESOLVED" | "DENIED";
+type LinkedProtocol = { id: string; status: ProtocolStatus; title: string | null; updatedAt: string };
+
+type BlockReason = { code: string; label: string };
+
+type SlaRow = {
+  program: BlockRow["program"];
+  reasonCode: string | null;
+  reasonLabel: string;
+  resolved: number;
+  avgDays: number;
+  medianDays: number;
+  maxDays: number;
+  open: number;
+  overdue: number;
+};
+
+type ValuePoint = { date: string; openCount: number; points: number; valueCents: number };
+
 type BlockRow = {
   id: string;
   status: "OPEN" | "UNBLOCKED" | "CANCELED";
   program: "LATAM" | "SMILES" | "LIVELO" | "ESFERA";
   note?: string | null;
+  reasonCode?: string | null;
+  reasonLabel?: string;
   estimatedUnlockAt?: string | null;
+  forecastUnlockAt?: string | null;
+  forecastBasis?: "ESTIMATE" | "REASON_SLA" | "PROGRAM_SLA" | null;
+  forecastSamples?: number;
+  overdue?: boolean;
   resolvedAt?: string | null;
   createdAt: string;
   cedente: { id: string; nomeCompleto: string; cpf: string; identificador: string };
+  pointsAtBlock?: number;
   pointsBlocked: number;
   valueBlockedCents: number;
+  rateCents?: number;
+  valueAtOpenCents?: number;
   observations: Observation[];
+  protocols?: LinkedProtocol[];
 };
 
+const PROTOCOL_STATUS: Record<ProtocolStatus, { label: string; cls: string }> = {
+  DRAFT: { label: "Rascunho", cls: "bg-slate-100 text-slate-700 border-slate-200" },
+  SENT: { label: "Enviado", cls: "bg-blue-50 text-blue-700 border-blue-200" },
+  WAITING: { label: "Aguardando", cls: "bg-amber-50 text-amber-800 border-amber-200" },
+  RESOLVED: { label: "Resolvido", cls: "bg-emerald-50 text-emerald-700 border-emerald-200" },
+  DENIED: { label: "Negado", cls: "bg-rose-50 text-rose-700 border-rose-200" },
+};
+
+function fmtDays(n: number) {
+  return `${n.toFixed(1).replace(".", ",")} d`;
+}
+
 function fmtMoney(cents: number) {
   return ((cents || 0) / 100).toLocaleString("pt-BR", {
     style: "currency",
@@ -87,8 +128,16 @@ function statusBadge(b: BlockRow) {
 
   const d = daysUntil(b.estimatedUnlockAt);
 
-  // chegou no dia ou passou
-  if (d <= 0) {
+  // ✅ passou da previsão: lembrete
+  if (d < 0) {
+    return {
+      label: `Previsão vencida há ${-d} dia(s)`,
+      cls: "bg-rose-50 border-rose-200 text-rose-700",
+    };
+  }
+
+  // chegou no dia
+  if (d === 0) {
     return {
       label: "Dia do desbloqueio",
       cls: "bg-emerald-50 border-emerald-200 text-emerald-700",
@@ -110,18 +159,65 @@ function statusBadge(b: BlockRow) {
   };
 }
 
+// ======= valor parado em bloqueios (sem libs) =======
+function ValueChart({ points }: { points: ValuePoint[] }) {
+  const w = 980;
+  const h = 180;
+  const pad = { l: 12, r: 80, t: 10, b: 22 };
+  const plotW = w - pad.l - pad.r;
+  const plotH = h - pad.t - pad.b;
+  const max = Math.max(1, ...points.map((p) => p.valueCents));
+  const x = (i: number) => pad.l + (points.length > 1 ? (i / (points.length - 1)) * plotW : 0);
+  const y = (v: number) => pad.t + plotH - (v / max) * plotH;
+
+  const line = points.map((p, i) => `${i ? "L" : "M"} ${x(i)} ${y(p.valueCents)}`).join(" ");
+  const area = points.length ? `${line} L ${x(points.length - 1)} ${pad.t + plotH} L ${x(0)} ${pad.t + plotH} Z` : "";
+  const last = points[points.length - 1];
+
+  return (
+    <svg viewBox={`0 0 ${w} ${h}`} className="w-full">
+      <line x1={pad.l} x2={pad.l + plotW} y1={y(max)} y2={y(max)} stroke="#e5e7eb" />
+      <line x1={pad.l} x2={pad.l + plotW} y1={y(0)} y2={y(0)} stroke="#e5e7eb" />
+      <text x={pad.l + plotW + 6} y={y(max) + 3} fontSize="10" fill="#64748b">
+        {fmtMoney(max)}
+      </text>
+      <path d={area} fill="#fee2e2" />
+      <path d={line} fill="none" stroke="#e11d48" strokeWidth="2" />
+      {points.length ? (
+        <>
+          <text x={pad.l} y={h - 6} fontSize="10" fill="#64748b">
+            {dateBR(`${points[0].date}T12:00:00Z`)}
+          </text>
+          <text x={pad.l + plotW} y={h - 6} fontSize="10" fill="#64748b" textAnchor="end">
+            {dateBR(`${last.date}T12:00:00Z`)}
+          </text>
+          <text x={pad.l + plotW + 6} y={y(last.valueCents) + 3} fontSize="10" fill="#e11d48">
+            {fmtMoney(last.valueCents)}
+          </text>
+        </>
+      ) : null}
+    </svg>
+  );
+}
+
 export default function BloqueiosClient() {
   const [loading, setLoading] = useState(false);
 
   const [cedentes, setCedentes] = useState<CedenteOpt[]>([]);
   const [rows, setRows] = useState<BlockRow[]>([]);
+  const [reasons, setReasons] = useState<Record<string, BlockReason[]>>({});
+  const [sla, setSla] = useState<SlaRow[]>([]);
+  const [series, setSeries] = useState<ValuePoint[]>([]);
 
   const [cedenteId, setCedenteId] = useState("");
   const [program, setProgram] = useState<BlockRow["program"]>("LATAM");
   const [note, setNote] = useState("");
   const [estimatedUnlockAt, setEstimatedUnlockAt] = useState(""); // yyyy-mm-dd
+  const [reasonCode, setReasonCode] = useState("");
 
   const [obsText, setObsText] = useState<Record<string, string>>({});
+  const [protocolText, setProtocolText] = useState<Record<string, string>>({});
+  const [editing, setEditing] = useState<Record<string, { reasonCode: string; estimatedUnlockAt: string }>>({});
 
   async function loadAll() {
     setLoading(true);
@@ -139,6 +235,9 @@ export default function BloqueiosClient() {
 
       setCedentes(j1.data || []);
       setRows(j2.data.rows || []);
+      setReasons(j2.data.reasons || {});
+      setSla(j2.data.sla || []);
+      setSeries(j2.data.series || []);
     } catch (e: any) {
       alert(e.message);
     } finally {
@@ -169,9 +268,16 @@ export default function BloqueiosClient() {
     const open = rows.filter((r) => r.status === "OPEN");
     const points = open.reduce((a, r) => a + (r.pointsBlocked || 0), 0);
     const value = open.reduce((a, r) => a + (r.valueBlockedCents || 0), 0);
-    return { openCount: open.length, pointsBlocked: points, valueBlockedCents: value };
+    return {
+      openCount: open.length,
+      pointsBlocked: points,
+      valueBlockedCents: value,
+      overdueCount: open.filter((r) => r.overdue).length,
+    };
   }, [rows]);
 
+  const overdueRows = useMemo(() => rows.filter((r) => r.status === "OPEN" && r.overdue), [rows]);
+
   const sortedRows = useMemo(() => {
     const rankStatus = (status: BlockRow["status"]) => {
       if (status === "OPEN") return 0;
@@ -218,6 +324,7 @@ export default function BloqueiosClient() {
         body: JSON.stringify({
           cedenteId,
           program,
+          reasonCode: reasonCode || null,
           note,
           estimatedUnlockAt: estimatedUnlockAt ? `${estimatedUnlockAt}T00:00:00.000Z` : null,
         }),
@@ -229,6 +336,7 @@ export default function BloqueiosClient() {
       setProgram("LATAM");
       setNote("");
       setEstimatedUnlockAt("");
+      setReasonCode("");
       await loadAll();
     } catch (e: any) {
       alert(e.message);
@@ -260,6 +368,79 @@ export default function BloqueiosClient() {
     }
   }
 
+  // ✅ edição do caso: motivo / previsão
+  async function saveCase(b: BlockRow) {
+    const ed = editing[b.id];
+    if (!ed) return;
+
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/bloqueios/${b.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          reasonCode: ed.reasonCode || null,
+          estimatedUnlockAt: ed.estimatedUnlockAt ? `${ed.estimatedUnlockAt}T00:00:00.000Z` : null,
+        }),
+      });
+      const j = await res.json().catch(() => null);
+      if (!res.ok || !j?.ok) throw new Error(j?.error || "Erro ao salvar o caso.");
+
+      setEditing((p) => {
+        const next = { ...p };
+        delete next[b.id];
+        return next;
+      });
+      await loadAll();
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "Erro.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // ✅ protocolo vinculado ao bloqueio (abre já vinculado)
+  async function openProtocol(b: BlockRow) {
+    const complaint = (protocolText[b.id] || "").trim();
+    if (!complaint) return alert("Descreva a reclamação do protocolo.");
+
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/bloqueios/${b.id}/protocolos`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ complaint, title: `Desbloqueio ${b.program} • ${b.reasonLabel || ""}`.trim() }),
+      });
+      const j = await res.json().catch(() => null);
+      if (!res.ok || !j?.ok) throw new Error(j?.error || "Erro ao abrir protocolo.");
+
+      setProtocolText((p) => ({ ...p, [b.id]: "" }));
+      await loadAll();
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "Erro.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function unlinkProtocol(blockId: string, protocolId: string) {
+    if (!confirm("Desvincular este protocolo do bloqueio? (o protocolo continua existindo)")) return;
+
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/bloqueios/${blockId}/protocolos?protocolId=${encodeURIComponent(protocolId)}`, {
+        method: "DELETE",
+      });
+      const j = await res.json().catch(() => null);
+      if (!res.ok || !j?.ok) throw new Error(j?.error || "Erro ao desvincular.");
+      await loadAll();
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "Erro.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
   // ✅ desbloqueio manual (não automático)
   async function markUnblocked(blockId: string) {
     if (!confirm("Marcar este bloqueio como DESBLOQUEADO?")) return;
@@ -289,7 +470,8 @@ export default function BloqueiosClient() {
         <div>
           <h1 className="text-2xl font-bold">Contas bloqueadas</h1>
           <p className="text-sm text-slate-600">
-            Registre bloqueios por programa, acompanhe protocolos e veja o valor total bloqueado (milheiros do Resumo).
+            Registre bloqueios por programa e motivo, vincule protocolos, acompanhe o SLA de desbloqueio e o valor parado
+            (milheiro vigente). Sugestões de venda e estratégia ignoram o programa bloqueado.
           </p>
         </div>
 
@@ -303,7 +485,7 @@ export default function BloqueiosClient() {
       </div>
 
       {/* Resumo */}
-      <div className="grid gap-4 md:grid-cols-3">
+      <div className="grid gap-4 md:grid-cols-4">
         <div className="rounded-2xl border bg-white p-4">
           <div className="text-xs text-slate-600">Bloqueios em aberto</div>
           <div className="text-xl font-bold">{totals.openCount}</div>
@@ -312,12 +494,80 @@ export default function BloqueiosClient() {
           <div className="text-xs text-slate-600">Pontos bloqueados (soma)</div>
           <div className="text-xl font-bold">{fmtInt(totals.pointsBlocked)}</div>
         </div>
+        <div className={cn("rounded-2xl border p-4", totals.overdueCount ? "bg-rose-50" : "bg-white")}>
+          <div className="text-xs text-slate-600">Previsão vencida</div>
+          <div className={cn("text-xl font-bold", totals.overdueCount > 0 && "text-rose-700")}>{totals.overdueCount}</div>
+        </div>
         <div className="rounded-2xl border bg-black p-4 text-white">
           <div className="text-xs opacity-80">Valor bloqueado (R$)</div>
           <div className="text-2xl font-bold">{fmtMoney(totals.valueBlockedCents)}</div>
         </div>
       </div>
 
+      {/* ✅ Lembretes: previsão de desbloqueio vencida */}
+      {overdueRows.length > 0 && (
+        <div className="rounded-2xl border border-rose-200 bg-rose-50 p-4 space-y-2">
+          <div className="font-semibold text-rose-800">Cobrar desbloqueio ({overdueRows.length})</div>
+          <div className="space-y-1 text-sm text-rose-900">
+            {overdueRows.map((b) => (
+              <div key={b.id}>
+                {b.cedente.nomeCompleto} • {b.program} • {b.reasonLabel} • previsão{" "}
+                {b.estimatedUnlockAt ? dateBR(b.estimatedUnlockAt) : "-"} • {fmtMoney(b.valueBlockedCents)}
+                {b.protocols?.length ? ` • ${b.protocols.length} protocolo(s)` : " • sem protocolo"}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* ✅ Valor parado + SLA */}
+      <div className="grid gap-4 lg:grid-cols-2">
+        <div className="rounded-2xl border bg-white p-4 space-y-2">
+          <div className="font-semibold">Valor parado em bloqueios (12 meses)</div>
+          {series.length ? <ValueChart points={series} /> : <div className="text-sm text-slate-600">Sem histórico.</div>}
+          <div className="text-[11px] text-slate-500">
+            Semanal: pontos travados na abertura de cada bloqueio aberto na data × milheiro vigente no dia.
+          </div>
+        </div>
+
+        <div className="rounded-2xl border bg-white p-4 space-y-2">
+          <div className="font-semibold">SLA de desbloqueio</div>
+          {sla.length === 0 ? (
+            <div className="text-sm text-slate-600">Sem bloqueios resolvidos ainda.</div>
+          ) : (
+            <div className="max-h-72 overflow-auto rounded-xl border">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-slate-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left">Programa / motivo</th>
+                    <th className="px-3 py-2 text-right">Resolvidos</th>
+                    <th className="px-3 py-2 text-right">Média</th>
+                    <th className="px-3 py-2 text-right">Mediana</th>
+                    <th className="px-3 py-2 text-right">Máx.</th>
+                    <th className="px-3 py-2 text-right">Abertos</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sla.map((r) => (
+                    <tr key={`${r.program}-${r.reasonCode ?? "*"}`} className={cn("border-t", r.reasonCode === null && "bg-slate-50 font-semibold")}>
+                      <td className="px-3 py-2">{r.reasonCode === null ? r.program : `↳ ${r.reasonLabel}`}</td>
+                      <td className="px-3 py-2 text-right tabular-nums">{r.resolved}</td>
+                      <td className="px-3 py-2 text-right tabular-nums">{r.resolved ? fmtDays(r.avgDays) : "-"}</td>
+                      <td className="px-3 py-2 text-right tabular-nums">{r.resolved ? fmtDays(r.medianDays) : "-"}</td>
+                      <td className="px-3 py-2 text-right tabular-nums">{r.resolved ? fmtDays(r.maxDays) : "-"}</td>
+                      <td className="px-3 py-2 text-right tabular-nums">
+                        {r.open}
+                        {r.overdue ? <span className="text-rose-700"> ({r.overdue} venc.)</span> : null}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
       {/* Criar bloqueio */}
       <div className="rounded-2xl border bg-white p-4 space-y-3">
         <div className="font-semibold">Adicionar bloqueio</div>
@@ -379,7 +629,10 @@ export default function BloqueiosClient() {
             <select
               className="w-full rounded-xl border px-3 py-2 text-sm"
               value={program}
-              onChange={(e) => setProgram(e.target.value as any)}
+              onChange={(e) => {
+                setProgram(e.target.value as BlockRow["program"]);
+                setReasonCode("");
+              }}
             >
               <option value="LATAM">LATAM</option>
               <option value="SMILES">Smiles</option>
@@ -398,7 +651,23 @@ export default function BloqueiosClient() {
             />
           </label>
 
-          <label className="space-y-1 md:col-span-4">
+          <label className="space-y-1 md:col-span-2">
+            <div className="text-xs text-slate-600">Motivo</div>
+            <select
+              className="w-full rounded-xl border px-3 py-2 text-sm"
+              value={reasonCode}
+              onChange={(e) => setReasonCode(e.target.value)}
+            >
+              <option value="">Sem motivo</option>
+              {(reasons[program] || []).map((r) => (
+                <option key={r.code} value={r.code}>
+                  {r.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="space-y-1 md:col-span-2">
             <div className="text-xs text-slate-600">Observação inicial</div>
             <input
               className="w-full rounded-xl border px-3 py-2 text-sm"
@@ -446,6 +715,15 @@ export default function BloqueiosClient() {
                       {b.resolvedAt ? ` • Resolvido: ${dateBR(b.resolvedAt)}` : ""}
                     </div>
 
+                    <div className="text-xs text-slate-600 mt-1">
+                      Motivo: <b>{b.reasonLabel || "Sem motivo"}</b>
+                      {b.status === "OPEN" && !b.estimatedUnlockAt && b.forecastUnlockAt
+                        ? ` • Previsão pelo SLA: ${dateBR(b.forecastUnlockAt)} (média de ${b.forecastSamples} caso(s) ${
+                            b.forecastBasis === "REASON_SLA" ? "do motivo" : "do programa"
+                          })`
+                        : ""}
+                    </div>
+
                     {b.note ? <div className="text-sm text-slate-700 mt-1">{b.note}</div> : null}
                   </div>
 
@@ -454,6 +732,14 @@ export default function BloqueiosClient() {
                       <div className="text-xs text-slate-600">Bloqueado</div>
                       <div className="font-semibold">{fmtInt(b.pointsBlocked)} pts</div>
                       <div className="text-sm font-semibold">{fmtMoney(b.valueBlockedCents)}</div>
+                      {b.rateCents ? (
+                        <div className="text-[11px] text-slate-500">
+                          milheiro {fmtMoney(b.rateCents)}
+                          {b.valueAtOpenCents != null && b.valueAtOpenCents !== b.valueBlockedCents
+                            ? ` • no bloqueio: ${fmtMoney(b.valueAtOpenCents)}`
+                            : ""}
+                        </div>
+                      ) : null}
                     </div>
 
                     {/* ✅ Botão manual */}
@@ -470,6 +756,105 @@ export default function BloqueiosClient() {
                   </div>
                 </div>
 
+                {/* ✅ Caso: motivo / previsão */}
+                {b.status === "OPEN" && (
+                  <div className="rounded-xl border p-3 space-y-2">
+                    <div className="text-sm font-semibold">Caso</div>
+                    <div className="grid gap-2 md:grid-cols-4">
+                      <select
+                        className="md:col-span-2 rounded-xl border px-3 py-2 text-sm"
+                        value={editing[b.id]?.reasonCode ?? b.reasonCode ?? ""}
+                        onChange={(e) =>
+                          setEditing((p) => ({
+                            ...p,
+                            [b.id]: {
+                              reasonCode: e.target.value,
+                              estimatedUnlockAt: p[b.id]?.estimatedUnlockAt ?? (b.estimatedUnlockAt || "").slice(0, 10),
+                            },
+                          }))
+                        }
+                      >
+                        <option value="">Sem motivo</option>
+                        {(reasons[b.program] || []).map((r) => (
+                          <option key={r.code} value={r.code}>
+                            {r.label}
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        type="date"
+                        className="rounded-xl border px-3 py-2 text-sm"
+                        value={editing[b.id]?.estimatedUnlockAt ?? (b.estimatedUnlockAt || "").slice(0, 10)}
+                        onChange={(e) =>
+                          setEditing((p) => ({
+                            ...p,
+                            [b.id]: {
+                              reasonCode: p[b.id]?.reasonCode ?? b.reasonCode ?? "",
+                              estimatedUnlockAt: e.target.value,
+                            },
+                          }))
+                        }
+                      />
+                      <button
+                        onClick={() => saveCase(b)}
+                        className="rounded-xl border px-4 py-2 text-sm hover:bg-slate-50 disabled:opacity-50"
+                        disabled={loading || !editing[b.id]}
+                      >
+                        Salvar caso
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {/* ✅ Protocolos vinculados */}
+                <div className="space-y-2">
+                  <div className="text-sm font-semibold">Protocolos</div>
+                  {(b.protocols || []).length === 0 ? (
+                    <div className="text-sm text-slate-600">Nenhum protocolo vinculado.</div>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {(b.protocols || []).map((p) => (
+                        <div key={p.id} className="flex items-center gap-2 rounded-xl border px-3 py-1 text-sm">
+                          <a href={`/dashboard/protocolos/${b.program.toLowerCase()}`} className="hover:underline">
+                            {p.title || "Protocolo"}
+                          </a>
+                          <span className={cn("rounded-full border px-2 py-0.5 text-xs", PROTOCOL_STATUS[p.status].cls)}>
+                            {PROTOCOL_STATUS[p.status].label}
+                          </span>
+                          <span className="text-xs text-slate-500">{dateBR(p.updatedAt)}</span>
+                          {b.status === "OPEN" && (
+                            <button
+                              onClick={() => unlinkProtocol(b.id, p.id)}
+                              className="text-xs text-slate-500 hover:text-rose-700"
+                              disabled={loading}
+                              title="Desvincular"
+                            >
+                              ✕
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {b.status === "OPEN" && (
+                    <div className="grid gap-2 md:grid-cols-4">
+                      <input
+                        className="md:col-span-3 rounded-xl border px-3 py-2 text-sm"
+                        placeholder="Reclamação para a CIA (abre um protocolo em rascunho vinculado a este bloqueio)"
+                        value={protocolText[b.id] ?? ""}
+                        onChange={(e) => setProtocolText((p) => ({ ...p, [b.id]: e.target.value }))}
+                      />
+                      <button
+                        onClick={() => openProtocol(b)}
+                        className="rounded-xl border px-4 py-2 text-sm hover:bg-slate-50"
+                        disabled={loading}
+                      >
+                        Abrir protocolo
+                      </button>
+                    </div>
+                  )}
+                </div>
+
                 {/* Add obs */}
                 {b.status === "OPEN" && (
                   <div className="rounded-xl border bg-slate-50 p-3 space-y-2">
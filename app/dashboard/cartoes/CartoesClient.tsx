@@ -0,0 +1,681 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type OwnerType = "COMPANY" | "EMPLOYEE";
+type UserLite = { id: string; name: string; login: string };
+
+type Card = {
+  id: string;
+  label: string;
+  brand: string | null;
+  last4: string;
+  ownerType: OwnerType;
+  ownerUserId: string | null;
+  ownerUser: UserLite | null;
+  closingDay: number;
+  dueDay: number;
+  active: boolean;
+  openClosingDate: string;
+};
+
+type Statement = {
+  card: Card;
+  closingDate: string;
+  from: string;
+  dueDate: string;
+  prevClosingDate: string;
+  nextClosingDate: string;
+  sales: Array<{
+    id: string;
+    numero: string;
+    date: string;
+    program: string;
+    locator: string | null;
+    embarqueFeeCents: number;
+    seller: { id: string; name: string } | null;
+    cliente: { id: string; nome: string };
+  }>;
+  totalCents: number;
+  cycle: {
+    invoiceCents: number | null;
+    reconciledAt: string | null;
+    reconciledBy: { id: string; name: string } | null;
+    reimbursedCents: number | null;
+    reimbursedAt: string | null;
+    reimbursedBy: { id: string; name: string } | null;
+    notes: string | null;
+  } | null;
+  diffCents: number | null;
+  reimbursable: boolean;
+};
+
+type Pending = {
+  card: { id: string; label: string; last4: string; ownerUser: UserLite | null };
+  closingDate: string;
+  dueDate: string;
+  sales: number;
+  totalCents: number;
+};
+
+type Form = {
+  label: string;
+  brand: string;
+  last4: string;
+  ownerType: OwnerType;
+  ownerUserId: string;
+  closingDay: string;
+  dueDay: string;
+};
+
+const OWNER_LABEL: Record<OwnerType, string> = {
+  COMPANY: "Empresa",
+  EMPLOYEE: "Funcionário",
+};
+
+const EMPTY_FORM: Form = {
+  label: "",
+  brand: "",
+  last4: "",
+  ownerType: "EMPLOYEE",
+  ownerUserId: "",
+  closingDay: "1",
+  dueDay: "10",
+};
+
+function cn(...xs: Array<string | false | null | undefined>) {
+  return xs.filter(Boolean).join(" ");
+}
+
+function fmtMoney(cents: number) {
+  return ((cents || 0) / 100).toLocaleString("pt-BR", {
+    style: "currency",
+    currency: "BRL",
+  });
+}
+
+function fmtDateBR(iso: string) {
+  return new Intl.DateTimeFormat("pt-BR", { timeZone: "UTC" }).format(new Date(iso));
+}
+
+function isoDay(iso: string) {
+  return iso.slice(0, 10);
+}
+
+function parseMoneyToCents(v: string) {
+  const n = Number(String(v || "").replace(/\./g, "").replace(",", "."));
+  return Number.isFinite(n) ? Math.round(n * 100) : NaN;
+}
+
+async function fetchJson(url: string, init?: RequestInit) {
+  const res = await fetch(url, { cache: "no-store", ...init });
+  const json = await res.json().catch(() => null);
+  if (!res.ok || !json?.ok) throw new Error(json?.error || "Falha na requisição.");
+  return json;
+}
+
+export default function CartoesClient() {
+  const [cards, setCards] = useState<Card[]>([]);
+  const [users, setUsers] = useState<UserLite[]>([]);
+  const [pending, setPending] = useState<Pending[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  const [form, setForm] = useState<Form>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const [statement, setStatement] = useState<Statement | null>(null);
+  const [invoiceStr, setInvoiceStr] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  async function loadAll() {
+    const [c, p] = await Promise.all([
+      fetchJson("/api/cartoes?all=1"),
+      fetchJson("/api/cartoes/reembolsos").catch(() => ({ data: [] })),
+    ]);
+    setCards(c.data as Card[]);
+    setPending(p.data as Pending[]);
+  }
+
+  async function reload() {
+    setLoading(true);
+    setError("");
+    try {
+      await loadAll();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao carregar cartões.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    let alive = true;
+    Promise.all([
+      fetchJson("/api/cartoes?all=1"),
+      fetchJson("/api/cartoes/reembolsos").catch(() => ({ data: [] })),
+      fetchJson("/api/users/simple").catch(() => ({ users: [] })),
+    ])
+      .then(([c, p, u]) => {
+        if (!alive) return;
+        setCards(c.data as Card[]);
+        setPending(p.data as Pending[]);
+        setUsers(u.users as UserLite[]);
+      })
+      .catch((e) => alive && setError(e instanceof Error ? e.message : "Erro ao carregar cartões."))
+      .finally(() => alive && setLoading(false));
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  function applyStatement(st: Statement) {
+    setStatement(st);
+    setInvoiceStr(st.cycle?.invoiceCents == null ? "" : (st.cycle.invoiceCents / 100).toFixed(2).replace(".", ","));
+  }
+
+  async function openStatement(cardId: string, fechamento?: string) {
+    setError("");
+    try {
+      const qs = fechamento ? `?fechamento=${encodeURIComponent(fechamento)}` : "";
+      const json = await fetchJson(`/api/cartoes/${cardId}/fatura${qs}`);
+      applyStatement(json.data as Statement);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao carregar fatura.");
+    }
+  }
+
+  function startEdit(c: Card) {
+    setEditingId(c.id);
+    setForm({
+      label: c.label,
+      brand: c.brand || "",
+      last4: c.last4,
+      ownerType: c.ownerType,
+      ownerUserId: c.ownerUserId || "",
+      closingDay: String(c.closingDay),
+      dueDay: String(c.dueDay),
+    });
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  }
+
+  async function saveCard() {
+    setSaving(true);
+    setError("");
+    try {
+      const payload = {
+        ...form,
+        ownerUserId: form.ownerType === "EMPLOYEE" ? form.ownerUserId || null : null,
+        closingDay: Number(form.closingDay),
+        dueDay: Number(form.dueDay),
+      };
+      await fetchJson(editingId ? `/api/cartoes/${editingId}` : "/api/cartoes", {
+        method: editingId ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      setForm(EMPTY_FORM);
+      setEditingId(null);
+      await loadAll();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao salvar cartão.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function toggleActive(c: Card) {
+    setError("");
+    try {
+      if (c.active) {
+        if (!confirm(`Remover ${c.label}? Com vendas vinculadas ele só é desativado.`)) return;
+        await fetchJson(`/api/cartoes/${c.id}`, { method: "DELETE" });
+      } else {
+        await fetchJson(`/api/cartoes/${c.id}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ active: true }),
+        });
+      }
+      if (statement?.card.id === c.id) setStatement(null);
+      await loadAll();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao atualizar cartão.");
+    }
+  }
+
+  async function reconcile(undo = false) {
+    if (!statement) return;
+    const invoiceCents = undo ? null : parseMoneyToCents(invoiceStr);
+    if (!undo && !(Number(invoiceCents) >= 0)) return alert("Informe o valor da fatura.");
+
+    setBusy(true);
+    setError("");
+    try {
+      const json = await fetchJson(`/api/cartoes/${statement.card.id}/fatura`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ fechamento: isoDay(statement.closingDate), invoiceCents }),
+      });
+      applyStatement(json.data as Statement);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao conferir fatura.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function reimburse(cardId: string, closingDate: string, undo = false) {
+    const fechamento = isoDay(closingDate);
+    if (!undo && !confirm(`Marcar a fatura de ${fmtDateBR(closingDate)} como reembolsada?`)) return;
+
+    setBusy(true);
+    setError("");
+    try {
+      const json = undo
+        ? await fetchJson(`/api/cartoes/${cardId}/fatura/reembolso?fechamento=${fechamento}`, { method: "DELETE" })
+        : await fetchJson(`/api/cartoes/${cardId}/fatura/reembolso`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ fechamento }),
+          });
+      if (statement?.card.id === cardId && isoDay(statement.closingDate) === fechamento) {
+        applyStatement(json.data as Statement);
+      }
+      await loadAll();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao registrar reembolso.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const inputCls = "h-9 w-full rounded-xl border border-zinc-200 px-2 text-sm";
+  const closed = statement ? new Date(statement.closingDate) <= new Date() : false;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Cartões da taxa de embarque</h1>
+          <p className="text-sm text-zinc-500">
+            Taxa paga no cartão cadastrado entra na fatura dele. Cartão de funcionário é reembolsado por fatura
+            fechada (e não mais pelo pagamento diário).
+          </p>
+        </div>
+        <button
+          onClick={reload}
+          className="h-9 rounded-xl border border-zinc-200 bg-white px-3 text-sm text-zinc-700 shadow-sm hover:bg-zinc-50"
+        >
+          {loading ? "Atualizando…" : "Atualizar"}
+        </button>
+      </div>
+
+      {error ? (
+        <div className="rounded-xl border border-rose-200 bg-rose-50 p-3 text-sm text-rose-700">{error}</div>
+      ) : null}
+
+      {pending.length > 0 ? (
+        <div className="rounded-2xl border border-amber-200 bg-amber-50 p-4 shadow-sm">
+          <h2 className="mb-2 text-lg font-semibold">Reembolsos pendentes</h2>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-zinc-500">
+                <th className="p-2">Funcionário</th>
+                <th className="p-2">Cartão</th>
+                <th className="p-2">Fechamento</th>
+                <th className="p-2 text-right">Vendas</th>
+                <th className="p-2 text-right">Total</th>
+                <th className="p-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {pending.map((p) => (
+                <tr key={`${p.card.id}:${p.closingDate}`} className="border-t border-amber-100">
+                  <td className="p-2">{p.card.ownerUser?.name || "-"}</td>
+                  <td className="p-2">
+                    {p.card.label} •••• {p.card.last4}
+                  </td>
+                  <td className="p-2 tabular-nums">{fmtDateBR(p.closingDate)}</td>
+                  <td className="p-2 text-right tabular-nums">{p.sales}</td>
+                  <td className="p-2 text-right font-medium tabular-nums">{fmtMoney(p.totalCents)}</td>
+                  <td className="p-2 text-right">
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={() => openStatement(p.card.id, isoDay(p.closingDate))}
+                        className="h-8 rounded-xl border border-zinc-200 bg-white px-3 text-xs text-zinc-700 hover:bg-zinc-50"
+                      >
+                        Ver fatura
+                      </button>
+                      <button
+                        onClick={() => reimburse(p.card.id, p.closingDate)}
+                        disabled={busy}
+                        className="h-8 rounded-xl bg-zinc-900 px-3 text-xs text-white hover:bg-zinc-800 disabled:opacity-50"
+                      >
+                        Reembolsado
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+
+      <div className="rounded-2xl border border-zinc-200 bg-white p-4 shadow-sm space-y-3">
+        <h2 className="text-lg font-semibold">{editingId ? "Editar cartão" : "Novo cartão"}</h2>
+
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-4">
+          <label className="text-xs text-zinc-600">
+            Nome
+            <input
+              className={inputCls}
+              value={form.label}
+              onChange={(e) => setForm((f) => ({ ...f, label: e.target.value }))}
+              placeholder="Ex.: Nubank Ana"
+            />
+          </label>
+          <label className="text-xs text-zinc-600">
+            Bandeira (opcional)
+            <input
+              className={inputCls}
+              value={form.brand}
+              onChange={(e) => setForm((f) => ({ ...f, brand: e.target.value }))}
+              placeholder="Visa, Master…"
+            />
+          </label>
+          <label className="text-xs text-zinc-600">
+            Final (4 dígitos)
+            <input
+              className={inputCls}
+              value={form.last4}
+              onChange={(e) => setForm((f) => ({ ...f, last4: e.target.value.replace(/\D+/g, "").slice(0, 4) }))}
+              inputMode="numeric"
+            />
+          </label>
+          <label className="text-xs text-zinc-600">
+            Dono
+            <select
+              className={cn(inputCls, "bg-white")}
+              value={form.ownerType}
+              onChange={(e) => setForm((f) => ({ ...f, ownerType: e.target.value as OwnerType }))}
+            >
+              {(Object.keys(OWNER_LABEL) as OwnerType[]).map((k) => (
+                <option key={k} value={k}>
+                  {OWNER_LABEL[k]}
+                </option>
+              ))}
+            </select>
+          </label>
+          {form.ownerType === "EMPLOYEE" ? (
+            <label className="text-xs text-zinc-600">
+              Funcionário
+              <select
+                className={cn(inputCls, "bg-white")}
+                value={form.ownerUserId}
+                onChange={(e) => setForm((f) => ({ ...f, ownerUserId: e.target.value }))}
+              >
+                <option value="">Selecione…</option>
+                {users.map((u) => (
+                  <option key={u.id} value={u.id}>
+                    {u.name} (@{u.login})
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : null}
+          <label className="text-xs text-zinc-600">
+            Dia do fechamento
+            <input
+              className={inputCls}
+              value={form.closingDay}
+              onChange={(e) => setForm((f) => ({ ...f, closingDay: e.target.value }))}
+              inputMode="numeric"
+            />
+          </label>
+          <label className="text-xs text-zinc-600">
+            Dia do vencimento
+            <input
+              className={inputCls}
+              value={form.dueDay}
+              onChange={(e) => setForm((f) => ({ ...f, dueDay: e.target.value }))}
+              inputMode="numeric"
+            />
+          </label>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          {editingId ? (
+            <button
+              onClick={() => {
+                setEditingId(null);
+                setForm(EMPTY_FORM);
+              }}
+              className="h-9 rounded-xl border border-zinc-200 bg-white px-3 text-sm text-zinc-700 hover:bg-zinc-50"
+            >
+              Cancelar
+            </button>
+          ) : null}
+          <button
+            onClick={saveCard}
+            disabled={saving}
+            className="h-9 rounded-xl bg-zinc-900 px-4 text-sm text-white hover:bg-zinc-800 disabled:opacity-50"
+          >
+            {saving ? "Salvando…" : editingId ? "Salvar" : "Cadastrar"}
+          </button>
+        </div>
+      </div>
+
+      <div className="rounded-2xl border border-zinc-200 bg-white p-4 shadow-sm">
+        <h2 className="mb-3 text-lg font-semibold">Cartões</h2>
+        <div className="overflow-auto">
+          <table className="w-full min-w-[900px] text-sm">
+            <thead>
+              <tr className="text-left text-xs text-zinc-500">
+                <th className="border-b border-zinc-200 p-2">Cartão</th>
+                <th className="border-b border-zinc-200 p-2">Dono</th>
+                <th className="border-b border-zinc-200 p-2">Fecha / vence</th>
+                <th className="border-b border-zinc-200 p-2">Fatura aberta fecha em</th>
+                <th className="border-b border-zinc-200 p-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {cards.map((c) => (
+                <tr key={c.id} className={cn(!c.active && "opacity-50")}>
+                  <td className="border-b border-zinc-100 p-2">
+                    <div className="font-medium">
+                      {c.label} •••• {c.last4}
+                    </div>
+                    <div className="text-xs text-zinc-500">{c.brand || ""}</div>
+                  </td>
+                  <td className="border-b border-zinc-100 p-2">
+                    {c.ownerType === "EMPLOYEE" ? c.ownerUser?.name || "-" : OWNER_LABEL.COMPANY}
+                  </td>
+                  <td className="border-b border-zinc-100 p-2 tabular-nums">
+                    dia {c.closingDay} / dia {c.dueDay}
+                  </td>
+                  <td className="border-b border-zinc-100 p-2 tabular-nums">{fmtDateBR(c.openClosingDate)}</td>
+                  <td className="border-b border-zinc-100 p-2 text-right">
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={() => openStatement(c.id)}
+                        className="h-8 rounded-xl border border-zinc-200 bg-white px-3 text-xs text-zinc-700 hover:bg-zinc-50"
+                      >
+                        Fatura
+                      </button>
+                      <button
+                        onClick={() => startEdit(c)}
+                        className="h-8 rounded-xl border border-zinc-200 bg-white px-3 text-xs text-zinc-700 hover:bg-zinc-50"
+                      >
+                        Editar
+                      </button>
+                      <button
+                        onClick={() => toggleActive(c)}
+                        className="h-8 rounded-xl border border-zinc-200 bg-white px-3 text-xs text-zinc-700 hover:bg-zinc-50"
+                      >
+                        {c.active ? "Remover" : "Reativar"}
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+
+              {!loading && cards.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="p-4 text-center text-sm text-zinc-500">
+                    Nenhum cartão cadastrado.
+                  </td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {statement ? (
+        <div className="rounded-2xl border border-zinc-200 bg-white p-4 shadow-sm space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <h2 className="text-lg font-semibold">
+                Fatura {statement.card.label} •••• {statement.card.last4}
+              </h2>
+              <p className="text-xs text-zinc-500">
+                Compras de {fmtDateBR(statement.from)} até a véspera de {fmtDateBR(statement.closingDate)} • vence{" "}
+                {fmtDateBR(statement.dueDate)} • {closed ? "fechada" : "aberta"}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => openStatement(statement.card.id, isoDay(statement.prevClosingDate))}
+                className="h-9 rounded-xl border border-zinc-200 bg-white px-3 text-sm text-zinc-700 hover:bg-zinc-50"
+              >
+                ← Anterior
+              </button>
+              <button
+                onClick={() => openStatement(statement.card.id, isoDay(statement.nextClosingDate))}
+                className="h-9 rounded-xl border border-zinc-200 bg-white px-3 text-sm text-zinc-700 hover:bg-zinc-50"
+              >
+                Próxima →
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+            <div className="rounded-xl border border-zinc-200 p-3">
+              <div className="text-xs text-zinc-500">Taxas lançadas</div>
+              <div className="text-xl font-semibold tabular-nums">{fmtMoney(statement.totalCents)}</div>
+              <div className="text-xs text-zinc-500">{statement.sales.length} venda(s)</div>
+            </div>
+
+            <div className="rounded-xl border border-zinc-200 p-3 space-y-2">
+              <div className="text-xs text-zinc-500">Conferência com a fatura do banco</div>
+              <div className="flex gap-2">
+                <input
+                  className={inputCls}
+                  value={invoiceStr}
+                  onChange={(e) => setInvoiceStr(e.target.value)}
+                  placeholder="Valor da fatura (R$)"
+                  inputMode="decimal"
+                />
+                <button
+                  onClick={() => reconcile()}
+                  disabled={busy}
+                  className="h-9 rounded-xl bg-zinc-900 px-3 text-xs text-white hover:bg-zinc-800 disabled:opacity-50"
+                >
+                  Conferir
+                </button>
+              </div>
+              {statement.diffCents != null ? (
+                <div
+                  className={cn(
+                    "text-xs",
+                    statement.diffCents === 0 ? "text-emerald-700" : "text-rose-700"
+                  )}
+                >
+                  {statement.diffCents === 0
+                    ? "Bate com a fatura ✅"
+                    : `Diferença: ${fmtMoney(statement.diffCents)} (fatura − taxas)`}
+                  {statement.cycle?.reconciledAt ? (
+                    <span className="text-zinc-500">
+                      {" "}
+                      • {statement.cycle.reconciledBy?.name || "-"} em {fmtDateBR(statement.cycle.reconciledAt)}
+                    </span>
+                  ) : null}
+                  <button onClick={() => reconcile(true)} className="ml-2 underline text-zinc-500">
+                    desfazer
+                  </button>
+                </div>
+              ) : null}
+            </div>
+
+            <div className="rounded-xl border border-zinc-200 p-3 space-y-2">
+              <div className="text-xs text-zinc-500">Reembolso ao dono</div>
+              {!statement.reimbursable ? (
+                <div className="text-sm text-zinc-500">Cartão da empresa: nada a reembolsar.</div>
+              ) : statement.cycle?.reimbursedAt ? (
+                <div className="text-sm text-emerald-700">
+                  {fmtMoney(statement.cycle.reimbursedCents || 0)} reembolsado em{" "}
+                  {fmtDateBR(statement.cycle.reimbursedAt)} ({statement.cycle.reimbursedBy?.name || "-"})
+                  <button
+                    onClick={() => reimburse(statement.card.id, statement.closingDate, true)}
+                    className="ml-2 text-xs underline text-zinc-500"
+                  >
+                    desfazer
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => reimburse(statement.card.id, statement.closingDate)}
+                  disabled={busy || !closed || statement.totalCents <= 0}
+                  className="h-9 rounded-xl bg-zinc-900 px-3 text-xs text-white hover:bg-zinc-800 disabled:opacity-50"
+                >
+                  {closed ? `Marcar ${fmtMoney(statement.totalCents)} como reembolsado` : "Aguardando fechamento"}
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="overflow-auto">
+            <table className="w-full min-w-[800px] text-sm">
+              <thead>
+                <tr className="text-left text-xs text-zinc-500">
+                  <th className="border-b border-zinc-200 p-2">Data</th>
+                  <th className="border-b border-zinc-200 p-2">Venda</th>
+                  <th className="border-b border-zinc-200 p-2">Cliente</th>
+                  <th className="border-b border-zinc-200 p-2">Programa</th>
+                  <th className="border-b border-zinc-200 p-2">Localizador</th>
+                  <th className="border-b border-zinc-200 p-2">Vendedor</th>
+                  <th className="border-b border-zinc-200 p-2 text-right">Taxa</th>
+                </tr>
+              </thead>
+              <tbody>
+                {statement.sales.map((s) => (
+                  <tr key={s.id}>
+                    <td className="border-b border-zinc-100 p-2 tabular-nums">{fmtDateBR(s.date)}</td>
+                    <td className="border-b border-zinc-100 p-2">{s.numero}</td>
+                    <td className="border-b border-zinc-100 p-2">{s.cliente.nome}</td>
+                    <td className="border-b border-zinc-100 p-2">{s.program}</td>
+                    <td className="border-b border-zinc-100 p-2">{s.locator || "-"}</td>
+                    <td className="border-b border-zinc-100 p-2">{s.seller?.name || "-"}</td>
+                    <td className="border-b border-zinc-100 p-2 text-right tabular-nums">
+                      {fmtMoney(s.embarqueFeeCents)}
+                    </td>
+                  </tr>
+                ))}
+                {statement.sales.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="p-4 text-center text-sm text-zinc-500">
+                      Nenhuma taxa nessa fatura.
+                    </td>
+                  </tr>
+                ) : null}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+// app/dashboard/cartoes/page.tsx
+
+import CartoesClient from "./CartoesClient";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export default function Page() {
+  return <CartoesClient />;
+}
@@ -121,40 +121,74 @@ function NumberInputField({
 }
 
 function SecretField({
+  cedenteId,
+  kind,
   label,
   value,
   onChange,
   editing,
 }: {
+  cedenteId: string;
+  kind: string;
   label: string;
   value: string | null;
   onChange: (v: string) => void;
   editing: boolean;
 }) {
   const [show, setShow] = useState(false);
+  // ✅ API devolve só máscara; valor real vem do reveal (auditado)
+  // (o pai remonta o campo ao entrar/sair da edição: key com `editing`)
+  const [revealed, setRevealed] = useState<string | null>(null);
+  const [dirty, setDirty] = useState(false);
+
+  async function reveal() {
+    if (dirty) return value ?? "";
+    if (revealed !== null) return revealed;
+
+    const res = await fetch("/api/cedentes/reveal-credencial", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ cedenteId, kind }),
+    });
+    const json = await safeJson(res);
+    if (!res.ok || !json?.ok) throw new Error(json?.error || "Falha ao revelar senha.");
+
+    setRevealed(json.value ?? "");
+    return (json.value as string) ?? "";
+  }
+
+  const hasValue = dirty ? !!value : !!value || !!revealed;
 
   return (
     <div className="rounded-xl border p-3">
       <div className="flex items-center justify-between gap-2">
         <div className="text-xs font-semibold text-slate-600">{label}</div>
         <div className="flex gap-2">
-          {value ? (
+          {hasValue ? (
             <button
               type="button"
               className="rounded-lg border px-2 py-1 text-xs hover:bg-slate-50"
-              onClick={() => setShow((s) => !s)}
+              onClick={async () => {
+                if (show) return setShow(false);
+                try {
+                  await reveal();
+                  setShow(true);
+                } catch (e: unknown) {
+                  alert(e instanceof Error ? e.message : "Falha ao revelar senha.");
+                }
+              }}
             >
               {show ? "Ocultar" : "Mostrar"}
             </button>
           ) : null}
 
-          {value ? (
+          {hasValue ? (
             <button
               type="button"
               className="rounded-lg border px-2 py-1 text-xs hover:bg-slate-50"
               onClick={async () => {
                 try {
-                  await navigator.clipboard.writeText(value);
+                  await navigator.clipboard.writeText(await reveal());
                   alert("✅ Copiado!");
                 } catch {
                   alert("Não consegui copiar.");
@@ -170,11 +204,14 @@ function SecretField({
       <div className="mt-2">
         <input
           type={show ? "text" : "password"}
-          value={value ?? ""}
+          value={dirty ? value ?? "" : revealed ?? ""}
           disabled={!editing}
-          onChange={(e) => onChange(e.target.value)}
+          onChange={(e) => {
+            setDirty(true);
+            onChange(e.target.value);
+          }}
           className="w-full rounded border px-3 py-2 text-sm disabled:bg-slate-50 font-mono"
-          placeholder="—"
+          placeholder={value ? "•••••••• (cadastrada)" : "—"}
         />
       </div>
     </div>
@@ -311,6 +348,13 @@ export default function CedenteDetalheClient() {
             </>
           )}
 
+          <button
+            onClick={() => router.push(`/dashboard/cedentes/${id}/extrato`)}
+            className="rounded-xl border px-4 py-2 text-sm"
+          >
+            📒 Extrato
+          </button>
+
           <button
             onClick={() => router.back()}
             className="rounded-xl border px-4 py-2 text-sm"
@@ -406,60 +450,90 @@ export default function CedenteDetalheClient() {
         <div className="text-sm font-semibold">Senhas (interno)</div>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
           <SecretField
+            key={`EMAIL-${editing}`}
+            cedenteId={form.id}
+            kind="EMAIL"
             label="Senha Email"
             value={form.senhaEmail}
             onChange={(v) => patch("senhaEmail", v)}
             editing={editing}
           />
           <SecretField
+            key={`SMILES-${editing}`}
+            cedenteId={form.id}
+            kind="SMILES"
             label="Senha Smiles"
             value={form.senhaSmiles}
             onChange={(v) => patch("senhaSmiles", v)}
             editing={editing}
           />
           <SecretField
+            key={`LATAM-${editing}`}
+            cedenteId={form.id}
+            kind="LATAM"
             label="Senha LATAM Pass"
             value={form.senhaLatamPass}
             onChange={(v) => patch("senhaLatamPass", v)}
             editing={editing}
           />
           <SecretField
+            key={`LIVELO-${editing}`}
+            cedenteId={form.id}
+            kind="LIVELO"
             label="Senha Livelo"
             value={form.senhaLivelo}
             onChange={(v) => patch("senhaLivelo", v)}
             editing={editing}
           />
           <SecretField
+            key={`ESFERA-${editing}`}
+            cedenteId={form.id}
+            kind="ESFERA"
             label="Senha Esfera"
             value={form.senhaEsfera}
             onChange={(v) => patch("senhaEsfera", v)}
             editing={editing}
           />
           <SecretField
+            key={`IBERIA-${editing}`}
+            cedenteId={form.id}
+            kind="IBERIA"
             label="Senha Iberia"
             value={form.senhaIberia}
             onChange={(v) => patch("senhaIberia", v)}
             editing={editing}
           />
           <SecretField
+            key={`AA-${editing}`}
+            cedenteId={form.id}
+            kind="AA"
             label="Senha AA"
             value={form.senhaAA}
             onChange={(v) => patch("senhaAA", v)}
             editing={editing}
           />
           <SecretField
+            key={`TAP-${editing}`}
+            cedenteId={form.id}
+            kind="TAP"
             label="Senha TAP"
             value={form.senhaTAP}
             onChange={(v) => patch("senhaTAP", v)}
             editing={editing}
           />
           <SecretField
+            key={`AZUL-${editing}`}
+            cedenteId={form.id}
+            kind="AZUL"
             label="Senha Azul"
             value={form.senhaAzul}
             onChange={(v) => patch("senhaAzul", v)}
             editing={editing}
           />
           <SecretField
+            key={`FLYING_BLUE-${editing}`}
+            cedenteId={form.id}
+            kind="FLYING_BLUE"
             label="Senha FlyingBlue"
             value={form.senhaFlyingBlue}
             onChange={(v) => patch("senhaFlyingBlue", v)}
@@ -0,0 +1,302 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+
+type Program =
+  | "LATAM"
+  | "SMILES"
+  | "LIVELO"
+  | "ESFERA"
+  | "AZUL"
+  | "IBERIA"
+  | "AA"
+  | "TAP"
+  | "FLYING_BLUE";
+
+type Entry = {
+  id: string;
+  program: Program;
+  deltaPoints: number;
+  balanceAfter: number;
+  source: string;
+  refType: string | null;
+  refId: string | null;
+  note: string | null;
+  createdAt: string;
+  actor: { id: string; name: string; login: string } | null;
+};
+
+type Divergence = { program: Program; projected: number; ledger: number; diff: number };
+
+type Resp = {
+  ok: boolean;
+  error?: string;
+  cedente: { id: string; identificador: string; nomeCompleto: string };
+  entries: Entry[];
+  ledger: Record<Program, number> | null;
+  divergences: Divergence[];
+};
+
+const PROGRAMS: Program[] = [
+  "LATAM",
+  "SMILES",
+  "LIVELO",
+  "ESFERA",
+  "AZUL",
+  "IBERIA",
+  "AA",
+  "TAP",
+  "FLYING_BLUE",
+];
+
+const SOURCE_LABEL: Record<string, string> = {
+  OPENING_BALANCE: "Saldo inicial",
+  PURCHASE_RELEASE: "Liberação de compra",
+  PURCHASE_ADJUSTMENT: "Ajuste de compra",
+  SALE: "Venda",
+  SALE_CANCEL: "Cancelamento de venda",
+  MANUAL_ADJUSTMENT: "Ajuste manual",
+  EXCLUSION: "Exclusão definitiva",
+  REBUILD: "Conciliação",
+};
+
+function fmtInt(n: number) {
+  return (n || 0).toLocaleString("pt-BR");
+}
+
+function fmtDelta(n: number) {
+  return `${n > 0 ? "+" : ""}${fmtInt(n)}`;
+}
+
+function fmtDateTimeBR(iso?: string | null) {
+  if (!iso) return "-";
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "-";
+  return d.toLocaleString("pt-BR");
+}
+
+export default function ExtratoPontosClient() {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+
+  const [program, setProgram] = useState<Program | "">("");
+  const [data, setData] = useState<Resp | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [err, setErr] = useState("");
+
+  async function load() {
+    try {
+      setLoading(true);
+      setErr("");
+
+      const params = new URLSearchParams();
+      if (program) params.set("program", program);
+      params.set("limit", "500");
+
+      const res = await fetch(`/api/cedentes/${id}/pontos?${params.toString()}`, {
+        cache: "no-store",
+      });
+      const json = (await res.json().catch(() => null)) as Resp | null;
+      if (!res.ok || !json?.ok) {
+        setErr(json?.error || `Falha ao carregar (HTTP ${res.status}).`);
+        return;
+      }
+
+      setData(json);
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Erro inesperado.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    if (id) load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [id, program]);
+
+  async function reconcile(mode: "REBUILD" | "ADOPT") {
+    const msg =
+      mode === "REBUILD"
+        ? "Regravar o saldo do cadastro com a soma do extrato?"
+        : "Manter o saldo do cadastro e lançar a diferença no extrato?";
+    if (!window.confirm(msg)) return;
+
+    try {
+      setLoading(true);
+      setErr("");
+
+      const res = await fetch(`/api/cedentes/pontos/conciliacao`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ cedenteId: id, mode }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json?.ok) {
+        setErr(json?.error || "Falha ao conciliar.");
+        return;
+      }
+
+      await load();
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Erro inesperado ao conciliar.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const balances = useMemo(() => {
+    const ledger = data?.ledger;
+    if (!ledger) return [];
+    return PROGRAMS.filter((p) => (program ? p === program : ledger[p] !== 0)).map((p) => ({
+      program: p,
+      points: ledger[p] || 0,
+    }));
+  }, [data?.ledger, program]);
+
+  return (
+    <div className="max-w-5xl space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold">Extrato de pontos</h1>
+          <p className="text-sm text-slate-600">
+            {data?.cedente ? `${data.cedente.nomeCompleto} • ${data.cedente.identificador}` : "—"}
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          <select
+            className="rounded-xl border px-3 py-2 text-sm"
+            value={program}
+            onChange={(e) => setProgram(e.target.value as Program | "")}
+          >
+            <option value="">Todos os programas</option>
+            {PROGRAMS.map((p) => (
+              <option key={p} value={p}>
+                {p}
+              </option>
+            ))}
+          </select>
+
+          <button
+            className="rounded-xl bg-black px-4 py-2 text-sm text-white hover:opacity-90"
+            onClick={() => load()}
+            disabled={loading}
+          >
+            {loading ? "Atualizando..." : "Atualizar"}
+          </button>
+
+          <button onClick={() => router.back()} className="rounded-xl border px-4 py-2 text-sm">
+            Voltar
+          </button>
+        </div>
+      </div>
+
+      {err ? (
+        <div className="rounded-xl border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {err}
+        </div>
+      ) : null}
+
+      {/* SALDOS PELO EXTRATO */}
+      <section className="rounded-xl border p-4 grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-3">
+        {balances.length === 0 ? (
+          <div className="text-sm text-slate-500">Sem saldo lançado.</div>
+        ) : (
+          balances.map((b) => (
+            <div key={b.program}>
+              <div className="text-xs text-slate-500">{b.program}</div>
+              <div className="text-lg font-semibold">{fmtInt(b.points)}</div>
+            </div>
+          ))
+        )}
+      </section>
+
+      {/* CONCILIAÇÃO */}
+      {data?.divergences?.length ? (
+        <section className="rounded-xl border border-amber-200 bg-amber-50 p-4 space-y-2">
+          <div className="text-sm font-semibold text-amber-800">
+            Saldo do cadastro diverge do extrato
+          </div>
+          <ul className="text-sm text-amber-800">
+            {data.divergences.map((d) => (
+              <li key={d.program}>
+                {d.program}: cadastro {fmtInt(d.projected)} • extrato {fmtInt(d.ledger)} (
+                {fmtDelta(d.diff)})
+              </li>
+            ))}
+          </ul>
+          <div className="flex gap-2">
+            <button
+              className="rounded-xl border bg-white px-3 py-1.5 text-sm hover:bg-neutral-50"
+              onClick={() => reconcile("REBUILD")}
+              disabled={loading}
+            >
+              Usar extrato
+            </button>
+            <button
+              className="rounded-xl border bg-white px-3 py-1.5 text-sm hover:bg-neutral-50"
+              onClick={() => reconcile("ADOPT")}
+              disabled={loading}
+            >
+              Usar cadastro
+            </button>
+          </div>
+        </section>
+      ) : null}
+
+      {/* MOVIMENTOS */}
+      <div className="overflow-hidden rounded-2xl border bg-white shadow-sm">
+        <div className="overflow-x-auto">
+          <table className="min-w-[900px] w-full text-sm">
+            <thead className="bg-neutral-50 text-neutral-600">
+              <tr className="text-left">
+                <th className="px-4 py-3">Data</th>
+                <th className="px-4 py-3">Programa</th>
+                <th className="px-4 py-3">Origem</th>
+                <th className="px-4 py-3 text-right">Movimento</th>
+                <th className="px-4 py-3 text-right">Saldo após</th>
+                <th className="px-4 py-3">Por</th>
+                <th className="px-4 py-3">Obs.</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {!loading && (data?.entries?.length ?? 0) === 0 ? (
+                <tr>
+                  <td className="px-4 py-6 text-neutral-500" colSpan={7}>
+                    Nenhum movimento encontrado.
+                  </td>
+                </tr>
+              ) : null}
+
+              {(data?.entries || []).map((e) => (
+                <tr key={e.id} className="hover:bg-neutral-50">
+                  <td className="px-4 py-3 text-neutral-700">{fmtDateTimeBR(e.createdAt)}</td>
+                  <td className="px-4 py-3">{e.program}</td>
+                  <td className="px-4 py-3">{SOURCE_LABEL[e.source] || e.source}</td>
+                  <td
+                    className={`px-4 py-3 text-right font-medium ${
+                      e.deltaPoints < 0 ? "text-red-700" : "text-emerald-700"
+                    }`}
+                  >
+                    {fmtDelta(e.deltaPoints)}
+                  </td>
+                  <td className="px-4 py-3 text-right">{fmtInt(e.balanceAfter)}</td>
+                  <td className="px-4 py-3 text-neutral-700">
+                    {e.actor ? `${e.actor.name} (@${e.actor.login})` : "—"}
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="max-w-[280px] truncate text-neutral-700" title={e.note || ""}>
+                      {e.note || "—"}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
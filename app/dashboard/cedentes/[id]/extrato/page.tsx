@@ -0,0 +1,7 @@
+import ExtratoPontosClient from "./ExtratoPontosClient";
+
+export const dynamic = "force-dynamic";
+
+export default function Page() {
+  return <ExtratoPontosClient />;
+}
@@ -204,6 +204,30 @@ export default function CedentesVisualizarLatamClient() {
     }
   }
 
+  // ✅ senhas chegam mascaradas; revela (auditado) ao abrir o modal
+  async function revealCredential(cedenteId: string, kind: "LATAM" | "EMAIL") {
+    const res = await fetch("/api/cedentes/reveal-credencial", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ cedenteId, kind }),
+    });
+    const json = await res.json().catch(() => null);
+    if (!res.ok || !json?.ok) throw new Error(json?.error || "Falha ao revelar senha.");
+    return (json.value as string) ?? null;
+  }
+
+  async function openCredentials(r: Row) {
+    try {
+      const [senhaLatamPass, senhaEmail] = await Promise.all([
+        r.senhaLatamPass ? revealCredential(r.id, "LATAM") : null,
+        r.senhaEmail ? revealCredential(r.id, "EMAIL") : null,
+      ]);
+      setCredentialsRow({ ...r, senhaLatamPass, senhaEmail });
+    } catch (e: unknown) {
+      alert(e instanceof Error && e.message ? e.message : "Falha ao revelar senha.");
+    }
+  }
+
   async function copyValue(fieldId: string, value?: string | null) {
     const text = String(value || "").trim();
     if (!text) return;
@@ -469,7 +493,7 @@ export default function CedentesVisualizarLatamClient() {
 
                             <button
                               type="button"
-                              onClick={() => setCredentialsRow(r)}
+                              onClick={() => openCredentials(r)}
                               className={cn(neutralActionBtnCls, "group relative")}
                               title="Credenciais para transação"
                             >
@@ -15,9 +15,29 @@ type RowBase = {
   createdAt: string;
   cedente: { identificador: string; nomeCompleto: string };
   checkUrl?: string;
-  latamLocatorCheckStatus?: string | null;
-  latamLocatorCheckedAt?: string | null;
-  latamLocatorCheckNote?: string | null;
+  lastCheck: LastCheck | null;
+};
+
+type LastCheck = {
+  status: string;
+  source: "AUTO" | "MANUAL";
+  note: string | null;
+  pending: boolean;
+  checkedAt: string;
+};
+
+type HistoryRow = {
+  id: string;
+  status: string;
+  source: "AUTO" | "MANUAL";
+  provider: string | null;
+  note: string | null;
+  flagged: boolean;
+  resolvedAt: string | null;
+  resolvedNote: string | null;
+  createdAt: string;
+  checkedBy: { name: string } | null;
+  resolvedBy: { name: string } | null;
 };
 
 type LatamRow = RowBase & {
@@ -60,11 +80,20 @@ function nextFlightLabel(v1?: string | null, v2?: string | null) {
   return `${chosen.label} (${new Date(chosen.ms).toLocaleDateString("pt-BR")})`;
 }
 
+function fmtDateTimeBR(v?: string | null) {
+  if (!v) return "-";
+  const d = new Date(v);
+  if (Number.isNaN(d.getTime())) return "-";
+  return d.toLocaleString("pt-BR", { dateStyle: "short", timeStyle: "short" });
+}
+
 function statusLabel(v?: string | null) {
   if (!v) return "Não definido";
   if (v === "CONFIRMADO") return "Confirmado";
   if (v === "CANCELADO") return "Cancelado";
   if (v === "ALTERADO") return "Alterado";
+  if (v === "NAO_ENCONTRADO") return "Não encontrado";
+  if (v === "ERRO") return "Erro no check";
   return v;
 }
 
@@ -72,6 +101,7 @@ function statusClass(v?: string | null) {
   if (v === "CONFIRMADO") return "text-emerald-700";
   if (v === "ALTERADO") return "text-amber-600";
   if (v === "CANCELADO") return "text-rose-700";
+  if (v === "NAO_ENCONTRADO") return "text-rose-600";
   return "text-slate-700";
 }
 
@@ -80,6 +110,9 @@ export default function CheckLocalizadorClient({ mode }: { mode: Mode }) {
   const [error, setError] = useState("");
   const [rows, setRows] = useState<Array<LatamRow | SmilesRow>>([]);
   const [savingId, setSavingId] = useState<string | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [history, setHistory] = useState<HistoryRow[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
 
   useEffect(() => {
     let active = true;
@@ -116,12 +149,35 @@ export default function CheckLocalizadorClient({ mode }: { mode: Mode }) {
     () => (mode === "latam" ? "Check Localizador - Latam" : "Check Localizador - Smiles"),
     [mode]
   );
-  const totalCols = mode === "latam" ? 10 : 8;
+  const totalCols = 10;
+
+  async function toggleHistory(saleId: string) {
+    if (historyId === saleId) {
+      setHistoryId(null);
+      return;
+    }
+    setHistoryId(saleId);
+    setHistory([]);
+    setHistoryLoading(true);
+    try {
+      const res = await fetch(`/api/check-localizador/historico?saleId=${encodeURIComponent(saleId)}`, {
+        cache: "no-store",
+        credentials: "include",
+      });
+      const j = await res.json().catch(() => ({}));
+      if (!res.ok || j?.ok === false) throw new Error(j?.error || `Erro ${res.status}`);
+      setHistory(Array.isArray(j?.rows) ? j.rows : []);
+    } catch (e: unknown) {
+      alert(e instanceof Error && e.message ? e.message : "Falha ao carregar histórico.");
+    } finally {
+      setHistoryLoading(false);
+    }
+  }
 
   async function updateManualStatus(saleId: string, status: ManualStatus) {
     setSavingId(saleId);
     try {
-      const res = await fetch("/api/check-localizador/latam", {
+      const res = await fetch(`/api/check-localizador/${mode}`, {
         method: "POST",
         credentials: "include",
         headers: { "Content-Type": "application/json" },
@@ -135,17 +191,9 @@ export default function CheckLocalizadorClient({ mode }: { mode: Mode }) {
       const row = j?.row || null;
       if (row?.id) {
         setRows((prev) =>
-          prev.map((r) =>
-            r.id === row.id
-              ? {
-                  ...r,
-                  latamLocatorCheckStatus: row.latamLocatorCheckStatus || null,
-                  latamLocatorCheckedAt: row.latamLocatorCheckedAt || null,
-                  latamLocatorCheckNote: row.latamLocatorCheckNote || null,
-                }
-              : r
-          )
+          prev.map((r) => (r.id === row.id ? { ...r, lastCheck: row.lastCheck || null } : r))
         );
+        if (historyId === row.id) setHistoryId(null);
       }
     } catch (e: unknown) {
       const msg =
@@ -161,7 +209,12 @@ export default function CheckLocalizadorClient({ mode }: { mode: Mode }) {
       <div>
         <h1 className="text-2xl font-semibold">{title}</h1>
         <p className="text-sm text-slate-500">
-          Ordenado por proximidade do próximo voo (ida ou volta).
+          Ordenado por proximidade do próximo voo (ida ou volta). O status é checado
+          automaticamente; alterações e cancelamentos vão para a{" "}
+          <a href="/dashboard/check-localizador/fila" className="underline">
+            fila de revisão
+          </a>
+          .
         </p>
       </div>
 
@@ -179,8 +232,8 @@ export default function CheckLocalizadorClient({ mode }: { mode: Mode }) {
               <th className="px-3 py-2 text-left">Data ida</th>
               <th className="px-3 py-2 text-left">Data volta</th>
               <th className="px-3 py-2 text-left">Cedente</th>
-              {mode === "latam" ? <th className="px-3 py-2 text-left">Status</th> : null}
-              {mode === "latam" ? <th className="px-3 py-2 text-left">Ação</th> : null}
+              <th className="px-3 py-2 text-left">Status</th>
+              <th className="px-3 py-2 text-left">Ação</th>
             </tr>
           </thead>
           <tbody>
@@ -214,50 +267,93 @@ export default function CheckLocalizadorClient({ mode }: { mode: Mode }) {
                     <div className="font-medium">{r.cedente?.nomeCompleto || "-"}</div>
                     <div className="text-xs text-slate-500">{r.cedente?.identificador || "-"}</div>
                   </td>
-                  {mode === "latam" ? (
-                    <td className="px-3 py-2">
-                      <div className={`font-medium ${statusClass(r.latamLocatorCheckStatus)}`}>
-                        {statusLabel(r.latamLocatorCheckStatus)}
-                      </div>
-                      <div className="text-xs text-slate-500">
-                        {fmtDateBR(r.latamLocatorCheckedAt)}
-                      </div>
-                      {r.latamLocatorCheckNote ? (
-                        <div className="text-xs text-slate-500 mt-1 max-w-[280px] break-words">
-                          {r.latamLocatorCheckNote}
-                        </div>
+                  <td className="px-3 py-2">
+                    <div className={`font-medium ${statusClass(r.lastCheck?.status)}`}>
+                      {statusLabel(r.lastCheck?.status)}
+                      {r.lastCheck?.pending ? (
+                        <span className="ml-2 rounded-full bg-amber-100 px-2 py-0.5 text-[11px] text-amber-700">
+                          na fila
+                        </span>
                       ) : null}
-                    </td>
-                  ) : null}
-                  {mode === "latam" ? (
-                    <td className="px-3 py-2">
-                      <div className="flex flex-wrap gap-2 items-center">
-                        <a
-                          href={r.checkUrl || "#"}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="rounded-lg border px-2 py-1 text-xs hover:bg-slate-50"
-                        >
-                          Abrir LATAM
-                        </a>
-                        <select
-                          className="rounded-lg border px-2 py-1 text-xs bg-white"
-                          value={(r.latamLocatorCheckStatus || "") as string}
-                          disabled={savingId === r.id}
-                          onChange={(e) => {
-                            const v = String(e.target.value || "") as ManualStatus;
-                            if (!v) return;
-                            updateManualStatus(r.id, v);
-                          }}
-                        >
-                          <option value="">Selecionar...</option>
-                          <option value="CANCELADO">Cancelado</option>
-                          <option value="CONFIRMADO">Confirmado</option>
-                          <option value="ALTERADO">Alterado</option>
-                        </select>
+                    </div>
+                    <div className="text-xs text-slate-500">
+                      {r.lastCheck
+                        ? `${fmtDateTimeBR(r.lastCheck.checkedAt)} · ${
+                            r.lastCheck.source === "AUTO" ? "automático" : "manual"
+                          }`
+                        : "-"}
+                    </div>
+                    {r.lastCheck?.note ? (
+                      <div className="text-xs text-slate-500 mt-1 max-w-[280px] break-words">
+                        {r.lastCheck.note}
                       </div>
-                    </td>
-                  ) : null}
+                    ) : null}
+                  </td>
+                  <td className="px-3 py-2">
+                    <div className="flex flex-wrap gap-2 items-center">
+                      <a
+                        href={r.checkUrl || "#"}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="rounded-lg border px-2 py-1 text-xs hover:bg-slate-50"
+                      >
+                        {mode === "latam" ? "Abrir LATAM" : "Abrir Smiles"}
+                      </a>
+                      <select
+                        className="rounded-lg border px-2 py-1 text-xs bg-white"
+                        value=""
+                        disabled={savingId === r.id}
+                        onChange={(e) => {
+                          const v = String(e.target.value || "") as ManualStatus;
+                          if (!v) return;
+                          updateManualStatus(r.id, v);
+                        }}
+                      >
+                        <option value="">Marcar manual...</option>
+                        <option value="CANCELADO">Cancelado</option>
+                        <option value="CONFIRMADO">Confirmado</option>
+                        <option value="ALTERADO">Alterado</option>
+                      </select>
+                      <button
+                        type="button"
+                        onClick={() => toggleHistory(r.id)}
+                        className="rounded-lg border px-2 py-1 text-xs hover:bg-slate-50"
+                      >
+                        {historyId === r.id ? "Fechar" : "Histórico"}
+                      </button>
+                    </div>
+                    {historyId === r.id ? (
+                      <div className="mt-2 max-w-[360px] space-y-1 rounded-lg bg-slate-50 p-2 text-xs">
+                        {historyLoading ? (
+                          <div className="text-slate-500">Carregando...</div>
+                        ) : history.length === 0 ? (
+                          <div className="text-slate-500">Nenhum check registrado.</div>
+                        ) : (
+                          history.map((h) => (
+                            <div key={h.id} className="border-b last:border-b-0 pb-1">
+                              <span className={`font-medium ${statusClass(h.status)}`}>
+                                {statusLabel(h.status)}
+                              </span>{" "}
+                              <span className="text-slate-500">
+                                {fmtDateTimeBR(h.createdAt)} ·{" "}
+                                {h.source === "AUTO" ? h.provider || "automático" : h.checkedBy?.name || "manual"}
+                              </span>
+                              {h.note ? <div className="text-slate-500">{h.note}</div> : null}
+                              {h.flagged ? (
+                                <div className="text-slate-500">
+                                  {h.resolvedAt
+                                    ? `Resolvido por ${h.resolvedBy?.name || "-"} em ${fmtDateTimeBR(h.resolvedAt)}${
+                                        h.resolvedNote ? ` — ${h.resolvedNote}` : ""
+                                      }`
+                                    : "Pendente na fila"}
+                                </div>
+                              ) : null}
+                            </div>
+                          ))
+                        )}
+                      </div>
+                    ) : null}
+                  </td>
                 </tr>
               ))
             )}
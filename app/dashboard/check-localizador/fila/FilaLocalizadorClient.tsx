@@ -0,0 +1,229 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type QueueRow = {
+  id: string;
+  program: "LATAM" | "SMILES";
+  status: string;
+  provider: string | null;
+  note: string | null;
+  createdAt: string;
+  sale: {
+    id: string;
+    numero: string;
+    locator: string | null;
+    purchaseCode: string | null;
+    firstPassengerLastName: string | null;
+    departureDate: string | null;
+    returnDate: string | null;
+    cedente: { identificador: string; nomeCompleto: string };
+    cliente: { nome: string };
+  };
+};
+
+function fmtDateBR(v?: string | null) {
+  if (!v) return "-";
+  const d = new Date(v);
+  if (Number.isNaN(d.getTime())) return "-";
+  return d.toLocaleDateString("pt-BR");
+}
+
+function fmtDateTimeBR(v?: string | null) {
+  if (!v) return "-";
+  const d = new Date(v);
+  if (Number.isNaN(d.getTime())) return "-";
+  return d.toLocaleString("pt-BR", { dateStyle: "short", timeStyle: "short" });
+}
+
+function statusBadge(v: string) {
+  if (v === "CANCELADO") return "bg-rose-100 text-rose-700";
+  if (v === "ALTERADO") return "bg-amber-100 text-amber-700";
+  return "bg-slate-100 text-slate-700";
+}
+
+async function fetchQueue(): Promise<QueueRow[]> {
+  const res = await fetch("/api/check-localizador/fila", { cache: "no-store", credentials: "include" });
+  const j = await res.json().catch(() => ({}));
+  if (!res.ok || j?.ok === false) throw new Error(j?.error || `Erro ${res.status}`);
+  return Array.isArray(j?.rows) ? j.rows : [];
+}
+
+export default function FilaLocalizadorClient() {
+  const [rows, setRows] = useState<QueueRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  const [runInfo, setRunInfo] = useState("");
+
+  useEffect(() => {
+    let alive = true;
+    fetchQueue()
+      .then((list) => alive && setRows(list))
+      .catch((e: unknown) => alive && setError(e instanceof Error ? e.message : "Erro ao carregar fila."))
+      .finally(() => alive && setLoading(false));
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  async function reload() {
+    setLoading(true);
+    setError("");
+    try {
+      setRows(await fetchQueue());
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Erro ao carregar fila.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function resolve(id: string) {
+    const note = prompt("Como foi tratado? (opcional)");
+    if (note === null) return;
+
+    setBusyId(id);
+    try {
+      const res = await fetch("/api/check-localizador/fila", {
+        method: "PATCH",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id, note }),
+      });
+      const j = await res.json().catch(() => ({}));
+      if (!res.ok || j?.ok === false) throw new Error(j?.error || `Erro ${res.status}`);
+      setRows((prev) => prev.filter((r) => r.id !== id));
+    } catch (e: unknown) {
+      alert(e instanceof Error && e.message ? e.message : "Falha ao resolver.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function runNow() {
+    setRunning(true);
+    setRunInfo("");
+    try {
+      const res = await fetch("/api/check-localizador/fila", { method: "POST", credentials: "include" });
+      const j = await res.json().catch(() => ({}));
+      if (!res.ok || j?.ok === false) throw new Error(j?.error || `Erro ${res.status}`);
+      setRunInfo(`${j.checked} checadas · ${j.flagged} novas na fila · ${j.errors} com erro`);
+      await reload();
+    } catch (e: unknown) {
+      setRunInfo(e instanceof Error ? e.message : "Falha ao rodar o check.");
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-semibold">Fila de localizadores</h1>
+          <p className="text-sm text-slate-500">
+            Reservas que o check automático encontrou alteradas ou canceladas. Trate com o
+            cliente e marque como resolvido.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {runInfo ? <span className="text-xs text-slate-500">{runInfo}</span> : null}
+          <button
+            onClick={runNow}
+            disabled={running}
+            className="rounded-xl border px-3 py-2 text-sm hover:bg-slate-50 disabled:opacity-50"
+          >
+            {running ? "Checando..." : "Checar agora"}
+          </button>
+          <button
+            onClick={reload}
+            className="rounded-xl border px-3 py-2 text-sm hover:bg-slate-50"
+          >
+            {loading ? "Atualizando..." : "Atualizar"}
+          </button>
+        </div>
+      </div>
+
+      {error ? <div className="text-sm text-rose-600">{error}</div> : null}
+
+      <div className="rounded-2xl border bg-white overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 border-b text-slate-600">
+            <tr>
+              <th className="px-3 py-2 text-left">Detectado</th>
+              <th className="px-3 py-2 text-left">Status</th>
+              <th className="px-3 py-2 text-left">Venda</th>
+              <th className="px-3 py-2 text-left">Localizador</th>
+              <th className="px-3 py-2 text-left">Ida / Volta</th>
+              <th className="px-3 py-2 text-left">Cliente</th>
+              <th className="px-3 py-2 text-left">Cedente</th>
+              <th className="px-3 py-2 text-left" />
+            </tr>
+          </thead>
+          <tbody>
+            {loading && rows.length === 0 ? (
+              <tr>
+                <td className="px-3 py-6 text-slate-500" colSpan={8}>
+                  Carregando...
+                </td>
+              </tr>
+            ) : rows.length === 0 ? (
+              <tr>
+                <td className="px-3 py-6 text-slate-500" colSpan={8}>
+                  Nenhuma reserva pendente. 🎉
+                </td>
+              </tr>
+            ) : (
+              rows.map((r) => (
+                <tr key={r.id} className="border-b last:border-b-0 align-top">
+                  <td className="px-3 py-2">
+                    <div>{fmtDateTimeBR(r.createdAt)}</div>
+                    <div className="text-xs text-slate-500">{r.provider || "-"}</div>
+                  </td>
+                  <td className="px-3 py-2">
+                    <span className={`rounded-full px-2 py-0.5 text-xs ${statusBadge(r.status)}`}>
+                      {r.status === "CANCELADO" ? "Cancelado" : r.status === "ALTERADO" ? "Alterado" : r.status}
+                    </span>
+                    {r.note ? (
+                      <div className="text-xs text-slate-500 mt-1 max-w-[260px] break-words">{r.note}</div>
+                    ) : null}
+                  </td>
+                  <td className="px-3 py-2">
+                    <div className="font-mono">{r.sale.numero}</div>
+                    <div className="text-xs text-slate-500">{r.program}</div>
+                  </td>
+                  <td className="px-3 py-2 font-mono">
+                    <div>{r.sale.locator || "-"}</div>
+                    {r.sale.purchaseCode ? (
+                      <div className="text-xs text-slate-500">{r.sale.purchaseCode}</div>
+                    ) : null}
+                    <div className="text-xs text-slate-500">{r.sale.firstPassengerLastName || "-"}</div>
+                  </td>
+                  <td className="px-3 py-2">
+                    {fmtDateBR(r.sale.departureDate)} / {fmtDateBR(r.sale.returnDate)}
+                  </td>
+                  <td className="px-3 py-2">{r.sale.cliente?.nome || "-"}</td>
+                  <td className="px-3 py-2">
+                    <div className="font-medium">{r.sale.cedente?.nomeCompleto || "-"}</div>
+                    <div className="text-xs text-slate-500">{r.sale.cedente?.identificador || "-"}</div>
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    <button
+                      onClick={() => resolve(r.id)}
+                      disabled={busyId === r.id}
+                      className="rounded-lg bg-black px-3 py-1 text-xs text-white disabled:opacity-50"
+                    >
+                      {busyId === r.id ? "Salvando..." : "Resolvido"}
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+import FilaLocalizadorClient from "./FilaLocalizadorClient";
+
+export const dynamic = "force-dynamic";
+
+export default function Page() {
+  return <FilaLocalizadorClient />;
+}
@@ -15,6 +15,7 @@ type ClienteRow = {
   telefone: string | null;
   origem: ClienteOrigem;
   origemDescricao: string | null;
+  tags: string[];
   createdAt: string;
 };
 
@@ -60,7 +61,8 @@ export default function ClientesClient() {
       const b = (c.identificador || "").toLowerCase();
       const d = (c.cpfCnpj || "").toLowerCase();
       const t = (c.telefone || "").toLowerCase();
-      return a.includes(s) || b.includes(s) || d.includes(s) || t.includes(s);
+      const tags = (c.tags || []).join(" ");
+      return a.includes(s) || b.includes(s) || d.includes(s) || t.includes(s) || tags.includes(s);
     });
   }, [rows, q]);
 
@@ -97,6 +99,20 @@ export default function ClientesClient() {
             Baixar XLS
           </a>
 
+          <Link
+            href="/dashboard/clientes/duplicados"
+            className="rounded-xl border px-4 py-2 text-sm hover:bg-slate-50"
+          >
+            Duplicados
+          </Link>
+
+          <Link
+            href="/dashboard/clientes/dormentes"
+            className="rounded-xl border px-4 py-2 text-sm hover:bg-slate-50"
+          >
+            Dormentes
+          </Link>
+
           <Link
             href="/dashboard/clientes/novo"
             className="rounded-xl bg-black px-4 py-2 text-sm text-white hover:bg-gray-800"
@@ -119,7 +135,7 @@ export default function ClientesClient() {
           className="w-full rounded-xl border px-3 py-2 text-sm"
           value={q}
           onChange={(e) => setQ(e.target.value)}
-          placeholder="Nome, CL00001, CPF/CNPJ, telefone..."
+          placeholder="Nome, CL00001, CPF/CNPJ, telefone, etiqueta..."
         />
       </div>
 
@@ -151,7 +167,14 @@ export default function ClientesClient() {
                 {filtered.map((c) => (
                   <tr key={c.id} className="border-t hover:bg-slate-50">
                     <td className="px-3 py-2 font-medium">{c.identificador}</td>
-                    <td className="px-3 py-2">{c.nome}</td>
+                    <td className="px-3 py-2">
+                      <Link href={`/dashboard/clientes/${c.id}`} className="hover:underline">
+                        {c.nome}
+                      </Link>
+                      {c.tags?.length ? (
+                        <div className="text-xs text-slate-500">{c.tags.join(", ")}</div>
+                      ) : null}
+                    </td>
                     <td className="px-3 py-2">
                       {c.tipo === "EMPRESA" ? "Empresa" : "Pessoa"}
                     </td>
@@ -161,7 +184,13 @@ export default function ClientesClient() {
                       {origemLabel(c.origem, c.origemDescricao)}
                     </td>
                     <td className="px-3 py-2">{dateBR(c.createdAt)}</td>
-                    <td className="px-3 py-2 text-right">
+                    <td className="px-3 py-2 text-right space-x-2">
+                      <Link
+                        href={`/dashboard/clientes/${c.id}`}
+                        className="inline-flex rounded-lg border px-3 py-1.5 text-xs hover:bg-white"
+                      >
+                        Perfil
+                      </Link>
                       <Link
                         href={`/dashboard/clientes/${c.id}/editar`}
                         className="inline-flex rounded-lg border px-3 py-1.5 text-xs hover:bg-white"
@@ -0,0 +1,406 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+
+type Ranked = { key: string; count: number; points: number; revenueCents: number };
+
+type Activity = {
+  kind: "SALE" | "BALCAO_FINAL" | "BALCAO_SUPPLIER";
+  id: string;
+  at: string;
+  label: string;
+  program: string;
+  points: number;
+  amountCents: number;
+  profitCents: number | null;
+  status: string | null;
+};
+
+type Profile = {
+  purchases: number;
+  salesCount: number;
+  canceledCount: number;
+  balcaoCount: number;
+  revenueCents: number;
+  profitCents: number;
+  avgTicketCents: number;
+  avgMilheiroCents: number;
+  firstPurchaseAt: string | null;
+  lastPurchaseAt: string | null;
+  daysSinceLastPurchase: number | null;
+  avgDaysBetweenPurchases: number | null;
+  programs: Ranked[];
+  routes: Ranked[];
+  receivables: { openCents: number; overdueCents: number; installments: number };
+  supplier: { count: number; points: number; paidCents: number };
+  activity: Activity[];
+};
+
+type Cliente = {
+  id: string;
+  identificador: string;
+  tipo: "PESSOA" | "EMPRESA";
+  nome: string;
+  cpfCnpj: string | null;
+  telefone: string | null;
+  tags: string[];
+  createdAt: string;
+  mergedAt: string | null;
+  mergedInto: { id: string; identificador: string; nome: string } | null;
+};
+
+type Note = { id: string; text: string; createdAt: string; author: { id: string; name: string } | null };
+
+const KIND_LABEL: Record<Activity["kind"], string> = {
+  SALE: "Venda",
+  BALCAO_FINAL: "Balcão",
+  BALCAO_SUPPLIER: "Fornecedor",
+};
+
+function fmtMoney(cents: number) {
+  return ((cents || 0) / 100).toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+}
+
+function fmtInt(n: number) {
+  return (n || 0).toLocaleString("pt-BR");
+}
+
+function dateBR(iso: string | null) {
+  return iso ? new Date(iso).toLocaleDateString("pt-BR") : "-";
+}
+
+async function fetchJson(url: string, init?: RequestInit) {
+  const res = await fetch(url, { cache: "no-store", ...init });
+  const json = await res.json().catch(() => null);
+  if (!res.ok || !json?.ok) throw new Error(json?.error || "Falha na requisição.");
+  return json;
+}
+
+/** ✅ Perfil do cliente (CRM): números da vida toda, preferências, notas e etiquetas */
+export default function ClientePerfilClient({ id }: { id: string }) {
+  const [cliente, setCliente] = useState<Cliente | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [notes, setNotes] = useState<Note[]>([]);
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const [noteText, setNoteText] = useState("");
+  const [tagInput, setTagInput] = useState("");
+
+  async function load() {
+    const json = await fetchJson(`/api/clientes/${id}/perfil`);
+    setCliente(json.data.cliente);
+    setProfile(json.data.profile);
+    setNotes(json.data.notes || []);
+  }
+
+  useEffect(() => {
+    let alive = true;
+    fetchJson(`/api/clientes/${id}/perfil`)
+      .then((json) => {
+        if (!alive) return;
+        setCliente(json.data.cliente);
+        setProfile(json.data.profile);
+        setNotes(json.data.notes || []);
+      })
+      .catch((e) => alive && setError(e instanceof Error ? e.message : "Erro ao carregar cliente."));
+    return () => {
+      alive = false;
+    };
+  }, [id]);
+
+  async function saveTags(tags: string[]) {
+    setBusy(true);
+    setError("");
+    try {
+      const json = await fetchJson(`/api/clientes/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ tags }),
+      });
+      setCliente((prev) => (prev ? { ...prev, tags: json.data.cliente.tags } : prev));
+      setTagInput("");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao salvar etiquetas.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function addNote() {
+    if (!noteText.trim()) return;
+    setBusy(true);
+    setError("");
+    try {
+      await fetchJson(`/api/clientes/${id}/notas`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ text: noteText }),
+      });
+      setNoteText("");
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao salvar nota.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function removeNote(noteId: string) {
+    if (!confirm("Excluir esta nota?")) return;
+    setBusy(true);
+    setError("");
+    try {
+      await fetchJson(`/api/clientes/${id}/notas?noteId=${encodeURIComponent(noteId)}`, { method: "DELETE" });
+      setNotes((prev) => prev.filter((n) => n.id !== noteId));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao excluir nota.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (!cliente || !profile) {
+    return (
+      <div className="space-y-4">
+        {error ? (
+          <div className="rounded-xl border bg-rose-50 p-3 text-sm text-rose-800">{error}</div>
+        ) : (
+          <div className="text-sm text-slate-600">Carregando...</div>
+        )}
+      </div>
+    );
+  }
+
+  const cards: [string, string][] = [
+    ["Faturamento (vida toda)", fmtMoney(profile.revenueCents)],
+    ["Lucro estimado", fmtMoney(profile.profitCents)],
+    ["Compras", `${profile.purchases} (${profile.salesCount} vendas • ${profile.balcaoCount} balcão)`],
+    ["Ticket médio", fmtMoney(profile.avgTicketCents)],
+    ["Milheiro médio pago", profile.avgMilheiroCents ? fmtMoney(profile.avgMilheiroCents) : "-"],
+    [
+      "Última compra",
+      profile.lastPurchaseAt ? `${dateBR(profile.lastPurchaseAt)} (${profile.daysSinceLastPurchase} dias)` : "-",
+    ],
+    [
+      "Recompra",
+      profile.avgDaysBetweenPurchases !== null ? `a cada ~${profile.avgDaysBetweenPurchases} dias` : "compra única",
+    ],
+    [
+      "A receber",
+      `${fmtMoney(profile.receivables.openCents)}${
+        profile.receivables.overdueCents ? ` (vencido ${fmtMoney(profile.receivables.overdueCents)})` : ""
+      }`,
+    ],
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold">{cliente.nome}</h1>
+          <p className="text-sm text-slate-600">
+            {cliente.identificador} • {cliente.tipo === "EMPRESA" ? "Empresa" : "Pessoa"} • {cliente.cpfCnpj || "sem documento"}{" "}
+            • {cliente.telefone || "sem telefone"} • cliente desde {dateBR(cliente.createdAt)}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Link href={`/dashboard/clientes/${cliente.id}/editar`} className="rounded-xl border px-4 py-2 text-sm hover:bg-slate-50">
+            Editar
+          </Link>
+          <Link href="/dashboard/clientes" className="rounded-xl border px-4 py-2 text-sm hover:bg-slate-50">
+            Voltar
+          </Link>
+        </div>
+      </div>
+
+      {error ? <div className="rounded-xl border bg-rose-50 p-3 text-sm text-rose-800">{error}</div> : null}
+
+      {cliente.mergedInto ? (
+        <div className="rounded-xl border bg-amber-50 p-3 text-sm text-amber-800">
+          Cadastro duplicado, mesclado em {dateBR(cliente.mergedAt)} no cliente{" "}
+          <Link href={`/dashboard/clientes/${cliente.mergedInto.id}`} className="font-medium underline">
+            {cliente.mergedInto.nome} ({cliente.mergedInto.identificador})
+          </Link>
+          .
+        </div>
+      ) : null}
+
+      {/* Etiquetas */}
+      <div className="rounded-2xl border bg-white p-4 space-y-2">
+        <div className="text-sm font-semibold">Etiquetas</div>
+        <div className="flex flex-wrap items-center gap-2">
+          {cliente.tags.length === 0 ? <span className="text-sm text-slate-500">Nenhuma.</span> : null}
+          {cliente.tags.map((t) => (
+            <span key={t} className="inline-flex items-center gap-1 rounded-full border bg-slate-50 px-2 py-0.5 text-xs">
+              {t}
+              <button
+                type="button"
+                disabled={busy}
+                onClick={() => saveTags(cliente.tags.filter((x) => x !== t))}
+                className="text-slate-400 hover:text-rose-600"
+                aria-label={`Remover ${t}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+          <input
+            className="rounded-xl border px-3 py-1.5 text-sm"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && tagInput.trim()) saveTags([...cliente.tags, tagInput]);
+            }}
+            placeholder="Nova etiqueta (Enter)"
+          />
+        </div>
+      </div>
+
+      {/* Números */}
+      <div className="grid gap-3 md:grid-cols-4">
+        {cards.map(([label, value]) => (
+          <div key={label} className="rounded-2xl border bg-white p-4">
+            <div className="text-xs text-slate-600">{label}</div>
+            <div className="text-sm font-semibold">{value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <div className="rounded-2xl border bg-white p-4 space-y-2">
+          <div className="text-sm font-semibold">Programas preferidos</div>
+          {profile.programs.length === 0 ? (
+            <div className="text-sm text-slate-500">Sem compras.</div>
+          ) : (
+            profile.programs.map((p) => (
+              <div key={p.key} className="flex justify-between text-sm">
+                <span>{p.key}</span>
+                <span className="text-slate-600">
+                  {p.count}× • {fmtInt(p.points)} pts
+                </span>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="rounded-2xl border bg-white p-4 space-y-2">
+          <div className="text-sm font-semibold">Rotas (aeroporto de ida)</div>
+          {profile.routes.length === 0 ? (
+            <div className="text-sm text-slate-500">Sem rotas registradas.</div>
+          ) : (
+            profile.routes.map((r) => (
+              <div key={r.key} className="flex justify-between text-sm">
+                <span className="font-mono">{r.key}</span>
+                <span className="text-slate-600">{r.count}×</span>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="rounded-2xl border bg-white p-4 space-y-2">
+          <div className="text-sm font-semibold">Como fornecedor (balcão)</div>
+          {profile.supplier.count === 0 ? (
+            <div className="text-sm text-slate-500">Nunca vendeu pontos para nós.</div>
+          ) : (
+            <div className="text-sm text-slate-700">
+              {profile.supplier.count} operação(ões) • {fmtInt(profile.supplier.points)} pts •{" "}
+              {fmtMoney(profile.supplier.paidCents)} pagos
+            </div>
+          )}
+          {profile.canceledCount ? (
+            <div className="text-xs text-slate-500">{profile.canceledCount} venda(s) cancelada(s) fora dos totais.</div>
+          ) : null}
+        </div>
+      </div>
+
+      {/* Atividade */}
+      <div className="rounded-2xl border bg-white p-4 space-y-2">
+        <div className="text-sm font-semibold">Histórico recente</div>
+        {profile.activity.length === 0 ? (
+          <div className="text-sm text-slate-500">Nenhuma movimentação.</div>
+        ) : (
+          <div className="overflow-auto rounded-xl border">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-3 py-2 text-left">Data</th>
+                  <th className="px-3 py-2 text-left">Tipo</th>
+                  <th className="px-3 py-2 text-left">Descrição</th>
+                  <th className="px-3 py-2 text-left">Programa</th>
+                  <th className="px-3 py-2 text-right">Pontos</th>
+                  <th className="px-3 py-2 text-right">Valor</th>
+                  <th className="px-3 py-2 text-right">Lucro</th>
+                </tr>
+              </thead>
+              <tbody>
+                {profile.activity.map((a) => (
+                  <tr key={`${a.kind}-${a.id}`} className="border-t">
+                    <td className="px-3 py-2">{dateBR(a.at)}</td>
+                    <td className="px-3 py-2">{KIND_LABEL[a.kind]}</td>
+                    <td className="px-3 py-2">
+                      {a.label}
+                      {a.status === "CANCELED" ? <span className="ml-1 text-xs text-rose-700">(cancelada)</span> : null}
+                    </td>
+                    <td className="px-3 py-2">{a.program}</td>
+                    <td className="px-3 py-2 text-right tabular-nums">{fmtInt(a.points)}</td>
+                    <td className="px-3 py-2 text-right tabular-nums">{fmtMoney(a.amountCents)}</td>
+                    <td className="px-3 py-2 text-right tabular-nums">
+                      {a.profitCents === null ? "-" : fmtMoney(a.profitCents)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Notas */}
+      <div className="rounded-2xl border bg-white p-4 space-y-3">
+        <div className="text-sm font-semibold">Notas</div>
+        <div className="flex gap-2">
+          <textarea
+            className="min-h-[60px] flex-1 rounded-xl border px-3 py-2 text-sm"
+            value={noteText}
+            onChange={(e) => setNoteText(e.target.value)}
+            placeholder="Ex.: prefere voos pela manhã, fechar sempre por PIX..."
+          />
+          <button
+            type="button"
+            onClick={addNote}
+            disabled={busy || !noteText.trim()}
+            className="self-start rounded-xl bg-black px-4 py-2 text-sm text-white hover:bg-gray-800 disabled:opacity-50"
+          >
+            Salvar
+          </button>
+        </div>
+        {notes.length === 0 ? (
+          <div className="text-sm text-slate-500">Nenhuma nota.</div>
+        ) : (
+          <div className="space-y-2">
+            {notes.map((n) => (
+              <div key={n.id} className="rounded-xl border p-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="whitespace-pre-wrap text-sm">{n.text}</div>
+                  <button
+                    type="button"
+                    onClick={() => removeNote(n.id)}
+                    disabled={busy}
+                    className="text-xs text-slate-400 hover:text-rose-600"
+                  >
+                    Excluir
+                  </button>
+                </div>
+                <div className="mt-1 text-xs text-slate-500">
+                  {new Date(n.createdAt).toLocaleString("pt-BR")} • {n.author?.name || "-"}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,8 @@
+import ClientePerfilClient from "./ClientePerfilClient";
+
+export const dynamic = "force-dynamic";
+
+export default async function Page({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  return <ClientePerfilClient id={id} />;
+}
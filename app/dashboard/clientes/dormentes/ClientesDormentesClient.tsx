@@ -0,0 +1,141 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+
+type Row = {
+  id: string;
+  identificador: string;
+  nome: string;
+  telefone: string | null;
+  tags: string[];
+  lastPurchaseAt: string;
+  daysSinceLastPurchase: number;
+  purchases: number;
+  revenueCents: number;
+  whatsappUrl: string | null;
+};
+
+const DAY_OPTIONS = [60, 90, 180, 365];
+
+function fmtMoney(cents: number) {
+  return ((cents || 0) / 100).toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+}
+
+async function fetchJson(url: string) {
+  const res = await fetch(url, { cache: "no-store" });
+  const json = await res.json().catch(() => null);
+  if (!res.ok || !json?.ok) throw new Error(json?.error || "Falha na requisição.");
+  return json;
+}
+
+/** ✅ Clientes dormentes: já compraram e estão há N dias sem comprar */
+export default function ClientesDormentesClient() {
+  const [days, setDays] = useState(90);
+  const [rows, setRows] = useState<Row[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let alive = true;
+    fetchJson(`/api/clientes/dormentes?days=${days}`)
+      .then((json) => alive && setRows(json.data.rows as Row[]))
+      .catch((e) => alive && setError(e instanceof Error ? e.message : "Erro ao carregar clientes."))
+      .finally(() => alive && setLoading(false));
+    return () => {
+      alive = false;
+    };
+  }, [days]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold">Clientes dormentes</h1>
+          <p className="text-sm text-slate-600">
+            Quem já comprou (venda ou balcão) e está sem comprar há {days} dias ou mais. Maior faturamento primeiro.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            className="rounded-xl border px-3 py-2 text-sm"
+            value={days}
+            onChange={(e) => {
+              setLoading(true);
+              setError("");
+              setDays(Number(e.target.value));
+            }}
+          >
+            {DAY_OPTIONS.map((d) => (
+              <option key={d} value={d}>
+                {d}+ dias
+              </option>
+            ))}
+          </select>
+          <Link href="/dashboard/clientes" className="rounded-xl border px-4 py-2 text-sm hover:bg-slate-50">
+            Voltar
+          </Link>
+        </div>
+      </div>
+
+      {error ? <div className="rounded-xl border bg-rose-50 p-3 text-sm text-rose-800">{error}</div> : null}
+
+      <div className="rounded-2xl border bg-white p-4">
+        {loading ? (
+          <div className="text-sm text-slate-600">Carregando...</div>
+        ) : rows.length === 0 ? (
+          <div className="text-sm text-slate-600">Nenhum cliente dormente nesse período.</div>
+        ) : (
+          <div className="overflow-auto rounded-xl border">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-3 py-2 text-left">Cliente</th>
+                  <th className="px-3 py-2 text-left">Última compra</th>
+                  <th className="px-3 py-2 text-right">Compras</th>
+                  <th className="px-3 py-2 text-right">Faturamento</th>
+                  <th className="px-3 py-2 text-right">Reativar</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((r) => (
+                  <tr key={r.id} className="border-t">
+                    <td className="px-3 py-2">
+                      <Link href={`/dashboard/clientes/${r.id}`} className="font-medium hover:underline">
+                        {r.nome}
+                      </Link>
+                      <div className="text-xs text-slate-500">
+                        {r.identificador}
+                        {r.tags.length ? ` • ${r.tags.join(", ")}` : ""}
+                      </div>
+                    </td>
+                    <td className="px-3 py-2">
+                      {new Date(r.lastPurchaseAt).toLocaleDateString("pt-BR")}{" "}
+                      <span className="text-xs text-slate-500">({r.daysSinceLastPurchase} dias)</span>
+                    </td>
+                    <td className="px-3 py-2 text-right">{r.purchases}</td>
+                    <td className="px-3 py-2 text-right tabular-nums">{fmtMoney(r.revenueCents)}</td>
+                    <td className="px-3 py-2 text-right">
+                      {r.whatsappUrl ? (
+                        <a
+                          href={r.whatsappUrl}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="rounded-xl bg-emerald-600 px-3 py-1.5 text-xs text-white hover:bg-emerald-700"
+                        >
+                          WhatsApp
+                        </a>
+                      ) : (
+                        <span className="text-xs text-slate-500">sem telefone</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+import ClientesDormentesClient from "./ClientesDormentesClient";
+
+export const dynamic = "force-dynamic";
+
+export default function Page() {
+  return <ClientesDormentesClient />;
+}
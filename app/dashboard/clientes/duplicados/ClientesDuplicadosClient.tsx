@@ -0,0 +1,281 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+
+type Reason = "CPF_CNPJ" | "TELEFONE" | "NOME";
+
+type Member = {
+  id: string;
+  identificador: string;
+  nome: string;
+  cpfCnpj: string | null;
+  telefone: string | null;
+  tags: string[];
+  createdAt: string;
+  sales: number;
+  balcao: number;
+};
+
+type Group = { key: string; reasons: Reason[]; members: Member[] };
+
+type ClienteRef = { id: string; identificador: string; nome: string };
+
+type Merge = {
+  id: string;
+  createdAt: string;
+  undoneAt: string | null;
+  reason: string | null;
+  saleIds: string[];
+  balcaoSupplierIds: string[];
+  balcaoFinalIds: string[];
+  kept: ClienteRef;
+  merged: ClienteRef;
+  createdBy: { id: string; name: string } | null;
+  undoneBy: { id: string; name: string } | null;
+};
+
+const REASON_LABEL: Record<Reason, string> = {
+  CPF_CNPJ: "Mesmo CPF/CNPJ",
+  TELEFONE: "Mesmo telefone",
+  NOME: "Nome parecido",
+};
+
+function dateTimeBR(iso: string) {
+  return new Date(iso).toLocaleString("pt-BR");
+}
+
+async function fetchJson(url: string, init?: RequestInit) {
+  const res = await fetch(url, { cache: "no-store", ...init });
+  const json = await res.json().catch(() => null);
+  if (!res.ok || !json?.ok) throw new Error(json?.error || "Falha na requisição.");
+  return json;
+}
+
+/** ✅ Clientes duplicados: agrupa por CPF/CNPJ, telefone e nome; mescla e desfaz */
+export default function ClientesDuplicadosClient() {
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [merges, setMerges] = useState<Merge[]>([]);
+  const [keepByGroup, setKeepByGroup] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  async function load() {
+    const json = await fetchJson("/api/clientes/duplicados");
+    setGroups(json.data.groups as Group[]);
+    setMerges(json.data.merges as Merge[]);
+  }
+
+  useEffect(() => {
+    let alive = true;
+    fetchJson("/api/clientes/duplicados")
+      .then((json) => {
+        if (!alive) return;
+        setGroups(json.data.groups as Group[]);
+        setMerges(json.data.merges as Merge[]);
+      })
+      .catch((e) => alive && setError(e instanceof Error ? e.message : "Erro ao carregar duplicados."))
+      .finally(() => alive && setLoading(false));
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  // padrão: manter o que tem mais movimento (empate → o mais antigo)
+  function defaultKeep(g: Group) {
+    return [...g.members].sort((a, b) => b.sales + b.balcao - (a.sales + a.balcao))[0].id;
+  }
+
+  async function mergeGroup(g: Group) {
+    const keepId = keepByGroup[g.key] || defaultKeep(g);
+    const kept = g.members.find((m) => m.id === keepId);
+    const others = g.members.filter((m) => m.id !== keepId);
+    if (!kept) return;
+    if (
+      !confirm(
+        `Mesclar ${others.map((o) => `${o.nome} (${o.identificador})`).join(", ")} em ${kept.nome} (${kept.identificador})?\n\nVendas e operações do balcão passam para o cliente mantido. Dá para desfazer depois.`
+      )
+    ) {
+      return;
+    }
+
+    setBusy(true);
+    setError("");
+    try {
+      for (const o of others) {
+        await fetchJson("/api/clientes/mesclar", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ keepId, mergeId: o.id, reason: g.reasons.map((r) => REASON_LABEL[r]).join(", ") }),
+        });
+      }
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao mesclar.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function undo(m: Merge) {
+    if (!confirm(`Desfazer a mesclagem de ${m.merged.nome} em ${m.kept.nome}?`)) return;
+    setBusy(true);
+    setError("");
+    try {
+      await fetchJson(`/api/clientes/mesclar/${m.id}/desfazer`, { method: "POST" });
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao desfazer.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold">Clientes duplicados</h1>
+          <p className="text-sm text-slate-600">
+            Mesmo CPF/CNPJ, mesmo telefone ou nome muito parecido. Escolha qual cadastro manter e mescle os outros nele.
+          </p>
+        </div>
+        <Link href="/dashboard/clientes" className="rounded-xl border px-4 py-2 text-sm hover:bg-slate-50">
+          Voltar
+        </Link>
+      </div>
+
+      {error ? <div className="rounded-xl border bg-rose-50 p-3 text-sm text-rose-800">{error}</div> : null}
+
+      {loading ? (
+        <div className="text-sm text-slate-600">Carregando...</div>
+      ) : groups.length === 0 ? (
+        <div className="rounded-2xl border bg-white p-4 text-sm text-slate-600">Nenhum duplicado encontrado.</div>
+      ) : (
+        <div className="space-y-4">
+          {groups.map((g) => {
+            const keepId = keepByGroup[g.key] || defaultKeep(g);
+            return (
+              <div key={g.key} className="rounded-2xl border bg-white p-4 space-y-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex flex-wrap gap-1">
+                    {g.reasons.map((r) => (
+                      <span key={r} className="rounded-full bg-amber-50 px-2 py-0.5 text-xs text-amber-800">
+                        {REASON_LABEL[r]}
+                      </span>
+                    ))}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => mergeGroup(g)}
+                    disabled={busy}
+                    className="rounded-xl bg-black px-4 py-2 text-sm text-white hover:bg-gray-800 disabled:opacity-50"
+                  >
+                    Mesclar no selecionado
+                  </button>
+                </div>
+                <div className="overflow-auto rounded-xl border">
+                  <table className="w-full text-sm">
+                    <thead className="bg-slate-50">
+                      <tr>
+                        <th className="px-3 py-2 text-left">Manter</th>
+                        <th className="px-3 py-2 text-left">Cliente</th>
+                        <th className="px-3 py-2 text-left">CPF/CNPJ</th>
+                        <th className="px-3 py-2 text-left">Telefone</th>
+                        <th className="px-3 py-2 text-right">Vendas</th>
+                        <th className="px-3 py-2 text-right">Balcão</th>
+                        <th className="px-3 py-2 text-left">Criado em</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {g.members.map((m) => (
+                        <tr key={m.id} className="border-t">
+                          <td className="px-3 py-2">
+                            <input
+                              type="radio"
+                              name={`keep-${g.key}`}
+                              checked={keepId === m.id}
+                              onChange={() => setKeepByGroup((prev) => ({ ...prev, [g.key]: m.id }))}
+                            />
+                          </td>
+                          <td className="px-3 py-2">
+                            <Link href={`/dashboard/clientes/${m.id}`} className="hover:underline">
+                              {m.nome}
+                            </Link>
+                            <div className="text-xs text-slate-500">{m.identificador}</div>
+                          </td>
+                          <td className="px-3 py-2">{m.cpfCnpj || "-"}</td>
+                          <td className="px-3 py-2">{m.telefone || "-"}</td>
+                          <td className="px-3 py-2 text-right">{m.sales}</td>
+                          <td className="px-3 py-2 text-right">{m.balcao}</td>
+                          <td className="px-3 py-2">{new Date(m.createdAt).toLocaleDateString("pt-BR")}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="rounded-2xl border bg-white p-4 space-y-3">
+        <div className="font-semibold">Mesclagens</div>
+        {merges.length === 0 ? (
+          <div className="text-sm text-slate-600">Nenhuma mesclagem ainda.</div>
+        ) : (
+          <div className="overflow-auto rounded-xl border">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-3 py-2 text-left">Quando</th>
+                  <th className="px-3 py-2 text-left">Duplicado → mantido</th>
+                  <th className="px-3 py-2 text-left">Movido</th>
+                  <th className="px-3 py-2 text-right">Ações</th>
+                </tr>
+              </thead>
+              <tbody>
+                {merges.map((m) => (
+                  <tr key={m.id} className="border-t">
+                    <td className="px-3 py-2">
+                      <div>{dateTimeBR(m.createdAt)}</div>
+                      <div className="text-xs text-slate-500">{m.createdBy?.name || "-"}</div>
+                    </td>
+                    <td className="px-3 py-2">
+                      {m.merged.nome} ({m.merged.identificador}) →{" "}
+                      <Link href={`/dashboard/clientes/${m.kept.id}`} className="hover:underline">
+                        {m.kept.nome} ({m.kept.identificador})
+                      </Link>
+                      {m.reason ? <div className="text-xs text-slate-500">{m.reason}</div> : null}
+                    </td>
+                    <td className="px-3 py-2 text-xs">
+                      {m.saleIds.length} venda(s) • {m.balcaoFinalIds.length + m.balcaoSupplierIds.length} balcão
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {m.undoneAt ? (
+                        <span className="text-xs text-slate-500">
+                          Desfeita em {dateTimeBR(m.undoneAt)} • {m.undoneBy?.name || "-"}
+                        </span>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => undo(m)}
+                          disabled={busy}
+                          className="rounded-xl border px-3 py-1.5 text-xs hover:bg-slate-50 disabled:opacity-50"
+                        >
+                          Desfazer
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
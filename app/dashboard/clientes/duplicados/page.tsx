@@ -0,0 +1,7 @@
+import ClientesDuplicadosClient from "./ClientesDuplicadosClient";
+
+export const dynamic = "force-dynamic";
+
+export default function Page() {
+  return <ClientesDuplicadosClient />;
+}
@@ -70,13 +70,19 @@ export default function NovoClienteClient() {
         origemDescricao: origem === "OUTROS" ? origemDescricao.trim() : null,
       };
 
-      const r = await fetch("/api/clientes", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
-      });
-
-      const j = await r.json();
+      const post = (confirmDuplicate: boolean) =>
+        fetch("/api/clientes", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ ...payload, confirmDuplicate }),
+        }).then((r) => r.json());
+
+      let j = await post(false);
+      // ✅ telefone/nome parecido com cliente existente: confirma antes de duplicar
+      if (j?.code === "POSSIBLE_DUPLICATE") {
+        if (!confirm(`${j.error}\n\nCriar mesmo assim?`)) return;
+        j = await post(true);
+      }
       if (!j?.ok) throw new Error(j?.error || "Erro ao criar cliente");
 
       router.push("/dashboard/clientes");
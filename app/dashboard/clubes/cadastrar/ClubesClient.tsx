@@ -30,7 +30,8 @@ type ClubeRow = {
   program: Program;
 
   tierK: number;
-  priceCents: number; // backend força 0 (não usamos no front)
+  priceCents: number; // mensalidade: vira a cobrança (ClubCharge) de cada renovação
+  autoRenew: boolean; // débito automático: o cron renova e cobra no vencimento
 
   subscribedAt: string; // ISO
   renewalDay: number;
@@ -62,6 +63,19 @@ type ClubeRow = {
   updatedAt: string;
 
   cedente: CedenteLite;
+
+  // ✅ datas automáticas da regra do time (lib/club-rules.ts), calculadas no backend
+  projection?: ClubProjection | null;
+};
+
+type ClubProjection = {
+  nextRenewalAt: string | null;
+  inactiveAt: string | null;
+  activeUntil: string | null;
+  cancelAt: string | null;
+  bonusEligibleAt: string | null;
+  status: Status;
+  calendar: { kind: "RENEWAL" | "PAUSE" | "CANCEL" | "BONUS"; at: string }[];
 };
 
 function isoToInputDate(iso: string | null) {
@@ -90,42 +104,6 @@ async function jfetch(url: string, init?: RequestInit) {
   return json;
 }
 
-/* =========================
-   Regras (mesmas do backend)
-========================= */
-const LATAM_CANCEL_AFTER_INACTIVE_DAYS = 10;
-const SMILES_CANCEL_AFTER_INACTIVE_DAYS = 60;
-
-// ✅ backend atualizado: LIVELO inativa em 30 dias (base = lastRenewedAt ?? subscribedAt)
-const LIVELO_INACTIVE_AFTER_SUBSCRIBE_DAYS = 30;
-
-function addDaysUTC(base: Date, days: number) {
-  const d = new Date(Date.UTC(base.getUTCFullYear(), base.getUTCMonth(), base.getUTCDate()));
-  d.setUTCDate(d.getUTCDate() + days);
-  return d;
-}
-
-function daysInMonthUTC(year: number, month0: number) {
-  return new Date(Date.UTC(year, month0 + 1, 0)).getUTCDate();
-}
-
-function nextMonthOnDayUTC(base: Date, day: number) {
-  const y0 = base.getUTCFullYear();
-  const m0 = base.getUTCMonth();
-
-  let y = y0;
-  let m = m0 + 1;
-  if (m > 11) {
-    m = 0;
-    y += 1;
-  }
-
-  const last = daysInMonthUTC(y, m);
-  const dd = Math.min(Math.max(1, day), last);
-
-  return new Date(Date.UTC(y, m, dd));
-}
-
 function toDateSafe(iso: string | null) {
   if (!iso) return null;
   const d = new Date(iso);
@@ -143,51 +121,13 @@ function fmtDateBR(iso: string | null) {
   }).format(d);
 }
 
-function computeAutoDates(
-  row: Pick<ClubeRow, "program" | "subscribedAt" | "renewalDay" | "lastRenewedAt">
-) {
-  const program = row.program;
-  const subscribedAt = toDateSafe(row.subscribedAt) || new Date();
-  const renewalDay = Math.min(31, Math.max(1, Number(row.renewalDay) || 1));
-  const lastRenewedAt = toDateSafe(row.lastRenewedAt);
-
-  let nextRenewalAt: Date | null = null;
-  let inactiveAt: Date | null = null;
-  let cancelAtOrInativaAt: Date | null = null;
-
-  if (program === "LATAM" || program === "SMILES") {
-    const base = lastRenewedAt ?? subscribedAt;
-
-    // ✅ sempre mês seguinte no dia renewalDay
-    nextRenewalAt = nextMonthOnDayUTC(base, renewalDay);
-    inactiveAt = addDaysUTC(nextRenewalAt, 1);
-
-    const cancelAfter =
-      program === "LATAM"
-        ? LATAM_CANCEL_AFTER_INACTIVE_DAYS
-        : SMILES_CANCEL_AFTER_INACTIVE_DAYS;
-
-    cancelAtOrInativaAt = addDaysUTC(inactiveAt, cancelAfter);
-  } else if (program === "LIVELO") {
-    // ✅ LIVELO: base = lastRenewedAt ?? subscribedAt; inativa em 30 dias
-    const base = lastRenewedAt ?? subscribedAt;
-    inactiveAt = addDaysUTC(base, LIVELO_INACTIVE_AFTER_SUBSCRIBE_DAYS);
-    cancelAtOrInativaAt = inactiveAt; // aqui é "inativa em" (permanente)
-    nextRenewalAt = inactiveAt;
-  } else {
-    // ESFERA sem regra
-  }
-
-  return {
-    nextRenewalAt,
-    inactiveAt,
-    cancelAtOrInativaAt,
-  };
-}
-
-function dateToISO(d: Date | null) {
-  return d ? d.toISOString() : null;
-}
+// próximo evento do calendário projetado
+const EVENT_LABEL = {
+  RENEWAL: "Renova",
+  PAUSE: "Pausa",
+  CANCEL: "Cancela",
+  BONUS: "Promo",
+} as const;
 
 function clampTierK(n: number) {
   return Math.min(20, Math.max(1, n));
@@ -218,6 +158,8 @@ export default function ClubesClient({
       cedenteId: cedentes[0]?.id || "",
       program: "LATAM" as Program,
       tierK: 10,
+      price: "", // R$ da mensalidade
+      autoRenew: false,
       subscribedAt: isoToInputDate(new Date().toISOString()), // ✅ hoje (mas pode retroativo)
       renewalDay: 1,
       lastRenewedAt: "",
@@ -258,20 +200,13 @@ export default function ClubesClient({
   }, []);
 
   const decorated = useMemo(() => {
-    return clubes.map((c) => {
-      const auto = computeAutoDates(c);
-
-      // Preferir o valor do backend quando existir (é a fonte de verdade)
-      const backendCancelOrInativa = toDateSafe(c.pointsExpireAt);
-      const cancelAtOrInativaAt = backendCancelOrInativa ?? auto.cancelAtOrInativaAt;
-
-      return {
-        ...c,
-        _nextRenewalISO: dateToISO(auto.nextRenewalAt),
-        _inactiveISO: dateToISO(auto.inactiveAt),
-        _cancelOrInativaISO: dateToISO(cancelAtOrInativaAt),
-      };
-    });
+    return clubes.map((c) => ({
+      ...c,
+      _nextRenewalISO: c.projection?.nextRenewalAt ?? null,
+      _inactiveISO: c.projection?.inactiveAt ?? null,
+      _cancelOrInativaISO: c.pointsExpireAt,
+      _nextEvent: c.projection?.calendar[0] ?? null,
+    }));
   }, [clubes]);
 
   const filtered = useMemo(() => {
@@ -334,6 +269,8 @@ export default function ClubesClient({
       cedenteId: row.cedenteId,
       program: row.program,
       tierK: row.tierK,
+      price: row.priceCents ? (row.priceCents / 100).toFixed(2).replace(".", ",") : "",
+      autoRenew: row.autoRenew,
       subscribedAt: isoToInputDate(row.subscribedAt),
       renewalDay: row.renewalDay,
       lastRenewedAt: isoToInputDate(row.lastRenewedAt),
@@ -375,13 +312,15 @@ export default function ClubesClient({
         cedenteId: form.cedenteId,
         program: form.program,
         tierK: clampTierK(Number(form.tierK) || 10),
+        priceCents: Math.max(0, Math.round((Number(form.price.replace(",", ".")) || 0) * 100)),
+        autoRenew: Boolean(form.autoRenew),
         subscribedAt: subscribedAtISO,
         renewalDay: Math.min(31, Math.max(1, Number(form.renewalDay) || 1)),
         lastRenewedAt: form.lastRenewedAt ? inputDateToISO(form.lastRenewedAt) : null,
         renewedThisCycle: Boolean(form.renewedThisCycle),
         status: form.status,
         notes: form.notes?.trim().slice(0, 500) || null,
-        // ✅ NÃO enviar: priceCents, pointsExpireAt, smilesBonusEligibleAt (automáticos)
+        // ✅ NÃO enviar: pointsExpireAt, smilesBonusEligibleAt (automáticos)
       };
 
       if (!editingId) {
@@ -416,7 +355,7 @@ export default function ClubesClient({
       const json = await jfetch(`/api/clubes/${row.id}`, { method: "DELETE" });
       // soft cancel retorna {item}; hard delete retorna {deleted:true}
       if (json?.item) {
-        setClubes((prev) => prev.map((c) => (c.id === row.id ? json.item : c)));
+        setClubes((prev) => prev.map((c) => (c.id === row.id ? { ...c, ...json.item } : c)));
       } else {
         setClubes((prev) => prev.filter((c) => c.id !== row.id));
       }
@@ -614,6 +553,21 @@ export default function ClubesClient({
             </select>
           </label>
 
+          <label className="text-xs text-neutral-600">
+            Mensalidade (R$)
+            <input
+              className="mt-1 w-full rounded-xl border px-3 py-2 text-sm disabled:opacity-60"
+              inputMode="decimal"
+              placeholder="0,00"
+              value={form.price}
+              onChange={(e) => setForm((f) => ({ ...f, price: e.target.value }))}
+              disabled={loading}
+            />
+            <div className="mt-1 text-[11px] text-neutral-400">
+              *Cada renovação lança uma cobrança (Clube → Cobranças).
+            </div>
+          </label>
+
           <label className="text-xs text-neutral-600">
             Assinado em
             <input
@@ -667,6 +621,16 @@ export default function ClubesClient({
             Renovou neste ciclo
           </label>
 
+          <label className="text-xs text-neutral-600 flex items-center gap-2 mt-6">
+            <input
+              type="checkbox"
+              checked={form.autoRenew}
+              onChange={(e) => setForm((f) => ({ ...f, autoRenew: e.target.checked }))}
+              disabled={loading}
+            />
+            Débito automático (renova e cobra no vencimento)
+          </label>
+
           <label className="text-xs text-neutral-600 md:col-span-3">
             Observações (opcional)
             <textarea
@@ -755,7 +719,7 @@ export default function ClubesClient({
                 <th className="text-left px-4 py-2">Próx. renov.</th>
                 <th className="text-left px-4 py-2">Inativa em</th>
                 <th className="text-left px-4 py-2">Cancela / Inativa</th>
-                <th className="text-left px-4 py-2">Promo SMILES</th>
+                <th className="text-left px-4 py-2">Promo</th>
                 <th className="text-left px-4 py-2">Status</th>
                 <th className="text-right px-4 py-2">Ações</th>
               </tr>
@@ -763,22 +727,13 @@ export default function ClubesClient({
 
             <tbody className="divide-y">
               {filtered.map((c: any) => {
-                const nextLabel =
-                  c.program === "LATAM" || c.program === "SMILES"
-                    ? fmtDateBR(c._nextRenewalISO)
-                    : "-";
+                const nextLabel = fmtDateBR(c._nextRenewalISO);
+                const inactiveLabel = fmtDateBR(c._inactiveISO);
+                const cancelOrInativaLabel = fmtDateBR(c._cancelOrInativaISO);
 
-                const inactiveLabel =
-                  c.program === "LATAM" || c.program === "SMILES" || c.program === "LIVELO"
-                    ? fmtDateBR(c._inactiveISO)
-                    : "-";
-
-                const cancelOrInativaLabel = c.program === "ESFERA" ? "-" : fmtDateBR(c._cancelOrInativaISO);
-
-                const cancelOrInativaTitle =
-                  c.program === "LIVELO"
-                    ? "Data em que fica inativo (permanente)"
-                    : "Data em que cancela automaticamente";
+                const cancelOrInativaTitle = c.projection?.cancelAt
+                  ? "Data em que cancela automaticamente"
+                  : "Data em que fica inativo (permanente)";
 
                 return (
                   <tr key={c.id} className="hover:bg-neutral-50">
@@ -795,7 +750,14 @@ export default function ClubesClient({
 
                     <td className="px-4 py-2">{fmtDateBR(c.subscribedAt)}</td>
 
-                    <td className="px-4 py-2">{nextLabel}</td>
+                    <td className="px-4 py-2">
+                      {nextLabel}
+                      {c._nextEvent && (
+                        <div className="text-xs text-neutral-500">
+                          {EVENT_LABEL[c._nextEvent.kind as keyof typeof EVENT_LABEL]} em {fmtDateBR(c._nextEvent.at)}
+                        </div>
+                      )}
+                    </td>
 
                     <td className="px-4 py-2">{inactiveLabel}</td>
 
@@ -804,9 +766,7 @@ export default function ClubesClient({
                     </td>
 
                     <td className="px-4 py-2">
-                      {c.program === "SMILES" && c.smilesBonusEligibleAt
-                        ? fmtDateBR(c.smilesBonusEligibleAt)
-                        : "-"}
+                      {c.smilesBonusEligibleAt ? fmtDateBR(c.smilesBonusEligibleAt) : "-"}
                     </td>
 
                     <td className="px-4 py-2">
@@ -1,6 +1,7 @@
 import { redirect } from "next/navigation";
-import { prisma } from "@/lib/prisma";
+import { tenantPrisma } from "@/lib/tenant";
 import { getSessionFromCookies } from "@/lib/auth-server";
+import { getClubRules, projectClub, serializeProjection } from "@/lib/club-rules";
 import ClubesClient from "./ClubesClient";
 
 export const runtime = "nodejs";
@@ -14,14 +15,15 @@ export default async function Page() {
   if (!session?.user) redirect("/login?next=/dashboard/clube"); // ajuste se tua rota for /dashboard/clubes
 
   const team = session.user.team;
+  const db = tenantPrisma(team);
 
-  const cedentes = await prisma.cedente.findMany({
+  const cedentes = await db.cedente.findMany({
     where: { owner: { team } },
     select: { id: true, identificador: true, nomeCompleto: true, cpf: true },
     orderBy: [{ nomeCompleto: "asc" }],
   });
 
-  const clubesRaw = await prisma.clubSubscription.findMany({
+  const clubesRaw = await db.clubSubscription.findMany({
     where: { team },
     include: {
       cedente: {
@@ -31,6 +33,15 @@ export default async function Page() {
     orderBy: [{ subscribedAt: "desc" }, { createdAt: "desc" }],
   });
 
+  // ✅ datas automáticas pela regra do time (promo: base = última assinatura do programa)
+  const rules = await getClubRules(db);
+  const lastSub = new Map<string, Date>();
+  for (const c of clubesRaw) {
+    const k = `${c.cedenteId}:${c.program}`;
+    const cur = lastSub.get(k);
+    if (!cur || c.subscribedAt > cur) lastSub.set(k, c.subscribedAt);
+  }
+
   // ✅ aqui é o ajuste que resolve o erro
   const clubes = clubesRaw.map((c) => ({
     ...c,
@@ -40,6 +51,9 @@ export default async function Page() {
     smilesBonusEligibleAt: toISOOpt(c.smilesBonusEligibleAt),
     createdAt: toISO(c.createdAt), // ✅ obrigatório (string)
     updatedAt: toISO(c.updatedAt), // ✅ obrigatório (string)
+    projection: serializeProjection(
+      projectClub(rules[c.program], { ...c, bonusBaseAt: lastSub.get(`${c.cedenteId}:${c.program}`) })
+    ),
   }));
 
   return <ClubesClient initialCedentes={cedentes} initialClubes={clubes} />;
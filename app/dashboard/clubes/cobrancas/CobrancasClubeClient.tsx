@@ -0,0 +1,397 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type Source = "MANUAL" | "CRON";
+
+type Charge = {
+  id: string;
+  program: string;
+  tierK: number;
+  chargedAt: string;
+  amountCents: number;
+  pointsCredited: number;
+  source: Source;
+  notes: string | null;
+  clubSubscriptionId: string | null;
+  cedente: { id: string; identificador: string; nomeCompleto: string };
+  purchase: { id: string; numero: string; status: "OPEN" | "CLOSED" | "CANCELED" } | null;
+};
+
+type SummaryRow = {
+  program: string;
+  charges: number;
+  spendCents: number;
+  inPurchaseCents: number;
+  overheadCents: number;
+  pointsCredited: number;
+  costPerMilheiroCents: number | null;
+};
+
+type OpenPurchase = { id: string; numero: string };
+
+const SOURCE_LABEL: Record<Source, string> = {
+  MANUAL: "Manual",
+  CRON: "Automática",
+};
+
+function cn(...xs: Array<string | false | null | undefined>) {
+  return xs.filter(Boolean).join(" ");
+}
+
+function fmtMoney(cents: number) {
+  return ((cents || 0) / 100).toLocaleString("pt-BR", {
+    style: "currency",
+    currency: "BRL",
+  });
+}
+
+function fmtInt(n: number) {
+  return (n || 0).toLocaleString("pt-BR");
+}
+
+function fmtDateBR(iso: string) {
+  return new Intl.DateTimeFormat("pt-BR", { timeZone: "UTC" }).format(new Date(iso));
+}
+
+function currentMonth() {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
+}
+
+async function fetchJson(url: string, init?: RequestInit) {
+  const res = await fetch(url, { cache: "no-store", ...init });
+  const json = await res.json().catch(() => null);
+  if (!res.ok || !json?.ok) throw new Error(json?.error || "Falha na requisição.");
+  return json;
+}
+
+export default function CobrancasClubeClient() {
+  const [month, setMonth] = useState(currentMonth);
+  const [charges, setCharges] = useState<Charge[]>([]);
+  const [summary, setSummary] = useState<SummaryRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  // lançar em compra: cobrança escolhida + compras abertas do cedente dela
+  const [pickingId, setPickingId] = useState<string | null>(null);
+  const [openPurchases, setOpenPurchases] = useState<OpenPurchase[]>([]);
+  const [purchaseId, setPurchaseId] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  function applyReport(json: { charges: Charge[]; summary: SummaryRow[] }) {
+    setCharges(json.charges);
+    setSummary(json.summary);
+  }
+
+  async function load(m = month) {
+    setLoading(true);
+    setError("");
+    try {
+      applyReport(await fetchJson(`/api/clubes/cobrancas?month=${encodeURIComponent(m)}`));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao carregar cobranças.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    let alive = true;
+    fetchJson(`/api/clubes/cobrancas?month=${encodeURIComponent(currentMonth())}`)
+      .then((json) => alive && applyReport(json))
+      .catch((e) => alive && setError(e instanceof Error ? e.message : "Erro ao carregar cobranças."))
+      .finally(() => alive && setLoading(false));
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  async function startPick(c: Charge) {
+    setError("");
+    setPickingId(c.id);
+    setPurchaseId("");
+    setOpenPurchases([]);
+    try {
+      const json = await fetchJson(`/api/compras/open?cedenteId=${encodeURIComponent(c.cedente.id)}`);
+      const list = json.compras as OpenPurchase[];
+      setOpenPurchases(list);
+      setPurchaseId(list[0]?.id ?? "");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao buscar compras abertas.");
+    }
+  }
+
+  async function setPurchase(chargeId: string, target: string | null) {
+    setBusyId(chargeId);
+    setError("");
+    try {
+      await fetchJson(`/api/clubes/cobrancas/${chargeId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ purchaseId: target }),
+      });
+      setPickingId(null);
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao atualizar cobrança.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function remove(c: Charge) {
+    if (!confirm(`Excluir a cobrança de ${fmtMoney(c.amountCents)} (${c.cedente.nomeCompleto})?`)) return;
+
+    setBusyId(c.id);
+    setError("");
+    try {
+      await fetchJson(`/api/clubes/cobrancas/${c.id}`, { method: "DELETE" });
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao excluir.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  const totals = summary.reduce(
+    (acc, r) => ({
+      spendCents: acc.spendCents + r.spendCents,
+      inPurchaseCents: acc.inPurchaseCents + r.inPurchaseCents,
+      overheadCents: acc.overheadCents + r.overheadCents,
+      pointsCredited: acc.pointsCredited + r.pointsCredited,
+    }),
+    { spendCents: 0, inPurchaseCents: 0, overheadCents: 0, pointsCredited: 0 }
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Cobranças dos clubes</h1>
+          <p className="text-sm text-zinc-500">
+            Cada renovação (marcada na tela ou no débito automático) gera uma cobrança. Lance numa
+            compra aberta do cedente para entrar no custo do milheiro, ou deixe como custo avulso.
+          </p>
+        </div>
+
+        <div className="flex items-end gap-2">
+          <label className="text-xs text-zinc-600">
+            Mês
+            <input
+              type="month"
+              value={month}
+              onChange={(e) => {
+                setMonth(e.target.value);
+                if (e.target.value) load(e.target.value);
+              }}
+              className="mt-1 block h-9 rounded-xl border border-zinc-200 px-2 text-sm"
+            />
+          </label>
+          <button
+            onClick={() => load()}
+            className="h-9 rounded-xl border border-zinc-200 bg-white px-3 text-sm text-zinc-700 shadow-sm hover:bg-zinc-50"
+          >
+            {loading ? "Atualizando…" : "Atualizar"}
+          </button>
+        </div>
+      </div>
+
+      {error ? (
+        <div className="rounded-xl border border-rose-200 bg-rose-50 p-3 text-sm text-rose-700">
+          {error}
+        </div>
+      ) : null}
+
+      <div className="rounded-2xl border border-zinc-200 bg-white p-4 shadow-sm">
+        <div className="mb-3">
+          <h2 className="text-lg font-semibold">Gasto × pontos por programa</h2>
+          <p className="text-xs text-zinc-500">
+            Milheiro do clube = gasto ÷ pontos creditados × 1.000. Compras canceladas contam como
+            avulso.
+          </p>
+        </div>
+
+        <div className="overflow-auto">
+          <table className="w-full min-w-[800px] text-sm">
+            <thead>
+              <tr className="text-left text-xs text-zinc-500">
+                <th className="border-b border-zinc-200 p-2">Programa</th>
+                <th className="border-b border-zinc-200 p-2 text-right">Cobranças</th>
+                <th className="border-b border-zinc-200 p-2 text-right">Gasto</th>
+                <th className="border-b border-zinc-200 p-2 text-right">Em compras</th>
+                <th className="border-b border-zinc-200 p-2 text-right">Avulso</th>
+                <th className="border-b border-zinc-200 p-2 text-right">Pontos creditados</th>
+                <th className="border-b border-zinc-200 p-2 text-right">Milheiro</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summary.map((r) => (
+                <tr key={r.program}>
+                  <td className="border-b border-zinc-100 p-2 font-medium">{r.program}</td>
+                  <td className="border-b border-zinc-100 p-2 text-right tabular-nums">{r.charges}</td>
+                  <td className="border-b border-zinc-100 p-2 text-right tabular-nums">{fmtMoney(r.spendCents)}</td>
+                  <td className="border-b border-zinc-100 p-2 text-right tabular-nums">
+                    {fmtMoney(r.inPurchaseCents)}
+                  </td>
+                  <td className="border-b border-zinc-100 p-2 text-right tabular-nums">{fmtMoney(r.overheadCents)}</td>
+                  <td className="border-b border-zinc-100 p-2 text-right tabular-nums">{fmtInt(r.pointsCredited)}</td>
+                  <td className="border-b border-zinc-100 p-2 text-right tabular-nums">
+                    {r.costPerMilheiroCents == null ? "-" : fmtMoney(r.costPerMilheiroCents)}
+                  </td>
+                </tr>
+              ))}
+
+              {summary.length > 0 ? (
+                <tr className="font-medium">
+                  <td className="p-2">Total</td>
+                  <td className="p-2 text-right tabular-nums">{charges.length}</td>
+                  <td className="p-2 text-right tabular-nums">{fmtMoney(totals.spendCents)}</td>
+                  <td className="p-2 text-right tabular-nums">{fmtMoney(totals.inPurchaseCents)}</td>
+                  <td className="p-2 text-right tabular-nums">{fmtMoney(totals.overheadCents)}</td>
+                  <td className="p-2 text-right tabular-nums">{fmtInt(totals.pointsCredited)}</td>
+                  <td className="p-2" />
+                </tr>
+              ) : null}
+
+              {!loading && summary.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="p-4 text-center text-sm text-zinc-500">
+                    Nenhuma cobrança no mês.
+                  </td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="rounded-2xl border border-zinc-200 bg-white p-4 shadow-sm">
+        <h2 className="mb-3 text-lg font-semibold">Cobranças</h2>
+
+        <div className="overflow-auto">
+          <table className="w-full min-w-[1000px] text-sm">
+            <thead>
+              <tr className="text-left text-xs text-zinc-500">
+                <th className="border-b border-zinc-200 p-2">Data</th>
+                <th className="border-b border-zinc-200 p-2">Cedente</th>
+                <th className="border-b border-zinc-200 p-2">Clube</th>
+                <th className="border-b border-zinc-200 p-2 text-right">Valor</th>
+                <th className="border-b border-zinc-200 p-2 text-right">Pontos</th>
+                <th className="border-b border-zinc-200 p-2">Origem</th>
+                <th className="border-b border-zinc-200 p-2">Compra</th>
+                <th className="border-b border-zinc-200 p-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {charges.map((c) => {
+                const busy = busyId === c.id;
+                const locked = c.purchase?.status === "CLOSED";
+
+                return (
+                  <tr key={c.id}>
+                    <td className="border-b border-zinc-100 p-2 tabular-nums">{fmtDateBR(c.chargedAt)}</td>
+                    <td className="border-b border-zinc-100 p-2">
+                      <div className="font-medium">{c.cedente.nomeCompleto}</div>
+                      <div className="text-xs text-zinc-500">{c.cedente.identificador}</div>
+                    </td>
+                    <td className="border-b border-zinc-100 p-2">
+                      {c.program} {c.tierK ? `${c.tierK}k` : ""}
+                    </td>
+                    <td className="border-b border-zinc-100 p-2 text-right tabular-nums">{fmtMoney(c.amountCents)}</td>
+                    <td className="border-b border-zinc-100 p-2 text-right tabular-nums">{fmtInt(c.pointsCredited)}</td>
+                    <td className="border-b border-zinc-100 p-2 text-xs text-zinc-600">{SOURCE_LABEL[c.source]}</td>
+                    <td className="border-b border-zinc-100 p-2">
+                      {c.purchase ? (
+                        <span
+                          className={cn(
+                            "rounded-full px-2 py-0.5 text-xs",
+                            c.purchase.status === "CANCELED"
+                              ? "bg-zinc-100 text-zinc-500 line-through"
+                              : "bg-sky-100 text-sky-700"
+                          )}
+                        >
+                          Compra {c.purchase.numero}
+                        </span>
+                      ) : pickingId === c.id ? (
+                        <div className="flex items-center gap-2">
+                          <select
+                            value={purchaseId}
+                            onChange={(e) => setPurchaseId(e.target.value)}
+                            className="h-9 rounded-xl border border-zinc-200 bg-white px-2 text-sm"
+                          >
+                            {openPurchases.length === 0 ? <option value="">Nenhuma compra aberta</option> : null}
+                            {openPurchases.map((p) => (
+                              <option key={p.id} value={p.id}>
+                                {p.numero}
+                              </option>
+                            ))}
+                          </select>
+                          <button
+                            onClick={() => setPurchase(c.id, purchaseId)}
+                            disabled={busy || !purchaseId}
+                            className="h-9 rounded-xl bg-zinc-900 px-3 text-xs text-white hover:bg-zinc-800 disabled:opacity-50"
+                          >
+                            Lançar
+                          </button>
+                          <button
+                            onClick={() => setPickingId(null)}
+                            className="h-9 rounded-xl border border-zinc-200 bg-white px-3 text-xs text-zinc-700 hover:bg-zinc-50"
+                          >
+                            Cancelar
+                          </button>
+                        </div>
+                      ) : (
+                        <span className="rounded-full bg-amber-100 px-2 py-0.5 text-xs text-amber-700">Avulso</span>
+                      )}
+                    </td>
+                    <td className="border-b border-zinc-100 p-2 text-right">
+                      <div className="flex justify-end gap-2">
+                        {c.purchase && !locked ? (
+                          <button
+                            onClick={() => setPurchase(c.id, null)}
+                            disabled={busy}
+                            className="h-9 rounded-xl border border-zinc-200 bg-white px-3 text-xs text-zinc-700 hover:bg-zinc-50 disabled:opacity-50"
+                          >
+                            Tirar da compra
+                          </button>
+                        ) : null}
+                        {!c.purchase && pickingId !== c.id ? (
+                          <button
+                            onClick={() => startPick(c)}
+                            disabled={busy}
+                            className="h-9 rounded-xl border border-zinc-200 bg-white px-3 text-xs text-zinc-700 hover:bg-zinc-50 disabled:opacity-50"
+                          >
+                            Lançar em compra
+                          </button>
+                        ) : null}
+                        {!locked ? (
+                          <button
+                            onClick={() => remove(c)}
+                            disabled={busy}
+                            className="h-9 rounded-xl border border-rose-200 bg-white px-3 text-xs text-rose-700 hover:bg-rose-50 disabled:opacity-50"
+                          >
+                            Excluir
+                          </button>
+                        ) : null}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+
+              {!loading && charges.length === 0 ? (
+                <tr>
+                  <td colSpan={8} className="p-4 text-center text-sm text-zinc-500">
+                    Nenhuma cobrança no mês.
+                  </td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
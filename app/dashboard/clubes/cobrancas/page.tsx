@@ -0,0 +1,10 @@
+// app/dashboard/clubes/cobrancas/page.tsx
+
+import CobrancasClubeClient from "./CobrancasClubeClient";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export default function Page() {
+  return <CobrancasClubeClient />;
+}
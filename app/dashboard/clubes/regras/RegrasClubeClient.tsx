@@ -0,0 +1,432 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type CycleType = "MONTHLY" | "FIXED_DAYS" | "MANUAL";
+type EventKind = "RENEWAL" | "PAUSE" | "CANCEL" | "BONUS";
+
+type RuleRow = {
+  program: string;
+  cycleType: CycleType;
+  renewalDay: number | null;
+  cycleDays: number | null;
+  pauseAfterDays: number;
+  cancelAfterDays: number | null;
+  bonusEligibleDays: number | null;
+  label: string;
+  custom: boolean;
+  updatedAt: string | null;
+};
+
+type Draft = {
+  cycleType: CycleType;
+  renewalDay: string;
+  cycleDays: string;
+  pauseAfterDays: string;
+  cancelAfterDays: string; // vazio = não cancela
+  bonusEligibleDays: string; // vazio = sem promo
+};
+
+type CalendarEvent = {
+  kind: EventKind;
+  at: string;
+  clubId: string;
+  program: string;
+  tierK: number;
+  status: "ACTIVE" | "PAUSED" | "CANCELED";
+  cedente: { id: string; identificador: string; nomeCompleto: string };
+};
+
+const CYCLE_LABEL: Record<CycleType, string> = {
+  MONTHLY: "Mensal (dia fixo)",
+  FIXED_DAYS: "A cada N dias",
+  MANUAL: "Manual",
+};
+
+const EVENT_LABEL: Record<EventKind, string> = {
+  RENEWAL: "Renovação",
+  PAUSE: "Pausa",
+  CANCEL: "Cancelamento",
+  BONUS: "Promo liberada",
+};
+
+const EVENT_STYLE: Record<EventKind, string> = {
+  RENEWAL: "bg-sky-100 text-sky-700",
+  PAUSE: "bg-amber-100 text-amber-700",
+  CANCEL: "bg-rose-100 text-rose-700",
+  BONUS: "bg-emerald-100 text-emerald-700",
+};
+
+const CALENDAR_DAYS = 60;
+
+function cn(...xs: Array<string | false | null | undefined>) {
+  return xs.filter(Boolean).join(" ");
+}
+
+function toDraft(r: RuleRow): Draft {
+  return {
+    cycleType: r.cycleType,
+    renewalDay: String(r.renewalDay ?? 1),
+    cycleDays: String(r.cycleDays ?? 30),
+    pauseAfterDays: String(r.pauseAfterDays),
+    cancelAfterDays: r.cancelAfterDays == null ? "" : String(r.cancelAfterDays),
+    bonusEligibleDays: r.bonusEligibleDays == null ? "" : String(r.bonusEligibleDays),
+  };
+}
+
+function optNumber(v: string) {
+  return v.trim() === "" ? null : Number(v);
+}
+
+function fmtDateBR(iso: string) {
+  return new Intl.DateTimeFormat("pt-BR", { timeZone: "UTC" }).format(new Date(iso));
+}
+
+async function fetchJson(url: string) {
+  const res = await fetch(url, { cache: "no-store" });
+  const json = await res.json().catch(() => null);
+  if (!res.ok || !json?.ok) throw new Error(json?.error || "Falha ao carregar.");
+  return json;
+}
+
+export default function RegrasClubeClient() {
+  const [rows, setRows] = useState<RuleRow[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [events, setEvents] = useState<CalendarEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingProgram, setSavingProgram] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  function applyRows(list: RuleRow[]) {
+    setRows(list);
+    setDrafts(Object.fromEntries(list.map((r) => [r.program, toDraft(r)])));
+  }
+
+  async function loadCalendar() {
+    const json = await fetchJson(`/api/clubes/calendario?days=${CALENDAR_DAYS}`);
+    setEvents(json.events as CalendarEvent[]);
+  }
+
+  async function load() {
+    setLoading(true);
+    setError("");
+    try {
+      const [rules, cal] = await Promise.all([
+        fetchJson("/api/clubes/regras"),
+        fetchJson(`/api/clubes/calendario?days=${CALENDAR_DAYS}`),
+      ]);
+      applyRows(rules.data as RuleRow[]);
+      setEvents(cal.events as CalendarEvent[]);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao carregar regras.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    let alive = true;
+    Promise.all([fetchJson("/api/clubes/regras"), fetchJson(`/api/clubes/calendario?days=${CALENDAR_DAYS}`)])
+      .then(([rules, cal]) => {
+        if (!alive) return;
+        applyRows(rules.data as RuleRow[]);
+        setEvents(cal.events as CalendarEvent[]);
+      })
+      .catch((e) => alive && setError(e instanceof Error ? e.message : "Erro ao carregar regras."))
+      .finally(() => alive && setLoading(false));
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  function patchDraft(program: string, patch: Partial<Draft>) {
+    setDrafts((prev) => ({ ...prev, [program]: { ...prev[program], ...patch } }));
+  }
+
+  function replaceRow(saved: RuleRow) {
+    setRows((prev) => prev.map((r) => (r.program === saved.program ? saved : r)));
+    setDrafts((prev) => ({ ...prev, [saved.program]: toDraft(saved) }));
+  }
+
+  async function save(program: string) {
+    const d = drafts[program];
+    if (!d) return;
+
+    setSavingProgram(program);
+    setError("");
+    try {
+      const res = await fetch("/api/clubes/regras", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          program,
+          cycleType: d.cycleType,
+          renewalDay: Number(d.renewalDay),
+          cycleDays: Number(d.cycleDays),
+          pauseAfterDays: Number(d.pauseAfterDays),
+          cancelAfterDays: optNumber(d.cancelAfterDays),
+          bonusEligibleDays: optNumber(d.bonusEligibleDays),
+        }),
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok || !json?.ok) throw new Error(json?.error || "Falha ao salvar.");
+      replaceRow(json.data as RuleRow);
+      await loadCalendar();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao salvar.");
+    } finally {
+      setSavingProgram(null);
+    }
+  }
+
+  async function reset(program: string) {
+    if (!confirm(`Voltar ${program} para a regra padrão?`)) return;
+
+    setSavingProgram(program);
+    setError("");
+    try {
+      const res = await fetch(`/api/clubes/regras?program=${encodeURIComponent(program)}`, {
+        method: "DELETE",
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok || !json?.ok) throw new Error(json?.error || "Falha ao restaurar.");
+      replaceRow(json.data as RuleRow);
+      await loadCalendar();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao restaurar.");
+    } finally {
+      setSavingProgram(null);
+    }
+  }
+
+  const inputCls = "h-9 w-16 rounded-xl border border-zinc-200 px-2 text-sm";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Regras dos clubes</h1>
+          <p className="text-sm text-zinc-500">
+            Quando cada clube renova, pausa e cancela sozinho. Vale para o cadastro de clubes, a
+            automação diária, a estratégia de compra e o LATAM Turbo.
+          </p>
+        </div>
+
+        <button
+          onClick={load}
+          className="h-9 rounded-xl border border-zinc-200 bg-white px-3 text-sm text-zinc-700 shadow-sm hover:bg-zinc-50"
+        >
+          {loading ? "Atualizando…" : "Atualizar"}
+        </button>
+      </div>
+
+      {error ? (
+        <div className="rounded-xl border border-rose-200 bg-rose-50 p-3 text-sm text-rose-700">
+          {error}
+        </div>
+      ) : null}
+
+      <div className="rounded-2xl border border-zinc-200 bg-white p-4 shadow-sm">
+        <div className="overflow-auto">
+          <table className="w-full min-w-[1100px] text-sm">
+            <thead>
+              <tr className="text-left text-xs text-zinc-500">
+                <th className="border-b border-zinc-200 p-2">Programa</th>
+                <th className="border-b border-zinc-200 p-2">Ciclo</th>
+                <th className="border-b border-zinc-200 p-2">Renovação</th>
+                <th className="border-b border-zinc-200 p-2">Pausa (dias após vencer)</th>
+                <th className="border-b border-zinc-200 p-2">Cancela (dias pausado)</th>
+                <th className="border-b border-zinc-200 p-2">Promo (dias)</th>
+                <th className="border-b border-zinc-200 p-2">Atual</th>
+                <th className="border-b border-zinc-200 p-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r) => {
+                const d = drafts[r.program] ?? toDraft(r);
+                const busy = savingProgram === r.program;
+                const auto = d.cycleType !== "MANUAL";
+
+                return (
+                  <tr key={r.program}>
+                    <td className="border-b border-zinc-100 p-2 font-medium">{r.program}</td>
+
+                    <td className="border-b border-zinc-100 p-2">
+                      <select
+                        value={d.cycleType}
+                        onChange={(e) => patchDraft(r.program, { cycleType: e.target.value as CycleType })}
+                        className="h-9 rounded-xl border border-zinc-200 bg-white px-2 text-sm"
+                      >
+                        {(Object.keys(CYCLE_LABEL) as CycleType[]).map((c) => (
+                          <option key={c} value={c}>
+                            {CYCLE_LABEL[c]}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+
+                    <td className="border-b border-zinc-100 p-2">
+                      {d.cycleType === "MONTHLY" ? (
+                        <label className="flex items-center gap-2 text-xs text-zinc-600">
+                          Dia padrão
+                          <input
+                            value={d.renewalDay}
+                            onChange={(e) => patchDraft(r.program, { renewalDay: e.target.value })}
+                            inputMode="numeric"
+                            className={inputCls}
+                          />
+                        </label>
+                      ) : d.cycleType === "FIXED_DAYS" ? (
+                        <label className="flex items-center gap-2 text-xs text-zinc-600">
+                          A cada
+                          <input
+                            value={d.cycleDays}
+                            onChange={(e) => patchDraft(r.program, { cycleDays: e.target.value })}
+                            inputMode="numeric"
+                            className={inputCls}
+                          />
+                          dias
+                        </label>
+                      ) : (
+                        <span className="text-xs text-zinc-500">Status só muda na mão</span>
+                      )}
+                    </td>
+
+                    <td className="border-b border-zinc-100 p-2">
+                      {auto ? (
+                        <input
+                          value={d.pauseAfterDays}
+                          onChange={(e) => patchDraft(r.program, { pauseAfterDays: e.target.value })}
+                          inputMode="numeric"
+                          className={inputCls}
+                        />
+                      ) : (
+                        <span className="text-xs text-zinc-400">-</span>
+                      )}
+                    </td>
+
+                    <td className="border-b border-zinc-100 p-2">
+                      {auto ? (
+                        <input
+                          value={d.cancelAfterDays}
+                          onChange={(e) => patchDraft(r.program, { cancelAfterDays: e.target.value })}
+                          inputMode="numeric"
+                          placeholder="não"
+                          className={inputCls}
+                        />
+                      ) : (
+                        <span className="text-xs text-zinc-400">-</span>
+                      )}
+                    </td>
+
+                    <td className="border-b border-zinc-100 p-2">
+                      <input
+                        value={d.bonusEligibleDays}
+                        onChange={(e) => patchDraft(r.program, { bonusEligibleDays: e.target.value })}
+                        inputMode="numeric"
+                        placeholder="-"
+                        className={inputCls}
+                      />
+                    </td>
+
+                    <td className="border-b border-zinc-100 p-2 text-xs text-zinc-600">
+                      {r.label}
+                      <span
+                        className={cn(
+                          "ml-2 rounded-full px-2 py-0.5",
+                          r.custom ? "bg-sky-100 text-sky-700" : "bg-zinc-100 text-zinc-500"
+                        )}
+                      >
+                        {r.custom ? "personalizada" : "padrão"}
+                      </span>
+                    </td>
+
+                    <td className="border-b border-zinc-100 p-2 text-right">
+                      <div className="flex justify-end gap-2">
+                        {r.custom ? (
+                          <button
+                            onClick={() => reset(r.program)}
+                            disabled={busy}
+                            className="h-9 rounded-xl border border-zinc-200 bg-white px-3 text-xs text-zinc-700 hover:bg-zinc-50 disabled:opacity-50"
+                          >
+                            Padrão
+                          </button>
+                        ) : null}
+                        <button
+                          onClick={() => save(r.program)}
+                          disabled={busy}
+                          className="h-9 rounded-xl bg-zinc-900 px-3 text-xs text-white hover:bg-zinc-800 disabled:opacity-50"
+                        >
+                          {busy ? "Salvando…" : "Salvar"}
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+
+              {!loading && rows.length === 0 ? (
+                <tr>
+                  <td colSpan={8} className="p-4 text-center text-sm text-zinc-500">
+                    Nenhum programa.
+                  </td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="rounded-2xl border border-zinc-200 bg-white p-4 shadow-sm">
+        <div className="mb-3">
+          <h2 className="text-lg font-semibold">Próximos {CALENDAR_DAYS} dias</h2>
+          <p className="text-xs text-zinc-500">
+            Projeção pelas regras acima. Renovações seguintes supõem que a atual foi paga.
+          </p>
+        </div>
+
+        <div className="overflow-auto">
+          <table className="w-full min-w-[700px] text-sm">
+            <thead>
+              <tr className="text-left text-xs text-zinc-500">
+                <th className="border-b border-zinc-200 p-2">Data</th>
+                <th className="border-b border-zinc-200 p-2">Evento</th>
+                <th className="border-b border-zinc-200 p-2">Cedente</th>
+                <th className="border-b border-zinc-200 p-2">Programa</th>
+                <th className="border-b border-zinc-200 p-2">Status hoje</th>
+              </tr>
+            </thead>
+            <tbody>
+              {events.map((e) => (
+                <tr key={`${e.clubId}:${e.kind}:${e.at}`}>
+                  <td className="border-b border-zinc-100 p-2 tabular-nums">{fmtDateBR(e.at)}</td>
+                  <td className="border-b border-zinc-100 p-2">
+                    <span className={cn("rounded-full px-2 py-0.5 text-xs", EVENT_STYLE[e.kind])}>
+                      {EVENT_LABEL[e.kind]}
+                    </span>
+                  </td>
+                  <td className="border-b border-zinc-100 p-2">
+                    <div className="font-medium">{e.cedente.nomeCompleto}</div>
+                    <div className="text-xs text-zinc-500">{e.cedente.identificador}</div>
+                  </td>
+                  <td className="border-b border-zinc-100 p-2">
+                    {e.program} {e.tierK ? `${e.tierK}k` : ""}
+                  </td>
+                  <td className="border-b border-zinc-100 p-2 text-xs text-zinc-600">{e.status}</td>
+                </tr>
+              ))}
+
+              {!loading && events.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="p-4 text-center text-sm text-zinc-500">
+                    Nada previsto no período.
+                  </td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
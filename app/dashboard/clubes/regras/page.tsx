@@ -0,0 +1,10 @@
+// app/dashboard/clubes/regras/page.tsx
+
+import RegrasClubeClient from "./RegrasClubeClient";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export default function Page() {
+  return <RegrasClubeClient />;
+}
@@ -11,6 +11,7 @@ type Breakdown = {
   commission1Cents: number; // 1%
   commission2Cents?: number; // bônus
   commission3RateioCents?: number; // rateio
+  clawbackCents?: number; // estorno de comissão de venda cancelada (já descontado do líquido)
   salesCount: number;
   taxPercent: number; // 8
   basis?: Basis;
@@ -797,6 +798,11 @@ export default function ComissoesFuncionariosClient() {
 
                     <td className={`px-4 py-3 font-bold ${liquidoCellCls}`}>
                       {fmtMoneyBR(liquidoComBalcaoCents(r))}
+                      {b?.clawbackCents ? (
+                        <div className="text-xs font-normal text-rose-700">
+                          − {fmtMoneyBR(b.clawbackCents)} estorno
+                        </div>
+                      ) : null}
                     </td>
 
                     <td className="px-4 py-3">
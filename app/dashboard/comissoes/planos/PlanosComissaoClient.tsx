@@ -0,0 +1,551 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { PlanRules } from "@/lib/payouts/commissionRules";
+
+type TaxBasis = PlanRules["taxBasis"];
+
+type UserLite = { id: string; name: string; login: string };
+
+type Plan = {
+  id: string;
+  userId: string | null;
+  version: number;
+  name: string;
+  effectiveFrom: string;
+  note: string | null;
+  createdAt: string;
+  rules: PlanRules;
+  user: UserLite | null;
+  createdBy: { id: string; name: string } | null;
+};
+
+type SimTotals = { c1Cents: number; c2Cents: number; balcaoCents: number; taxCents: number; netCents: number };
+
+type SimRow = {
+  user: UserLite;
+  salesCount: number;
+  balcaoOps: number;
+  current: SimTotals;
+  proposed: SimTotals;
+  deltaCents: number;
+};
+
+type Simulation = {
+  month: string;
+  rows: SimRow[];
+  totals: { current: SimTotals; proposed: SimTotals; deltaCents: number };
+};
+
+// faixas na tela: valores em R$ e percentuais como texto
+type TierInput = { from: string; percent: string };
+
+type FormState = {
+  userId: string;
+  name: string;
+  effectiveFrom: string;
+  c1Tiers: TierInput[];
+  bonusCurve: TierInput[];
+  balcaoPercent: string;
+  taxBasis: TaxBasis;
+  taxPercent: string;
+  note: string;
+};
+
+function fmtMoney(cents: number) {
+  return ((cents || 0) / 100).toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+}
+
+function fmtPercent(bps: number) {
+  return `${(bps / 100).toLocaleString("pt-BR", { maximumFractionDigits: 2 })}%`;
+}
+
+function parseNumberBR(v: string) {
+  const s = String(v || "").trim().replace(/\./g, "").replace(",", ".");
+  const n = Number(s);
+  return Number.isFinite(n) ? n : NaN;
+}
+
+function toCentsInput(cents: number) {
+  return (cents / 100).toLocaleString("pt-BR", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function toPercentInput(bps: number) {
+  return (bps / 100).toLocaleString("pt-BR", { maximumFractionDigits: 2 });
+}
+
+function todayISO() {
+  return new Date().toLocaleDateString("en-CA", { timeZone: "America/Recife" });
+}
+
+function previousMonthISO() {
+  const [y, m] = todayISO().split("-").map(Number);
+  return m === 1 ? `${y - 1}-12` : `${y}-${String(m - 1).padStart(2, "0")}`;
+}
+
+function formFromRules(rules: PlanRules, base: Partial<FormState> = {}): FormState {
+  return {
+    userId: "",
+    name: "",
+    effectiveFrom: todayISO(),
+    note: "",
+    ...base,
+    c1Tiers: rules.c1Tiers.map((t) => ({ from: toCentsInput(t.minPvCents), percent: toPercentInput(t.bps) })),
+    bonusCurve: rules.bonusCurve.map((t) => ({ from: toCentsInput(t.minExcessCents), percent: toPercentInput(t.bps) })),
+    balcaoPercent: toPercentInput(rules.balcaoBps),
+    taxBasis: rules.taxBasis,
+    taxPercent: rules.taxPercent === null ? "" : String(rules.taxPercent),
+  };
+}
+
+function rulesPayload(f: FormState) {
+  const cents = (v: string) => Math.round(parseNumberBR(v) * 100);
+  return {
+    c1Tiers: f.c1Tiers.map((t) => ({ minPvCents: cents(t.from), bps: cents(t.percent) })),
+    bonusCurve: f.bonusCurve.map((t) => ({ minExcessCents: cents(t.from), bps: cents(t.percent) })),
+    balcaoBps: cents(f.balcaoPercent),
+    taxBasis: f.taxBasis,
+    taxPercent: f.taxBasis === "FIXED" ? Math.round(parseNumberBR(f.taxPercent)) : null,
+  };
+}
+
+async function fetchJson(url: string, init?: RequestInit) {
+  const res = await fetch(url, { cache: "no-store", ...init });
+  const json = await res.json().catch(() => null);
+  if (!res.ok || !json?.ok) throw new Error(json?.error || "Falha na requisição.");
+  return json;
+}
+
+function TierEditor(props: {
+  title: string;
+  fromLabel: string;
+  tiers: TierInput[];
+  onChange: (tiers: TierInput[]) => void;
+}) {
+  const { tiers, onChange } = props;
+  return (
+    <div className="space-y-2">
+      <div className="text-sm font-medium">{props.title}</div>
+      {tiers.map((t, i) => (
+        <div key={i} className="flex items-center gap-2 text-sm">
+          <span className="w-28 text-xs text-slate-500">{props.fromLabel}</span>
+          <input
+            className="w-28 rounded-xl border px-2 py-1"
+            value={t.from}
+            disabled={i === 0}
+            onChange={(e) => onChange(tiers.map((x, j) => (j === i ? { ...x, from: e.target.value } : x)))}
+          />
+          <input
+            className="w-20 rounded-xl border px-2 py-1"
+            value={t.percent}
+            onChange={(e) => onChange(tiers.map((x, j) => (j === i ? { ...x, percent: e.target.value } : x)))}
+          />
+          <span className="text-xs text-slate-500">%</span>
+          {i > 0 ? (
+            <button
+              type="button"
+              className="text-xs text-rose-700 hover:underline"
+              onClick={() => onChange(tiers.filter((_, j) => j !== i))}
+            >
+              remover
+            </button>
+          ) : null}
+        </div>
+      ))}
+      <button
+        type="button"
+        className="text-xs text-slate-700 hover:underline"
+        onClick={() => onChange([...tiers, { from: "", percent: tiers[tiers.length - 1]?.percent || "0" }])}
+      >
+        + faixa
+      </button>
+    </div>
+  );
+}
+
+/** ✅ Planos de comissão: versões por time/funcionário + simulação no mês passado */
+export default function PlanosComissaoClient() {
+  const [plans, setPlans] = useState<Plan[]>([]);
+  const [users, setUsers] = useState<UserLite[]>([]);
+  const [taxBasisLabel, setTaxBasisLabel] = useState<Record<string, string>>({});
+  const [form, setForm] = useState<FormState | null>(null);
+  const [simMonth, setSimMonth] = useState(previousMonthISO());
+  const [sim, setSim] = useState<Simulation | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  async function load() {
+    const json = await fetchJson("/api/payouts/planos");
+    setPlans(json.data.plans as Plan[]);
+    setUsers(json.data.users as UserLite[]);
+  }
+
+  useEffect(() => {
+    let alive = true;
+    fetchJson("/api/payouts/planos")
+      .then((json) => {
+        if (!alive) return;
+        setPlans(json.data.plans as Plan[]);
+        setUsers(json.data.users as UserLite[]);
+        setTaxBasisLabel(json.data.taxBasisLabel as Record<string, string>);
+        setForm(formFromRules(json.data.defaults as PlanRules, { name: "Plano do time" }));
+      })
+      .catch((e) => alive && setError(e instanceof Error ? e.message : "Erro ao carregar planos."))
+      .finally(() => alive && setLoading(false));
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  function baseOn(p: Plan) {
+    setSim(null);
+    setForm(formFromRules(p.rules, { userId: p.userId || "", name: p.name, note: "" }));
+  }
+
+  async function simulate() {
+    if (!form) return;
+    setBusy(true);
+    setError("");
+    try {
+      const json = await fetchJson("/api/payouts/planos/simular", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ month: simMonth, userId: form.userId || null, ...rulesPayload(form) }),
+      });
+      setSim(json.data as Simulation);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao simular.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function save() {
+    if (!form) return;
+    if (!confirm(`Criar nova versão "${form.name}" vigente a partir de ${form.effectiveFrom.split("-").reverse().join("/")}?`)) {
+      return;
+    }
+    setBusy(true);
+    setError("");
+    try {
+      await fetchJson("/api/payouts/planos", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          userId: form.userId || null,
+          name: form.name,
+          effectiveFrom: form.effectiveFrom,
+          note: form.note,
+          ...rulesPayload(form),
+        }),
+      });
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao salvar plano.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function remove(p: Plan) {
+    if (!confirm(`Excluir a versão ${p.version} de "${p.name}"?`)) return;
+    setBusy(true);
+    setError("");
+    try {
+      await fetchJson(`/api/payouts/planos/${p.id}`, { method: "DELETE" });
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao excluir.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const now = Date.now();
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Planos de comissão</h1>
+        <p className="text-sm text-slate-600">
+          C1 (% do PV sem taxa por faixa), bônus C2 (% do excedente acima da meta por faixa), comissão do balcão e
+          imposto do pagamento. Vale o plano do funcionário; sem ele, o do time; sem nenhum, o padrão (1% / 30% / 60%).
+        </p>
+      </div>
+
+      {error ? <div className="rounded-xl border bg-rose-50 p-3 text-sm text-rose-800">{error}</div> : null}
+
+      {loading || !form ? (
+        <div className="text-sm text-slate-600">Carregando...</div>
+      ) : (
+        <div className="rounded-2xl border bg-white p-4 space-y-4">
+          <div className="font-semibold">Nova versão</div>
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-4">
+            <label className="text-sm">
+              <div className="text-xs text-slate-500">Aplica a</div>
+              <select
+                className="w-full rounded-xl border px-3 py-2"
+                value={form.userId}
+                onChange={(e) => setForm({ ...form, userId: e.target.value })}
+              >
+                <option value="">Time todo</option>
+                {users.map((u) => (
+                  <option key={u.id} value={u.id}>
+                    {u.name} (@{u.login})
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm">
+              <div className="text-xs text-slate-500">Nome</div>
+              <input
+                className="w-full rounded-xl border px-3 py-2"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </label>
+            <label className="text-sm">
+              <div className="text-xs text-slate-500">Vigente a partir de</div>
+              <input
+                type="date"
+                className="w-full rounded-xl border px-3 py-2"
+                value={form.effectiveFrom}
+                onChange={(e) => setForm({ ...form, effectiveFrom: e.target.value })}
+              />
+            </label>
+            <label className="text-sm">
+              <div className="text-xs text-slate-500">Observação</div>
+              <input
+                className="w-full rounded-xl border px-3 py-2"
+                value={form.note}
+                onChange={(e) => setForm({ ...form, note: e.target.value })}
+              />
+            </label>
+          </div>
+
+          <div className="grid grid-cols-1 gap-6 md:grid-cols-3">
+            <TierEditor
+              title="C1 — % do PV sem taxa"
+              fromLabel="PV a partir de R$"
+              tiers={form.c1Tiers}
+              onChange={(c1Tiers) => setForm({ ...form, c1Tiers })}
+            />
+            <TierEditor
+              title="C2 — % do excedente acima da meta"
+              fromLabel="Excedente/milheiro ≥ R$"
+              tiers={form.bonusCurve}
+              onChange={(bonusCurve) => setForm({ ...form, bonusCurve })}
+            />
+            <div className="space-y-3 text-sm">
+              <label className="block">
+                <div className="text-xs text-slate-500">Balcão — % do lucro líquido</div>
+                <input
+                  className="w-28 rounded-xl border px-2 py-1"
+                  value={form.balcaoPercent}
+                  onChange={(e) => setForm({ ...form, balcaoPercent: e.target.value })}
+                />
+              </label>
+              <label className="block">
+                <div className="text-xs text-slate-500">Imposto do pagamento</div>
+                <select
+                  className="w-full rounded-xl border px-3 py-2"
+                  value={form.taxBasis}
+                  onChange={(e) => setForm({ ...form, taxBasis: e.target.value as TaxBasis })}
+                >
+                  {Object.entries(taxBasisLabel).map(([k, label]) => (
+                    <option key={k} value={k}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {form.taxBasis === "FIXED" ? (
+                <label className="block">
+                  <div className="text-xs text-slate-500">Imposto (%)</div>
+                  <input
+                    className="w-20 rounded-xl border px-2 py-1"
+                    value={form.taxPercent}
+                    onChange={(e) => setForm({ ...form, taxPercent: e.target.value })}
+                  />
+                </label>
+              ) : null}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-end justify-between gap-3 border-t pt-3">
+            <div className="flex items-end gap-2">
+              <label className="text-sm">
+                <div className="text-xs text-slate-500">Simular no mês</div>
+                <input
+                  type="month"
+                  className="rounded-xl border px-3 py-2"
+                  value={simMonth}
+                  onChange={(e) => setSimMonth(e.target.value)}
+                />
+              </label>
+              <button
+                type="button"
+                onClick={simulate}
+                disabled={busy}
+                className="rounded-xl border px-4 py-2 text-sm hover:bg-slate-50 disabled:opacity-50"
+              >
+                Simular
+              </button>
+            </div>
+            <button
+              type="button"
+              onClick={save}
+              disabled={busy}
+              className="rounded-xl bg-black px-4 py-2 text-sm text-white hover:bg-gray-800 disabled:opacity-50"
+            >
+              Salvar nova versão
+            </button>
+          </div>
+        </div>
+      )}
+
+      {sim ? (
+        <div className="rounded-2xl border bg-white p-4 space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="font-semibold">Simulação — {sim.month}</div>
+            <div className="text-sm">
+              Líquido: {fmtMoney(sim.totals.current.netCents)} → <b>{fmtMoney(sim.totals.proposed.netCents)}</b>{" "}
+              <span className={sim.totals.deltaCents >= 0 ? "text-emerald-700" : "text-rose-700"}>
+                ({sim.totals.deltaCents >= 0 ? "+" : ""}
+                {fmtMoney(sim.totals.deltaCents)})
+              </span>
+            </div>
+          </div>
+          <div className="text-xs text-slate-500">
+            Recalcula C1, C2, balcão e imposto das vendas/operações do mês com o plano vigente e com o proposto. C3
+            (rateio) e reembolso de taxa não mudam com o plano.
+          </div>
+          {sim.rows.length === 0 ? (
+            <div className="text-sm text-slate-600">Nenhuma venda ou operação afetada nesse mês.</div>
+          ) : (
+            <div className="overflow-auto rounded-xl border">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left">Funcionário</th>
+                    <th className="px-3 py-2 text-right">Vendas / balcão</th>
+                    <th className="px-3 py-2 text-right">C1</th>
+                    <th className="px-3 py-2 text-right">C2</th>
+                    <th className="px-3 py-2 text-right">Balcão</th>
+                    <th className="px-3 py-2 text-right">Imposto</th>
+                    <th className="px-3 py-2 text-right">Líquido</th>
+                    <th className="px-3 py-2 text-right">Diferença</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sim.rows.map((r) => (
+                    <tr key={r.user.id} className="border-t">
+                      <td className="px-3 py-2">{r.user.name}</td>
+                      <td className="px-3 py-2 text-right">
+                        {r.salesCount} / {r.balcaoOps}
+                      </td>
+                      {(["c1Cents", "c2Cents", "balcaoCents", "taxCents", "netCents"] as const).map((k) => (
+                        <td key={k} className="px-3 py-2 text-right tabular-nums">
+                          <div className="text-xs text-slate-500">{fmtMoney(r.current[k])}</div>
+                          <div>{fmtMoney(r.proposed[k])}</div>
+                        </td>
+                      ))}
+                      <td
+                        className={`px-3 py-2 text-right tabular-nums ${
+                          r.deltaCents >= 0 ? "text-emerald-700" : "text-rose-700"
+                        }`}
+                      >
+                        {r.deltaCents >= 0 ? "+" : ""}
+                        {fmtMoney(r.deltaCents)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      ) : null}
+
+      <div className="rounded-2xl border bg-white p-4 space-y-3">
+        <div className="font-semibold">Versões</div>
+        {plans.length === 0 ? (
+          <div className="text-sm text-slate-600">Nenhum plano cadastrado: vale o padrão (1% / 30% / 60%).</div>
+        ) : (
+          <div className="overflow-auto rounded-xl border">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-3 py-2 text-left">Aplica a</th>
+                  <th className="px-3 py-2 text-left">Plano</th>
+                  <th className="px-3 py-2 text-left">Vigência</th>
+                  <th className="px-3 py-2 text-left">C1</th>
+                  <th className="px-3 py-2 text-left">C2</th>
+                  <th className="px-3 py-2 text-right">Balcão</th>
+                  <th className="px-3 py-2 text-left">Imposto</th>
+                  <th className="px-3 py-2 text-right">Ações</th>
+                </tr>
+              </thead>
+              <tbody>
+                {plans.map((p) => (
+                  <tr key={p.id} className="border-t align-top">
+                    <td className="px-3 py-2">{p.user ? p.user.name : "Time todo"}</td>
+                    <td className="px-3 py-2">
+                      <div>
+                        {p.name} <span className="text-xs text-slate-500">v{p.version}</span>
+                      </div>
+                      <div className="text-xs text-slate-500">
+                        {p.createdBy?.name || "-"} • {new Date(p.createdAt).toLocaleDateString("pt-BR")}
+                        {p.note ? ` • ${p.note}` : ""}
+                      </div>
+                    </td>
+                    <td className="px-3 py-2">{new Date(p.effectiveFrom).toLocaleDateString("pt-BR")}</td>
+                    <td className="px-3 py-2 text-xs">
+                      {p.rules.c1Tiers.map((t) => (
+                        <div key={t.minPvCents}>
+                          ≥ {fmtMoney(t.minPvCents)}: {fmtPercent(t.bps)}
+                        </div>
+                      ))}
+                    </td>
+                    <td className="px-3 py-2 text-xs">
+                      {p.rules.bonusCurve.map((t) => (
+                        <div key={t.minExcessCents}>
+                          ≥ {fmtMoney(t.minExcessCents)}: {fmtPercent(t.bps)}
+                        </div>
+                      ))}
+                    </td>
+                    <td className="px-3 py-2 text-right">{fmtPercent(p.rules.balcaoBps)}</td>
+                    <td className="px-3 py-2 text-xs">
+                      {taxBasisLabel[p.rules.taxBasis] || p.rules.taxBasis}
+                      {p.rules.taxBasis === "FIXED" ? ` (${p.rules.taxPercent}%)` : ""}
+                    </td>
+                    <td className="px-3 py-2 text-right space-x-2 whitespace-nowrap">
+                      <button
+                        type="button"
+                        onClick={() => baseOn(p)}
+                        className="rounded-xl border px-3 py-1.5 text-xs hover:bg-slate-50"
+                      >
+                        Usar como base
+                      </button>
+                      {new Date(p.effectiveFrom).getTime() > now ? (
+                        <button
+                          type="button"
+                          onClick={() => remove(p)}
+                          disabled={busy}
+                          className="rounded-xl border px-3 py-1.5 text-xs text-rose-700 hover:bg-rose-50 disabled:opacity-50"
+                        >
+                          Excluir
+                        </button>
+                      ) : null}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
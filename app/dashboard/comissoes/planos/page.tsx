@@ -0,0 +1,7 @@
+import PlanosComissaoClient from "./PlanosComissaoClient";
+
+export const dynamic = "force-dynamic";
+
+export default function Page() {
+  return <PlanosComissaoClient />;
+}
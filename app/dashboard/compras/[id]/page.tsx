@@ -1,4 +1,5 @@
 import NovaCompraClient from "../nova/NovaCompraClient";
+import AuditTimeline from "@/components/AuditTimeline";
 
 export const dynamic = "force-dynamic";
 
@@ -7,5 +8,10 @@ export default function Page({
 }: {
   params: { id: string };
 }) {
-  return <NovaCompraClient purchaseId={params.id} />;
+  return (
+    <div className="space-y-6">
+      <NovaCompraClient purchaseId={params.id} />
+      <AuditTimeline model="Purchase" recordId={params.id} />
+    </div>
+  );
 }
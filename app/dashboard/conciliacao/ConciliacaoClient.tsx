@@ -0,0 +1,574 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { MATCH_TYPE_LABEL } from "@/lib/conciliacao/match";
+import type { BankMatchType } from "@prisma/client";
+
+type LineStatus = "UNMATCHED" | "SUGGESTED" | "MATCHED" | "IGNORED";
+type Direction = "CREDIT" | "DEBIT";
+type Tab = "OPEN" | "MATCHED" | "IGNORED";
+
+type Line = {
+  id: string;
+  postedAt: string;
+  direction: Direction;
+  amountCents: number;
+  description: string;
+  document: string | null;
+  pixKey: string | null;
+  status: LineStatus;
+  suggestedType: BankMatchType | null;
+  suggestedId: string | null;
+  suggestedScore: number | null;
+  suggestedLabel: string | null;
+  matchedType: BankMatchType | null;
+  matchedLabel: string | null;
+  matchedAt: string | null;
+  matchedBy: { id: string; name: string } | null;
+  statement: { id: string; fileName: string };
+};
+
+type Statement = {
+  id: string;
+  fileName: string;
+  format: "OFX" | "CSV";
+  periodFrom: string | null;
+  periodTo: string | null;
+  linesCount: number;
+  skippedCount: number;
+  createdAt: string;
+  importedBy: { id: string; name: string } | null;
+};
+
+type Candidate = {
+  type: BankMatchType;
+  id: string;
+  label: string;
+  amountCents: number;
+  date: string | null;
+  score: number;
+  reasons: string[];
+};
+
+const TABS: Array<{ key: Tab; label: string }> = [
+  { key: "OPEN", label: "Fila" },
+  { key: "MATCHED", label: "Conciliados" },
+  { key: "IGNORED", label: "Ignorados" },
+];
+
+function cn(...xs: Array<string | false | null | undefined>) {
+  return xs.filter(Boolean).join(" ");
+}
+
+function fmtMoneyBR(cents: number) {
+  return (cents / 100).toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+}
+
+function fmtDateBR(v?: string | null) {
+  if (!v) return "-";
+  const d = new Date(v);
+  if (Number.isNaN(d.getTime())) return "-";
+  return d.toLocaleDateString("pt-BR", { timeZone: "America/Sao_Paulo" });
+}
+
+async function getJson(url: string, init?: RequestInit) {
+  const res = await fetch(url, { cache: "no-store", ...init });
+  const json = await res.json().catch(() => null);
+  if (!res.ok || !json?.ok) throw new Error(json?.error || `Erro ${res.status}`);
+  return json;
+}
+
+function listUrl(tab: Tab, direction: Direction | "", q: string, cursor?: string | null) {
+  const sp = new URLSearchParams({ status: tab });
+  if (direction) sp.set("direction", direction);
+  if (q) sp.set("q", q);
+  if (cursor) sp.set("cursor", cursor);
+  return `/api/conciliacao?${sp.toString()}`;
+}
+
+export default function ConciliacaoClient() {
+  const [tab, setTab] = useState<Tab>("OPEN");
+  const [direction, setDirection] = useState<Direction | "">("");
+  const [qInput, setQInput] = useState("");
+  const [q, setQ] = useState("");
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const [rows, setRows] = useState<Line[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [counts, setCounts] = useState<Partial<Record<LineStatus, number>>>({});
+  const [statements, setStatements] = useState<Statement[]>([]);
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const [file, setFile] = useState<File | null>(null);
+  const [uploading, setUploading] = useState(false);
+
+  const [picking, setPicking] = useState<Line | null>(null);
+
+  // carregando = filtros atuais ainda não chegaram
+  const listKey = `${tab}|${direction}|${q}|${reloadKey}`;
+  const loading = loadedKey !== listKey || loadingMore;
+
+  useEffect(() => {
+    let alive = true;
+    getJson(listUrl(tab, direction, q))
+      .then((json) => {
+        if (!alive) return;
+        setRows(json.rows as Line[]);
+        setNextCursor(json.nextCursor ?? null);
+        setCounts(json.counts ?? {});
+        setStatements((json.statements ?? []) as Statement[]);
+        setError("");
+      })
+      .catch((e) => alive && setError(e instanceof Error ? e.message : "Erro ao carregar."))
+      .finally(() => alive && setLoadedKey(listKey));
+    return () => {
+      alive = false;
+    };
+  }, [tab, direction, q, listKey]);
+
+  async function loadMore() {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const json = await getJson(listUrl(tab, direction, q, nextCursor));
+      setRows((prev) => [...prev, ...(json.rows as Line[])]);
+      setNextCursor(json.nextCursor ?? null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao carregar.");
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
+  async function upload() {
+    if (!file) return;
+    setUploading(true);
+    setError("");
+    setNotice("");
+    try {
+      const fd = new FormData();
+      fd.append("file", file);
+      const json = await getJson("/api/conciliacao/import", { method: "POST", body: fd });
+      setNotice(
+        `${json.imported} lançamento(s) novo(s), ${json.suggested} com sugestão` +
+          (json.skipped ? `, ${json.skipped} já importado(s) antes.` : ".")
+      );
+      setFile(null);
+      setTab("OPEN");
+      setReloadKey((k) => k + 1);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao importar.");
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  function dropRow(id: string) {
+    setRows((prev) => prev.filter((r) => r.id !== id));
+  }
+
+  async function confirmLine(line: Line, target?: { type: BankMatchType; id: string }) {
+    setBusy(line.id);
+    setError("");
+    try {
+      await getJson(`/api/conciliacao/${line.id}/match`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(target ? { type: target.type, targetId: target.id } : {}),
+      });
+      dropRow(line.id);
+      setPicking(null);
+      setNotice(`Conciliado: ${line.description}`);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao conciliar.");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function setIgnored(line: Line, action: "ignore" | "reopen") {
+    setBusy(line.id);
+    setError("");
+    try {
+      await getJson(`/api/conciliacao/${line.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+      dropRow(line.id);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao atualizar.");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  const openCount = (counts.UNMATCHED ?? 0) + (counts.SUGGESTED ?? 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Conciliação bancária</h1>
+          <p className="text-sm text-zinc-500">
+            Importe o extrato (OFX ou CSV): créditos casam com recebíveis, dívidas a receber e
+            mensalidades VIP; débitos com comissões de cedentes e pagamentos de funcionários.
+            Confirmar o match dá baixa no registro.
+          </p>
+        </div>
+      </div>
+
+      <div className="rounded-2xl border border-zinc-200 bg-white p-4 shadow-sm">
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            type="file"
+            accept=".ofx,.qfx,.csv,text/csv"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            className="text-sm"
+          />
+          <button
+            onClick={upload}
+            disabled={!file || uploading}
+            className="h-9 rounded-xl bg-zinc-900 px-4 text-sm text-white hover:bg-zinc-800 disabled:opacity-50"
+          >
+            {uploading ? "Importando…" : "Importar extrato"}
+          </button>
+          <span className="text-xs text-zinc-500">
+            CSV: colunas Data, Descrição e Valor (ou Crédito/Débito).
+          </span>
+        </div>
+
+        {statements.length ? (
+          <div className="mt-4 overflow-auto">
+            <table className="w-full min-w-[700px] text-xs">
+              <thead>
+                <tr className="text-left text-zinc-500">
+                  <th className="border-b border-zinc-200 p-2">Arquivo</th>
+                  <th className="border-b border-zinc-200 p-2">Período</th>
+                  <th className="border-b border-zinc-200 p-2">Novos</th>
+                  <th className="border-b border-zinc-200 p-2">Repetidos</th>
+                  <th className="border-b border-zinc-200 p-2">Importado</th>
+                </tr>
+              </thead>
+              <tbody>
+                {statements.map((s) => (
+                  <tr key={s.id}>
+                    <td className="border-b border-zinc-100 p-2">
+                      {s.fileName} <span className="text-zinc-400">({s.format})</span>
+                    </td>
+                    <td className="border-b border-zinc-100 p-2">
+                      {fmtDateBR(s.periodFrom)} a {fmtDateBR(s.periodTo)}
+                    </td>
+                    <td className="border-b border-zinc-100 p-2">{s.linesCount}</td>
+                    <td className="border-b border-zinc-100 p-2">{s.skippedCount}</td>
+                    <td className="border-b border-zinc-100 p-2">
+                      {fmtDateBR(s.createdAt)} · {s.importedBy?.name ?? "-"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : null}
+      </div>
+
+      {error ? (
+        <div className="rounded-xl border border-rose-200 bg-rose-50 p-3 text-sm text-rose-700">{error}</div>
+      ) : null}
+      {notice ? (
+        <div className="rounded-xl border border-emerald-200 bg-emerald-50 p-3 text-sm text-emerald-700">
+          {notice}
+        </div>
+      ) : null}
+
+      <div className="flex flex-wrap items-center gap-2">
+        {TABS.map((t) => (
+          <button
+            key={t.key}
+            onClick={() => setTab(t.key)}
+            className={cn(
+              "h-9 rounded-xl border px-3 text-sm",
+              tab === t.key
+                ? "border-zinc-900 bg-zinc-900 text-white"
+                : "border-zinc-200 bg-white text-zinc-700 hover:bg-zinc-50"
+            )}
+          >
+            {t.label}
+            {t.key === "OPEN" && openCount ? ` (${openCount})` : ""}
+            {t.key !== "OPEN" && counts[t.key] ? ` (${counts[t.key]})` : ""}
+          </button>
+        ))}
+
+        <select
+          value={direction}
+          onChange={(e) => setDirection(e.target.value as Direction | "")}
+          className="h-9 rounded-xl border border-zinc-200 bg-white px-2 text-sm"
+        >
+          <option value="">Créditos e débitos</option>
+          <option value="CREDIT">Só créditos</option>
+          <option value="DEBIT">Só débitos</option>
+        </select>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            setQ(qInput.trim());
+          }}
+          className="flex gap-2"
+        >
+          <input
+            value={qInput}
+            onChange={(e) => setQInput(e.target.value)}
+            placeholder="Buscar na descrição"
+            className="h-9 w-56 rounded-xl border border-zinc-200 px-3 text-sm"
+          />
+          <button className="h-9 rounded-xl border border-zinc-200 bg-white px-3 text-sm hover:bg-zinc-50">
+            Buscar
+          </button>
+        </form>
+      </div>
+
+      <div className="rounded-2xl border border-zinc-200 bg-white p-4 shadow-sm">
+        <div className="overflow-auto">
+          <table className="w-full min-w-[980px] text-sm">
+            <thead>
+              <tr className="text-left text-xs text-zinc-500">
+                <th className="border-b border-zinc-200 p-2">Data</th>
+                <th className="border-b border-zinc-200 p-2">Descrição</th>
+                <th className="border-b border-zinc-200 p-2 text-right">Valor</th>
+                <th className="border-b border-zinc-200 p-2">{tab === "MATCHED" ? "Quitou" : "Sugestão"}</th>
+                <th className="border-b border-zinc-200 p-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r) => (
+                <tr key={r.id} className="align-top">
+                  <td className="border-b border-zinc-100 p-2 whitespace-nowrap">{fmtDateBR(r.postedAt)}</td>
+                  <td className="border-b border-zinc-100 p-2">
+                    <div>{r.description}</div>
+                    <div className="text-xs text-zinc-400">
+                      {[r.pixKey && `PIX ${r.pixKey}`, r.document && r.document !== r.pixKey && `doc ${r.document}`]
+                        .filter(Boolean)
+                        .join(" · ") || r.statement.fileName}
+                    </div>
+                  </td>
+                  <td
+                    className={cn(
+                      "border-b border-zinc-100 p-2 text-right font-medium whitespace-nowrap",
+                      r.direction === "CREDIT" ? "text-emerald-700" : "text-rose-700"
+                    )}
+                  >
+                    {r.direction === "CREDIT" ? "+" : "−"} {fmtMoneyBR(r.amountCents)}
+                  </td>
+                  <td className="border-b border-zinc-100 p-2 text-xs">
+                    {r.status === "MATCHED" ? (
+                      <>
+                        <div className="font-medium text-zinc-800">{r.matchedLabel ?? "-"}</div>
+                        <div className="text-zinc-500">
+                          {r.matchedType ? MATCH_TYPE_LABEL[r.matchedType] : ""} · {fmtDateBR(r.matchedAt)} ·{" "}
+                          {r.matchedBy?.name ?? "-"}
+                        </div>
+                      </>
+                    ) : r.status === "SUGGESTED" && r.suggestedType ? (
+                      <>
+                        <div className="font-medium text-zinc-800">{r.suggestedLabel}</div>
+                        <div className="text-zinc-500">
+                          {MATCH_TYPE_LABEL[r.suggestedType]} · pontuação {r.suggestedScore}
+                        </div>
+                      </>
+                    ) : (
+                      <span className="text-zinc-400">—</span>
+                    )}
+                  </td>
+                  <td className="border-b border-zinc-100 p-2">
+                    <div className="flex justify-end gap-2">
+                      {r.status === "SUGGESTED" ? (
+                        <button
+                          onClick={() => confirmLine(r)}
+                          disabled={busy === r.id}
+                          className="h-8 rounded-xl bg-emerald-600 px-3 text-xs text-white hover:bg-emerald-700 disabled:opacity-50"
+                        >
+                          Confirmar
+                        </button>
+                      ) : null}
+                      {r.status === "SUGGESTED" || r.status === "UNMATCHED" ? (
+                        <>
+                          <button
+                            onClick={() => setPicking(r)}
+                            disabled={busy === r.id}
+                            className="h-8 rounded-xl border border-zinc-200 bg-white px-3 text-xs text-zinc-700 hover:bg-zinc-50 disabled:opacity-50"
+                          >
+                            Escolher
+                          </button>
+                          <button
+                            onClick={() => setIgnored(r, "ignore")}
+                            disabled={busy === r.id}
+                            className="h-8 rounded-xl border border-zinc-200 bg-white px-3 text-xs text-zinc-500 hover:bg-zinc-50 disabled:opacity-50"
+                          >
+                            Ignorar
+                          </button>
+                        </>
+                      ) : null}
+                      {r.status === "IGNORED" ? (
+                        <button
+                          onClick={() => setIgnored(r, "reopen")}
+                          disabled={busy === r.id}
+                          className="h-8 rounded-xl border border-zinc-200 bg-white px-3 text-xs text-zinc-700 hover:bg-zinc-50 disabled:opacity-50"
+                        >
+                          Voltar para a fila
+                        </button>
+                      ) : null}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+
+              {!loading && rows.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="p-4 text-center text-sm text-zinc-500">
+                    {tab === "OPEN" ? "Nada na fila." : "Nenhum lançamento."}
+                  </td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+
+        {nextCursor ? (
+          <div className="mt-3 text-center">
+            <button
+              onClick={loadMore}
+              disabled={loading}
+              className="h-9 rounded-xl border border-zinc-200 bg-white px-4 text-sm text-zinc-700 hover:bg-zinc-50 disabled:opacity-50"
+            >
+              {loading ? "Carregando…" : "Carregar mais"}
+            </button>
+          </div>
+        ) : null}
+      </div>
+
+      {picking ? (
+        <CandidatePicker
+          key={picking.id}
+          line={picking}
+          busy={busy === picking.id}
+          onClose={() => setPicking(null)}
+          onPick={(c) => confirmLine(picking, c)}
+        />
+      ) : null}
+    </div>
+  );
+}
+
+function CandidatePicker({
+  line,
+  busy,
+  onClose,
+  onPick,
+}: {
+  line: Line;
+  busy: boolean;
+  onClose: () => void;
+  onPick: (c: Candidate) => void;
+}) {
+  const [qInput, setQInput] = useState("");
+  const [q, setQ] = useState("");
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [loadedQ, setLoadedQ] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const loading = loadedQ !== q;
+
+  useEffect(() => {
+    let alive = true;
+    const qs = q ? `?q=${encodeURIComponent(q)}` : "";
+    getJson(`/api/conciliacao/${line.id}/candidates${qs}`)
+      .then((json) => {
+        if (!alive) return;
+        setCandidates(json.candidates as Candidate[]);
+        setError("");
+      })
+      .catch((e) => alive && setError(e instanceof Error ? e.message : "Erro ao buscar."))
+      .finally(() => alive && setLoadedQ(q));
+    return () => {
+      alive = false;
+    };
+  }, [line.id, q]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onMouseDown={onClose}>
+      <div
+        className="max-h-[90vh] w-full max-w-2xl overflow-y-auto rounded-2xl bg-white shadow-xl"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="border-b px-5 py-4">
+          <div className="text-lg font-semibold">Escolher registro</div>
+          <div className="text-sm text-zinc-500">
+            {fmtDateBR(line.postedAt)} · {line.description} ·{" "}
+            <b>{fmtMoneyBR(line.amountCents)}</b>
+          </div>
+        </div>
+
+        <div className="space-y-3 p-5">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              setQ(qInput.trim());
+            }}
+            className="flex gap-2"
+          >
+            <input
+              value={qInput}
+              onChange={(e) => setQInput(e.target.value)}
+              placeholder="Buscar por nome ou número da venda"
+              className="h-9 flex-1 rounded-xl border border-zinc-200 px-3 text-sm"
+            />
+            <button className="h-9 rounded-xl border border-zinc-200 bg-white px-3 text-sm hover:bg-zinc-50">
+              Buscar
+            </button>
+          </form>
+
+          {error ? <div className="text-sm text-rose-700">{error}</div> : null}
+          {loading ? <div className="text-sm text-zinc-500">Buscando…</div> : null}
+
+          {!loading && !candidates.length ? (
+            <div className="text-sm text-zinc-500">
+              Nenhum registro em aberto bate com este lançamento. Busque pelo nome.
+            </div>
+          ) : null}
+
+          <div className="divide-y rounded-xl border">
+            {candidates.map((c) => (
+              <div key={`${c.type}:${c.id}`} className="flex items-center justify-between gap-3 p-3">
+                <div className="min-w-0">
+                  <div className="truncate text-sm font-medium">{c.label}</div>
+                  <div className="text-xs text-zinc-500">
+                    {MATCH_TYPE_LABEL[c.type]} · em aberto {fmtMoneyBR(c.amountCents)}
+                    {c.date ? ` · ${fmtDateBR(c.date)}` : ""}
+                    {c.reasons.length ? ` · ${c.reasons.join(", ")}` : ""}
+                  </div>
+                </div>
+                <button
+                  onClick={() => onPick(c)}
+                  disabled={busy}
+                  className="h-8 shrink-0 rounded-xl bg-zinc-900 px-3 text-xs text-white hover:bg-zinc-800 disabled:opacity-50"
+                >
+                  {c.amountCents > line.amountCents ? "Baixa parcial" : "Quitar"}
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex justify-end border-t px-5 py-3">
+          <button onClick={onClose} className="h-9 rounded-xl border border-zinc-200 px-4 text-sm hover:bg-zinc-50">
+            Fechar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
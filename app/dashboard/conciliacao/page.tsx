@@ -0,0 +1,7 @@
+import ConciliacaoClient from "./ConciliacaoClient";
+
+export const dynamic = "force-dynamic";
+
+export default function Page() {
+  return <ConciliacaoClient />;
+}
@@ -21,7 +21,7 @@ type Row = {
   auto: null | {
     nextRenewalAt: string;
     inactiveAt: string;
-    cancelAt: string;
+    cancelAt: string | null;
     inactiveInMonth: boolean;
     cancelInMonth: boolean;
   };
@@ -1,5 +1,5 @@
 // app/dashboard/contas-selecionadas/livelo/aniversario/page.tsx
-import { prisma } from "@/lib/prisma";
+import { tenantPrisma } from "@/lib/tenant";
 import { getSessionServer } from "@/lib/auth-server";
 
 export const dynamic = "force-dynamic";
@@ -47,7 +47,7 @@ export default async function Page() {
     return <div className="p-6 text-sm text-red-600">Não autenticado.</div>;
   }
 
-  const rows = await prisma.cedente.findMany({
+  const rows = await tenantPrisma(session.team).cedente.findMany({
     where: {
       status: "APPROVED",
       dataNascimento: { not: null },
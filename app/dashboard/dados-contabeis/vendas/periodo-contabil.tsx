@@ -0,0 +1,414 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { cn } from "@/lib/cn";
+
+type ExportKind = "xlsx" | "nfse" | "diario";
+
+type UserRef = { id: string; name: string } | null;
+
+type Snapshot = {
+  sales: { count: number; totalCents: number; paidCents: number; pendingCents: number };
+  profit: { profitTotalCents: number; lossTotalCents: number; profitAfterLossCents: number };
+  payouts: { grossCents: number; netCents: number; paidNetCents: number };
+  taxes: { totalTaxCents: number };
+};
+
+type Period = {
+  id: string;
+  month: string;
+  closedAt: string | null;
+  closedBy: UserRef;
+  exports: Partial<Record<ExportKind, string>>;
+  notes: string | null;
+  snapshot: Snapshot | null;
+  reopenRequestedAt: string | null;
+  reopenRequestedBy: UserRef;
+  reopenReason: string | null;
+  reopenedAt: string | null;
+  reopenedBy: UserRef;
+};
+
+type Adjustment = {
+  id: string;
+  periodMonth: string;
+  postedMonth: string;
+  amountCents: number;
+  description: string;
+  createdAt: string;
+  createdBy: UserRef;
+};
+
+type PeriodAction = "close" | "request_reopen" | "approve_reopen" | "reject_reopen";
+
+type NfseConfig = {
+  nfseCnpj: string | null;
+  nfseInscricaoMunicipal: string | null;
+  nfseRazaoSocial: string | null;
+  nfseCodigoMunicipio: string | null;
+  nfseItemListaServico: string | null;
+  nfseCodigoTributacao: string | null;
+  nfseAliquotaBps: number;
+  nfseSimplesNacional: boolean;
+};
+
+type ConfigForm = {
+  cnpj: string;
+  inscricaoMunicipal: string;
+  razaoSocial: string;
+  codigoMunicipio: string;
+  itemListaServico: string;
+  codigoTributacao: string;
+  aliquotaPercent: string;
+  simplesNacional: boolean;
+};
+
+const EXPORT_LABEL: Record<ExportKind, string> = {
+  xlsx: "XLSX",
+  nfse: "Lote NFS-e",
+  diario: "Diário",
+};
+
+function toForm(c: NfseConfig): ConfigForm {
+  return {
+    cnpj: c.nfseCnpj || "",
+    inscricaoMunicipal: c.nfseInscricaoMunicipal || "",
+    razaoSocial: c.nfseRazaoSocial || "",
+    codigoMunicipio: c.nfseCodigoMunicipio || "",
+    itemListaServico: c.nfseItemListaServico || "",
+    codigoTributacao: c.nfseCodigoTributacao || "",
+    aliquotaPercent: String((c.nfseAliquotaBps ?? 500) / 100).replace(".", ","),
+    simplesNacional: c.nfseSimplesNacional,
+  };
+}
+
+async function fetchJson(url: string, init?: RequestInit) {
+  const res = await fetch(url, { cache: "no-store", credentials: "include", ...init });
+  const json = await res.json().catch(() => null);
+  if (!res.ok || !json?.ok) throw new Error(json?.error || `Erro (${res.status})`);
+  return json;
+}
+
+function fmtDateTime(iso: string) {
+  return new Date(iso).toLocaleString("pt-BR");
+}
+
+function fmtMoney(cents: number) {
+  return (cents / 100).toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+}
+
+/** ✅ Exports do mês (NFS-e / diário) + fechamento / reabertura */
+export default function PeriodoContabil({ month }: { month: string }) {
+  const [periods, setPeriods] = useState<Period[]>([]);
+  const [adjustments, setAdjustments] = useState<Adjustment[]>([]);
+  const [canApprove, setCanApprove] = useState(false);
+  const [config, setConfig] = useState<ConfigForm | null>(null);
+  const [showConfig, setShowConfig] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [err, setErr] = useState("");
+
+  async function loadPeriods() {
+    const json = await fetchJson(`/api/dados-contabeis/periodos?month=${month}`);
+    setPeriods(json.data as Period[]);
+    setAdjustments(json.adjustments as Adjustment[]);
+    setCanApprove(!!json.canApproveReopen);
+  }
+
+  useEffect(() => {
+    let alive = true;
+    Promise.all([
+      fetchJson(`/api/dados-contabeis/periodos?month=${month}`),
+      fetchJson("/api/dados-contabeis/nfse/config"),
+    ])
+      .then(([p, c]) => {
+        if (!alive) return;
+        setPeriods(p.data as Period[]);
+        setAdjustments(p.adjustments as Adjustment[]);
+        setCanApprove(!!p.canApproveReopen);
+        setConfig(toForm(c.data as NfseConfig));
+      })
+      .catch((e) => alive && setErr(e instanceof Error ? e.message : "Erro ao carregar período."));
+    return () => {
+      alive = false;
+    };
+  }, [month]);
+
+  const period = periods.find((p) => p.month === month) || null;
+  const closed = !!period?.closedAt;
+  const reopenPending = closed && !!period?.reopenRequestedAt;
+  const snap = closed ? period?.snapshot ?? null : null;
+
+  async function download(kind: "nfse" | "diario") {
+    setBusy(kind);
+    setErr("");
+    try {
+      const res = await fetch(`/api/dados-contabeis/${kind}?month=${month}`, {
+        cache: "no-store",
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const json = await res.json().catch(() => null);
+        throw new Error(json?.error || `Erro (${res.status})`);
+      }
+      const blob = await res.blob();
+      const a = document.createElement("a");
+      a.href = URL.createObjectURL(blob);
+      a.download = kind === "nfse" ? `nfse_lote_${month}.xml` : `diario_${month}.csv`;
+      a.click();
+      URL.revokeObjectURL(a.href);
+
+      const semDoc = Number(res.headers.get("X-TM-Sem-Documento") || 0);
+      if (semDoc > 0) alert(`${semDoc} venda(s) sem CPF/CNPJ do cliente: a NFS-e sai sem identificação do tomador.`);
+      await loadPeriods();
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Erro ao exportar.");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function runAction(action: PeriodAction) {
+    let reason = "";
+    if (action === "close") {
+      const msg = `Fechar ${month}? Vendas, pagamentos e impostos do mês ficam congelados; cancelar venda do mês só como ajuste no mês atual.`;
+      if (!confirm(msg)) return;
+    } else if (action === "request_reopen") {
+      reason = prompt(`Motivo para reabrir ${month} (um admin precisa aprovar):`)?.trim() || "";
+      if (!reason) return;
+    } else if (action === "approve_reopen") {
+      if (!confirm(`Aprovar a reabertura de ${month}? O mês volta a aceitar alterações.`)) return;
+    } else if (!confirm(`Recusar o pedido de reabertura de ${month}?`)) {
+      return;
+    }
+
+    setBusy(action);
+    setErr("");
+    try {
+      await fetchJson("/api/dados-contabeis/periodos", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ month, action, reason }),
+      });
+      await loadPeriods();
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Erro ao atualizar o período.");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function saveConfig() {
+    if (!config) return;
+    setBusy("config");
+    setErr("");
+    try {
+      const json = await fetchJson("/api/dados-contabeis/nfse/config", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(config),
+      });
+      setConfig(toForm(json.data as NfseConfig));
+      setShowConfig(false);
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Erro ao salvar prestador.");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  const inputCls = "h-10 w-full rounded-xl border px-3 text-sm";
+  const field = (key: keyof Omit<ConfigForm, "simplesNacional">, label: string, placeholder = "") => (
+    <label className="text-xs text-neutral-500">
+      {label}
+      <input
+        className={inputCls}
+        value={config?.[key] ?? ""}
+        placeholder={placeholder}
+        onChange={(e) => setConfig((c) => (c ? { ...c, [key]: e.target.value } : c))}
+      />
+    </label>
+  );
+
+  return (
+    <div className="rounded-2xl border bg-white p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <div className="text-sm font-semibold">
+            Contabilidade de {month}{" "}
+            <span
+              className={cn(
+                "ml-1 rounded-full px-2 py-0.5 text-xs",
+                closed ? "bg-neutral-900 text-white" : "bg-emerald-100 text-emerald-800"
+              )}
+            >
+              {closed ? "fechado" : "aberto"}
+            </span>
+          </div>
+          <div className="text-xs text-neutral-500">
+            {(Object.keys(EXPORT_LABEL) as ExportKind[])
+              .map((k) => `${EXPORT_LABEL[k]}: ${period?.exports[k] ? fmtDateTime(period.exports[k]) : "—"}`)
+              .join(" • ")}
+            {closed && period?.closedAt ? (
+              <>
+                {" "}
+                • fechado por {period.closedBy?.name || "-"} em {fmtDateTime(period.closedAt)}
+              </>
+            ) : null}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => download("nfse")}
+            disabled={!!busy}
+            className="h-10 rounded-xl border px-4 text-sm hover:bg-neutral-50 disabled:opacity-50"
+            type="button"
+          >
+            {busy === "nfse" ? "Gerando..." : "Lote NFS-e (XML)"}
+          </button>
+          <button
+            onClick={() => download("diario")}
+            disabled={!!busy}
+            className="h-10 rounded-xl border px-4 text-sm hover:bg-neutral-50 disabled:opacity-50"
+            type="button"
+          >
+            {busy === "diario" ? "Gerando..." : "Diário (CSV)"}
+          </button>
+          <button
+            onClick={() => setShowConfig((v) => !v)}
+            className="h-10 rounded-xl border px-4 text-sm hover:bg-neutral-50"
+            type="button"
+          >
+            Prestador NFS-e
+          </button>
+          {!closed ? (
+            <button
+              onClick={() => runAction("close")}
+              disabled={!!busy}
+              className="h-10 rounded-xl bg-black px-4 text-sm text-white hover:bg-neutral-800 disabled:opacity-50"
+              type="button"
+            >
+              {busy === "close" ? "Fechando..." : "Fechar mês"}
+            </button>
+          ) : !reopenPending ? (
+            <button
+              onClick={() => runAction("request_reopen")}
+              disabled={!!busy}
+              className="h-10 rounded-xl border px-4 text-sm hover:bg-neutral-50 disabled:opacity-50"
+              type="button"
+            >
+              Pedir reabertura
+            </button>
+          ) : canApprove ? (
+            <>
+              <button
+                onClick={() => runAction("approve_reopen")}
+                disabled={!!busy}
+                className="h-10 rounded-xl bg-black px-4 text-sm text-white hover:bg-neutral-800 disabled:opacity-50"
+                type="button"
+              >
+                Aprovar reabertura
+              </button>
+              <button
+                onClick={() => runAction("reject_reopen")}
+                disabled={!!busy}
+                className="h-10 rounded-xl border px-4 text-sm hover:bg-neutral-50 disabled:opacity-50"
+                type="button"
+              >
+                Recusar
+              </button>
+            </>
+          ) : null}
+        </div>
+      </div>
+
+      {err ? <div className="rounded-xl border bg-rose-50 p-3 text-sm text-rose-800">{err}</div> : null}
+
+      {reopenPending && period ? (
+        <div className="rounded-xl border bg-amber-50 p-3 text-sm text-amber-900">
+          Reabertura pedida por {period.reopenRequestedBy?.name || "-"} em{" "}
+          {period.reopenRequestedAt ? fmtDateTime(period.reopenRequestedAt) : "-"}: {period.reopenReason || "—"}
+          {canApprove ? null : " • aguardando aprovação de um admin"}
+        </div>
+      ) : null}
+
+      {!closed && period?.reopenedAt ? (
+        <div className="text-xs text-neutral-500">
+          Reaberto por {period.reopenedBy?.name || "-"} em {fmtDateTime(period.reopenedAt)}
+        </div>
+      ) : null}
+
+      {snap ? (
+        <div className="grid grid-cols-2 gap-2 text-sm md:grid-cols-5">
+          {[
+            ["Vendas", `${snap.sales.count} • ${fmtMoney(snap.sales.totalCents)}`],
+            ["Lucro tributável", fmtMoney(snap.profit.profitAfterLossCents)],
+            ["Prejuízo", fmtMoney(snap.profit.lossTotalCents)],
+            ["Pagamentos (líquido)", fmtMoney(snap.payouts.netCents)],
+            ["Impostos", fmtMoney(snap.taxes.totalTaxCents)],
+          ].map(([label, value]) => (
+            <div key={label} className="rounded-xl border p-2">
+              <div className="text-xs text-neutral-500">{label} (congelado)</div>
+              <div className="font-medium">{value}</div>
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      {adjustments.length ? (
+        <div className="rounded-xl border p-3">
+          <div className="mb-2 text-xs font-semibold text-neutral-600">Ajustes de período</div>
+          <table className="w-full text-sm">
+            <tbody>
+              {adjustments.map((a) => (
+                <tr key={a.id} className="border-t">
+                  <td className="py-1 pr-2 text-xs text-neutral-500">{fmtDateTime(a.createdAt)}</td>
+                  <td className="py-1 pr-2">
+                    {a.description}
+                    {a.postedMonth === month ? "" : ` • lançado em ${a.postedMonth}`}
+                  </td>
+                  <td className={cn("py-1 pr-2 text-right", a.amountCents < 0 ? "text-rose-700" : "text-emerald-700")}>
+                    {fmtMoney(a.amountCents)}
+                  </td>
+                  <td className="py-1 text-xs text-neutral-500">{a.createdBy?.name || "-"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+
+      {showConfig && config ? (
+        <div className="rounded-xl border p-3 space-y-3">
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-4">
+            {field("razaoSocial", "Razão social")}
+            {field("cnpj", "CNPJ")}
+            {field("inscricaoMunicipal", "Inscrição municipal")}
+            {field("codigoMunicipio", "Código IBGE do município", "2611606")}
+            {field("itemListaServico", "Item da lista (LC 116)", "09.02")}
+            {field("codigoTributacao", "Código de tributação municipal")}
+            {field("aliquotaPercent", "Alíquota ISS (%)", "5")}
+            <label className="flex items-center gap-2 pt-5 text-sm">
+              <input
+                type="checkbox"
+                checked={config.simplesNacional}
+                onChange={(e) => setConfig((c) => (c ? { ...c, simplesNacional: e.target.checked } : c))}
+              />
+              Optante do Simples Nacional
+            </label>
+          </div>
+          <div className="flex justify-end">
+            <button
+              onClick={saveConfig}
+              disabled={busy === "config"}
+              className="h-10 rounded-xl bg-black px-4 text-sm text-white hover:bg-neutral-800 disabled:opacity-50"
+              type="button"
+            >
+              {busy === "config" ? "Salvando..." : "Salvar prestador"}
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useEffect, useMemo, useState } from "react";
 import { cn } from "@/lib/cn";
+import PeriodoContabil from "./periodo-contabil";
 
 function fmtMoneyBRFromCents(cents: number) {
   return ((cents || 0) / 100).toLocaleString("pt-BR", {
@@ -306,6 +307,8 @@ export default function VendasDadosContabeisClient() {
         </div>
       </div>
 
+      <PeriodoContabil month={month} />
+
       {/* calendário */}
       <div className="rounded-2xl border bg-white p-4">
         <div className="flex items-center justify-between">
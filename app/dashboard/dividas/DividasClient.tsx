@@ -1,6 +1,7 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
+import { can, normalizeRole, type Role } from "@/lib/permissions";
 
 type Payment = { id: string; amountCents: number; note?: string | null; paidAt: string };
 type Debt = {
@@ -129,7 +130,7 @@ export default function DividasClient() {
     >
   >({});
 
-  const [meRole, setMeRole] = useState<"admin" | "staff" | null>(null);
+  const [meRole, setMeRole] = useState<Role | null>(null);
 
   // ✅ filtros/ordenação
   const [statusFilter, setStatusFilter] = useState<StatusFilter>("ALL");
@@ -159,7 +160,7 @@ export default function DividasClient() {
         const r = await fetch("/api/session", { cache: "no-store" });
         const j = await r.json().catch(() => ({}));
         if (j?.ok && j?.hasSession && j?.user?.role) {
-          setMeRole(j.user.role);
+          setMeRole(normalizeRole(j.user.role));
         } else {
           setMeRole(null);
         }
@@ -322,10 +323,10 @@ export default function DividasClient() {
     return groups;
   }, [filtered, sortMode]);
 
-  const isAdmin = meRole === "admin";
+  const canManage = !!meRole && can(meRole, "dividas.write");
 
   const dueAlerts = useMemo(() => {
-    if (!isAdmin) return [];
+    if (!canManage) return [];
     return debts
       .filter((d) => d.status === "OPEN" && d.dueDate)
       .map((d) => {
@@ -339,7 +340,7 @@ export default function DividasClient() {
         if (da !== db) return da - db;
         return (a.debt.balanceCents || 0) - (b.debt.balanceCents || 0);
       });
-  }, [debts, isAdmin]);
+  }, [debts, canManage]);
 
   async function createDebt() {
     const cents = toCentsFromInput(total);
@@ -525,7 +526,7 @@ export default function DividasClient() {
         </div>
       </div>
 
-      {isAdmin ? (
+      {canManage ? (
         <div className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm">
           <div className="flex items-center justify-between gap-2">
             <div className="font-semibold text-slate-900">Alertas de vencimento</div>
@@ -1,6 +1,7 @@
 "use client";
 
 import { FormEvent, useCallback, useEffect, useMemo, useState } from "react";
+import { balcaoCommissionCents, DEFAULT_PLAN_RULES, type PlanRules } from "@/lib/payouts/commissionRules";
 
 type Airline =
   | "LATAM"
@@ -239,9 +240,26 @@ export default function CompraVendaClient() {
     () => previewProfitCents - previewTaxCents,
     [previewProfitCents, previewTaxCents]
   );
+  // ✅ % do balcão vem do plano de comissão vigente do funcionário selecionado
+  const [planRules, setPlanRules] = useState<PlanRules>(DEFAULT_PLAN_RULES);
+  useEffect(() => {
+    if (!form.employeeId) return;
+    let alive = true;
+    fetch(`/api/payouts/planos/vigente?userId=${encodeURIComponent(form.employeeId)}`, { cache: "no-store" })
+      .then((res) => res.json())
+      .then((json) => {
+        if (alive && json?.ok) setPlanRules(json.data.rules as PlanRules);
+      })
+      .catch(() => {});
+    return () => {
+      alive = false;
+    };
+  }, [form.employeeId]);
+  const sellerCommissionPercent = planRules.balcaoBps / 100;
+
   const previewSellerCommissionCents = useMemo(
-    () => Math.round(Math.max(0, previewNetProfitCents) * 0.6),
-    [previewNetProfitCents]
+    () => balcaoCommissionCents(planRules, previewNetProfitCents),
+    [planRules, previewNetProfitCents]
   );
 
   const loadRows = useCallback(async (search = "") => {
@@ -518,7 +536,7 @@ export default function CompraVendaClient() {
           <div className="text-lg font-semibold text-emerald-700">{formatMoney(resumo.totalNetProfitCents)}</div>
         </div>
         <div className="rounded border border-zinc-200 bg-white p-3">
-          <div className="text-xs text-zinc-500">Comissão vendedor (60%)</div>
+          <div className="text-xs text-zinc-500">Comissão vendedor (plano)</div>
           <div className="text-lg font-semibold text-blue-700">
             {formatMoney(resumo.totalSellerCommissionCents)}
           </div>
@@ -686,7 +704,7 @@ export default function CompraVendaClient() {
             <div className="font-semibold text-emerald-700">{formatMoney(previewNetProfitCents)}</div>
           </div>
           <div className="rounded border border-zinc-200 bg-zinc-50 p-3">
-            <div className="text-xs text-zinc-500">Comissão vendedor (60%)</div>
+            <div className="text-xs text-zinc-500">{`Comissão vendedor (${sellerCommissionPercent}%)`}</div>
             <div className="font-semibold text-blue-700">{formatMoney(previewSellerCommissionCents)}</div>
           </div>
         </div>
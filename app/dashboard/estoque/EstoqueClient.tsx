@@ -0,0 +1,359 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+
+type Program = "LATAM" | "SMILES" | "LIVELO" | "ESFERA" | "AZUL" | "IBERIA" | "AA" | "TAP" | "FLYING_BLUE";
+type CostMethod = "FIFO" | "AVERAGE";
+
+type ProgramStock = {
+  program: Program;
+  balancePoints: number;
+  lotPoints: number;
+  costCents: number;
+  untrackedPoints: number;
+  avgCostPerMilheiroCents: number;
+  bookValueCents: number;
+  marketValueCents: number;
+  rateCents: number;
+};
+
+type StockRow = {
+  cedente: { id: string; identificador: string; nomeCompleto: string };
+  program: Program;
+  balancePoints: number;
+  lotPoints: number;
+  costCents: number;
+  untrackedPoints: number;
+  avgCostPerMilheiroCents: number;
+  bookValueCents: number;
+  marketValueCents: number;
+};
+
+type SaleCogs = {
+  id: string;
+  numero: string;
+  date: string;
+  program: Program;
+  points: number;
+  cedente: { identificador: string; nomeCompleto: string };
+  revenueCents: number;
+  cogsCents: number;
+  cogsUncoveredPoints: number;
+  marginCents: number;
+};
+
+type Data = {
+  method: CostMethod;
+  methods: Record<CostMethod, string>;
+  labels: Record<Program, string>;
+  programs: ProgramStock[];
+  rows: StockRow[];
+  sales: SaleCogs[];
+};
+
+function fmtMoney(cents: number) {
+  return ((cents || 0) / 100).toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+}
+
+function fmtInt(n: number) {
+  return new Intl.NumberFormat("pt-BR").format(n || 0);
+}
+
+function dateBR(iso: string) {
+  return new Date(iso).toLocaleDateString("pt-BR", { timeZone: "America/Recife" });
+}
+
+function marginPct(marginCents: number, revenueCents: number) {
+  if (!revenueCents) return "-";
+  return `${((marginCents / revenueCents) * 100).toFixed(1).replace(".", ",")}%`;
+}
+
+async function fetchJson(url: string, init?: RequestInit) {
+  const res = await fetch(url, { cache: "no-store", ...init });
+  const json = await res.json().catch(() => null);
+  if (!res.ok || !json?.ok) throw new Error(json?.error || "Falha na requisição.");
+  return json;
+}
+
+/** ✅ Estoque a custo: lotes por compra (FIFO/média) x valor de mercado + CMV das vendas */
+export default function EstoqueClient() {
+  const [data, setData] = useState<Data | null>(null);
+  const [program, setProgram] = useState<Program | "">("");
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  async function load() {
+    const json = await fetchJson("/api/estoque");
+    setData(json.data);
+  }
+
+  useEffect(() => {
+    let alive = true;
+    fetchJson("/api/estoque")
+      .then((json) => {
+        if (alive) setData(json.data);
+      })
+      .catch((e) => alive && setError(e instanceof Error ? e.message : "Erro ao carregar estoque."))
+      .finally(() => alive && setLoading(false));
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  const totals = useMemo(() => {
+    const list = data?.programs ?? [];
+    return {
+      costCents: list.reduce((a, p) => a + p.costCents, 0),
+      bookValueCents: list.reduce((a, p) => a + p.bookValueCents, 0),
+      marketValueCents: list.reduce((a, p) => a + p.marketValueCents, 0),
+      untrackedPoints: list.reduce((a, p) => a + p.untrackedPoints, 0),
+    };
+  }, [data]);
+
+  const rows = useMemo(
+    () =>
+      (data?.rows ?? [])
+        .filter((r) => !program || r.program === program)
+        .sort((a, b) => b.bookValueCents - a.bookValueCents),
+    [data, program]
+  );
+
+  async function changeMethod(method: CostMethod) {
+    if (!data || method === data.method) return;
+    if (!confirm(`Usar "${data.methods[method]}" nas próximas vendas? O CMV já gravado não muda.`)) return;
+    setBusy(true);
+    setError("");
+    try {
+      await fetchJson("/api/estoque", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ method }),
+      });
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao salvar método.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const label = (p: Program) => data?.labels[p] ?? p;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold">Estoque a custo</h1>
+          <p className="text-sm text-slate-600">
+            Cada item de compra liberado vira um lote com o custo do milheiro da compra; vendas consomem os lotes e
+            gravam o CMV. Pontos sem lote (saldo anterior ou ajuste manual) entram pelo milheiro vigente.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Link href="/dashboard/milheiros" className="rounded-xl border px-4 py-2 text-sm hover:bg-slate-50">
+            Milheiro (histórico)
+          </Link>
+          <Link href="/dashboard/resumo" className="rounded-xl border px-4 py-2 text-sm hover:bg-slate-50">
+            Resumo
+          </Link>
+        </div>
+      </div>
+
+      {error ? <div className="rounded-xl border bg-rose-50 p-3 text-sm text-rose-800">{error}</div> : null}
+
+      {loading ? (
+        <div className="text-sm text-slate-600">Carregando...</div>
+      ) : data ? (
+        <>
+          <div className="rounded-2xl border bg-white p-4 space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="font-semibold">Por programa</div>
+              <div className="flex items-center gap-2 text-sm">
+                <span className="text-xs text-slate-500">Método de custo</span>
+                {(Object.keys(data.methods) as CostMethod[]).map((m) => (
+                  <button
+                    key={m}
+                    type="button"
+                    disabled={busy}
+                    onClick={() => changeMethod(m)}
+                    className={`rounded-full border px-3 py-1 text-xs disabled:opacity-50 ${
+                      data.method === m ? "bg-slate-900 text-white" : "hover:bg-slate-50"
+                    }`}
+                  >
+                    {data.methods[m]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid gap-3 sm:grid-cols-3">
+              <div className="rounded-xl border bg-slate-50 p-3">
+                <div className="text-xs text-slate-600">Estoque a custo</div>
+                <div className="text-xl font-bold">{fmtMoney(totals.bookValueCents)}</div>
+                <div className="text-xs text-slate-500">
+                  lotes {fmtMoney(totals.costCents)}
+                  {totals.untrackedPoints ? ` • ${fmtInt(totals.untrackedPoints)} pts sem lote` : ""}
+                </div>
+              </div>
+              <div className="rounded-xl border bg-slate-50 p-3">
+                <div className="text-xs text-slate-600">Valor de mercado</div>
+                <div className="text-xl font-bold">{fmtMoney(totals.marketValueCents)}</div>
+                <div className="text-xs text-slate-500">pontos × milheiro vigente</div>
+              </div>
+              <div className="rounded-xl border bg-slate-50 p-3">
+                <div className="text-xs text-slate-600">Ganho não realizado</div>
+                <div
+                  className={`text-xl font-bold ${
+                    totals.marketValueCents - totals.bookValueCents < 0 ? "text-rose-700" : "text-emerald-700"
+                  }`}
+                >
+                  {fmtMoney(totals.marketValueCents - totals.bookValueCents)}
+                </div>
+                <div className="text-xs text-slate-500">mercado − custo</div>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-xs text-slate-500">
+                    <th className="py-2 pr-3">Programa</th>
+                    <th className="py-2 pr-3 text-right">Pontos</th>
+                    <th className="py-2 pr-3 text-right">Sem lote</th>
+                    <th className="py-2 pr-3 text-right">Custo médio</th>
+                    <th className="py-2 pr-3 text-right">A custo</th>
+                    <th className="py-2 pr-3 text-right">Milheiro</th>
+                    <th className="py-2 pr-3 text-right">Mercado</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.programs.map((p) => (
+                    <tr key={p.program} className="border-b last:border-0">
+                      <td className="py-2 pr-3 font-medium">{label(p.program)}</td>
+                      <td className="py-2 pr-3 text-right">{fmtInt(p.balancePoints)}</td>
+                      <td className="py-2 pr-3 text-right text-slate-500">{fmtInt(p.untrackedPoints)}</td>
+                      <td className="py-2 pr-3 text-right">{p.lotPoints ? fmtMoney(p.avgCostPerMilheiroCents) : "-"}</td>
+                      <td className="py-2 pr-3 text-right font-semibold">{fmtMoney(p.bookValueCents)}</td>
+                      <td className="py-2 pr-3 text-right">{fmtMoney(p.rateCents)}</td>
+                      <td className="py-2 pr-3 text-right">{fmtMoney(p.marketValueCents)}</td>
+                    </tr>
+                  ))}
+                  {!data.programs.length ? (
+                    <tr>
+                      <td colSpan={7} className="py-3 text-slate-500">
+                        Sem pontos em estoque.
+                      </td>
+                    </tr>
+                  ) : null}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="rounded-2xl border bg-white p-4 space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="font-semibold">Por cedente</div>
+              <select
+                className="rounded-xl border px-3 py-2 text-sm"
+                value={program}
+                onChange={(e) => setProgram(e.target.value as Program | "")}
+              >
+                <option value="">Todos os programas</option>
+                {data.programs.map((p) => (
+                  <option key={p.program} value={p.program}>
+                    {label(p.program)}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-xs text-slate-500">
+                    <th className="py-2 pr-3">Cedente</th>
+                    <th className="py-2 pr-3">Programa</th>
+                    <th className="py-2 pr-3 text-right">Pontos</th>
+                    <th className="py-2 pr-3 text-right">Sem lote</th>
+                    <th className="py-2 pr-3 text-right">Custo médio</th>
+                    <th className="py-2 pr-3 text-right">A custo</th>
+                    <th className="py-2 pr-3 text-right">Mercado</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((r) => (
+                    <tr key={`${r.cedente.id}-${r.program}`} className="border-b last:border-0">
+                      <td className="py-2 pr-3">
+                        <div className="font-medium">{r.cedente.nomeCompleto}</div>
+                        <div className="text-xs text-slate-500">{r.cedente.identificador}</div>
+                      </td>
+                      <td className="py-2 pr-3">{label(r.program)}</td>
+                      <td className="py-2 pr-3 text-right">{fmtInt(r.balancePoints)}</td>
+                      <td className="py-2 pr-3 text-right text-slate-500">{fmtInt(r.untrackedPoints)}</td>
+                      <td className="py-2 pr-3 text-right">{r.lotPoints ? fmtMoney(r.avgCostPerMilheiroCents) : "-"}</td>
+                      <td className="py-2 pr-3 text-right font-semibold">{fmtMoney(r.bookValueCents)}</td>
+                      <td className="py-2 pr-3 text-right">{fmtMoney(r.marketValueCents)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="rounded-2xl border bg-white p-4 space-y-3">
+            <div className="font-semibold">CMV das últimas vendas</div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-xs text-slate-500">
+                    <th className="py-2 pr-3">Venda</th>
+                    <th className="py-2 pr-3">Data</th>
+                    <th className="py-2 pr-3">Cedente</th>
+                    <th className="py-2 pr-3">Programa</th>
+                    <th className="py-2 pr-3 text-right">Pontos</th>
+                    <th className="py-2 pr-3 text-right">Receita (PV)</th>
+                    <th className="py-2 pr-3 text-right">CMV</th>
+                    <th className="py-2 pr-3 text-right">Margem</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.sales.map((s) => (
+                    <tr key={s.id} className="border-b last:border-0">
+                      <td className="py-2 pr-3 font-medium">{s.numero}</td>
+                      <td className="py-2 pr-3">{dateBR(s.date)}</td>
+                      <td className="py-2 pr-3">{s.cedente.nomeCompleto}</td>
+                      <td className="py-2 pr-3">{label(s.program)}</td>
+                      <td className="py-2 pr-3 text-right">{fmtInt(s.points)}</td>
+                      <td className="py-2 pr-3 text-right">{fmtMoney(s.revenueCents)}</td>
+                      <td className="py-2 pr-3 text-right">
+                        {fmtMoney(s.cogsCents)}
+                        {s.cogsUncoveredPoints ? (
+                          <div className="text-[11px] text-amber-700">
+                            {fmtInt(s.cogsUncoveredPoints)} pts sem lote (custo da compra)
+                          </div>
+                        ) : null}
+                      </td>
+                      <td className={`py-2 pr-3 text-right ${s.marginCents < 0 ? "text-rose-700" : "text-emerald-700"}`}>
+                        {fmtMoney(s.marginCents)}
+                        <div className="text-[11px] text-slate-500">{marginPct(s.marginCents, s.revenueCents)}</div>
+                      </td>
+                    </tr>
+                  ))}
+                  {!data.sales.length ? (
+                    <tr>
+                      <td colSpan={8} className="py-3 text-slate-500">
+                        Nenhuma venda com CMV ainda (vendas anteriores aos lotes não têm custo gravado).
+                      </td>
+                    </tr>
+                  ) : null}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      ) : null}
+    </div>
+  );
+}
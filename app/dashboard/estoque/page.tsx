@@ -0,0 +1,7 @@
+import EstoqueClient from "./EstoqueClient";
+
+export const dynamic = "force-dynamic";
+
+export default function Page() {
+  return <EstoqueClient />;
+}
@@ -0,0 +1,480 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+
+type Program = "LATAM" | "SMILES" | "LIVELO" | "ESFERA" | "AZUL" | "IBERIA" | "AA" | "TAP" | "FLYING_BLUE";
+
+type SeriesPoint = { date: string; sellRateCents: number; buyRateCents: number | null };
+
+type Change = {
+  id: string;
+  effectiveFrom: string;
+  sellRateCents: number;
+  buyRateCents: number | null;
+  note: string | null;
+  createdBy: { id: string; name: string } | null;
+};
+
+type Series = {
+  program: Program;
+  label: string;
+  current: { sellRateCents: number; buyRateCents: number | null; effectiveFrom: string | null };
+  points: SeriesPoint[];
+  changes: Change[];
+};
+
+const PROGRAMS: Program[] = ["LATAM", "SMILES", "LIVELO", "ESFERA", "AZUL", "IBERIA", "AA", "TAP", "FLYING_BLUE"];
+
+const PROGRAM_COLOR: Record<Program, string> = {
+  LATAM: "#e11d48",
+  SMILES: "#f59e0b",
+  LIVELO: "#db2777",
+  ESFERA: "#0ea5e9",
+  AZUL: "#2563eb",
+  IBERIA: "#dc2626",
+  AA: "#64748b",
+  TAP: "#16a34a",
+  FLYING_BLUE: "#7c3aed",
+};
+
+function fmtMoney(cents: number) {
+  return ((cents || 0) / 100).toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+}
+
+function dateBR(iso: string) {
+  return iso.slice(0, 10).split("-").reverse().join("/");
+}
+
+function todayISO() {
+  return new Date().toLocaleDateString("en-CA", { timeZone: "America/Recife" });
+}
+
+function parseMoneyToCents(v: string) {
+  const raw = String(v || "").trim();
+  if (!raw) return null;
+  const normalized = raw.includes(",") ? raw.replace(/\./g, "").replace(",", ".") : raw;
+  const n = Number(normalized);
+  return Number.isFinite(n) ? Math.round(n * 100) : NaN;
+}
+
+function pctChange(from: number, to: number) {
+  if (!from) return null;
+  return ((to - from) / from) * 100;
+}
+
+async function fetchJson(url: string, init?: RequestInit) {
+  const res = await fetch(url, { cache: "no-store", ...init });
+  const json = await res.json().catch(() => null);
+  if (!res.ok || !json?.ok) throw new Error(json?.error || "Falha na requisição.");
+  return json;
+}
+
+// ======= gráfico em degraus (sem libs): venda contínua, compra tracejada =======
+function StepChart({ series, from, to }: { series: Series[]; from: string; to: string }) {
+  const w = 980;
+  const h = 260;
+  const leftPad = 12;
+  const rightPad = 70;
+  const topPad = 12;
+  const bottomPad = 24;
+  const plotW = w - leftPad - rightPad;
+  const plotH = h - topPad - bottomPad;
+
+  const t0 = new Date(`${from}T00:00:00Z`).getTime();
+  const t1 = Math.max(new Date(`${to}T00:00:00Z`).getTime(), t0 + 1);
+  const scaleX = (iso: string) => leftPad + ((new Date(`${iso}T00:00:00Z`).getTime() - t0) / (t1 - t0)) * plotW;
+
+  const values = series.flatMap((s) =>
+    s.points.flatMap((p) => (p.buyRateCents ? [p.sellRateCents, p.buyRateCents] : [p.sellRateCents]))
+  );
+  const ymin = values.length ? Math.min(...values) * 0.95 : 0;
+  const ymax = values.length ? Math.max(...values) * 1.05 : 1;
+  const scaleY = (v: number) => topPad + plotH - ((v - ymin) / (ymax - ymin || 1)) * plotH;
+
+  function stepPath(points: SeriesPoint[], pick: (p: SeriesPoint) => number | null) {
+    const out: string[] = [];
+    let prevY: number | null = null;
+    for (const p of points) {
+      const v = pick(p);
+      const x = scaleX(p.date);
+      if (v == null) {
+        prevY = null;
+        continue;
+      }
+      const y = scaleY(v);
+      out.push(prevY == null ? `M ${x} ${y}` : `L ${x} ${prevY} L ${x} ${y}`);
+      prevY = y;
+    }
+    if (prevY != null) out.push(`L ${leftPad + plotW} ${prevY}`);
+    return out.join(" ");
+  }
+
+  const yTicks = [ymax, (ymax + ymin) / 2, ymin];
+
+  return (
+    <svg viewBox={`0 0 ${w} ${h}`} className="w-full">
+      {yTicks.map((v, i) => (
+        <g key={i}>
+          <line x1={leftPad} x2={leftPad + plotW} y1={scaleY(v)} y2={scaleY(v)} stroke="#e5e7eb" strokeWidth="1" />
+          <text x={leftPad + plotW + 6} y={scaleY(v) + 3} fontSize="10" fill="#64748b">
+            {fmtMoney(Math.round(v))}
+          </text>
+        </g>
+      ))}
+      <text x={leftPad} y={h - 6} fontSize="10" fill="#64748b">
+        {dateBR(from)}
+      </text>
+      <text x={leftPad + plotW} y={h - 6} fontSize="10" fill="#64748b" textAnchor="end">
+        {dateBR(to)}
+      </text>
+
+      {series.map((s) => (
+        <g key={s.program}>
+          <path
+            d={stepPath(s.points, (p) => p.sellRateCents)}
+            fill="none"
+            stroke={PROGRAM_COLOR[s.program]}
+            strokeWidth="2.2"
+          />
+          <path
+            d={stepPath(s.points, (p) => p.buyRateCents)}
+            fill="none"
+            stroke={PROGRAM_COLOR[s.program]}
+            strokeWidth="1.6"
+            strokeDasharray="5 4"
+          />
+          {s.points.slice(1).map((p) => (
+            <circle key={p.date} cx={scaleX(p.date)} cy={scaleY(p.sellRateCents)} r="2.8" fill={PROGRAM_COLOR[s.program]}>
+              <title>
+                {s.label} • {dateBR(p.date)} • venda {fmtMoney(p.sellRateCents)}
+                {p.buyRateCents ? ` • compra ${fmtMoney(p.buyRateCents)}` : ""}
+              </title>
+            </circle>
+          ))}
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+/** ✅ Histórico do milheiro: preço de venda/compra por programa com vigência + gráfico */
+export default function MilheirosClient() {
+  const [series, setSeries] = useState<Series[]>([]);
+  const [range, setRange] = useState<{ from: string; to: string } | null>(null);
+  const [fromInput, setFromInput] = useState("");
+  const [toInput, setToInput] = useState("");
+  const [selected, setSelected] = useState<Program[]>(["LATAM", "SMILES", "LIVELO", "ESFERA"]);
+  const [form, setForm] = useState({ program: "LATAM" as Program, date: todayISO(), sell: "", buy: "", note: "" });
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  function applyData(data: { from: string; to: string; series: Series[] }) {
+    const from = new Date(data.from).toLocaleDateString("en-CA", { timeZone: "America/Recife" });
+    const to = new Date(data.to).toLocaleDateString("en-CA", { timeZone: "America/Recife" });
+    setSeries(data.series);
+    setRange({ from, to });
+    setFromInput(from);
+    setToInput(to);
+  }
+
+  async function load(from = fromInput, to = toInput) {
+    const qs = new URLSearchParams();
+    if (from) qs.set("from", from);
+    if (to) qs.set("to", to);
+    const json = await fetchJson(`/api/milheiros?${qs.toString()}`);
+    applyData(json.data);
+  }
+
+  useEffect(() => {
+    let alive = true;
+    fetchJson("/api/milheiros")
+      .then((json) => {
+        if (alive) applyData(json.data);
+      })
+      .catch((e) => alive && setError(e instanceof Error ? e.message : "Erro ao carregar milheiros."))
+      .finally(() => alive && setLoading(false));
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  const visible = useMemo(() => series.filter((s) => selected.includes(s.program)), [series, selected]);
+
+  const changes = useMemo(
+    () =>
+      visible
+        .flatMap((s) => s.changes.map((c) => ({ ...c, program: s.program, label: s.label })))
+        .sort((a, b) => (a.effectiveFrom < b.effectiveFrom ? 1 : -1)),
+    [visible]
+  );
+
+  function toggle(p: Program) {
+    setSelected((prev) => (prev.includes(p) ? prev.filter((x) => x !== p) : [...prev, p]));
+  }
+
+  async function applyRange() {
+    setLoading(true);
+    setError("");
+    try {
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao carregar milheiros.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function save() {
+    const sellRateCents = parseMoneyToCents(form.sell);
+    const buyRateCents = parseMoneyToCents(form.buy);
+    if (!sellRateCents || Number.isNaN(sellRateCents) || Number.isNaN(buyRateCents)) {
+      setError("Informe o milheiro de venda (e o de compra, se quiser) em R$.");
+      return;
+    }
+
+    setBusy(true);
+    setError("");
+    try {
+      await fetchJson("/api/milheiros", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ program: form.program, date: form.date, sellRateCents, buyRateCents, note: form.note }),
+      });
+      setForm((f) => ({ ...f, sell: "", buy: "", note: "" }));
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao salvar.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function remove(c: Change & { label: string }) {
+    if (!confirm(`Excluir o preço de ${c.label} de ${dateBR(c.effectiveFrom)}?`)) return;
+    setBusy(true);
+    setError("");
+    try {
+      await fetchJson(`/api/milheiros/${c.id}`, { method: "DELETE" });
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao excluir.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold">Milheiro (histórico)</h1>
+          <p className="text-sm text-slate-600">
+            Preço do milheiro por programa com data de vigência. Estoque, bloqueios, snapshots do Resumo e prejuízo usam o
+            preço vigente na data de cada um. Editar o milheiro no Resumo lança o preço de hoje.
+          </p>
+        </div>
+        <Link href="/dashboard/resumo" className="rounded-xl border px-4 py-2 text-sm hover:bg-slate-50">
+          Resumo
+        </Link>
+      </div>
+
+      {error ? <div className="rounded-xl border bg-rose-50 p-3 text-sm text-rose-800">{error}</div> : null}
+
+      <div className="rounded-2xl border bg-white p-4 space-y-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="text-sm">
+            <div className="text-xs text-slate-500">De</div>
+            <input
+              type="date"
+              className="rounded-xl border px-3 py-2"
+              value={fromInput}
+              onChange={(e) => setFromInput(e.target.value)}
+            />
+          </label>
+          <label className="text-sm">
+            <div className="text-xs text-slate-500">Até</div>
+            <input
+              type="date"
+              className="rounded-xl border px-3 py-2"
+              value={toInput}
+              onChange={(e) => setToInput(e.target.value)}
+            />
+          </label>
+          <button
+            type="button"
+            onClick={applyRange}
+            disabled={loading}
+            className="rounded-xl border px-4 py-2 text-sm hover:bg-slate-50 disabled:opacity-50"
+          >
+            {loading ? "Carregando..." : "Aplicar"}
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {PROGRAMS.map((p) => {
+            const s = series.find((x) => x.program === p);
+            const on = selected.includes(p);
+            return (
+              <button
+                key={p}
+                type="button"
+                onClick={() => toggle(p)}
+                className={`inline-flex items-center gap-1 rounded-full border px-3 py-1 text-xs ${
+                  on ? "bg-slate-900 text-white" : "hover:bg-slate-50"
+                }`}
+              >
+                <span className="h-2 w-2 rounded-full" style={{ background: PROGRAM_COLOR[p] }} />
+                {s?.label || p}
+              </button>
+            );
+          })}
+        </div>
+
+        {range && visible.length ? (
+          <>
+            <StepChart series={visible} from={range.from} to={range.to} />
+            <div className="text-[11px] text-slate-500">Linha contínua: venda (mercado) • tracejada: compra.</div>
+          </>
+        ) : (
+          <div className="text-sm text-slate-600">{loading ? "Carregando..." : "Selecione ao menos um programa."}</div>
+        )}
+
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+          {visible.map((s) => {
+            const start = s.points[0]?.sellRateCents ?? 0;
+            const delta = pctChange(start, s.current.sellRateCents);
+            return (
+              <div key={s.program} className="rounded-xl border bg-slate-50 p-3">
+                <div className="text-xs text-slate-600">{s.label}</div>
+                <div className="text-xl font-bold">{fmtMoney(s.current.sellRateCents)}</div>
+                <div className="text-xs text-slate-500">
+                  {s.current.buyRateCents ? `compra ${fmtMoney(s.current.buyRateCents)} • ` : ""}
+                  {delta == null ? "-" : `${delta >= 0 ? "+" : ""}${delta.toFixed(1).replace(".", ",")}% no período`}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="rounded-2xl border bg-white p-4 space-y-3">
+        <div className="font-semibold">Lançar preço</div>
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-5">
+          <label className="text-sm">
+            <div className="text-xs text-slate-500">Programa</div>
+            <select
+              className="w-full rounded-xl border px-3 py-2"
+              value={form.program}
+              onChange={(e) => setForm({ ...form, program: e.target.value as Program })}
+            >
+              {PROGRAMS.map((p) => (
+                <option key={p} value={p}>
+                  {series.find((s) => s.program === p)?.label || p}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm">
+            <div className="text-xs text-slate-500">Vigente a partir de</div>
+            <input
+              type="date"
+              className="w-full rounded-xl border px-3 py-2"
+              value={form.date}
+              max={todayISO()}
+              onChange={(e) => setForm({ ...form, date: e.target.value })}
+            />
+          </label>
+          <label className="text-sm">
+            <div className="text-xs text-slate-500">Venda (R$/milheiro)</div>
+            <input
+              className="w-full rounded-xl border px-3 py-2"
+              value={form.sell}
+              placeholder="Ex: 20,50"
+              onChange={(e) => setForm({ ...form, sell: e.target.value })}
+            />
+          </label>
+          <label className="text-sm">
+            <div className="text-xs text-slate-500">Compra (opcional)</div>
+            <input
+              className="w-full rounded-xl border px-3 py-2"
+              value={form.buy}
+              placeholder="Ex: 16,00"
+              onChange={(e) => setForm({ ...form, buy: e.target.value })}
+            />
+          </label>
+          <label className="text-sm">
+            <div className="text-xs text-slate-500">Observação</div>
+            <input
+              className="w-full rounded-xl border px-3 py-2"
+              value={form.note}
+              onChange={(e) => setForm({ ...form, note: e.target.value })}
+            />
+          </label>
+        </div>
+        <div className="flex items-center justify-between gap-3">
+          <div className="text-xs text-slate-500">
+            Mesmo programa e dia substitui o lançamento. Data retroativa refaz a avaliação dos relatórios a partir dela.
+          </div>
+          <button
+            type="button"
+            onClick={save}
+            disabled={busy}
+            className="rounded-xl bg-black px-4 py-2 text-sm text-white hover:bg-gray-800 disabled:opacity-50"
+          >
+            Salvar preço
+          </button>
+        </div>
+      </div>
+
+      <div className="rounded-2xl border bg-white p-4 space-y-3">
+        <div className="font-semibold">Mudanças no período</div>
+        {changes.length === 0 ? (
+          <div className="text-sm text-slate-600">Nenhuma mudança de preço no período.</div>
+        ) : (
+          <div className="overflow-auto rounded-xl border">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-3 py-2 text-left">Vigência</th>
+                  <th className="px-3 py-2 text-left">Programa</th>
+                  <th className="px-3 py-2 text-right">Venda</th>
+                  <th className="px-3 py-2 text-right">Compra</th>
+                  <th className="px-3 py-2 text-left">Obs.</th>
+                  <th className="px-3 py-2 text-right">Ações</th>
+                </tr>
+              </thead>
+              <tbody>
+                {changes.map((c) => (
+                  <tr key={c.id} className="border-t">
+                    <td className="px-3 py-2">
+                      <div>{new Date(c.effectiveFrom).toLocaleDateString("pt-BR", { timeZone: "America/Recife" })}</div>
+                      <div className="text-xs text-slate-500">{c.createdBy?.name || "-"}</div>
+                    </td>
+                    <td className="px-3 py-2">{c.label}</td>
+                    <td className="px-3 py-2 text-right tabular-nums">{fmtMoney(c.sellRateCents)}</td>
+                    <td className="px-3 py-2 text-right tabular-nums">
+                      {c.buyRateCents ? fmtMoney(c.buyRateCents) : "-"}
+                    </td>
+                    <td className="px-3 py-2 text-xs text-slate-600">{c.note || ""}</td>
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        type="button"
+                        onClick={() => remove(c)}
+                        disabled={busy}
+                        className="rounded-xl border px-3 py-1.5 text-xs text-rose-700 hover:bg-rose-50 disabled:opacity-50"
+                      >
+                        Excluir
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+import MilheirosClient from "./MilheirosClient";
+
+export const dynamic = "force-dynamic";
+
+export default function Page() {
+  return <MilheirosClient />;
+}
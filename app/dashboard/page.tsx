@@ -1,43 +1,14 @@
 // app/dashboard/page.tsx
-import { cookies } from "next/headers";
 import { redirect } from "next/navigation";
 import LogoutButton from "@/components/LogoutButton";
+import { getSessionServer } from "@/lib/auth-server";
+import { ROLE_LABEL } from "@/lib/permissions";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 
-type Sess = {
-  id: string;
-  login: string;
-  team: string;
-  role: "admin" | "staff";
-  name?: string;
-  email?: string | null;
-};
-
-function b64urlDecode(input: string) {
-  const pad = input.length % 4 === 0 ? "" : "=".repeat(4 - (input.length % 4));
-  const base64 = (input + pad).replace(/-/g, "+").replace(/_/g, "/");
-  return Buffer.from(base64, "base64").toString("utf8");
-}
-
-function readSessionCookie(raw?: string): Sess | null {
-  if (!raw) return null;
-  try {
-    const parsed = JSON.parse(b64urlDecode(raw)) as Partial<Sess>;
-    if (!parsed?.id || !parsed?.login || !parsed?.team || !parsed?.role) return null;
-    if (parsed.role !== "admin" && parsed.role !== "staff") return null;
-    return parsed as Sess;
-  } catch {
-    return null;
-  }
-}
-
 export default async function DashboardHome() {
-  const store = await cookies();
-  const raw = store.get("tm.session")?.value;
-
-  const session = readSessionCookie(raw);
+  const session = await getSessionServer();
 
   // manda pro login já com next certinho
   if (!session) redirect("/login?next=/dashboard");
@@ -51,7 +22,10 @@ export default async function DashboardHome() {
             Olá, <span className="font-medium">{session.login}</span>!
           </p>
         </div>
-        <LogoutButton />
+        <div className="flex gap-2">
+          <LogoutButton everywhere />
+          <LogoutButton />
+        </div>
       </div>
 
       <div className="rounded-xl border p-4">
@@ -70,7 +44,7 @@ export default async function DashboardHome() {
 
           <div>
             <span className="text-slate-500">Papel:</span>{" "}
-            {session.role === "admin" ? "Admin" : "Staff"}
+            {ROLE_LABEL[session.role]}
           </div>
 
           <div className="sm:col-span-2 lg:col-span-3">
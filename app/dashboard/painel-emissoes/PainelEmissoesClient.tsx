@@ -20,11 +20,14 @@
     months: Array<{ key: string; label: string }>;
     currentMonthKey: string;
     renewMonthKey: string;
+    limit: { label: string; paxLimit: number; windowStart: string; windowEnd: string };
     rows: Array<{
       cedenteId: string;
       total: number;
       manual: number; // vem da API, mas não exibimos
       renewEndOfMonth: number; // vem da API, mas não exibimos (só no card total)
+      used: number; // na janela da regra do programa
+      remaining: number;
       perMonth: Record<string, number>;
     }>;
     totals: { total: number; manual: number; renewEndOfMonth: number };
@@ -34,15 +37,11 @@
     return xs.filter(Boolean).join(" ");
   }
 
-  const PROGRAMS: Array<{ key: ProgramKey; label: string; hint: string }> = [
-    {
-      key: "latam",
-      label: "LATAM",
-      hint: "Janela por meses (painel) + renovação mês-12",
-    },
-    { key: "smiles", label: "Smiles", hint: "Reset anual (painel por meses)" },
-    { key: "livelo", label: "Livelo", hint: "Sem regra (por enquanto)" },
-    { key: "esfera", label: "Esfera", hint: "Sem regra (por enquanto)" },
+  const PROGRAMS: Array<{ key: ProgramKey; label: string }> = [
+    { key: "latam", label: "LATAM" },
+    { key: "smiles", label: "Smiles" },
+    { key: "livelo", label: "Livelo" },
+    { key: "esfera", label: "Esfera" },
   ];
 
   function fmtInt(n: number) {
@@ -254,19 +253,18 @@
                     ? "border-zinc-900 bg-zinc-900 text-white"
                     : "border-zinc-200 bg-white text-zinc-700 hover:bg-zinc-50"
                 )}
-                title={p.hint}
               >
                 {p.label}
               </button>
             ))}
             <span className="ml-2 self-center text-xs text-zinc-500">
-              {PROGRAMS.find((p) => p.key === program)?.hint}
+              {panel?.limit.label}
             </span>
           </div>
         </div>
 
         {/* Top summary (3 cards) */}
-        <div className="grid gap-3 md:grid-cols-3">
+        <div className="grid gap-3 md:grid-cols-4">
           <CardStat
             label="Cedentes"
             value={cedentesLoading ? "…" : fmtInt(cedentes.length)}
@@ -282,7 +280,13 @@
             label="Renovam no mês corrente"
             value={panel ? fmtInt(renewThisMonthTotal) : "—"}
             tone="rose"
-            sub={panel ? `Base: ${panel.renewMonthKey}` : undefined}
+            sub={panel?.renewMonthKey ? `Base: ${panel.renewMonthKey}` : undefined}
+          />
+
+          <CardStat
+            label="Limite por CPF"
+            value={panel ? fmtInt(panel.limit.paxLimit) : "—"}
+            sub={panel?.limit.label}
           />
         </div>
 
@@ -384,7 +388,11 @@
                                   {r.nomeCompleto}
                                 </div>
                                 <div className="truncate text-xs text-zinc-500">
-                                  {r.identificador}
+                                  {r.identificador} • livres{" "}
+                                  <b className={cn(r.remaining === 0 && "text-rose-600")}>
+                                    {fmtInt(r.remaining)}
+                                  </b>
+                                  /{fmtInt(panel.limit.paxLimit)}
                                 </div>
                               </div>
 
@@ -432,8 +440,9 @@
           )}
 
           <div className="mt-3 text-xs text-zinc-500">
-            * Mês atual em verde. Coluna de renovação (LATAM) = mês-12 (
-            <b>{panel?.renewMonthKey || "—"}</b>) em vermelho claro.
+            * Mês atual em verde. Coluna de renovação (janela móvel) em
+            vermelho claro (<b>{panel?.renewMonthKey || "—"}</b>). Livres = limite
+            menos usados na janela da regra.
           </div>
         </div>
       </div>
@@ -0,0 +1,302 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type WindowType = "ROLLING_DAYS" | "ANNUAL_RESET" | "LIFETIME";
+
+type LimitRow = {
+  program: string;
+  windowType: WindowType;
+  windowDays: number | null;
+  resetMonth: number | null;
+  resetDay: number | null;
+  paxLimit: number;
+  label: string;
+  custom: boolean;
+  updatedAt: string | null;
+};
+
+type Draft = {
+  windowType: WindowType;
+  windowDays: string;
+  resetMonth: string;
+  resetDay: string;
+  paxLimit: string;
+};
+
+const WINDOW_LABEL: Record<WindowType, string> = {
+  ROLLING_DAYS: "Janela móvel (dias)",
+  ANNUAL_RESET: "Zera todo ano",
+  LIFETIME: "Nunca zera",
+};
+
+function cn(...xs: Array<string | false | null | undefined>) {
+  return xs.filter(Boolean).join(" ");
+}
+
+function toDraft(r: LimitRow): Draft {
+  return {
+    windowType: r.windowType,
+    windowDays: String(r.windowDays ?? 365),
+    resetMonth: String(r.resetMonth ?? 1),
+    resetDay: String(r.resetDay ?? 1),
+    paxLimit: String(r.paxLimit),
+  };
+}
+
+export default function LimitesEmissaoClient() {
+  const [rows, setRows] = useState<LimitRow[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [loading, setLoading] = useState(true);
+  const [savingProgram, setSavingProgram] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  function applyRows(list: LimitRow[]) {
+    setRows(list);
+    setDrafts(Object.fromEntries(list.map((r) => [r.program, toDraft(r)])));
+  }
+
+  async function load() {
+    setLoading(true);
+    setError("");
+    try {
+      const res = await fetch("/api/emissions/limits", { cache: "no-store" });
+      const json = await res.json().catch(() => null);
+      if (!res.ok || !json?.ok) throw new Error(json?.error || "Falha ao carregar limites.");
+      applyRows(json.data as LimitRow[]);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao carregar limites.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    let alive = true;
+    fetch("/api/emissions/limits", { cache: "no-store" })
+      .then((res) => res.json().then((json) => ({ res, json })))
+      .then(({ res, json }) => {
+        if (!alive) return;
+        if (!res.ok || !json?.ok) throw new Error(json?.error || "Falha ao carregar limites.");
+        applyRows(json.data as LimitRow[]);
+      })
+      .catch((e) => alive && setError(e instanceof Error ? e.message : "Erro ao carregar limites."))
+      .finally(() => alive && setLoading(false));
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  function patchDraft(program: string, patch: Partial<Draft>) {
+    setDrafts((prev) => ({ ...prev, [program]: { ...prev[program], ...patch } }));
+  }
+
+  function replaceRow(saved: LimitRow) {
+    setRows((prev) => prev.map((r) => (r.program === saved.program ? saved : r)));
+    setDrafts((prev) => ({ ...prev, [saved.program]: toDraft(saved) }));
+  }
+
+  async function save(program: string) {
+    const d = drafts[program];
+    if (!d) return;
+
+    setSavingProgram(program);
+    setError("");
+    try {
+      const res = await fetch("/api/emissions/limits", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          program,
+          windowType: d.windowType,
+          windowDays: Number(d.windowDays),
+          resetMonth: Number(d.resetMonth),
+          resetDay: Number(d.resetDay),
+          paxLimit: Number(d.paxLimit),
+        }),
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok || !json?.ok) throw new Error(json?.error || "Falha ao salvar.");
+      replaceRow(json.data as LimitRow);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao salvar.");
+    } finally {
+      setSavingProgram(null);
+    }
+  }
+
+  async function reset(program: string) {
+    if (!confirm(`Voltar ${program} para a regra padrão?`)) return;
+
+    setSavingProgram(program);
+    setError("");
+    try {
+      const res = await fetch(`/api/emissions/limits?program=${encodeURIComponent(program)}`, {
+        method: "DELETE",
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok || !json?.ok) throw new Error(json?.error || "Falha ao restaurar.");
+      replaceRow(json.data as LimitRow);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao restaurar.");
+    } finally {
+      setSavingProgram(null);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Limites de CPF por programa</h1>
+          <p className="text-sm text-zinc-500">
+            Quantos passageiros cada cedente pode emitir e quando a contagem zera. Vale para
+            vendas, sugestões de cedente, painel de emissões e LATAM Turbo.
+          </p>
+        </div>
+
+        <button
+          onClick={load}
+          className="h-9 rounded-xl border border-zinc-200 bg-white px-3 text-sm text-zinc-700 shadow-sm hover:bg-zinc-50"
+        >
+          {loading ? "Atualizando…" : "Atualizar"}
+        </button>
+      </div>
+
+      {error ? (
+        <div className="rounded-xl border border-rose-200 bg-rose-50 p-3 text-sm text-rose-700">
+          {error}
+        </div>
+      ) : null}
+
+      <div className="rounded-2xl border border-zinc-200 bg-white p-4 shadow-sm">
+        <div className="overflow-auto">
+          <table className="w-full min-w-[900px] text-sm">
+            <thead>
+              <tr className="text-left text-xs text-zinc-500">
+                <th className="border-b border-zinc-200 p-2">Programa</th>
+                <th className="border-b border-zinc-200 p-2">Janela</th>
+                <th className="border-b border-zinc-200 p-2">Regra da janela</th>
+                <th className="border-b border-zinc-200 p-2">Limite (pax)</th>
+                <th className="border-b border-zinc-200 p-2">Atual</th>
+                <th className="border-b border-zinc-200 p-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r) => {
+                const d = drafts[r.program] ?? toDraft(r);
+                const busy = savingProgram === r.program;
+
+                return (
+                  <tr key={r.program}>
+                    <td className="border-b border-zinc-100 p-2 font-medium">{r.program}</td>
+
+                    <td className="border-b border-zinc-100 p-2">
+                      <select
+                        value={d.windowType}
+                        onChange={(e) =>
+                          patchDraft(r.program, { windowType: e.target.value as WindowType })
+                        }
+                        className="h-9 rounded-xl border border-zinc-200 bg-white px-2 text-sm"
+                      >
+                        {(Object.keys(WINDOW_LABEL) as WindowType[]).map((w) => (
+                          <option key={w} value={w}>
+                            {WINDOW_LABEL[w]}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+
+                    <td className="border-b border-zinc-100 p-2">
+                      {d.windowType === "ROLLING_DAYS" ? (
+                        <label className="flex items-center gap-2 text-xs text-zinc-600">
+                          Últimos
+                          <input
+                            value={d.windowDays}
+                            onChange={(e) => patchDraft(r.program, { windowDays: e.target.value })}
+                            inputMode="numeric"
+                            className="h-9 w-20 rounded-xl border border-zinc-200 px-2 text-sm"
+                          />
+                          dias
+                        </label>
+                      ) : d.windowType === "ANNUAL_RESET" ? (
+                        <label className="flex items-center gap-2 text-xs text-zinc-600">
+                          Zera em
+                          <input
+                            value={d.resetDay}
+                            onChange={(e) => patchDraft(r.program, { resetDay: e.target.value })}
+                            inputMode="numeric"
+                            className="h-9 w-14 rounded-xl border border-zinc-200 px-2 text-sm"
+                          />
+                          /
+                          <input
+                            value={d.resetMonth}
+                            onChange={(e) => patchDraft(r.program, { resetMonth: e.target.value })}
+                            inputMode="numeric"
+                            className="h-9 w-14 rounded-xl border border-zinc-200 px-2 text-sm"
+                          />
+                        </label>
+                      ) : (
+                        <span className="text-xs text-zinc-500">Conta todas as emissões</span>
+                      )}
+                    </td>
+
+                    <td className="border-b border-zinc-100 p-2">
+                      <input
+                        value={d.paxLimit}
+                        onChange={(e) => patchDraft(r.program, { paxLimit: e.target.value })}
+                        inputMode="numeric"
+                        className="h-9 w-24 rounded-xl border border-zinc-200 px-2 text-sm"
+                      />
+                    </td>
+
+                    <td className="border-b border-zinc-100 p-2 text-xs text-zinc-600">
+                      {r.label}
+                      <span
+                        className={cn(
+                          "ml-2 rounded-full px-2 py-0.5",
+                          r.custom ? "bg-sky-100 text-sky-700" : "bg-zinc-100 text-zinc-500"
+                        )}
+                      >
+                        {r.custom ? "personalizada" : "padrão"}
+                      </span>
+                    </td>
+
+                    <td className="border-b border-zinc-100 p-2 text-right">
+                      <div className="flex justify-end gap-2">
+                        {r.custom ? (
+                          <button
+                            onClick={() => reset(r.program)}
+                            disabled={busy}
+                            className="h-9 rounded-xl border border-zinc-200 bg-white px-3 text-xs text-zinc-700 hover:bg-zinc-50 disabled:opacity-50"
+                          >
+                            Padrão
+                          </button>
+                        ) : null}
+                        <button
+                          onClick={() => save(r.program)}
+                          disabled={busy}
+                          className="h-9 rounded-xl bg-zinc-900 px-3 text-xs text-white hover:bg-zinc-800 disabled:opacity-50"
+                        >
+                          {busy ? "Salvando…" : "Salvar"}
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+
+              {!loading && rows.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="p-4 text-center text-sm text-zinc-500">
+                    Nenhum programa.
+                  </td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
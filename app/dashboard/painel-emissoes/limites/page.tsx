@@ -0,0 +1,10 @@
+// app/dashboard/painel-emissoes/limites/page.tsx
+
+import LimitesEmissaoClient from "./LimitesEmissaoClient";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export default function Page() {
+  return <LimitesEmissaoClient />;
+}
@@ -24,6 +24,8 @@ type Row = {
   finalPax: number | null;
   finalAvgMilheiroCents: number | null;
   finalRemainingPoints: number | null;
+  finalMarketMilheiroCents?: number | null; // milheiro vigente na finalização
+  finalRemainingValueCents?: number | null;
 
   finalizedAt: string | null;
   finalizedBy: { id: string; name: string; login: string } | null;
@@ -366,7 +368,15 @@ export default function PrejuizoPage() {
                     <td className="py-2 pr-3">
                       <div className="font-medium">{fmtInt(pick(r.finalSoldPoints))}</div>
                       {r.finalRemainingPoints != null ? (
-                        <div className="text-[11px] text-slate-500">Restante: {fmtInt(pick(r.finalRemainingPoints))}</div>
+                        <div className="text-[11px] text-slate-500">
+                          Restante: {fmtInt(pick(r.finalRemainingPoints))}
+                          {r.finalRemainingValueCents ? (
+                            <span title={`Milheiro vigente na finalização: ${fmtMoneyBR(pick(r.finalMarketMilheiroCents))}`}>
+                              {" "}
+                              ≈ {fmtMoneyBR(r.finalRemainingValueCents)}
+                            </span>
+                          ) : null}
+                        </div>
                       ) : (
                         <div className="text-[11px] text-slate-500">&nbsp;</div>
                       )}
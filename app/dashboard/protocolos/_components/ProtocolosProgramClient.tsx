@@ -1,9 +1,24 @@
 "use client";
 
+import Link from "next/link";
 import { useEffect, useMemo, useState } from "react";
 
 type Program = "LATAM" | "SMILES" | "LIVELO" | "ESFERA";
 type ProtocolStatus = "DRAFT" | "SENT" | "WAITING" | "RESOLVED" | "DENIED";
+type ProtocolChannel = "SAC" | "RECLAME_AQUI" | "CONSUMIDOR_GOV";
+
+const CHANNEL_LABEL: Record<ProtocolChannel, string> = {
+  SAC: "SAC da CIA",
+  RECLAME_AQUI: "Reclame Aqui",
+  CONSUMIDOR_GOV: "Consumidor.gov",
+};
+
+const PROGRAM_LABEL: Record<Program, string> = {
+  LATAM: "LATAM",
+  SMILES: "Smiles",
+  LIVELO: "Livelo",
+  ESFERA: "Esfera",
+};
 
 type CedenteMini = {
   id: string;
@@ -23,16 +38,95 @@ type ProtocolRow = {
   createdAt: string;
   updatedAt: string;
 
+  // ✅ acompanhamento
+  externalNumber: string | null;
+  channel: ProtocolChannel | null;
+  sentAt: string | null;
+  dueAt: string | null;
+  closedAt: string | null;
+  escalatedAt: string | null;
+  escalatedFromId: string | null;
+  overdue?: boolean;
+  _count?: { attachments: number };
+
   // ✅ para lista “abertos” (sem cedente selecionado)
   cedente?: { id: string; identificador: string; nomeCompleto: string } | null;
 };
 
+type ProtocolLink = {
+  id: string;
+  title: string | null;
+  channel: ProtocolChannel | null;
+  externalNumber: string | null;
+  status: ProtocolStatus;
+};
+
+type ProtocolDetail = ProtocolRow & {
+  nextChannel: ProtocolChannel | null;
+  statusLogs: Array<{
+    id: string;
+    fromStatus: ProtocolStatus | null;
+    toStatus: ProtocolStatus;
+    note: string | null;
+    createdAt: string;
+    changedBy: { id: string; name: string } | null;
+  }>;
+  attachments: Array<{
+    id: string;
+    fileName: string;
+    contentType: string;
+    sizeBytes: number;
+    createdAt: string;
+    uploadedBy: { id: string; name: string } | null;
+  }>;
+  escalatedFrom: ProtocolLink | null;
+  escalations: ProtocolLink[];
+};
+
+type OverdueRow = {
+  id: string;
+  program: Program;
+  status: ProtocolStatus;
+  title: string | null;
+  externalNumber: string | null;
+  dueAt: string;
+  daysOverdue: number;
+  channelLabel: string;
+  nextChannelLabel: string | null;
+  cedente: { id: string; identificador: string; nomeCompleto: string };
+};
+
 function fmtDate(iso: string) {
   if (!iso) return "";
   const d = new Date(iso);
   return d.toLocaleDateString("pt-BR") + " " + d.toLocaleTimeString("pt-BR").slice(0, 5);
 }
 
+function fmtDay(iso: string | null) {
+  return iso ? new Date(iso).toLocaleDateString("pt-BR") : "";
+}
+
+// ISO → valor do <input type="date"> (dia local)
+function toDateInput(iso: string | null) {
+  if (!iso) return "";
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+function fmtSize(bytes: number) {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+const STATUS_LABEL: Record<ProtocolStatus, string> = {
+  DRAFT: "Rascunho",
+  SENT: "Enviado",
+  WAITING: "Aguardando",
+  RESOLVED: "Resolvido",
+  DENIED: "Negado",
+};
+
 function StatusBadge({ status }: { status: ProtocolStatus }) {
   const meta = {
     DRAFT: { label: "Rascunho", cls: "bg-slate-100 text-slate-700 border-slate-200" },
@@ -68,7 +162,22 @@ async function jpost<T>(url: string, body: any): Promise<T> {
   return json as T;
 }
 
-async function jpatch<T>(url: string, body: any): Promise<T> {
+async function jdelete(url: string) {
+  const res = await fetch(url, { method: "DELETE", cache: "no-store" });
+  const json = await res.json().catch(() => null);
+  if (!res.ok || !json?.ok) throw new Error(json?.error || "Falha");
+}
+
+async function jupload<T>(url: string, file: File): Promise<T> {
+  const form = new FormData();
+  form.append("file", file);
+  const res = await fetch(url, { method: "POST", body: form, cache: "no-store" });
+  const json = await res.json().catch(() => null);
+  if (!res.ok || !json?.ok) throw new Error(json?.error || "Falha");
+  return json as T;
+}
+
+async function jpatch<T>(url: string, body: unknown): Promise<T> {
   const res = await fetch(url, {
     method: "PATCH",
     headers: { "Content-Type": "application/json" },
@@ -89,12 +198,20 @@ export default function ProtocolosProgramClient({ program }: { program: Program
   const [loadingProtocols, setLoadingProtocols] = useState(false);
 
   const [selectedId, setSelectedId] = useState<string>("");
-  const [selected, setSelected] = useState<ProtocolRow | null>(null);
+  const [selected, setSelected] = useState<ProtocolDetail | null>(null);
 
   const [editorTitle, setEditorTitle] = useState("");
   const [editorStatus, setEditorStatus] = useState<ProtocolStatus>("DRAFT");
   const [editorComplaint, setEditorComplaint] = useState("");
   const [editorResponse, setEditorResponse] = useState("");
+  const [editorExternalNumber, setEditorExternalNumber] = useState("");
+  const [editorChannel, setEditorChannel] = useState<ProtocolChannel | "">("");
+  const [editorDueAt, setEditorDueAt] = useState("");
+  const [editorStatusNote, setEditorStatusNote] = useState("");
+  const [uploading, setUploading] = useState(false);
+
+  // ✅ atrasados de todos os programas (aviso no topo)
+  const [overdue, setOverdue] = useState<OverdueRow[]>([]);
 
   const [saving, setSaving] = useState(false);
   const [toast, setToast] = useState<{ kind: "ok" | "err"; msg: string } | null>(null);
@@ -146,18 +263,36 @@ export default function ProtocolosProgramClient({ program }: { program: Program
   }
 
   async function loadSelectedProtocol(id: string) {
-    const data = await jget<{ ok: true; row: ProtocolRow }>(`/api/protocolos/${id}`);
+    const data = await jget<{ ok: true; row: ProtocolDetail }>(`/api/protocolos/${id}`);
     setSelected(data.row);
     setEditorTitle(data.row.title || "");
     setEditorStatus(data.row.status || "DRAFT");
     setEditorComplaint(data.row.complaint || "");
     setEditorResponse(data.row.response || "");
+    setEditorExternalNumber(data.row.externalNumber || "");
+    setEditorChannel(data.row.channel || "");
+    setEditorDueAt(toDateInput(data.row.dueAt));
+    setEditorStatusNote("");
+  }
+
+  async function loadOverdue() {
+    const data = await jget<{ ok: true; rows: OverdueRow[] }>("/api/protocolos/atrasados");
+    setOverdue(data.rows || []);
+  }
+
+  async function reloadList() {
+    if (selectedCedenteId) {
+      await loadProtocolsByCedente(selectedCedenteId);
+    } else {
+      await loadOpenProtocols();
+    }
   }
 
   // ✅ bootstrap
   useEffect(() => {
     loadCedentes().catch((e) => showErr(e?.message || "Falha ao carregar cedentes"));
     loadOpenProtocols().catch((e) => showErr(e?.message || "Falha ao carregar protocolos abertos"));
+    loadOverdue().catch((e) => showErr(e?.message || "Falha ao carregar atrasados"));
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [program]);
 
@@ -169,6 +304,10 @@ export default function ProtocolosProgramClient({ program }: { program: Program
     setEditorStatus("DRAFT");
     setEditorComplaint("");
     setEditorResponse("");
+    setEditorExternalNumber("");
+    setEditorChannel("");
+    setEditorDueAt("");
+    setEditorStatusNote("");
 
     if (!selectedCedenteId) {
       loadOpenProtocols().catch((e) => showErr(e?.message || "Falha ao carregar abertos"));
@@ -212,18 +351,20 @@ export default function ProtocolosProgramClient({ program }: { program: Program
       await jpatch<{ ok: true; row: any }>(`/api/protocolos/${selectedId}`, {
         title: editorTitle,
         status: editorStatus,
+        statusNote: editorStatusNote,
         complaint: editorComplaint,
         response: editorResponse,
+        externalNumber: editorExternalNumber,
+        channel: editorChannel,
+        // ✅ só manda o prazo se mudou (senão o padrão calculado no envio é mantido)
+        ...(editorDueAt !== toDateInput(selected?.dueAt ?? null) ? { dueAt: editorDueAt } : {}),
       });
 
       showOk("Salvo.");
       // ✅ atualiza lista atual
-      if (selectedCedenteId) {
-        await loadProtocolsByCedente(selectedCedenteId);
-      } else {
-        await loadOpenProtocols();
-      }
+      await reloadList();
       await loadSelectedProtocol(selectedId);
+      await loadOverdue();
     } catch (e: any) {
       showErr(e?.message || "Falha ao salvar");
     } finally {
@@ -231,6 +372,60 @@ export default function ProtocolosProgramClient({ program }: { program: Program
     }
   }
 
+  async function escalate(id: string) {
+    setSaving(true);
+    try {
+      const data = await jpost<{ ok: true; row: { id: string; channel: ProtocolChannel } }>(
+        `/api/protocolos/${id}/escalar`,
+        {}
+      );
+      showOk(`Escalonado para ${CHANNEL_LABEL[data.row.channel]}: novo protocolo em rascunho.`);
+      await Promise.all([reloadList(), loadOverdue()]);
+      setSelectedId(data.row.id);
+      await loadSelectedProtocol(data.row.id);
+    } catch (e) {
+      showErr(e instanceof Error ? e.message : "Falha ao escalonar");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function uploadAttachment(file: File) {
+    if (!selectedId) return;
+    setUploading(true);
+    try {
+      await jupload(`/api/protocolos/${selectedId}/anexos`, file);
+      showOk("Anexo enviado.");
+      await loadSelectedProtocol(selectedId);
+      await reloadList();
+    } catch (e) {
+      showErr(e instanceof Error ? e.message : "Falha ao enviar anexo");
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  async function removeAttachment(anexoId: string) {
+    if (!selectedId || !confirm("Remover este anexo?")) return;
+    try {
+      await jdelete(`/api/protocolos/${selectedId}/anexos/${anexoId}`);
+      showOk("Anexo removido.");
+      await loadSelectedProtocol(selectedId);
+      await reloadList();
+    } catch (e) {
+      showErr(e instanceof Error ? e.message : "Falha ao remover anexo");
+    }
+  }
+
+  async function openProtocol(id: string) {
+    setSelectedId(id);
+    try {
+      await loadSelectedProtocol(id);
+    } catch (e) {
+      showErr(e instanceof Error ? e.message : "Falha ao abrir protocolo");
+    }
+  }
+
   return (
     <div className="space-y-4">
       {toast ? (
@@ -245,6 +440,64 @@ export default function ProtocolosProgramClient({ program }: { program: Program
         </div>
       ) : null}
 
+      {overdue.length ? (
+        <div className="rounded-lg border border-rose-200 bg-rose-50 p-4">
+          <div className="text-sm font-medium text-rose-900">
+            Prazo vencido — escalonar ({overdue.length})
+          </div>
+          <div className="mt-1 text-xs text-rose-800">
+            Enviados/aguardando sem resposta da CIA no prazo, de todos os programas.
+          </div>
+          <div className="mt-3 space-y-1.5">
+            {overdue.map((o) => (
+              <div key={o.id} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                <div className="min-w-0 text-rose-900">
+                  <span className="font-medium">{PROGRAM_LABEL[o.program]}</span>
+                  {" • "}
+                  {o.cedente.nomeCompleto} ({o.cedente.identificador})
+                  {" • "}
+                  {o.title || "(sem título)"}
+                  {o.externalNumber ? ` • nº ${o.externalNumber}` : ""}
+                  <span className="text-xs text-rose-700">
+                    {" "}
+                    — {o.channelLabel}, prazo {fmtDay(o.dueAt)} ({o.daysOverdue}d)
+                  </span>
+                </div>
+
+                {o.program === program ? (
+                  <div className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      className="rounded-md border border-rose-300 bg-white px-2 py-1 text-xs hover:bg-rose-100"
+                      onClick={() => openProtocol(o.id)}
+                    >
+                      Abrir
+                    </button>
+                    {o.nextChannelLabel ? (
+                      <button
+                        type="button"
+                        className="rounded-md bg-rose-700 px-2 py-1 text-xs text-white hover:bg-rose-800 disabled:opacity-60"
+                        disabled={saving}
+                        onClick={() => escalate(o.id)}
+                      >
+                        Escalonar → {o.nextChannelLabel}
+                      </button>
+                    ) : null}
+                  </div>
+                ) : (
+                  <Link
+                    href={`/dashboard/protocolos/${o.program.toLowerCase()}`}
+                    className="rounded-md border border-rose-300 bg-white px-2 py-1 text-xs hover:bg-rose-100"
+                  >
+                    Ir para {PROGRAM_LABEL[o.program]}
+                  </Link>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : null}
+
       <div className="rounded-lg border bg-white p-4">
         <div className="text-sm font-medium text-slate-900 mb-2">Selecionar cedente</div>
         <select
@@ -314,14 +567,7 @@ export default function ProtocolosProgramClient({ program }: { program: Program
                     <button
                       key={row.id}
                       type="button"
-                      onClick={async () => {
-                        setSelectedId(row.id);
-                        try {
-                          await loadSelectedProtocol(row.id);
-                        } catch (e: any) {
-                          showErr(e?.message || "Falha ao abrir protocolo");
-                        }
-                      }}
+                      onClick={() => openProtocol(row.id)}
                       className={`w-full rounded-md border p-3 text-left hover:bg-slate-50 ${
                         active ? "border-slate-900" : "border-slate-200"
                       }`}
@@ -342,9 +588,30 @@ export default function ProtocolosProgramClient({ program }: { program: Program
                             {" • "}
                             {fmtDate(row.updatedAt || row.createdAt)}
                           </div>
+
+                          {row.channel || row.externalNumber || row.dueAt ? (
+                            <div className="mt-1 text-xs text-slate-500">
+                              {[
+                                row.channel ? CHANNEL_LABEL[row.channel] : null,
+                                row.externalNumber ? `nº ${row.externalNumber}` : null,
+                                row.dueAt && !row.closedAt ? `prazo ${fmtDay(row.dueAt)}` : null,
+                                row._count?.attachments ? `${row._count.attachments} anexo(s)` : null,
+                                row.escalatedAt ? "escalonado" : null,
+                              ]
+                                .filter(Boolean)
+                                .join(" • ")}
+                            </div>
+                          ) : null}
                         </div>
 
-                        <StatusBadge status={row.status} />
+                        <div className="flex flex-col items-end gap-1">
+                          <StatusBadge status={row.status} />
+                          {row.overdue ? (
+                            <span className="inline-flex items-center rounded-full border border-rose-200 bg-rose-50 px-2 py-0.5 text-xs text-rose-700">
+                              Atrasado
+                            </span>
+                          ) : null}
+                        </div>
                       </div>
                     </button>
                   );
@@ -396,6 +663,56 @@ export default function ProtocolosProgramClient({ program }: { program: Program
                     <option value="RESOLVED">Resolvido</option>
                     <option value="DENIED">Negado</option>
                   </select>
+                  {selected && editorStatus !== selected.status ? (
+                    <input
+                      className="mt-2 w-full rounded-md border px-3 py-2 text-sm"
+                      value={editorStatusNote}
+                      onChange={(e) => setEditorStatusNote(e.target.value)}
+                      maxLength={300}
+                      placeholder="Observação da mudança de status (opcional)"
+                    />
+                  ) : null}
+                </div>
+
+                <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+                  <div>
+                    <label className="block text-xs font-medium text-slate-700 mb-1">Nº do protocolo na CIA</label>
+                    <input
+                      className="w-full rounded-md border px-3 py-2 text-sm"
+                      value={editorExternalNumber}
+                      onChange={(e) => setEditorExternalNumber(e.target.value)}
+                      maxLength={60}
+                      placeholder="Ex.: 123456789"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-slate-700 mb-1">Canal</label>
+                    <select
+                      className="w-full rounded-md border px-3 py-2 text-sm"
+                      value={editorChannel}
+                      onChange={(e) => setEditorChannel(e.target.value as ProtocolChannel | "")}
+                    >
+                      <option value="">—</option>
+                      {(Object.keys(CHANNEL_LABEL) as ProtocolChannel[]).map((c) => (
+                        <option key={c} value={c}>
+                          {CHANNEL_LABEL[c]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-slate-700 mb-1">Prazo de resposta</label>
+                    <input
+                      type="date"
+                      className="w-full rounded-md border px-3 py-2 text-sm"
+                      value={editorDueAt}
+                      onChange={(e) => setEditorDueAt(e.target.value)}
+                    />
+                  </div>
+                </div>
+                <div className="-mt-1 text-xs text-slate-500">
+                  Sem prazo informado, ao marcar como Enviado vale o padrão do canal (SAC 5 dias, Reclame Aqui e
+                  Consumidor.gov 10 dias).
                 </div>
 
                 <div>
@@ -427,9 +744,145 @@ export default function ProtocolosProgramClient({ program }: { program: Program
                 </div>
 
                 {selected ? (
-                  <div className="pt-2 text-xs text-slate-500">
-                    Criado em {fmtDate(selected.createdAt)} • Atualizado em {fmtDate(selected.updatedAt)}
-                  </div>
+                  <>
+                    {/* ✅ escalonamento */}
+                    <div className="rounded-md border p-3">
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="text-xs font-medium text-slate-700">Escalonamento</div>
+                        {selected.nextChannel &&
+                        (selected.status === "SENT" || selected.status === "WAITING") &&
+                        !selected.escalatedAt ? (
+                          <button
+                            type="button"
+                            className={`rounded-md px-2 py-1 text-xs disabled:opacity-60 ${
+                              selected.overdue
+                                ? "bg-rose-700 text-white hover:bg-rose-800"
+                                : "border hover:bg-slate-50"
+                            }`}
+                            disabled={saving}
+                            onClick={() => escalate(selected.id)}
+                          >
+                            Escalonar → {CHANNEL_LABEL[selected.nextChannel]}
+                          </button>
+                        ) : null}
+                      </div>
+                      <div className="mt-2 space-y-1 text-xs text-slate-600">
+                        {selected.overdue ? (
+                          <div className="text-rose-700">
+                            Prazo vencido em {fmtDay(selected.dueAt)} sem resposta da CIA.
+                          </div>
+                        ) : null}
+                        {selected.escalatedFrom ? (
+                          <div>
+                            Veio de:{" "}
+                            <button
+                              type="button"
+                              className="underline"
+                              onClick={() => openProtocol(selected.escalatedFrom!.id)}
+                            >
+                              {selected.escalatedFrom.title || "(sem título)"}
+                            </button>{" "}
+                            ({selected.escalatedFrom.channel ? CHANNEL_LABEL[selected.escalatedFrom.channel] : "sem canal"}
+                            {selected.escalatedFrom.externalNumber ? `, nº ${selected.escalatedFrom.externalNumber}` : ""})
+                          </div>
+                        ) : null}
+                        {selected.escalations.map((x) => (
+                          <div key={x.id}>
+                            Escalonado em {fmtDay(selected.escalatedAt)} para:{" "}
+                            <button type="button" className="underline" onClick={() => openProtocol(x.id)}>
+                              {x.title || "(sem título)"}
+                            </button>{" "}
+                            ({x.channel ? CHANNEL_LABEL[x.channel] : "sem canal"} • {STATUS_LABEL[x.status]})
+                          </div>
+                        ))}
+                        {!selected.overdue && !selected.escalatedFrom && !selected.escalations.length ? (
+                          <div className="text-slate-500">
+                            {selected.dueAt && !selected.closedAt
+                              ? `Prazo da CIA: ${fmtDay(selected.dueAt)}.`
+                              : "Sem prazo em aberto."}
+                          </div>
+                        ) : null}
+                      </div>
+                    </div>
+
+                    {/* ✅ anexos */}
+                    <div className="rounded-md border p-3">
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="text-xs font-medium text-slate-700">
+                          Anexos ({selected.attachments.length})
+                        </div>
+                        <label className="cursor-pointer rounded-md border px-2 py-1 text-xs hover:bg-slate-50">
+                          {uploading ? "Enviando..." : "Anexar print/PDF"}
+                          <input
+                            type="file"
+                            className="hidden"
+                            accept="application/pdf,image/png,image/jpeg,image/webp,image/gif"
+                            disabled={uploading}
+                            onChange={(e) => {
+                              const f = e.target.files?.[0];
+                              e.target.value = "";
+                              if (f) uploadAttachment(f);
+                            }}
+                          />
+                        </label>
+                      </div>
+                      {selected.attachments.length ? (
+                        <div className="mt-2 space-y-1">
+                          {selected.attachments.map((a) => (
+                            <div key={a.id} className="flex items-center justify-between gap-2 text-xs">
+                              <a
+                                href={`/api/protocolos/${selected.id}/anexos/${a.id}`}
+                                target="_blank"
+                                rel="noreferrer"
+                                className="min-w-0 truncate text-slate-800 underline"
+                              >
+                                {a.fileName}
+                              </a>
+                              <span className="shrink-0 text-slate-500">
+                                {fmtSize(a.sizeBytes)} • {fmtDate(a.createdAt)}
+                                {a.uploadedBy ? ` • ${a.uploadedBy.name}` : ""}
+                                <button
+                                  type="button"
+                                  className="ml-2 text-rose-700 hover:underline"
+                                  onClick={() => removeAttachment(a.id)}
+                                >
+                                  remover
+                                </button>
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <div className="mt-2 text-xs text-slate-500">Nenhum anexo (PDF ou imagem, até 8 MB).</div>
+                      )}
+                    </div>
+
+                    {/* ✅ histórico de status */}
+                    <div className="rounded-md border p-3">
+                      <div className="text-xs font-medium text-slate-700">Histórico de status</div>
+                      {selected.statusLogs.length ? (
+                        <div className="mt-2 space-y-1 text-xs text-slate-600">
+                          {selected.statusLogs.map((l) => (
+                            <div key={l.id}>
+                              {fmtDate(l.createdAt)} •{" "}
+                              {l.fromStatus ? `${STATUS_LABEL[l.fromStatus]} → ` : "Criado como "}
+                              <span className="font-medium">{STATUS_LABEL[l.toStatus]}</span>
+                              {l.changedBy ? ` • ${l.changedBy.name}` : ""}
+                              {l.note ? <span className="text-slate-500"> — {l.note}</span> : null}
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <div className="mt-2 text-xs text-slate-500">Sem transições registradas.</div>
+                      )}
+                    </div>
+
+                    <div className="pt-2 text-xs text-slate-500">
+                      Criado em {fmtDate(selected.createdAt)} • Atualizado em {fmtDate(selected.updatedAt)}
+                      {selected.sentAt ? ` • Enviado em ${fmtDate(selected.sentAt)}` : ""}
+                      {selected.closedAt ? ` • Encerrado em ${fmtDate(selected.closedAt)}` : ""}
+                    </div>
+                  </>
                 ) : null}
               </div>
             </div>
@@ -9,6 +9,18 @@ type Receipt = {
   receivedAt: string;
 };
 
+type InstallmentStatus = "OPEN" | "PARTIAL" | "PAID" | "CANCELED";
+
+type Installment = {
+  id: string;
+  number: number;
+  dueDate: string;
+  amountCents: number;
+  paidCents: number;
+  status: InstallmentStatus;
+  paidAt?: string | null;
+};
+
 type Receivable = {
   id: string;
   title: string;
@@ -19,8 +31,43 @@ type Receivable = {
   status: "OPEN" | "RECEIVED" | "CANCELED";
   createdAt: string;
   receipts: Receipt[];
+  installments: Installment[];
+  sale?: { id: string; numero: string; cliente: { id: string; nome: string } } | null;
 };
 
+type AgingBucket = "current" | "d0_30" | "d31_60" | "d60p";
+type AgingAmounts = Record<AgingBucket, number> & { totalCents: number; overdueCents: number };
+type AgingRow = AgingAmounts & { clienteId: string | null; nome: string; installments: number };
+
+type OverdueItem = {
+  id: string;
+  receivableId: string;
+  number: number;
+  count: number;
+  dueDate: string;
+  openCents: number;
+  daysOverdue: number;
+  lastReminderAt: string | null;
+  title: string;
+  sale: { id: string; numero: string } | null;
+  cliente: { id: string; nome: string; telefone: string | null } | null;
+  whatsappUrl: string | null;
+};
+
+const INSTALLMENT_STATUS_LABEL: Record<InstallmentStatus, string> = {
+  OPEN: "Em aberto",
+  PARTIAL: "Parcial",
+  PAID: "Paga",
+  CANCELED: "Cancelada",
+};
+
+const AGING_COLUMNS: [AgingBucket, string][] = [
+  ["current", "A vencer"],
+  ["d0_30", "0-30 dias"],
+  ["d31_60", "31-60 dias"],
+  ["d60p", "60+ dias"],
+];
+
 function fmtMoney(cents: number) {
   return ((cents || 0) / 100).toLocaleString("pt-BR", {
     style: "currency",
@@ -33,6 +80,15 @@ function dateTimeBR(iso: string) {
   return d.toLocaleString("pt-BR");
 }
 
+function dateBR(iso: string) {
+  const [y, m, d] = iso.slice(0, 10).split("-");
+  return `${d}/${m}/${y}`;
+}
+
+function dueDateBR(iso: string) {
+  return new Intl.DateTimeFormat("pt-BR", { timeZone: "America/Recife" }).format(new Date(iso));
+}
+
 function toCentsFromInput(s: string) {
   const cleaned = (s || "").trim();
   if (!cleaned) return 0;
@@ -48,6 +104,14 @@ export default function RecebimentosClient() {
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
   const [total, setTotal] = useState("");
+  const [installments, setInstallments] = useState("1");
+  const [firstDueDate, setFirstDueDate] = useState("");
+
+  const [aging, setAging] = useState<{ rows: AgingRow[]; totals: AgingAmounts } | null>(null);
+  const [overdue, setOverdue] = useState<OverdueItem[]>([]);
+
+  const [planCount, setPlanCount] = useState<Record<string, string>>({});
+  const [planFirstDue, setPlanFirstDue] = useState<Record<string, string>>({});
 
   const [rcvAmount, setRcvAmount] = useState<Record<string, string>>({});
   const [rcvNote, setRcvNote] = useState<Record<string, string>>({});
@@ -55,10 +119,18 @@ export default function RecebimentosClient() {
   async function load() {
     setLoading(true);
     try {
-      const r = await fetch("/api/recebimentos", { cache: "no-store" });
+      const [r, a] = await Promise.all([
+        fetch("/api/recebimentos", { cache: "no-store" }),
+        fetch("/api/recebimentos/aging", { cache: "no-store" }),
+      ]);
       const j = await r.json();
       if (!j?.ok) throw new Error(j?.error || "Erro ao carregar recebimentos");
       setReceivables(j.data || []);
+
+      const ja = await a.json();
+      if (!ja?.ok) throw new Error(ja?.error || "Erro ao carregar aging");
+      setAging(ja.aging || null);
+      setOverdue(ja.overdue || []);
     } catch (e: any) {
       alert(e.message);
     } finally {
@@ -87,13 +159,21 @@ export default function RecebimentosClient() {
       const r = await fetch("/api/recebimentos", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ title, description, total }),
+        body: JSON.stringify({
+          title,
+          description,
+          total,
+          installments: Number(installments) || 1,
+          firstDueDate: firstDueDate || undefined,
+        }),
       });
       const j = await r.json();
       if (!j?.ok) throw new Error(j?.error || "Erro ao criar recebimento");
       setTitle("");
       setDescription("");
       setTotal("");
+      setInstallments("1");
+      setFirstDueDate("");
       await load();
     } catch (e: any) {
       alert(e.message);
@@ -128,6 +208,43 @@ export default function RecebimentosClient() {
     }
   }
 
+  async function savePlan(d: Receivable) {
+    const count = Number(planCount[d.id] || d.installments.length || 1);
+    if (!Number.isInteger(count) || count < 1) return alert("Número de parcelas inválido.");
+    const first = planFirstDue[d.id] || "";
+    if (!confirm(`Refazer o plano de ${d.title} em ${count} parcela(s)? Os recebimentos serão realocados.`)) return;
+
+    setLoading(true);
+    try {
+      const r = await fetch(`/api/recebimentos/${d.id}/parcelas`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ installments: count, firstDueDate: first || undefined }),
+      });
+      const j = await r.json();
+      if (!j?.ok) throw new Error(j?.error || "Erro ao salvar parcelas");
+      await load();
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "Erro ao salvar parcelas");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // abre o WhatsApp (link) e registra a cobrança sem travar a tela
+  async function markReminder(item: OverdueItem) {
+    try {
+      const r = await fetch(`/api/recebimentos/parcelas/${item.id}/lembrete`, { method: "POST" });
+      const j = await r.json();
+      if (!j?.ok) throw new Error(j?.error || "Erro ao registrar cobrança");
+      setOverdue((prev) =>
+        prev.map((o) => (o.id === item.id ? { ...o, lastReminderAt: j.data.lastReminderAt } : o))
+      );
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "Erro ao registrar cobrança");
+    }
+  }
+
   return (
     <div className="space-y-6">
       <div className="flex items-start justify-between gap-3">
@@ -162,11 +279,117 @@ export default function RecebimentosClient() {
         </div>
       </div>
 
+      {/* Aging por cliente */}
+      {aging && aging.rows.length > 0 ? (
+        <div className="rounded-2xl border bg-white p-4 space-y-3">
+          <div className="font-semibold">Aging por cliente</div>
+          <div className="overflow-auto rounded-xl border">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-3 py-2 text-left">Cliente</th>
+                  {AGING_COLUMNS.map(([k, label]) => (
+                    <th key={k} className="px-3 py-2 text-right">
+                      {label}
+                    </th>
+                  ))}
+                  <th className="px-3 py-2 text-right">Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {aging.rows.map((row) => (
+                  <tr key={row.clienteId ?? "avulso"} className="border-t">
+                    <td className="px-3 py-2">
+                      {row.nome} <span className="text-xs text-slate-500">({row.installments} parcela(s))</span>
+                    </td>
+                    {AGING_COLUMNS.map(([k]) => (
+                      <td
+                        key={k}
+                        className={`px-3 py-2 text-right tabular-nums ${
+                          k !== "current" && row[k] > 0 ? "text-rose-700" : ""
+                        }`}
+                      >
+                        {row[k] ? fmtMoney(row[k]) : "-"}
+                      </td>
+                    ))}
+                    <td className="px-3 py-2 text-right font-semibold tabular-nums">{fmtMoney(row.totalCents)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="bg-slate-50 font-semibold">
+                <tr className="border-t">
+                  <td className="px-3 py-2">Total</td>
+                  {AGING_COLUMNS.map(([k]) => (
+                    <td key={k} className="px-3 py-2 text-right tabular-nums">
+                      {fmtMoney(aging.totals[k])}
+                    </td>
+                  ))}
+                  <td className="px-3 py-2 text-right tabular-nums">{fmtMoney(aging.totals.totalCents)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        </div>
+      ) : null}
+
+      {/* Parcelas vencidas */}
+      {overdue.length > 0 ? (
+        <div className="rounded-2xl border border-rose-200 bg-white p-4 space-y-3">
+          <div className="font-semibold">Parcelas vencidas ({overdue.length})</div>
+          <div className="overflow-auto rounded-xl border">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-3 py-2 text-left">Cliente</th>
+                  <th className="px-3 py-2 text-left">Referência</th>
+                  <th className="px-3 py-2 text-left">Vencimento</th>
+                  <th className="px-3 py-2 text-right">Em aberto</th>
+                  <th className="px-3 py-2 text-right">Cobrança</th>
+                </tr>
+              </thead>
+              <tbody>
+                {overdue.map((o) => (
+                  <tr key={o.id} className="border-t">
+                    <td className="px-3 py-2">{o.cliente?.nome || "-"}</td>
+                    <td className="px-3 py-2">
+                      {o.sale ? `Venda ${o.sale.numero}` : o.title}
+                      {o.count > 1 ? ` • parcela ${o.number}/${o.count}` : ""}
+                    </td>
+                    <td className="px-3 py-2">
+                      {dateBR(o.dueDate)} <span className="text-xs text-rose-700">({o.daysOverdue} dia(s))</span>
+                    </td>
+                    <td className="px-3 py-2 text-right tabular-nums">{fmtMoney(o.openCents)}</td>
+                    <td className="px-3 py-2 text-right">
+                      {o.whatsappUrl ? (
+                        <a
+                          href={o.whatsappUrl}
+                          target="_blank"
+                          rel="noreferrer"
+                          onClick={() => markReminder(o)}
+                          className="rounded-xl bg-emerald-600 px-3 py-1.5 text-xs text-white hover:bg-emerald-700"
+                        >
+                          Cobrar no WhatsApp
+                        </a>
+                      ) : (
+                        <span className="text-xs text-slate-500">sem telefone</span>
+                      )}
+                      {o.lastReminderAt ? (
+                        <div className="mt-1 text-xs text-slate-500">Cobrado em {dateTimeBR(o.lastReminderAt)}</div>
+                      ) : null}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : null}
+
       {/* Criar recebível */}
       <div className="rounded-2xl border bg-white p-4 space-y-3">
         <div className="font-semibold">Adicionar recebimento (a receber)</div>
 
-        <div className="grid gap-3 md:grid-cols-3">
+        <div className="grid gap-3 md:grid-cols-5">
           <div className="space-y-1">
             <div className="text-xs text-slate-600">Descrição (título)</div>
             <input
@@ -193,7 +416,28 @@ export default function RecebimentosClient() {
               className="w-full rounded-xl border px-3 py-2 text-sm"
               value={description}
               onChange={(e) => setDescription(e.target.value)}
-              placeholder="Ex: parcela 2/5, canal, observações..."
+              placeholder="Ex: canal, observações..."
+            />
+          </div>
+
+          <div className="space-y-1">
+            <div className="text-xs text-slate-600">Parcelas</div>
+            <input
+              type="number"
+              min={1}
+              className="w-full rounded-xl border px-3 py-2 text-sm"
+              value={installments}
+              onChange={(e) => setInstallments(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <div className="text-xs text-slate-600">1º vencimento (padrão: hoje)</div>
+            <input
+              type="date"
+              className="w-full rounded-xl border px-3 py-2 text-sm"
+              value={firstDueDate}
+              onChange={(e) => setFirstDueDate(e.target.value)}
             />
           </div>
         </div>
@@ -227,6 +471,7 @@ export default function RecebimentosClient() {
                     </span>
                   </div>
 
+                  {d.sale ? <div className="text-sm text-slate-600">Cliente: {d.sale.cliente.nome}</div> : null}
                   {d.description ? <div className="text-sm text-slate-600">{d.description}</div> : null}
                   <div className="text-xs text-slate-500">Criado em {dateTimeBR(d.createdAt)}</div>
                 </div>
@@ -281,6 +526,72 @@ export default function RecebimentosClient() {
                 </div>
               )}
 
+              {/* Parcelas */}
+              <div className="space-y-2">
+                <div className="text-sm font-semibold">Parcelas</div>
+                {d.installments.length === 0 ? (
+                  <div className="text-sm text-slate-600">Sem plano de parcelas.</div>
+                ) : (
+                  <div className="max-h-56 overflow-auto rounded-xl border">
+                    <table className="w-full text-sm">
+                      <thead className="sticky top-0 bg-slate-50">
+                        <tr>
+                          <th className="px-3 py-2 text-left">Nº</th>
+                          <th className="px-3 py-2 text-left">Vencimento</th>
+                          <th className="px-3 py-2 text-right">Valor</th>
+                          <th className="px-3 py-2 text-right">Pago</th>
+                          <th className="px-3 py-2 text-left">Status</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {d.installments.map((i) => (
+                          <tr key={i.id} className="border-t">
+                            <td className="px-3 py-2">
+                              {i.number}/{d.installments.length}
+                            </td>
+                            <td className="px-3 py-2">{dueDateBR(i.dueDate)}</td>
+                            <td className="px-3 py-2 text-right">{fmtMoney(i.amountCents)}</td>
+                            <td className="px-3 py-2 text-right">{fmtMoney(i.paidCents)}</td>
+                            <td className="px-3 py-2">{INSTALLMENT_STATUS_LABEL[i.status]}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                {d.status === "OPEN" && (
+                  <div className="flex flex-wrap items-end gap-2">
+                    <div className="space-y-1">
+                      <div className="text-xs text-slate-600">Parcelas</div>
+                      <input
+                        type="number"
+                        min={1}
+                        className="w-24 rounded-xl border px-3 py-2 text-sm"
+                        value={planCount[d.id] ?? String(d.installments.length || 1)}
+                        onChange={(e) => setPlanCount((prev) => ({ ...prev, [d.id]: e.target.value }))}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <div className="text-xs text-slate-600">1º vencimento</div>
+                      <input
+                        type="date"
+                        className="rounded-xl border px-3 py-2 text-sm"
+                        value={planFirstDue[d.id] ?? ""}
+                        onChange={(e) => setPlanFirstDue((prev) => ({ ...prev, [d.id]: e.target.value }))}
+                      />
+                    </div>
+                    <button
+                      onClick={() => savePlan(d)}
+                      className="rounded-xl border px-4 py-2 text-sm hover:bg-slate-50"
+                      disabled={loading}
+                    >
+                      Refazer parcelas
+                    </button>
+                  </div>
+                )}
+              </div>
+
               {/* History */}
               <div className="space-y-2">
                 <div className="text-sm font-semibold">Histórico</div>
@@ -1,5 +1,6 @@
 "use client";
 
+import Link from "next/link";
 import { useEffect, useMemo, useState } from "react";
 
 type Points = {
@@ -14,12 +15,17 @@ type Points = {
   flyingBlue: number;
 };
 
+// ✅ lotes de custo por programa (pontos com lote + custo restante)
+type StockLot = { lotPoints: number; costCents: number };
+type StockLots = Record<keyof Points, StockLot>;
+
 type Snapshot = {
   id: string;
   date: string;
   totalBruto: number;
   totalDividas: number;
   totalLiquido: number;
+  ratesCents?: { latamRateCents: number; smilesRateCents: number } | null; // milheiro do dia
 };
 
 type ReceberStatus = "OPEN" | "PARTIAL" | "PAID" | "CANCELED";
@@ -43,6 +49,11 @@ function fmtMoneyBR(cents: number) {
   const v = (cents || 0) / 100;
   return v.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
 }
+/** Estoque: custo dos lotes + pontos sem lote no milheiro (milheiros inteiros). */
+function stockValueCents(points: number, lot: StockLot | undefined, rate: number) {
+  const untracked = Math.max(0, (points || 0) - (lot?.lotPoints || 0));
+  return (lot?.costCents || 0) + Math.round(Math.floor(untracked / 1000) * rate * 100);
+}
 function fmtInt(n: number) {
   return new Intl.NumberFormat("pt-BR").format(n || 0);
 }
@@ -155,6 +166,8 @@ export default function CedentesResumoClient() {
     flyingBlue: 0,
   });
 
+  const [stock, setStock] = useState<StockLots | null>(null);
+
   const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
   const [cashInput, setCashInput] = useState<string>("");
 
@@ -206,6 +219,7 @@ export default function CedentesResumoClient() {
       if (!jDAR?.ok) throw new Error(jDAR?.error || "Erro ao carregar dívidas a receber");
 
       setPoints(j.data.points);
+      setStock(j.data.stockLots ?? null);
       setSnapshots(j.data.snapshots);
 
       const latestCashCents = Number(j.data.latestCashCents ?? 0);
@@ -321,15 +335,15 @@ export default function CedentesResumoClient() {
     const rTap = Number(String(rateTap).replace(",", ".")) || 0;
     const rFlyingBlue = Number(String(rateFlyingBlue).replace(",", ".")) || 0;
 
-    const vLatamCents = Math.round(milLatam * rLatam * 100);
-    const vSmilesCents = Math.round(milSmiles * rSmiles * 100);
-    const vLiveloCents = Math.round(milLivelo * rLivelo * 100);
-    const vEsferaCents = Math.round(milEsfera * rEsfera * 100);
-    const vAzulCents = Math.round(milAzul * rAzul * 100);
-    const vIberiaCents = Math.round(milIberia * rIberia * 100);
-    const vAACents = Math.round(milAA * rAA * 100);
-    const vTapCents = Math.round(milTap * rTap * 100);
-    const vFlyingBlueCents = Math.round(milFlyingBlue * rFlyingBlue * 100);
+    const vLatamCents = stockValueCents(points.latam, stock?.latam, rLatam);
+    const vSmilesCents = stockValueCents(points.smiles, stock?.smiles, rSmiles);
+    const vLiveloCents = stockValueCents(points.livelo, stock?.livelo, rLivelo);
+    const vEsferaCents = stockValueCents(points.esfera, stock?.esfera, rEsfera);
+    const vAzulCents = stockValueCents(points.azul, stock?.azul, rAzul);
+    const vIberiaCents = stockValueCents(points.iberia, stock?.iberia, rIberia);
+    const vAACents = stockValueCents(points.aa, stock?.aa, rAA);
+    const vTapCents = stockValueCents(points.tap, stock?.tap, rTap);
+    const vFlyingBlueCents = stockValueCents(points.flyingBlue, stock?.flyingBlue, rFlyingBlue);
 
     const cashCents = toCentsFromInput(cashInput);
 
@@ -399,6 +413,7 @@ export default function CedentesResumoClient() {
     };
   }, [
     points,
+    stock,
     rateLatam,
     rateSmiles,
     rateLivelo,
@@ -447,7 +462,7 @@ export default function CedentesResumoClient() {
         <div>
           <h1 className="text-2xl font-bold">Resumo</h1>
           <p className="text-sm text-slate-600">
-            Patrimônio estimado: milhas (por milheiro) + caixa + a receber (vendas) + dívidas a receber − dívidas −
+            Patrimônio estimado: milhas (custo dos lotes) + caixa + a receber (vendas) + dívidas a receber − dívidas −
             pendências (comissões/funcionários/impostos).
           </p>
         </div>
@@ -503,7 +518,10 @@ export default function CedentesResumoClient() {
           </div>
 
           <div className="text-xs text-slate-600">
-            * cálculo usa milheiros inteiros (pontos/1000 arredondado para baixo).
+            * valor = custo dos lotes (compras liberadas) + pontos sem lote no milheiro abaixo (milheiros inteiros).{" "}
+            <Link href="/dashboard/estoque" className="underline">
+              Estoque a custo
+            </Link>
           </div>
         </div>
 
@@ -578,7 +596,13 @@ export default function CedentesResumoClient() {
         <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
           <div>
             <div className="font-semibold">Valor do milheiro</div>
-            <div className="text-xs text-slate-600">R$/1000</div>
+            <div className="text-xs text-slate-600">
+              R$/1000 • vigente hoje (alterar lança no{" "}
+              <Link href="/dashboard/milheiros" className="underline">
+                histórico do milheiro
+              </Link>
+              )
+            </div>
           </div>
 
           <button
@@ -723,6 +747,7 @@ export default function CedentesResumoClient() {
               <thead className="sticky top-0 bg-slate-50">
                 <tr>
                   <th className="px-3 py-2 text-left">Dia</th>
+                  <th className="px-3 py-2 text-right">Milheiro LATAM / Smiles</th>
                   <th className="px-3 py-2 text-right">Total líquido (snapshot)</th>
                 </tr>
               </thead>
@@ -730,6 +755,11 @@ export default function CedentesResumoClient() {
                 {snapshots.map((s) => (
                   <tr key={s.id} className="border-t">
                     <td className="px-3 py-2">{dateBR(s.date)}</td>
+                    <td className="px-3 py-2 text-right text-xs text-slate-600">
+                      {s.ratesCents
+                        ? `${fmtMoneyBR(s.ratesCents.latamRateCents)} / ${fmtMoneyBR(s.ratesCents.smilesRateCents)}`
+                        : "-"}
+                    </td>
                     <td className="px-3 py-2 text-right">{fmtMoneyBR(s.totalLiquido)}</td>
                   </tr>
                 ))}
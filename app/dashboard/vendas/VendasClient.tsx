@@ -3,6 +3,7 @@
 import Link from "next/link";
 import { useEffect, useMemo, useState } from "react";
 import { cn } from "@/lib/cn";
+import AuditTimeline from "@/components/AuditTimeline";
 
 function fmtMoneyBR(cents: number) {
   return ((cents || 0) / 100).toLocaleString("pt-BR", {
@@ -46,7 +47,10 @@ async function api<T>(url: string, init?: RequestInit): Promise<T> {
   });
   const j = await r.json().catch(() => ({}));
   if (!r.ok || (j as any)?.ok === false)
-    throw new Error((j as any)?.error || `Erro ${r.status}`);
+    // ✅ code (ex.: PERIOD_CLOSED) vai junto pra tela decidir o que oferecer
+    throw Object.assign(new Error((j as any)?.error || `Erro ${r.status}`), {
+      code: String((j as { code?: unknown })?.code || ""),
+    });
   return j as T;
 }
 
@@ -285,18 +289,42 @@ export default function VendasClient() {
 
   /**
    * ✅ Cancelar venda:
-   * - sempre estorna pontos
-   * - pergunta se mantém passageiros "queimados" (padrão) ou reseta (erro de cadastro)
+   * - reembolso ao cliente (padrão = tudo o que ele pagou; fica pendente em /dashboard/vendas/cancelamentos)
+   * - pergunta se devolve os pontos ao cedente (padrão) e se mantém passageiros "queimados" (padrão)
+   * - comissão já paga ao vendedor é estornada no próximo pagamento dele
    */
   async function cancelSale(r: SaleRow) {
     if (updatingId) return;
     if (r.paymentStatus === "CANCELED") return;
 
     const ok1 = confirm(
-      `Cancelar a venda ${r.numero}?\n\n• Os pontos serão estornados para o cedente.\n• O recebível (se existir) será cancelado.`
+      `Cancelar a venda ${r.numero}?\n\n• O recebível (se existir) será cancelado.\n• Comissão já paga ao vendedor é estornada no próximo pagamento.`
     );
     if (!ok1) return;
 
+    const reason = prompt("Motivo do cancelamento (opcional):")?.trim() || "";
+
+    // ✅ reembolso: só do que o cliente já pagou
+    const receivedCents = r.paymentStatus === "PAID" ? r.totalCents : r.receivable?.receivedCents || 0;
+    let refundCents = 0;
+    if (receivedCents > 0) {
+      const raw = prompt(
+        `Reembolso ao cliente (máximo ${fmtMoneyBR(receivedCents)}). Use 0 para não devolver nada:`,
+        (receivedCents / 100).toFixed(2).replace(".", ",")
+      );
+      if (raw === null) return;
+      const value = Number(raw.replace(/[^\d,.-]/g, "").replace(/\./g, "").replace(",", "."));
+      if (!Number.isFinite(value) || value < 0) {
+        alert("Valor de reembolso inválido.");
+        return;
+      }
+      refundCents = Math.round(value * 100);
+    }
+
+    const returnPoints = confirm(
+      "Devolver os pontos ao cedente?\n\n✅ OK = DEVOLVER (padrão).\n❌ Cancelar = NÃO devolver (pontos já usados na emissão)."
+    );
+
     // ✅ padrão: manter passageiros usados (CPF queimado)
     const keepPassengers = confirm(
       "Manter o uso dos passageiros?\n\n✅ OK = MANTER (padrão). A cota NÃO volta (CPF queimado).\n❌ Cancelar = RESETAR. Use só se foi erro de cadastro e quer devolver a cota."
@@ -304,10 +332,21 @@ export default function VendasClient() {
 
     setUpdatingId(r.id);
     try {
-      await api<{ ok: true }>("/api/vendas/cancelar", {
-        method: "POST",
-        body: JSON.stringify({ saleId: r.id, keepPassengers }),
-      });
+      const cancelar = (ajuste: boolean) =>
+        api<{ ok: true }>("/api/vendas/cancelar", {
+          method: "POST",
+          body: JSON.stringify({ saleId: r.id, reason, refundCents, returnPoints, keepPassengers, ajuste }),
+        });
+
+      try {
+        await cancelar(false);
+      } catch (e) {
+        // ✅ mês da venda fechado: oferece lançar o estorno como ajuste no mês atual
+        const err = e as Error & { code?: string };
+        if (err.code !== "PERIOD_CLOSED") throw e;
+        if (!confirm(`${err.message}\n\nLançar o cancelamento como ajuste no mês atual?`)) return;
+        await cancelar(true);
+      }
 
       setRows((prev) =>
         prev.map((x) =>
@@ -389,6 +428,12 @@ export default function VendasClient() {
           >
             {loading ? "Atualizando..." : "Atualizar"}
           </button>
+          <Link
+            href="/dashboard/vendas/cancelamentos"
+            className="rounded-xl border px-4 py-2 text-sm hover:bg-slate-50"
+          >
+            Cancelamentos
+          </Link>
           <Link
             href="/dashboard/vendas/nova"
             className="rounded-xl bg-black px-4 py-2 text-sm text-white hover:bg-gray-800"
@@ -666,7 +711,7 @@ export default function VendasClient() {
           onMouseDown={() => setDetailsId(null)}
         >
           <div
-            className="w-full max-w-3xl rounded-2xl bg-white shadow-xl"
+            className="max-h-[90vh] w-full max-w-3xl overflow-y-auto rounded-2xl bg-white shadow-xl"
             onMouseDown={(e) => e.stopPropagation()}
           >
             <div className="flex items-start justify-between gap-4 border-b px-5 py-4">
@@ -817,6 +862,8 @@ export default function VendasClient() {
                 </div>
               </div>
 
+              <AuditTimeline model="Sale" recordId={details.id} />
+
               <div className="flex flex-wrap gap-2 justify-end border-t pt-4">
                 {details.paymentStatus !== "CANCELED" ? (
                   <>
@@ -0,0 +1,308 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+
+type RefundStatus = "NONE" | "PENDING" | "PAID";
+type UserRef = { id: string; name: string } | null;
+
+type Clawback = {
+  id: string;
+  userId: string;
+  sourceDate: string;
+  commissionCents: number;
+  amountCents: number;
+  appliedDate: string | null;
+  appliedPayoutId: string | null;
+  appliedPayout: { paidAt: string | null } | null;
+  user: { name: string };
+};
+
+type Row = {
+  id: string;
+  createdAt: string;
+  reason: string | null;
+  saleTotalCents: number;
+  refundCents: number;
+  refundStatus: RefundStatus;
+  refundPaidAt: string | null;
+  refundPaidBy: UserRef;
+  refundNote: string | null;
+  pointsReturned: number;
+  passengersReleased: number;
+  adjustmentId: string | null;
+  sale: {
+    id: string;
+    numero: string;
+    date: string;
+    program: string;
+    points: number;
+    passengers: number;
+    locator: string | null;
+    cedente: { id: string; nomeCompleto: string };
+    seller: UserRef;
+  };
+  cliente: { id: string; nome: string; cpfCnpj: string | null };
+  createdBy: UserRef;
+  clawbacks: Clawback[];
+};
+
+type Totals = {
+  count: number;
+  saleCents: number;
+  refundCents: number;
+  refundPendingCents: number;
+  pointsReturned: number;
+  passengersReleased: number;
+  clawbackCents: number;
+  clawbackPendingCents: number;
+};
+
+const REFUND_LABEL: Record<RefundStatus, string> = {
+  NONE: "Sem reembolso",
+  PENDING: "Pendente",
+  PAID: "Reembolsado",
+};
+
+const REFUND_CLS: Record<RefundStatus, string> = {
+  NONE: "bg-slate-100 text-slate-600",
+  PENDING: "bg-amber-50 text-amber-700",
+  PAID: "bg-emerald-50 text-emerald-700",
+};
+
+function fmtMoney(cents: number) {
+  return ((cents || 0) / 100).toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+}
+
+function fmtInt(n: number) {
+  return (n || 0).toLocaleString("pt-BR");
+}
+
+function fmtDateBR(iso: string) {
+  return new Intl.DateTimeFormat("pt-BR", { timeZone: "UTC" }).format(new Date(iso));
+}
+
+function fmtDateTimeBR(iso: string) {
+  return new Date(iso).toLocaleString("pt-BR");
+}
+
+function currentMonth() {
+  return new Date().toISOString().slice(0, 7);
+}
+
+async function fetchJson(url: string, init?: RequestInit) {
+  const res = await fetch(url, { cache: "no-store", ...init });
+  const json = await res.json().catch(() => null);
+  if (!res.ok || !json?.ok) throw new Error(json?.error || "Falha na requisição.");
+  return json;
+}
+
+function clawbackStatus(c: Clawback) {
+  if (!c.appliedPayoutId) return "pendente";
+  return c.appliedPayout?.paidAt ? `descontado (dia ${c.appliedDate}, pago)` : `no pagamento de ${c.appliedDate}`;
+}
+
+/** ✅ Relatório de cancelamentos: reembolso, pontos, passageiros e estorno de comissão */
+export default function CancelamentosClient() {
+  const [month, setMonth] = useState(currentMonth());
+  const [rows, setRows] = useState<Row[]>([]);
+  const [totals, setTotals] = useState<Totals | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  async function load() {
+    const json = await fetchJson(`/api/vendas/cancelamentos?month=${month}`);
+    setRows(json.rows as Row[]);
+    setTotals(json.totals as Totals);
+  }
+
+  useEffect(() => {
+    let alive = true;
+    fetchJson(`/api/vendas/cancelamentos?month=${month}`)
+      .then((json) => {
+        if (!alive) return;
+        setRows(json.rows as Row[]);
+        setTotals(json.totals as Totals);
+      })
+      .catch((e) => alive && setError(e instanceof Error ? e.message : "Erro ao carregar cancelamentos."))
+      .finally(() => alive && setLoading(false));
+    return () => {
+      alive = false;
+    };
+  }, [month]);
+
+  async function refund(r: Row, undo: boolean) {
+    const msg = undo
+      ? `Desfazer o reembolso de ${fmtMoney(r.refundCents)} da venda ${r.sale.numero}?`
+      : `Marcar como pago o reembolso de ${fmtMoney(r.refundCents)} para ${r.cliente.nome}?`;
+    if (!confirm(msg)) return;
+
+    let note = "";
+    if (!undo) note = prompt("Observação (ex.: PIX, comprovante):")?.trim() || "";
+
+    setBusyId(r.id);
+    setError("");
+    try {
+      await fetchJson(`/api/vendas/cancelamentos/${r.id}/reembolso`, {
+        method: undo ? "DELETE" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: undo ? undefined : JSON.stringify({ note }),
+      });
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao atualizar reembolso.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <div className="space-y-4 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h1 className="text-xl font-semibold">Cancelamentos de venda</h1>
+          <p className="text-sm text-slate-500">
+            Reembolso ao cliente, pontos devolvidos, passageiros estornados e comissão estornada do vendedor.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="month"
+            value={month}
+            onChange={(e) => {
+              if (!e.target.value) return;
+              setLoading(true);
+              setError("");
+              setMonth(e.target.value);
+            }}
+            className="rounded-xl border px-3 py-2 text-sm"
+          />
+          <Link href="/dashboard/vendas" className="rounded-xl border px-4 py-2 text-sm hover:bg-slate-50">
+            Voltar para vendas
+          </Link>
+        </div>
+      </div>
+
+      {error ? <div className="rounded-xl border bg-rose-50 p-3 text-sm text-rose-800">{error}</div> : null}
+
+      {totals ? (
+        <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+          {[
+            ["Cancelamentos", `${totals.count} • ${fmtMoney(totals.saleCents)}`],
+            ["Reembolsos", `${fmtMoney(totals.refundCents)} (pendente ${fmtMoney(totals.refundPendingCents)})`],
+            ["Pontos / passageiros", `${fmtInt(totals.pointsReturned)} pts • ${totals.passengersReleased} pax`],
+            ["Comissão estornada", `${fmtMoney(totals.clawbackCents)} (pendente ${fmtMoney(totals.clawbackPendingCents)})`],
+          ].map(([label, value]) => (
+            <div key={label} className="rounded-2xl border bg-white p-3">
+              <div className="text-xs text-slate-500">{label}</div>
+              <div className="text-sm font-semibold">{value}</div>
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      <div className="overflow-x-auto rounded-2xl border bg-white">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 text-left text-xs text-slate-500">
+            <tr>
+              <th className="px-3 py-2">Cancelada em</th>
+              <th className="px-3 py-2">Venda</th>
+              <th className="px-3 py-2">Cliente</th>
+              <th className="px-3 py-2 text-right">Valor</th>
+              <th className="px-3 py-2">Reembolso</th>
+              <th className="px-3 py-2">Pontos / pax</th>
+              <th className="px-3 py-2">Comissão</th>
+              <th className="px-3 py-2 text-right">Ações</th>
+            </tr>
+          </thead>
+          <tbody>
+            {loading ? (
+              <tr>
+                <td colSpan={8} className="px-3 py-6 text-center text-slate-500">
+                  Carregando...
+                </td>
+              </tr>
+            ) : rows.length === 0 ? (
+              <tr>
+                <td colSpan={8} className="px-3 py-6 text-center text-slate-500">
+                  Nenhum cancelamento no mês.
+                </td>
+              </tr>
+            ) : (
+              rows.map((r) => (
+                <tr key={r.id} className="border-t align-top">
+                  <td className="px-3 py-2">
+                    <div>{fmtDateTimeBR(r.createdAt)}</div>
+                    <div className="text-xs text-slate-500">{r.createdBy?.name || "-"}</div>
+                  </td>
+                  <td className="px-3 py-2">
+                    <div className="font-medium">{r.sale.numero}</div>
+                    <div className="text-xs text-slate-500">
+                      {fmtDateBR(r.sale.date)} • {r.sale.program} • {r.sale.cedente.nomeCompleto}
+                    </div>
+                    {r.reason ? <div className="text-xs text-slate-500">Motivo: {r.reason}</div> : null}
+                    {r.adjustmentId ? <div className="text-xs text-amber-700">Ajuste (mês fechado)</div> : null}
+                  </td>
+                  <td className="px-3 py-2">
+                    <div>{r.cliente.nome}</div>
+                    <div className="text-xs text-slate-500">{r.cliente.cpfCnpj || "-"}</div>
+                  </td>
+                  <td className="px-3 py-2 text-right tabular-nums">{fmtMoney(r.saleTotalCents)}</td>
+                  <td className="px-3 py-2">
+                    <div className="tabular-nums">{fmtMoney(r.refundCents)}</div>
+                    <span className={`rounded-full px-2 py-0.5 text-xs ${REFUND_CLS[r.refundStatus]}`}>
+                      {REFUND_LABEL[r.refundStatus]}
+                    </span>
+                    {r.refundPaidAt ? (
+                      <div className="text-xs text-slate-500">
+                        {fmtDateTimeBR(r.refundPaidAt)} • {r.refundPaidBy?.name || "-"}
+                        {r.refundNote ? ` • ${r.refundNote}` : ""}
+                      </div>
+                    ) : null}
+                  </td>
+                  <td className="px-3 py-2 text-xs">
+                    <div>{r.pointsReturned ? `${fmtInt(r.pointsReturned)} pts devolvidos` : "pontos não devolvidos"}</div>
+                    <div>{r.passengersReleased ? `${r.passengersReleased} pax estornados` : "pax mantidos"}</div>
+                  </td>
+                  <td className="px-3 py-2 text-xs">
+                    {r.clawbacks.length === 0 ? (
+                      <span className="text-slate-500">{r.sale.seller ? "não havia sido paga" : "sem vendedor"}</span>
+                    ) : (
+                      r.clawbacks.map((c) => (
+                        <div key={c.id}>
+                          {c.user.name}: −{fmtMoney(c.amountCents)} (pago em {c.sourceDate}) • {clawbackStatus(c)}
+                        </div>
+                      ))
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {r.refundStatus === "PENDING" ? (
+                      <button
+                        onClick={() => refund(r, false)}
+                        disabled={busyId === r.id}
+                        className="rounded-xl bg-black px-3 py-1.5 text-xs text-white hover:bg-gray-800 disabled:opacity-50"
+                        type="button"
+                      >
+                        Reembolso pago
+                      </button>
+                    ) : r.refundStatus === "PAID" ? (
+                      <button
+                        onClick={() => refund(r, true)}
+                        disabled={busyId === r.id}
+                        className="rounded-xl border px-3 py-1.5 text-xs hover:bg-slate-50 disabled:opacity-50"
+                        type="button"
+                      >
+                        Desfazer
+                      </button>
+                    ) : null}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
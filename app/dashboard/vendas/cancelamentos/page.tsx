@@ -0,0 +1,8 @@
+import CancelamentosClient from "./CancelamentosClient";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export default function Page() {
+  return <CancelamentosClient />;
+}
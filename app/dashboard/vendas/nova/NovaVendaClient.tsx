@@ -4,6 +4,12 @@ import Link from "next/link";
 import { useEffect, useMemo, useRef, useState } from "react";
 import { cn } from "@/lib/cn";
 import { getSession } from "@/lib/auth";
+import {
+  commissionBonusCents,
+  commissionC1Cents,
+  DEFAULT_PLAN_RULES,
+  type PlanRules,
+} from "@/lib/payouts/commissionRules";
 
 type Program =
   | "LATAM"
@@ -16,7 +22,6 @@ type Program =
   | "TAP"
   | "FLYING_BLUE";
 type PointsMode = "TOTAL" | "POR_PAX";
-type ProgramKey = "latam" | "smiles" | "livelo" | "esfera";
 type TripKind = "IDA" | "IDA_VOLTA";
 
 type Owner = { id: string; name: string; login: string };
@@ -66,6 +71,7 @@ type CompraLiberada = {
 };
 
 type UserLite = { id: string; name: string; login: string };
+type CardLite = { id: string; label: string; last4: string; ownerType: "COMPANY" | "EMPLOYEE" };
 
 type ClienteTipo = "PESSOA" | "EMPRESA";
 type ClienteOrigem = "BALCAO_MILHAS" | "PARTICULAR" | "SITE" | "OUTROS";
@@ -137,7 +143,9 @@ async function api<T>(url: string, init?: RequestInit): Promise<T> {
   });
   const j = await res.json().catch(() => ({}));
   if (!res.ok || (j as any)?.ok === false) {
-    throw new Error((j as any)?.error || `Erro ${res.status}`);
+    const err = new Error((j as any)?.error || `Erro ${res.status}`) as Error & { code?: string };
+    err.code = (j as { code?: string }).code;
+    throw err;
   }
   return j as T;
 }
@@ -169,54 +177,6 @@ type CedenteCreds = {
   senhaEmail?: string | null;
 };
 
-// ✅ resposta do painel (usada pra janela LATAM 365d ~ 13 meses)
-type EmissionsPanelResp = {
-  ok: true;
-  program: string;
-  months: Array<{ key: string; label: string }>;
-  currentMonthKey: string;
-  renewMonthKey: string;
-  rows: Array<{
-    cedenteId: string;
-    total: number;
-    manual: number;
-    renewEndOfMonth: number;
-    perMonth: Record<string, number>;
-  }>;
-  totals: { total: number; manual: number; renewEndOfMonth: number };
-};
-
-function programToKey(p: Program): ProgramKey {
-  if (p === "LATAM") return "latam";
-  if (p === "SMILES") return "smiles";
-  if (p === "LIVELO") return "livelo";
-  return "esfera";
-}
-
-// ✅ aplica janela LATAM (painel) numa sugestão
-function applyLatamWindow(s: Suggestion, usedRaw: number): Suggestion {
-  const paxLimit = Number(s.paxLimit || 25);
-  const used = Math.max(0, Math.trunc(Number(usedRaw || 0)));
-  const available = Math.max(0, paxLimit - used);
-
-  const paxNeed = Math.max(0, Math.trunc(Number(s.passengersNeeded || 0)));
-  const paxOk = available >= paxNeed;
-
-  let alerts = Array.isArray(s.alerts) ? [...s.alerts] : [];
-  alerts = alerts.filter((a) => a !== "PASSAGEIROS_ESTOURADOS_COM_PONTOS");
-  if (!paxOk && Number(s.leftoverPoints || 0) > 3000) {
-    alerts.push("PASSAGEIROS_ESTOURADOS_COM_PONTOS");
-  }
-
-  return {
-    ...s,
-    usedPassengersYear: used,
-    availablePassengersYear: available,
-    eligible: Boolean(s.eligible) && paxOk,
-    alerts,
-  };
-}
-
 const LATAM_BIOMETRIA_AVISO = `⚠️ AVISO IMPORTANTE – NOVO PROTOCOLO LATAM (BIOMETRIA FACIAL)
 
 A LATAM passou a exigir biometria facial do titular da conta sempre que houver resgate/emissão de passagens com pontos para terceiros.
@@ -349,14 +309,8 @@ export default function NovaVendaClient({ initialMe }: { initialMe: UserLite })
   const [sel, setSel] = useState<Suggestion | null>(null);
   const [sugError, setSugError] = useState<string>("");
 
-  // ✅ fix LATAM: ajustar PAX pela janela 365d (painel)
-  const [latamPaxLoading, setLatamPaxLoading] = useState(false);
-  const [latamPaxError, setLatamPaxError] = useState("");
-
-  const sugIdsKey = useMemo(() => {
-    const ids = suggestions.map((s) => s.cedente.id).slice().sort();
-    return ids.join("|");
-  }, [suggestions]);
+  // ✅ regra de CPFs do programa (vem junto das sugestões)
+  const [paxRuleLabel, setPaxRuleLabel] = useState("");
 
   // busca cedente
   const [cedenteQ, setCedenteQ] = useState("");
@@ -409,6 +363,7 @@ export default function NovaVendaClient({ initialMe }: { initialMe: UserLite })
   // SELF | VIAS | USER:<id> | MANUAL
   const [feeCardPreset, setFeeCardPreset] = useState<string>("SELF");
   const [feeCardManual, setFeeCardManual] = useState<string>("");
+  const [cards, setCards] = useState<CardLite[]>([]);
 
   // campos venda
   const [dateISO, setDateISO] = useState(isoToday());
@@ -420,6 +375,9 @@ export default function NovaVendaClient({ initialMe }: { initialMe: UserLite })
   const [departureAirportIata, setDepartureAirportIata] = useState("");
   const [departureDate, setDepartureDate] = useState("");
   const [returnDate, setReturnDate] = useState("");
+  // ✅ plano de pagamento (recebível parcelado); vazio = 1 parcela na data da venda
+  const [installmentsStr, setInstallmentsStr] = useState("1");
+  const [firstDueDate, setFirstDueDate] = useState("");
 
   const milheiroCents = useMemo(() => moneyToCentsBR(milheiroStr), [milheiroStr]);
   const embarqueFeeCents = useMemo(
@@ -437,9 +395,24 @@ export default function NovaVendaClient({ initialMe }: { initialMe: UserLite })
     () => pointsValueCents + embarqueFeeCents,
     [pointsValueCents, embarqueFeeCents]
   );
+  // ✅ plano de comissão vigente de quem está vendendo (prévia igual ao servidor)
+  const [plan, setPlan] = useState<{ name: string; rules: PlanRules }>({
+    name: "Padrão",
+    rules: DEFAULT_PLAN_RULES,
+  });
+  useEffect(() => {
+    let alive = true;
+    api<{ data: { name: string; rules: PlanRules } }>("/api/payouts/planos/vigente")
+      .then((j) => alive && setPlan(j.data))
+      .catch(() => {});
+    return () => {
+      alive = false;
+    };
+  }, []);
+
   const commissionCents = useMemo(
-    () => Math.round(pointsValueCents * 0.01),
-    [pointsValueCents]
+    () => commissionC1Cents(plan.rules, pointsValueCents),
+    [plan, pointsValueCents]
   );
 
   // encontra pela compra.numero (ID00018)
@@ -450,14 +423,10 @@ export default function NovaVendaClient({ initialMe }: { initialMe: UserLite })
 
   const metaMilheiroCents = compraSel?.metaMilheiroCents || 0;
 
-  const bonusCents = useMemo(() => {
-    if (!metaMilheiroCents) return 0;
-    const diff = milheiroCents - metaMilheiroCents;
-    if (diff <= 0) return 0;
-    const denom = pointsTotal / 1000;
-    const diffTotal = Math.round(denom * diff);
-    return Math.round(diffTotal * 0.3);
-  }, [milheiroCents, metaMilheiroCents, pointsTotal]);
+  const bonusCents = useMemo(
+    () => commissionBonusCents(plan.rules, { points: pointsTotal, milheiroCents, metaMilheiroCents }),
+    [plan, milheiroCents, metaMilheiroCents, pointsTotal]
+  );
 
   // ✅ ajuste de PAX disponível (após esta venda) — usando passengersNeeded da sugestão
   const selPaxAfter = useMemo(() => {
@@ -535,7 +504,22 @@ export default function NovaVendaClient({ initialMe }: { initialMe: UserLite })
       const data = out?.data ?? out?.creds ?? out ?? null;
       if (!data?.cpf) throw new Error("Resposta de credenciais inválida.");
 
-      setCreds(data as CedenteCreds);
+      // ✅ senhas vêm mascaradas; o valor real sai do reveal (auditado)
+      const reveal = async (kind: string) => {
+        const r = await api<{ value?: string | null }>("/api/cedentes/reveal-credencial", {
+          method: "POST",
+          body: JSON.stringify({ cedenteId, kind }),
+          signal,
+        });
+        return r?.value ?? null;
+      };
+
+      const [senhaPrograma, senhaEmail] = await Promise.all([
+        data.senhaPrograma ? reveal(p) : null,
+        data.senhaEmail ? reveal("EMAIL") : null,
+      ]);
+
+      setCreds({ ...data, senhaPrograma, senhaEmail } as CedenteCreds);
     } catch (e: any) {
       if (e?.name !== "AbortError") {
         setCreds(null);
@@ -616,8 +600,26 @@ export default function NovaVendaClient({ initialMe }: { initialMe: UserLite })
     })();
   }, []);
 
+  // cartões cadastrados (/dashboard/cartoes) — a taxa entra na fatura do cartão
+  useEffect(() => {
+    (async () => {
+      try {
+        const out = await api<{ ok: true; data: CardLite[] }>("/api/cartoes");
+        setCards(out.data || []);
+      } catch {
+        setCards([]);
+      }
+    })();
+  }, []);
+
+  const feeCardId = feeCardPreset.startsWith("CARD:") ? feeCardPreset.slice("CARD:".length) : null;
+
   // label final do cartão (vai no payload)
   const feeCardLabel = useMemo(() => {
+    if (feeCardPreset.startsWith("CARD:")) {
+      const c = cards.find((x) => x.id === feeCardPreset.slice("CARD:".length));
+      return c ? `Cartão ${c.label} •••• ${c.last4}` : "";
+    }
     if (feeCardPreset === "VIAS") return "Cartão Vias Aéreas";
     if (feeCardPreset === "MANUAL") return (feeCardManual || "").trim() || "";
     if (feeCardPreset.startsWith("USER:")) {
@@ -626,7 +628,7 @@ export default function NovaVendaClient({ initialMe }: { initialMe: UserLite })
       return u ? `Cartão ${u.name}` : "";
     }
     return me?.name ? `Cartão ${me.name}` : "Cartão do vendedor";
-  }, [feeCardPreset, feeCardManual, users, me?.name]);
+  }, [feeCardPreset, feeCardManual, users, cards, me?.name]);
 
   // sugestões (debounce + abort)
   useEffect(() => {
@@ -649,12 +651,13 @@ export default function NovaVendaClient({ initialMe }: { initialMe: UserLite })
           String(pointsTotal)
         )}&passengers=${encodeURIComponent(String(passengers))}`;
 
-        const out = await api<{ ok: true; suggestions: Suggestion[] }>(url, {
+        const out = await api<{ ok: true; suggestions: Suggestion[]; paxRule?: string }>(url, {
           signal: ac.signal,
         } as any);
 
         const list = out.suggestions || [];
         setSuggestions(list);
+        setPaxRuleLabel(out.paxRule || "");
 
         if (
           sel?.cedente?.id &&
@@ -680,63 +683,6 @@ export default function NovaVendaClient({ initialMe }: { initialMe: UserLite })
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [program, pointsTotal, passengers]);
 
-  // ✅ LATAM: após carregar sugestões, recalcula usados/disp. na janela (365d ~ painel)
-  useEffect(() => {
-    if (program !== "LATAM") return;
-    if (!suggestions.length) return;
-
-    const ac = new AbortController();
-    setLatamPaxLoading(true);
-    setLatamPaxError("");
-
-    (async () => {
-      try {
-        const ids = suggestions.map((s) => s.cedente.id);
-
-        const out = await api<EmissionsPanelResp>("/api/emissions/panel", {
-          method: "POST",
-          body: JSON.stringify({
-            programa: programToKey(program),
-            months: 13,
-            cedenteIds: ids,
-          }),
-          signal: ac.signal,
-        } as any);
-
-        const map = new Map<string, number>();
-        for (const r of out?.rows || []) {
-          map.set(String(r.cedenteId), Number(r.total || 0));
-        }
-
-        setSuggestions((prev) =>
-          prev.map((s) => {
-            const used = map.get(s.cedente.id);
-            if (used == null) return s;
-            return applyLatamWindow(s, used);
-          })
-        );
-
-        setSel((prevSel) => {
-          if (!prevSel) return prevSel;
-          const used = map.get(prevSel.cedente.id);
-          if (used == null) return prevSel;
-          return applyLatamWindow(prevSel, used);
-        });
-      } catch (e: any) {
-        if (e?.name !== "AbortError") {
-          setLatamPaxError(
-            e?.message || "Falha ao ajustar PAX (janela 365 dias)."
-          );
-        }
-      } finally {
-        if (!ac.signal.aborted) setLatamPaxLoading(false);
-      }
-    })();
-
-    return () => ac.abort();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [program, sugIdsKey]);
-
   // ✅ mantém selectedCliente em sync quando escolhe no select
   useEffect(() => {
     if (!clienteId) {
@@ -823,10 +769,22 @@ export default function NovaVendaClient({ initialMe }: { initialMe: UserLite })
             : null,
       };
 
-      const out = await api<any>("/api/clientes", {
-        method: "POST",
-        body: JSON.stringify(payload),
-      });
+      const post = (confirmDuplicate: boolean) =>
+        api<any>("/api/clientes", {
+          method: "POST",
+          body: JSON.stringify({ ...payload, confirmDuplicate }),
+        });
+
+      let out;
+      try {
+        out = await post(false);
+      } catch (e) {
+        // ✅ telefone/nome parecido com cliente existente: confirma antes de duplicar
+        const err = e as Error & { code?: string };
+        if (err.code !== "POSSIBLE_DUPLICATE") throw err;
+        if (!confirm(`${err.message}\n\nCriar mesmo assim?`)) return;
+        out = await post(true);
+      }
 
       const raw = out?.data?.cliente || out?.cliente || null;
       if (!raw?.id) throw new Error("Cliente criado, mas resposta inválida.");
@@ -1117,12 +1075,15 @@ export default function NovaVendaClient({ initialMe }: { initialMe: UserLite })
       milheiroCents,
       embarqueFeeCents,
       feeCardLabel: feeCardLabel || null,
+      feeCardId,
       locator: locator?.trim() || null,
       purchaseCode: (purchaseCode || "").trim().toUpperCase() || null,
       firstPassengerLastName: firstPassengerLastName.trim() || null,
       departureAirportIata: (departureAirportIata || "").trim().toUpperCase() || null,
       departureDate: departureDate || null,
       returnDate: returnDate || null,
+      installments: Math.max(1, Math.trunc(Number(installmentsStr) || 1)),
+      firstDueDate: firstDueDate || null,
     };
 
     setIsSaving(true);
@@ -1518,15 +1479,9 @@ export default function NovaVendaClient({ initialMe }: { initialMe: UserLite })
               Prioridade: sobrar &lt; 2k (MAX) • sobrar 3-10k (BAIXA) • acima de
               10k, sobrar menos primeiro.
             </div>
-            {program === "LATAM" ? (
+            {paxRuleLabel ? (
               <div className="mt-1 text-[11px] text-slate-500">
-                {latamPaxLoading ? (
-                  "Ajustando PAX (janela 365 dias)…"
-                ) : latamPaxError ? (
-                  <span className="text-rose-600">{latamPaxError}</span>
-                ) : (
-                  "PAX: janela 365 dias (painel)."
-                )}
+                PAX: {paxRuleLabel}.
               </div>
             ) : null}
           </div>
@@ -1961,6 +1916,27 @@ export default function NovaVendaClient({ initialMe }: { initialMe: UserLite })
                   </div>
                 </div>
 
+                <label className="space-y-1">
+                  <div className="text-xs text-slate-600">Parcelas (pagamento do cliente)</div>
+                  <input
+                    type="number"
+                    min={1}
+                    className="w-full rounded-xl border px-3 py-2 text-sm"
+                    value={installmentsStr}
+                    onChange={(e) => setInstallmentsStr(e.target.value)}
+                  />
+                </label>
+
+                <label className="space-y-1">
+                  <div className="text-xs text-slate-600">1º vencimento (padrão: data da venda)</div>
+                  <input
+                    type="date"
+                    className="w-full rounded-xl border px-3 py-2 text-sm"
+                    value={firstDueDate}
+                    onChange={(e) => setFirstDueDate(e.target.value)}
+                  />
+                </label>
+
                 <div className="md:col-span-2 grid gap-2 md:grid-cols-2">
                   <label className="space-y-1">
                     <div className="text-xs text-slate-600">Buscar cliente</div>
@@ -2104,6 +2080,15 @@ export default function NovaVendaClient({ initialMe }: { initialMe: UserLite })
                     value={feeCardPreset}
                     onChange={(e) => setFeeCardPreset(e.target.value)}
                   >
+                    {cards.length ? (
+                      <optgroup label="Cartões cadastrados">
+                        {cards.map((c) => (
+                          <option key={c.id} value={`CARD:${c.id}`}>
+                            {c.label} •••• {c.last4}
+                          </option>
+                        ))}
+                      </optgroup>
+                    ) : null}
                     <option value="SELF">{selfLabel}</option>
                     <option value="VIAS">Vias Aéreas</option>
                     {users.length ? <option disabled>────────────</option> : null}
@@ -2289,7 +2274,7 @@ export default function NovaVendaClient({ initialMe }: { initialMe: UserLite })
 
               <div className="h-px bg-slate-200 my-2" />
               <div className="flex justify-between">
-                <span className="text-slate-600">Comissão (1%)</span>
+                <span className="text-slate-600">Comissão (C1)</span>
                 <b>{fmtMoneyBR(commissionCents)}</b>
               </div>
               <div className="flex justify-between">
@@ -2297,7 +2282,7 @@ export default function NovaVendaClient({ initialMe }: { initialMe: UserLite })
                 <b>{metaMilheiroCents ? fmtMoneyBR(metaMilheiroCents) : "—"}</b>
               </div>
               <div className="flex justify-between">
-                <span className="text-slate-600">Bônus (30%)</span>
+                <span className="text-slate-600">Bônus (C2)</span>
                 <b>{fmtMoneyBR(bonusCents)}</b>
               </div>
             </div>
@@ -2317,7 +2302,7 @@ export default function NovaVendaClient({ initialMe }: { initialMe: UserLite })
             </button>
 
             <div className="text-xs text-slate-500">
-              Comissão ignora taxa. Bônus = 30% do excedente acima da meta.
+              Comissão ignora taxa. Bônus = % do excedente acima da meta. Plano: {plan.name}.
             </div>
           </div>
         </div>
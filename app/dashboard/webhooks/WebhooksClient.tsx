@@ -0,0 +1,411 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { DOMAIN_EVENTS, DOMAIN_EVENT_LABEL, type DomainEventType } from "@/lib/outbox";
+
+type DeliveryStatus = "PENDING" | "DELIVERED" | "DEAD";
+
+type Endpoint = {
+  id: string;
+  name: string;
+  url: string;
+  events: string[];
+  active: boolean;
+  createdAt: string;
+  createdBy: { name: string } | null;
+  stats: Record<DeliveryStatus, number>;
+};
+
+type Delivery = {
+  id: string;
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  lastAttemptAt: string | null;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+  endpoint: { id: string; name: string };
+  event: { id: string; type: string; aggregateType: string; aggregateId: string; payload: unknown };
+};
+
+const STATUS_TABS: Array<{ key: DeliveryStatus | ""; label: string }> = [
+  { key: "DEAD", label: "Dead-letter" },
+  { key: "PENDING", label: "Pendentes" },
+  { key: "DELIVERED", label: "Entregues" },
+  { key: "", label: "Todas" },
+];
+
+function cn(...xs: Array<string | false | null | undefined>) {
+  return xs.filter(Boolean).join(" ");
+}
+
+function fmtDateTimeBR(v?: string | null) {
+  if (!v) return "-";
+  const d = new Date(v);
+  if (Number.isNaN(d.getTime())) return "-";
+  return d.toLocaleString("pt-BR", { dateStyle: "short", timeStyle: "short" });
+}
+
+function eventLabel(type: string) {
+  return DOMAIN_EVENT_LABEL[type as DomainEventType] ?? type;
+}
+
+async function getJson(url: string, init?: RequestInit) {
+  const res = await fetch(url, { cache: "no-store", ...init });
+  const json = await res.json().catch(() => null);
+  if (!res.ok || !json?.ok) throw new Error(json?.error || `Erro ${res.status}`);
+  return json;
+}
+
+export default function WebhooksClient() {
+  const [endpoints, setEndpoints] = useState<Endpoint[]>([]);
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [tab, setTab] = useState<DeliveryStatus | "">("DEAD");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState<string | null>(null);
+  const [newSecret, setNewSecret] = useState<{ name: string; secret: string } | null>(null);
+
+  const [name, setName] = useState("");
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<string[]>([]);
+
+  useEffect(() => {
+    let alive = true;
+    getJson("/api/webhooks")
+      .then((json) => alive && setEndpoints(json.data as Endpoint[]))
+      .catch((e) => alive && setError(e instanceof Error ? e.message : "Erro ao carregar."))
+      .finally(() => alive && setLoading(false));
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    let alive = true;
+    getJson(`/api/webhooks/deliveries${tab ? `?status=${tab}` : ""}`)
+      .then((json) => alive && setDeliveries(json.rows as Delivery[]))
+      .catch((e) => alive && setError(e instanceof Error ? e.message : "Erro ao carregar entregas."));
+    return () => {
+      alive = false;
+    };
+  }, [tab]);
+
+  async function reload() {
+    setError("");
+    try {
+      const [eps, dls] = await Promise.all([
+        getJson("/api/webhooks"),
+        getJson(`/api/webhooks/deliveries${tab ? `?status=${tab}` : ""}`),
+      ]);
+      setEndpoints(eps.data as Endpoint[]);
+      setDeliveries(dls.rows as Delivery[]);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao carregar.");
+    }
+  }
+
+  async function create() {
+    setBusy("create");
+    setError("");
+    try {
+      const json = await getJson("/api/webhooks", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, url, events }),
+      });
+      setNewSecret({ name: json.data.name, secret: json.secret });
+      setName("");
+      setUrl("");
+      setEvents([]);
+      await reload();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao criar.");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function patch(ep: Endpoint, body: Record<string, unknown>) {
+    setBusy(ep.id);
+    setError("");
+    try {
+      const json = await getJson(`/api/webhooks/${ep.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (json.secret) setNewSecret({ name: ep.name, secret: json.secret });
+      await reload();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao salvar.");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function remove(ep: Endpoint) {
+    if (!confirm(`Apagar o endpoint "${ep.name}" e o histórico de entregas?`)) return;
+    setBusy(ep.id);
+    try {
+      await getJson(`/api/webhooks/${ep.id}`, { method: "DELETE" });
+      await reload();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao apagar.");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function replay(d: Delivery) {
+    setBusy(d.id);
+    try {
+      await getJson(`/api/webhooks/deliveries/${d.id}/replay`, { method: "POST" });
+      await reload();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao reenviar.");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  function toggleEvent(list: string[], ev: string) {
+    return list.includes(ev) ? list.filter((x) => x !== ev) : [...list, ev];
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Webhooks</h1>
+          <p className="text-sm text-zinc-500">
+            Eventos do sistema (vendas, compras, pagamentos, VIP, bloqueios) enviados para URLs do
+            time, assinados com HMAC-SHA256. Falhas são reenviadas com intervalo crescente.
+          </p>
+        </div>
+        <button
+          onClick={reload}
+          className="h-9 rounded-xl border border-zinc-200 bg-white px-3 text-sm text-zinc-700 shadow-sm hover:bg-zinc-50"
+        >
+          {loading ? "Carregando…" : "Atualizar"}
+        </button>
+      </div>
+
+      {error ? (
+        <div className="rounded-xl border border-rose-200 bg-rose-50 p-3 text-sm text-rose-700">{error}</div>
+      ) : null}
+
+      {newSecret ? (
+        <div className="rounded-xl border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+          <div className="font-medium">Segredo de “{newSecret.name}” (copie agora, não aparece de novo):</div>
+          <div className="mt-1 flex items-center gap-2">
+            <code className="rounded-lg bg-white px-2 py-1 font-mono text-xs">{newSecret.secret}</code>
+            <button onClick={() => setNewSecret(null)} className="text-xs underline">
+              Ok, copiei
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      <div className="rounded-2xl border border-zinc-200 bg-white p-4 shadow-sm space-y-3">
+        <div className="text-sm font-medium">Novo endpoint</div>
+        <div className="flex flex-wrap gap-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Nome (ex: ERP)"
+            className="h-9 w-48 rounded-xl border border-zinc-200 px-3 text-sm"
+          />
+          <input
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://..."
+            className="h-9 min-w-[320px] flex-1 rounded-xl border border-zinc-200 px-3 text-sm"
+          />
+          <button
+            onClick={create}
+            disabled={busy === "create" || !name.trim() || !url.trim()}
+            className="h-9 rounded-xl bg-zinc-900 px-4 text-sm text-white hover:bg-zinc-800 disabled:opacity-50"
+          >
+            {busy === "create" ? "Criando…" : "Criar"}
+          </button>
+        </div>
+        <div className="flex flex-wrap gap-3 text-xs text-zinc-600">
+          {DOMAIN_EVENTS.map((ev) => (
+            <label key={ev} className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={events.includes(ev)}
+                onChange={() => setEvents((prev) => toggleEvent(prev, ev))}
+              />
+              {DOMAIN_EVENT_LABEL[ev]}
+            </label>
+          ))}
+          <span className="text-zinc-400">(nenhum marcado = todos)</span>
+        </div>
+      </div>
+
+      <div className="rounded-2xl border border-zinc-200 bg-white p-4 shadow-sm">
+        <div className="mb-2 text-sm font-medium">Endpoints</div>
+        <div className="overflow-auto">
+          <table className="w-full min-w-[900px] text-sm">
+            <thead>
+              <tr className="text-left text-xs text-zinc-500">
+                <th className="border-b border-zinc-200 p-2">Nome / URL</th>
+                <th className="border-b border-zinc-200 p-2">Eventos</th>
+                <th className="border-b border-zinc-200 p-2">Entregas</th>
+                <th className="border-b border-zinc-200 p-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {endpoints.map((ep) => (
+                <tr key={ep.id} className={cn(!ep.active && "opacity-60")}>
+                  <td className="border-b border-zinc-100 p-2">
+                    <div className="font-medium">
+                      {ep.name}
+                      {!ep.active ? <span className="ml-2 text-xs text-zinc-500">(desativado)</span> : null}
+                    </div>
+                    <div className="font-mono text-xs text-zinc-500 break-all">{ep.url}</div>
+                  </td>
+                  <td className="border-b border-zinc-100 p-2 text-xs text-zinc-600">
+                    {ep.events.length ? ep.events.map(eventLabel).join(", ") : "Todos"}
+                  </td>
+                  <td className="border-b border-zinc-100 p-2 text-xs">
+                    <span className="text-emerald-700">{ep.stats.DELIVERED} ok</span> ·{" "}
+                    <span className="text-amber-700">{ep.stats.PENDING} pendentes</span> ·{" "}
+                    <span className="text-rose-700">{ep.stats.DEAD} dead</span>
+                  </td>
+                  <td className="border-b border-zinc-100 p-2 text-right">
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={() => patch(ep, { active: !ep.active })}
+                        disabled={busy === ep.id}
+                        className="h-8 rounded-xl border border-zinc-200 px-3 text-xs hover:bg-zinc-50 disabled:opacity-50"
+                      >
+                        {ep.active ? "Desativar" : "Ativar"}
+                      </button>
+                      <button
+                        onClick={() => confirm("Gerar novo segredo? O atual para de valer.") && patch(ep, { rotateSecret: true })}
+                        disabled={busy === ep.id}
+                        className="h-8 rounded-xl border border-zinc-200 px-3 text-xs hover:bg-zinc-50 disabled:opacity-50"
+                      >
+                        Novo segredo
+                      </button>
+                      <button
+                        onClick={() => remove(ep)}
+                        disabled={busy === ep.id}
+                        className="h-8 rounded-xl border border-rose-200 px-3 text-xs text-rose-700 hover:bg-rose-50 disabled:opacity-50"
+                      >
+                        Apagar
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+              {!loading && endpoints.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="p-4 text-center text-sm text-zinc-500">
+                    Nenhum endpoint cadastrado.
+                  </td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="rounded-2xl border border-zinc-200 bg-white p-4 shadow-sm">
+        <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+          <div className="text-sm font-medium">Entregas</div>
+          <div className="flex gap-1">
+            {STATUS_TABS.map((t) => (
+              <button
+                key={t.key || "all"}
+                onClick={() => setTab(t.key)}
+                className={cn(
+                  "h-8 rounded-xl px-3 text-xs",
+                  tab === t.key ? "bg-zinc-900 text-white" : "border border-zinc-200 text-zinc-700 hover:bg-zinc-50"
+                )}
+              >
+                {t.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="overflow-auto">
+          <table className="w-full min-w-[1000px] text-sm">
+            <thead>
+              <tr className="text-left text-xs text-zinc-500">
+                <th className="border-b border-zinc-200 p-2">Criada</th>
+                <th className="border-b border-zinc-200 p-2">Evento</th>
+                <th className="border-b border-zinc-200 p-2">Endpoint</th>
+                <th className="border-b border-zinc-200 p-2">Status</th>
+                <th className="border-b border-zinc-200 p-2">Última tentativa</th>
+                <th className="border-b border-zinc-200 p-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {deliveries.map((d) => (
+                <tr key={d.id} className="align-top">
+                  <td className="border-b border-zinc-100 p-2 text-xs">{fmtDateTimeBR(d.createdAt)}</td>
+                  <td className="border-b border-zinc-100 p-2">
+                    <div>{eventLabel(d.event.type)}</div>
+                    <details className="text-xs text-zinc-500">
+                      <summary className="cursor-pointer">
+                        {d.event.aggregateType} {d.event.aggregateId}
+                      </summary>
+                      <pre className="mt-1 max-w-[420px] overflow-auto rounded-lg bg-zinc-50 p-2">
+                        {JSON.stringify(d.event.payload, null, 2)}
+                      </pre>
+                    </details>
+                  </td>
+                  <td className="border-b border-zinc-100 p-2 text-xs">{d.endpoint.name}</td>
+                  <td className="border-b border-zinc-100 p-2 text-xs">
+                    <span
+                      className={cn(
+                        "rounded-full px-2 py-0.5",
+                        d.status === "DELIVERED" && "bg-emerald-100 text-emerald-700",
+                        d.status === "PENDING" && "bg-amber-100 text-amber-700",
+                        d.status === "DEAD" && "bg-rose-100 text-rose-700"
+                      )}
+                    >
+                      {d.status}
+                    </span>
+                    <div className="mt-1 text-zinc-500">{d.attempts} tentativa(s)</div>
+                    {d.status === "PENDING" ? (
+                      <div className="text-zinc-500">próxima: {fmtDateTimeBR(d.nextAttemptAt)}</div>
+                    ) : null}
+                  </td>
+                  <td className="border-b border-zinc-100 p-2 text-xs text-zinc-600">
+                    <div>{fmtDateTimeBR(d.lastAttemptAt)}</div>
+                    {d.lastStatusCode ? <div>HTTP {d.lastStatusCode}</div> : null}
+                    {d.lastError ? <div className="max-w-[280px] break-words text-rose-700">{d.lastError}</div> : null}
+                  </td>
+                  <td className="border-b border-zinc-100 p-2 text-right">
+                    <button
+                      onClick={() => replay(d)}
+                      disabled={busy === d.id}
+                      className="h-8 rounded-xl border border-zinc-200 px-3 text-xs hover:bg-zinc-50 disabled:opacity-50"
+                    >
+                      {busy === d.id ? "Enviando…" : "Reenviar"}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {deliveries.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="p-4 text-center text-sm text-zinc-500">
+                    Nenhuma entrega.
+                  </td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
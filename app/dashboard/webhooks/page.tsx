@@ -0,0 +1,7 @@
+import WebhooksClient from "./WebhooksClient";
+
+export const dynamic = "force-dynamic";
+
+export default function Page() {
+  return <WebhooksClient />;
+}
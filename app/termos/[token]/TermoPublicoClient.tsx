@@ -0,0 +1,216 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type Clause = { program: string; title: string; text: string };
+
+type Termo = {
+  versao: string;
+  title: string;
+  body: string;
+  clauses: Clause[];
+  effectiveAt: string;
+};
+
+type Accepted = {
+  acceptedAt: string;
+  acceptedPrograms: string[];
+  acceptanceHash: string | null;
+};
+
+type TermoResp = {
+  ok: boolean;
+  error?: string;
+  data?: {
+    cedente: { primeiroNome: string };
+    termo: Termo;
+    accepted: Accepted | null;
+  };
+};
+
+function fmtDateBR(iso: string) {
+  return new Intl.DateTimeFormat("pt-BR", { timeZone: "UTC" }).format(new Date(iso));
+}
+
+function fmtDateTimeBR(iso: string) {
+  return new Date(iso).toLocaleString("pt-BR");
+}
+
+async function fetchTermo(token: string) {
+  const res = await fetch(`/api/termos/public/${encodeURIComponent(token)}`, { cache: "no-store" });
+  const json: TermoResp = await res.json().catch(() => ({ ok: false }));
+  if (!json?.ok || !json.data) throw new Error(json?.error || "Link inválido.");
+  return json.data;
+}
+
+export default function TermoPublicoClient({ token }: { token: string }) {
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [nome, setNome] = useState("");
+  const [termo, setTermo] = useState<Termo | null>(null);
+  const [accepted, setAccepted] = useState<Accepted | null>(null);
+
+  const [programs, setPrograms] = useState<string[]>([]);
+  const [aceito, setAceito] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  function apply(data: NonNullable<TermoResp["data"]>) {
+    setNome(data.cedente.primeiroNome);
+    setTermo(data.termo);
+    setAccepted(data.accepted);
+    // ✅ por padrão todas as cláusulas marcadas; o cedente desmarca o programa que não quer
+    setPrograms(data.termo.clauses.map((c) => c.program));
+  }
+
+  async function reload() {
+    setLoading(true);
+    setError("");
+    try {
+      apply(await fetchTermo(token));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Erro ao carregar o termo.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    let alive = true;
+    fetchTermo(token)
+      .then((data) => alive && apply(data))
+      .catch((e) => alive && setError(e instanceof Error ? e.message : "Erro ao carregar o termo."))
+      .finally(() => alive && setLoading(false));
+    return () => {
+      alive = false;
+    };
+  }, [token]);
+
+  function toggleProgram(program: string, on: boolean) {
+    setPrograms((prev) => (on ? [...prev, program] : prev.filter((p) => p !== program)));
+  }
+
+  async function onAccept() {
+    if (!termo) return;
+    if (!aceito) return alert("Marque que leu e aceita o termo para continuar.");
+
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/termos/public/${encodeURIComponent(token)}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ aceito: true, versao: termo.versao, programs }),
+      });
+      const json = await res.json().catch(() => null);
+      if (res.status === 409) {
+        alert(json?.error || "O termo mudou. Vamos recarregar.");
+        await reload();
+        return;
+      }
+      if (!json?.ok) throw new Error(json?.error || "Falha ao registrar o aceite.");
+      setAccepted(json.data.accepted as Accepted);
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "Erro ao enviar.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-6">
+        <div className="text-sm text-slate-600">Carregando termo...</div>
+      </div>
+    );
+  }
+
+  if (error || !termo) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-6">
+        <div className="w-full max-w-2xl">
+          <h1 className="text-2xl font-bold mb-2">Termo indisponível</h1>
+          <p className="text-sm text-red-600">{error || "Esse link não é válido."}</p>
+          <button className="mt-4 rounded-xl border px-4 py-2 text-sm hover:bg-slate-50" onClick={reload}>
+            Tentar novamente
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex justify-center p-6">
+      <div className="w-full max-w-3xl space-y-6">
+        <div className="text-center">
+          <h1 className="mb-1 text-2xl font-bold">{termo.title}</h1>
+          <div className="text-xs text-slate-500">
+            Versão {termo.versao} • vigente desde {fmtDateBR(termo.effectiveAt)}
+          </div>
+        </div>
+
+        {nome ? <div className="text-sm text-slate-700">Olá, {nome}! Leia o termo abaixo com atenção.</div> : null}
+
+        <div className="rounded-2xl border bg-white p-4">
+          <div className="rounded-xl border bg-slate-50 p-3 text-xs whitespace-pre-wrap leading-relaxed max-h-[420px] overflow-auto">
+            {termo.body}
+          </div>
+        </div>
+
+        {termo.clauses.length > 0 ? (
+          <div className="rounded-2xl border bg-white p-4 space-y-3">
+            <div className="text-sm font-semibold">Cláusulas por programa</div>
+            {termo.clauses.map((c) => (
+              <div key={c.program} className="rounded-xl border p-3 space-y-2">
+                <label className="flex items-center gap-2 text-sm font-medium">
+                  <input
+                    type="checkbox"
+                    checked={programs.includes(c.program)}
+                    disabled={!!accepted}
+                    onChange={(e) => toggleProgram(c.program, e.target.checked)}
+                  />
+                  {c.title}
+                </label>
+                <div className="text-xs whitespace-pre-wrap leading-relaxed text-slate-600">{c.text}</div>
+              </div>
+            ))}
+            <div className="text-xs text-slate-500">Desmarque o programa em que você não quer participar.</div>
+          </div>
+        ) : null}
+
+        {accepted ? (
+          <div className="rounded-2xl border border-emerald-200 bg-emerald-50 p-4 space-y-1 text-sm text-emerald-800">
+            <div className="font-semibold">Termo aceito ✅</div>
+            <div>Em {fmtDateTimeBR(accepted.acceptedAt)}.</div>
+            {accepted.acceptedPrograms.length > 0 ? (
+              <div>Programas: {accepted.acceptedPrograms.join(", ")}</div>
+            ) : null}
+            {accepted.acceptanceHash ? (
+              <div className="break-all text-[11px] text-emerald-700">Comprovante: {accepted.acceptanceHash}</div>
+            ) : null}
+          </div>
+        ) : (
+          <div className="rounded-2xl border bg-white p-4 space-y-3">
+            <label className="flex items-start gap-2 text-sm">
+              <input type="checkbox" className="mt-1" checked={aceito} onChange={(e) => setAceito(e.target.checked)} />
+              <span>
+                Li e estou ciente do termo acima, e <b>autorizo expressamente</b> a utilização da minha conta
+                conforme descrito.
+              </span>
+            </label>
+
+            <button
+              onClick={onAccept}
+              disabled={saving || !aceito}
+              className="w-full rounded-xl bg-black px-4 py-3 text-sm text-white disabled:opacity-60"
+            >
+              {saving ? "Enviando..." : "Aceitar termo"}
+            </button>
+
+            <div className="text-[11px] text-slate-500">
+              Registramos data, hora, IP e navegador como comprovante do aceite.
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,8 @@
+import TermoPublicoClient from "./TermoPublicoClient";
+
+export const dynamic = "force-dynamic";
+
+export default async function TermoPublicoPage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  return <TermoPublicoClient token={token} />;
+}
@@ -0,0 +1,152 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+export type AuditRow = {
+  id: string;
+  model: string;
+  recordId: string;
+  action: "CREATE" | "UPDATE" | "DELETE";
+  requestId: string | null;
+  reason: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  changes: string[];
+  createdAt: string;
+  actor: { id: string; name: string; login: string } | null;
+};
+
+export const AUDIT_MODEL_LABEL: Record<string, string> = {
+  Sale: "Venda",
+  Purchase: "Compra",
+  PurchaseItem: "Item de compra",
+  EmployeePayout: "Pagamento funcionário",
+  TaxMonthPayment: "Imposto do mês",
+  Debt: "Dívida",
+  DebtPayment: "Pagamento de dívida",
+  DividaAReceber: "Dívida a receber",
+  CedenteCommission: "Comissão cedente",
+  ClubCharge: "Cobrança de clube",
+  PaymentCardCycle: "Fatura de cartão",
+  AccountingPeriod: "Período contábil",
+  PeriodAdjustment: "Ajuste de período",
+  SaleCancellation: "Cancelamento de venda",
+  PayoutClawback: "Estorno de comissão",
+  ReceivableInstallment: "Parcela a receber",
+  ClienteMerge: "Mesclagem de clientes",
+  CommissionPlan: "Plano de comissão",
+  MilheiroRate: "Milheiro (histórico)",
+  Settings: "Configurações",
+};
+
+export const AUDIT_ACTION_LABEL: Record<AuditRow["action"], string> = {
+  CREATE: "Criação",
+  UPDATE: "Alteração",
+  DELETE: "Exclusão",
+};
+
+function fmtDateTimeBR(v: string) {
+  const d = new Date(v);
+  if (Number.isNaN(d.getTime())) return "-";
+  return d.toLocaleString("pt-BR", { dateStyle: "short", timeStyle: "short" });
+}
+
+function fmtValue(v: unknown) {
+  if (v === null || v === undefined || v === "") return "—";
+  if (typeof v === "object") return JSON.stringify(v);
+  return String(v);
+}
+
+/** Campos alterados: antes → depois. */
+export function AuditChanges({ row }: { row: AuditRow }) {
+  if (row.action !== "UPDATE") {
+    const snap = row.after ?? row.before ?? {};
+    return (
+      <details className="text-xs text-slate-500">
+        <summary className="cursor-pointer">{Object.keys(snap).length} campos</summary>
+        <pre className="mt-1 max-w-[520px] overflow-auto rounded-lg bg-slate-50 p-2">
+          {JSON.stringify(snap, null, 2)}
+        </pre>
+      </details>
+    );
+  }
+
+  return (
+    <ul className="space-y-0.5 text-xs">
+      {row.changes.map((f) => (
+        <li key={f}>
+          <span className="font-mono text-slate-500">{f}</span>:{" "}
+          <span className="text-rose-700 line-through">{fmtValue(row.before?.[f])}</span>{" "}
+          → <span className="text-emerald-700">{fmtValue(row.after?.[f])}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * ✅ Linha do tempo da auditoria de um registro (telas de detalhe).
+ * Sem permissão de auditoria: não mostra nada.
+ */
+export default function AuditTimeline({ model, recordId }: { model: string; recordId: string }) {
+  const [rows, setRows] = useState<AuditRow[] | null>(null);
+  const [hidden, setHidden] = useState(false);
+
+  useEffect(() => {
+    let alive = true;
+    fetch(`/api/auditoria?model=${encodeURIComponent(model)}&recordId=${encodeURIComponent(recordId)}`, {
+      cache: "no-store",
+    })
+      .then(async (res) => {
+        const json = await res.json().catch(() => null);
+        if (!alive) return;
+        if (!res.ok || !json?.ok) {
+          setHidden(true);
+          return;
+        }
+        setRows(json.rows as AuditRow[]);
+      })
+      .catch(() => alive && setHidden(true));
+    return () => {
+      alive = false;
+    };
+  }, [model, recordId]);
+
+  if (hidden) return null;
+
+  return (
+    <div className="rounded-2xl border p-4">
+      <div className="mb-2 flex items-center justify-between">
+        <div className="text-xs text-slate-500">Histórico de alterações</div>
+        <a
+          href={`/dashboard/auditoria?model=${encodeURIComponent(model)}&recordId=${encodeURIComponent(recordId)}`}
+          className="text-xs underline text-slate-500"
+        >
+          Ver na auditoria
+        </a>
+      </div>
+
+      {rows === null ? (
+        <div className="text-sm text-slate-500">Carregando...</div>
+      ) : rows.length === 0 ? (
+        <div className="text-sm text-slate-500">Nenhuma alteração registrada.</div>
+      ) : (
+        <ol className="space-y-3 border-l pl-4">
+          {rows.map((r) => (
+            <li key={r.id} className="relative">
+              <span className="absolute -left-[21px] top-1.5 h-2 w-2 rounded-full bg-slate-400" />
+              <div className="text-sm">
+                <span className="font-medium">{AUDIT_ACTION_LABEL[r.action]}</span>{" "}
+                <span className="text-slate-500">
+                  {fmtDateTimeBR(r.createdAt)} · {r.actor?.name || "sistema"}
+                </span>
+              </div>
+              {r.reason ? <div className="text-xs text-slate-600">Motivo: {r.reason}</div> : null}
+              <AuditChanges row={r} />
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
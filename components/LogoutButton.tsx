@@ -4,17 +4,20 @@
 import { useRouter } from "next/navigation";
 import { useState } from "react";
 
-export default function LogoutButton() {
+// everywhere: revoga todas as sessões do usuário (todos os dispositivos)
+export default function LogoutButton({ everywhere = false }: { everywhere?: boolean }) {
   const router = useRouter();
   const [loading, setLoading] = useState(false);
 
   const doLogout = async () => {
+    if (everywhere && !window.confirm("Encerrar a sessão em todos os dispositivos?")) return;
+
     setLoading(true);
     try {
       await fetch("/api/auth", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ action: "logout" }),
+        body: JSON.stringify({ action: everywhere ? "logoutAll" : "logout" }),
       });
       router.replace("/login");
     } finally {
@@ -27,9 +30,9 @@ export default function LogoutButton() {
       onClick={doLogout}
       disabled={loading}
       className="rounded-xl border px-3 py-2 text-sm hover:bg-slate-50 disabled:opacity-50"
-      title="Sair"
+      title={everywhere ? "Sair de todos os dispositivos" : "Sair"}
     >
-      {loading ? "Saindo..." : "Sair"}
+      {loading ? "Saindo..." : everywhere ? "Sair de todos" : "Sair"}
     </button>
   );
 }
@@ -8,9 +8,24 @@ import {
   useSearchParams,
   type ReadonlyURLSearchParams,
 } from "next/navigation";
-import { useEffect, useState, type CSSProperties, type ReactNode } from "react";
+import {
+  createContext,
+  useContext,
+  useEffect,
+  useState,
+  type CSSProperties,
+  type ReactNode,
+} from "react";
 import { cn } from "@/lib/cn";
 import { getSession, signOut } from "@/lib/auth";
+import {
+  ROLE_LABEL,
+  can,
+  canAccessPage,
+  normalizeRole,
+  type Permission,
+  type Role,
+} from "@/lib/permissions";
 
 const STRICT_NOQUERY_ACTIVE_PATHS = new Set<string>([
   "/dashboard/cedentes/visualizar",
@@ -21,6 +36,16 @@ const STRICT_NOQUERY_ACTIVE_PATHS = new Set<string>([
 
 const VISUALIZAR_PONTOS_PATH = "/dashboard/cedentes/visualizar";
 
+// ✅ papel do usuário logado (vem de /api/session); null = ainda carregando
+const RoleContext = createContext<Role | null>(null);
+
+function useCanAny(perms?: Permission[]) {
+  const role = useContext(RoleContext);
+  if (!perms) return true;
+  if (!role) return false;
+  return perms.some((p) => can(role, p));
+}
+
 type Accent =
   | "sky"
   | "emerald"
@@ -115,6 +140,21 @@ export default function Sidebar() {
   const search = useSearchParams();
   const session = getSession();
 
+  // ✅ papel sempre do servidor (o cache local pode estar desatualizado)
+  const [role, setRole] = useState<Role | null>(null);
+  useEffect(() => {
+    let alive = true;
+    fetch("/api/session", { cache: "no-store" })
+      .then((r) => r.json())
+      .then((j) => {
+        if (alive && j?.user) setRole(normalizeRole(j.user.role));
+      })
+      .catch(() => {});
+    return () => {
+      alive = false;
+    };
+  }, []);
+
   /* =========================
    * ROTAS
    * ========================= */
@@ -194,13 +234,29 @@ export default function Sidebar() {
   // ✅ NOVO: Prejuízo
   const isPrejuizoRoute = pathname.startsWith("/dashboard/prejuizo");
 
+  // ✅ Conciliação bancária (extrato OFX/CSV)
+  const isConciliacaoRoute = pathname.startsWith("/dashboard/conciliacao");
+
+  // ✅ Cartões da taxa de embarque (faturas e reembolso)
+  const isCartoesRoute = pathname.startsWith("/dashboard/cartoes");
+
+  // ✅ Histórico do milheiro (preço por programa)
+  const isMilheirosRoute = pathname.startsWith("/dashboard/milheiros");
+
+  // ✅ Estoque a custo (lotes FIFO/média)
+  const isEstoqueRoute = pathname.startsWith("/dashboard/estoque");
+
   const isFinanceiroRoute =
     isDividasRoute ||
     isDividasAReceberRoute ||
     isImpostosRoute ||
     isResumoRoute ||
     isCaixaImediatoRoute ||
-    isPrejuizoRoute;
+    isPrejuizoRoute ||
+    isConciliacaoRoute ||
+    isCartoesRoute ||
+    isMilheirosRoute ||
+    isEstoqueRoute;
 
   // ✅ NOVO: Dados contábeis
   const isDadosContabeisRoute = pathname.startsWith("/dashboard/dados-contabeis");
@@ -239,8 +295,11 @@ export default function Sidebar() {
   const isComissoesFuncionariosRoute = pathname.startsWith(
     "/dashboard/comissoes/funcionarios"
   );
+  const isComissoesPlanosRoute = pathname.startsWith(
+    "/dashboard/comissoes/planos"
+  );
   const isComissoesSubRoute =
-    isComissoesCedentesRoute || isComissoesFuncionariosRoute;
+    isComissoesCedentesRoute || isComissoesFuncionariosRoute || isComissoesPlanosRoute;
 
   // ✅ Rotas / queries do submenu "Emissões por cedente"
   const isEmissoesBasePath = pathname === "/dashboard/emissoes";
@@ -279,7 +338,12 @@ export default function Sidebar() {
     "/dashboard/emissoes-balcao"
   );
 
+  const isWebhooksRoute = pathname.startsWith("/dashboard/webhooks");
+  const isAuditoriaRoute = pathname.startsWith("/dashboard/auditoria");
+
   const isOutrosRoute =
+    isAuditoriaRoute ||
+    isWebhooksRoute ||
     isWalletRoute ||
     isAgendaRoute ||
     isAtualizacaoTermosRoute ||
@@ -523,15 +587,17 @@ export default function Sidebar() {
           <div className="font-medium">{session.name}</div>
           <div>Login: {session.login}</div>
           <div>Time: {session.team}</div>
-          <div className="capitalize">Perfil: {session.role}</div>
+          <div>Perfil: {ROLE_LABEL[role ?? normalizeRole(session.role)]}</div>
         </div>
       )}
 
       <div className="flex-1 overflow-y-auto">
+        <RoleContext.Provider value={role}>
         <nav className="space-y-2 px-2 py-4">
           {/* ================= CADASTRO ================= */}
           <Accordion
             title="Cadastro"
+            perms={["cedentes.read", "funcionarios.read", "clientes.read"]}
             open={openCadastro}
             onToggle={() => setOpenCadastro((v) => !v)}
             active={isCadastroRoute}
@@ -539,6 +605,7 @@ export default function Sidebar() {
           >
           <SubAccordion
             title="Cedentes"
+            perms={["cedentes.read"]}
             open={openCedentes}
             onToggle={() => setOpenCedentes((v) => !v)}
           >
@@ -574,6 +641,7 @@ export default function Sidebar() {
 
           <SubAccordion
             title="Funcionários"
+            perms={["funcionarios.read", "payouts.write"]}
             open={openFuncionarios}
             onToggle={() => setOpenFuncionarios((v) => !v)}
           >
@@ -592,6 +660,7 @@ export default function Sidebar() {
 
           <SubAccordion
             title="Clientes"
+            perms={["clientes.read"]}
             open={openClientes}
             onToggle={() => setOpenClientes((v) => !v)}
           >
@@ -606,6 +675,7 @@ export default function Sidebar() {
         {/* ================= GESTÃO DE PONTOS ================= */}
         <Accordion
           title="Gestão de pontos"
+          perms={["cedentes.read", "compras.read", "vendas.read"]}
           open={openGestaoPontos}
           onToggle={() => setOpenGestaoPontos((v) => !v)}
           active={isGestaoPontosRoute}
@@ -613,6 +683,7 @@ export default function Sidebar() {
         >
           <SubAccordion
             title="Visualizar pontos"
+            perms={["cedentes.read"]}
             open={openPontosVisualizar}
             onToggle={() => setOpenPontosVisualizar((v) => !v)}
           >
@@ -752,6 +823,7 @@ export default function Sidebar() {
 
           <SubAccordion
             title="Clube"
+            perms={["cedentes.read"]}
             open={openClubes}
             onToggle={() => setOpenClubes((v) => !v)}
           >
@@ -762,10 +834,19 @@ export default function Sidebar() {
             <NavLink href="/dashboard/clubes" exact>
               Lista
             </NavLink>
+
+            <NavLink href="/dashboard/clubes/regras" exact>
+              Regras e calendário
+            </NavLink>
+
+            <NavLink href="/dashboard/clubes/cobrancas" exact>
+              Cobranças
+            </NavLink>
           </SubAccordion>
 
           <SubAccordion
             title="Compras"
+            perms={["compras.read"]}
             open={openCompras}
             onToggle={() => setOpenCompras((v) => !v)}
           >
@@ -777,6 +858,7 @@ export default function Sidebar() {
 
           <SubAccordion
             title="Vendas"
+            perms={["vendas.read"]}
             open={openVendas}
             onToggle={() => setOpenVendas((v) => !v)}
           >
@@ -796,17 +878,20 @@ export default function Sidebar() {
 
           <SubAccordion
             title="Check Localizador"
+            perms={["vendas.read"]}
             open={openCheckLocalizador}
             onToggle={() => setOpenCheckLocalizador((v) => !v)}
           >
             <NavLink href="/dashboard/check-localizador/latam">Latam</NavLink>
             <NavLink href="/dashboard/check-localizador/smiles">Smiles</NavLink>
+            <NavLink href="/dashboard/check-localizador/fila">Fila de revisão</NavLink>
           </SubAccordion>
         </Accordion>
 
         {/* ================= LUCROS ================= */}
         <Accordion
           title="Lucros & Comissões"
+          perms={["financeiro.read", "payouts.read"]}
           open={openLucros}
           onToggle={() => setOpenLucros((v) => !v)}
           active={isLucrosRoute}
@@ -816,6 +901,7 @@ export default function Sidebar() {
 
           <SubAccordion
             title="Comissões"
+            perms={["payouts.read"]}
             open={openComissoes}
             onToggle={() => setOpenComissoes((v) => !v)}
             variant="nav"
@@ -825,12 +911,16 @@ export default function Sidebar() {
             <NavLink href="/dashboard/comissoes/funcionarios">
               Funcionários
             </NavLink>
+            <NavLink href="/dashboard/comissoes/planos">
+              Planos de comissão
+            </NavLink>
           </SubAccordion>
         </Accordion>
 
         {/* ================= ANÁLISE ================= */}
         <Accordion
           title="Análise & Estratégia"
+          perms={["analytics.read"]}
           open={openAnalise}
           onToggle={() => setOpenAnalise((v) => !v)}
           active={isAnaliseRoute}
@@ -896,6 +986,7 @@ export default function Sidebar() {
         {/* ================= PROTOCOLOS ================= */}
         <Accordion
           title="Protocolos"
+          perms={["protocolos.read"]}
           open={openProtocolos}
           onToggle={() => setOpenProtocolos((v) => !v)}
           active={isProtocolosRoute}
@@ -910,6 +1001,7 @@ export default function Sidebar() {
         {/* ================= FINANCEIRO ================= */}
         <Accordion
           title="Financeiro"
+          perms={["financeiro.read", "dividas.read", "taxes.read"]}
           open={openFinanceiro}
           onToggle={() => setOpenFinanceiro((v) => !v)}
           active={isFinanceiroRoute}
@@ -917,6 +1009,10 @@ export default function Sidebar() {
         >
           <NavLink href="/dashboard/resumo">Resumo</NavLink>
 
+          <NavLink href="/dashboard/milheiros">Milheiro (histórico)</NavLink>
+
+          <NavLink href="/dashboard/estoque">Estoque a custo</NavLink>
+
           {/* ✅ NOVO: Prejuízo */}
           <NavLink href="/dashboard/prejuizo">Prejuízo</NavLink>
 
@@ -928,11 +1024,16 @@ export default function Sidebar() {
           </NavLink>
 
           <NavLink href="/dashboard/impostos">Impostos</NavLink>
+
+          <NavLink href="/dashboard/conciliacao">Conciliação bancária</NavLink>
+
+          <NavLink href="/dashboard/cartoes">Cartões (taxas)</NavLink>
         </Accordion>
 
         {/* ================= DADOS CONTÁBEIS ================= */}
         <Accordion
           title="Dados contábeis"
+          perms={["financeiro.read"]}
           open={openDadosContabeis}
           onToggle={() => setOpenDadosContabeis((v) => !v)}
           active={isDadosContabeisRoute}
@@ -945,6 +1046,7 @@ export default function Sidebar() {
         {/* ================= IMPORTAÇÕES (FORA DO GESTOR) ================= */}
         <Accordion
           title="Importações"
+          perms={["emissoes.write"]}
           open={openImportacoes}
           onToggle={() => setOpenImportacoes((v) => !v)}
           active={isImportacoesRoute || isImportacoesEmissoesLatamRoute}
@@ -969,6 +1071,7 @@ export default function Sidebar() {
         {/* ================= GESTOR DE EMISSÕES ================= */}
         <Accordion
           title="Gestor de emissões"
+          perms={["emissoes.read"]}
           open={openGestorEmissoes}
           onToggle={() => setOpenGestorEmissoes((v) => !v)}
           active={isGestorEmissoesRoute}
@@ -1016,12 +1119,20 @@ export default function Sidebar() {
             >
               Latam
             </NavLink>
+
+            <NavLink
+              href="/dashboard/painel-emissoes/limites"
+              className="font-semibold"
+            >
+              Limites por CPF
+            </NavLink>
           </SubAccordion>
         </Accordion>
 
         {/* ================= OUTROS ================= */}
         <Accordion
           title="Emissões no balcão"
+          perms={["emissoes.read"]}
           open={openEmissoesBalcao}
           onToggle={() => setOpenEmissoesBalcao((v) => !v)}
           active={isEmissoesBalcaoRoute}
@@ -1035,6 +1146,7 @@ export default function Sidebar() {
         {/* ================= OUTROS ================= */}
         <Accordion
           title="Outros"
+          perms={["agenda.read", "cedentes.read", "financeiro.read", "auditoria.read", "webhooks.manage"]}
           open={openOutros}
           onToggle={() => setOpenOutros((v) => !v)}
           active={isOutrosRoute}
@@ -1053,8 +1165,13 @@ export default function Sidebar() {
           </NavLink>
 
           <NavLink href="/dashboard/wallet">Wallet</NavLink>
+
+          <NavLink href="/dashboard/auditoria">Auditoria</NavLink>
+
+          <NavLink href="/dashboard/webhooks">Webhooks</NavLink>
           </Accordion>
         </nav>
+        </RoleContext.Provider>
       </div>
 
       <div className="border-t border-slate-200 bg-white/90 p-3">
@@ -1104,6 +1221,7 @@ function NavLink({
 }) {
   const pathname = usePathname();
   const search = useSearchParams();
+  const role = useContext(RoleContext);
 
   const [hrefPath, hrefQuery = ""] = href.split("?");
   const hasQuery = href.includes("?");
@@ -1119,6 +1237,9 @@ function NavLink({
         currentQuery
       ) && (pathname === href || pathname.startsWith(href + "/"));
 
+  // ✅ esconde o que o papel não acessa (a API barra de qualquer jeito)
+  if (!role || !canAccessPage(role, href)) return null;
+
   return (
     <Link
       href={href}
@@ -1143,6 +1264,7 @@ function Accordion({
   onToggle,
   active,
   accent,
+  perms,
   children,
 }: {
   title: string;
@@ -1150,8 +1272,12 @@ function Accordion({
   onToggle: () => void;
   active?: boolean;
   accent?: Accent;
+  perms?: Permission[];
   children: ReactNode;
 }) {
+  const visible = useCanAny(perms);
+  if (!visible) return null;
+
   return (
     <div className="space-y-1" style={accentStyle(accent)}>
       <button
@@ -1184,6 +1310,7 @@ function SubAccordion({
   children,
   variant = "default",
   active,
+  perms,
 }: {
   title: string;
   href?: string;
@@ -1192,7 +1319,9 @@ function SubAccordion({
   children: ReactNode;
   variant?: "default" | "nav";
   active?: boolean;
+  perms?: Permission[];
 }) {
+  const visible = useCanAny(perms);
   const isNav = variant === "nav";
 
   const rowClass = cn(
@@ -1206,6 +1335,8 @@ function SubAccordion({
       : "w-full flex justify-between items-center px-3 py-2 text-xs font-semibold text-slate-600 hover:bg-slate-100 rounded transition-colors"
   );
 
+  if (!visible) return null;
+
   if (href) {
     return (
       <>
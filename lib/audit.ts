@@ -0,0 +1,269 @@
+// lib/audit.ts
+import "server-only";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { AuditAction, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+/**
+ * ✅ Trilha de auditoria das mutações financeiras.
+ *
+ * O client do time (tenantPrisma) passa create/update/upsert/delete dos models
+ * abaixo por `auditedQuery`: lê o "antes", executa, monta o "depois" e grava
+ * uma linha em audit_logs por registro (UPDATE sem mudança real não gera linha).
+ *
+ * Dentro de `db.$transaction(async (tx) => ...)` as linhas ficam num buffer e só
+ * são gravadas depois do commit (rollback = nada registrado); o "antes" é lido
+ * pela própria `tx`, então enxerga o que a transação já mudou.
+ *
+ * Não pega: escrita aninhada (`items: { create: [...] }`), createMany (sem ids)
+ * e escrita pelo client cru (`prisma`).
+ */
+
+export type AuditContext = {
+  actorId: string | null;
+  requestId: string | null;
+  reason: string | null;
+};
+
+type Row = Record<string, unknown>;
+
+const SCALARS: Partial<Record<Prisma.ModelName, string[]>> = {
+  Sale: Object.values(Prisma.SaleScalarFieldEnum),
+  Purchase: Object.values(Prisma.PurchaseScalarFieldEnum),
+  PurchaseItem: Object.values(Prisma.PurchaseItemScalarFieldEnum),
+  EmployeePayout: Object.values(Prisma.EmployeePayoutScalarFieldEnum),
+  TaxMonthPayment: Object.values(Prisma.TaxMonthPaymentScalarFieldEnum),
+  Debt: Object.values(Prisma.DebtScalarFieldEnum),
+  DebtPayment: Object.values(Prisma.DebtPaymentScalarFieldEnum),
+  DividaAReceber: Object.values(Prisma.DividaAReceberScalarFieldEnum),
+  CedenteCommission: Object.values(Prisma.CedenteCommissionScalarFieldEnum),
+  ClubCharge: Object.values(Prisma.ClubChargeScalarFieldEnum),
+  PaymentCardCycle: Object.values(Prisma.PaymentCardCycleScalarFieldEnum),
+  AccountingPeriod: Object.values(Prisma.AccountingPeriodScalarFieldEnum),
+  PeriodAdjustment: Object.values(Prisma.PeriodAdjustmentScalarFieldEnum),
+  SaleCancellation: Object.values(Prisma.SaleCancellationScalarFieldEnum),
+  PayoutClawback: Object.values(Prisma.PayoutClawbackScalarFieldEnum),
+  ReceivableInstallment: Object.values(Prisma.ReceivableInstallmentScalarFieldEnum),
+  ClienteMerge: Object.values(Prisma.ClienteMergeScalarFieldEnum),
+  CommissionPlan: Object.values(Prisma.CommissionPlanScalarFieldEnum),
+  MilheiroRate: Object.values(Prisma.MilheiroRateScalarFieldEnum),
+  Settings: Object.values(Prisma.SettingsScalarFieldEnum),
+};
+
+export const AUDITED_MODELS = Object.keys(SCALARS) as Prisma.ModelName[];
+
+const AUDITED_OPS = new Set([
+  "create",
+  "createManyAndReturn",
+  "update",
+  "updateMany",
+  "updateManyAndReturn",
+  "upsert",
+  "delete",
+  "deleteMany",
+]);
+
+// não conta como alteração
+const IGNORED_FIELDS = new Set(["updatedAt"]);
+
+// updateMany/deleteMany muito grandes: audita só os primeiros
+const MANY_LIMIT = 500;
+
+type AuditEntry = {
+  team: string;
+  model: string;
+  recordId: string;
+  action: AuditAction;
+  actorId: string | null;
+  requestId: string | null;
+  reason: string | null;
+  before: Row | null;
+  after: Row | null;
+  changes: string[];
+};
+
+const txBuffer = new AsyncLocalStorage<AuditEntry[]>();
+
+export function isAuditedOperation(model: string, operation: string) {
+  return Boolean(SCALARS[model as Prisma.ModelName]) && AUDITED_OPS.has(operation);
+}
+
+type Delegate = {
+  findUnique(args: { where: unknown }): Promise<Row | null>;
+  findMany(args: { where: unknown; take?: number }): Promise<Row[]>;
+};
+
+// `db` = tx da transaction em andamento: o "antes" enxerga o que ela já mudou
+function delegateOf(model: string, db: object = prisma) {
+  const key = model.charAt(0).toLowerCase() + model.slice(1);
+  return (db as Record<string, Delegate>)[key];
+}
+
+function pick(row: unknown, fields: string[]): Row | null {
+  if (!row || typeof row !== "object") return null;
+  const r = row as Row;
+  return Object.fromEntries(fields.filter((f) => f in r).map((f) => [f, r[f]]));
+}
+
+function same(a: unknown, b: unknown) {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function changedFields(before: Row | null, after: Row | null) {
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  return Array.from(keys).filter((k) => !IGNORED_FIELDS.has(k) && !same(before?.[k], after?.[k]));
+}
+
+// updateMany não devolve linhas: aplica o `data` no "antes" (set/increment/...)
+function applyUpdateData(before: Row, data: Row, fields: string[]) {
+  const out: Row = { ...before };
+  for (const [k, v] of Object.entries(data ?? {})) {
+    if (!fields.includes(k)) continue;
+    if (v && typeof v === "object" && !(v instanceof Date) && !Array.isArray(v)) {
+      const op = v as Record<string, unknown>;
+      const cur = Number(before[k] ?? 0);
+      if ("set" in op) out[k] = op.set;
+      else if ("increment" in op) out[k] = cur + Number(op.increment);
+      else if ("decrement" in op) out[k] = cur - Number(op.decrement);
+      else if ("multiply" in op) out[k] = cur * Number(op.multiply);
+      else if ("divide" in op) out[k] = cur / Number(op.divide);
+      continue;
+    }
+    out[k] = v;
+  }
+  return out;
+}
+
+// garante todos os escalares no retorno (p/ o "depois") e devolve o que foi acrescentado
+function withAllScalars(args: Row, fields: string[]) {
+  const next: Row = { ...args };
+  let added: string[] = [];
+
+  if (next.select && typeof next.select === "object") {
+    const sel = next.select as Row;
+    added = fields.filter((f) => !sel[f]);
+    next.select = { ...sel, ...Object.fromEntries(added.map((f) => [f, true])) };
+  } else if (next.omit && typeof next.omit === "object") {
+    added = Object.keys(next.omit as Row).filter((f) => (next.omit as Row)[f]);
+    delete next.omit;
+  }
+
+  return { args: next, added };
+}
+
+function strip<T>(result: T, added: string[]): T {
+  if (!added.length || !result || typeof result !== "object") return result;
+  const copy = { ...(result as Row) };
+  for (const f of added) delete copy[f];
+  return copy as T;
+}
+
+function toJson(row: Row | null): Prisma.InputJsonValue | typeof Prisma.JsonNull {
+  return row ? (JSON.parse(JSON.stringify(row)) as Prisma.InputJsonValue) : Prisma.JsonNull;
+}
+
+async function writeAudit(entries: AuditEntry[]) {
+  if (!entries.length) return;
+  try {
+    await prisma.auditLog.createMany({
+      data: entries.map((e) => ({ ...e, before: toJson(e.before), after: toJson(e.after) })),
+    });
+  } catch (e) {
+    // a mutação já aconteceu: não derruba a request por causa do log
+    console.error("[audit] falha ao gravar", e);
+  }
+}
+
+async function record(entries: AuditEntry[]) {
+  const buffer = txBuffer.getStore();
+  if (buffer) buffer.push(...entries);
+  else await writeAudit(entries);
+}
+
+async function readBefore(db: object | undefined, model: string, where: unknown, fields: string[]) {
+  return pick(await delegateOf(model, db).findUnique({ where }), fields);
+}
+
+export async function auditedQuery<T>(args: {
+  model: string;
+  operation: string;
+  args: Row;
+  query: (args: Row) => Promise<T>;
+  team: string;
+  ctx: AuditContext;
+  db?: object; // tx da transaction interativa (sem ela, lê pelo client cru)
+}): Promise<T> {
+  const { model, operation, team, ctx, db } = args;
+  const fields = SCALARS[model as Prisma.ModelName] ?? [];
+
+  const entry = (action: AuditAction, before: Row | null, after: Row | null): AuditEntry | null => {
+    const recordId = String(after?.id ?? before?.id ?? "");
+    if (!recordId) return null;
+    const changes = action === AuditAction.UPDATE ? changedFields(before, after) : [];
+    if (action === AuditAction.UPDATE && changes.length === 0) return null;
+    return { team, model, recordId, action, ...ctx, before, after, changes };
+  };
+  const push = (list: Array<AuditEntry | null>) => record(list.filter((e): e is AuditEntry => e !== null));
+
+  if (operation === "create" || operation === "update" || operation === "upsert" || operation === "delete") {
+    const before =
+      operation === "update" || operation === "upsert" ? await readBefore(db, model, args.args.where, fields) : null;
+
+    const { args: full, added } = withAllScalars(args.args, fields);
+    const result = await args.query(full);
+    const row = pick(result, fields);
+
+    if (operation === "delete") await push([entry(AuditAction.DELETE, row, null)]);
+    else if (operation === "create" || (operation === "upsert" && !before)) {
+      await push([entry(AuditAction.CREATE, null, row)]);
+    } else await push([entry(AuditAction.UPDATE, before, row)]);
+
+    return strip(result, added);
+  }
+
+  if (operation === "createManyAndReturn") {
+    const { args: full, added } = withAllScalars(args.args, fields);
+    const result = await args.query(full);
+    const rows = Array.isArray(result) ? result : [];
+    await push(rows.map((r) => entry(AuditAction.CREATE, null, pick(r, fields))));
+    return (Array.isArray(result) ? result.map((r) => strip(r, added)) : result) as T;
+  }
+
+  // updateMany / updateManyAndReturn / deleteMany
+  const befores = (await delegateOf(model, db).findMany({ where: args.args.where, take: MANY_LIMIT }))
+    .map((r) => pick(r, fields))
+    .filter((r): r is Row => r !== null);
+
+  const result = await args.query(args.args);
+
+  if (operation === "deleteMany") {
+    await push(befores.map((b) => entry(AuditAction.DELETE, b, null)));
+  } else {
+    const data = (args.args.data ?? {}) as Row;
+    await push(befores.map((b) => entry(AuditAction.UPDATE, b, applyUpdateData(b, data, fields))));
+  }
+
+  return result;
+}
+
+/**
+ * `$transaction(fn)` do client do time: acumula o log e grava após o commit.
+ * (forma em lista `$transaction([...])` grava na hora)
+ */
+export function withAuditTransactions<T extends object>(client: T): T {
+  return new Proxy(client, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+      if (prop !== "$transaction" || typeof value !== "function") return value;
+
+      return async (arg: unknown, options?: unknown) => {
+        if (typeof arg !== "function" || txBuffer.getStore()) return value.call(target, arg, options);
+
+        const buffer: AuditEntry[] = [];
+        const out = await txBuffer.run(buffer, () => value.call(target, arg, options));
+        await writeAudit(buffer);
+        return out;
+      };
+    },
+  });
+}
@@ -1,40 +1,41 @@
 // lib/auth-server.ts
 import "server-only";
 import { cookies } from "next/headers";
-
-type Role = "admin" | "staff";
+import {
+  SESSION_COOKIE,
+  readSessionCookie,
+  rotateSessionIfNeeded,
+  sessionCookieOptions,
+} from "@/lib/session";
+import type { Role } from "@/lib/permissions";
 
 export type Session = {
   id: string;
   login: string;
   role: Role;
   team: string;
+  sid: string;
 };
 
-function b64urlDecode(input: string) {
-  const b64 = input.replace(/-/g, "+").replace(/_/g, "/");
-  const pad = b64.length % 4;
-  const padded = pad ? b64 + "=".repeat(4 - pad) : b64;
-  return Buffer.from(padded, "base64").toString("utf8");
-}
-
 export async function getSessionServer(): Promise<Session | null> {
   try {
     const jar = await cookies(); // ✅ Next 16: cookies() pode ser Promise
-    const raw = jar.get("tm.session")?.value;
+    const raw = jar.get(SESSION_COOKIE)?.value;
     if (!raw) return null;
 
-    const json = b64urlDecode(raw);
-    const s = JSON.parse(json);
+    // ✅ token assinado + sessão ativa no banco (revogação vale na hora)
+    const sess = await readSessionCookie(raw);
+    if (!sess) return null;
 
-    if (!s?.id || !s?.login || !s?.role || !s?.team) return null;
+    // ✅ rotação: só funciona em route handler / server action
+    // (server component não pode gravar cookie — aí segue com o token atual)
+    try {
+      await rotateSessionIfNeeded(raw, (token) =>
+        jar.set(SESSION_COOKIE, token, sessionCookieOptions())
+      );
+    } catch {}
 
-    return {
-      id: String(s.id),
-      login: String(s.login),
-      role: s.role as Role,
-      team: String(s.team),
-    };
+    return sess;
   } catch {
     return null;
   }
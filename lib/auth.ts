@@ -1,13 +1,15 @@
 // src/lib/auth.ts
 "use client";
 
+import type { Role } from "@/lib/permissions";
+
 export type Session = {
   id: string;
   name: string;
   login: string;
   email?: string | null;
   team: string;
-  role: "admin" | "staff";
+  role: Role;
 };
 
 const AUTH_SESSION_KEY = "auth_session";
@@ -63,9 +63,13 @@ export function netProfitAfterTaxCents(profitCents: number, taxCents: number) {
   return Number(profitCents || 0) - Number(taxCents || 0);
 }
 
-export function sellerCommissionCentsFromNet(netProfitCents: number) {
+/** % do vendedor vem do plano de comissão (lib/payouts/commissionPlans); 60% sem plano. */
+export function sellerCommissionCentsFromNet(
+  netProfitCents: number,
+  percent: number = BALCAO_SELLER_COMMISSION_PERCENT
+) {
   return Math.round(
     Math.max(0, Number(netProfitCents || 0)) *
-      (BALCAO_SELLER_COMMISSION_PERCENT / 100)
+      (percent / 100)
   );
 }
@@ -0,0 +1,295 @@
+// lib/bloqueios.ts
+import type { BlockStatus, LoyaltyProgram, Prisma } from "@prisma/client";
+import { milheiroValueCents, type RateResolver } from "@/lib/milheiro-rates";
+import { emitDomainEvent } from "@/lib/outbox";
+import { tenantPrisma } from "@/lib/tenant";
+
+/**
+ * ✅ Bloqueios como caso
+ *
+ * - motivo por programa (taxonomia fixa abaixo; "OUTRO" sempre existe)
+ * - pontos travados gravados na abertura (pointsAtBlock) → histórico de valor parado
+ * - SLA: dias até desbloquear por programa e motivo (só UNBLOCKED conta)
+ * - previsão: a informada; sem ela, abertura + média do SLA (motivo, senão programa)
+ * - lembrete: previsão vencida dispara `block.unlock_overdue` uma vez por previsão
+ *
+ * Vendas, sugestões e estratégia já ignoram o programa com bloqueio OPEN.
+ */
+
+// client do time (tenantPrisma) ou `tx` de uma transaction dele
+type Db = Prisma.TransactionClient;
+
+export class BlockCaseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BlockCaseError";
+  }
+}
+
+export const BLOCK_PROGRAMS = ["LATAM", "SMILES", "LIVELO", "ESFERA"] as const satisfies readonly LoyaltyProgram[];
+export type BlockProgram = (typeof BLOCK_PROGRAMS)[number];
+
+export type BlockReason = { code: string; label: string };
+
+const OTHER: BlockReason = { code: "OUTRO", label: "Outro" };
+
+export const BLOCK_REASONS: Record<BlockProgram, BlockReason[]> = {
+  LATAM: [
+    { code: "EMISSAO_TERCEIROS", label: "Emissões para terceiros" },
+    { code: "VALIDACAO_IDENTIDADE", label: "Validação de identidade / selfie" },
+    { code: "TRANSFERENCIA_PONTOS", label: "Transferência de pontos recebida" },
+    { code: "COMPRA_PONTOS", label: "Compra de pontos / clube" },
+    { code: "SUSPEITA_FRAUDE", label: "Suspeita de fraude" },
+    OTHER,
+  ],
+  SMILES: [
+    { code: "EMISSAO_TERCEIROS", label: "Emissões para terceiros" },
+    { code: "BLOQUEIO_PREVENTIVO", label: "Bloqueio preventivo" },
+    { code: "TRANSFERENCIA_PONTOS", label: "Transferência de pontos recebida" },
+    { code: "DADOS_CADASTRAIS", label: "Divergência cadastral" },
+    { code: "SUSPEITA_FRAUDE", label: "Suspeita de fraude" },
+    OTHER,
+  ],
+  LIVELO: [
+    { code: "TRANSFERENCIA_SUSPEITA", label: "Transferência para parceiro em análise" },
+    { code: "COMPRA_PONTOS", label: "Compra de pontos em análise" },
+    { code: "DADOS_CADASTRAIS", label: "Divergência cadastral" },
+    { code: "SUSPEITA_FRAUDE", label: "Suspeita de fraude" },
+    OTHER,
+  ],
+  ESFERA: [
+    { code: "TRANSFERENCIA_SUSPEITA", label: "Transferência para parceiro em análise" },
+    { code: "CARTAO_BANCO", label: "Pendência no cartão/banco" },
+    { code: "DADOS_CADASTRAIS", label: "Divergência cadastral" },
+    { code: "SUSPEITA_FRAUDE", label: "Suspeita de fraude" },
+    OTHER,
+  ],
+};
+
+export function isBlockProgram(v: unknown): v is BlockProgram {
+  return (BLOCK_PROGRAMS as readonly string[]).includes(String(v));
+}
+
+export function blockReasonLabel(program: LoyaltyProgram, code: string | null | undefined) {
+  if (!code) return "Sem motivo";
+  const list = isBlockProgram(program) ? BLOCK_REASONS[program] : [OTHER];
+  return list.find((r) => r.code === code)?.label ?? code;
+}
+
+/** Motivo informado → código válido do programa (vazio = sem motivo). */
+export function parseReasonCode(program: LoyaltyProgram, raw: unknown) {
+  const code = String(raw ?? "").trim().toUpperCase();
+  if (!code) return null;
+  const list = isBlockProgram(program) ? BLOCK_REASONS[program] : [OTHER];
+  if (!list.some((r) => r.code === code)) throw new BlockCaseError("Motivo inválido para o programa.");
+  return code;
+}
+
+const DAY_MS = 24 * 3600_000;
+
+function daysBetween(a: Date, b: Date) {
+  return (b.getTime() - a.getTime()) / DAY_MS;
+}
+
+function median(xs: number[]) {
+  if (!xs.length) return 0;
+  const s = [...xs].sort((a, b) => a - b);
+  const mid = Math.floor(s.length / 2);
+  return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
+}
+
+function round1(n: number) {
+  return Math.round(n * 10) / 10;
+}
+
+export type SlaRow = {
+  program: LoyaltyProgram;
+  reasonCode: string | null; // null = todos os motivos do programa
+  reasonLabel: string;
+  resolved: number;
+  avgDays: number;
+  medianDays: number;
+  maxDays: number;
+  open: number;
+  overdue: number;
+};
+
+/** Amostra mínima para a média do motivo valer na previsão (senão usa a do programa). */
+const MIN_SLA_SAMPLES = 3;
+
+type SlaBlock = {
+  program: LoyaltyProgram;
+  status: BlockStatus;
+  reasonCode: string | null;
+  createdAt: Date;
+  resolvedAt: Date | null;
+  estimatedUnlockAt: Date | null;
+};
+
+function slaRow(program: LoyaltyProgram, reasonCode: string | null, list: SlaBlock[], now: Date): SlaRow {
+  const days = list
+    .filter((b) => b.status === "UNBLOCKED" && b.resolvedAt)
+    .map((b) => Math.max(0, daysBetween(b.createdAt, b.resolvedAt as Date)));
+  const open = list.filter((b) => b.status === "OPEN");
+
+  return {
+    program,
+    reasonCode,
+    reasonLabel: reasonCode === null ? "Todos os motivos" : blockReasonLabel(program, reasonCode),
+    resolved: days.length,
+    avgDays: days.length ? round1(days.reduce((a, d) => a + d, 0) / days.length) : 0,
+    medianDays: round1(median(days)),
+    maxDays: days.length ? round1(Math.max(...days)) : 0,
+    open: open.length,
+    overdue: open.filter((b) => b.estimatedUnlockAt && b.estimatedUnlockAt < now).length,
+  };
+}
+
+/** SLA por programa (linha "todos") e por programa + motivo. */
+export function computeSla(blocks: SlaBlock[], now: Date = new Date()) {
+  const rows: SlaRow[] = [];
+  const programs = Array.from(new Set(blocks.map((b) => b.program)));
+
+  for (const program of programs) {
+    const list = blocks.filter((b) => b.program === program && b.status !== "CANCELED");
+    rows.push(slaRow(program, null, list, now));
+
+    const codes = Array.from(new Set(list.map((b) => b.reasonCode ?? "")));
+    for (const code of codes) {
+      rows.push(slaRow(program, code || "", list.filter((b) => (b.reasonCode ?? "") === code), now));
+    }
+  }
+
+  return rows;
+}
+
+export type UnlockForecast = {
+  at: Date | null;
+  basis: "ESTIMATE" | "REASON_SLA" | "PROGRAM_SLA" | null;
+  samples: number;
+};
+
+/** Previsão de desbloqueio: informada > média do motivo > média do programa. */
+export function forecastUnlock(
+  block: { program: LoyaltyProgram; reasonCode: string | null; createdAt: Date; estimatedUnlockAt: Date | null },
+  sla: SlaRow[]
+): UnlockForecast {
+  if (block.estimatedUnlockAt) return { at: block.estimatedUnlockAt, basis: "ESTIMATE", samples: 0 };
+
+  const byReason = sla.find((r) => r.program === block.program && r.reasonCode === (block.reasonCode ?? ""));
+  if (byReason && byReason.resolved >= MIN_SLA_SAMPLES) {
+    return {
+      at: new Date(block.createdAt.getTime() + byReason.avgDays * DAY_MS),
+      basis: "REASON_SLA",
+      samples: byReason.resolved,
+    };
+  }
+
+  const byProgram = sla.find((r) => r.program === block.program && r.reasonCode === null);
+  if (byProgram && byProgram.resolved > 0) {
+    return {
+      at: new Date(block.createdAt.getTime() + byProgram.avgDays * DAY_MS),
+      basis: "PROGRAM_SLA",
+      samples: byProgram.resolved,
+    };
+  }
+
+  return { at: null, basis: null, samples: 0 };
+}
+
+export type BlockValuePoint = { date: string; openCount: number; points: number; valueCents: number };
+
+/**
+ * Valor parado em bloqueios ao longo do tempo: em cada data, soma dos pontos
+ * travados dos bloqueios abertos naquele dia × milheiro vigente no dia.
+ * Cancelados não entram (foram lançamento errado, não bloqueio).
+ */
+export function blockValueSeries(
+  blocks: Array<SlaBlock & { pointsAtBlock: number; updatedAt: Date }>,
+  resolveRate: RateResolver,
+  args: { from: Date; to: Date; stepDays?: number }
+): BlockValuePoint[] {
+  const step = Math.max(1, args.stepDays ?? 7) * DAY_MS;
+  const valid = blocks.filter((b) => b.status !== "CANCELED");
+  const out: BlockValuePoint[] = [];
+
+  for (let t = args.from.getTime(); t <= args.to.getTime() + 1; t += step) {
+    const at = new Date(Math.min(t, args.to.getTime()));
+    const open = valid.filter((b) => {
+      if (b.createdAt > at) return false;
+      const closedAt = b.status === "UNBLOCKED" ? b.resolvedAt ?? b.updatedAt : null;
+      return !closedAt || closedAt > at;
+    });
+
+    out.push({
+      date: at.toISOString().slice(0, 10),
+      openCount: open.length,
+      points: open.reduce((a, b) => a + b.pointsAtBlock, 0),
+      valueCents: open.reduce(
+        (a, b) => a + milheiroValueCents(b.pointsAtBlock, resolveRate(b.program, at).sellRateCents),
+        0
+      ),
+    });
+  }
+
+  return out;
+}
+
+/** Bloqueios do time no formato dos cálculos de SLA/série. */
+export async function loadSlaBlocks(db: Db) {
+  return db.blockedAccount.findMany({
+    select: {
+      program: true,
+      status: true,
+      reasonCode: true,
+      createdAt: true,
+      updatedAt: true,
+      resolvedAt: true,
+      estimatedUnlockAt: true,
+      pointsAtBlock: true,
+    },
+  });
+}
+
+/**
+ * Lembrete de previsão vencida (cron): emite `block.unlock_overdue` para os
+ * bloqueios OPEN com previsão passada e ainda não avisados nesta previsão
+ * (remarcar a previsão zera o aviso).
+ */
+export async function notifyOverdueBlocks(team: string, now: Date = new Date()) {
+  const db = tenantPrisma(team);
+
+  const due = await db.blockedAccount.findMany({
+    where: { status: "OPEN", estimatedUnlockAt: { lt: now }, overdueNotifiedAt: null },
+    select: {
+      id: true,
+      program: true,
+      reasonCode: true,
+      estimatedUnlockAt: true,
+      cedente: { select: { id: true, identificador: true, nomeCompleto: true } },
+    },
+  });
+
+  for (const b of due) {
+    await db.$transaction(async (tx) => {
+      await tx.blockedAccount.update({ where: { id: b.id }, data: { overdueNotifiedAt: now } });
+      await emitDomainEvent(tx, {
+        team,
+        type: "block.unlock_overdue",
+        aggregateType: "BlockedAccount",
+        aggregateId: b.id,
+        payload: {
+          cedenteId: b.cedente.id,
+          cedente: `${b.cedente.nomeCompleto} (${b.cedente.identificador})`,
+          program: b.program,
+          reasonCode: b.reasonCode,
+          reason: blockReasonLabel(b.program, b.reasonCode),
+          estimatedUnlockAt: b.estimatedUnlockAt ? b.estimatedUnlockAt.toISOString() : null,
+          daysOverdue: b.estimatedUnlockAt ? Math.floor(daysBetween(b.estimatedUnlockAt, now)) : 0,
+        },
+      });
+    });
+  }
+
+  return { notified: due.length };
+}
@@ -0,0 +1,402 @@
+import type { Prisma, SaleRefundStatus } from "@prisma/client";
+import { gateSaleChange } from "@/lib/contabil";
+import { emitDomainEvent } from "@/lib/outbox";
+import {
+  commissionBonusCents,
+  commissionC1Cents,
+  type PlanRules,
+  resolvePlanFor,
+  saleCommissionBase,
+} from "@/lib/payouts/commissionPlans";
+import { postPointsMovement } from "@/lib/points-ledger";
+import { reverseSaleConsumption } from "@/lib/points-lots";
+import { cancelOpenInstallments } from "@/lib/recebiveis";
+import { recifeDateISO } from "@/lib/taxes";
+
+/**
+ * ✅ Cancelamento de venda
+ *
+ * Numa transação só: venda e recebível cancelados, reembolso ao cliente
+ * (total ou parcial, fica PENDING até alguém marcar pago), pontos de volta
+ * ao cedente (opcional), estorno dos passageiros (EmissionEvent negativo) e
+ * estorno da comissão (C1+C2) se o dia do vendedor já foi pago — essa linha
+ * é descontada no próximo pagamento dele (compute).
+ *
+ * C3 (rateio por compra finalizada) não é estornado aqui: ele é da compra,
+ * não da venda. Venda de mês fechado só cancela como ajuste (ver contabil).
+ */
+
+// client do time (tenantPrisma) ou `tx` de uma transaction dele
+type Db = Prisma.TransactionClient;
+
+export class SaleCancelError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SaleCancelError";
+  }
+}
+
+export const REFUND_STATUS_LABEL: Record<SaleRefundStatus, string> = {
+  NONE: "Sem reembolso",
+  PENDING: "Reembolso pendente",
+  PAID: "Reembolsado",
+};
+
+const DEFAULT_TAX_PERCENT = 8;
+
+export type CancelInput = {
+  saleId: string;
+  reason: string | null;
+  refundCents: number | null; // null = tudo o que foi recebido
+  returnPoints: boolean;
+  keepPassengers: boolean; // true = CPF continua queimado
+  ajuste: boolean; // venda de mês fechado: lança como ajuste no mês atual
+};
+
+/** Quanto dá para devolver: o que o cliente já pagou. */
+export function refundableCents(sale: {
+  paymentStatus: string;
+  totalCents: number;
+  receivable: { receivedCents: number } | null;
+}) {
+  if (sale.paymentStatus === "PAID") return sale.totalCents;
+  return Math.max(0, Math.min(sale.totalCents, sale.receivable?.receivedCents ?? 0));
+}
+
+/** C1 + C2 da venda, igual ao compute (gravado na venda > plano de comissão do vendedor). */
+function saleCommissionCents(
+  rules: PlanRules,
+  s: {
+    points: number;
+    milheiroCents: number;
+    totalCents: number;
+    embarqueFeeCents: number;
+    pointsValueCents: number;
+    commissionCents: number;
+    bonusCents: number;
+    metaMilheiroCents: number;
+  }
+) {
+  const base = saleCommissionBase(s);
+  const c1 = s.commissionCents > 0 ? s.commissionCents : commissionC1Cents(rules, base.pvNoFeeCents);
+  const c2 =
+    s.bonusCents > 0
+      ? s.bonusCents
+      : commissionBonusCents(rules, {
+          points: s.points,
+          milheiroCents: base.milheiroNoFeeCents,
+          metaMilheiroCents: s.metaMilheiroCents,
+        });
+  return c1 + c2;
+}
+
+function payoutTaxPercent(breakdown: Prisma.JsonValue | null) {
+  if (!breakdown || typeof breakdown !== "object" || Array.isArray(breakdown)) return DEFAULT_TAX_PERCENT;
+  const n = Number(breakdown.taxPercent);
+  return Number.isFinite(n) ? n : DEFAULT_TAX_PERCENT;
+}
+
+function payoutBasis(breakdown: Prisma.JsonValue | null) {
+  if (!breakdown || typeof breakdown !== "object" || Array.isArray(breakdown)) return "SALE_DATE";
+  return breakdown.basis === "PURCHASE_FINALIZED" ? "PURCHASE_FINALIZED" : "SALE_DATE";
+}
+
+/**
+ * Pagamento (já pago) em que a comissão da venda entrou: dia da criação da
+ * venda (basis SALE_DATE) ou dia da finalização da compra (PURCHASE_FINALIZED).
+ */
+async function paidCommissionPayout(
+  db: Db,
+  team: string,
+  sale: { sellerId: string | null; createdAt: Date; purchase: { finalizedAt: Date | null } | null }
+) {
+  if (!sale.sellerId) return null;
+
+  const saleDay = recifeDateISO(sale.createdAt);
+  const purchaseDay = sale.purchase?.finalizedAt ? recifeDateISO(sale.purchase.finalizedAt) : null;
+
+  const payouts = await db.employeePayout.findMany({
+    where: {
+      team,
+      userId: sale.sellerId,
+      date: { in: purchaseDay ? [saleDay, purchaseDay] : [saleDay] },
+      paidAt: { not: null },
+    },
+    select: { id: true, date: true, breakdown: true },
+  });
+
+  return (
+    payouts.find((p) => {
+      const basis = payoutBasis(p.breakdown);
+      return basis === "SALE_DATE" ? p.date === saleDay : p.date === purchaseDay;
+    }) ?? null
+  );
+}
+
+export async function cancelSale(tx: Db, args: { team: string; actorId: string; input: CancelInput }) {
+  const { team, actorId, input } = args;
+
+  const sale = await tx.sale.findUnique({
+    where: { id: input.saleId },
+    include: {
+      receivable: { select: { id: true, receivedCents: true } },
+      purchase: { select: { finalizedAt: true } },
+    },
+  });
+  if (!sale) throw new SaleCancelError("Venda não encontrada.");
+  if (sale.paymentStatus === "CANCELED") return { alreadyCanceled: true as const };
+
+  const refundable = refundableCents(sale);
+  const refundCents = input.refundCents ?? refundable;
+  if (!Number.isInteger(refundCents) || refundCents < 0) throw new SaleCancelError("Valor de reembolso inválido.");
+  if (refundCents > refundable) {
+    throw new SaleCancelError(
+      `Reembolso maior do que o recebido do cliente (máximo ${(refundable / 100).toFixed(2).replace(".", ",")}).`
+    );
+  }
+
+  // ✅ reserva a venda antes de qualquer efeito: dois cancelamentos ao mesmo
+  // tempo → só um passa daqui (o outro vê count 0)
+  const claimed = await tx.sale.updateMany({
+    where: { id: sale.id, paymentStatus: { not: "CANCELED" } },
+    data: { paymentStatus: "CANCELED", paidAt: null },
+  });
+  if (claimed.count === 0) return { alreadyCanceled: true as const };
+
+  // ✅ mês fechado: recusa ou vira ajuste no mês atual
+  const adjustment = await gateSaleChange(tx, {
+    team,
+    userId: actorId,
+    sale,
+    kind: "SALE_CANCEL",
+    ajuste: input.ajuste,
+  });
+
+  // 1) pontos de volta ao cedente
+  const pointsReturned = input.returnPoints ? Math.max(0, sale.points) : 0;
+  if (pointsReturned > 0) {
+    await postPointsMovement(tx, {
+      cedenteId: sale.cedenteId,
+      program: sale.program,
+      deltaPoints: pointsReturned,
+      source: "SALE_CANCEL",
+      actorId,
+      refType: "SALE",
+      refId: sale.id,
+      note: `Cancelamento da venda ${sale.numero}`,
+    });
+    // devolve o custo aos mesmos lotes que a venda consumiu
+    await reverseSaleConsumption(tx, sale.id);
+  }
+
+  // 2) passageiros: estorno com evento negativo na data da emissão (libera a cota)
+  const passengersReleased = !input.keepPassengers ? Math.max(0, sale.passengers) : 0;
+  const reversal =
+    passengersReleased > 0
+      ? await tx.emissionEvent.create({
+          data: {
+            team,
+            cedenteId: sale.cedenteId,
+            program: sale.program,
+            passengersCount: -passengersReleased,
+            issuedAt: sale.date,
+            source: "ADJUSTMENT",
+            note: `Estorno do cancelamento da venda ${sale.numero}`,
+          },
+        })
+      : null;
+
+  // 3) recebível (a venda já foi marcada na reserva)
+  if (sale.receivable) {
+    await tx.receivable.update({
+      where: { id: sale.receivable.id },
+      data: { status: "CANCELED", balanceCents: 0 },
+    });
+    await cancelOpenInstallments(tx, sale.receivable.id);
+  }
+  const cancellation = await tx.saleCancellation.create({
+    data: {
+      team,
+      saleId: sale.id,
+      clienteId: sale.clienteId,
+      reason: input.reason,
+      saleTotalCents: sale.totalCents,
+      refundCents,
+      refundStatus: refundCents > 0 ? "PENDING" : "NONE",
+      pointsReturned,
+      passengersReleased,
+      emissionReversalId: reversal?.id ?? null,
+      adjustmentId: adjustment?.id ?? null,
+      createdById: actorId,
+    },
+  });
+
+  // 4) comissão já paga → estorno no próximo pagamento do vendedor
+  const paid = await paidCommissionPayout(tx, team, sale);
+  const commissionCents = paid
+    ? saleCommissionCents((await resolvePlanFor(tx, sale.sellerId, sale.createdAt)).rules, sale)
+    : 0;
+  const clawback =
+    paid && sale.sellerId && commissionCents > 0
+      ? await tx.payoutClawback.create({
+          data: {
+            team,
+            cancellationId: cancellation.id,
+            userId: sale.sellerId,
+            sourceDate: paid.date,
+            sourcePayoutId: paid.id,
+            commissionCents,
+            amountCents:
+              commissionCents - Math.round(commissionCents * (payoutTaxPercent(paid.breakdown) / 100)),
+          },
+        })
+      : null;
+
+  await emitDomainEvent(tx, {
+    team,
+    type: "sale.canceled",
+    aggregateType: "Sale",
+    aggregateId: sale.id,
+    actorId,
+    payload: {
+      numero: sale.numero,
+      program: sale.program,
+      points: sale.points,
+      passengers: sale.passengers,
+      totalCents: sale.totalCents,
+      keepPassengers: input.keepPassengers,
+      cancellationId: cancellation.id,
+      refundCents,
+      pointsReturned,
+      passengersReleased,
+      clawbackCents: clawback?.amountCents ?? 0,
+      adjustmentId: adjustment?.id ?? null,
+    },
+  });
+
+  return { alreadyCanceled: false as const, cancellation, clawback, adjustment };
+}
+
+export async function markRefundPaid(db: Db, args: { id: string; userId: string; note: string | null }) {
+  const c = await db.saleCancellation.findUnique({ where: { id: args.id }, select: { id: true, refundStatus: true } });
+  if (!c) throw new SaleCancelError("Cancelamento não encontrado.");
+  if (c.refundStatus !== "PENDING") throw new SaleCancelError("Esse cancelamento não tem reembolso pendente.");
+
+  return db.saleCancellation.update({
+    where: { id: c.id },
+    data: { refundStatus: "PAID", refundPaidAt: new Date(), refundPaidById: args.userId, refundNote: args.note },
+  });
+}
+
+export async function undoRefundPaid(db: Db, id: string) {
+  const c = await db.saleCancellation.findUnique({ where: { id }, select: { id: true, refundStatus: true } });
+  if (!c) throw new SaleCancelError("Cancelamento não encontrado.");
+  if (c.refundStatus !== "PAID") throw new SaleCancelError("Esse reembolso não está marcado como pago.");
+
+  return db.saleCancellation.update({
+    where: { id: c.id },
+    data: { refundStatus: "PENDING", refundPaidAt: null, refundPaidById: null, refundNote: null },
+  });
+}
+
+/**
+ * Estornos a descontar no pagamento do dia `date` (compute).
+ * Solta antes os que estavam num pagamento não pago desse dia (recalcular
+ * reaplica) e pega os pendentes criados até o fim do dia.
+ */
+export async function pendingClawbacks(db: Db, args: { team: string; date: string; dayEnd: Date; userIds: string[] }) {
+  await db.payoutClawback.updateMany({
+    where: {
+      team: args.team,
+      appliedDate: args.date,
+      OR: [{ appliedPayoutId: null }, { appliedPayout: { paidById: null } }],
+    },
+    data: { appliedDate: null, appliedPayoutId: null },
+  });
+
+  if (!args.userIds.length) return new Map<string, { amountCents: number; ids: string[] }>();
+
+  const rows = await db.payoutClawback.findMany({
+    where: {
+      team: args.team,
+      userId: { in: args.userIds },
+      appliedPayoutId: null,
+      createdAt: { lt: args.dayEnd },
+    },
+    orderBy: { createdAt: "asc" },
+    select: { id: true, userId: true, amountCents: true },
+  });
+
+  const byUser = new Map<string, { amountCents: number; ids: string[] }>();
+  for (const r of rows) {
+    const cur = byUser.get(r.userId) ?? { amountCents: 0, ids: [] };
+    cur.amountCents += r.amountCents;
+    cur.ids.push(r.id);
+    byUser.set(r.userId, cur);
+  }
+  return byUser;
+}
+
+export async function applyClawbacks(db: Db, args: { ids: string[]; payoutId: string; date: string }) {
+  if (!args.ids.length) return;
+  await db.payoutClawback.updateMany({
+    where: { id: { in: args.ids } },
+    data: { appliedPayoutId: args.payoutId, appliedDate: args.date },
+  });
+}
+
+/** Relatório: cancelamentos do mês (data do cancelamento, UTC) com tudo o que foi desfeito. */
+export async function cancellationReport(db: Db, args: { start: Date; end: Date }) {
+  const rows = await db.saleCancellation.findMany({
+    where: { createdAt: { gte: args.start, lt: args.end } },
+    orderBy: { createdAt: "desc" },
+    include: {
+      sale: {
+        select: {
+          id: true,
+          numero: true,
+          date: true,
+          program: true,
+          points: true,
+          passengers: true,
+          locator: true,
+          cedente: { select: { id: true, nomeCompleto: true } },
+          seller: { select: { id: true, name: true } },
+        },
+      },
+      cliente: { select: { id: true, nome: true, cpfCnpj: true } },
+      createdBy: { select: { id: true, name: true } },
+      refundPaidBy: { select: { id: true, name: true } },
+      clawbacks: {
+        select: {
+          id: true,
+          userId: true,
+          sourceDate: true,
+          commissionCents: true,
+          amountCents: true,
+          appliedDate: true,
+          appliedPayoutId: true,
+          appliedPayout: { select: { paidAt: true } },
+          user: { select: { name: true } },
+        },
+      },
+    },
+  });
+
+  const sum = (xs: number[]) => xs.reduce((a, b) => a + b, 0);
+  const clawbacks = rows.flatMap((r) => r.clawbacks);
+
+  return {
+    rows,
+    totals: {
+      count: rows.length,
+      saleCents: sum(rows.map((r) => r.saleTotalCents)),
+      refundCents: sum(rows.map((r) => r.refundCents)),
+      refundPendingCents: sum(rows.filter((r) => r.refundStatus === "PENDING").map((r) => r.refundCents)),
+      pointsReturned: sum(rows.map((r) => r.pointsReturned)),
+      passengersReleased: sum(rows.map((r) => r.passengersReleased)),
+      clawbackCents: sum(clawbacks.map((c) => c.amountCents)),
+      clawbackPendingCents: sum(clawbacks.filter((c) => !c.appliedPayoutId).map((c) => c.amountCents)),
+    },
+  };
+}
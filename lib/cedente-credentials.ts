@@ -0,0 +1,127 @@
+// lib/cedente-credentials.ts
+import "server-only";
+import { createEnvelopeCipher } from "@/lib/crypto/envelope";
+
+/**
+ * Senhas de cedente (Cedente.senha*) cifradas em repouso.
+ *
+ * Envelope (lib/crypto/envelope.ts): cada valor tem uma DEK aleatória
+ * (AES-256-GCM) e a DEK é cifrada pela chave mestra do env (KEK).
+ *
+ * Env: CEDENTE_CREDENTIALS_KEYS="kid2:<base64 32 bytes>,kid1:<base64 32 bytes>"
+ * A primeira chave é a ativa (cifra); as demais só decifram.
+ *
+ * Formato salvo: enc:v1:<kid>:<dek cifrada>:<iv>:<tag>:<texto cifrado> (base64url)
+ */
+
+export const SECRET_FIELDS = [
+  "senhaEmail",
+  "senhaSmiles",
+  "senhaLatamPass",
+  "senhaLivelo",
+  "senhaEsfera",
+  "senhaIberia",
+  "senhaAA",
+  "senhaTAP",
+  "senhaAzul",
+  "senhaFlyingBlue",
+] as const;
+
+export type SecretField = (typeof SECRET_FIELDS)[number];
+
+export type SecretKind =
+  | "EMAIL"
+  | "LATAM"
+  | "SMILES"
+  | "LIVELO"
+  | "ESFERA"
+  | "IBERIA"
+  | "AA"
+  | "TAP"
+  | "AZUL"
+  | "FLYING_BLUE";
+
+export const SECRET_KIND_FIELD: Record<SecretKind, SecretField> = {
+  EMAIL: "senhaEmail",
+  LATAM: "senhaLatamPass",
+  SMILES: "senhaSmiles",
+  LIVELO: "senhaLivelo",
+  ESFERA: "senhaEsfera",
+  IBERIA: "senhaIberia",
+  AA: "senhaAA",
+  TAP: "senhaTAP",
+  AZUL: "senhaAzul",
+  FLYING_BLUE: "senhaFlyingBlue",
+};
+
+// ✅ o que a API devolve no lugar da senha (o client nunca recebe o valor)
+export const SECRET_MASK = "••••••••";
+
+// ✅ chaveiro próprio: a recriptografia das senhas não mexe em outros segredos
+const cipher = createEnvelopeCipher({
+  envVar: "CEDENTE_CREDENTIALS_KEYS",
+  devSeed: "dev-only-cedente-credentials",
+});
+
+export function isEncryptedSecret(v: unknown): v is string {
+  return cipher.isEncrypted(v);
+}
+
+export function encryptSecret(plain: string) {
+  return cipher.encrypt(plain);
+}
+
+/**
+ * Decifra um valor salvo. Valor legado em texto puro volta como está
+ * (até passar pela recriptografia).
+ * ⚠️ Só a rota de revelação (auditada) deve chamar isso.
+ */
+export function decryptSecret(stored: string | null | undefined) {
+  return cipher.decrypt(stored);
+}
+
+/** Texto puro legado ou DEK embrulhada por chave que não é mais a ativa. */
+export function needsReencrypt(stored: string | null | undefined) {
+  return cipher.needsReencrypt(stored);
+}
+
+/** Re-embrulha a DEK com a chave ativa (texto puro legado é cifrado do zero). */
+export function reencryptSecret(stored: string) {
+  return cipher.reencrypt(stored);
+}
+
+/**
+ * Cifra os campos senha* de um payload de escrita (create/update).
+ * - SECRET_MASK = "não mexer" (o client devolveu a máscara sem editar) → campo removido
+ * - null/"" = limpar
+ */
+export function encryptSecretFields<T extends Record<string, unknown>>(data: T): T {
+  const out: Record<string, unknown> = { ...data };
+
+  for (const field of SECRET_FIELDS) {
+    if (!(field in out)) continue;
+    const v = out[field];
+
+    if (v === undefined) continue;
+    if (v === SECRET_MASK) {
+      delete out[field];
+      continue;
+    }
+    if (v === null || (typeof v === "string" && !v.trim())) {
+      out[field] = null;
+      continue;
+    }
+    if (typeof v === "string" && !isEncryptedSecret(v)) out[field] = encryptSecret(v);
+  }
+
+  return out as T;
+}
+
+/** Troca os campos senha* pela máscara (ou null) antes de devolver ao client. */
+export function maskSecretFields<T extends Record<string, unknown>>(row: T): T {
+  const out: Record<string, unknown> = { ...row };
+  for (const field of SECRET_FIELDS) {
+    if (field in out) out[field] = out[field] ? SECRET_MASK : null;
+  }
+  return out as T;
+}
@@ -0,0 +1,384 @@
+import type { Prisma } from "@prisma/client";
+import { diceSimilarity, normName } from "@/lib/text-match";
+import { normalizeBRPhoneToE164 } from "@/lib/whatsapp";
+
+/**
+ * ✅ Clientes duplicados: detecção e mesclagem
+ *
+ * Duplicado = mesmo CPF/CNPJ (só dígitos), mesmo telefone (E.164) ou nome
+ * parecido (Dice ≥ NAME_SIMILARITY_MIN, lib/text-match).
+ *
+ * Mesclar re-aponta vendas, balcão (fornecedor e final), cancelamentos e notas
+ * do duplicado para o cliente mantido; o duplicado fica oculto
+ * (mergedIntoId). A ClienteMerge guarda os ids movidos, então dá para desfazer.
+ */
+
+// client do time (tenantPrisma) ou `tx` de uma transaction dele
+type Db = Prisma.TransactionClient;
+
+export class ClienteMergeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ClienteMergeError";
+  }
+}
+
+export const NAME_SIMILARITY_MIN = 0.9;
+
+export type DuplicateReason = "CPF_CNPJ" | "TELEFONE" | "NOME";
+
+export const DUPLICATE_REASON_LABEL: Record<DuplicateReason, string> = {
+  CPF_CNPJ: "Mesmo CPF/CNPJ",
+  TELEFONE: "Mesmo telefone",
+  NOME: "Nome parecido",
+};
+
+function docKey(v: string | null | undefined) {
+  const d = String(v ?? "").replace(/\D+/g, "");
+  return d.length === 11 || d.length === 14 ? d : null;
+}
+
+function phoneKey(v: string | null | undefined) {
+  return normalizeBRPhoneToE164(v);
+}
+
+/** Bloco para comparar nomes: primeiro nome normalizado (evita O(n²) no time todo). */
+function nameBlock(nome: string) {
+  return normName(nome).split(" ")[0] || "";
+}
+
+const CANDIDATE_SELECT = {
+  id: true,
+  identificador: true,
+  nome: true,
+  cpfCnpj: true,
+  telefone: true,
+  createdAt: true,
+} satisfies Prisma.ClienteSelect;
+
+type Candidate = Prisma.ClienteGetPayload<{ select: typeof CANDIDATE_SELECT }>;
+
+function reasonsBetween(a: Pick<Candidate, "nome" | "cpfCnpj" | "telefone">, b: Candidate) {
+  const reasons: DuplicateReason[] = [];
+  const docA = docKey(a.cpfCnpj);
+  if (docA && docA === docKey(b.cpfCnpj)) reasons.push("CPF_CNPJ");
+  const phA = phoneKey(a.telefone);
+  if (phA && phA === phoneKey(b.telefone)) reasons.push("TELEFONE");
+  const similarity = diceSimilarity(a.nome, b.nome);
+  if (similarity >= NAME_SIMILARITY_MIN) reasons.push("NOME");
+  return { reasons, similarity };
+}
+
+// CPF/CNPJ como os cadastros antigos gravavam (com máscara)
+function maskedDoc(doc: string) {
+  return doc.length === 11
+    ? doc.replace(/^(\d{3})(\d{3})(\d{3})(\d{2})$/, "$1.$2.$3-$4")
+    : doc.replace(/^(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})$/, "$1.$2.$3/$4-$5");
+}
+
+/**
+ * Filtros no banco que já cortam os candidatos: CPF/CNPJ igual (com ou sem
+ * máscara) ou telefone com os mesmos 4 últimos dígitos; e, à parte, primeiro
+ * nome igual (como digitado ou sem acento). A comparação exata continua em
+ * memória. Acento diferente no primeiro nome escapa daqui; a varredura de
+ * grupos (findDuplicateGroups) pega esses.
+ */
+function candidateFilters(doc: string | null, phone: string | null, nome: string) {
+  const byKey: Prisma.ClienteWhereInput[] = [];
+  if (doc) byKey.push({ cpfCnpj: { in: [doc, maskedDoc(doc)] } });
+  if (phone) byKey.push({ telefone: { contains: phone.slice(-4) } });
+
+  const typed = String(nome ?? "").trim().split(/\s+/)[0];
+  const firstWords = new Set([typed, nameBlock(nome)].filter((w) => w && w.length >= 2));
+  const byName: Prisma.ClienteWhereInput[] = [...firstWords].map((w) => ({
+    nome: { startsWith: w, mode: "insensitive" },
+  }));
+
+  return { byKey, byName };
+}
+
+/**
+ * Clientes ativos que parecem ser a mesma pessoa que `input`
+ * (usado ao criar/editar cliente para barrar duplicados).
+ */
+export async function findDuplicatesFor(
+  db: Db,
+  input: { nome: string; cpfCnpj?: string | null; telefone?: string | null; excludeId?: string | null }
+) {
+  const doc = docKey(input.cpfCnpj);
+  const { byKey, byName } = candidateFilters(doc, phoneKey(input.telefone), input.nome);
+  if (!byKey.length && !byName.length) return [];
+
+  const base: Prisma.ClienteWhereInput = {
+    mergedIntoId: null,
+    ...(input.excludeId ? { id: { not: input.excludeId } } : {}),
+  };
+  // documento/telefone em consulta própria: nome comum (muitas "Maria") não empurra o CPF igual para fora do limite
+  const [sameKey, sameName] = await Promise.all([
+    byKey.length ? db.cliente.findMany({ where: { ...base, OR: byKey }, take: 500, select: CANDIDATE_SELECT }) : [],
+    byName.length ? db.cliente.findMany({ where: { ...base, OR: byName }, take: 2000, select: CANDIDATE_SELECT }) : [],
+  ]);
+  const candidates = [...new Map([...sameKey, ...sameName].map((c) => [c.id, c])).values()];
+
+  return candidates
+    .map((c) => ({ cliente: c, ...reasonsBetween({ nome: input.nome, cpfCnpj: doc, telefone: input.telefone ?? null }, c) }))
+    .filter((m) => m.reasons.length > 0)
+    .sort((a, b) => b.reasons.length - a.reasons.length || b.similarity - a.similarity)
+    .slice(0, 10);
+}
+
+/** Grupos de possíveis duplicados no time (union-find por CPF/CNPJ, telefone e nome). */
+export async function findDuplicateGroups(db: Db) {
+  const clientes = await db.cliente.findMany({
+    where: { mergedIntoId: null },
+    orderBy: { createdAt: "asc" },
+    take: 20000,
+    select: {
+      ...CANDIDATE_SELECT,
+      tags: true,
+      _count: { select: { sales: true, balcaoOperationsAsFinal: true, balcaoOperationsAsSupplier: true } },
+    },
+  });
+
+  const parent = clientes.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const reasonsByRoot = new Map<string, Set<DuplicateReason>>();
+  const pairReasons: Array<[number, number, DuplicateReason]> = [];
+
+  const link = (a: number, b: number, reason: DuplicateReason) => {
+    pairReasons.push([a, b, reason]);
+    const ra = find(a);
+    const rb = find(b);
+    if (ra !== rb) parent[rb] = ra;
+  };
+
+  const byDoc = new Map<string, number>();
+  const byPhone = new Map<string, number>();
+  const byBlock = new Map<string, number[]>();
+
+  clientes.forEach((c, i) => {
+    const doc = docKey(c.cpfCnpj);
+    if (doc) {
+      const j = byDoc.get(doc);
+      if (j === undefined) byDoc.set(doc, i);
+      else link(j, i, "CPF_CNPJ");
+    }
+    const ph = phoneKey(c.telefone);
+    if (ph) {
+      const j = byPhone.get(ph);
+      if (j === undefined) byPhone.set(ph, i);
+      else link(j, i, "TELEFONE");
+    }
+    const block = nameBlock(c.nome);
+    if (block) byBlock.set(block, [...(byBlock.get(block) ?? []), i]);
+  });
+
+  for (const idxs of byBlock.values()) {
+    for (let x = 0; x < idxs.length; x++) {
+      for (let y = x + 1; y < idxs.length; y++) {
+        if (diceSimilarity(clientes[idxs[x]].nome, clientes[idxs[y]].nome) >= NAME_SIMILARITY_MIN) {
+          link(idxs[x], idxs[y], "NOME");
+        }
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  clientes.forEach((_, i) => {
+    const r = find(i);
+    groups.set(r, [...(groups.get(r) ?? []), i]);
+  });
+  for (const [a, , reason] of pairReasons) {
+    const key = String(find(a));
+    reasonsByRoot.set(key, (reasonsByRoot.get(key) ?? new Set()).add(reason));
+  }
+
+  return [...groups.entries()]
+    .filter(([, idxs]) => idxs.length > 1)
+    .map(([root, idxs]) => ({
+      key: clientes[root].id,
+      reasons: [...(reasonsByRoot.get(String(root)) ?? [])],
+      members: idxs.map((i) => {
+        const c = clientes[i];
+        return {
+          id: c.id,
+          identificador: c.identificador,
+          nome: c.nome,
+          cpfCnpj: c.cpfCnpj,
+          telefone: c.telefone,
+          tags: c.tags,
+          createdAt: c.createdAt,
+          sales: c._count.sales,
+          balcao: c._count.balcaoOperationsAsFinal + c._count.balcaoOperationsAsSupplier,
+        };
+      }),
+    }))
+    .sort((a, b) => b.members.length - a.members.length || a.members[0].nome.localeCompare(b.members[0].nome));
+}
+
+type KeptBefore = { cpfCnpj: string | null; telefone: string | null; tags: string[] };
+
+/** Mescla `mergeId` em `keepId` (numa transaction). */
+export async function mergeClientes(
+  tx: Db,
+  args: { team: string; actorId: string; keepId: string; mergeId: string; reason?: string | null }
+) {
+  if (!args.keepId || !args.mergeId) throw new ClienteMergeError("Informe os dois clientes.");
+  if (args.keepId === args.mergeId) throw new ClienteMergeError("Escolha dois clientes diferentes.");
+
+  const [kept, merged] = await Promise.all([
+    tx.cliente.findUnique({
+      where: { id: args.keepId },
+      select: { id: true, nome: true, cpfCnpj: true, telefone: true, tags: true, mergedIntoId: true },
+    }),
+    tx.cliente.findUnique({
+      where: { id: args.mergeId },
+      select: { id: true, nome: true, cpfCnpj: true, telefone: true, tags: true, mergedIntoId: true },
+    }),
+  ]);
+  if (!kept || !merged) throw new ClienteMergeError("Cliente não encontrado.");
+  if (kept.mergedIntoId || merged.mergedIntoId) throw new ClienteMergeError("Cliente já foi mesclado em outro.");
+
+  const docK = docKey(kept.cpfCnpj);
+  const docM = docKey(merged.cpfCnpj);
+  if (docK && docM && docK !== docM) {
+    throw new ClienteMergeError("Os clientes têm CPF/CNPJ diferentes. Corrija o cadastro antes de mesclar.");
+  }
+
+  const ids = async <T extends { id: string }>(p: Promise<T[]>) => (await p).map((r) => r.id);
+  const [saleIds, balcaoSupplierIds, balcaoFinalIds, cancellationIds, noteIds] = await Promise.all([
+    ids(tx.sale.findMany({ where: { clienteId: merged.id }, select: { id: true } })),
+    ids(tx.balcaoOperacao.findMany({ where: { supplierClienteId: merged.id }, select: { id: true } })),
+    ids(tx.balcaoOperacao.findMany({ where: { finalClienteId: merged.id }, select: { id: true } })),
+    ids(tx.saleCancellation.findMany({ where: { clienteId: merged.id }, select: { id: true } })),
+    ids(tx.clienteNote.findMany({ where: { clienteId: merged.id }, select: { id: true } })),
+  ]);
+
+  if (saleIds.length) await tx.sale.updateMany({ where: { id: { in: saleIds } }, data: { clienteId: kept.id } });
+  if (balcaoSupplierIds.length) {
+    await tx.balcaoOperacao.updateMany({
+      where: { id: { in: balcaoSupplierIds } },
+      data: { supplierClienteId: kept.id },
+    });
+  }
+  if (balcaoFinalIds.length) {
+    await tx.balcaoOperacao.updateMany({ where: { id: { in: balcaoFinalIds } }, data: { finalClienteId: kept.id } });
+  }
+  if (cancellationIds.length) {
+    await tx.saleCancellation.updateMany({ where: { id: { in: cancellationIds } }, data: { clienteId: kept.id } });
+  }
+  if (noteIds.length) await tx.clienteNote.updateMany({ where: { id: { in: noteIds } }, data: { clienteId: kept.id } });
+
+  // o mantido herda o que faltava no cadastro dele
+  const keptBefore: KeptBefore = { cpfCnpj: kept.cpfCnpj, telefone: kept.telefone, tags: kept.tags };
+  await tx.cliente.update({
+    where: { id: kept.id },
+    data: {
+      cpfCnpj: kept.cpfCnpj || merged.cpfCnpj,
+      telefone: kept.telefone || merged.telefone,
+      tags: Array.from(new Set([...kept.tags, ...merged.tags])),
+    },
+  });
+  await tx.cliente.update({
+    where: { id: merged.id },
+    data: { mergedIntoId: kept.id, mergedAt: new Date() },
+  });
+
+  return tx.clienteMerge.create({
+    data: {
+      team: args.team,
+      keptId: kept.id,
+      mergedId: merged.id,
+      saleIds,
+      balcaoSupplierIds,
+      balcaoFinalIds,
+      cancellationIds,
+      noteIds,
+      keptBefore,
+      reason: args.reason || null,
+      createdById: args.actorId,
+    },
+  });
+}
+
+/**
+ * Desfaz uma mesclagem: devolve ao duplicado só o que ainda aponta para o
+ * mantido e reverte os campos que a mesclagem completou (se não mudaram depois).
+ */
+export async function undoMerge(tx: Db, args: { actorId: string; mergeId: string }) {
+  const m = await tx.clienteMerge.findUnique({
+    where: { id: args.mergeId },
+    include: {
+      kept: { select: { id: true, cpfCnpj: true, telefone: true, tags: true, mergedIntoId: true } },
+      merged: { select: { id: true, cpfCnpj: true, telefone: true, tags: true, mergedIntoId: true } },
+    },
+  });
+  if (!m) throw new ClienteMergeError("Mesclagem não encontrada.");
+  if (m.undoneAt) throw new ClienteMergeError("Mesclagem já desfeita.");
+  if (m.merged.mergedIntoId !== m.keptId) throw new ClienteMergeError("O cliente duplicado mudou desde a mesclagem.");
+  if (m.kept.mergedIntoId) {
+    throw new ClienteMergeError("O cliente mantido foi mesclado em outro depois. Desfaça aquela mesclagem primeiro.");
+  }
+
+  const later = await tx.clienteMerge.findFirst({
+    where: { keptId: m.keptId, undoneAt: null, createdAt: { gt: m.createdAt } },
+    select: { id: true },
+  });
+  if (later) throw new ClienteMergeError("Há mesclagens mais recentes neste cliente. Desfaça-as primeiro.");
+
+  const kept = m.keptId;
+  const back = m.mergedId;
+
+  await tx.sale.updateMany({ where: { id: { in: m.saleIds }, clienteId: kept }, data: { clienteId: back } });
+  await tx.balcaoOperacao.updateMany({
+    where: { id: { in: m.balcaoSupplierIds }, supplierClienteId: kept },
+    data: { supplierClienteId: back },
+  });
+  await tx.balcaoOperacao.updateMany({
+    where: { id: { in: m.balcaoFinalIds }, finalClienteId: kept },
+    data: { finalClienteId: back },
+  });
+  await tx.saleCancellation.updateMany({
+    where: { id: { in: m.cancellationIds }, clienteId: kept },
+    data: { clienteId: back },
+  });
+  await tx.clienteNote.updateMany({ where: { id: { in: m.noteIds }, clienteId: kept }, data: { clienteId: back } });
+
+  const before = m.keptBefore as KeptBefore;
+  const onlyMergedTags = m.merged.tags.filter((t) => !before.tags.includes(t));
+  await tx.cliente.update({
+    where: { id: kept },
+    data: {
+      cpfCnpj: !before.cpfCnpj && m.kept.cpfCnpj === m.merged.cpfCnpj ? null : undefined,
+      telefone: !before.telefone && m.kept.telefone === m.merged.telefone ? null : undefined,
+      tags: m.kept.tags.filter((t) => !onlyMergedTags.includes(t)),
+    },
+  });
+  await tx.cliente.update({ where: { id: back }, data: { mergedIntoId: null, mergedAt: null } });
+
+  return tx.clienteMerge.update({
+    where: { id: m.id },
+    data: { undoneAt: new Date(), undoneById: args.actorId },
+  });
+}
+
+/** Histórico de mesclagens (mais recentes primeiro). */
+export function listMerges(db: Db, take = 50) {
+  return db.clienteMerge.findMany({
+    orderBy: { createdAt: "desc" },
+    take,
+    select: {
+      id: true,
+      createdAt: true,
+      undoneAt: true,
+      reason: true,
+      saleIds: true,
+      balcaoSupplierIds: true,
+      balcaoFinalIds: true,
+      kept: { select: { id: true, identificador: true, nome: true } },
+      merged: { select: { id: true, identificador: true, nome: true } },
+      createdBy: { select: { id: true, name: true } },
+      undoneBy: { select: { id: true, name: true } },
+    },
+  });
+}
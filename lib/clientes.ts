@@ -0,0 +1,322 @@
+import type { Prisma } from "@prisma/client";
+import { recifeDateISO } from "@/lib/taxes";
+import { buildWhatsAppLink, normalizeBRPhoneToE164 } from "@/lib/whatsapp";
+
+/**
+ * ✅ CRM do cliente
+ *
+ * Perfil agrega as vendas (Sale) e as operações do balcão em que o cliente é o
+ * final (comprou de nós) ou o fornecedor (vendeu pontos para nós):
+ * faturamento e lucro da vida toda, milheiro médio pago, programas e rotas
+ * preferidos, última compra e recebíveis em aberto.
+ *
+ * Lucro da venda = PV − custo pelo milheiro meta da compra (sem taxa de
+ * embarque); no balcão, o profitCents gravado na operação.
+ * "Dormentes": clientes que já compraram e estão há N dias sem comprar.
+ */
+
+// client do time (tenantPrisma) ou `tx` de uma transaction dele
+type Db = Prisma.TransactionClient;
+
+export class ClienteCrmError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ClienteCrmError";
+  }
+}
+
+export const MAX_TAGS = 20;
+export const DEFAULT_DORMANT_DAYS = 90;
+
+/** Etiquetas: minúsculas, sem repetição, até MAX_TAGS de 30 caracteres. */
+export function normalizeTags(input: unknown): string[] {
+  const raw = Array.isArray(input) ? input : String(input ?? "").split(",");
+  const out: string[] = [];
+  for (const t of raw) {
+    const tag = String(t ?? "").trim().toLowerCase().replace(/\s+/g, " ").slice(0, 30);
+    if (tag && !out.includes(tag)) out.push(tag);
+  }
+  if (out.length > MAX_TAGS) throw new ClienteCrmError(`Máximo de ${MAX_TAGS} etiquetas.`);
+  return out;
+}
+
+function saleProfitCents(s: { points: number; pointsValueCents: number; totalCents: number; embarqueFeeCents: number; metaMilheiroCents: number }) {
+  const pv = s.pointsValueCents > 0 ? s.pointsValueCents : Math.max(s.totalCents - s.embarqueFeeCents, 0);
+  const cost = Math.round((s.points * (s.metaMilheiroCents || 0)) / 1000);
+  return pv - cost;
+}
+
+function daysBetween(a: Date, b: Date) {
+  return Math.round((b.getTime() - a.getTime()) / 86_400_000);
+}
+
+type Ranked = { key: string; count: number; points: number; revenueCents: number };
+
+function bump(map: Map<string, Ranked>, key: string, points: number, revenueCents: number) {
+  const cur = map.get(key) ?? { key, count: 0, points: 0, revenueCents: 0 };
+  cur.count += 1;
+  cur.points += points;
+  cur.revenueCents += revenueCents;
+  map.set(key, cur);
+}
+
+function ranked(map: Map<string, Ranked>) {
+  return [...map.values()].sort((a, b) => b.count - a.count || b.revenueCents - a.revenueCents);
+}
+
+export type ActivityItem = {
+  kind: "SALE" | "BALCAO_FINAL" | "BALCAO_SUPPLIER";
+  id: string;
+  at: Date;
+  label: string;
+  program: string;
+  points: number;
+  amountCents: number;
+  profitCents: number | null;
+  status: string | null;
+};
+
+/** Perfil do cliente: números da vida toda + atividade recente. */
+export async function clienteProfile(db: Db, clienteId: string, now = new Date()) {
+  const [sales, balcaoFinal, balcaoSupplier, installments] = await Promise.all([
+    db.sale.findMany({
+      where: { clienteId },
+      orderBy: { date: "desc" },
+      take: 5000,
+      select: {
+        id: true,
+        numero: true,
+        date: true,
+        program: true,
+        points: true,
+        milheiroCents: true,
+        pointsValueCents: true,
+        totalCents: true,
+        embarqueFeeCents: true,
+        metaMilheiroCents: true,
+        departureAirportIata: true,
+        paymentStatus: true,
+      },
+    }),
+    db.balcaoOperacao.findMany({
+      where: { finalClienteId: clienteId },
+      orderBy: { createdAt: "desc" },
+      take: 5000,
+      select: {
+        id: true,
+        createdAt: true,
+        airline: true,
+        points: true,
+        sellRateCents: true,
+        customerChargeCents: true,
+        profitCents: true,
+        locator: true,
+      },
+    }),
+    db.balcaoOperacao.findMany({
+      where: { supplierClienteId: clienteId },
+      orderBy: { createdAt: "desc" },
+      take: 5000,
+      select: { id: true, createdAt: true, airline: true, points: true, buyRateCents: true, supplierPayCents: true },
+    }),
+    db.receivableInstallment.findMany({
+      where: { status: { in: ["OPEN", "PARTIAL"] }, receivable: { status: "OPEN", sale: { clienteId } } },
+      select: { dueDate: true, amountCents: true, paidCents: true },
+    }),
+  ]);
+
+  const valid = sales.filter((s) => s.paymentStatus !== "CANCELED");
+
+  const programs = new Map<string, Ranked>();
+  const routes = new Map<string, Ranked>();
+  let revenueCents = 0;
+  let profitCents = 0;
+  let milheiroWeighted = 0;
+  let milheiroPoints = 0;
+  const purchaseDates: Date[] = [];
+
+  for (const s of valid) {
+    revenueCents += s.totalCents;
+    profitCents += saleProfitCents(s);
+    if (s.milheiroCents > 0 && s.points > 0) {
+      milheiroWeighted += s.milheiroCents * s.points;
+      milheiroPoints += s.points;
+    }
+    bump(programs, s.program, s.points, s.totalCents);
+    if (s.departureAirportIata) bump(routes, s.departureAirportIata, s.points, s.totalCents);
+    purchaseDates.push(s.date);
+  }
+
+  for (const b of balcaoFinal) {
+    revenueCents += b.customerChargeCents;
+    profitCents += b.profitCents;
+    if (b.sellRateCents > 0 && b.points > 0) {
+      milheiroWeighted += b.sellRateCents * b.points;
+      milheiroPoints += b.points;
+    }
+    bump(programs, b.airline, b.points, b.customerChargeCents);
+    purchaseDates.push(b.createdAt);
+  }
+
+  purchaseDates.sort((a, b) => a.getTime() - b.getTime());
+  const first = purchaseDates[0] ?? null;
+  const last = purchaseDates[purchaseDates.length - 1] ?? null;
+  const purchases = purchaseDates.length;
+
+  const today = recifeDateISO(now);
+  let openCents = 0;
+  let overdueCents = 0;
+  for (const i of installments) {
+    const open = Math.max(0, i.amountCents - i.paidCents);
+    openCents += open;
+    if (recifeDateISO(i.dueDate) < today) overdueCents += open;
+  }
+
+  const activity: ActivityItem[] = [
+    ...sales.slice(0, 30).map((s) => ({
+      kind: "SALE" as const,
+      id: s.id,
+      at: s.date,
+      label: `Venda ${s.numero}${s.departureAirportIata ? ` • ${s.departureAirportIata}` : ""}`,
+      program: s.program,
+      points: s.points,
+      amountCents: s.totalCents,
+      profitCents: s.paymentStatus === "CANCELED" ? null : saleProfitCents(s),
+      status: s.paymentStatus,
+    })),
+    ...balcaoFinal.slice(0, 30).map((b) => ({
+      kind: "BALCAO_FINAL" as const,
+      id: b.id,
+      at: b.createdAt,
+      label: `Balcão${b.locator ? ` • ${b.locator}` : ""}`,
+      program: b.airline,
+      points: b.points,
+      amountCents: b.customerChargeCents,
+      profitCents: b.profitCents,
+      status: null,
+    })),
+    ...balcaoSupplier.slice(0, 30).map((b) => ({
+      kind: "BALCAO_SUPPLIER" as const,
+      id: b.id,
+      at: b.createdAt,
+      label: "Balcão (fornecedor)",
+      program: b.airline,
+      points: b.points,
+      amountCents: b.supplierPayCents,
+      profitCents: null,
+      status: null,
+    })),
+  ]
+    .sort((a, b) => b.at.getTime() - a.at.getTime())
+    .slice(0, 30);
+
+  return {
+    purchases,
+    salesCount: valid.length,
+    canceledCount: sales.length - valid.length,
+    balcaoCount: balcaoFinal.length,
+    revenueCents,
+    profitCents,
+    avgTicketCents: purchases ? Math.round(revenueCents / purchases) : 0,
+    avgMilheiroCents: milheiroPoints ? Math.round(milheiroWeighted / milheiroPoints) : 0,
+    firstPurchaseAt: first,
+    lastPurchaseAt: last,
+    daysSinceLastPurchase: last ? daysBetween(last, now) : null,
+    avgDaysBetweenPurchases: purchases > 1 && first && last ? Math.round(daysBetween(first, last) / (purchases - 1)) : null,
+    programs: ranked(programs),
+    routes: ranked(routes).slice(0, 10),
+    receivables: { openCents, overdueCents, installments: installments.length },
+    supplier: {
+      count: balcaoSupplier.length,
+      points: balcaoSupplier.reduce((a, b) => a + b.points, 0),
+      paidCents: balcaoSupplier.reduce((a, b) => a + b.supplierPayCents, 0),
+    },
+    activity,
+  };
+}
+
+export type ClienteProfile = Awaited<ReturnType<typeof clienteProfile>>;
+
+function reengageMessage(nome: string) {
+  return `Olá, ${nome}! Tudo bem? Faz um tempo que não falamos. Temos ótimas condições em passagens com milhas — quer que eu faça uma cotação para a sua próxima viagem?`;
+}
+
+/**
+ * Clientes que já compraram (venda ou balcão) e estão há `days` dias ou mais
+ * sem comprar. Ordenado pelo faturamento da vida toda.
+ */
+export async function dormantClientes(db: Db, args: { days?: number; now?: Date } = {}) {
+  const days = Math.max(1, Math.trunc(args.days || DEFAULT_DORMANT_DAYS));
+  const now = args.now ?? new Date();
+  const cutoff = new Date(now.getTime() - days * 86_400_000);
+
+  const [salesAgg, balcaoAgg] = await Promise.all([
+    db.sale.groupBy({
+      by: ["clienteId"],
+      where: { paymentStatus: { not: "CANCELED" } },
+      _max: { date: true },
+      _sum: { totalCents: true },
+      _count: { _all: true },
+    }),
+    db.balcaoOperacao.groupBy({
+      by: ["finalClienteId"],
+      _max: { createdAt: true },
+      _sum: { customerChargeCents: true },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const agg = new Map<string, { last: Date; revenueCents: number; purchases: number }>();
+  const merge = (id: string, last: Date | null, revenueCents: number | null, count: number) => {
+    if (!last) return;
+    const cur = agg.get(id) ?? { last, revenueCents: 0, purchases: 0 };
+    if (last > cur.last) cur.last = last;
+    cur.revenueCents += revenueCents || 0;
+    cur.purchases += count;
+    agg.set(id, cur);
+  };
+  for (const s of salesAgg) merge(s.clienteId, s._max.date, s._sum.totalCents, s._count._all);
+  for (const b of balcaoAgg) merge(b.finalClienteId, b._max.createdAt, b._sum.customerChargeCents, b._count._all);
+
+  const dormantIds = [...agg.entries()].filter(([, v]) => v.last < cutoff).map(([id]) => id);
+  if (!dormantIds.length) return { days, rows: [] };
+
+  const clientes = await db.cliente.findMany({
+    where: { id: { in: dormantIds } },
+    select: { id: true, identificador: true, nome: true, telefone: true, tags: true },
+  });
+
+  const rows = clientes
+    .map((c) => {
+      const a = agg.get(c.id)!;
+      const e164 = normalizeBRPhoneToE164(c.telefone);
+      return {
+        ...c,
+        lastPurchaseAt: a.last,
+        daysSinceLastPurchase: daysBetween(a.last, now),
+        purchases: a.purchases,
+        revenueCents: a.revenueCents,
+        whatsappUrl: e164 ? buildWhatsAppLink(e164, reengageMessage(c.nome)) : null,
+      };
+    })
+    .sort((a, b) => b.revenueCents - a.revenueCents || b.daysSinceLastPurchase - a.daysSinceLastPurchase);
+
+  return { days, rows };
+}
+
+/** Nota nova no histórico do cliente. */
+export async function addClienteNote(
+  db: Db,
+  args: { team: string; clienteId: string; authorId: string; text: string }
+) {
+  const text = String(args.text || "").trim().slice(0, 2000);
+  if (!text) throw new ClienteCrmError("Escreva a nota.");
+
+  const cliente = await db.cliente.findUnique({ where: { id: args.clienteId }, select: { id: true } });
+  if (!cliente) throw new ClienteCrmError("Cliente não encontrado.");
+
+  return db.clienteNote.create({
+    data: { team: args.team, clienteId: cliente.id, authorId: args.authorId, text },
+    select: { id: true, text: true, createdAt: true, author: { select: { id: true, name: true } } },
+  });
+}
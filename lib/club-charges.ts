@@ -0,0 +1,276 @@
+import type { ClubChargeSource, ClubSubscriptionStatus, LoyaltyProgram, Prisma } from "@prisma/client";
+import { projectClub, startUTC, type ClubRuleConfig } from "@/lib/club-rules";
+
+/**
+ * ✅ Cobranças dos clubes
+ *
+ * Cada assinatura/renovação (marcada na tela ou pelo cron, no débito automático)
+ * vira uma ClubCharge. A cobrança pode ir para uma compra aberta do mesmo
+ * cedente como item CLUB (entra no custo e no milheiro da compra) ou ficar
+ * avulsa (custo fixo do time).
+ */
+
+// client do time (tenantPrisma) ou `tx` de uma transaction dele
+type Db = Prisma.TransactionClient;
+
+export class ClubChargeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ClubChargeError";
+  }
+}
+
+export const CLUB_CHARGE_SOURCE_LABEL: Record<ClubChargeSource, string> = {
+  MANUAL: "Manual",
+  CRON: "Automática",
+};
+
+type ChargeSub = {
+  id: string;
+  team: string;
+  cedenteId: string;
+  program: LoyaltyProgram;
+  tierK: number;
+  priceCents: number;
+};
+
+function dateBR(d: Date) {
+  return new Intl.DateTimeFormat("pt-BR", { timeZone: "UTC" }).format(d);
+}
+
+/** Lança a cobrança de um ciclo (idempotente por assinatura + dia). */
+export async function recordClubCharge(
+  db: Db,
+  sub: ChargeSub,
+  args: { chargedAt: Date; source: ClubChargeSource; actorId?: string | null }
+) {
+  const chargedAt = startUTC(args.chargedAt);
+
+  const existing = await db.clubCharge.findFirst({
+    where: { clubSubscriptionId: sub.id, chargedAt },
+    select: { id: true },
+  });
+  if (existing) return { id: existing.id, created: false };
+
+  const tierK = Math.max(0, Math.trunc(sub.tierK || 0));
+  const created = await db.clubCharge.create({
+    data: {
+      team: sub.team,
+      clubSubscriptionId: sub.id,
+      cedenteId: sub.cedenteId,
+      program: sub.program,
+      tierK,
+      chargedAt,
+      amountCents: Math.max(0, Math.trunc(sub.priceCents || 0)),
+      pointsCredited: tierK * 1000,
+      source: args.source,
+      createdById: args.actorId ?? null,
+    },
+    select: { id: true },
+  });
+
+  return { id: created.id, created: true };
+}
+
+/**
+ * Débito automático: renova (e cobra) cada vencimento até `today`.
+ * Devolve a nova data de última renovação (ou null se nada venceu).
+ */
+export async function autoRenewClub(
+  db: Db,
+  rule: ClubRuleConfig,
+  sub: ChargeSub & {
+    status: ClubSubscriptionStatus;
+    subscribedAt: Date;
+    renewalDay: number;
+    lastRenewedAt: Date | null;
+  },
+  today: Date
+) {
+  let last = sub.lastRenewedAt;
+  let charged = 0;
+
+  // teto de segurança: um cron parado por meses não gera anos de cobranças
+  for (let i = 0; i < 12; i++) {
+    const { nextRenewalAt } = projectClub(rule, { ...sub, lastRenewedAt: last }, { now: today });
+    if (!nextRenewalAt || nextRenewalAt > startUTC(today)) break;
+
+    const r = await recordClubCharge(db, sub, { chargedAt: nextRenewalAt, source: "CRON" });
+    if (r.created) charged++;
+    last = nextRenewalAt;
+  }
+
+  return { lastRenewedAt: last !== sub.lastRenewedAt ? last : null, charged };
+}
+
+/**
+ * Põe a cobrança numa compra ABERTA do mesmo cedente, como item CLUB.
+ * Quem chama recalcula a compra (recomputeCompra) depois do commit.
+ */
+export async function attachChargeToPurchase(db: Db, chargeId: string, purchaseId: string) {
+  const charge = await db.clubCharge.findFirst({
+    where: { id: chargeId },
+    select: {
+      id: true,
+      cedenteId: true,
+      program: true,
+      tierK: true,
+      chargedAt: true,
+      amountCents: true,
+      pointsCredited: true,
+      purchaseId: true,
+    },
+  });
+  if (!charge) throw new ClubChargeError("Cobrança não encontrada.");
+  if (charge.purchaseId === purchaseId) return charge;
+  if (charge.purchaseId) throw new ClubChargeError("Cobrança já está em outra compra. Tire de lá antes.");
+
+  const purchase = await db.purchase.findFirst({
+    where: { id: purchaseId },
+    select: { id: true, status: true, cedenteId: true },
+  });
+  if (!purchase) throw new ClubChargeError("Compra não encontrada.");
+  if (purchase.status !== "OPEN") throw new ClubChargeError("Só dá para lançar em compra ABERTA.");
+  if (purchase.cedenteId !== charge.cedenteId) {
+    throw new ClubChargeError("A compra é de outro cedente.");
+  }
+
+  // details no formato do ClubMeta da tela de compra (edição do item continua funcionando)
+  const item = await db.purchaseItem.create({
+    data: {
+      purchaseId,
+      type: "CLUB",
+      programTo: charge.program,
+      pointsBase: charge.pointsCredited,
+      pointsFinal: charge.pointsCredited,
+      amountCents: charge.amountCents,
+      title: `Clube ${charge.program} ${charge.tierK}k — ${dateBR(charge.chargedAt)}`,
+      details: JSON.stringify({
+        program: charge.program,
+        tierK: charge.tierK,
+        priceCents: charge.amountCents,
+        renewalDay: charge.chargedAt.getUTCDate(),
+        startDateISO: charge.chargedAt.toISOString().slice(0, 10),
+        clubChargeId: charge.id,
+      }),
+    },
+    select: { id: true },
+  });
+
+  return db.clubCharge.update({
+    where: { id: charge.id },
+    data: { purchaseId, purchaseItemId: item.id },
+  });
+}
+
+/**
+ * Tira a cobrança da compra (volta a ser custo avulso) e apaga o item CLUB.
+ * Devolve o id da compra para recalcular.
+ */
+export async function detachChargeFromPurchase(db: Db, chargeId: string) {
+  const charge = await db.clubCharge.findFirst({
+    where: { id: chargeId },
+    select: {
+      id: true,
+      purchaseId: true,
+      purchaseItemId: true,
+      purchase: { select: { status: true } },
+    },
+  });
+  if (!charge) throw new ClubChargeError("Cobrança não encontrada.");
+  if (!charge.purchaseId) return null;
+  if (charge.purchase?.status === "CLOSED") {
+    throw new ClubChargeError("Compra já liberada: a cobrança faz parte do custo dela.");
+  }
+
+  // a tela de compra recria os itens ao salvar — acha também pelo id gravado no details
+  await db.purchaseItem.deleteMany({
+    where: {
+      purchaseId: charge.purchaseId,
+      type: "CLUB",
+      OR: [
+        ...(charge.purchaseItemId ? [{ id: charge.purchaseItemId }] : []),
+        { details: { contains: charge.id } },
+      ],
+    },
+  });
+
+  await db.clubCharge.update({
+    where: { id: charge.id },
+    data: { purchaseId: null, purchaseItemId: null },
+  });
+
+  return charge.purchaseId;
+}
+
+/**
+ * Gasto com clubes no período × pontos creditados, por programa.
+ * "Em compra" = cobrança numa compra não cancelada; o resto é avulso.
+ */
+export async function clubSpendReport(
+  db: Db,
+  args: { from: Date; to: Date; program?: LoyaltyProgram | null }
+) {
+  const charges = await db.clubCharge.findMany({
+    where: {
+      chargedAt: { gte: args.from, lt: args.to },
+      ...(args.program ? { program: args.program } : {}),
+    },
+    orderBy: [{ chargedAt: "desc" }, { createdAt: "desc" }],
+    select: {
+      id: true,
+      program: true,
+      tierK: true,
+      chargedAt: true,
+      amountCents: true,
+      pointsCredited: true,
+      source: true,
+      notes: true,
+      clubSubscriptionId: true,
+      cedente: { select: { id: true, identificador: true, nomeCompleto: true } },
+      purchase: { select: { id: true, numero: true, status: true } },
+    },
+  });
+
+  const byProgram = new Map<
+    LoyaltyProgram,
+    {
+      program: LoyaltyProgram;
+      charges: number;
+      spendCents: number;
+      inPurchaseCents: number;
+      overheadCents: number;
+      pointsCredited: number;
+    }
+  >();
+
+  for (const c of charges) {
+    const row = byProgram.get(c.program) ?? {
+      program: c.program,
+      charges: 0,
+      spendCents: 0,
+      inPurchaseCents: 0,
+      overheadCents: 0,
+      pointsCredited: 0,
+    };
+    const inPurchase = !!c.purchase && c.purchase.status !== "CANCELED";
+
+    row.charges++;
+    row.spendCents += c.amountCents;
+    row.pointsCredited += c.pointsCredited;
+    if (inPurchase) row.inPurchaseCents += c.amountCents;
+    else row.overheadCents += c.amountCents;
+
+    byProgram.set(c.program, row);
+  }
+
+  const summary = Array.from(byProgram.values())
+    .map((r) => ({
+      ...r,
+      // custo do milheiro do clube (R$ por 1.000 pontos creditados)
+      costPerMilheiroCents: r.pointsCredited > 0 ? Math.round((r.spendCents * 1000) / r.pointsCredited) : null,
+    }))
+    .sort((a, b) => b.spendCents - a.spendCents);
+
+  return { charges, summary };
+}
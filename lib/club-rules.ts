@@ -0,0 +1,305 @@
+import { ClubCycleType, ClubSubscriptionStatus, LoyaltyProgram, Prisma } from "@prisma/client";
+
+/**
+ * ✅ Regras dos clubes (assinaturas) — fonte única.
+ *
+ * Cada time pode configurar a regra por programa (tabela club_rules); sem regra
+ * gravada vale o padrão abaixo. Cron, cadastro de clubes, estratégia de compra
+ * e LATAM Turbo usam todos `projectClub`.
+ *
+ * Datas em UTC, sempre no início do dia (mesmo critério das datas gravadas).
+ */
+
+// client do time (tenantPrisma) ou `tx` de uma transaction dele
+type Db = Prisma.TransactionClient;
+
+export type ClubRuleConfig = {
+  program: LoyaltyProgram;
+  cycleType: ClubCycleType;
+  renewalDay: number | null; // MONTHLY: dia padrão de renovação (1-31)
+  cycleDays: number | null; // FIXED_DAYS
+  pauseAfterDays: number; // dias após o vencimento até pausar
+  cancelAfterDays: number | null; // dias pausado até cancelar (null = não cancela)
+  bonusEligibleDays: number | null; // última assinatura + N dias = pode aderir à promo de novo
+};
+
+export type ClubCalendarKind = "RENEWAL" | "PAUSE" | "CANCEL" | "BONUS";
+export type ClubCalendarEvent = { kind: ClubCalendarKind; at: Date };
+
+export type ClubProjection = {
+  nextRenewalAt: Date | null;
+  inactiveAt: Date | null; // vira PAUSED
+  activeUntil: Date | null; // último dia ativo
+  cancelAt: Date | null; // vira CANCELED
+  pointsExpireAt: Date | null; // gravado na assinatura: "cancela em" ou, sem cancelamento, "inativa em"
+  bonusEligibleAt: Date | null;
+  status: ClubSubscriptionStatus; // status efetivo hoje (só rebaixa, nunca reativa)
+  calendar: ClubCalendarEvent[];
+};
+
+function manual(program: LoyaltyProgram): ClubRuleConfig {
+  return {
+    program,
+    cycleType: ClubCycleType.MANUAL,
+    renewalDay: null,
+    cycleDays: null,
+    pauseAfterDays: 0,
+    cancelAfterDays: null,
+    bonusEligibleDays: null,
+  };
+}
+
+export const DEFAULT_CLUB_RULES: Record<LoyaltyProgram, ClubRuleConfig> = {
+  // LATAM: cobra no mês seguinte, pausa no dia seguinte, cancela 10 dias depois
+  LATAM: {
+    program: LoyaltyProgram.LATAM,
+    cycleType: ClubCycleType.MONTHLY,
+    renewalDay: 1,
+    cycleDays: null,
+    pauseAfterDays: 1,
+    cancelAfterDays: 10,
+    bonusEligibleDays: null,
+  },
+  // SMILES: igual LATAM, mas cancela 60 dias depois; promo de novo após 365 dias
+  SMILES: {
+    program: LoyaltyProgram.SMILES,
+    cycleType: ClubCycleType.MONTHLY,
+    renewalDay: 1,
+    cycleDays: null,
+    pauseAfterDays: 1,
+    cancelAfterDays: 60,
+    bonusEligibleDays: 365,
+  },
+  // LIVELO: pausa exatamente D+30 da assinatura/renovação (não cancela)
+  LIVELO: {
+    program: LoyaltyProgram.LIVELO,
+    cycleType: ClubCycleType.FIXED_DAYS,
+    renewalDay: null,
+    cycleDays: 30,
+    pauseAfterDays: 0,
+    cancelAfterDays: null,
+    bonusEligibleDays: null,
+  },
+  ESFERA: manual(LoyaltyProgram.ESFERA),
+  AZUL: manual(LoyaltyProgram.AZUL),
+  IBERIA: manual(LoyaltyProgram.IBERIA),
+  AA: manual(LoyaltyProgram.AA),
+  TAP: manual(LoyaltyProgram.TAP),
+  FLYING_BLUE: manual(LoyaltyProgram.FLYING_BLUE),
+};
+
+export function startUTC(d: Date) {
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+}
+
+export function addDaysUTC(base: Date, days: number) {
+  const d = startUTC(base);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d;
+}
+
+function clampRenewalDay(n: number) {
+  return Math.min(31, Math.max(1, Math.trunc(Number(n) || 1)));
+}
+
+/** dia X do mês seguinte ao base (clamp se o mês não tem aquele dia) */
+function nextMonthOnDayUTC(base: Date, day: number) {
+  const b = startUTC(base);
+  const y = b.getUTCFullYear() + Math.floor((b.getUTCMonth() + 1) / 12);
+  const m = (b.getUTCMonth() + 1) % 12;
+  const last = new Date(Date.UTC(y, m + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(y, m, Math.min(clampRenewalDay(day), last)));
+}
+
+function nextDue(rule: ClubRuleConfig, from: Date, renewalDay: number) {
+  if (rule.cycleType === ClubCycleType.MONTHLY) return nextMonthOnDayUTC(from, renewalDay);
+  if (rule.cycleType === ClubCycleType.FIXED_DAYS) return addDaysUTC(from, Math.max(1, rule.cycleDays ?? 30));
+  return null;
+}
+
+const SEVERITY: Record<ClubSubscriptionStatus, number> = { ACTIVE: 0, PAUSED: 1, CANCELED: 2 };
+
+/**
+ * Datas automáticas e calendário de uma assinatura.
+ *
+ * - vencimento: a partir de `lastRenewedAt ?? subscribedAt` (mês seguinte no
+ *   renewalDay, ou +cycleDays)
+ * - pausa: vencimento + pauseAfterDays; cancela: pausa + cancelAfterDays
+ * - status: só rebaixa (ACTIVE → PAUSED → CANCELED), nunca “des-cancela”
+ * - calendário: eventos de hoje até `horizonDays`; renovações seguintes supõem
+ *   que a atual foi paga
+ */
+export function projectClub(
+  rule: ClubRuleConfig,
+  sub: {
+    status: ClubSubscriptionStatus;
+    subscribedAt: Date;
+    renewalDay: number;
+    lastRenewedAt: Date | null;
+    bonusBaseAt?: Date | null; // promo: ÚLTIMA assinatura do cedente no programa
+  },
+  opts: { now?: Date; horizonDays?: number } = {}
+): ClubProjection {
+  const today = startUTC(opts.now ?? new Date());
+  const renewalDay = clampRenewalDay(sub.renewalDay);
+
+  const nextRenewalAt = nextDue(rule, sub.lastRenewedAt ?? sub.subscribedAt, renewalDay);
+  const inactiveAt = nextRenewalAt ? addDaysUTC(nextRenewalAt, Math.max(0, rule.pauseAfterDays)) : null;
+  const activeUntil = inactiveAt ? addDaysUTC(inactiveAt, -1) : null;
+  const cancelAt = inactiveAt && rule.cancelAfterDays != null ? addDaysUTC(inactiveAt, rule.cancelAfterDays) : null;
+
+  const bonusEligibleAt =
+    rule.bonusEligibleDays != null ? addDaysUTC(sub.bonusBaseAt ?? sub.subscribedAt, rule.bonusEligibleDays) : null;
+
+  let status = sub.status;
+  if (status !== "CANCELED") {
+    if (cancelAt && today >= cancelAt) status = "CANCELED";
+    else if (inactiveAt && today >= inactiveAt && SEVERITY[status] < SEVERITY.PAUSED) status = "PAUSED";
+  }
+
+  const horizon = addDaysUTC(today, Math.max(0, opts.horizonDays ?? 90));
+  const inRange = (d: Date | null): d is Date => !!d && d >= today && d <= horizon;
+
+  const calendar: ClubCalendarEvent[] = [];
+  if (status !== "CANCELED") {
+    let due = nextRenewalAt;
+    while (due && due <= horizon) {
+      if (inRange(due)) calendar.push({ kind: "RENEWAL", at: due });
+      due = nextDue(rule, due, renewalDay);
+    }
+    if (inRange(inactiveAt) && status === "ACTIVE") calendar.push({ kind: "PAUSE", at: inactiveAt });
+    if (inRange(cancelAt)) calendar.push({ kind: "CANCEL", at: cancelAt });
+  }
+  if (inRange(bonusEligibleAt)) calendar.push({ kind: "BONUS", at: bonusEligibleAt });
+  calendar.sort((a, b) => a.at.getTime() - b.at.getTime());
+
+  return {
+    nextRenewalAt,
+    inactiveAt,
+    activeUntil,
+    cancelAt,
+    pointsExpireAt: cancelAt ?? inactiveAt,
+    bonusEligibleAt,
+    status,
+    calendar,
+  };
+}
+
+/** Texto curto da regra (telas). */
+export function describeClubRule(rule: ClubRuleConfig) {
+  if (rule.cycleType === ClubCycleType.MANUAL) return "Manual (sem automação)";
+
+  const cycle =
+    rule.cycleType === ClubCycleType.MONTHLY
+      ? "renova todo mês"
+      : `renova a cada ${rule.cycleDays ?? 30} dias`;
+  const pause = rule.pauseAfterDays ? `pausa ${rule.pauseAfterDays}d após vencer` : "pausa no vencimento";
+  const cancel = rule.cancelAfterDays != null ? `cancela ${rule.cancelAfterDays}d após pausar` : "não cancela";
+  const bonus = rule.bonusEligibleDays != null ? ` · promo de novo após ${rule.bonusEligibleDays}d` : "";
+
+  return `${cycle}, ${pause}, ${cancel}${bonus}`;
+}
+
+function optInt(v: unknown) {
+  if (v === null || v === undefined || v === "") return null;
+  const n = Math.trunc(Number(v));
+  return Number.isFinite(n) ? n : NaN;
+}
+
+/**
+ * Valida o body de uma regra (PUT /api/clubes/regras).
+ * Devolve a regra normalizada ou a mensagem de erro.
+ */
+export function parseClubRuleInput(
+  program: LoyaltyProgram,
+  body: {
+    cycleType?: unknown;
+    renewalDay?: unknown;
+    cycleDays?: unknown;
+    pauseAfterDays?: unknown;
+    cancelAfterDays?: unknown;
+    bonusEligibleDays?: unknown;
+  }
+): ClubRuleConfig | string {
+  const cycleType = String(body?.cycleType || "").toUpperCase() as ClubCycleType;
+  if (!Object.values(ClubCycleType).includes(cycleType)) return "Tipo de ciclo inválido.";
+
+  const bonusEligibleDays = optInt(body?.bonusEligibleDays);
+  if (Number.isNaN(bonusEligibleDays) || (bonusEligibleDays !== null && (bonusEligibleDays < 1 || bonusEligibleDays > 3660))) {
+    return "Dias para a promo inválidos (1 a 3660).";
+  }
+
+  if (cycleType === ClubCycleType.MANUAL) return { ...manual(program), bonusEligibleDays };
+
+  const pauseAfterDays = optInt(body?.pauseAfterDays) ?? 0;
+  if (Number.isNaN(pauseAfterDays) || pauseAfterDays < 0 || pauseAfterDays > 365) {
+    return "Dias até pausar inválidos (0 a 365).";
+  }
+
+  const cancelAfterDays = optInt(body?.cancelAfterDays);
+  if (Number.isNaN(cancelAfterDays) || (cancelAfterDays !== null && (cancelAfterDays < 0 || cancelAfterDays > 365))) {
+    return "Dias até cancelar inválidos (0 a 365).";
+  }
+
+  const rule: ClubRuleConfig = {
+    program,
+    cycleType,
+    renewalDay: null,
+    cycleDays: null,
+    pauseAfterDays,
+    cancelAfterDays,
+    bonusEligibleDays,
+  };
+
+  if (cycleType === ClubCycleType.MONTHLY) {
+    const day = optInt(body?.renewalDay) ?? 1;
+    if (Number.isNaN(day) || day < 1 || day > 31) return "Dia de renovação inválido (1 a 31).";
+    rule.renewalDay = day;
+  }
+
+  if (cycleType === ClubCycleType.FIXED_DAYS) {
+    const days = optInt(body?.cycleDays);
+    if (days === null || Number.isNaN(days) || days < 1 || days > 366) return "Dias do ciclo inválidos (1 a 366).";
+    rule.cycleDays = days;
+  }
+
+  return rule;
+}
+
+const RULE_SELECT = {
+  program: true,
+  cycleType: true,
+  renewalDay: true,
+  cycleDays: true,
+  pauseAfterDays: true,
+  cancelAfterDays: true,
+  bonusEligibleDays: true,
+} as const;
+
+/** Regras do time para todos os programas (padrão onde não há regra gravada). */
+export async function getClubRules(db: Db): Promise<Record<LoyaltyProgram, ClubRuleConfig>> {
+  const rows = await db.clubRule.findMany({ select: RULE_SELECT });
+
+  const out = { ...DEFAULT_CLUB_RULES };
+  for (const r of rows) out[r.program] = r;
+  return out;
+}
+
+export async function getClubRule(db: Db, program: LoyaltyProgram): Promise<ClubRuleConfig> {
+  const row = await db.clubRule.findFirst({ where: { program }, select: RULE_SELECT });
+  return row ?? DEFAULT_CLUB_RULES[program];
+}
+
+/** Projeção para JSON (API / props de página). */
+export function serializeProjection(p: ClubProjection) {
+  const iso = (d: Date | null) => (d ? d.toISOString() : null);
+  return {
+    nextRenewalAt: iso(p.nextRenewalAt),
+    inactiveAt: iso(p.inactiveAt),
+    activeUntil: iso(p.activeUntil),
+    cancelAt: iso(p.cancelAt),
+    bonusEligibleAt: iso(p.bonusEligibleAt),
+    status: p.status,
+    calendar: p.calendar.map((e) => ({ kind: e.kind, at: e.at.toISOString() })),
+  };
+}
@@ -0,0 +1,454 @@
+import type { BankLineDirection, BankMatchType, Prisma } from "@prisma/client";
+import { computeStatus } from "@/lib/dividas-a-receber";
+import { emitDomainEvent } from "@/lib/outbox";
+import { applyReceipt } from "@/lib/recebiveis";
+import { todayISORecife } from "@/lib/payouts/employeePayouts";
+import type { TenantPrisma } from "@/lib/tenant";
+import {
+  MATCH_TYPES_BY_DIRECTION,
+  monthRefOf,
+  pickSuggestion,
+  rankTargets,
+  type MatchTarget,
+} from "./match";
+import type { ParsedStatement } from "./parse";
+
+export {
+  MATCH_PERMISSION,
+  MATCH_TYPE_LABEL,
+  MATCH_TYPES_BY_DIRECTION,
+  rankTargets,
+  type MatchCandidate,
+} from "./match";
+export { decodeStatement, parseStatement, StatementParseError } from "./parse";
+
+/**
+ * ✅ Conciliação bancária
+ *
+ * Import: cada lançamento novo do extrato ganha (ou não) uma sugestão de match.
+ * Confirmar o match quita o registro de origem na mesma transaction:
+ * - crédito → recebível (Receipt), dívida a receber (pagamento) ou mensalidade VIP
+ * - débito  → comissão de cedente ou pagamento de funcionário
+ */
+
+// client do time (tenantPrisma) ou `tx` de uma transaction dele
+type Db = Prisma.TransactionClient;
+
+export class ReconciliationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReconciliationError";
+  }
+}
+
+const OPEN_LINE_STATUSES = ["UNMATCHED", "SUGGESTED"] as const;
+
+function payoutDate(date: string) {
+  return new Date(`${date}T12:00:00-03:00`);
+}
+
+/** Registros em aberto que um lançamento nesse sentido pode quitar. */
+export async function loadMatchTargets(db: Db, team: string, direction: BankLineDirection) {
+  const out: MatchTarget[] = [];
+
+  if (direction === "CREDIT") {
+    const [receivables, dividas, leads] = await Promise.all([
+      db.receivable.findMany({
+        where: { status: "OPEN", balanceCents: { gt: 0 } },
+        orderBy: { createdAt: "desc" },
+        take: 1000,
+        select: {
+          id: true,
+          title: true,
+          balanceCents: true,
+          createdAt: true,
+          sale: {
+            select: { numero: true, date: true, cliente: { select: { nome: true, cpfCnpj: true } } },
+          },
+        },
+      }),
+      db.dividaAReceber.findMany({
+        where: { status: { in: ["OPEN", "PARTIAL"] } },
+        orderBy: { createdAt: "desc" },
+        take: 500,
+        select: {
+          id: true,
+          title: true,
+          debtorName: true,
+          debtorDoc: true,
+          totalCents: true,
+          receivedCents: true,
+          dueDate: true,
+          createdAt: true,
+        },
+      }),
+      db.vipWhatsappLead.findMany({
+        where: { status: "APPROVED" },
+        orderBy: { createdAt: "desc" },
+        take: 1000,
+        select: {
+          id: true,
+          fullName: true,
+          whatsappE164: true,
+          firstMonthCents: true,
+          recurringMonthCents: true,
+          payments: { select: { monthRef: true }, orderBy: { paidAt: "desc" }, take: 24 },
+          _count: { select: { payments: true } },
+        },
+      }),
+    ]);
+
+    for (const r of receivables) {
+      out.push({
+        type: "RECEIVABLE",
+        id: r.id,
+        label: r.sale ? `Venda ${r.sale.numero} · ${r.sale.cliente.nome}` : r.title,
+        amountCents: r.balanceCents,
+        partial: true,
+        date: r.sale?.date ?? r.createdAt,
+        docs: r.sale?.cliente.cpfCnpj ? [r.sale.cliente.cpfCnpj] : [],
+        names: r.sale ? [r.sale.cliente.nome] : [],
+      });
+    }
+
+    for (const d of dividas) {
+      const open = d.totalCents - d.receivedCents;
+      if (open <= 0) continue;
+      out.push({
+        type: "DIVIDA_A_RECEBER",
+        id: d.id,
+        label: `${d.debtorName} · ${d.title}`,
+        amountCents: open,
+        partial: true,
+        date: d.dueDate ?? d.createdAt,
+        docs: d.debtorDoc ? [d.debtorDoc] : [],
+        names: [d.debtorName],
+      });
+    }
+
+    for (const l of leads) {
+      out.push({
+        type: "VIP_LEAD",
+        id: l.id,
+        label: `VIP · ${l.fullName}`,
+        amountCents: l._count.payments ? l.recurringMonthCents : l.firstMonthCents,
+        partial: false,
+        date: null,
+        docs: [l.whatsappE164],
+        names: [l.fullName],
+        paidMonths: l.payments.map((p) => p.monthRef).filter((m): m is string => !!m),
+      });
+    }
+
+    return out;
+  }
+
+  const [commissions, payouts] = await Promise.all([
+    // comissão não tem coluna team: o time vem do cedente
+    db.cedenteCommission.findMany({
+      where: { status: "PENDING", cedente: { team } },
+      orderBy: { generatedAt: "desc" },
+      take: 1000,
+      select: {
+        id: true,
+        amountCents: true,
+        generatedAt: true,
+        cedente: { select: { nomeCompleto: true, cpf: true, chavePix: true } },
+      },
+    }),
+    db.employeePayout.findMany({
+      where: { paidById: null, netPayCents: { gt: 0 }, date: { lt: todayISORecife() } },
+      orderBy: { date: "desc" },
+      take: 1000,
+      select: {
+        id: true,
+        date: true,
+        netPayCents: true,
+        user: { select: { name: true, cpf: true } },
+      },
+    }),
+  ]);
+
+  for (const c of commissions) {
+    out.push({
+      type: "CEDENTE_COMMISSION",
+      id: c.id,
+      label: `Comissão · ${c.cedente.nomeCompleto}`,
+      amountCents: c.amountCents,
+      partial: false,
+      date: c.generatedAt,
+      docs: [c.cedente.cpf, c.cedente.chavePix],
+      names: [c.cedente.nomeCompleto],
+    });
+  }
+
+  for (const p of payouts) {
+    out.push({
+      type: "EMPLOYEE_PAYOUT",
+      id: p.id,
+      label: `${p.user.name} · dia ${p.date.split("-").reverse().join("/")}`,
+      amountCents: p.netPayCents,
+      partial: false,
+      date: payoutDate(p.date),
+      docs: p.user.cpf ? [p.user.cpf] : [],
+      names: [p.user.name],
+    });
+  }
+
+  return out;
+}
+
+/**
+ * Grava o extrato. Lançamento já importado (mesmo FITID/hash) é pulado;
+ * os novos saem SUGGESTED quando há match confiável, senão UNMATCHED.
+ */
+export async function importStatement(
+  db: Db,
+  args: { team: string; actorId: string; fileName: string; parsed: ParsedStatement }
+) {
+  const { team, parsed } = args;
+
+  const existing = await db.bankStatementLine.findMany({
+    where: { fitId: { in: parsed.lines.map((l) => l.fitId) } },
+    select: { fitId: true },
+  });
+  const seen = new Set(existing.map((e) => e.fitId));
+  const fresh = parsed.lines.filter((l) => {
+    if (seen.has(l.fitId)) return false;
+    seen.add(l.fitId);
+    return true;
+  });
+
+  const directions = new Set(fresh.map((l) => l.direction));
+  const targets: Record<BankLineDirection, MatchTarget[]> = {
+    CREDIT: directions.has("CREDIT") ? await loadMatchTargets(db, team, "CREDIT") : [],
+    DEBIT: directions.has("DEBIT") ? await loadMatchTargets(db, team, "DEBIT") : [],
+  };
+
+  // um registro sugerido para uma linha só
+  const used = new Set<string>();
+  const rows = fresh.map((l) => {
+    const best = pickSuggestion(rankTargets(l, targets[l.direction]), used);
+    if (best) used.add(`${best.type}:${best.id}`);
+    return {
+      ...l,
+      team,
+      status: best ? ("SUGGESTED" as const) : ("UNMATCHED" as const),
+      suggestedType: best?.type ?? null,
+      suggestedId: best?.id ?? null,
+      suggestedScore: best?.score ?? null,
+      suggestedLabel: best?.label ?? null,
+    };
+  });
+
+  // extrato + linhas num create só (tudo ou nada)
+  const statement = await db.bankStatement.create({
+    data: {
+      team,
+      fileName: args.fileName.slice(0, 200),
+      format: parsed.format,
+      bankId: parsed.bankId,
+      accountId: parsed.accountId,
+      periodFrom: parsed.periodFrom,
+      periodTo: parsed.periodTo,
+      linesCount: rows.length,
+      skippedCount: parsed.lines.length - rows.length,
+      importedById: args.actorId,
+      lines: { createMany: { data: rows, skipDuplicates: true } },
+    },
+    select: { id: true, fileName: true, linesCount: true, skippedCount: true, createdAt: true },
+  });
+
+  return {
+    statement,
+    imported: rows.length,
+    skipped: parsed.lines.length - rows.length,
+    suggested: rows.filter((r) => r.status === "SUGGESTED").length,
+  };
+}
+
+type SettleLine = { id: string; postedAt: Date; amountCents: number; description: string };
+
+async function settleTarget(
+  tx: Db,
+  args: { team: string; actorId: string; line: SettleLine; type: BankMatchType; targetId: string }
+): Promise<string> {
+  const { team, actorId, line, targetId } = args;
+  const amount = line.amountCents;
+  const note = `Conciliação bancária: ${line.description}`.slice(0, 500);
+
+  switch (args.type) {
+    case "RECEIVABLE": {
+      const r = await tx.receivable.findUnique({
+        where: { id: targetId },
+        select: {
+          id: true,
+          title: true,
+          balanceCents: true,
+          status: true,
+          sale: { select: { numero: true, cliente: { select: { nome: true } } } },
+        },
+      });
+      if (!r || r.status !== "OPEN") throw new ReconciliationError("Recebível não está em aberto.");
+      if (amount > r.balanceCents) throw new ReconciliationError("Valor do extrato maior que o saldo do recebível.");
+
+      // aloca nas parcelas e, se quitou, marca a venda paga (lib/recebiveis)
+      await applyReceipt(tx, { receivableId: r.id, amountCents: amount, note, receivedAt: line.postedAt });
+      return r.sale ? `Venda ${r.sale.numero} · ${r.sale.cliente.nome}` : r.title;
+    }
+
+    case "DIVIDA_A_RECEBER": {
+      const d = await tx.dividaAReceber.findUnique({
+        where: { id: targetId },
+        select: { id: true, title: true, debtorName: true, totalCents: true, receivedCents: true, status: true },
+      });
+      if (!d || (d.status !== "OPEN" && d.status !== "PARTIAL")) {
+        throw new ReconciliationError("Dívida a receber não está em aberto.");
+      }
+      if (amount > d.totalCents - d.receivedCents) {
+        throw new ReconciliationError("Valor do extrato maior que o saldo da dívida.");
+      }
+
+      await tx.dividaAReceberPagamento.create({
+        data: { dividaId: d.id, amountCents: amount, method: "PIX", receivedAt: line.postedAt, note },
+      });
+      const agg = await tx.dividaAReceberPagamento.aggregate({
+        where: { dividaId: d.id },
+        _sum: { amountCents: true },
+      });
+      const receivedCents = agg._sum.amountCents || 0;
+      await tx.dividaAReceber.update({
+        where: { id: d.id },
+        data: { receivedCents, status: computeStatus(d.totalCents, receivedCents) },
+      });
+      return `${d.debtorName} · ${d.title}`;
+    }
+
+    case "VIP_LEAD": {
+      const lead = await tx.vipWhatsappLead.findFirst({
+        where: { id: targetId, status: "APPROVED" },
+        select: { id: true, fullName: true },
+      });
+      if (!lead) throw new ReconciliationError("Cadastro VIP não encontrado ou não aprovado.");
+
+      const monthRef = monthRefOf(line.postedAt);
+      const already = await tx.vipWhatsappPayment.findFirst({
+        where: { leadId: lead.id, monthRef },
+        select: { id: true },
+      });
+      if (already) throw new ReconciliationError(`Mensalidade ${monthRef} já registrada para ${lead.fullName}.`);
+
+      await tx.vipWhatsappPayment.create({
+        data: {
+          team,
+          leadId: lead.id,
+          amountCents: amount,
+          monthRef,
+          note,
+          paidAt: line.postedAt,
+          recordedById: actorId,
+        },
+      });
+      return `VIP · ${lead.fullName} (${monthRef})`;
+    }
+
+    case "CEDENTE_COMMISSION": {
+      const c = await tx.cedenteCommission.findFirst({
+        where: { id: targetId, cedente: { team } },
+        select: { id: true, amountCents: true, status: true, cedente: { select: { nomeCompleto: true } } },
+      });
+      if (!c || c.status !== "PENDING") throw new ReconciliationError("Comissão não está pendente.");
+      if (c.amountCents !== amount) throw new ReconciliationError("Valor do extrato difere da comissão.");
+
+      const res = await tx.cedenteCommission.updateMany({
+        where: { id: c.id, status: "PENDING" },
+        data: { status: "PAID", paidAt: line.postedAt, paidById: actorId },
+      });
+      if (res.count !== 1) throw new ReconciliationError("Comissão não está pendente.");
+      return `Comissão · ${c.cedente.nomeCompleto}`;
+    }
+
+    case "EMPLOYEE_PAYOUT": {
+      const p = await tx.employeePayout.findFirst({
+        where: { id: targetId },
+        select: {
+          id: true,
+          date: true,
+          userId: true,
+          netPayCents: true,
+          paidById: true,
+          user: { select: { name: true } },
+        },
+      });
+      if (!p || p.paidById) throw new ReconciliationError("Pagamento de funcionário não está em aberto.");
+      if (p.date >= todayISORecife()) throw new ReconciliationError("Só paga dia fechado.");
+      if (p.netPayCents !== amount) throw new ReconciliationError("Valor do extrato difere do líquido a pagar.");
+
+      const res = await tx.employeePayout.updateMany({
+        where: { id: p.id, paidById: null },
+        data: { paidById: actorId, paidAt: line.postedAt },
+      });
+      if (res.count !== 1) throw new ReconciliationError("Pagamento de funcionário não está em aberto.");
+
+      await emitDomainEvent(tx, {
+        team,
+        type: "payout.paid",
+        aggregateType: "EmployeePayout",
+        aggregateId: p.id,
+        actorId,
+        payload: {
+          date: p.date,
+          userId: p.userId,
+          userName: p.user.name,
+          netPayCents: p.netPayCents,
+          paidAt: line.postedAt.toISOString(),
+        },
+      });
+      return `${p.user.name} · dia ${p.date.split("-").reverse().join("/")}`;
+    }
+  }
+}
+
+/**
+ * Confirma o match: marca a linha e quita o registro (tudo ou nada).
+ * `db` é o client do time — a transaction abre aqui.
+ */
+export async function confirmMatch(
+  db: TenantPrisma,
+  args: { team: string; actorId: string; lineId: string; type: BankMatchType; targetId: string }
+) {
+  return db.$transaction(async (tx) => {
+    const line = await tx.bankStatementLine.findUnique({
+      where: { id: args.lineId },
+      select: { id: true, status: true, direction: true, postedAt: true, amountCents: true, description: true },
+    });
+    if (!line) throw new ReconciliationError("Lançamento não encontrado.");
+
+    // trava a linha (duas pessoas confirmando ao mesmo tempo → só uma quita)
+    const claimed = await tx.bankStatementLine.updateMany({
+      where: { id: line.id, status: { in: [...OPEN_LINE_STATUSES] } },
+      data: { status: "MATCHED", matchedType: args.type, matchedId: args.targetId },
+    });
+    if (claimed.count !== 1) throw new ReconciliationError("Lançamento já conciliado ou ignorado.");
+
+    if (!MATCH_TYPES_BY_DIRECTION[line.direction].includes(args.type)) {
+      throw new ReconciliationError(
+        line.direction === "CREDIT" ? "Crédito só quita recebimentos." : "Débito só quita pagamentos."
+      );
+    }
+
+    const label = await settleTarget(tx, {
+      team: args.team,
+      actorId: args.actorId,
+      line,
+      type: args.type,
+      targetId: args.targetId,
+    });
+
+    return tx.bankStatementLine.update({
+      where: { id: line.id },
+      data: { matchedLabel: label, matchedAt: new Date(), matchedById: args.actorId },
+      select: { id: true, status: true, matchedType: true, matchedId: true, matchedLabel: true, matchedAt: true },
+    });
+  });
+}
@@ -0,0 +1,190 @@
+import type { BankLineDirection, BankMatchType } from "@prisma/client";
+import type { Permission } from "@/lib/permissions";
+
+/**
+ * ✅ Pontuação lançamento do extrato × registro em aberto.
+ *
+ * valor exato = 50 | chave PIX/documento = 40 | nome na descrição = 20
+ * data: até 1 dia = 15, até 5 = 10, até 15 = 5
+ * Sugestão automática só com valor exato + algum outro sinal e sem empate.
+ */
+
+export const MATCH_TYPE_LABEL: Record<BankMatchType, string> = {
+  RECEIVABLE: "Recebível (venda)",
+  DIVIDA_A_RECEBER: "Dívida a receber",
+  VIP_LEAD: "Grupo VIP",
+  CEDENTE_COMMISSION: "Comissão de cedente",
+  EMPLOYEE_PAYOUT: "Pagamento de funcionário",
+};
+
+export const MATCH_TYPES_BY_DIRECTION: Record<BankLineDirection, BankMatchType[]> = {
+  CREDIT: ["RECEIVABLE", "DIVIDA_A_RECEBER", "VIP_LEAD"],
+  DEBIT: ["CEDENTE_COMMISSION", "EMPLOYEE_PAYOUT"],
+};
+
+// quitar o registro exige a permissão de escrita do módulo dele
+export const MATCH_PERMISSION: Record<BankMatchType, Permission> = {
+  RECEIVABLE: "financeiro.write",
+  DIVIDA_A_RECEBER: "dividas.write",
+  VIP_LEAD: "vip.write",
+  CEDENTE_COMMISSION: "payouts.write",
+  EMPLOYEE_PAYOUT: "payouts.write",
+};
+
+export const SUGGEST_MIN_SCORE = 65;
+
+/** Registro que pode ser quitado por um lançamento. */
+export type MatchTarget = {
+  type: BankMatchType;
+  id: string;
+  label: string;
+  amountCents: number; // valor esperado (saldo em aberto / mensalidade / líquido)
+  partial: boolean; // aceita pagamento parcial (recebível, dívida a receber)
+  date: Date | null;
+  docs: string[]; // CPF/CNPJ/chaves PIX do favorecido/pagador
+  names: string[];
+  paidMonths?: string[]; // VIP: meses (YYYY-MM) já pagos
+};
+
+export type MatchLine = {
+  postedAt: Date;
+  direction: BankLineDirection;
+  amountCents: number;
+  description: string;
+  document: string | null;
+  pixKey: string | null;
+};
+
+export type MatchCandidate = {
+  type: BankMatchType;
+  id: string;
+  label: string;
+  amountCents: number;
+  date: string | null;
+  score: number;
+  reasons: string[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function monthRefOf(d: Date) {
+  // mês em SP (meio-dia garante o dia certo)
+  const sp = new Date(d.getTime() - 3 * 60 * 60 * 1000);
+  return `${sp.getUTCFullYear()}-${String(sp.getUTCMonth() + 1).padStart(2, "0")}`;
+}
+
+export function normalizeName(s: string) {
+  return String(s || "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toUpperCase()
+    .replace(/[^A-Z0-9 ]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function normalizeKey(s: string) {
+  const v = String(s || "").trim().toLowerCase();
+  if (v.includes("@") || /^[0-9a-f]{8}-/.test(v)) return v;
+  return v.replace(/[^\d*]/g, "");
+}
+
+// CPF mascarado do extrato (***456789**) bate com o CPF completo nos dígitos visíveis
+function keyMatches(lineKey: string, targetKey: string) {
+  if (!lineKey || !targetKey) return false;
+  if (!lineKey.includes("*")) {
+    // telefone com/sem DDI
+    return lineKey === targetKey || (lineKey.length >= 10 && targetKey.endsWith(lineKey));
+  }
+  if (lineKey.length !== targetKey.length) return false;
+  for (let i = 0; i < lineKey.length; i++) {
+    if (lineKey[i] !== "*" && lineKey[i] !== targetKey[i]) return false;
+  }
+  return true;
+}
+
+// nome "bate" se 2+ palavras (ou a única palavra longa) aparecem na descrição
+function nameMatches(description: string, name: string) {
+  const words = normalizeName(name)
+    .split(" ")
+    .filter((w) => w.length >= 3 && !["DA", "DE", "DO", "DAS", "DOS"].includes(w));
+  if (!words.length) return false;
+  const hay = ` ${normalizeName(description)} `;
+  const hits = words.filter((w) => hay.includes(` ${w} `)).length;
+  return words.length === 1 ? hits === 1 && words[0].length >= 5 : hits >= 2;
+}
+
+export function scoreTarget(line: MatchLine, target: MatchTarget): MatchCandidate | null {
+  if (!MATCH_TYPES_BY_DIRECTION[line.direction].includes(target.type)) return null;
+  if (target.paidMonths?.includes(monthRefOf(line.postedAt))) return null;
+
+  let score = 0;
+  const reasons: string[] = [];
+
+  if (line.amountCents === target.amountCents) {
+    score += 50;
+    reasons.push("valor exato");
+  }
+
+  const lineKeys = [line.document, line.pixKey].filter(Boolean).map((k) => normalizeKey(k as string));
+  const targetKeys = target.docs.map(normalizeKey).filter(Boolean);
+  if (lineKeys.some((lk) => targetKeys.some((tk) => keyMatches(lk, tk)))) {
+    score += 40;
+    reasons.push("chave PIX/documento");
+  }
+
+  if (target.names.some((n) => nameMatches(line.description, n))) {
+    score += 20;
+    reasons.push("nome");
+  }
+
+  if (target.date) {
+    const days = Math.abs(line.postedAt.getTime() - target.date.getTime()) / DAY_MS;
+    const pts = days <= 1 ? 15 : days <= 5 ? 10 : days <= 15 ? 5 : 0;
+    if (pts) {
+      score += pts;
+      reasons.push(days <= 1 ? "mesma data" : `data (${Math.round(days)}d)`);
+    }
+  }
+
+  return {
+    type: target.type,
+    id: target.id,
+    label: target.label,
+    amountCents: target.amountCents,
+    date: target.date ? target.date.toISOString() : null,
+    score,
+    reasons,
+  };
+}
+
+/** Candidatos ordenados (melhor primeiro). `q` filtra pelo rótulo e ignora o valor. */
+export function rankTargets(line: MatchLine, targets: MatchTarget[], q = "") {
+  const needle = normalizeName(q);
+  const out: MatchCandidate[] = [];
+
+  for (const t of targets) {
+    const c = scoreTarget(line, t);
+    if (!c) continue;
+    if (needle) {
+      if (!normalizeName(t.label).includes(needle)) continue;
+    } else if (c.score === 0) {
+      continue;
+    }
+    // valor acima do esperado nunca quita; abaixo, só quem aceita parcial
+    if (line.amountCents > t.amountCents) continue;
+    if (line.amountCents < t.amountCents && !t.partial) continue;
+    out.push(c);
+  }
+
+  return out.sort((a, b) => b.score - a.score || a.label.localeCompare(b.label));
+}
+
+/** Melhor candidato, se for confiável o bastante para sugerir. */
+export function pickSuggestion(candidates: MatchCandidate[], used: Set<string>) {
+  const free = candidates.filter((c) => !used.has(`${c.type}:${c.id}`));
+  const [best, second] = free;
+  if (!best || best.score < SUGGEST_MIN_SCORE || !best.reasons.includes("valor exato")) return null;
+  if (second && second.score === best.score) return null; // empate: decide na fila
+  return best;
+}
@@ -0,0 +1,356 @@
+import crypto from "node:crypto";
+import type { BankLineDirection, BankStatementFormat } from "@prisma/client";
+
+/**
+ * ✅ Leitura do extrato (OFX ou CSV) → lançamentos normalizados.
+ *
+ * Valores sempre positivos em centavos (o sentido vai em `direction`).
+ * Datas ficam ao meio-dia de SP, como o resto do sistema.
+ */
+
+export type ParsedLine = {
+  fitId: string;
+  postedAt: Date;
+  direction: BankLineDirection;
+  amountCents: number;
+  description: string;
+  document: string | null; // só dígitos; CPF mascarado mantém "*" (ex: ***456789**)
+  pixKey: string | null;
+};
+
+export type ParsedStatement = {
+  format: BankStatementFormat;
+  bankId: string | null;
+  accountId: string | null;
+  periodFrom: Date | null;
+  periodTo: Date | null;
+  lines: ParsedLine[];
+};
+
+export class StatementParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StatementParseError";
+  }
+}
+
+/** Bancos brasileiros ainda exportam em Windows-1252: cai para latin1 se o UTF-8 quebrar. */
+export function decodeStatement(buf: ArrayBuffer) {
+  const utf8 = new TextDecoder("utf-8").decode(buf);
+  return utf8.includes("\uFFFD") ? new TextDecoder("latin1").decode(buf) : utf8;
+}
+
+export function parseStatement(fileName: string, text: string): ParsedStatement {
+  const looksOfx = /\.(ofx|qfx)$/i.test(fileName) || /<OFX>/i.test(text);
+  return looksOfx ? parseOfx(text) : parseCsv(text);
+}
+
+function noonSP(y: number, m: number, d: number) {
+  const mm = String(m).padStart(2, "0");
+  const dd = String(d).padStart(2, "0");
+  const date = new Date(`${y}-${mm}-${dd}T12:00:00-03:00`);
+  return Number.isNaN(date.getTime()) || date.getUTCDate() !== d ? null : date;
+}
+
+// "1.234,56" | "1234.56" | "-50,00" | "(50,00)" | "50,00 D" → centavos com sinal
+export function parseMoneyCents(raw: string): number | null {
+  let s = String(raw || "").replace(/R\$|\s/g, "").trim();
+  if (!s) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(s)) {
+    negative = true;
+    s = s.slice(1, -1);
+  }
+  if (/[dD]$/.test(s)) {
+    negative = true;
+    s = s.slice(0, -1);
+  } else if (/[cC]$/.test(s)) {
+    s = s.slice(0, -1);
+  }
+  if (s.endsWith("-")) {
+    negative = true;
+    s = s.slice(0, -1);
+  }
+  if (s.startsWith("-")) {
+    negative = !negative;
+    s = s.slice(1);
+  } else if (s.startsWith("+")) {
+    s = s.slice(1);
+  }
+
+  const lastComma = s.lastIndexOf(",");
+  const lastDot = s.lastIndexOf(".");
+  if (lastComma >= 0 && lastDot >= 0) {
+    s = lastComma > lastDot ? s.replace(/\./g, "").replace(",", ".") : s.replace(/,/g, "");
+  } else if (lastComma >= 0) {
+    s = s.replace(/\./g, "").replace(",", ".");
+  } else if (lastDot >= 0 && s.length - lastDot - 1 === 3 && s.indexOf(".") !== lastDot) {
+    s = s.replace(/\./g, ""); // 1.234.567 (milhar)
+  }
+
+  if (!/^\d+(\.\d+)?$/.test(s)) return null;
+  const cents = Math.round(Number(s) * 100);
+  return negative ? -cents : cents;
+}
+
+// dd/mm/aaaa, dd/mm/aa, aaaa-mm-dd (com ou sem hora)
+function parseDateBR(raw: string) {
+  const s = String(raw || "").trim();
+  let m = s.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (m) return noonSP(Number(m[1]), Number(m[2]), Number(m[3]));
+  m = s.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})\b/);
+  if (m) {
+    const year = m[3].length === 2 ? 2000 + Number(m[3]) : Number(m[3]);
+    return noonSP(year, Number(m[2]), Number(m[1]));
+  }
+  return null;
+}
+
+/* =========================
+ * Chave PIX / documento na descrição
+ * ========================= */
+
+const EMAIL_RE = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/i;
+const EVP_RE = /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/i;
+const CNPJ_RE = /\b\d{2}\.?\d{3}\.?\d{3}\/?\d{4}-?\d{2}\b/;
+const CPF_RE = /(?:\b\d{3}|\*{3})\.?\d{3}\.?\d{3}-?(?:\d{2}\b|\*{2})/;
+const PHONE_RE = /\+55\s?\(?\d{2}\)?\s?9?\d{4}-?\d{4}\b/;
+
+export function extractPixInfo(description: string) {
+  const text = String(description || "");
+
+  let document: string | null = null;
+  const cnpj = text.match(CNPJ_RE);
+  const cpf = cnpj ? null : text.match(CPF_RE);
+  if (cnpj) document = cnpj[0].replace(/\D/g, "");
+  else if (cpf) document = cpf[0].replace(/[^\d*]/g, "");
+
+  const email = text.match(EMAIL_RE);
+  const evp = text.match(EVP_RE);
+  const phone = text.match(PHONE_RE);
+
+  const pixKey = email
+    ? email[0].toLowerCase()
+    : evp
+      ? evp[0].toLowerCase()
+      : phone
+        ? "+" + phone[0].replace(/\D/g, "")
+        : document && !document.includes("*")
+          ? document
+          : null;
+
+  return { document, pixKey };
+}
+
+function toLine(
+  fitId: string,
+  postedAt: Date,
+  signedCents: number,
+  description: string
+): ParsedLine | null {
+  if (!signedCents) return null;
+  const desc = description.replace(/\s+/g, " ").trim().slice(0, 500) || "(sem descrição)";
+  return {
+    fitId: fitId.slice(0, 200),
+    postedAt,
+    direction: signedCents > 0 ? "CREDIT" : "DEBIT",
+    amountCents: Math.abs(signedCents),
+    description: desc,
+    ...extractPixInfo(desc),
+  };
+}
+
+/* =========================
+ * OFX (SGML 1.x ou XML 2.x)
+ * ========================= */
+
+function ofxTag(block: string, tag: string) {
+  const m = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  return m ? m[1].trim() : "";
+}
+
+// 20240315120000[-3:BRT] → meio-dia SP do dia
+function ofxDate(raw: string) {
+  const m = String(raw || "").match(/^(\d{4})(\d{2})(\d{2})/);
+  return m ? noonSP(Number(m[1]), Number(m[2]), Number(m[3])) : null;
+}
+
+export function parseOfx(text: string): ParsedStatement {
+  if (!/<OFX>/i.test(text)) throw new StatementParseError("Arquivo OFX inválido (sem <OFX>).");
+
+  const bankId = ofxTag(text, "BANKID") || null;
+  const accountId = ofxTag(text, "ACCTID") || null;
+  const account = `${bankId || "?"}:${accountId || "?"}`;
+
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) ?? [];
+  const lines: ParsedLine[] = [];
+
+  for (const b of blocks) {
+    const postedAt = ofxDate(ofxTag(b, "DTPOSTED"));
+    const cents = parseMoneyCents(ofxTag(b, "TRNAMT"));
+    if (!postedAt || cents === null) continue;
+
+    const name = ofxTag(b, "NAME");
+    const memo = ofxTag(b, "MEMO");
+    const description = [name, memo].filter((v, i, all) => v && all.indexOf(v) === i).join(" - ");
+
+    const fitId = ofxTag(b, "FITID") || hashLine(postedAt, cents, description, lines.length);
+    const parsed = toLine(`ofx:${account}:${fitId}`, postedAt, cents, description);
+    if (parsed) lines.push(parsed);
+  }
+
+  if (!lines.length) throw new StatementParseError("Nenhum lançamento encontrado no OFX.");
+
+  return {
+    format: "OFX",
+    bankId,
+    accountId,
+    periodFrom: ofxDate(ofxTag(text, "DTSTART")),
+    periodTo: ofxDate(ofxTag(text, "DTEND")),
+    lines,
+  };
+}
+
+/* =========================
+ * CSV (cabeçalho com data, descrição e valor)
+ * ========================= */
+
+function hashLine(postedAt: Date, cents: number, description: string, seq: number) {
+  return crypto
+    .createHash("sha1")
+    .update(`${postedAt.toISOString()}|${cents}|${description}|${seq}`)
+    .digest("hex");
+}
+
+function splitCsvRow(row: string, sep: string) {
+  const out: string[] = [];
+  let cur = "";
+  let quoted = false;
+  for (let i = 0; i < row.length; i++) {
+    const ch = row[i];
+    if (ch === '"') {
+      if (quoted && row[i + 1] === '"') {
+        cur += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (ch === sep && !quoted) {
+      out.push(cur.trim());
+      cur = "";
+    } else {
+      cur += ch;
+    }
+  }
+  out.push(cur.trim());
+  return out;
+}
+
+function normHeader(s: string) {
+  return s
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\(.*?\)/g, "")
+    .replace(/[^a-z ]/g, "")
+    .trim();
+}
+
+const CSV_COLUMNS = {
+  date: ["data", "data lancamento", "data do lancamento", "data movimento", "dt lancamento", "date"],
+  description: ["descricao", "historico", "lancamento", "detalhes", "memo", "description"],
+  amount: ["valor", "valor rs", "montante", "amount"],
+  credit: ["credito", "entrada", "entradas"],
+  debit: ["debito", "saida", "saidas"],
+  type: ["tipo", "natureza", "dc", "cd"],
+  id: ["id", "identificador", "id da transacao", "fitid"],
+} as const;
+
+function findColumn(header: string[], names: readonly string[]) {
+  return header.findIndex((h) => (names as readonly string[]).includes(h));
+}
+
+export function parseCsv(text: string): ParsedStatement {
+  const rows = text
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .filter((r) => r.trim());
+
+  // cabeçalho = primeira linha (das 10 primeiras) que tem data e valor
+  let headerIdx = -1;
+  let sep = ";";
+  let header: string[] = [];
+  for (let i = 0; i < Math.min(rows.length, 10); i++) {
+    const s = [";", ",", "\t"].sort((a, b) => rows[i].split(b).length - rows[i].split(a).length)[0];
+    const cols = splitCsvRow(rows[i], s).map(normHeader);
+    const hasAmount =
+      findColumn(cols, CSV_COLUMNS.amount) >= 0 ||
+      (findColumn(cols, CSV_COLUMNS.credit) >= 0 && findColumn(cols, CSV_COLUMNS.debit) >= 0);
+    if (findColumn(cols, CSV_COLUMNS.date) >= 0 && hasAmount) {
+      headerIdx = i;
+      sep = s;
+      header = cols;
+      break;
+    }
+  }
+  if (headerIdx < 0) {
+    throw new StatementParseError("CSV sem cabeçalho reconhecido (precisa de colunas Data e Valor).");
+  }
+
+  const col = {
+    date: findColumn(header, CSV_COLUMNS.date),
+    description: findColumn(header, CSV_COLUMNS.description),
+    amount: findColumn(header, CSV_COLUMNS.amount),
+    credit: findColumn(header, CSV_COLUMNS.credit),
+    debit: findColumn(header, CSV_COLUMNS.debit),
+    type: findColumn(header, CSV_COLUMNS.type),
+    id: findColumn(header, CSV_COLUMNS.id),
+  };
+
+  const lines: ParsedLine[] = [];
+  const seen = new Map<string, number>();
+
+  for (const row of rows.slice(headerIdx + 1)) {
+    const cells = splitCsvRow(row, sep);
+    const postedAt = parseDateBR(cells[col.date] ?? "");
+    if (!postedAt) continue;
+
+    const description = col.description >= 0 ? cells[col.description] ?? "" : "";
+    if (/^saldo\b/i.test(description.trim())) continue;
+
+    let cents: number | null = null;
+    if (col.amount >= 0) {
+      cents = parseMoneyCents(cells[col.amount] ?? "");
+      const type = col.type >= 0 ? String(cells[col.type] ?? "").trim().toUpperCase() : "";
+      if (cents !== null && (type === "D" || type.startsWith("DEB"))) cents = -Math.abs(cents);
+    } else {
+      const credit = parseMoneyCents(cells[col.credit] ?? "");
+      const debit = parseMoneyCents(cells[col.debit] ?? "");
+      cents = credit ? Math.abs(credit) : debit ? -Math.abs(debit) : null;
+    }
+    if (cents === null) continue;
+
+    // linhas idênticas no mesmo arquivo são lançamentos distintos (ex: 2 PIX iguais no dia)
+    const rawId = col.id >= 0 ? String(cells[col.id] ?? "").trim() : "";
+    const key = `${postedAt.toISOString()}|${cents}|${description}`;
+    const seq = seen.get(key) ?? 0;
+    seen.set(key, seq + 1);
+
+    const fitId = rawId ? `csv:${rawId}` : `csv:${hashLine(postedAt, cents, description, seq)}`;
+    const parsed = toLine(fitId, postedAt, cents, description);
+    if (parsed) lines.push(parsed);
+  }
+
+  if (!lines.length) throw new StatementParseError("Nenhum lançamento encontrado no CSV.");
+
+  const times = lines.map((l) => l.postedAt.getTime());
+  return {
+    format: "CSV",
+    bankId: null,
+    accountId: null,
+    periodFrom: new Date(Math.min(...times)),
+    periodTo: new Date(Math.max(...times)),
+    lines,
+  };
+}
@@ -0,0 +1,262 @@
+import type { Prisma } from "@prisma/client";
+import { periodSalesWhere } from "./fechamento";
+import { monthBounds } from "./lucro";
+
+/**
+ * ✅ Diário contábil (partidas dobradas) do mês
+ *
+ * venda         D clientes a receber   / C receita de serviços
+ * recebimento   D caixa                / C clientes a receber
+ * compra        D estoque de milhas    / C caixa              (liberada = paga ao cedente)
+ * compra final. D custo das milhas     / C estoque de milhas
+ * pagamento     D despesa c/ comissões / C comissões a pagar  (dia do pagamento)
+ * pago          D comissões a pagar    / C caixa
+ * imposto       D impostos s/ receita  / C impostos a recolher
+ * imposto pago  D impostos a recolher  / C caixa
+ * dívida        D caixa                / C empréstimos e dívidas
+ * pagto dívida  D empréstimos e dívidas / C caixa
+ * ajuste        D receita / C clientes (cancelamento de venda de mês fechado; reativação inverte)
+ *
+ * Mês fechado usa as vendas congeladas no fechamento.
+ */
+
+// client do time (tenantPrisma) ou `tx` de uma transaction dele
+type Db = Prisma.TransactionClient;
+
+export const ACCOUNTS = {
+  CAIXA: { code: "1.1.1.01", name: "Caixa e bancos" },
+  CLIENTES: { code: "1.1.2.01", name: "Clientes a receber" },
+  ESTOQUE: { code: "1.1.3.01", name: "Estoque de milhas" },
+  COMISSOES_A_PAGAR: { code: "2.1.2.01", name: "Comissões a pagar" },
+  IMPOSTOS_A_RECOLHER: { code: "2.1.3.01", name: "Impostos a recolher" },
+  DIVIDAS: { code: "2.1.4.01", name: "Empréstimos e dívidas" },
+  RECEITA: { code: "3.1.1.01", name: "Receita de serviços" },
+  CUSTO: { code: "4.1.1.01", name: "Custo das milhas vendidas" },
+  DESPESA_COMISSOES: { code: "4.2.1.01", name: "Despesa com comissões" },
+  DESPESA_IMPOSTOS: { code: "4.2.2.01", name: "Impostos sobre a receita" },
+} as const;
+
+type Account = keyof typeof ACCOUNTS;
+
+export type JournalSource = "VENDA" | "COMPRA" | "PAGAMENTO" | "IMPOSTO" | "DIVIDA" | "AJUSTE";
+
+export type JournalEntry = {
+  date: Date;
+  debit: Account;
+  credit: Account;
+  amountCents: number;
+  history: string;
+  document: string;
+  source: JournalSource;
+};
+
+// payout / imposto guardam só o dia ("YYYY-MM-DD") → meio-dia de Recife
+const dayDate = (iso: string) => new Date(`${iso}T12:00:00-03:00`);
+
+export async function buildJournal(db: Db, team: string, month: string) {
+  const mb = monthBounds(month);
+  if (!mb) return [];
+  const inMonth = { gte: mb.start, lt: mb.end };
+  const salesScope = (await periodSalesWhere(db, month)) ?? { date: inMonth, paymentStatus: { not: "CANCELED" } };
+
+  const [sales, paidSales, released, finalized, payouts, paidPayouts, taxes, debts, debtPayments, adjustments] =
+    await Promise.all([
+      db.sale.findMany({
+        where: { ...salesScope, totalCents: { gt: 0 } },
+        select: { numero: true, date: true, totalCents: true, cliente: { select: { nome: true } } },
+        orderBy: { date: "asc" },
+      }),
+      db.sale.findMany({
+        where: { paidAt: inMonth, paymentStatus: "PAID", totalCents: { gt: 0 } },
+        select: { numero: true, paidAt: true, totalCents: true, cliente: { select: { nome: true } } },
+      }),
+      db.purchase.findMany({
+        where: { liberadoEm: inMonth, status: "CLOSED", totalCents: { gt: 0 } },
+        select: { numero: true, liberadoEm: true, totalCents: true, cedente: { select: { nomeCompleto: true } } },
+      }),
+      db.purchase.findMany({
+        where: { finalizedAt: inMonth, status: "CLOSED", totalCents: { gt: 0 } },
+        select: { numero: true, finalizedAt: true, totalCents: true },
+      }),
+      db.employeePayout.findMany({
+        where: { date: { gte: mb.startISO, lt: mb.endISO }, netPayCents: { gt: 0 } },
+        select: { date: true, netPayCents: true, user: { select: { name: true } } },
+      }),
+      db.employeePayout.findMany({
+        where: { paidAt: inMonth, netPayCents: { gt: 0 } },
+        select: { date: true, paidAt: true, netPayCents: true, user: { select: { name: true } } },
+      }),
+      db.taxMonthPayment.findMany({
+        where: { OR: [{ month }, { paidAt: inMonth }], totalTaxCents: { gt: 0 } },
+        select: { month: true, paidAt: true, totalTaxCents: true },
+      }),
+      db.debt.findMany({
+        where: { createdAt: inMonth, status: { not: "CANCELED" }, totalCents: { gt: 0 } },
+        select: { id: true, title: true, createdAt: true, totalCents: true },
+      }),
+      db.debtPayment.findMany({
+        where: { paidAt: inMonth, amountCents: { gt: 0 }, debt: { team } },
+        select: { id: true, paidAt: true, amountCents: true, debt: { select: { title: true } } },
+      }),
+      db.periodAdjustment.findMany({
+        // ✅ pago ↔ pendente não é receita e o recebimento já entra pelo paidAt
+        where: { postedMonth: month, amountCents: { not: 0 }, kind: { not: "SALE_STATUS" } },
+        select: { id: true, createdAt: true, amountCents: true, description: true, sale: { select: { numero: true } } },
+      }),
+    ]);
+
+  const out: JournalEntry[] = [];
+
+  for (const s of sales) {
+    out.push({
+      date: s.date,
+      debit: "CLIENTES",
+      credit: "RECEITA",
+      amountCents: s.totalCents,
+      history: `Venda ${s.numero} • ${s.cliente.nome}`,
+      document: s.numero,
+      source: "VENDA",
+    });
+  }
+  for (const s of paidSales) {
+    out.push({
+      date: s.paidAt ?? mb.start,
+      debit: "CAIXA",
+      credit: "CLIENTES",
+      amountCents: s.totalCents,
+      history: `Recebimento venda ${s.numero} • ${s.cliente.nome}`,
+      document: s.numero,
+      source: "VENDA",
+    });
+  }
+  for (const p of released) {
+    out.push({
+      date: p.liberadoEm ?? mb.start,
+      debit: "ESTOQUE",
+      credit: "CAIXA",
+      amountCents: p.totalCents,
+      history: `Compra ${p.numero} • ${p.cedente.nomeCompleto}`,
+      document: p.numero,
+      source: "COMPRA",
+    });
+  }
+  for (const p of finalized) {
+    out.push({
+      date: p.finalizedAt ?? mb.start,
+      debit: "CUSTO",
+      credit: "ESTOQUE",
+      amountCents: p.totalCents,
+      history: `Baixa da compra ${p.numero} (finalizada)`,
+      document: p.numero,
+      source: "COMPRA",
+    });
+  }
+  for (const p of payouts) {
+    out.push({
+      date: dayDate(p.date),
+      debit: "DESPESA_COMISSOES",
+      credit: "COMISSOES_A_PAGAR",
+      amountCents: p.netPayCents,
+      history: `Comissão ${p.user.name} • dia ${p.date}`,
+      document: `PAY-${p.date}`,
+      source: "PAGAMENTO",
+    });
+  }
+  for (const p of paidPayouts) {
+    out.push({
+      date: p.paidAt ?? mb.start,
+      debit: "COMISSOES_A_PAGAR",
+      credit: "CAIXA",
+      amountCents: p.netPayCents,
+      history: `Pagamento ${p.user.name} • dia ${p.date}`,
+      document: `PAY-${p.date}`,
+      source: "PAGAMENTO",
+    });
+  }
+  for (const t of taxes) {
+    if (t.month === month) {
+      out.push({
+        date: new Date(mb.end.getTime() - 1),
+        debit: "DESPESA_IMPOSTOS",
+        credit: "IMPOSTOS_A_RECOLHER",
+        amountCents: t.totalTaxCents,
+        history: `Impostos do mês ${t.month}`,
+        document: `IMP-${t.month}`,
+        source: "IMPOSTO",
+      });
+    }
+    if (t.paidAt && t.paidAt >= mb.start && t.paidAt < mb.end) {
+      out.push({
+        date: t.paidAt,
+        debit: "IMPOSTOS_A_RECOLHER",
+        credit: "CAIXA",
+        amountCents: t.totalTaxCents,
+        history: `Pagamento dos impostos de ${t.month}`,
+        document: `IMP-${t.month}`,
+        source: "IMPOSTO",
+      });
+    }
+  }
+  for (const d of debts) {
+    out.push({
+      date: d.createdAt,
+      debit: "CAIXA",
+      credit: "DIVIDAS",
+      amountCents: d.totalCents,
+      history: `Dívida: ${d.title}`,
+      document: `DIV-${d.id.slice(-8)}`,
+      source: "DIVIDA",
+    });
+  }
+  for (const p of debtPayments) {
+    out.push({
+      date: p.paidAt,
+      debit: "DIVIDAS",
+      credit: "CAIXA",
+      amountCents: p.amountCents,
+      history: `Pagamento de dívida: ${p.debt.title}`,
+      document: `DIVP-${p.id.slice(-8)}`,
+      source: "DIVIDA",
+    });
+  }
+
+  for (const a of adjustments) {
+    const estorno = a.amountCents < 0;
+    out.push({
+      date: a.createdAt,
+      debit: estorno ? "RECEITA" : "CLIENTES",
+      credit: estorno ? "CLIENTES" : "RECEITA",
+      amountCents: Math.abs(a.amountCents),
+      history: `Ajuste: ${a.description}`,
+      document: a.sale?.numero || `AJ-${a.id.slice(-8)}`,
+      source: "AJUSTE",
+    });
+  }
+
+  return out.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+function csvCell(v: string) {
+  return /[;"\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+}
+
+/** CSV ";" com vírgula decimal (abre direto no Excel pt-BR e importa no sistema contábil). */
+export function journalCsv(entries: JournalEntry[]) {
+  const header = ["Data", "Lançamento", "Conta débito", "Conta crédito", "Valor", "Histórico", "Documento", "Origem"];
+  const lines = entries.map((e, i) =>
+    [
+      new Intl.DateTimeFormat("pt-BR", { timeZone: "America/Recife" }).format(e.date),
+      String(i + 1),
+      `${ACCOUNTS[e.debit].code} ${ACCOUNTS[e.debit].name}`,
+      `${ACCOUNTS[e.credit].code} ${ACCOUNTS[e.credit].name}`,
+      (e.amountCents / 100).toFixed(2).replace(".", ","),
+      e.history,
+      e.document,
+      e.source,
+    ]
+      .map(csvCell)
+      .join(";")
+  );
+  // BOM para o Excel reconhecer UTF-8
+  return "\uFEFF" + [header.join(";"), ...lines].join("\r\n") + "\r\n";
+}
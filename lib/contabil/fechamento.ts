@@ -0,0 +1,230 @@
+import type { PeriodAdjustmentKind, Prisma } from "@prisma/client";
+import { computeTaxMonth, fmtMonthPTBR } from "@/lib/taxes";
+import { monthBounds, taxableProfit } from "./lucro";
+import { ClosedPeriodError, closedSnapshot, isMonthClosed, monthOf, type PeriodSnapshot } from "./periodos";
+
+/**
+ * ✅ Fechamento do mês
+ *
+ * Fechar congela vendas (ids), lucro tributável, pagamentos de funcionário,
+ * impostos e o último caixa do mês no snapshot do período. Depois disso:
+ * - recalcular pagamento de um dia do mês é recusado;
+ * - imposto do mês usa o valor congelado;
+ * - cancelar/reativar venda do mês, ou mudar pago ↔ pendente, vira ajuste
+ *   (PeriodAdjustment) no mês aberto.
+ * Reabrir = alguém pede, admin (periodos.reopen) aprova.
+ */
+
+// client do time (tenantPrisma) ou `tx` de uma transaction dele
+type Db = Prisma.TransactionClient;
+
+export const ADJUSTMENT_KIND_LABEL: Record<PeriodAdjustmentKind, string> = {
+  SALE_CANCEL: "Cancelamento de venda",
+  SALE_REACTIVATE: "Reativação de venda",
+  SALE_STATUS: "Mudança de status de venda",
+};
+
+async function computePeriodSnapshot(db: Db, team: string, month: string): Promise<PeriodSnapshot> {
+  const mb = monthBounds(month);
+  if (!mb) throw new ClosedPeriodError("Mês inválido.");
+
+  const [sales, profit, payouts, taxes, caixa] = await Promise.all([
+    db.sale.findMany({
+      where: { date: { gte: mb.start, lt: mb.end }, paymentStatus: { not: "CANCELED" } },
+      select: { id: true, totalCents: true, paymentStatus: true },
+    }),
+    taxableProfit(db, team, { startISO: mb.startISO, endISO: mb.endISO, month, applyLoss: true }),
+    db.employeePayout.findMany({
+      where: { team, date: { startsWith: month } },
+      select: {
+        userId: true,
+        grossProfitCents: true,
+        tax7Cents: true,
+        feeCents: true,
+        netPayCents: true,
+        paidById: true,
+        user: { select: { name: true } },
+      },
+    }),
+    computeTaxMonth(db, team, month),
+    db.caixaImediatoSnapshot.findFirst({
+      where: { date: { gte: mb.startISO, lt: mb.endISO } },
+      orderBy: { date: "desc" },
+      select: { date: true, cashCents: true, totalLiquidoCents: true },
+    }),
+  ]);
+
+  const byUser = new Map<string, PeriodSnapshot["payouts"]["byUser"][number]>();
+  for (const p of payouts) {
+    const u = byUser.get(p.userId) ?? { userId: p.userId, name: p.user.name, days: 0, grossCents: 0, netCents: 0 };
+    u.days += 1;
+    u.grossCents += p.grossProfitCents;
+    u.netCents += p.netPayCents;
+    byUser.set(p.userId, u);
+  }
+  const sum = (xs: number[]) => xs.reduce((a, b) => a + b, 0);
+
+  return {
+    closedAt: new Date().toISOString(),
+    saleIds: sales.map((s) => s.id),
+    sales: {
+      count: sales.length,
+      totalCents: sum(sales.map((s) => s.totalCents)),
+      paidCents: sum(sales.filter((s) => s.paymentStatus === "PAID").map((s) => s.totalCents)),
+      pendingCents: sum(sales.filter((s) => s.paymentStatus === "PENDING").map((s) => s.totalCents)),
+    },
+    profit,
+    payouts: {
+      grossCents: sum(payouts.map((p) => p.grossProfitCents)),
+      taxCents: sum(payouts.map((p) => p.tax7Cents)),
+      feeCents: sum(payouts.map((p) => p.feeCents)),
+      netCents: sum(payouts.map((p) => p.netPayCents)),
+      paidNetCents: sum(payouts.filter((p) => p.paidById).map((p) => p.netPayCents)),
+      byUser: Array.from(byUser.values()).sort((a, b) => b.netCents - a.netCents),
+    },
+    taxes,
+    caixa,
+  };
+}
+
+/** Fecha um mês já encerrado (anterior ao mês corrente em Recife). */
+export async function closePeriod(db: Db, team: string, month: string, args: { userId: string; notes?: string | null }) {
+  if (month >= monthOf(new Date())) throw new ClosedPeriodError("Só dá para fechar mês que já terminou.");
+
+  const current = await db.accountingPeriod.findFirst({ where: { team, month } });
+  if (current?.closedAt) throw new ClosedPeriodError(`O mês ${fmtMonthPTBR(month)} já está fechado.`);
+
+  const snapshot = await computePeriodSnapshot(db, team, month);
+
+  // ✅ imposto congelado no registro do mês (o pagamento depois usa esse valor)
+  const taxData = {
+    totalTaxCents: snapshot.taxes.totalTaxCents,
+    breakdown: {
+      payoutBreakdown: snapshot.taxes.payoutBreakdown,
+      components: {
+        payoutTaxCents: snapshot.taxes.payoutTaxCents,
+        balcaoTaxCents: snapshot.taxes.balcaoTaxCents,
+        balcaoOperationsCount: snapshot.taxes.balcaoOperationsCount,
+      },
+    },
+  };
+  const tax = await db.taxMonthPayment.findFirst({ where: { team, month }, select: { id: true, paidAt: true } });
+  if (!tax) await db.taxMonthPayment.create({ data: { team, month, ...taxData } });
+  else if (!tax.paidAt) await db.taxMonthPayment.update({ where: { id: tax.id }, data: taxData });
+
+  const data = {
+    closedAt: new Date(),
+    closedById: args.userId,
+    snapshot: snapshot as unknown as Prisma.InputJsonValue,
+    notes: args.notes ?? null,
+    reopenRequestedAt: null,
+    reopenRequestedById: null,
+    reopenReason: null,
+  };
+  if (current) return db.accountingPeriod.update({ where: { id: current.id }, data });
+  return db.accountingPeriod.create({ data: { team, month, ...data } });
+}
+
+async function getClosed(db: Db, team: string, month: string) {
+  const p = await db.accountingPeriod.findFirst({ where: { team, month } });
+  if (!p?.closedAt) throw new ClosedPeriodError(`O mês ${fmtMonthPTBR(month)} não está fechado.`);
+  return p;
+}
+
+export async function requestReopen(db: Db, team: string, month: string, args: { userId: string; reason: string }) {
+  const p = await getClosed(db, team, month);
+  if (!args.reason.trim()) throw new ClosedPeriodError("Informe o motivo da reabertura.");
+  return db.accountingPeriod.update({
+    where: { id: p.id },
+    data: { reopenRequestedAt: new Date(), reopenRequestedById: args.userId, reopenReason: args.reason.trim() },
+  });
+}
+
+/** Aprovação (admin): reabre e mantém o snapshot antigo até o próximo fechamento. */
+export async function approveReopen(db: Db, team: string, month: string, args: { userId: string }) {
+  const p = await getClosed(db, team, month);
+  if (!p.reopenRequestedAt) throw new ClosedPeriodError("Não há pedido de reabertura para esse mês.");
+  return db.accountingPeriod.update({
+    where: { id: p.id },
+    data: {
+      closedAt: null,
+      closedById: null,
+      reopenedAt: new Date(),
+      reopenedById: args.userId,
+    },
+  });
+}
+
+export async function rejectReopen(db: Db, team: string, month: string) {
+  const p = await getClosed(db, team, month);
+  return db.accountingPeriod.update({
+    where: { id: p.id },
+    data: { reopenRequestedAt: null, reopenRequestedById: null, reopenReason: null },
+  });
+}
+
+/**
+ * Cancelar / reativar / mudar status de venda: mês aberto segue normal; mês
+ * fechado só com `ajuste` → lança o estorno (ou a reativação) no mês corrente.
+ *
+ * SALE_STATUS não mexe na receita, só em recebido × a receber do snapshot:
+ * `amountCents` é + (marcada paga) ou − (voltou a pendente).
+ */
+export async function gateSaleChange(
+  db: Db,
+  args: {
+    team: string;
+    userId: string;
+    sale: { id: string; numero: string; date: Date; totalCents: number };
+    kind: PeriodAdjustmentKind;
+    ajuste: boolean;
+    /** só para SALE_STATUS: status novo */
+    status?: "PAID" | "PENDING";
+  }
+) {
+  const periodMonth = monthOf(args.sale.date);
+  if (!(await isMonthClosed(db, periodMonth))) return null;
+
+  if (!args.ajuste) {
+    throw new ClosedPeriodError(
+      `A venda ${args.sale.numero} é de ${fmtMonthPTBR(periodMonth)}, mês fechado. Ela só pode ser alterada como ajuste no mês atual.`,
+      periodMonth,
+      true
+    );
+  }
+
+  const postedMonth = monthOf(new Date());
+  if (await isMonthClosed(db, postedMonth)) throw new ClosedPeriodError(`O mês atual (${fmtMonthPTBR(postedMonth)}) também está fechado.`);
+
+  const sign = args.kind === "SALE_CANCEL" || (args.kind === "SALE_STATUS" && args.status !== "PAID") ? -1 : 1;
+  const statusNote = args.kind === "SALE_STATUS" ? (args.status === "PAID" ? " → paga" : " → pendente") : "";
+  return db.periodAdjustment.create({
+    data: {
+      team: args.team,
+      periodMonth,
+      postedMonth,
+      kind: args.kind,
+      saleId: args.sale.id,
+      amountCents: sign * args.sale.totalCents,
+      description: `${ADJUSTMENT_KIND_LABEL[args.kind]} ${args.sale.numero}${statusNote} (venda de ${fmtMonthPTBR(periodMonth)})`,
+      createdById: args.userId,
+    },
+  });
+}
+
+/**
+ * Escopo das vendas de um mês para os exports: mês fechado usa exatamente as
+ * vendas congeladas (cancelar depois não tira a venda do mês fechado).
+ */
+export async function periodSalesWhere(db: Db, month: string): Promise<Prisma.SaleWhereInput | null> {
+  const snap = await closedSnapshot(db, month);
+  return snap ? { id: { in: snap.saleIds } } : null;
+}
+
+export async function listAdjustments(db: Db, month: string) {
+  return db.periodAdjustment.findMany({
+    where: { OR: [{ postedMonth: month }, { periodMonth: month }] },
+    orderBy: { createdAt: "desc" },
+    include: { createdBy: { select: { id: true, name: true } } },
+  });
+}
@@ -0,0 +1,35 @@
+/**
+ * ✅ Exports para a contabilidade
+ *
+ * - XLSX (modelo / detalhado): /api/dados-contabeis/vendas/export
+ * - lote de RPS (NFS-e ABRASF): /api/dados-contabeis/nfse
+ * - diário em partidas dobradas (CSV): /api/dados-contabeis/diario
+ * - fechamento / reabertura do mês: /api/dados-contabeis/periodos
+ */
+
+export { ACCOUNTS, buildJournal, journalCsv, type JournalEntry } from "./diario";
+export {
+  ADJUSTMENT_KIND_LABEL,
+  approveReopen,
+  closePeriod,
+  gateSaleChange,
+  listAdjustments,
+  periodSalesWhere,
+  rejectReopen,
+  requestReopen,
+} from "./fechamento";
+export { splitProfitProportional, taxableProfit, monthBounds } from "./lucro";
+export { buildNfseLote, NfseConfigError, readNfseConfig, type NfseRps } from "./nfse";
+export {
+  assertMonthsOpen,
+  assertPeriodsOpen,
+  ClosedPeriodError,
+  closedSnapshot,
+  EXPORT_KIND_LABEL,
+  isMonthClosed,
+  listPeriods,
+  markPeriodExported,
+  monthOf,
+  type ExportKind,
+  type PeriodSnapshot,
+} from "./periodos";
@@ -0,0 +1,178 @@
+import type { Prisma } from "@prisma/client";
+import { closedSnapshot } from "./periodos";
+
+/**
+ * ✅ Lucro tributável do período (mesma regra do XLSX de dados contábeis)
+ *
+ * lucro = soma do grossProfitCents dos pagamentos de funcionário (SEM 8%)
+ * prejuízo = compras finalizadas no mês com lucro líquido negativo (só mês inteiro)
+ * tributável = max(0, lucro + prejuízo), rateado proporcional ao valor de cada venda
+ */
+
+// client do time (tenantPrisma) ou `tx` de uma transaction dele
+type Db = Prisma.TransactionClient;
+
+function safeInt(v: unknown, fb = 0) {
+  const n = Number(v);
+  return Number.isFinite(n) ? Math.trunc(n) : fb;
+}
+
+/** Rateio proporcional: só rateia se totalProfitCents > 0, senão tudo 0. */
+export function splitProfitProportional(items: Array<{ key: string; totalCents: number }>, totalProfitCents: number) {
+  const total = items.reduce((a, x) => a + (x.totalCents || 0), 0);
+  if (total <= 0 || totalProfitCents <= 0) {
+    return new Map(items.map((i) => [i.key, 0]));
+  }
+
+  const tmp = items.map((i) => {
+    const raw = (i.totalCents / total) * totalProfitCents;
+    return { key: i.key, raw, floor: Math.floor(raw) };
+  });
+
+  const allocated = tmp.reduce((a, x) => a + x.floor, 0);
+  let remaining = totalProfitCents - allocated;
+
+  tmp.sort((a, b) => b.raw - b.floor - (a.raw - a.floor));
+
+  const out = new Map<string, number>();
+  for (const t of tmp) {
+    out.set(t.key, t.floor + (remaining > 0 ? 1 : 0));
+    if (remaining > 0) remaining -= 1;
+  }
+  return out;
+}
+
+function milheiroFrom(points: number, pointsValueCents: number) {
+  if (!points || !pointsValueCents) return 0;
+  return Math.round((pointsValueCents * 1000) / points);
+}
+
+function bonus30(points: number, milheiroCents: number, metaMilheiroCents: number) {
+  if (!points || !milheiroCents || !metaMilheiroCents) return 0;
+  const diff = milheiroCents - metaMilheiroCents;
+  if (diff <= 0) return 0;
+  return Math.round(Math.round((points * diff) / 1000) * 0.3);
+}
+
+export function nextMonthStart(yyyyMm: string) {
+  const [y, m] = yyyyMm.split("-").map(Number);
+  if (!y || !m) return "";
+  return m === 12 ? `${y + 1}-01-01` : `${y}-${String(m + 1).padStart(2, "0")}-01`;
+}
+
+/**
+ * Limites do mês "YYYY-MM" à meia-noite de Recife (-03:00, sem horário de
+ * verão), o mesmo mês de monthOf (null se inválido).
+ */
+export function monthBounds(month: string) {
+  if (!/^\d{4}-\d{2}$/.test(month)) return null;
+  const startISO = `${month}-01`;
+  const endISO = nextMonthStart(month);
+  if (!endISO) return null;
+  return {
+    startISO,
+    endISO,
+    start: new Date(`${startISO}T00:00:00-03:00`),
+    end: new Date(`${endISO}T00:00:00-03:00`),
+  };
+}
+
+/**
+ * Prejuízo do mês (igual /prejuizo): compras CLOSED finalizadas no mês, com
+ * venda vinculada, somando só o lucro líquido negativo. Retorna ≤ 0.
+ */
+export async function computeMonthLossCents(db: Db, team: string, month: string) {
+  const mb = monthBounds(month);
+  if (!mb) return 0;
+
+  const purchases = await db.purchase.findMany({
+    where: {
+      status: "CLOSED",
+      finalizedAt: { not: null, gte: mb.start, lt: mb.end },
+      cedente: { owner: { team } },
+    },
+    take: 5000,
+    select: { id: true, numero: true, metaMilheiroCents: true, totalCents: true },
+  });
+  if (purchases.length === 0) return 0;
+
+  // purchaseId da venda pode ser o id ou o número (em qualquer caixa)
+  const idByNumero = new Map(purchases.map((p) => [String(p.numero || "").trim().toUpperCase(), p.id]));
+  const numeros = purchases.map((p) => String(p.numero || "").trim()).filter(Boolean);
+  const numerosAll = Array.from(
+    new Set([...numeros, ...numeros.map((n) => n.toUpperCase()), ...numeros.map((n) => n.toLowerCase())])
+  );
+
+  const sales = await db.sale.findMany({
+    where: {
+      paymentStatus: { not: "CANCELED" },
+      OR: [{ purchaseId: { in: purchases.map((p) => p.id) } }, { purchaseId: { in: numerosAll } }],
+    },
+    select: { purchaseId: true, points: true, totalCents: true, pointsValueCents: true, embarqueFeeCents: true },
+    take: 20000,
+  });
+
+  const byId = new Map(purchases.map((p) => [p.id, p]));
+  const agg = new Map<string, { pvCents: number; bonusCents: number; count: number }>();
+
+  for (const s of sales) {
+    const raw = String(s.purchaseId || "").trim();
+    const pid = idByNumero.get(raw.toUpperCase()) || raw;
+    if (!pid) continue;
+
+    const totalCents = safeInt(s.totalCents);
+    let pvCents = safeInt(s.pointsValueCents);
+    if (pvCents <= 0 && totalCents > 0) {
+      const cand = Math.max(totalCents - safeInt(s.embarqueFeeCents), 0);
+      pvCents = cand > 0 ? cand : totalCents;
+    }
+
+    const cur = agg.get(pid) || { pvCents: 0, bonusCents: 0, count: 0 };
+    cur.pvCents += pvCents;
+    cur.count += 1;
+
+    const p = byId.get(pid);
+    if (p) {
+      const points = safeInt(s.points);
+      cur.bonusCents += bonus30(points, milheiroFrom(points, pvCents), safeInt(p.metaMilheiroCents));
+    }
+    agg.set(pid, cur);
+  }
+
+  let lossCents = 0;
+  for (const p of purchases) {
+    const a = agg.get(p.id);
+    if (!a || a.count === 0) continue; // remove "sem venda"
+    const liquido = a.pvCents - safeInt(p.totalCents) - a.bonusCents;
+    if (liquido < 0) lossCents += liquido;
+  }
+  return lossCents;
+}
+
+/**
+ * Lucro, prejuízo e lucro tributável de um período [startISO, endISO).
+ * Mês inteiro já fechado devolve o que foi congelado no fechamento.
+ */
+export async function taxableProfit(
+  db: Db,
+  team: string,
+  period: { startISO: string; endISO: string; month: string; applyLoss: boolean }
+) {
+  if (period.applyLoss) {
+    const frozen = await closedSnapshot(db, period.month);
+    if (frozen) return frozen.profit;
+  }
+
+  const lucroAgg = await db.employeePayout.aggregate({
+    where: { team, date: { gte: period.startISO, lt: period.endISO } },
+    _sum: { grossProfitCents: true },
+  });
+  const profitTotalCents = Number(lucroAgg._sum.grossProfitCents || 0);
+  const lossTotalCents = period.applyLoss ? await computeMonthLossCents(db, team, period.month) : 0;
+
+  return {
+    profitTotalCents,
+    lossTotalCents,
+    profitAfterLossCents: Math.max(0, profitTotalCents + lossTotalCents),
+  };
+}
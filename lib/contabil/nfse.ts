@@ -0,0 +1,171 @@
+import type { Settings } from "@prisma/client";
+
+/**
+ * ✅ Lote de RPS no layout ABRASF 2.02 (EnviarLoteRpsEnvio)
+ *
+ * Uma RPS por venda do mês. Dedução = valor da venda − lucro rateado (mesma
+ * conta do XLSX), então a base do ISS é o lucro. O XML sai sem assinatura:
+ * o sistema da prefeitura / contador assina ao importar.
+ */
+
+export class NfseConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NfseConfigError";
+  }
+}
+
+export type NfseConfig = {
+  cnpj: string;
+  inscricaoMunicipal: string;
+  razaoSocial: string;
+  codigoMunicipio: string;
+  itemListaServico: string;
+  codigoTributacao: string | null;
+  aliquotaBps: number;
+  simplesNacional: boolean;
+};
+
+export type NfseRps = {
+  numero: string; // só dígitos
+  serie: string;
+  dataEmissao: Date;
+  valorServicosCents: number;
+  valorDeducoesCents: number;
+  discriminacao: string;
+  tomador: { cpfCnpj: string; nome: string };
+};
+
+const digits = (v: string | null | undefined) => String(v || "").replace(/\D+/g, "");
+
+type NfseSettings = Pick<
+  Settings,
+  | "nfseCnpj"
+  | "nfseInscricaoMunicipal"
+  | "nfseRazaoSocial"
+  | "nfseCodigoMunicipio"
+  | "nfseItemListaServico"
+  | "nfseCodigoTributacao"
+  | "nfseAliquotaBps"
+  | "nfseSimplesNacional"
+>;
+
+/** Dados do prestador nas configurações do time (erro se faltar algo obrigatório). */
+export function readNfseConfig(s: NfseSettings | null): NfseConfig {
+  const cnpj = digits(s?.nfseCnpj);
+  const inscricaoMunicipal = digits(s?.nfseInscricaoMunicipal);
+  const codigoMunicipio = digits(s?.nfseCodigoMunicipio);
+  const itemListaServico = String(s?.nfseItemListaServico || "").trim();
+
+  const missing = [
+    cnpj.length !== 14 && "CNPJ",
+    !inscricaoMunicipal && "inscrição municipal",
+    codigoMunicipio.length !== 7 && "código IBGE do município",
+    !itemListaServico && "item da lista de serviço",
+  ].filter(Boolean);
+  if (missing.length) {
+    throw new NfseConfigError(`Configure o prestador da NFS-e: ${missing.join(", ")}.`);
+  }
+
+  return {
+    cnpj,
+    inscricaoMunicipal,
+    razaoSocial: String(s?.nfseRazaoSocial || "").trim(),
+    codigoMunicipio,
+    itemListaServico,
+    codigoTributacao: String(s?.nfseCodigoTributacao || "").trim() || null,
+    aliquotaBps: s?.nfseAliquotaBps ?? 500,
+    simplesNacional: s?.nfseSimplesNacional ?? true,
+  };
+}
+
+function esc(v: string) {
+  return v
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+const money = (cents: number) => (cents / 100).toFixed(2);
+const dateOnly = (d: Date) => d.toISOString().slice(0, 10);
+
+function tag(name: string, value: string | number | null | undefined) {
+  if (value === null || value === undefined || value === "") return "";
+  return `<${name}>${esc(String(value))}</${name}>`;
+}
+
+function tomadorXml(t: NfseRps["tomador"]) {
+  const doc = digits(t.cpfCnpj);
+  const cpfCnpj = doc.length === 14 ? tag("Cnpj", doc) : doc.length === 11 ? tag("Cpf", doc) : "";
+  return (
+    "<TomadorServico>" +
+    (cpfCnpj ? `<IdentificacaoTomador><CpfCnpj>${cpfCnpj}</CpfCnpj></IdentificacaoTomador>` : "") +
+    tag("RazaoSocial", t.nome.slice(0, 150)) +
+    "</TomadorServico>"
+  );
+}
+
+function rpsXml(cfg: NfseConfig, competencia: string, r: NfseRps) {
+  const base = Math.max(0, r.valorServicosCents - r.valorDeducoesCents);
+  const issCents = Math.round((base * cfg.aliquotaBps) / 10_000);
+
+  return (
+    "<Rps>" +
+    `<InfDeclaracaoPrestacaoServico Id="rps${esc(r.serie)}${esc(r.numero)}">` +
+    "<Rps>" +
+    "<IdentificacaoRps>" +
+    tag("Numero", r.numero) +
+    tag("Serie", r.serie) +
+    tag("Tipo", 1) +
+    "</IdentificacaoRps>" +
+    tag("DataEmissao", dateOnly(r.dataEmissao)) +
+    tag("Status", 1) +
+    "</Rps>" +
+    tag("Competencia", competencia) +
+    "<Servico>" +
+    "<Valores>" +
+    tag("ValorServicos", money(r.valorServicosCents)) +
+    tag("ValorDeducoes", money(r.valorDeducoesCents)) +
+    (cfg.simplesNacional ? "" : tag("ValorIss", money(issCents))) +
+    tag("Aliquota", (cfg.aliquotaBps / 100).toFixed(2)) +
+    "</Valores>" +
+    tag("IssRetido", 2) +
+    tag("ItemListaServico", cfg.itemListaServico) +
+    tag("CodigoTributacaoMunicipio", cfg.codigoTributacao) +
+    tag("Discriminacao", r.discriminacao.slice(0, 2000)) +
+    tag("CodigoMunicipio", cfg.codigoMunicipio) +
+    tag("ExigibilidadeISS", 1) +
+    tag("MunicipioIncidencia", cfg.codigoMunicipio) +
+    "</Servico>" +
+    "<Prestador>" +
+    `<CpfCnpj>${tag("Cnpj", cfg.cnpj)}</CpfCnpj>` +
+    tag("InscricaoMunicipal", cfg.inscricaoMunicipal) +
+    "</Prestador>" +
+    tomadorXml(r.tomador) +
+    tag("OptanteSimplesNacional", cfg.simplesNacional ? 1 : 2) +
+    tag("IncentivoFiscal", 2) +
+    "</InfDeclaracaoPrestacaoServico>" +
+    "</Rps>"
+  );
+}
+
+/** XML do lote (competência = 1º dia do mês "YYYY-MM"). */
+export function buildNfseLote(cfg: NfseConfig, args: { month: string; numeroLote: string; rps: NfseRps[] }) {
+  const competencia = `${args.month}-01`;
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<EnviarLoteRpsEnvio xmlns="http://www.abrasf.org.br/nfse.xsd">' +
+    `<LoteRps Id="lote${esc(args.numeroLote)}" versao="2.02">` +
+    tag("NumeroLote", args.numeroLote) +
+    `<CpfCnpj>${tag("Cnpj", cfg.cnpj)}</CpfCnpj>` +
+    tag("InscricaoMunicipal", cfg.inscricaoMunicipal) +
+    tag("QuantidadeRps", args.rps.length) +
+    "<ListaRps>" +
+    args.rps.map((r) => rpsXml(cfg, competencia, r)).join("") +
+    "</ListaRps>" +
+    "</LoteRps>" +
+    "</EnviarLoteRpsEnvio>\n"
+  );
+}
@@ -0,0 +1,154 @@
+import type { Prisma } from "@prisma/client";
+import { fmtMonthPTBR, monthKeyTZ } from "@/lib/taxes";
+
+/**
+ * ✅ Período contábil
+ *
+ * Exportar marca o mês como exportado; fechar congela os números do mês e
+ * trava as vendas dele (criar com data nele, cancelar ou reativar só como
+ * ajuste no mês aberto). Mês = data da venda em Recife (TAX_TZ), o mesmo
+ * fuso dos impostos e de monthBounds.
+ */
+
+// client do time (tenantPrisma) ou `tx` de uma transaction dele
+type Db = Prisma.TransactionClient;
+
+export type ExportKind = "xlsx" | "nfse" | "diario";
+
+export const EXPORT_KIND_LABEL: Record<ExportKind, string> = {
+  xlsx: "XLSX (modelo)",
+  nfse: "Lote NFS-e",
+  diario: "Diário contábil",
+};
+
+export class ClosedPeriodError extends Error {
+  constructor(
+    message: string,
+    public month: string | null = null,
+    // true = dá para lançar como ajuste no mês aberto (ex.: cancelar venda)
+    public adjustable = false
+  ) {
+    super(message);
+    this.name = "ClosedPeriodError";
+  }
+}
+
+/** Mês contábil "YYYY-MM" de uma data (Recife). Única chave de mês do fechamento. */
+export function monthOf(date: Date) {
+  return monthKeyTZ(date);
+}
+
+/** Recusa a alteração se algum dos meses ("YYYY-MM") estiver fechado. */
+export async function assertMonthsOpen(db: Db, months: string[], opts: { adjustable?: boolean } = {}) {
+  const uniq = Array.from(new Set(months));
+  if (!uniq.length) return;
+
+  const closed = await db.accountingPeriod.findFirst({
+    where: { month: { in: uniq }, closedAt: { not: null } },
+    orderBy: { month: "asc" },
+    select: { month: true },
+  });
+  if (closed) {
+    throw new ClosedPeriodError(
+      opts.adjustable
+        ? `O mês ${fmtMonthPTBR(closed.month)} está fechado. A alteração só entra como ajuste no mês atual.`
+        : `O mês ${fmtMonthPTBR(closed.month)} está fechado na contabilidade. Peça a reabertura para alterar.`,
+      closed.month,
+      !!opts.adjustable
+    );
+  }
+}
+
+/** Recusa a alteração se alguma das datas cair em mês fechado. */
+export async function assertPeriodsOpen(db: Db, dates: Date[]) {
+  await assertMonthsOpen(db, dates.map(monthOf));
+}
+
+export async function isMonthClosed(db: Db, month: string) {
+  const p = await db.accountingPeriod.findFirst({
+    where: { month, closedAt: { not: null } },
+    select: { id: true },
+  });
+  return !!p;
+}
+
+/** Números congelados no fechamento (ver fechamento.ts). */
+export type PeriodSnapshot = {
+  closedAt: string;
+  saleIds: string[];
+  sales: { count: number; totalCents: number; paidCents: number; pendingCents: number };
+  profit: { profitTotalCents: number; lossTotalCents: number; profitAfterLossCents: number };
+  payouts: {
+    grossCents: number;
+    taxCents: number;
+    feeCents: number;
+    netCents: number;
+    paidNetCents: number;
+    byUser: Array<{ userId: string; name: string; days: number; grossCents: number; netCents: number }>;
+  };
+  taxes: {
+    totalTaxCents: number;
+    payoutTaxCents: number;
+    balcaoTaxCents: number;
+    balcaoOperationsCount: number;
+    payoutBreakdown: Array<{ userId: string; name: string; login: string; taxCents: number; daysCount: number }>;
+  };
+  caixa: { date: string; cashCents: number; totalLiquidoCents: number } | null;
+};
+
+export function readSnapshot(raw: Prisma.JsonValue | null | undefined): PeriodSnapshot | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw) || typeof raw.closedAt !== "string") return null;
+  return raw as unknown as PeriodSnapshot;
+}
+
+/** Snapshot do mês se ele estiver fechado (null = mês aberto, usa os dados vivos). */
+export async function closedSnapshot(db: Db, month: string) {
+  const p = await db.accountingPeriod.findFirst({
+    where: { month, closedAt: { not: null } },
+    select: { snapshot: true },
+  });
+  return p ? readSnapshot(p.snapshot) : null;
+}
+
+function readExports(raw: Prisma.JsonValue | null | undefined) {
+  const out: Partial<Record<ExportKind, string>> = {};
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return out;
+  for (const k of Object.keys(EXPORT_KIND_LABEL) as ExportKind[]) {
+    if (typeof raw[k] === "string") out[k] = raw[k];
+  }
+  return out;
+}
+
+/** Períodos do time com os exports já feitos (mais recentes primeiro). */
+export async function listPeriods(db: Db, take = 24) {
+  const rows = await db.accountingPeriod.findMany({
+    orderBy: { month: "desc" },
+    take,
+    include: {
+      closedBy: { select: { id: true, name: true } },
+      reopenRequestedBy: { select: { id: true, name: true } },
+      reopenedBy: { select: { id: true, name: true } },
+    },
+  });
+  return rows.map((r) => {
+    // ids das vendas ficam só no banco (pesado e sem uso na tela)
+    const snap = readSnapshot(r.snapshot);
+    const snapshot = snap ? { ...snap, saleIds: undefined, salesIdsCount: snap.saleIds.length } : null;
+    return { ...r, exports: readExports(r.exports), snapshot };
+  });
+}
+
+/** Registra que o mês foi exportado nesse formato (não fecha o período). */
+export async function markPeriodExported(db: Db, team: string, month: string, kind: ExportKind) {
+  const current = await db.accountingPeriod.findFirst({
+    where: { team, month },
+    select: { id: true, exports: true },
+  });
+  const exports = { ...readExports(current?.exports), [kind]: new Date().toISOString() };
+
+  if (current) {
+    await db.accountingPeriod.update({ where: { id: current.id }, data: { exports } });
+  } else {
+    await db.accountingPeriod.create({ data: { team, month, exports } });
+  }
+}
@@ -0,0 +1,163 @@
+// lib/crypto/envelope.ts
+import "server-only";
+import crypto from "node:crypto";
+
+/**
+ * ✅ Cifra envelope para segredos em repouso.
+ *
+ * Cada valor tem uma DEK aleatória (AES-256-GCM) e a DEK é cifrada pela chave
+ * mestra do env (KEK). Rotação de chave = re-embrulhar a DEK, sem precisar
+ * mexer no texto cifrado.
+ *
+ * Cada uso tem o seu chaveiro (variável de env própria): rotacionar ou
+ * recriptografar as senhas de cedente não mexe nos segredos de webhook.
+ *
+ * Env: <VAR>="kid2:<base64 32 bytes>,kid1:<base64 32 bytes>"
+ * A primeira chave é a ativa (cifra); as demais só decifram.
+ *
+ * Formato salvo: enc:v1:<kid>:<dek cifrada>:<iv>:<tag>:<texto cifrado> (base64url)
+ */
+
+const PREFIX = "enc:v1:";
+
+type Keyring = { activeKid: string; keys: Map<string, Buffer> };
+
+type Envelope = { kid: string; wrapped: Buffer; iv: Buffer; tag: Buffer; ct: Buffer };
+
+export type EnvelopeCipher = {
+  isEncrypted(v: unknown): v is string;
+  encrypt(plain: string): string;
+  /** Valor legado em texto puro volta como está (até passar pela recriptografia). */
+  decrypt(stored: string | null | undefined): string | null;
+  /** Texto puro legado ou DEK embrulhada por chave que não é mais a ativa. */
+  needsReencrypt(stored: string | null | undefined): boolean;
+  /** Re-embrulha a DEK com a chave ativa (texto puro legado é cifrado do zero). */
+  reencrypt(stored: string): string;
+};
+
+function b64url(buf: Buffer) {
+  return buf.toString("base64url");
+}
+
+function fromB64url(s: string) {
+  return Buffer.from(s, "base64url");
+}
+
+function gcmEncrypt(key: Buffer, plain: Buffer) {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  const ct = Buffer.concat([cipher.update(plain), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), ct };
+}
+
+function gcmDecrypt(key: Buffer, iv: Buffer, tag: Buffer, ct: Buffer) {
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ct), decipher.final()]);
+}
+
+// DEK embrulhada = iv(12) + tag(16) + dek cifrada(32)
+function wrapDek(kek: Buffer, dek: Buffer) {
+  const { iv, tag, ct } = gcmEncrypt(kek, dek);
+  return Buffer.concat([iv, tag, ct]);
+}
+
+function unwrapDek(kek: Buffer, wrapped: Buffer) {
+  return gcmDecrypt(kek, wrapped.subarray(0, 12), wrapped.subarray(12, 28), wrapped.subarray(28));
+}
+
+function isEncrypted(v: unknown): v is string {
+  return typeof v === "string" && v.startsWith(PREFIX);
+}
+
+function parseEnvelope(stored: string): Envelope {
+  const parts = stored.slice(PREFIX.length).split(":");
+  if (parts.length !== 5) throw new Error("Valor cifrado em formato inválido.");
+  const [kid, wrapped, iv, tag, ct] = parts;
+  return { kid, wrapped: fromB64url(wrapped), iv: fromB64url(iv), tag: fromB64url(tag), ct: fromB64url(ct) };
+}
+
+/**
+ * Cifra com o chaveiro de `envVar`. Fora de produção, sem a variável,
+ * usa uma chave de dev derivada de `devSeed`.
+ */
+export function createEnvelopeCipher(opts: { envVar: string; devSeed: string }): EnvelopeCipher {
+  let cachedKeyring: Keyring | null = null;
+
+  function loadKeyring(): Keyring {
+    if (cachedKeyring) return cachedKeyring;
+
+    const raw = process.env[opts.envVar]?.trim();
+    const keys = new Map<string, Buffer>();
+    let activeKid = "";
+
+    if (raw) {
+      for (const part of raw.split(",")) {
+        const idx = part.indexOf(":");
+        if (idx <= 0) continue;
+        const kid = part.slice(0, idx).trim();
+        const key = Buffer.from(part.slice(idx + 1).trim(), "base64");
+        if (key.length !== 32) throw new Error(`Chave "${kid}" de ${opts.envVar} precisa ter 32 bytes.`);
+        keys.set(kid, key);
+        if (!activeKid) activeKid = kid;
+      }
+    }
+
+    if (!activeKid) {
+      if (process.env.NODE_ENV === "production") {
+        throw new Error(`${opts.envVar} não definida.`);
+      }
+      activeKid = "dev";
+      keys.set("dev", crypto.createHash("sha256").update(opts.devSeed).digest());
+    }
+
+    cachedKeyring = { activeKid, keys };
+    return cachedKeyring;
+  }
+
+  function kekFor(kid: string) {
+    const kek = loadKeyring().keys.get(kid);
+    if (!kek) throw new Error(`Chave "${kid}" não está em ${opts.envVar}.`);
+    return kek;
+  }
+
+  function encrypt(plain: string) {
+    const { activeKid } = loadKeyring();
+    const dek = crypto.randomBytes(32);
+    const { iv, tag, ct } = gcmEncrypt(dek, Buffer.from(plain, "utf8"));
+    const wrapped = wrapDek(kekFor(activeKid), dek);
+    return PREFIX + [activeKid, b64url(wrapped), b64url(iv), b64url(tag), b64url(ct)].join(":");
+  }
+
+  return {
+    isEncrypted,
+    encrypt,
+
+    decrypt(stored) {
+      if (!stored) return null;
+      if (!isEncrypted(stored)) return stored;
+
+      const env = parseEnvelope(stored);
+      const dek = unwrapDek(kekFor(env.kid), env.wrapped);
+      return gcmDecrypt(dek, env.iv, env.tag, env.ct).toString("utf8");
+    },
+
+    needsReencrypt(stored) {
+      if (!stored) return false;
+      if (!isEncrypted(stored)) return true;
+      return parseEnvelope(stored).kid !== loadKeyring().activeKid;
+    },
+
+    reencrypt(stored) {
+      if (!isEncrypted(stored)) return encrypt(stored);
+
+      const env = parseEnvelope(stored);
+      const { activeKid } = loadKeyring();
+      if (env.kid === activeKid) return stored;
+
+      const dek = unwrapDek(kekFor(env.kid), env.wrapped);
+      const wrapped = wrapDek(kekFor(activeKid), dek);
+      return PREFIX + [activeKid, b64url(wrapped), b64url(env.iv), b64url(env.tag), b64url(env.ct)].join(":");
+    },
+  };
+}
@@ -0,0 +1,13 @@
+import type { ReceberStatus } from "@prisma/client";
+
+/**
+ * ✅ Status de uma dívida a receber pelo que já entrou.
+ * Usado pelas rotas de pagamento e pela conciliação bancária.
+ * (CANCELED é manual: quem cancela não passa por aqui.)
+ */
+export function computeStatus(totalCents: number, receivedCents: number): ReceberStatus {
+  if (totalCents <= 0) return "OPEN";
+  if (receivedCents <= 0) return "OPEN";
+  if (receivedCents >= totalCents) return "PAID";
+  return "PARTIAL";
+}
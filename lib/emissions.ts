@@ -1,16 +1,69 @@
-import { LoyaltyProgram } from "@prisma/client";
-import { prisma } from "@/lib/prisma";
-
-export const EMISSION_LIMITS: Record<LoyaltyProgram, number> = {
-  LATAM: 25,
-  SMILES: 25,
-  LIVELO: 999999, // se não usar, deixa alto
-  ESFERA: 999999, // se não usar, deixa alto
-  AZUL: 999999,
-  IBERIA: 999999,
-  AA: 999999,
-  TAP: 999999,
-  FLYING_BLUE: 999999,
+import { EmissionWindowType, LoyaltyProgram, Prisma } from "@prisma/client";
+
+/**
+ * ✅ Limite de passageiros (CPFs) por cedente/programa — fonte única.
+ *
+ * Cada time pode configurar a regra por programa (tabela emission_limit_rules);
+ * sem regra gravada vale o padrão abaixo. Vendas, sugestões, painel de emissões
+ * e LATAM Turbo usam todos estas funções.
+ *
+ * Dias são contados no horário de São Paulo (-03:00, sem horário de verão):
+ * emissão às 22h do dia 10 em SP é dia 10, mesmo sendo dia 11 em UTC.
+ */
+
+// client do time (tenantPrisma) ou `tx` de uma transaction dele
+type Db = Prisma.TransactionClient;
+
+export type EmissionLimitConfig = {
+  program: LoyaltyProgram;
+  windowType: EmissionWindowType;
+  windowDays: number | null; // ROLLING_DAYS
+  resetMonth: number | null; // ANNUAL_RESET (1-12)
+  resetDay: number | null; // ANNUAL_RESET (1-31)
+  paxLimit: number;
+};
+
+export type EmissionWindow = { start: Date; end: Date }; // [start, end)
+
+const UNLIMITED = 999999; // programas sem regra: limite alto
+
+function lifetime(program: LoyaltyProgram): EmissionLimitConfig {
+  return {
+    program,
+    windowType: EmissionWindowType.LIFETIME,
+    windowDays: null,
+    resetMonth: null,
+    resetDay: null,
+    paxLimit: UNLIMITED,
+  };
+}
+
+export const DEFAULT_EMISSION_LIMITS: Record<LoyaltyProgram, EmissionLimitConfig> = {
+  // LATAM: janela móvel de 365 dias (inclui o dia da emissão)
+  LATAM: {
+    program: LoyaltyProgram.LATAM,
+    windowType: EmissionWindowType.ROLLING_DAYS,
+    windowDays: 365,
+    resetMonth: null,
+    resetDay: null,
+    paxLimit: 25,
+  },
+  // SMILES: zera em 01/01 (ano-calendário)
+  SMILES: {
+    program: LoyaltyProgram.SMILES,
+    windowType: EmissionWindowType.ANNUAL_RESET,
+    windowDays: null,
+    resetMonth: 1,
+    resetDay: 1,
+    paxLimit: 25,
+  },
+  LIVELO: lifetime(LoyaltyProgram.LIVELO),
+  ESFERA: lifetime(LoyaltyProgram.ESFERA),
+  AZUL: lifetime(LoyaltyProgram.AZUL),
+  IBERIA: lifetime(LoyaltyProgram.IBERIA),
+  AA: lifetime(LoyaltyProgram.AA),
+  TAP: lifetime(LoyaltyProgram.TAP),
+  FLYING_BLUE: lifetime(LoyaltyProgram.FLYING_BLUE),
 };
 
 export function toNoonSP(date: Date) {
@@ -28,44 +81,156 @@ export function parseYYYYMMDDToNoonSP(s: string) {
   return new Date(`${s}T12:00:00-03:00`);
 }
 
-function addDays(d: Date, days: number) {
-  const x = new Date(d);
-  x.setDate(x.getDate() + days);
-  return x;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SP_OFFSET_MS = 3 * 60 * 60 * 1000; // America/Sao_Paulo = UTC-03:00
+
+// ✅ meia-noite em SP do dia de `d` (03:00 UTC)
+function startOfDaySP(d: Date) {
+  const sp = new Date(d.getTime() - SP_OFFSET_MS);
+  return new Date(Date.UTC(sp.getUTCFullYear(), sp.getUTCMonth(), sp.getUTCDate()) + SP_OFFSET_MS);
 }
 
-function yearWindowSP(issuedAt: Date) {
-  // SMILES: zera em 01/01 (ano-calendário)
-  const y = issuedAt.getFullYear();
-  const start = new Date(`${y}-01-01T00:00:00-03:00`);
-  const end = new Date(`${y + 1}-01-01T00:00:00-03:00`);
-  return { start, end };
+function yearSP(d: Date) {
+  return new Date(d.getTime() - SP_OFFSET_MS).getUTCFullYear();
 }
 
-function rolling365WindowSP(issuedAt: Date) {
-  // LATAM: janela móvel 365 dias até a data (inclui o dia inteiro)
-  const end = addDays(issuedAt, 1); // < end inclui todos do dia
-  const start = addDays(issuedAt, -365);
-  return { start, end };
+// dia de reset no ano, meia-noite em SP (29/02 vira 28/02 em ano não bissexto)
+function resetDateSP(year: number, month: number, day: number) {
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month - 1, Math.min(day, lastDay)) + SP_OFFSET_MS);
 }
 
-export function windowFor(program: LoyaltyProgram, issuedAt: Date) {
-  if (program === "SMILES") return yearWindowSP(issuedAt);
-  if (program === "LATAM") return rolling365WindowSP(issuedAt);
+/**
+ * Janela [start, end) que conta para uma emissão em `at`.
+ * - ROLLING_DAYS: `windowDays` dias terminando no dia de `at` (inclusive)
+ * - ANNUAL_RESET: do último reset até o próximo
+ * - LIFETIME: tudo até o dia de `at`
+ */
+export function windowFor(rule: EmissionLimitConfig, at: Date): EmissionWindow {
+  const day = startOfDaySP(at);
+  const end = new Date(day.getTime() + DAY_MS);
 
-  // fallback: conta tudo sempre (se quiser usar depois)
-  return { start: new Date("2000-01-01T00:00:00-03:00"), end: addDays(issuedAt, 1) };
+  if (rule.windowType === EmissionWindowType.ROLLING_DAYS) {
+    const days = Math.max(1, rule.windowDays ?? 365);
+    return { start: new Date(end.getTime() - days * DAY_MS), end };
+  }
+
+  if (rule.windowType === EmissionWindowType.ANNUAL_RESET) {
+    const month = rule.resetMonth ?? 1;
+    const dayOfMonth = rule.resetDay ?? 1;
+
+    let start = resetDateSP(yearSP(day), month, dayOfMonth);
+    if (start.getTime() > day.getTime()) {
+      start = resetDateSP(yearSP(day) - 1, month, dayOfMonth);
+    }
+    return { start, end: resetDateSP(yearSP(start) + 1, month, dayOfMonth) };
+  }
+
+  return { start: new Date(0), end };
 }
 
-export async function getEmissionUsage(args: {
-  cedenteId: string;
-  program: LoyaltyProgram;
-  issuedAt: Date;
-}) {
-  const issuedAt = toNoonSP(args.issuedAt);
-  const { start, end } = windowFor(args.program, issuedAt);
+/**
+ * Emissões com issuedAt em [start, end) saem da janela entre `from` e `until`
+ * (ex: "renovam até o fim do mês"). LIFETIME nunca libera.
+ */
+export function releasedBetween(rule: EmissionLimitConfig, from: Date, until: Date): EmissionWindow {
+  return { start: windowFor(rule, from).start, end: windowFor(rule, until).start };
+}
+
+/** Texto curto da regra (telas). */
+export function describeEmissionLimit(rule: EmissionLimitConfig) {
+  if (rule.windowType === EmissionWindowType.ROLLING_DAYS) {
+    return `${rule.paxLimit} CPFs nos últimos ${rule.windowDays ?? 365} dias`;
+  }
+  if (rule.windowType === EmissionWindowType.ANNUAL_RESET) {
+    const dd = String(rule.resetDay ?? 1).padStart(2, "0");
+    const mm = String(rule.resetMonth ?? 1).padStart(2, "0");
+    return `${rule.paxLimit} CPFs por ciclo (zera em ${dd}/${mm})`;
+  }
+  return rule.paxLimit >= UNLIMITED ? "Sem limite" : `${rule.paxLimit} CPFs (não zera)`;
+}
+
+/**
+ * Valida o body de uma regra (PUT /api/emissions/limits).
+ * Devolve a regra normalizada ou a mensagem de erro.
+ */
+export function parseEmissionLimitInput(
+  program: LoyaltyProgram,
+  body: {
+    windowType?: unknown;
+    windowDays?: unknown;
+    resetMonth?: unknown;
+    resetDay?: unknown;
+    paxLimit?: unknown;
+  }
+): EmissionLimitConfig | string {
+  const windowType = String(body?.windowType || "").toUpperCase() as EmissionWindowType;
+  if (!Object.values(EmissionWindowType).includes(windowType)) return "Tipo de janela inválido.";
+
+  const paxLimit = Math.trunc(Number(body?.paxLimit));
+  if (!Number.isFinite(paxLimit) || paxLimit < 0 || paxLimit > UNLIMITED) {
+    return "Limite de passageiros inválido.";
+  }
 
-  const agg = await prisma.emissionEvent.aggregate({
+  const rule: EmissionLimitConfig = {
+    program,
+    windowType,
+    windowDays: null,
+    resetMonth: null,
+    resetDay: null,
+    paxLimit,
+  };
+
+  if (windowType === EmissionWindowType.ROLLING_DAYS) {
+    const days = Math.trunc(Number(body?.windowDays));
+    if (!Number.isFinite(days) || days < 1 || days > 3660) return "Dias da janela inválidos (1 a 3660).";
+    rule.windowDays = days;
+  }
+
+  if (windowType === EmissionWindowType.ANNUAL_RESET) {
+    const month = Math.trunc(Number(body?.resetMonth));
+    const day = Math.trunc(Number(body?.resetDay));
+    if (!Number.isFinite(month) || month < 1 || month > 12) return "Mês de reset inválido.";
+    if (!Number.isFinite(day) || day < 1 || day > 31) return "Dia de reset inválido.";
+    if (day > new Date(Date.UTC(2024, month, 0)).getUTCDate()) return "Dia de reset não existe nesse mês.";
+    rule.resetMonth = month;
+    rule.resetDay = day;
+  }
+
+  return rule;
+}
+
+const RULE_SELECT = {
+  program: true,
+  windowType: true,
+  windowDays: true,
+  resetMonth: true,
+  resetDay: true,
+  paxLimit: true,
+} as const;
+
+/** Regras do time para todos os programas (padrão onde não há regra gravada). */
+export async function getEmissionLimits(db: Db): Promise<Record<LoyaltyProgram, EmissionLimitConfig>> {
+  const rows = await db.emissionLimitRule.findMany({ select: RULE_SELECT });
+
+  const out = { ...DEFAULT_EMISSION_LIMITS };
+  for (const r of rows) out[r.program] = r;
+  return out;
+}
+
+export async function getEmissionLimit(db: Db, program: LoyaltyProgram): Promise<EmissionLimitConfig> {
+  const row = await db.emissionLimitRule.findFirst({ where: { program }, select: RULE_SELECT });
+  return row ?? DEFAULT_EMISSION_LIMITS[program];
+}
+
+export async function getEmissionUsage(
+  db: Db,
+  args: { cedenteId: string; program: LoyaltyProgram; at: Date; rule?: EmissionLimitConfig }
+) {
+  const rule = args.rule ?? (await getEmissionLimit(db, args.program));
+  const { start, end } = windowFor(rule, args.at);
+
+  const agg = await db.emissionEvent.aggregate({
     where: {
       cedenteId: args.cedenteId,
       program: args.program,
@@ -75,15 +240,55 @@ export async function getEmissionUsage(args: {
   });
 
   const used = agg._sum.passengersCount ?? 0;
-  const limit = EMISSION_LIMITS[args.program] ?? 0;
-  const remaining = Math.max(0, limit - used);
 
   return {
     program: args.program,
+    rule,
     windowStart: start,
     windowEnd: end,
-    limit,
+    limit: rule.paxLimit,
     used,
-    remaining,
+    remaining: Math.max(0, rule.paxLimit - used),
   };
 }
+
+/** Passageiros usados na janela, por cedente (listas: sugestões, painel, Turbo). */
+export async function getEmissionUsageByCedente(
+  db: Db,
+  args: { program: LoyaltyProgram; at: Date; cedenteIds?: string[]; rule?: EmissionLimitConfig }
+) {
+  const rule = args.rule ?? (await getEmissionLimit(db, args.program));
+  const { start, end } = windowFor(rule, args.at);
+
+  const grouped = await db.emissionEvent.groupBy({
+    by: ["cedenteId"],
+    where: {
+      program: args.program,
+      issuedAt: { gte: start, lt: end },
+      // ✅ lista vazia = nenhum cedente (só `undefined` significa "todos")
+      ...(args.cedenteIds !== undefined ? { cedenteId: { in: args.cedenteIds } } : {}),
+    },
+    _sum: { passengersCount: true },
+  });
+
+  const usedByCedente = new Map<string, number>();
+  for (const g of grouped) usedByCedente.set(g.cedenteId, g._sum.passengersCount ?? 0);
+
+  return { rule, windowStart: start, windowEnd: end, usedByCedente };
+}
+
+/**
+ * LATAM Turbo: CPFs usados = maior entre o calculado pela regra e o informado
+ * na LatamTurboAccount (ajuste manual). Sem conta, o limite é o da regra.
+ */
+export function turboCpfUsage(
+  rule: EmissionLimitConfig,
+  account: { cpfLimit: number; cpfUsed: number } | null | undefined,
+  usedCalc: number
+) {
+  const clamp = (v: unknown) => Math.min(999, Math.max(0, Math.trunc(Number(v) || 0)));
+
+  const cpfLimit = clamp(account ? account.cpfLimit : rule.paxLimit);
+  const cpfUsed = Math.max(clamp(usedCalc), clamp(account?.cpfUsed));
+  return { cpfLimit, cpfUsed, cpfFree: Math.max(0, cpfLimit - cpfUsed) };
+}
@@ -0,0 +1,46 @@
+import { readFileSync } from "node:fs";
+import type { LocatorStatus, Prisma } from "@prisma/client";
+import type { LocatorCheckResult, LocatorProvider } from "./types";
+
+/**
+ * ✅ Provider de fixtures (testes / homologação): nada de browser.
+ *
+ * Fixture casa por purchaseCode ou locator (sem diferenciar maiúsculas).
+ * LOCATOR_FAKE_FIXTURES = caminho de um JSON com a lista abaixo.
+ * Sem fixture para a venda → NAO_ENCONTRADO.
+ */
+
+export type LocatorFixture = {
+  code: string; // purchaseCode (LATAM) ou locator
+  status: LocatorStatus;
+  note?: string | null;
+  details?: Prisma.InputJsonObject | null;
+};
+
+function loadFixturesFromEnv(): LocatorFixture[] {
+  const path = process.env.LOCATOR_FAKE_FIXTURES?.trim();
+  if (!path) return [];
+
+  const parsed = JSON.parse(readFileSync(path, "utf8"));
+  if (!Array.isArray(parsed)) throw new Error("LOCATOR_FAKE_FIXTURES deve ser uma lista.");
+  return parsed as LocatorFixture[];
+}
+
+export function createFakeLocatorProvider(fixtures: LocatorFixture[] = loadFixturesFromEnv()): LocatorProvider {
+  const byCode = new Map(fixtures.map((f) => [f.code.trim().toUpperCase(), f]));
+
+  return {
+    name: "fake",
+
+    async check(input): Promise<LocatorCheckResult> {
+      const keys = [input.purchaseCode, input.locator]
+        .map((v) => String(v || "").trim().toUpperCase())
+        .filter(Boolean);
+
+      const hit = keys.map((k) => byCode.get(k)).find(Boolean);
+      if (!hit) return { status: "NAO_ENCONTRADO", note: "Sem fixture para esta venda." };
+
+      return { status: hit.status, note: hit.note ?? null, details: hit.details ?? null };
+    },
+  };
+}
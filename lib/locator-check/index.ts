@@ -0,0 +1,198 @@
+import type { LocatorCheckSource, LocatorStatus, LoyaltyProgram, Prisma } from "@prisma/client";
+import { tenantPrisma } from "@/lib/tenant";
+import { createFakeLocatorProvider } from "./fake";
+import { createPlaywrightLocatorProvider } from "./playwright";
+import type { LocatorCheckResult, LocatorProvider } from "./types";
+
+export type { LocatorCheckInput, LocatorCheckResult, LocatorProvider } from "./types";
+export { buildLatamUrl, buildSmilesUrl } from "./urls";
+
+/**
+ * ✅ Check de localizador (LATAM / Smiles)
+ *
+ * Cada consulta (automática ou manual) vira uma linha em sale_locator_checks.
+ * Reserva que passa a ALTERADO/CANCELADO entra na fila (flagged) até alguém resolver.
+ */
+
+type Db = Prisma.TransactionClient;
+
+export const CHECKED_PROGRAMS: LoyaltyProgram[] = ["LATAM", "SMILES"];
+
+const FLAG_STATUSES = new Set<LocatorStatus>(["ALTERADO", "CANCELADO"]);
+
+/** LOCATOR_PROVIDER = "playwright" (padrão) | "fake" */
+export function getLocatorProvider(name = process.env.LOCATOR_PROVIDER): LocatorProvider {
+  const n = String(name || "playwright").trim().toLowerCase();
+  if (n === "fake") return createFakeLocatorProvider();
+  if (n === "playwright") return createPlaywrightLocatorProvider();
+  throw new Error(`LOCATOR_PROVIDER inválido: ${n}`);
+}
+
+/**
+ * Grava um check. Só o automático marca a fila, e só quando o status muda
+ * para ALTERADO/CANCELADO (ERRO não conta como mudança).
+ */
+export async function recordLocatorCheck(
+  db: Db,
+  args: {
+    team: string;
+    saleId: string;
+    program: LoyaltyProgram;
+    source: LocatorCheckSource;
+    result: LocatorCheckResult;
+    provider?: string | null;
+    checkedById?: string | null;
+  }
+) {
+  const { status } = args.result;
+
+  let flagged = false;
+  if (args.source === "AUTO" && FLAG_STATUSES.has(status)) {
+    const last = await db.saleLocatorCheck.findFirst({
+      where: { saleId: args.saleId, status: { not: "ERRO" } },
+      orderBy: { createdAt: "desc" },
+      select: { status: true },
+    });
+    flagged = last?.status !== status;
+  }
+
+  return db.saleLocatorCheck.create({
+    data: {
+      team: args.team,
+      saleId: args.saleId,
+      program: args.program,
+      status,
+      source: args.source,
+      provider: args.provider ?? null,
+      note: args.result.note ?? null,
+      details: args.result.details ?? undefined,
+      checkedById: args.checkedById ?? null,
+      flagged,
+    },
+    select: { id: true, status: true, source: true, note: true, flagged: true, createdAt: true },
+  });
+}
+
+function envInt(name: string, fallback: number) {
+  const n = Math.trunc(Number(process.env[name]));
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+function startOfTodayUTC(now: Date) {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+/**
+ * Roda o check automático de um time:
+ * vendas LATAM/Smiles com ida ou volta nos próximos N dias
+ * (LOCATOR_CHECK_DAYS_AHEAD, padrão 30), não canceladas e sem check automático nas
+ * últimas horas (LOCATOR_CHECK_MIN_HOURS, padrão 12). Mais próximas primeiro.
+ */
+export async function runLocatorChecks(
+  team: string,
+  provider: LocatorProvider,
+  opts: { now?: Date; limit?: number } = {}
+) {
+  const db = tenantPrisma(team);
+  const now = opts.now ?? new Date();
+  const limit = opts.limit ?? envInt("LOCATOR_CHECK_LIMIT", 50);
+
+  const from = startOfTodayUTC(now);
+  const until = new Date(from.getTime() + envInt("LOCATOR_CHECK_DAYS_AHEAD", 30) * 24 * 60 * 60 * 1000);
+  const recent = new Date(now.getTime() - envInt("LOCATOR_CHECK_MIN_HOURS", 12) * 60 * 60 * 1000);
+
+  const sales = await db.sale.findMany({
+    where: {
+      paymentStatus: { not: "CANCELED" }, // ✅ venda cancelada não volta para a fila
+      firstPassengerLastName: { not: null },
+      NOT: [{ firstPassengerLastName: "" }],
+      OR: [
+        { program: "LATAM", purchaseCode: { startsWith: "LA", mode: "insensitive" } },
+        { program: "SMILES", locator: { not: null }, NOT: [{ locator: "" }] },
+      ],
+      AND: [
+        {
+          OR: [
+            { departureDate: { gte: from, lt: until } },
+            { returnDate: { gte: from, lt: until } },
+          ],
+        },
+        { locatorChecks: { none: { source: "AUTO", createdAt: { gte: recent } } } },
+      ],
+    },
+    orderBy: [{ departureDate: "asc" }, { createdAt: "asc" }],
+    take: limit,
+    select: {
+      id: true,
+      program: true,
+      locator: true,
+      purchaseCode: true,
+      firstPassengerLastName: true,
+      departureDate: true,
+      returnDate: true,
+    },
+  });
+
+  let flagged = 0;
+  let errors = 0;
+
+  for (const s of sales) {
+    let result: LocatorCheckResult;
+    try {
+      result = await provider.check({
+        saleId: s.id,
+        program: s.program,
+        locator: s.locator,
+        purchaseCode: s.purchaseCode,
+        lastName: String(s.firstPassengerLastName || "").trim(),
+        departureDate: s.departureDate,
+        returnDate: s.returnDate,
+      });
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      result = { status: "ERRO", note: msg.slice(0, 300) };
+    }
+
+    const row = await recordLocatorCheck(db, {
+      team,
+      saleId: s.id,
+      program: s.program,
+      source: "AUTO",
+      result,
+      provider: provider.name,
+    });
+
+    if (row.flagged) flagged++;
+    if (row.status === "ERRO") errors++;
+  }
+
+  return { checked: sales.length, flagged, errors };
+}
+
+/** Último check da venda (telas de check-localizador). */
+export const LAST_LOCATOR_CHECK = {
+  orderBy: { createdAt: "desc" },
+  take: 1,
+  select: { status: true, source: true, note: true, flagged: true, resolvedAt: true, createdAt: true },
+} satisfies Prisma.Sale$locatorChecksArgs;
+
+export function serializeLastCheck(
+  checks: Array<{
+    status: LocatorStatus;
+    source: LocatorCheckSource;
+    note: string | null;
+    flagged: boolean;
+    resolvedAt: Date | null;
+    createdAt: Date;
+  }>
+) {
+  const c = checks[0];
+  if (!c) return null;
+  return {
+    status: c.status,
+    source: c.source,
+    note: c.note,
+    pending: c.flagged && !c.resolvedAt,
+    checkedAt: c.createdAt.toISOString(),
+  };
+}
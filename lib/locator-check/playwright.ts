@@ -0,0 +1,135 @@
+import type { Browser } from "playwright-core";
+import type { LocatorCheckInput, LocatorCheckResult, LocatorProvider } from "./types";
+import { buildLatamUrl, buildSmilesUrl } from "./urls";
+
+/**
+ * ✅ Provider via browser (playwright-core, sem browser embutido):
+ * - LOCATOR_BROWSER_WS: conecta num Chromium remoto (CDP)
+ * - LOCATOR_CHROMIUM_PATH: sobe um Chromium local headless
+ *
+ * Abre a página de "minhas viagens" da companhia e classifica pelo texto.
+ * Um browser por execução (close() no fim do runner).
+ */
+
+const NAV_TIMEOUT_MS = 45_000;
+const SETTLE_MS = 4_000;
+
+const MONTHS_PT = ["jan", "fev", "mar", "abr", "mai", "jun", "jul", "ago", "set", "out", "nov", "dez"];
+
+function normalize(s: string) {
+  return s
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\s+/g, " ");
+}
+
+// formas em que a data da venda pode aparecer na página (UTC = data gravada)
+function dateForms(d: Date) {
+  const dd = String(d.getUTCDate()).padStart(2, "0");
+  const mm = String(d.getUTCMonth() + 1).padStart(2, "0");
+  const mon = MONTHS_PT[d.getUTCMonth()];
+  return [`${dd}/${mm}`, `${d.getUTCDate()} de ${mon}`, `${dd} de ${mon}`, `${d.getUTCDate()} ${mon}`, `${dd} ${mon}`];
+}
+
+const PAGE_DATE_RE = /\b\d{1,2}\/\d{1,2}\b|\b\d{1,2} (de )?(jan|fev|mar|abr|mai|jun|jul|ago|set|out|nov|dez)\b/;
+
+/**
+ * Classifica o texto da página:
+ * cancelada > não encontrada > datas diferentes da venda (alterada) > confirmada.
+ */
+export function classifyLocatorPage(rawText: string, input: LocatorCheckInput): LocatorCheckResult {
+  const text = normalize(rawText);
+
+  if (/reserva cancelada|viagem cancelada|voo cancelado|status: cancelad|\bcancelad[ao]\b/.test(text)) {
+    return { status: "CANCELADO", note: "Página indica cancelamento." };
+  }
+
+  if (/nao encontr|nao localiz|nao foi possivel encontrar|dados incorretos|verifique os dados/.test(text)) {
+    return { status: "NAO_ENCONTRADO", note: "Reserva não encontrada com os dados da venda." };
+  }
+
+  const code = normalize(String(input.purchaseCode || input.locator || ""));
+  const hasBooking = (code && text.includes(code)) || PAGE_DATE_RE.test(text);
+  if (!hasBooking) {
+    return { status: "ERRO", note: "Página sem dados de reserva reconhecíveis." };
+  }
+
+  const missing: string[] = [];
+  if (input.departureDate && !dateForms(input.departureDate).some((f) => text.includes(f))) missing.push("ida");
+  if (input.returnDate && !dateForms(input.returnDate).some((f) => text.includes(f))) missing.push("volta");
+
+  if (/alteracao de voo|voo alterado|mudanca de horario|itinerario alterado/.test(text) || missing.length) {
+    return {
+      status: "ALTERADO",
+      note: missing.length
+        ? `Data de ${missing.join(" e ")} da venda não aparece na reserva.`
+        : "Página indica alteração de voo.",
+      details: { missingDates: missing },
+    };
+  }
+
+  return { status: "CONFIRMADO", note: null };
+}
+
+async function openBrowser(): Promise<Browser> {
+  const { chromium } = await import("playwright-core");
+
+  const ws = process.env.LOCATOR_BROWSER_WS?.trim();
+  if (ws) return chromium.connectOverCDP(ws);
+
+  const executablePath = process.env.LOCATOR_CHROMIUM_PATH?.trim();
+  if (!executablePath) {
+    throw new Error("Configure LOCATOR_BROWSER_WS ou LOCATOR_CHROMIUM_PATH para o check automático.");
+  }
+  return chromium.launch({ executablePath, headless: true });
+}
+
+function urlFor(input: LocatorCheckInput) {
+  if (input.program === "LATAM") {
+    if (!input.purchaseCode) return null;
+    return buildLatamUrl(input.purchaseCode, input.lastName);
+  }
+  if (input.program === "SMILES") {
+    if (!input.locator) return null;
+    return buildSmilesUrl(input.locator, input.lastName);
+  }
+  return null;
+}
+
+export function createPlaywrightLocatorProvider(): LocatorProvider {
+  let browser: Browser | null = null;
+
+  return {
+    name: "playwright",
+
+    async check(input) {
+      const url = urlFor(input);
+      if (!url) return { status: "ERRO", note: `Sem dados para consultar ${input.program}.` };
+
+      browser = browser ?? (await openBrowser());
+      const context = await browser.newContext({ locale: "pt-BR" });
+      const page = await context.newPage();
+
+      try {
+        await page.goto(url, { waitUntil: "domcontentloaded", timeout: NAV_TIMEOUT_MS });
+        await page.waitForLoadState("networkidle", { timeout: NAV_TIMEOUT_MS }).catch(() => null);
+        await page.waitForTimeout(SETTLE_MS);
+
+        const text = await page.locator("body").innerText({ timeout: NAV_TIMEOUT_MS });
+        const result = classifyLocatorPage(text, input);
+        return { ...result, details: { ...(result.details ?? {}), url } };
+      } catch (e: unknown) {
+        const msg = e instanceof Error ? e.message : String(e);
+        return { status: "ERRO", note: `Falha ao abrir a página: ${msg.slice(0, 200)}`, details: { url } };
+      } finally {
+        await context.close().catch(() => null);
+      }
+    },
+
+    async close() {
+      if (browser) await browser.close().catch(() => null);
+      browser = null;
+    },
+  };
+}
@@ -0,0 +1,28 @@
+import type { LocatorStatus, LoyaltyProgram, Prisma } from "@prisma/client";
+
+/**
+ * ✅ Check de localizador: o que o provider recebe e devolve.
+ * O runner não sabe como o status foi obtido (browser, fixture, API...).
+ */
+
+export type LocatorCheckInput = {
+  saleId: string;
+  program: LoyaltyProgram;
+  locator: string | null;
+  purchaseCode: string | null; // LATAM: código "LA..."
+  lastName: string;
+  departureDate: Date | null;
+  returnDate: Date | null;
+};
+
+export type LocatorCheckResult = {
+  status: LocatorStatus;
+  note?: string | null;
+  details?: Prisma.InputJsonObject | null; // o que foi lido (datas, trechos) para conferência
+};
+
+export type LocatorProvider = {
+  name: string;
+  check(input: LocatorCheckInput): Promise<LocatorCheckResult>;
+  close?(): Promise<void>;
+};
@@ -0,0 +1,20 @@
+/**
+ * URLs públicas de consulta de reserva.
+ * Smiles pode ser trocada por env (LOCATOR_SMILES_URL com {locator} e {lastName}).
+ */
+
+export function buildLatamUrl(purchaseCode: string, lastName: string) {
+  return `https://www.latamairlines.com/br/pt/minhas-viagens/second-detail?orderId=${encodeURIComponent(
+    purchaseCode
+  )}&lastname=${encodeURIComponent(lastName)}`;
+}
+
+const DEFAULT_SMILES_URL =
+  "https://www.smiles.com.br/minhas-viagens?localizador={locator}&sobrenome={lastName}";
+
+export function buildSmilesUrl(locator: string, lastName: string) {
+  const tpl = process.env.LOCATOR_SMILES_URL?.trim() || DEFAULT_SMILES_URL;
+  return tpl
+    .replace("{locator}", encodeURIComponent(locator))
+    .replace("{lastName}", encodeURIComponent(lastName));
+}
@@ -0,0 +1,288 @@
+import type { LoyaltyProgram, MilheiroRate, Prisma } from "@prisma/client";
+import { recifeDateISO } from "@/lib/taxes";
+
+/**
+ * ✅ Histórico do milheiro (preço por programa, com vigência)
+ *
+ * Vale a linha mais recente com effectiveFrom <= data. Antes do primeiro
+ * lançamento de um programa vale o primeiro preço conhecido; sem histórico
+ * nenhum, o valor de Settings (legado).
+ *
+ * Settings.*RateCents continua sendo o espelho do preço vigente hoje (telas e
+ * rotas antigas leem dali); toda gravação aqui ressincroniza o espelho.
+ */
+
+// client do time (tenantPrisma) ou `tx` de uma transaction dele
+type Db = Prisma.TransactionClient;
+
+export class MilheiroRateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MilheiroRateError";
+  }
+}
+
+export type RateField =
+  | "latamRateCents"
+  | "smilesRateCents"
+  | "liveloRateCents"
+  | "esferaRateCents"
+  | "azulRateCents"
+  | "iberiaRateCents"
+  | "aaRateCents"
+  | "tapRateCents"
+  | "flyingBlueRateCents";
+
+export const RATE_FIELD: Record<LoyaltyProgram, RateField> = {
+  LATAM: "latamRateCents",
+  SMILES: "smilesRateCents",
+  LIVELO: "liveloRateCents",
+  ESFERA: "esferaRateCents",
+  AZUL: "azulRateCents",
+  IBERIA: "iberiaRateCents",
+  AA: "aaRateCents",
+  TAP: "tapRateCents",
+  FLYING_BLUE: "flyingBlueRateCents",
+};
+
+export const RATE_PROGRAMS = Object.keys(RATE_FIELD) as LoyaltyProgram[];
+
+export const MILHEIRO_PROGRAM_LABEL: Record<LoyaltyProgram, string> = {
+  LATAM: "LATAM",
+  SMILES: "Smiles",
+  LIVELO: "Livelo",
+  ESFERA: "Esfera",
+  AZUL: "Azul",
+  IBERIA: "Iberia",
+  AA: "AA",
+  TAP: "TAP",
+  FLYING_BLUE: "FlyingBlue",
+};
+
+export type SettingsRates = Record<RateField, number>;
+
+const SETTINGS_RATES_SELECT = {
+  latamRateCents: true,
+  smilesRateCents: true,
+  liveloRateCents: true,
+  esferaRateCents: true,
+  azulRateCents: true,
+  iberiaRateCents: true,
+  aaRateCents: true,
+  tapRateCents: true,
+  flyingBlueRateCents: true,
+} satisfies Prisma.SettingsSelect;
+
+export type RateAt = {
+  sellRateCents: number;
+  buyRateCents: number | null;
+  effectiveFrom: Date | null; // null = veio de Settings (sem histórico)
+};
+
+const TZ_OFFSET = "-03:00"; // Recife
+
+/** "YYYY-MM-DD" → 00:00 de Recife (vigência do preço). */
+export function rateDateFromISO(iso: string) {
+  const s = String(iso || "").trim();
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(s)) return null;
+  const d = new Date(`${s}T00:00:00.000${TZ_OFFSET}`);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+/** 00:00 de Recife do dia de `now` (vigência dos lançamentos do dia). */
+export function rateDateToday(now = new Date()) {
+  return new Date(`${recifeDateISO(now)}T00:00:00.000${TZ_OFFSET}`);
+}
+
+/** Valor dos pontos no milheiro: só milheiros inteiros (pontos/1000 para baixo). */
+export function milheiroValueCents(points: number, rateCents: number) {
+  const milheiros = Math.floor((Number(points) || 0) / 1000);
+  return milheiros * (Number(rateCents) || 0);
+}
+
+async function settingsRates(db: Db): Promise<SettingsRates | null> {
+  return db.settings.findFirst({ where: { key: "default" }, select: SETTINGS_RATES_SELECT });
+}
+
+/**
+ * Preço vigente por programa numa data. Carrega o histórico do time de uma vez
+ * (uma linha por programa e dia de mudança) para os cálculos em lote.
+ */
+export async function loadRateResolver(db: Db) {
+  const [rows, settings] = await Promise.all([
+    db.milheiroRate.findMany({ orderBy: { effectiveFrom: "desc" } }),
+    settingsRates(db),
+  ]);
+
+  const byProgram = new Map<LoyaltyProgram, MilheiroRate[]>();
+  for (const r of rows) {
+    const list = byProgram.get(r.program) ?? [];
+    list.push(r);
+    byProgram.set(r.program, list);
+  }
+
+  return function resolve(program: LoyaltyProgram, at: Date = new Date()): RateAt {
+    const list = byProgram.get(program) ?? [];
+    const hit = list.find((r) => r.effectiveFrom <= at) ?? list[list.length - 1];
+    if (hit) return { sellRateCents: hit.sellRateCents, buyRateCents: hit.buyRateCents, effectiveFrom: hit.effectiveFrom };
+    return { sellRateCents: settings?.[RATE_FIELD[program]] ?? 0, buyRateCents: null, effectiveFrom: null };
+  };
+}
+
+export type RateResolver = Awaited<ReturnType<typeof loadRateResolver>>;
+
+/** Preços de venda vigentes na data, no formato dos campos de Settings (ratesCents das rotas). */
+export function ratesAt(resolve: RateResolver, at: Date = new Date()): SettingsRates {
+  const out = {} as SettingsRates;
+  for (const p of RATE_PROGRAMS) out[RATE_FIELD[p]] = resolve(p, at).sellRateCents;
+  return out;
+}
+
+/** Milheiro guardado num snapshot (CashSnapshot.milheiroRates); null se ausente/inválido. */
+export function parseSettingsRates(raw: unknown): SettingsRates | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const obj = raw as Record<string, unknown>;
+  const out = {} as SettingsRates;
+  for (const p of RATE_PROGRAMS) {
+    const v = Number(obj[RATE_FIELD[p]]);
+    if (!Number.isFinite(v)) return null;
+    out[RATE_FIELD[p]] = Math.trunc(v);
+  }
+  return out;
+}
+
+/** Regrava o espelho de Settings com o preço vigente hoje. */
+async function syncSettingsRates(db: Db, team: string) {
+  const resolve = await loadRateResolver(db);
+  const rates = ratesAt(resolve);
+  return db.settings.upsert({
+    where: { team_key: { team, key: "default" } },
+    create: { team, key: "default", ...rates },
+    update: rates,
+    select: SETTINGS_RATES_SELECT,
+  });
+}
+
+export type RateInput = { program: LoyaltyProgram; sellRateCents: number; buyRateCents?: number | null };
+
+/**
+ * Lança preços com vigência (um por programa; mesmo dia = substitui o lançamento
+ * do dia). `onlyChanged` pula programas cujo preço vigente na data já é o mesmo
+ * (o Resumo salva todos os programas a cada edição).
+ */
+export async function recordMilheiroRates(
+  db: Db,
+  args: {
+    team: string;
+    actorId: string | null;
+    effectiveFrom: Date;
+    rates: RateInput[];
+    note?: string | null;
+    onlyChanged?: boolean;
+  }
+) {
+  for (const r of args.rates) {
+    if (!RATE_PROGRAMS.includes(r.program)) throw new MilheiroRateError("Programa inválido.");
+    if (!Number.isInteger(r.sellRateCents) || r.sellRateCents <= 0) {
+      throw new MilheiroRateError(`Milheiro de venda inválido (${MILHEIRO_PROGRAM_LABEL[r.program]}).`);
+    }
+    if (r.buyRateCents != null && (!Number.isInteger(r.buyRateCents) || r.buyRateCents <= 0)) {
+      throw new MilheiroRateError(`Milheiro de compra inválido (${MILHEIRO_PROGRAM_LABEL[r.program]}).`);
+    }
+  }
+
+  const resolve = await loadRateResolver(db);
+  let written = 0;
+
+  for (const r of args.rates) {
+    const cur = resolve(r.program, args.effectiveFrom);
+    // sem compra informada: herda a compra vigente
+    const buyRateCents = r.buyRateCents === undefined ? cur.buyRateCents : r.buyRateCents;
+    if (
+      args.onlyChanged &&
+      cur.effectiveFrom &&
+      cur.sellRateCents === r.sellRateCents &&
+      cur.buyRateCents === buyRateCents
+    ) {
+      continue;
+    }
+
+    await db.milheiroRate.upsert({
+      where: { team_program_effectiveFrom: { team: args.team, program: r.program, effectiveFrom: args.effectiveFrom } },
+      create: {
+        team: args.team,
+        program: r.program,
+        effectiveFrom: args.effectiveFrom,
+        sellRateCents: r.sellRateCents,
+        buyRateCents,
+        note: args.note ?? null,
+        createdById: args.actorId,
+      },
+      update: {
+        sellRateCents: r.sellRateCents,
+        buyRateCents,
+        ...(args.note !== undefined ? { note: args.note } : {}),
+        createdById: args.actorId,
+      },
+    });
+    written += 1;
+  }
+
+  const current = await syncSettingsRates(db, args.team);
+  return { written, current };
+}
+
+/** Exclui um lançamento (o último preço de um programa não sai: é a base da avaliação). */
+export async function deleteMilheiroRate(db: Db, team: string, id: string) {
+  const row = await db.milheiroRate.findUnique({ where: { id }, select: { id: true, program: true } });
+  if (!row) throw new MilheiroRateError("Lançamento não encontrado.");
+
+  const count = await db.milheiroRate.count({ where: { program: row.program } });
+  if (count <= 1) {
+    throw new MilheiroRateError("É o único preço do programa: lance outro antes de excluir.");
+  }
+
+  await db.milheiroRate.delete({ where: { id } });
+  return syncSettingsRates(db, team);
+}
+
+export type SeriesPoint = { date: string; sellRateCents: number; buyRateCents: number | null };
+
+/**
+ * Série para gráfico: preço vigente no início do período + cada mudança dentro
+ * dele (degraus). Datas em "YYYY-MM-DD" de Recife.
+ */
+export async function milheiroSeries(db: Db, args: { from: Date; to: Date; programs?: LoyaltyProgram[] }) {
+  const programs = args.programs?.length ? args.programs : RATE_PROGRAMS;
+  const resolve = await loadRateResolver(db);
+  const rows = await db.milheiroRate.findMany({
+    where: { program: { in: programs }, effectiveFrom: { gt: args.from, lte: args.to } },
+    orderBy: { effectiveFrom: "asc" },
+    include: { createdBy: { select: { id: true, name: true } } },
+  });
+
+  return programs.map((program) => {
+    const start = resolve(program, args.from);
+    const changes = rows.filter((r) => r.program === program);
+    const points: SeriesPoint[] = [
+      { date: recifeDateISO(args.from), sellRateCents: start.sellRateCents, buyRateCents: start.buyRateCents },
+      ...changes.map((r) => ({ date: recifeDateISO(r.effectiveFrom), sellRateCents: r.sellRateCents, buyRateCents: r.buyRateCents })),
+    ];
+    const now = resolve(program, args.to);
+
+    return {
+      program,
+      label: MILHEIRO_PROGRAM_LABEL[program],
+      current: now,
+      points,
+      changes: changes.map((r) => ({
+        id: r.id,
+        effectiveFrom: r.effectiveFrom.toISOString(),
+        sellRateCents: r.sellRateCents,
+        buyRateCents: r.buyRateCents,
+        note: r.note,
+        createdBy: r.createdBy,
+      })),
+    };
+  });
+}
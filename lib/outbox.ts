@@ -0,0 +1,64 @@
+// lib/outbox.ts
+import type { Prisma } from "@prisma/client";
+
+/**
+ * ✅ Outbox de eventos de domínio.
+ *
+ * `emitDomainEvent(tx, ...)` grava o evento na MESMA transação da mutação:
+ * se a venda/compra/pagamento não commitar, o evento também não existe.
+ * A entrega (webhooks) fica com o dispatcher em lib/webhooks.ts.
+ */
+
+export const DOMAIN_EVENTS = [
+  "sale.created",
+  "sale.canceled",
+  "purchase.released",
+  "purchase.finalized",
+  "payout.paid",
+  "vip_lead.approved",
+  "block.opened",
+  "block.unblocked",
+  "block.unlock_overdue",
+] as const;
+
+export type DomainEventType = (typeof DOMAIN_EVENTS)[number];
+
+export const DOMAIN_EVENT_LABEL: Record<DomainEventType, string> = {
+  "sale.created": "Venda criada",
+  "sale.canceled": "Venda cancelada",
+  "purchase.released": "Compra liberada",
+  "purchase.finalized": "Compra finalizada",
+  "payout.paid": "Pagamento de funcionário",
+  "vip_lead.approved": "Lead VIP aprovado",
+  "block.opened": "Bloqueio aberto",
+  "block.unblocked": "Bloqueio resolvido",
+  "block.unlock_overdue": "Previsão de desbloqueio vencida",
+};
+
+export function isDomainEventType(v: unknown): v is DomainEventType {
+  return (DOMAIN_EVENTS as readonly string[]).includes(String(v));
+}
+
+export async function emitDomainEvent(
+  tx: Prisma.TransactionClient,
+  args: {
+    team: string;
+    type: DomainEventType;
+    aggregateType: string;
+    aggregateId: string;
+    payload: Prisma.InputJsonObject;
+    actorId?: string | null;
+  }
+) {
+  return tx.outboxEvent.create({
+    data: {
+      team: args.team,
+      type: args.type,
+      aggregateType: args.aggregateType,
+      aggregateId: args.aggregateId,
+      payload: args.payload,
+      actorId: args.actorId ?? null,
+    },
+    select: { id: true },
+  });
+}
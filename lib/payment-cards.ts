@@ -0,0 +1,268 @@
+import type { PaymentCardOwnerType, Prisma } from "@prisma/client";
+
+/**
+ * ✅ Cartões da taxa de embarque
+ *
+ * Fatura (ciclo) = vendas com data em [fechamento anterior, fechamento):
+ * compra no dia do fechamento já cai na fatura seguinte. Dia 31 em mês curto
+ * vira o último dia do mês. Vendas canceladas ficam fora do total.
+ */
+
+// client do time (tenantPrisma) ou `tx` de uma transaction dele
+type Db = Prisma.TransactionClient;
+
+export class PaymentCardError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentCardError";
+  }
+}
+
+export const CARD_OWNER_LABEL: Record<PaymentCardOwnerType, string> = {
+  COMPANY: "Empresa",
+  EMPLOYEE: "Funcionário",
+};
+
+export type CardInput = {
+  label: string;
+  brand: string | null;
+  last4: string;
+  ownerType: PaymentCardOwnerType;
+  ownerUserId: string | null;
+  closingDay: number;
+  dueDay: number;
+  active: boolean;
+};
+
+type CycleCard = { closingDay: number; dueDay: number };
+
+function dayIn(y: number, m: number, day: number) {
+  const last = new Date(Date.UTC(y, m + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(y, m, Math.min(day, last)));
+}
+
+/** Fechamento da fatura em que cai uma compra feita em `date`. */
+export function closingFor(card: CycleCard, date: Date) {
+  const y = date.getUTCFullYear();
+  const m = date.getUTCMonth();
+  const thisMonth = dayIn(y, m, card.closingDay);
+  const day = new Date(Date.UTC(y, m, date.getUTCDate()));
+  return day < thisMonth ? thisMonth : dayIn(y, m + 1, card.closingDay);
+}
+
+/** Ciclo de um fechamento: período das compras e vencimento. */
+export function cycleRange(card: CycleCard, closingDate: Date) {
+  const y = closingDate.getUTCFullYear();
+  const m = closingDate.getUTCMonth();
+  const from = dayIn(y, m - 1, card.closingDay);
+  // vence depois do fechamento: mesmo mês se o dia é maior, senão no mês seguinte
+  const dueDate = card.dueDay > card.closingDay ? dayIn(y, m, card.dueDay) : dayIn(y, m + 1, card.dueDay);
+  return { from, to: closingDate, dueDate };
+}
+
+/** Valida o body do POST/PATCH /api/cartoes (patch = só o que veio). */
+export function parseCardInput(body: Record<string, unknown>, current?: CardInput): CardInput {
+  const pick = <K extends keyof CardInput>(k: K) => (body[k] === undefined && current ? current[k] : body[k]);
+
+  const label = String(pick("label") ?? "").trim().slice(0, 80);
+  if (!label) throw new PaymentCardError("Nome do cartão é obrigatório.");
+
+  const last4 = String(pick("last4") ?? "").replace(/\D+/g, "");
+  if (last4.length !== 4) throw new PaymentCardError("Informe os 4 últimos dígitos.");
+
+  const ownerType = String(pick("ownerType") ?? "").toUpperCase();
+  if (ownerType !== "COMPANY" && ownerType !== "EMPLOYEE") throw new PaymentCardError("Dono inválido.");
+
+  const ownerUserId = ownerType === "EMPLOYEE" ? String(pick("ownerUserId") ?? "").trim() || null : null;
+  if (ownerType === "EMPLOYEE" && !ownerUserId) {
+    throw new PaymentCardError("Cartão de funcionário precisa do funcionário dono.");
+  }
+
+  const closingDay = Math.trunc(Number(pick("closingDay")));
+  const dueDay = Math.trunc(Number(pick("dueDay")));
+  if (!(closingDay >= 1 && closingDay <= 31)) throw new PaymentCardError("Dia de fechamento inválido (1-31).");
+  if (!(dueDay >= 1 && dueDay <= 31)) throw new PaymentCardError("Dia de vencimento inválido (1-31).");
+
+  const brand = String(pick("brand") ?? "").trim().slice(0, 40) || null;
+  const active = pick("active") === undefined ? true : Boolean(pick("active"));
+
+  return { label, brand, last4, ownerType, ownerUserId, closingDay, dueDay, active };
+}
+
+/** Texto gravado em Sale.feeCardLabel (exibição / legado). */
+export function cardDisplayLabel(card: { label: string; last4: string }) {
+  return `Cartão ${card.label} •••• ${card.last4}`;
+}
+
+/**
+ * Fatura de um ciclo: vendas com taxa no cartão, total, conferência com a
+ * fatura do banco e reembolso ao dono (cartão de funcionário).
+ */
+export async function cardStatement(db: Db, cardId: string, closingDate?: Date) {
+  const card = await db.paymentCard.findFirst({
+    where: { id: cardId },
+    include: { ownerUser: { select: { id: true, name: true, login: true } } },
+  });
+  if (!card) throw new PaymentCardError("Cartão não encontrado.");
+
+  // data pedida vira um fechamento válido do cartão (sem data = fatura aberta hoje)
+  const closing = closingDate
+    ? closingFor(card, new Date(closingDate.getTime() - 86_400_000))
+    : closingFor(card, new Date());
+  const { from, to, dueDate } = cycleRange(card, closing);
+
+  const [sales, cycle] = await Promise.all([
+    db.sale.findMany({
+      where: {
+        feeCardId: card.id,
+        date: { gte: from, lt: to },
+        embarqueFeeCents: { gt: 0 },
+        paymentStatus: { not: "CANCELED" },
+      },
+      orderBy: { date: "asc" },
+      select: {
+        id: true,
+        numero: true,
+        date: true,
+        program: true,
+        locator: true,
+        embarqueFeeCents: true,
+        seller: { select: { id: true, name: true } },
+        cliente: { select: { id: true, nome: true } },
+      },
+    }),
+    db.paymentCardCycle.findFirst({
+      where: { cardId: card.id, closingDate: closing },
+      include: {
+        reconciledBy: { select: { id: true, name: true } },
+        reimbursedBy: { select: { id: true, name: true } },
+      },
+    }),
+  ]);
+
+  const totalCents = sales.reduce((acc, s) => acc + s.embarqueFeeCents, 0);
+  const invoiceCents = cycle?.invoiceCents ?? null;
+
+  return {
+    card,
+    closingDate: closing,
+    from,
+    dueDate,
+    prevClosingDate: from,
+    nextClosingDate: closingFor(card, closing),
+    sales,
+    totalCents,
+    cycle,
+    // fatura do banco - taxas lançadas (≠ 0 = taxa sem venda ou venda sem cartão certo)
+    diffCents: invoiceCents == null ? null : invoiceCents - totalCents,
+    reimbursable: card.ownerType === "EMPLOYEE",
+  };
+}
+
+type CyclePatch = {
+  invoiceCents?: number | null;
+  reconciledAt?: Date | null;
+  reconciledById?: string | null;
+  reimbursedCents?: number | null;
+  reimbursedAt?: Date | null;
+  reimbursedById?: string | null;
+  notes?: string | null;
+};
+
+/** Grava/atualiza o ciclo (cria na primeira conferência ou reembolso). */
+export async function upsertCycle(
+  db: Db,
+  card: { id: string; team: string; closingDay: number; dueDay: number },
+  closingDate: Date,
+  data: CyclePatch
+) {
+  const { dueDate } = cycleRange(card, closingDate);
+  const existing = await db.paymentCardCycle.findFirst({
+    where: { cardId: card.id, closingDate },
+    select: { id: true },
+  });
+
+  if (existing) return db.paymentCardCycle.update({ where: { id: existing.id }, data });
+
+  return db.paymentCardCycle.create({
+    data: {
+      ...data,
+      team: card.team,
+      cardId: card.id,
+      closingDate,
+      dueDate,
+    },
+  });
+}
+
+/**
+ * Reembolsos em aberto: faturas já fechadas dos cartões de funcionário, com
+ * taxa lançada e ainda sem reembolso (olha os últimos `cyclesBack` ciclos).
+ */
+export async function pendingReimbursements(db: Db, now = new Date(), cyclesBack = 6) {
+  const cards = await db.paymentCard.findMany({
+    where: { ownerType: "EMPLOYEE" },
+    include: { ownerUser: { select: { id: true, name: true, login: true } } },
+    orderBy: { label: "asc" },
+  });
+
+  const out = [];
+  for (const card of cards) {
+    // fechamentos passados: o "de" de cada ciclo é o fechamento anterior
+    const closings: Date[] = [];
+    let c = cycleRange(card, closingFor(card, now)).from;
+    for (let i = 0; i < cyclesBack; i++) {
+      closings.push(c);
+      c = cycleRange(card, c).from;
+    }
+
+    const oldestFrom = cycleRange(card, closings[closings.length - 1]).from;
+    const [sales, cycles] = await Promise.all([
+      db.sale.findMany({
+        where: {
+          feeCardId: card.id,
+          date: { gte: oldestFrom, lt: closings[0] },
+          embarqueFeeCents: { gt: 0 },
+          paymentStatus: { not: "CANCELED" },
+        },
+        select: { date: true, embarqueFeeCents: true },
+      }),
+      db.paymentCardCycle.findMany({
+        where: { cardId: card.id, closingDate: { in: closings } },
+        select: { closingDate: true, reimbursedAt: true },
+      }),
+    ]);
+
+    const reimbursed = new Set(cycles.filter((x) => x.reimbursedAt).map((x) => x.closingDate.getTime()));
+    const totals = new Map<number, { count: number; totalCents: number }>();
+    for (const s of sales) {
+      const k = closingFor(card, s.date).getTime();
+      const t = totals.get(k) ?? { count: 0, totalCents: 0 };
+      t.count++;
+      t.totalCents += s.embarqueFeeCents;
+      totals.set(k, t);
+    }
+
+    for (const closing of closings) {
+      const t = totals.get(closing.getTime());
+      if (!t || reimbursed.has(closing.getTime())) continue;
+      out.push({
+        card: { id: card.id, label: card.label, last4: card.last4, ownerUser: card.ownerUser },
+        closingDate: closing,
+        dueDate: cycleRange(card, closing).dueDate,
+        sales: t.count,
+        totalCents: t.totalCents,
+      });
+    }
+  }
+
+  return out.sort((a, b) => a.closingDate.getTime() - b.closingDate.getTime());
+}
+
+/** "YYYY-MM-DD" → Date (UTC 00:00) ou null. */
+export function parseClosingParam(v: unknown) {
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(String(v || "").trim());
+  if (!m) return null;
+  const d = new Date(Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3])));
+  return Number.isNaN(d.getTime()) ? null : d;
+}
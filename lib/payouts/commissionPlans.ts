@@ -0,0 +1,349 @@
+import type { CommissionPlan, Prisma } from "@prisma/client";
+import {
+  balcaoProfitSemTaxaCents,
+  type BalcaoTaxRule,
+  netProfitAfterTaxCents,
+  recifeDateISO,
+  resolveTaxPercent,
+  taxFromProfitCents,
+} from "@/lib/balcao-commission";
+import { assertMonthsOpen, monthOf } from "@/lib/contabil";
+import {
+  balcaoCommissionCents,
+  CommissionPlanError,
+  commissionBonusCents,
+  commissionC1Cents,
+  DEFAULT_PLAN_RULES,
+  payoutTaxPercent,
+  planDateFromISO,
+  planRulesFromRow,
+  type PlanRules,
+  saleCommissionBase,
+} from "./commissionRules";
+
+/**
+ * ✅ Planos de comissão
+ *
+ * Uma fonte só para as regras do vendedor:
+ * - C1: % do PV sem taxa, por faixa de PV da venda (a faixa vale para a venda toda)
+ * - C2: % do excedente acima da meta do milheiro, por faixa de excedente (curva)
+ * - balcão: % do lucro líquido da operação
+ * - imposto do pagamento: % das configurações do time, % fixo do plano ou nenhum
+ *
+ * Versionado: cada alteração cria uma versão nova com vigência. Vale o plano
+ * do funcionário vigente na data; sem ele, o do time; sem nenhum, o padrão
+ * (1% / 30% / 60% / imposto do time), que eram as regras fixas no código.
+ */
+
+export {
+  balcaoCommissionCents,
+  type BonusTier,
+  CommissionPlanError,
+  commissionBonusCents,
+  commissionC1Cents,
+  type CommissionTier,
+  DEFAULT_PLAN_RULES,
+  parsePlanRules,
+  payoutTaxPercent,
+  planDateFromISO,
+  planRulesFromRow,
+  type PlanRules,
+  saleCommissionBase,
+  TAX_BASIS_LABEL,
+} from "./commissionRules";
+
+// client do time (tenantPrisma) ou `tx` de uma transaction dele
+type Db = Prisma.TransactionClient;
+
+export type ResolvedPlan = {
+  id: string | null; // null = padrão (sem plano cadastrado)
+  version: number;
+  name: string;
+  userId: string | null;
+  rules: PlanRules;
+};
+
+export const DEFAULT_PLAN: ResolvedPlan = {
+  id: null,
+  version: 0,
+  name: "Padrão",
+  userId: null,
+  rules: DEFAULT_PLAN_RULES,
+};
+
+const TZ_OFFSET = "-03:00"; // Recife
+
+type PlanRow = CommissionPlan;
+
+function toResolved(p: PlanRow): ResolvedPlan {
+  return { id: p.id, version: p.version, name: p.name, userId: p.userId, rules: planRulesFromRow(p) };
+}
+
+export type PlanOverride = { userId: string | null; rules: PlanRules };
+
+/**
+ * Resolve o plano de cada funcionário numa data. Carrega todas as versões do
+ * time de uma vez (são poucas) para os cálculos em lote.
+ */
+export async function loadPlanResolver(db: Db) {
+  const rows = await db.commissionPlan.findMany({
+    orderBy: [{ effectiveFrom: "desc" }, { version: "desc" }],
+  });
+
+  function current(userId: string | null, at: Date) {
+    return rows.find((p) => p.userId === userId && p.effectiveFrom <= at) ?? null;
+  }
+
+  return function resolve(userId: string | null, at: Date, override?: PlanOverride): ResolvedPlan {
+    const own = userId ? current(userId, at) : null;
+
+    if (override) {
+      if (userId && override.userId === userId) return { ...DEFAULT_PLAN, name: "Simulação", userId, rules: override.rules };
+      if (override.userId === null && !own) return { ...DEFAULT_PLAN, name: "Simulação", rules: override.rules };
+    }
+
+    if (own) return toResolved(own);
+    const team = current(null, at);
+    return team ? toResolved(team) : DEFAULT_PLAN;
+  };
+}
+
+export type PlanResolver = Awaited<ReturnType<typeof loadPlanResolver>>;
+
+/** Plano de um funcionário numa data (para lote, use loadPlanResolver). */
+export async function resolvePlanFor(db: Db, userId: string | null, at: Date) {
+  const resolve = await loadPlanResolver(db);
+  return resolve(userId, at);
+}
+
+/** Versões cadastradas (mais novas primeiro), com o funcionário e quem criou. */
+export async function listPlans(db: Db) {
+  const rows = await db.commissionPlan.findMany({
+    orderBy: [{ effectiveFrom: "desc" }, { version: "desc" }],
+    include: {
+      user: { select: { id: true, name: true, login: true } },
+      createdBy: { select: { id: true, name: true } },
+    },
+  });
+  return rows.map((r) => ({ ...r, rules: planRulesFromRow(r) }));
+}
+
+/**
+ * Nova versão do plano (do time ou do funcionário). Vigência em mês fechado
+ * é recusada: os pagamentos daquele mês já estão congelados.
+ */
+export async function createPlanVersion(
+  db: Db,
+  args: {
+    team: string;
+    actorId: string;
+    userId: string | null;
+    name: string;
+    effectiveFrom: Date;
+    rules: PlanRules;
+    note: string | null;
+  }
+) {
+  const name = String(args.name || "").trim().slice(0, 80);
+  if (!name) throw new CommissionPlanError("Informe o nome do plano.");
+
+  await assertMonthsOpen(db, [monthOf(args.effectiveFrom)]);
+
+  if (args.userId) {
+    const user = await db.user.findUnique({ where: { id: args.userId }, select: { id: true } });
+    if (!user) throw new CommissionPlanError("Funcionário não encontrado.");
+  }
+
+  const last = await db.commissionPlan.findFirst({
+    where: { userId: args.userId },
+    orderBy: { version: "desc" },
+    select: { version: true },
+  });
+
+  return db.commissionPlan.create({
+    data: {
+      team: args.team,
+      userId: args.userId,
+      version: (last?.version ?? 0) + 1,
+      name,
+      effectiveFrom: args.effectiveFrom,
+      c1Tiers: args.rules.c1Tiers,
+      bonusCurve: args.rules.bonusCurve,
+      balcaoBps: args.rules.balcaoBps,
+      taxBasis: args.rules.taxBasis,
+      taxPercent: args.rules.taxPercent,
+      note: args.note,
+      createdById: args.actorId,
+    },
+  });
+}
+
+/** Só versão agendada (vigência futura) sai; a já vigente fica no histórico. */
+export async function deletePlanVersion(db: Db, id: string, now = new Date()) {
+  const plan = await db.commissionPlan.findUnique({ where: { id }, select: { id: true, effectiveFrom: true } });
+  if (!plan) throw new CommissionPlanError("Plano não encontrado.");
+  if (plan.effectiveFrom <= now) {
+    throw new CommissionPlanError("Versão já vigente não pode ser excluída; cadastre uma nova versão.");
+  }
+  await db.commissionPlan.delete({ where: { id: plan.id } });
+}
+
+type SimTotals = { c1Cents: number; c2Cents: number; balcaoCents: number; taxCents: number; netCents: number };
+
+function emptyTotals(): SimTotals {
+  return { c1Cents: 0, c2Cents: 0, balcaoCents: 0, taxCents: 0, netCents: 0 };
+}
+
+/**
+ * "E se": recalcula o mês com o plano atual e com o proposto, por
+ * funcionário. C3 (rateio) e reembolso de taxa não dependem do plano e
+ * ficam de fora. Vendas pelo dia de criação (igual ao compute padrão).
+ */
+export async function simulatePlanChange(
+  db: Db,
+  args: { month: string; userId: string | null; rules: PlanRules; taxRule: BalcaoTaxRule }
+) {
+  const { month } = args;
+  const start = new Date(`${month}-01T00:00:00${TZ_OFFSET}`);
+  const end = new Date(start);
+  end.setMonth(end.getMonth() + 1);
+
+  const [resolve, sales, balcaoOps] = await Promise.all([
+    loadPlanResolver(db),
+    db.sale.findMany({
+      where: {
+        createdAt: { gte: start, lt: end },
+        paymentStatus: { not: "CANCELED" },
+        sellerId: args.userId ? args.userId : { not: null },
+      },
+      select: {
+        createdAt: true,
+        sellerId: true,
+        points: true,
+        milheiroCents: true,
+        totalCents: true,
+        embarqueFeeCents: true,
+        pointsValueCents: true,
+        metaMilheiroCents: true,
+        purchase: { select: { metaMilheiroCents: true } },
+      },
+    }),
+    db.balcaoOperacao.findMany({
+      where: {
+        createdAt: { gte: start, lt: end },
+        employeeId: args.userId ? args.userId : { not: null },
+      },
+      select: {
+        employeeId: true,
+        createdAt: true,
+        customerChargeCents: true,
+        supplierPayCents: true,
+        boardingFeeCents: true,
+      },
+    }),
+  ]);
+
+  const override: PlanOverride = { userId: args.userId, rules: args.rules };
+
+  type Agg = { salesCount: number; balcaoOps: number; current: SimTotals; proposed: SimTotals };
+  const byUser = new Map<string, Agg>();
+  // bruto por usuário/dia para o imposto (igual ao pagamento diário)
+  const grossByDay = new Map<string, { userId: string; dateISO: string; current: number; proposed: number }>();
+
+  const ensure = (userId: string) => {
+    let a = byUser.get(userId);
+    if (!a) {
+      a = { salesCount: 0, balcaoOps: 0, current: emptyTotals(), proposed: emptyTotals() };
+      byUser.set(userId, a);
+    }
+    return a;
+  };
+
+  for (const s of sales) {
+    const userId = String(s.sellerId || "");
+    if (!userId) continue;
+
+    const cur = resolve(userId, s.createdAt);
+    const next = resolve(userId, s.createdAt, override);
+    // simulação de time não mexe em quem tem plano próprio
+    if (!args.userId && next.id !== null && next.id === cur.id) continue;
+
+    const base = saleCommissionBase(s);
+    const meta = s.metaMilheiroCents > 0 ? s.metaMilheiroCents : s.purchase?.metaMilheiroCents ?? 0;
+    const bonusArgs = { points: s.points, milheiroCents: base.milheiroNoFeeCents, metaMilheiroCents: meta };
+
+    const a = ensure(userId);
+    a.salesCount += 1;
+    const c1Cur = commissionC1Cents(cur.rules, base.pvNoFeeCents);
+    const c2Cur = commissionBonusCents(cur.rules, bonusArgs);
+    const c1New = commissionC1Cents(next.rules, base.pvNoFeeCents);
+    const c2New = commissionBonusCents(next.rules, bonusArgs);
+    a.current.c1Cents += c1Cur;
+    a.current.c2Cents += c2Cur;
+    a.proposed.c1Cents += c1New;
+    a.proposed.c2Cents += c2New;
+
+    const dateISO = recifeDateISO(s.createdAt);
+    const key = `${userId}|${dateISO}`;
+    const day = grossByDay.get(key) ?? { userId, dateISO, current: 0, proposed: 0 };
+    day.current += c1Cur + c2Cur;
+    day.proposed += c1New + c2New;
+    grossByDay.set(key, day);
+  }
+
+  for (const day of grossByDay.values()) {
+    const at = planDateFromISO(day.dateISO) ?? start;
+    const a = ensure(day.userId);
+    const curPct = payoutTaxPercent(resolve(day.userId, at).rules, day.dateISO, args.taxRule);
+    const newPct = payoutTaxPercent(resolve(day.userId, at, override).rules, day.dateISO, args.taxRule);
+    a.current.taxCents += Math.round(Math.max(0, day.current) * (curPct / 100));
+    a.proposed.taxCents += Math.round(Math.max(0, day.proposed) * (newPct / 100));
+  }
+
+  for (const op of balcaoOps) {
+    const userId = String(op.employeeId || "");
+    if (!userId) continue;
+
+    const cur = resolve(userId, op.createdAt);
+    const next = resolve(userId, op.createdAt, override);
+    if (!args.userId && next.id !== null && next.id === cur.id) continue;
+
+    const dateISO = recifeDateISO(op.createdAt);
+    const profit = balcaoProfitSemTaxaCents(op);
+    const net = netProfitAfterTaxCents(profit, taxFromProfitCents(profit, resolveTaxPercent(dateISO, args.taxRule)));
+
+    const a = ensure(userId);
+    a.balcaoOps += 1;
+    a.current.balcaoCents += balcaoCommissionCents(cur.rules, net);
+    a.proposed.balcaoCents += balcaoCommissionCents(next.rules, net);
+  }
+
+  const userIds = [...byUser.keys()];
+  const users = userIds.length
+    ? await db.user.findMany({ where: { id: { in: userIds } }, select: { id: true, name: true, login: true } })
+    : [];
+  const userById = new Map(users.map((u) => [u.id, u]));
+
+  const totals = { current: emptyTotals(), proposed: emptyTotals(), deltaCents: 0 };
+  const rows = userIds
+    .map((id) => {
+      const a = byUser.get(id)!;
+      for (const t of [a.current, a.proposed]) t.netCents = t.c1Cents + t.c2Cents - t.taxCents + t.balcaoCents;
+      for (const k of Object.keys(totals.current) as Array<keyof SimTotals>) {
+        totals.current[k] += a.current[k];
+        totals.proposed[k] += a.proposed[k];
+      }
+      return {
+        user: userById.get(id) ?? { id, name: "-", login: "" },
+        salesCount: a.salesCount,
+        balcaoOps: a.balcaoOps,
+        current: a.current,
+        proposed: a.proposed,
+        deltaCents: a.proposed.netCents - a.current.netCents,
+      };
+    })
+    .sort((a, b) => Math.abs(b.deltaCents) - Math.abs(a.deltaCents));
+  totals.deltaCents = totals.proposed.netCents - totals.current.netCents;
+
+  return { month, userId: args.userId, rows, totals };
+}
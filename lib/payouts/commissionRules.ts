@@ -0,0 +1,164 @@
+import type { CommissionPlan, CommissionTaxBasis } from "@prisma/client";
+import { type BalcaoTaxRule, resolveTaxPercent, sellerCommissionCentsFromNet } from "@/lib/balcao-commission";
+
+/**
+ * ✅ Regras do plano de comissão (sem dependência de server: usadas pela API,
+ * pelo compute e pelas prévias das telas de venda e balcão).
+ * Percentuais em bps (100 = 1%). Planos/versões: lib/payouts/commissionPlans.
+ */
+
+export class CommissionPlanError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CommissionPlanError";
+  }
+}
+
+export type CommissionTier = { minPvCents: number; bps: number };
+export type BonusTier = { minExcessCents: number; bps: number };
+
+export type PlanRules = {
+  c1Tiers: CommissionTier[];
+  bonusCurve: BonusTier[];
+  balcaoBps: number;
+  taxBasis: CommissionTaxBasis;
+  taxPercent: number | null;
+};
+
+export const DEFAULT_PLAN_RULES: PlanRules = {
+  c1Tiers: [{ minPvCents: 0, bps: 100 }],
+  bonusCurve: [{ minExcessCents: 0, bps: 3000 }],
+  balcaoBps: 6000,
+  taxBasis: "TEAM_SETTINGS",
+  taxPercent: null,
+};
+
+export const TAX_BASIS_LABEL: Record<CommissionTaxBasis, string> = {
+  TEAM_SETTINGS: "Imposto do time (configurações)",
+  FIXED: "Percentual fixo do plano",
+  NONE: "Sem imposto",
+};
+
+const MAX_TIERS = 10;
+const TZ_OFFSET = "-03:00"; // Recife
+
+/** "YYYY-MM-DD" → início do dia em Recife */
+export function planDateFromISO(iso: string) {
+  const s = String(iso || "").trim();
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(s)) return null;
+  const d = new Date(`${s}T00:00:00.000${TZ_OFFSET}`);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+function intIn(v: unknown, min: number, max: number, label: string) {
+  const n = Number(v);
+  if (!Number.isFinite(n) || Math.trunc(n) !== n || n < min || n > max) {
+    throw new CommissionPlanError(`${label} inválido.`);
+  }
+  return n;
+}
+
+function parseTiers<K extends string>(raw: unknown, key: K, label: string): Array<Record<K, number> & { bps: number }> {
+  if (!Array.isArray(raw) || !raw.length) throw new CommissionPlanError(`Informe ao menos uma faixa de ${label}.`);
+  if (raw.length > MAX_TIERS) throw new CommissionPlanError(`Máximo de ${MAX_TIERS} faixas de ${label}.`);
+
+  const tiers = raw.map((t) => {
+    const row = (t ?? {}) as Record<string, unknown>;
+    return {
+      [key]: intIn(row[key], 0, 1_000_000_000, `Início da faixa de ${label}`),
+      bps: intIn(row.bps, 0, 10000, `Percentual da faixa de ${label}`),
+    } as Record<K, number> & { bps: number };
+  });
+
+  tiers.sort((a, b) => a[key] - b[key]);
+  if (tiers[0][key] !== 0) throw new CommissionPlanError(`A primeira faixa de ${label} começa em 0.`);
+  for (let i = 1; i < tiers.length; i++) {
+    if (tiers[i][key] === tiers[i - 1][key]) throw new CommissionPlanError(`Faixas de ${label} repetidas.`);
+  }
+  return tiers;
+}
+
+/** Valida as regras vindas da tela (percentuais em bps: 100 = 1%). */
+export function parsePlanRules(input: unknown): PlanRules {
+  const body = (input ?? {}) as Record<string, unknown>;
+  const taxBasis = String(body.taxBasis || "TEAM_SETTINGS") as CommissionTaxBasis;
+  if (!(taxBasis in TAX_BASIS_LABEL)) throw new CommissionPlanError("Base de imposto inválida.");
+
+  return {
+    c1Tiers: parseTiers(body.c1Tiers, "minPvCents", "C1"),
+    bonusCurve: parseTiers(body.bonusCurve, "minExcessCents", "bônus"),
+    balcaoBps: intIn(body.balcaoBps ?? DEFAULT_PLAN_RULES.balcaoBps, 0, 10000, "Percentual do balcão"),
+    taxBasis,
+    taxPercent: taxBasis === "FIXED" ? intIn(body.taxPercent, 0, 100, "Percentual de imposto") : null,
+  };
+}
+
+/** Regras de uma versão gravada (JSON do banco → tipado; defeituoso cai no padrão). */
+export function planRulesFromRow(row: Pick<CommissionPlan, "c1Tiers" | "bonusCurve" | "balcaoBps" | "taxBasis" | "taxPercent">) {
+  try {
+    return parsePlanRules(row);
+  } catch {
+    return DEFAULT_PLAN_RULES;
+  }
+}
+
+function tierFor<T extends { bps: number }>(tiers: T[], value: number, key: keyof T) {
+  let found = tiers[0];
+  for (const t of tiers) if (value >= Number(t[key])) found = t;
+  return found;
+}
+
+/** C1: % do PV sem taxa pela faixa do PV da venda. */
+export function commissionC1Cents(rules: PlanRules, pvNoFeeCents: number) {
+  const pv = Math.max(0, Math.trunc(pvNoFeeCents || 0));
+  if (!pv) return 0;
+  return Math.round((pv * tierFor(rules.c1Tiers, pv, "minPvCents").bps) / 10000);
+}
+
+/** C2: % do excedente (milheiro sem taxa − meta) × pontos, pela faixa do excedente por milheiro. */
+export function commissionBonusCents(
+  rules: PlanRules,
+  args: { points: number; milheiroCents: number; metaMilheiroCents: number | null | undefined }
+) {
+  const points = Math.trunc(args.points || 0);
+  const meta = Math.trunc(Number(args.metaMilheiroCents ?? 0));
+  if (!meta || points <= 0) return 0;
+
+  const diff = Math.trunc(args.milheiroCents || 0) - meta;
+  if (diff <= 0) return 0;
+
+  const diffTotal = Math.round((points / 1000) * diff);
+  return Math.round((diffTotal * tierFor(rules.bonusCurve, diff, "minExcessCents").bps) / 10000);
+}
+
+/** Comissão do vendedor no balcão sobre o lucro líquido da operação. */
+export function balcaoCommissionCents(rules: PlanRules, netProfitCents: number) {
+  return sellerCommissionCentsFromNet(netProfitCents, rules.balcaoBps / 100);
+}
+
+/** % de imposto descontado do pagamento do funcionário no dia. */
+export function payoutTaxPercent(rules: PlanRules, dateISO: string, taxRule: BalcaoTaxRule) {
+  if (rules.taxBasis === "NONE") return 0;
+  if (rules.taxBasis === "FIXED") return rules.taxPercent ?? 0;
+  return resolveTaxPercent(dateISO, taxRule);
+}
+
+/** PV e milheiro sem taxa da venda (PV gravado > total − taxa > pontos × milheiro). */
+export function saleCommissionBase(s: {
+  points: number;
+  milheiroCents: number;
+  totalCents: number;
+  embarqueFeeCents: number;
+  pointsValueCents: number;
+}) {
+  let pv = Math.trunc(s.pointsValueCents || 0);
+  if (pv <= 0) {
+    pv =
+      s.totalCents > 0
+        ? Math.max(s.totalCents - (s.embarqueFeeCents || 0), 0)
+        : Math.max(0, Math.round(((s.points || 0) / 1000) * (s.milheiroCents || 0)));
+  }
+
+  const denom = (s.points || 0) / 1000;
+  return { pvNoFeeCents: pv, milheiroNoFeeCents: denom > 0 ? Math.round(pv / denom) : 0 };
+}
@@ -1,5 +1,14 @@
 import { prisma } from "@/lib/prisma";
 import type { LoyaltyProgram, Settings } from "@prisma/client";
+import { buildTaxRule } from "@/lib/balcao-commission";
+import { tenantPrisma } from "@/lib/tenant";
+import {
+  commissionBonusCents,
+  commissionC1Cents,
+  loadPlanResolver,
+  payoutTaxPercent,
+  type PlanRules,
+} from "./commissionPlans";
 
 type SessionLike = { userId: string; team: string; role?: string };
 
@@ -27,10 +36,6 @@ export function todayISORecife() {
   return `${map.year}-${map.month}-${map.day}`;
 }
 
-function tax8(cents: number) {
-  return Math.round((cents ?? 0) * 0.08);
-}
-
 function costFromSettings(program: LoyaltyProgram, settings: Settings | null) {
   if (!settings) {
     if (program === "LATAM") return 2000;
@@ -106,30 +111,6 @@ function milheiroNoFeeFromPv(points: number, pvNoFeeCents: number) {
   return Math.round((pvNoFeeCents ?? 0) / denom);
 }
 
-function commission1Fallback(pointsValueNoFeeCents: number) {
-  return Math.round((pointsValueNoFeeCents ?? 0) * 0.01);
-}
-
-/** bônus 30% do excedente acima da meta (milheiro SEM taxa) */
-function bonusFallback(args: {
-  points: number;
-  milheiroNoFeeCents: number;
-  metaMilheiroCents: number | null | undefined;
-}) {
-  const { points, milheiroNoFeeCents, metaMilheiroCents } = args;
-  const meta = Number(metaMilheiroCents ?? 0);
-  if (!meta) return 0;
-
-  const diff = (milheiroNoFeeCents ?? 0) - meta;
-  if (diff <= 0) return 0;
-
-  const denom = (points ?? 0) / 1000;
-  if (denom <= 0) return 0;
-
-  const diffTotal = Math.round(denom * diff);
-  return Math.round(diffTotal * 0.3);
-}
-
 /**
  * ✅ helpers para “default 0” do Prisma
  * Regra:
@@ -142,20 +123,23 @@ function choosePvNoFee(points: number, pvDb: number, milheiroCents: number, feeC
   return 0;
 }
 
-function chooseC1(points: number, c1Db: number, pvNoFee: number) {
+/** C1 gravado na venda > plano de comissão do vendedor */
+function chooseC1(rules: PlanRules, points: number, c1Db: number, pvNoFee: number) {
   if ((c1Db ?? 0) > 0) return c1Db;
-  if ((points ?? 0) > 0 && (pvNoFee ?? 0) > 0) return commission1Fallback(pvNoFee);
+  if ((points ?? 0) > 0 && (pvNoFee ?? 0) > 0) return commissionC1Cents(rules, pvNoFee);
   return 0;
 }
 
+/** C2 gravado na venda > curva de bônus do plano (milheiro SEM taxa) */
 function chooseC2(
+  rules: PlanRules,
   points: number,
   c2Db: number,
   milheiroNoFeeCents: number,
   metaMilheiroCents: number | null | undefined
 ) {
   if ((c2Db ?? 0) > 0) return c2Db;
-  if ((points ?? 0) > 0) return bonusFallback({ points, milheiroNoFeeCents, metaMilheiroCents });
+  if ((points ?? 0) > 0) return commissionBonusCents(rules, { points, milheiroCents: milheiroNoFeeCents, metaMilheiroCents });
   return 0;
 }
 
@@ -186,6 +170,14 @@ function profitForSaleFromPvCents(args: {
 export async function computeEmployeePayoutDay(session: SessionLike, date: string) {
   const { start, end } = dayBounds(date);
   const settings = await prisma.settings.findFirst({});
+  const teamDb = tenantPrisma(session.team);
+  const resolvePlan = await loadPlanResolver(teamDb);
+  const taxRule = buildTaxRule(
+    (await teamDb.settings.findFirst({ select: { taxPercent: true, taxEffectiveFrom: true } })) ?? {
+      taxPercent: 0,
+      taxEffectiveFrom: null,
+    }
+  );
 
   const sales = await prisma.sale.findMany({
     where: {
@@ -196,6 +188,7 @@ export async function computeEmployeePayoutDay(session: SessionLike, date: strin
     select: {
       id: true,
       date: true,
+      createdAt: true,
       program: true,
       points: true,
 
@@ -261,8 +254,11 @@ export async function computeEmployeePayoutDay(session: SessionLike, date: strin
     // ✅ milheiro SEM taxa (para bônus)
     const milheiroNoFee = milheiroNoFeeFromPv(s.points, pvNoFee);
 
-    // ✅ C1: 1% do PV sem taxa
-    const c1 = chooseC1(s.points, s.commissionCents, pvNoFee);
+    // ✅ plano de comissão do vendedor na criação da venda
+    const rules = resolvePlan(sellerId, s.createdAt).rules;
+
+    // ✅ C1: % do PV sem taxa
+    const c1 = chooseC1(rules, s.points, s.commissionCents, pvNoFee);
 
     // ✅ meta do bônus (sale > purchase)
     const meta = chooseMetaMilheiro(
@@ -270,7 +266,7 @@ export async function computeEmployeePayoutDay(session: SessionLike, date: strin
     );
 
     // ✅ C2: bônus calculado sobre milheiro sem taxa
-    const c2 = chooseC2(s.points, s.bonusCents, milheiroNoFee, meta);
+    const c2 = chooseC2(rules, s.points, s.bonusCents, milheiroNoFee, meta);
 
     // ✅ comissão + reembolso taxa -> seller
     if (sellerId) {
@@ -334,7 +330,8 @@ export async function computeEmployeePayoutDay(session: SessionLike, date: strin
     const a = byUser[userId];
     const gross = a.commission1Cents + a.commission2Cents + a.rateioCents;
 
-    const tax = tax8(gross);
+    const taxPercent = payoutTaxPercent(resolvePlan(userId, start).rules, date, taxRule);
+    const tax = Math.round(Math.max(0, gross) * (taxPercent / 100));
     const net = gross - tax + a.feeCents;
 
     await prisma.employeePayout.upsert({
@@ -352,7 +349,7 @@ export async function computeEmployeePayoutDay(session: SessionLike, date: strin
           commission2Cents: a.commission2Cents,
           commission3RateioCents: a.rateioCents,
           salesCount: a.salesCount,
-          taxPercent: 8,
+          taxPercent,
         },
       },
       update: {
@@ -365,7 +362,7 @@ export async function computeEmployeePayoutDay(session: SessionLike, date: strin
           commission2Cents: a.commission2Cents,
           commission3RateioCents: a.rateioCents,
           salesCount: a.salesCount,
-          taxPercent: 8,
+          taxPercent,
         },
       },
     });
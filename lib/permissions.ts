@@ -0,0 +1,187 @@
+// lib/permissions.ts
+// ✅ Matriz de permissões (sem dependência de server: usada pela API e pelo Sidebar)
+
+export const ROLES = ["owner", "admin", "finance", "seller", "viewer"] as const;
+export type Role = (typeof ROLES)[number];
+
+export const ROLE_LABEL: Record<Role, string> = {
+  owner: "Dono",
+  admin: "Admin",
+  finance: "Financeiro",
+  seller: "Vendedor",
+  viewer: "Leitura",
+};
+
+export const PERMISSIONS = [
+  "cedentes.read",
+  "cedentes.write",
+  "cedentes.delete",
+  "cedentes.reconcile",
+  "credentials.reveal",
+  "credentials.rotate",
+  "compras.read",
+  "compras.write",
+  "compras.reopen",
+  "vendas.read",
+  "vendas.write",
+  "clientes.read",
+  "clientes.write",
+  "emissoes.read",
+  "emissoes.write",
+  "protocolos.read",
+  "protocolos.write",
+  "agenda.read",
+  "agenda.write",
+  "analytics.read",
+  "payouts.read",
+  "payouts.write",
+  "taxes.read",
+  "taxes.write",
+  "dividas.read",
+  "dividas.write",
+  "financeiro.read",
+  "financeiro.write",
+  "periodos.reopen",
+  "vip.read",
+  "vip.write",
+  "funcionarios.read",
+  "funcionarios.write",
+  "auditoria.read",
+  "webhooks.manage",
+  "system.manage",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+const READ_ALL = PERMISSIONS.filter((p) => p.endsWith(".read"));
+
+/**
+ * Quem pode o quê.
+ * - owner: tudo
+ * - admin: tudo, menos rotação de chave e manutenção do sistema
+ * - finance: lê tudo, escreve no financeiro (pagamentos, impostos, dívidas, caixa)
+ * - seller: operação do dia a dia (cedentes, compras, vendas, emissões, clientes, VIP)
+ * - viewer: só leitura da operação (sem senhas e sem financeiro)
+ */
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  owner: PERMISSIONS,
+  admin: PERMISSIONS.filter((p) => p !== "credentials.rotate" && p !== "system.manage"),
+  finance: [
+    ...READ_ALL,
+    "payouts.write",
+    "taxes.write",
+    "dividas.write",
+    "financeiro.write",
+  ],
+  seller: [
+    "cedentes.read",
+    "cedentes.write",
+    "credentials.reveal",
+    "compras.read",
+    "compras.write",
+    "vendas.read",
+    "vendas.write",
+    "clientes.read",
+    "clientes.write",
+    "emissoes.read",
+    "emissoes.write",
+    "protocolos.read",
+    "protocolos.write",
+    "agenda.read",
+    "agenda.write",
+    "analytics.read",
+    "payouts.read",
+    "vip.read",
+    "vip.write",
+    "funcionarios.read",
+  ],
+  viewer: [
+    "cedentes.read",
+    "compras.read",
+    "vendas.read",
+    "clientes.read",
+    "emissoes.read",
+    "protocolos.read",
+    "agenda.read",
+    "analytics.read",
+    "funcionarios.read",
+  ],
+};
+
+/** Normaliza o que vem do banco (User.role é String). "staff" = legado de seller. */
+export function normalizeRole(raw: unknown): Role {
+  const r = String(raw ?? "").trim().toLowerCase();
+  if (r === "staff") return "seller";
+  return (ROLES as readonly string[]).includes(r) ? (r as Role) : "viewer";
+}
+
+export function can(role: unknown, permission: Permission) {
+  return ROLE_PERMISSIONS[normalizeRole(role)].includes(permission);
+}
+
+/**
+ * Páginas do dashboard → permissão (prefixo mais longo vence).
+ * Usado pelo Sidebar para esconder o que o usuário não acessa.
+ */
+const PAGE_PERMISSIONS: Array<[string, Permission]> = [
+  ["/dashboard/cedentes", "cedentes.read"],
+  ["/dashboard/cedentes/exclusao-definitiva", "cedentes.delete"],
+  ["/dashboard/cedentes/importar", "cedentes.write"],
+  ["/dashboard/cedentes/novo", "cedentes.write"],
+  ["/dashboard/bloqueios", "cedentes.read"],
+  ["/dashboard/funcionarios", "funcionarios.read"],
+  ["/dashboard/funcionarios/novo", "funcionarios.write"],
+  ["/dashboard/funcionarios/rateio", "payouts.write"],
+  ["/dashboard/clientes", "clientes.read"],
+  ["/dashboard/clientes/novo", "clientes.write"],
+  ["/dashboard/clubes", "cedentes.read"],
+  ["/dashboard/clubes/cobrancas", "compras.read"],
+  ["/dashboard/compras", "compras.read"],
+  ["/dashboard/compras/nova", "compras.write"],
+  ["/dashboard/vendas", "vendas.read"],
+  ["/dashboard/vendas/nova", "vendas.write"],
+  ["/dashboard/check-localizador", "vendas.read"],
+  ["/dashboard/lucros", "financeiro.read"],
+  ["/dashboard/comissoes", "payouts.read"],
+  ["/dashboard/analise-dados", "analytics.read"],
+  ["/dashboard/estrategia-compra", "analytics.read"],
+  ["/dashboard/contas-selecionadas", "analytics.read"],
+  ["/dashboard/protocolos", "protocolos.read"],
+  ["/dashboard/resumo", "financeiro.read"],
+  ["/dashboard/prejuizo", "financeiro.read"],
+  ["/dashboard/caixa-imediato", "financeiro.read"],
+  ["/dashboard/dividas", "dividas.read"],
+  ["/dashboard/dividas-a-receber", "dividas.read"],
+  ["/dashboard/impostos", "taxes.read"],
+  ["/dashboard/conciliacao", "financeiro.read"],
+  ["/dashboard/cartoes", "financeiro.read"],
+  ["/dashboard/dados-contabeis", "financeiro.read"],
+  ["/dashboard/importacoes", "emissoes.write"],
+  ["/dashboard/emissoes", "emissoes.read"],
+  ["/dashboard/emissoes/import-latam", "emissoes.write"],
+  ["/dashboard/painel-emissoes", "emissoes.read"],
+  ["/dashboard/emissoes-balcao", "emissoes.read"],
+  ["/dashboard/agenda", "agenda.read"],
+  ["/dashboard/atualizacao-termos", "cedentes.write"],
+  ["/dashboard/horario-biometria", "cedentes.read"],
+  ["/dashboard/wallet", "financeiro.read"],
+  ["/dashboard/grupo-vip", "vip.read"],
+  ["/dashboard/webhooks", "webhooks.manage"],
+  ["/dashboard/auditoria", "auditoria.read"],
+];
+
+export function pagePermission(href: string): Permission | null {
+  const path = href.split("?")[0];
+  let best: [string, Permission] | null = null;
+  for (const entry of PAGE_PERMISSIONS) {
+    const [prefix] = entry;
+    if (path !== prefix && !path.startsWith(prefix + "/")) continue;
+    if (!best || prefix.length > best[0].length) best = entry;
+  }
+  return best ? best[1] : null;
+}
+
+export function canAccessPage(role: unknown, href: string) {
+  const perm = pagePermission(href);
+  return perm ? can(role, perm) : true;
+}
@@ -0,0 +1,196 @@
+// lib/points-ledger.ts
+import { Prisma, LoyaltyProgram, PointsLedgerSource } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+type Tx = Prisma.TransactionClient;
+
+export type PointsField =
+  | "pontosLatam"
+  | "pontosSmiles"
+  | "pontosLivelo"
+  | "pontosEsfera"
+  | "pontosAzul"
+  | "pontosIberia"
+  | "pontosAA"
+  | "pontosTAP"
+  | "pontosFlyingBlue";
+
+export const POINTS_FIELD: Record<LoyaltyProgram, PointsField> = {
+  LATAM: "pontosLatam",
+  SMILES: "pontosSmiles",
+  LIVELO: "pontosLivelo",
+  ESFERA: "pontosEsfera",
+  AZUL: "pontosAzul",
+  IBERIA: "pontosIberia",
+  AA: "pontosAA",
+  TAP: "pontosTAP",
+  FLYING_BLUE: "pontosFlyingBlue",
+};
+
+export const LEDGER_PROGRAMS = Object.keys(POINTS_FIELD) as LoyaltyProgram[];
+
+export type LedgerMeta = {
+  source: PointsLedgerSource;
+  actorId?: string | null;
+  refType?: string | null;
+  refId?: string | null;
+  note?: string | null;
+};
+
+function asInt(v: unknown) {
+  const n = Number(v);
+  return Number.isFinite(n) ? Math.trunc(n) : 0;
+}
+
+/**
+ * Lança um movimento assinado no extrato e aplica o delta na projeção (Cedente.pontos*).
+ * Deve rodar dentro da mesma transação da operação que originou o movimento.
+ */
+export async function postPointsMovement(
+  tx: Tx,
+  args: LedgerMeta & { cedenteId: string; program: LoyaltyProgram; deltaPoints: number }
+) {
+  const delta = asInt(args.deltaPoints);
+  if (delta === 0) return null;
+
+  const field = POINTS_FIELD[args.program];
+
+  const updated = await tx.cedente.update({
+    where: { id: args.cedenteId },
+    data: { [field]: { increment: delta } },
+    select: { [field]: true },
+  });
+
+  return tx.pointsLedgerEntry.create({
+    data: {
+      cedenteId: args.cedenteId,
+      program: args.program,
+      deltaPoints: delta,
+      balanceAfter: asInt((updated as Record<string, unknown>)[field]),
+      source: args.source,
+      refType: args.refType ?? null,
+      refId: args.refId ?? null,
+      note: args.note ?? null,
+      actorId: args.actorId ?? null,
+    },
+  });
+}
+
+/**
+ * Ajuste para um saldo absoluto (ex: edição manual).
+ * Lança apenas a diferença entre o saldo atual e o novo.
+ */
+export async function setPointsBalances(
+  tx: Tx,
+  cedenteId: string,
+  balances: Partial<Record<LoyaltyProgram, number>>,
+  meta: LedgerMeta
+) {
+  const programs = LEDGER_PROGRAMS.filter((p) => balances[p] !== undefined);
+  if (!programs.length) return [];
+
+  const current = await tx.cedente.findUnique({
+    where: { id: cedenteId },
+    select: Object.fromEntries(programs.map((p) => [POINTS_FIELD[p], true])),
+  });
+  if (!current) throw new Error("Cedente não encontrado.");
+
+  const entries = [];
+  for (const program of programs) {
+    const before = asInt((current as Record<string, unknown>)[POINTS_FIELD[program]]);
+    const after = asInt(balances[program]);
+
+    const entry = await postPointsMovement(tx, {
+      ...meta,
+      cedenteId,
+      program,
+      deltaPoints: after - before,
+    });
+    if (entry) entries.push(entry);
+  }
+
+  return entries;
+}
+
+/** Saldo por programa calculado somando o extrato. */
+export async function ledgerBalances(cedenteId: string, db: Tx = prisma) {
+  const rows = await db.pointsLedgerEntry.groupBy({
+    by: ["program"],
+    where: { cedenteId },
+    _sum: { deltaPoints: true },
+  });
+
+  const out = Object.fromEntries(LEDGER_PROGRAMS.map((p) => [p, 0])) as Record<LoyaltyProgram, number>;
+  for (const r of rows) out[r.program] = asInt(r._sum.deltaPoints);
+  return out;
+}
+
+export type PointsDivergence = {
+  program: LoyaltyProgram;
+  projected: number;
+  ledger: number;
+  diff: number;
+};
+
+/** Compara a projeção (Cedente.pontos*) com a soma do extrato. */
+export async function reconcileCedentePoints(cedenteId: string, db: Tx = prisma) {
+  const ced = await db.cedente.findUnique({
+    where: { id: cedenteId },
+    select: Object.fromEntries(LEDGER_PROGRAMS.map((p) => [POINTS_FIELD[p], true])),
+  });
+  if (!ced) return null;
+
+  const ledger = await ledgerBalances(cedenteId, db);
+
+  const divergences: PointsDivergence[] = [];
+  for (const program of LEDGER_PROGRAMS) {
+    const projected = asInt((ced as Record<string, unknown>)[POINTS_FIELD[program]]);
+    if (projected !== ledger[program]) {
+      divergences.push({ program, projected, ledger: ledger[program], diff: projected - ledger[program] });
+    }
+  }
+
+  return { cedenteId, ledger, divergences };
+}
+
+/**
+ * Reconstrói a projeção a partir do extrato (o extrato é a verdade).
+ * Não gera movimento: apenas regrava Cedente.pontos*.
+ */
+export async function rebuildCedentePoints(tx: Tx, cedenteId: string) {
+  const ledger = await ledgerBalances(cedenteId, tx);
+
+  await tx.cedente.update({
+    where: { id: cedenteId },
+    data: Object.fromEntries(LEDGER_PROGRAMS.map((p) => [POINTS_FIELD[p], ledger[p]])),
+  });
+
+  return ledger;
+}
+
+/**
+ * Caminho inverso: aceita a projeção atual como correta e lança a diferença no extrato,
+ * sem mexer em Cedente.pontos*. Usado no cadastro (saldo inicial) e na conciliação manual.
+ */
+export async function adoptProjectedPoints(tx: Tx, cedenteId: string, meta: LedgerMeta) {
+  const rec = await reconcileCedentePoints(cedenteId, tx);
+  if (!rec) throw new Error("Cedente não encontrado.");
+
+  for (const d of rec.divergences) {
+    await tx.pointsLedgerEntry.create({
+      data: {
+        cedenteId,
+        program: d.program,
+        deltaPoints: d.diff,
+        balanceAfter: d.projected,
+        source: meta.source,
+        refType: meta.refType ?? null,
+        refId: meta.refId ?? null,
+        note: meta.note ?? null,
+        actorId: meta.actorId ?? null,
+      },
+    });
+  }
+
+  return rec.divergences;
+}
@@ -0,0 +1,485 @@
+// lib/points-lots.ts
+import type { CostMethod, LoyaltyProgram, PointsLotSource, Prisma } from "@prisma/client";
+import { LEDGER_PROGRAMS, POINTS_FIELD } from "@/lib/points-ledger";
+import { milheiroValueCents, type RateResolver } from "@/lib/milheiro-rates";
+
+/**
+ * ✅ Lotes de custo dos pontos (por cedente + programa)
+ *
+ * Entrada com custo (item de compra liberado, ajuste de compra) cria um lote
+ * com o que a compra pagou por aqueles pontos. Saída (venda, débito de origem
+ * numa transferência) consome os lotes:
+ * - FIFO: do lote mais antigo para o mais novo
+ * - AVERAGE: proporcional ao saldo de cada lote (custo = média ponderada)
+ *
+ * O CMV da venda é a soma do consumo; pontos sem lote (saldo lançado à mão,
+ * anterior aos lotes) custam pelo fallback (milheiro da compra da venda) e
+ * ficam contados em Sale.cogsUncoveredPoints. Cancelar a venda devolve o
+ * consumo aos mesmos lotes.
+ *
+ * O extrato (lib/points-ledger.ts) continua sendo a verdade do saldo; os lotes
+ * só carregam o custo.
+ */
+
+type Tx = Prisma.TransactionClient;
+
+export class PointsLotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PointsLotError";
+  }
+}
+
+export const COST_METHOD_LABEL: Record<CostMethod, string> = {
+  FIFO: "FIFO (mais antigo primeiro)",
+  AVERAGE: "Média ponderada",
+};
+
+function asInt(v: unknown) {
+  const n = Number(v);
+  return Number.isFinite(n) ? Math.trunc(n) : 0;
+}
+
+/** Custo de N pontos a um custo por milheiro. */
+export function lotCostCents(points: number, costPerMilheiroCents: number) {
+  return Math.round((asInt(points) * asInt(costPerMilheiroCents)) / 1000);
+}
+
+/** Método do time (Settings.costMethod; padrão FIFO). */
+export async function teamCostMethod(tx: Tx): Promise<CostMethod> {
+  const s = await tx.settings.findFirst({ where: { key: "default" }, select: { costMethod: true } });
+  return s?.costMethod ?? "FIFO";
+}
+
+/** Troca o método (vale para as próximas saídas; consumos já feitos não mudam). */
+export async function setTeamCostMethod(tx: Tx, team: string, method: unknown) {
+  if (method !== "FIFO" && method !== "AVERAGE") throw new PointsLotError("Método de custo inválido.");
+  const s = await tx.settings.upsert({
+    where: { team_key: { team, key: "default" } },
+    create: { team, key: "default", costMethod: method },
+    update: { costMethod: method },
+    select: { costMethod: true },
+  });
+  return s.costMethod;
+}
+
+export async function createLot(
+  tx: Tx,
+  args: {
+    team: string;
+    cedenteId: string;
+    program: LoyaltyProgram;
+    source: PointsLotSource;
+    points: number;
+    costPerMilheiroCents: number;
+    acquiredAt: Date;
+    purchaseId?: string | null;
+    purchaseItemId?: string | null;
+    note?: string | null;
+  }
+) {
+  const points = asInt(args.points);
+  if (points <= 0) return null;
+
+  return tx.pointsLot.create({
+    data: {
+      team: args.team,
+      cedenteId: args.cedenteId,
+      program: args.program,
+      source: args.source,
+      purchaseId: args.purchaseId ?? null,
+      purchaseItemId: args.purchaseItemId ?? null,
+      acquiredAt: args.acquiredAt,
+      pointsIn: points,
+      pointsRemaining: points,
+      costPerMilheiroCents: Math.max(0, asInt(args.costPerMilheiroCents)),
+      note: args.note ?? null,
+    },
+  });
+}
+
+type OpenLot = { id: string; pointsRemaining: number; costPerMilheiroCents: number };
+
+/** Divide N pontos entre os lotes conforme o método (pontos por lote, na ordem dos lotes). */
+function allocate(lots: OpenLot[], points: number, method: CostMethod) {
+  const out: Array<{ lot: OpenLot; points: number }> = [];
+  let left = points;
+
+  if (method === "FIFO") {
+    for (const lot of lots) {
+      if (left <= 0) break;
+      const take = Math.min(left, lot.pointsRemaining);
+      out.push({ lot, points: take });
+      left -= take;
+    }
+    return out;
+  }
+
+  // média ponderada: proporcional ao saldo de cada lote (maiores restos levam a sobra)
+  const total = lots.reduce((a, l) => a + l.pointsRemaining, 0);
+  const want = Math.min(points, total);
+  if (want <= 0) return out;
+
+  const shares = lots.map((lot) => {
+    const exact = (lot.pointsRemaining * want) / total;
+    return { lot, points: Math.floor(exact), rest: exact - Math.floor(exact) };
+  });
+  let rest = want - shares.reduce((a, s) => a + s.points, 0);
+  for (const s of [...shares].sort((a, b) => b.rest - a.rest)) {
+    if (rest <= 0) break;
+    if (s.points < s.lot.pointsRemaining) {
+      s.points += 1;
+      rest -= 1;
+    }
+  }
+  return shares.filter((s) => s.points > 0).map((s) => ({ lot: s.lot, points: s.points }));
+}
+
+/**
+ * Consome pontos dos lotes do cedente/programa. Devolve o custo dos pontos
+ * cobertos e quantos pontos ficaram sem lote.
+ */
+export async function consumeLots(
+  tx: Tx,
+  args: {
+    team: string;
+    cedenteId: string;
+    program: LoyaltyProgram;
+    points: number;
+    saleId?: string | null;
+    refType?: string | null;
+    refId?: string | null;
+    method?: CostMethod;
+    lotIds?: string[]; // só estes lotes (ex.: os da própria compra)
+  }
+) {
+  const points = asInt(args.points);
+  const method = args.method ?? (await teamCostMethod(tx));
+  if (points <= 0 || args.lotIds?.length === 0) {
+    return { costCents: 0, coveredPoints: 0, uncoveredPoints: Math.max(0, points), method };
+  }
+
+  const lots = await tx.pointsLot.findMany({
+    where: {
+      cedenteId: args.cedenteId,
+      program: args.program,
+      pointsRemaining: { gt: 0 },
+      ...(args.lotIds ? { id: { in: args.lotIds } } : {}),
+    },
+    orderBy: [{ acquiredAt: "asc" }, { createdAt: "asc" }],
+    select: { id: true, pointsRemaining: true, costPerMilheiroCents: true },
+  });
+
+  let costCents = 0;
+  let coveredPoints = 0;
+
+  for (const slice of allocate(lots, points, method)) {
+    const sliceCost = lotCostCents(slice.points, slice.lot.costPerMilheiroCents);
+
+    await tx.pointsLot.update({
+      where: { id: slice.lot.id },
+      data: { pointsRemaining: { decrement: slice.points } },
+    });
+    await tx.pointsLotConsumption.create({
+      data: {
+        team: args.team,
+        lotId: slice.lot.id,
+        saleId: args.saleId ?? null,
+        refType: args.refType ?? null,
+        refId: args.refId ?? null,
+        points: slice.points,
+        costCents: sliceCost,
+        method,
+      },
+    });
+
+    costCents += sliceCost;
+    coveredPoints += slice.points;
+  }
+
+  return { costCents, coveredPoints, uncoveredPoints: points - coveredPoints, method };
+}
+
+/**
+ * CMV da venda: consome os lotes e grava Sale.cogsCents. Pontos sem lote
+ * custam `fallbackCostPerMilheiroCents` (milheiro de custo da compra da venda).
+ */
+export async function applySaleCogs(
+  tx: Tx,
+  args: {
+    team: string;
+    saleId: string;
+    cedenteId: string;
+    program: LoyaltyProgram;
+    points: number;
+    fallbackCostPerMilheiroCents: number;
+  }
+) {
+  const consumed = await consumeLots(tx, {
+    team: args.team,
+    cedenteId: args.cedenteId,
+    program: args.program,
+    points: args.points,
+    saleId: args.saleId,
+  });
+
+  const cogsCents = consumed.costCents + lotCostCents(consumed.uncoveredPoints, args.fallbackCostPerMilheiroCents);
+
+  await tx.sale.update({
+    where: { id: args.saleId },
+    data: { cogsCents, cogsUncoveredPoints: consumed.uncoveredPoints },
+  });
+
+  return { ...consumed, cogsCents };
+}
+
+/** Devolve aos lotes o que a venda consumiu (cancelamento com pontos de volta). */
+export async function reverseSaleConsumption(tx: Tx, saleId: string) {
+  const rows = await tx.pointsLotConsumption.findMany({
+    where: { saleId, reversedAt: null },
+    select: { id: true, lotId: true, points: true },
+  });
+
+  const now = new Date();
+  for (const r of rows) {
+    await tx.pointsLot.update({ where: { id: r.lotId }, data: { pointsRemaining: { increment: r.points } } });
+    await tx.pointsLotConsumption.update({ where: { id: r.id }, data: { reversedAt: now } });
+  }
+
+  return rows.reduce((a, r) => a + r.points, 0);
+}
+
+type ReleasedItem = {
+  id: string;
+  status: string;
+  programFrom: LoyaltyProgram | null;
+  programTo: LoyaltyProgram | null;
+  pointsFinal: number;
+  pointsDebitedFromOrigin: number;
+  amountCents: number;
+  title: string;
+  createdAt: Date;
+};
+
+/** Divide `total` entre os pesos (maiores restos levam a sobra): a soma fecha exata. */
+function splitByWeight(total: number, weights: number[]) {
+  const sum = weights.reduce((a, w) => a + w, 0);
+  if (total <= 0 || sum <= 0) return weights.map(() => 0);
+
+  const shares = weights.map((w) => {
+    const exact = (total * w) / sum;
+    return { value: Math.floor(exact), rest: exact - Math.floor(exact) };
+  });
+  let left = total - shares.reduce((a, s) => a + s.value, 0);
+  for (const s of [...shares].sort((x, y) => y.rest - x.rest)) {
+    if (left <= 0) break;
+    s.value += 1;
+    left -= 1;
+  }
+  return shares.map((s) => s.value);
+}
+
+/**
+ * Liberação da compra: os itens rodam em ordem (entradas antes das
+ * transferências) e o custo acompanha os pontos.
+ *
+ * - custo de cada item = sua parte do total da compra (pelo valor do item;
+ *   taxa do cedente e comissão entram na proporção)
+ * - débito de origem (transferência) consome primeiro os lotes que a própria
+ *   compra acabou de criar naquele programa, depois os lotes antigos
+ * - o lote de destino custa a parte do item + o custo consumido na origem
+ *
+ * Assim só sobra lote onde os pontos ficaram, e o total da compra entra uma
+ * vez no estoque (compra + transferência não duplica).
+ */
+export async function createPurchaseLots(
+  tx: Tx,
+  args: {
+    team: string;
+    purchase: { id: string; numero: string; cedenteId: string; totalCents: number };
+    items: ReleasedItem[];
+    acquiredAt: Date;
+  }
+) {
+  const { purchase } = args;
+  const method = await teamCostMethod(tx);
+
+  // entradas puras primeiro; transferências na ordem em que foram lançadas
+  const items = args.items
+    .filter((it) => it.status !== "CANCELED")
+    .sort(
+      (a, b) =>
+        Number(Boolean(a.programFrom)) - Number(Boolean(b.programFrom)) || a.createdAt.getTime() - b.createdAt.getTime()
+    );
+
+  // sem valor nos itens (só taxa/comissão): rateia pelos pontos que entram
+  const byAmount = items.map((it) => Math.max(0, asInt(it.amountCents)));
+  const weights = byAmount.some((w) => w > 0)
+    ? byAmount
+    : items.map((it) => (it.programTo ? Math.max(0, asInt(it.pointsFinal)) : 0));
+  const itemCost = splitByWeight(Math.max(0, asInt(purchase.totalCents)), weights);
+
+  const ownLots = new Map<LoyaltyProgram, string[]>();
+  const lots = [];
+
+  for (const [i, it] of items.entries()) {
+    let carriedCents = 0;
+
+    const debited = asInt(it.pointsDebitedFromOrigin);
+    if (it.programFrom && debited > 0) {
+      const ref = { team: args.team, cedenteId: purchase.cedenteId, program: it.programFrom, refType: "PURCHASE", refId: purchase.id };
+      const own = await consumeLots(tx, { ...ref, points: debited, method: "FIFO", lotIds: ownLots.get(it.programFrom) ?? [] });
+      const older = await consumeLots(tx, { ...ref, points: own.uncoveredPoints, method });
+      carriedCents = own.costCents + older.costCents;
+    }
+
+    const points = asInt(it.pointsFinal);
+    if (!it.programTo || points <= 0) continue;
+
+    const costCents = itemCost[i] + carriedCents;
+    const lot = await createLot(tx, {
+      team: args.team,
+      cedenteId: purchase.cedenteId,
+      program: it.programTo,
+      source: "PURCHASE",
+      points,
+      costPerMilheiroCents: Math.round((costCents * 1000) / points),
+      acquiredAt: args.acquiredAt,
+      purchaseId: purchase.id,
+      purchaseItemId: it.id,
+      note: `Compra ${purchase.numero} • ${it.title}`,
+    });
+    if (!lot) continue;
+
+    ownLots.set(it.programTo, [...(ownLots.get(it.programTo) ?? []), lot.id]);
+    lots.push(lot);
+  }
+
+  // devolve os lotes como ficaram (os intermediários podem ter sido consumidos)
+  return tx.pointsLot.findMany({ where: { id: { in: lots.map((l) => l.id) } }, orderBy: { createdAt: "asc" } });
+}
+
+export type StockRow = {
+  cedenteId: string;
+  program: LoyaltyProgram;
+  balancePoints: number; // saldo do cedente (Cedente.pontos*)
+  lotPoints: number; // pontos com lote (limitado ao saldo)
+  costCents: number; // custo dos lotes restantes (limitado ao saldo)
+  untrackedPoints: number; // saldo sem lote
+};
+
+/**
+ * Estoque a custo por cedente/programa. Se o saldo caiu por ajuste manual
+ * (sem consumir lote), vale o saldo: descarta os lotes mais antigos primeiro.
+ */
+export function valueStock(
+  balances: Array<{ cedenteId: string; program: LoyaltyProgram; points: number }>,
+  lots: Array<{ cedenteId: string; program: LoyaltyProgram; acquiredAt: Date; pointsRemaining: number; costPerMilheiroCents: number }>
+): StockRow[] {
+  const byKey = new Map<string, typeof lots>();
+  for (const l of lots) {
+    const key = `${l.cedenteId}|${l.program}`;
+    const list = byKey.get(key) ?? [];
+    list.push(l);
+    byKey.set(key, list);
+  }
+
+  return balances.map((b) => {
+    const balance = Math.max(0, asInt(b.points));
+    // mais novos primeiro: são os que sobram quando o saldo é menor que os lotes
+    const list = [...(byKey.get(`${b.cedenteId}|${b.program}`) ?? [])].sort(
+      (x, y) => y.acquiredAt.getTime() - x.acquiredAt.getTime()
+    );
+
+    let left = balance;
+    let lotPoints = 0;
+    let costCents = 0;
+    for (const l of list) {
+      if (left <= 0) break;
+      const take = Math.min(left, l.pointsRemaining);
+      lotPoints += take;
+      costCents += lotCostCents(take, l.costPerMilheiroCents);
+      left -= take;
+    }
+
+    return {
+      cedenteId: b.cedenteId,
+      program: b.program,
+      balancePoints: balance,
+      lotPoints,
+      costCents,
+      untrackedPoints: balance - lotPoints,
+    };
+  });
+}
+
+/**
+ * Estoque do time: custo (lotes) x mercado (milheiro vigente) por
+ * cedente/programa, e totais por programa. Pontos sem lote entram no custo
+ * pelo milheiro de mercado (não há custo conhecido).
+ */
+export async function loadStockValuation(tx: Tx, resolveRate: RateResolver, at: Date = new Date()) {
+  const [cedentes, lots] = await Promise.all([
+    tx.cedente.findMany({
+      select: {
+        id: true,
+        identificador: true,
+        nomeCompleto: true,
+        pontosLatam: true,
+        pontosSmiles: true,
+        pontosLivelo: true,
+        pontosEsfera: true,
+        pontosAzul: true,
+        pontosIberia: true,
+        pontosAA: true,
+        pontosTAP: true,
+        pontosFlyingBlue: true,
+      },
+    }),
+    tx.pointsLot.findMany({
+      where: { pointsRemaining: { gt: 0 } },
+      select: { cedenteId: true, program: true, acquiredAt: true, pointsRemaining: true, costPerMilheiroCents: true },
+    }),
+  ]);
+
+  const balances = cedentes.flatMap((c) =>
+    LEDGER_PROGRAMS.map((program) => ({ cedenteId: c.id, program, points: c[POINTS_FIELD[program]] }))
+  );
+  const byId = new Map(cedentes.map((c) => [c.id, c]));
+
+  const rows = valueStock(balances, lots)
+    .filter((r) => r.balancePoints > 0)
+    .map((r) => {
+      const rateCents = resolveRate(r.program, at).sellRateCents;
+      const untrackedValueCents = milheiroValueCents(r.untrackedPoints, rateCents);
+      const ced = byId.get(r.cedenteId);
+      return {
+        ...r,
+        cedente: { id: r.cedenteId, identificador: ced?.identificador ?? "", nomeCompleto: ced?.nomeCompleto ?? "" },
+        avgCostPerMilheiroCents: r.lotPoints > 0 ? Math.round((r.costCents * 1000) / r.lotPoints) : 0,
+        bookValueCents: r.costCents + untrackedValueCents,
+        marketValueCents: milheiroValueCents(r.balancePoints, rateCents),
+      };
+    });
+
+  const programs = LEDGER_PROGRAMS.map((program) => {
+    const list = rows.filter((r) => r.program === program);
+    const sum = (k: "balancePoints" | "lotPoints" | "costCents" | "untrackedPoints" | "bookValueCents" | "marketValueCents") =>
+      list.reduce((a, r) => a + r[k], 0);
+    const lotPoints = sum("lotPoints");
+    const costCents = sum("costCents");
+    return {
+      program,
+      balancePoints: sum("balancePoints"),
+      lotPoints,
+      costCents,
+      untrackedPoints: sum("untrackedPoints"),
+      avgCostPerMilheiroCents: lotPoints > 0 ? Math.round((costCents * 1000) / lotPoints) : 0,
+      bookValueCents: sum("bookValueCents"),
+      marketValueCents: sum("marketValueCents"),
+      rateCents: resolveRate(program, at).sellRateCents,
+    };
+  });
+
+  return { rows, programs };
+}
@@ -0,0 +1,353 @@
+// lib/protocolos.ts
+import { randomUUID } from "node:crypto";
+import type { Prisma, ProtocolChannel, ProtocolStatus } from "@prisma/client";
+import { getStorageProvider } from "@/lib/storage";
+
+/**
+ * ✅ Acompanhamento de protocolos (reclamações na CIA)
+ *
+ * - número externo (o que a CIA devolve) e canal: SAC → Reclame Aqui → Consumidor.gov
+ * - prazo de resposta: ao enviar, se não informado, envio + prazo padrão do canal
+ * - log de status: toda transição vira uma linha (de → para, quem, quando)
+ * - escalonar: abre um protocolo novo no próximo canal, apontando para o anterior
+ * - atrasado: SENT/WAITING com prazo vencido e ainda não escalonado
+ * - anexos (prints, PDFs) no storage configurado (lib/storage)
+ */
+
+// client do time (tenantPrisma) ou `tx` de uma transaction dele
+type Db = Prisma.TransactionClient;
+
+export class ProtocolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProtocolError";
+  }
+}
+
+export const PROTOCOL_CHANNELS = ["SAC", "RECLAME_AQUI", "CONSUMIDOR_GOV"] as const satisfies readonly ProtocolChannel[];
+
+export const CHANNEL_LABEL: Record<ProtocolChannel, string> = {
+  SAC: "SAC da CIA",
+  RECLAME_AQUI: "Reclame Aqui",
+  CONSUMIDOR_GOV: "Consumidor.gov",
+};
+
+/** Prazo padrão (dias corridos) para a resposta, por canal. */
+export const CHANNEL_DUE_DAYS: Record<ProtocolChannel, number> = {
+  SAC: 5,
+  RECLAME_AQUI: 10,
+  CONSUMIDOR_GOV: 10,
+};
+
+/** Próximo canal ao escalonar (null = último degrau). */
+export const NEXT_CHANNEL: Record<ProtocolChannel, ProtocolChannel | null> = {
+  SAC: "RECLAME_AQUI",
+  RECLAME_AQUI: "CONSUMIDOR_GOV",
+  CONSUMIDOR_GOV: null,
+};
+
+export const PROTOCOL_STATUSES = ["DRAFT", "SENT", "WAITING", "RESOLVED", "DENIED"] as const satisfies readonly ProtocolStatus[];
+
+const CLOSED = new Set<ProtocolStatus>(["RESOLVED", "DENIED"]);
+const AWAITING = ["SENT", "WAITING"] as const satisfies readonly ProtocolStatus[];
+
+/**
+ * Transições aceitas. Enviado não volta a rascunho; fechado só reabre
+ * como WAITING (a CIA voltou atrás / reabriu o caso).
+ */
+const TRANSITIONS: Record<ProtocolStatus, ProtocolStatus[]> = {
+  DRAFT: ["SENT"],
+  SENT: ["WAITING", "RESOLVED", "DENIED"],
+  WAITING: ["SENT", "RESOLVED", "DENIED"],
+  RESOLVED: ["WAITING"],
+  DENIED: ["WAITING"],
+};
+
+export function isProtocolChannel(v: unknown): v is ProtocolChannel {
+  return (PROTOCOL_CHANNELS as readonly string[]).includes(String(v));
+}
+
+export function isProtocolStatus(v: unknown): v is ProtocolStatus {
+  return (PROTOCOL_STATUSES as readonly string[]).includes(String(v));
+}
+
+/** Canal informado → enum (vazio = sem canal). */
+export function parseChannel(raw: unknown) {
+  const v = String(raw ?? "").trim().toUpperCase();
+  if (!v) return null;
+  if (!isProtocolChannel(v)) throw new ProtocolError("Canal inválido.");
+  return v;
+}
+
+/** Data informada (YYYY-MM-DD ou ISO) → Date (vazio = null). */
+export function parseDateInput(raw: unknown, label: string) {
+  const v = String(raw ?? "").trim();
+  if (!v) return null;
+  const d = new Date(/^\d{4}-\d{2}-\d{2}$/.test(v) ? `${v}T23:59:59` : v);
+  if (Number.isNaN(d.getTime())) throw new ProtocolError(`${label} inválido(a).`);
+  return d;
+}
+
+const DAY_MS = 24 * 3600_000;
+
+export function defaultDueAt(channel: ProtocolChannel | null, from: Date) {
+  return new Date(from.getTime() + CHANNEL_DUE_DAYS[channel ?? "SAC"] * DAY_MS);
+}
+
+type StatusState = {
+  status: ProtocolStatus;
+  channel: ProtocolChannel | null;
+  sentAt: Date | null;
+  dueAt: Date | null;
+};
+
+/**
+ * Campos que mudam junto com o status (sentAt/dueAt/closedAt).
+ * Valida a transição; mesmo status não é transição (devolve null).
+ */
+export function statusChangeData(current: StatusState, to: ProtocolStatus, now: Date = new Date()) {
+  if (to === current.status) return null;
+  if (!TRANSITIONS[current.status].includes(to)) {
+    throw new ProtocolError(`Transição inválida: ${current.status} → ${to}.`);
+  }
+
+  const data: Prisma.ProtocolUncheckedUpdateInput = { status: to };
+
+  if (to === "SENT" && !current.sentAt) {
+    data.sentAt = now;
+    if (!current.dueAt) data.dueAt = defaultDueAt(current.channel, now);
+  }
+  data.closedAt = CLOSED.has(to) ? now : null;
+
+  return data;
+}
+
+export async function logProtocolStatus(
+  db: Db,
+  args: {
+    team: string;
+    protocolId: string;
+    from: ProtocolStatus | null;
+    to: ProtocolStatus;
+    changedById: string | null;
+    note?: string | null;
+  }
+) {
+  return db.protocolStatusLog.create({
+    data: {
+      team: args.team,
+      protocolId: args.protocolId,
+      fromStatus: args.from,
+      toStatus: args.to,
+      note: args.note ? args.note.slice(0, 300) : null,
+      changedById: args.changedById,
+    },
+  });
+}
+
+/** Campos de acompanhamento no select das telas/rotas. */
+export const PROTOCOL_TRACKING_SELECT = {
+  externalNumber: true,
+  channel: true,
+  sentAt: true,
+  dueAt: true,
+  closedAt: true,
+  escalatedAt: true,
+  escalatedFromId: true,
+} satisfies Prisma.ProtocolSelect;
+
+export function isOverdue(
+  p: { status: ProtocolStatus; dueAt: Date | null; escalatedAt: Date | null },
+  now: Date = new Date()
+) {
+  return (AWAITING as readonly ProtocolStatus[]).includes(p.status) && !!p.dueAt && p.dueAt < now && !p.escalatedAt;
+}
+
+export function daysOverdue(dueAt: Date | null, now: Date = new Date()) {
+  return dueAt ? Math.max(0, Math.floor((now.getTime() - dueAt.getTime()) / DAY_MS)) : 0;
+}
+
+/** Protocolos atrasados do time (todos os programas), mais antigos primeiro. */
+export async function loadOverdueProtocols(db: Db, now: Date = new Date()) {
+  const rows = await db.protocol.findMany({
+    where: { status: { in: [...AWAITING] }, dueAt: { lt: now }, escalatedAt: null },
+    orderBy: { dueAt: "asc" },
+    take: 200,
+    select: {
+      id: true,
+      program: true,
+      status: true,
+      title: true,
+      ...PROTOCOL_TRACKING_SELECT,
+      cedente: { select: { id: true, identificador: true, nomeCompleto: true } },
+    },
+  });
+
+  return rows.map((r) => ({
+    ...r,
+    daysOverdue: daysOverdue(r.dueAt, now),
+    nextChannel: NEXT_CHANNEL[r.channel ?? "SAC"],
+  }));
+}
+
+/**
+ * Escalona: marca o protocolo atual como escalonado e abre um novo (DRAFT)
+ * no próximo canal, com a mesma reclamação e o mesmo bloqueio vinculado.
+ * O atual continua aberto — a CIA ainda pode responder por ele.
+ */
+export async function escalateProtocol(
+  db: Db,
+  args: { team: string; protocolId: string; userId: string; note?: string | null; now?: Date }
+) {
+  const now = args.now ?? new Date();
+
+  const current = await db.protocol.findUnique({
+    where: { id: args.protocolId },
+    select: {
+      id: true,
+      program: true,
+      status: true,
+      title: true,
+      complaint: true,
+      channel: true,
+      externalNumber: true,
+      escalatedAt: true,
+      cedenteId: true,
+      blockedAccountId: true,
+    },
+  });
+  if (!current) throw new ProtocolError("Protocolo não encontrado.");
+  if (!(AWAITING as readonly ProtocolStatus[]).includes(current.status)) {
+    throw new ProtocolError("Só dá para escalonar protocolo enviado/aguardando.");
+  }
+  if (current.escalatedAt) throw new ProtocolError("Protocolo já foi escalonado.");
+
+  const next = NEXT_CHANNEL[current.channel ?? "SAC"];
+  if (!next) throw new ProtocolError("Não há canal acima de Consumidor.gov.");
+
+  const ref = current.externalNumber ? ` (protocolo ${current.externalNumber})` : "";
+  const header = `Escalonado de ${CHANNEL_LABEL[current.channel ?? "SAC"]}${ref} sem resposta no prazo.`;
+
+  await db.protocol.update({
+    where: { id: current.id },
+    data: { escalatedAt: now, updatedById: args.userId },
+  });
+
+  const created = await db.protocol.create({
+    data: {
+      team: args.team,
+      program: current.program,
+      status: "DRAFT",
+      channel: next,
+      title: `${current.title || "Protocolo"} — ${CHANNEL_LABEL[next]}`.slice(0, 120),
+      complaint: `${header}\n\n${current.complaint}`,
+      cedenteId: current.cedenteId,
+      blockedAccountId: current.blockedAccountId,
+      escalatedFromId: current.id,
+      createdById: args.userId,
+      updatedById: args.userId,
+    },
+    select: { id: true, channel: true },
+  });
+
+  await logProtocolStatus(db, {
+    team: args.team,
+    protocolId: created.id,
+    from: null,
+    to: "DRAFT",
+    changedById: args.userId,
+    note: args.note || header,
+  });
+
+  return created;
+}
+
+/* =========================
+   Anexos
+========================= */
+
+export const ATTACHMENT_MAX_BYTES = 8 * 1024 * 1024;
+
+const ATTACHMENT_TYPES = new Set([
+  "application/pdf",
+  "image/png",
+  "image/jpeg",
+  "image/webp",
+  "image/gif",
+]);
+
+export const ATTACHMENT_SELECT = {
+  id: true,
+  fileName: true,
+  contentType: true,
+  sizeBytes: true,
+  createdAt: true,
+  uploadedBy: { select: { id: true, name: true } },
+} satisfies Prisma.ProtocolAttachmentSelect;
+
+function safeFileName(name: string) {
+  const clean = name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\w.-]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+  return (clean || "anexo").slice(-120);
+}
+
+/** Grava o arquivo no storage e registra o anexo (se o registro falhar, apaga o arquivo). */
+export async function saveProtocolAttachment(
+  db: Db,
+  args: { team: string; protocolId: string; userId: string; file: File }
+) {
+  const { file } = args;
+  const contentType = String(file.type || "").toLowerCase();
+  if (!ATTACHMENT_TYPES.has(contentType)) throw new ProtocolError("Tipo não aceito (só PDF ou imagem).");
+  if (!file.size) throw new ProtocolError("Arquivo vazio.");
+  if (file.size > ATTACHMENT_MAX_BYTES) throw new ProtocolError("Arquivo muito grande (máx. 8 MB).");
+
+  const storage = getStorageProvider();
+  const fileName = (file.name || "anexo").slice(0, 200);
+  const key = `protocolos/${args.team}/${args.protocolId}/${randomUUID()}-${safeFileName(fileName)}`;
+
+  await storage.put(key, Buffer.from(await file.arrayBuffer()), contentType);
+
+  try {
+    return await db.protocolAttachment.create({
+      data: {
+        team: args.team,
+        protocolId: args.protocolId,
+        fileName,
+        contentType,
+        sizeBytes: file.size,
+        storage: storage.name,
+        storageKey: key,
+        uploadedById: args.userId,
+      },
+      select: ATTACHMENT_SELECT,
+    });
+  } catch (e) {
+    await storage.delete(key).catch(() => null);
+    throw e;
+  }
+}
+
+/** Lê o arquivo do provider onde ele foi salvo. */
+export async function readProtocolAttachment(row: { storage: string; storageKey: string }) {
+  return getStorageProvider(row.storage).get(row.storageKey);
+}
+
+/** Remove o registro e depois o arquivo (arquivo órfão é melhor que anexo quebrado). */
+export async function removeProtocolAttachment(db: Db, args: { protocolId: string; attachmentId: string }) {
+  const row = await db.protocolAttachment.findFirst({
+    where: { id: args.attachmentId, protocolId: args.protocolId },
+    select: { id: true, storage: true, storageKey: true },
+  });
+  if (!row) return false;
+
+  await db.protocolAttachment.delete({ where: { id: row.id } });
+  await getStorageProvider(row.storage)
+    .delete(row.storageKey)
+    .catch((e) => console.error("[protocolos] falha ao apagar arquivo do anexo", e));
+
+  return true;
+}
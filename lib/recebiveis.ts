@@ -0,0 +1,523 @@
+import type { InstallmentStatus, Prisma } from "@prisma/client";
+import { recifeDateISO } from "@/lib/taxes";
+import { buildWhatsAppLink, normalizeBRPhoneToE164 } from "@/lib/whatsapp";
+
+/**
+ * ✅ Recebíveis parcelados
+ *
+ * O recebível da venda tem um plano de N parcelas (padrão: 1, vencendo na data
+ * da venda). Cada Receipt é alocado nas parcelas em aberto por ordem de
+ * vencimento (ReceiptAllocation). Quitou o total → recebível RECEIVED e venda
+ * PAID (mesma regra do PATCH /api/vendas/status).
+ *
+ * Aging por cliente: a vencer / 0-30 / 31-60 / 60+ dias de atraso, sobre o saldo
+ * das parcelas em aberto. Parcelas vencidas aparecem em /dashboard/recebimentos
+ * com link de cobrança no WhatsApp do cliente.
+ */
+
+// client do time (tenantPrisma) ou `tx` de uma transaction dele
+type Db = Prisma.TransactionClient;
+
+export class ReceivableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReceivableError";
+  }
+}
+
+export const INSTALLMENT_STATUS_LABEL: Record<InstallmentStatus, string> = {
+  OPEN: "Em aberto",
+  PARTIAL: "Parcial",
+  PAID: "Paga",
+  CANCELED: "Cancelada",
+};
+
+export const MAX_INSTALLMENTS = 36;
+
+const OPEN_STATUSES: InstallmentStatus[] = ["OPEN", "PARTIAL"];
+
+export type PlanItem = { number: number; dueDate: Date; amountCents: number };
+
+/** "YYYY-MM-DD" → meio-dia UTC (não muda de dia em nenhum fuso do Brasil). */
+export function dueDateFromISO(iso: string): Date | null {
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(String(iso || "").trim());
+  if (!m) return null;
+  const d = new Date(Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3]), 12, 0, 0, 0));
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+function addMonthsClamped(base: Date, months: number) {
+  const y = base.getUTCFullYear();
+  const m = base.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(y, m + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(y, m, Math.min(base.getUTCDate(), lastDay), 12, 0, 0, 0));
+}
+
+/**
+ * Plano com `count` parcelas iguais (os centavos que sobram vão nas primeiras).
+ * Vencimentos mensais a partir de `firstDueDate` ou a cada `intervalDays`.
+ */
+export function buildPlan(
+  totalCents: number,
+  args: { count: number; firstDueDate: Date; intervalDays?: number | null }
+): PlanItem[] {
+  const count = Math.trunc(args.count);
+  if (!Number.isFinite(count) || count < 1 || count > MAX_INSTALLMENTS) {
+    throw new ReceivableError(`Número de parcelas inválido (1 a ${MAX_INSTALLMENTS}).`);
+  }
+  if (totalCents < count) throw new ReceivableError("Valor menor que o número de parcelas.");
+
+  const base = Math.floor(totalCents / count);
+  const rest = totalCents - base * count;
+  const interval = args.intervalDays && args.intervalDays > 0 ? Math.trunc(args.intervalDays) : null;
+
+  return Array.from({ length: count }, (_, i) => ({
+    number: i + 1,
+    dueDate: interval
+      ? new Date(args.firstDueDate.getTime() + i * interval * 86_400_000)
+      : addMonthsClamped(args.firstDueDate, i),
+    amountCents: base + (i < rest ? 1 : 0),
+  }));
+}
+
+/**
+ * Plano a partir do body das rotas: { installments?, firstDueDate?, intervalDays? }.
+ * Sem nada → 1 parcela vencendo em `fallbackDueISO` (data da venda / hoje).
+ */
+export function planFromInput(
+  totalCents: number,
+  input: { installments?: unknown; firstDueDate?: unknown; intervalDays?: unknown },
+  fallbackDueISO: string
+) {
+  const count = input.installments === undefined || input.installments === null ? 1 : Number(input.installments);
+  const firstDueDate =
+    dueDateFromISO(String(input.firstDueDate || "")) ??
+    dueDateFromISO(fallbackDueISO) ??
+    dueDateFromISO(recifeDateISO(new Date()));
+  if (!firstDueDate) throw new ReceivableError("Vencimento inválido.");
+  return buildPlan(totalCents, { count, firstDueDate, intervalDays: Number(input.intervalDays) || null });
+}
+
+function installmentStatus(amountCents: number, paidCents: number): InstallmentStatus {
+  if (paidCents >= amountCents) return "PAID";
+  return paidCents > 0 ? "PARTIAL" : "OPEN";
+}
+
+type OpenInstallment = { id: string; amountCents: number; paidCents: number };
+
+/** Distribui `amountCents` nas parcelas (já ordenadas por vencimento). Muta `paidCents`. */
+function allocate(installments: OpenInstallment[], amountCents: number) {
+  const out: { installmentId: string; amountCents: number }[] = [];
+  let left = amountCents;
+  for (const i of installments) {
+    if (left <= 0) break;
+    const open = i.amountCents - i.paidCents;
+    if (open <= 0) continue;
+    const take = Math.min(open, left);
+    i.paidCents += take;
+    left -= take;
+    out.push({ installmentId: i.id, amountCents: take });
+  }
+  return out;
+}
+
+async function saveInstallments(db: Db, rows: OpenInstallment[], paidAt: Date) {
+  for (const r of rows) {
+    const status = installmentStatus(r.amountCents, r.paidCents);
+    await db.receivableInstallment.update({
+      where: { id: r.id },
+      data: { paidCents: r.paidCents, status, paidAt: status === "PAID" ? paidAt : null },
+    });
+  }
+}
+
+/** Quitou tudo → venda paga (se ainda estava pendente). */
+async function markSalePaidIfSettled(db: Db, receivableId: string, balanceCents: number, at: Date) {
+  if (balanceCents > 0) return false;
+  const sale = await db.sale.findFirst({
+    where: { receivableId, paymentStatus: "PENDING" },
+    select: { id: true },
+  });
+  if (!sale) return false;
+  await db.sale.update({ where: { id: sale.id }, data: { paymentStatus: "PAID", paidAt: at } });
+  return true;
+}
+
+/**
+ * Registra um recebimento: cria o Receipt, aloca nas parcelas por ordem de
+ * vencimento e atualiza o saldo do recebível (e da venda, se quitou).
+ */
+export async function applyReceipt(
+  db: Db,
+  args: { receivableId: string; amountCents: number; note: string | null; receivedAt?: Date }
+) {
+  const amountCents = Math.trunc(args.amountCents);
+  if (!Number.isFinite(amountCents) || amountCents <= 0) throw new ReceivableError("Valor inválido.");
+
+  const r = await db.receivable.findUnique({
+    where: { id: args.receivableId },
+    select: { id: true, totalCents: true, receivedCents: true, status: true },
+  });
+  if (!r) throw new ReceivableError("Recebimento não encontrado.");
+  if (r.status !== "OPEN") throw new ReceivableError("Recebível não está em aberto.");
+
+  const balance = Math.max(0, r.totalCents - r.receivedCents);
+  if (amountCents > balance) throw new ReceivableError("Valor maior que o saldo do recebível.");
+
+  // ✅ reserva o saldo antes de tudo: outro recebimento ao mesmo tempo mudou o
+  // receivedCents → count 0 e nada foi gravado
+  const receivedCents = r.receivedCents + amountCents;
+  const balanceCents = Math.max(0, r.totalCents - receivedCents);
+  const claimed = await db.receivable.updateMany({
+    where: { id: r.id, status: "OPEN", receivedCents: r.receivedCents },
+    data: { receivedCents, balanceCents, status: balanceCents === 0 ? "RECEIVED" : "OPEN" },
+  });
+  if (claimed.count === 0) {
+    throw new ReceivableError("O recebível mudou enquanto o recebimento era lançado. Tente de novo.");
+  }
+
+  const receivedAt = args.receivedAt ?? new Date();
+  const receipt = await db.receipt.create({
+    data: { receivableId: r.id, amountCents, note: args.note, receivedAt },
+  });
+
+  const installments = await db.receivableInstallment.findMany({
+    where: { receivableId: r.id, status: { in: OPEN_STATUSES } },
+    orderBy: [{ dueDate: "asc" }, { number: "asc" }],
+    select: { id: true, amountCents: true, paidCents: true },
+  });
+  const allocations = allocate(installments, amountCents);
+  if (allocations.length) {
+    await db.receiptAllocation.createMany({
+      data: allocations.map((a) => ({ receiptId: receipt.id, ...a })),
+    });
+    const touched = new Set(allocations.map((a) => a.installmentId));
+    await saveInstallments(
+      db,
+      installments.filter((i) => touched.has(i.id)),
+      receivedAt
+    );
+  }
+
+  const receivable = await db.receivable.findUniqueOrThrow({ where: { id: r.id } });
+  const salePaid = await markSalePaidIfSettled(db, r.id, balanceCents, receivedAt);
+
+  return { receipt, receivable, salePaid };
+}
+
+/** Grava o plano de um recebível novo (sem recebimentos ainda). */
+export async function createInstallmentPlan(
+  db: Db,
+  args: { team: string; receivableId: string; plan: PlanItem[] }
+) {
+  await db.receivableInstallment.createMany({
+    data: args.plan.map((p) => ({
+      team: args.team,
+      receivableId: args.receivableId,
+      number: p.number,
+      dueDate: p.dueDate,
+      amountCents: p.amountCents,
+    })),
+  });
+}
+
+/**
+ * Troca o plano de um recebível em aberto (OPEN). Os recebimentos já lançados são
+ * realocados nas novas parcelas em ordem cronológica.
+ */
+export async function setInstallmentPlan(
+  db: Db,
+  args: { team: string; receivableId: string; plan: PlanItem[] }
+) {
+  const r = await db.receivable.findUnique({
+    where: { id: args.receivableId },
+    select: {
+      id: true,
+      totalCents: true,
+      status: true,
+      receipts: { orderBy: { receivedAt: "asc" }, select: { id: true, amountCents: true, receivedAt: true } },
+    },
+  });
+  if (!r) throw new ReceivableError("Recebimento não encontrado.");
+  // quitado ou cancelado: o plano não muda mais
+  if (r.status !== "OPEN") throw new ReceivableError("Recebível não está em aberto.");
+
+  if (!args.plan.length || args.plan.length > MAX_INSTALLMENTS) {
+    throw new ReceivableError(`Número de parcelas inválido (1 a ${MAX_INSTALLMENTS}).`);
+  }
+  if (args.plan.some((p) => !Number.isInteger(p.amountCents) || p.amountCents <= 0)) {
+    throw new ReceivableError("Toda parcela precisa ter valor.");
+  }
+  const sum = args.plan.reduce((acc, p) => acc + p.amountCents, 0);
+  if (sum !== r.totalCents) {
+    throw new ReceivableError("A soma das parcelas precisa ser igual ao total do recebível.");
+  }
+
+  // apaga as parcelas antigas (as alocações vão junto, cascade)
+  await db.receivableInstallment.deleteMany({ where: { receivableId: r.id } });
+
+  const sorted = [...args.plan].sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+  const created: (OpenInstallment & { paidAt: Date | null })[] = [];
+  for (const [idx, p] of sorted.entries()) {
+    const row = await db.receivableInstallment.create({
+      data: {
+        team: args.team,
+        receivableId: r.id,
+        number: idx + 1,
+        dueDate: p.dueDate,
+        amountCents: p.amountCents,
+      },
+      select: { id: true, amountCents: true },
+    });
+    created.push({ ...row, paidCents: 0, paidAt: null });
+  }
+
+  for (const rc of r.receipts) {
+    const allocations = allocate(created, rc.amountCents);
+    if (!allocations.length) continue;
+    await db.receiptAllocation.createMany({
+      data: allocations.map((a) => ({ receiptId: rc.id, ...a })),
+    });
+    for (const i of created) {
+      if (!i.paidAt && i.paidCents >= i.amountCents) i.paidAt = rc.receivedAt;
+    }
+  }
+
+  for (const i of created) {
+    if (i.paidCents === 0) continue;
+    await db.receivableInstallment.update({
+      where: { id: i.id },
+      data: { paidCents: i.paidCents, status: installmentStatus(i.amountCents, i.paidCents), paidAt: i.paidAt },
+    });
+  }
+
+  return db.receivableInstallment.findMany({
+    where: { receivableId: r.id },
+    orderBy: { number: "asc" },
+  });
+}
+
+/**
+ * Acompanha a troca manual de status da venda (PATCH /api/vendas/status):
+ * - PAID: todas as parcelas quitadas
+ * - PENDING: parcelas zeradas (e alocações removidas)
+ * - CANCELED: parcelas em aberto canceladas
+ */
+export async function syncInstallmentsWithSaleStatus(
+  db: Db,
+  receivableId: string,
+  status: "PENDING" | "PAID" | "CANCELED"
+) {
+  if (status === "CANCELED") return cancelOpenInstallments(db, receivableId);
+
+  const rows = await db.receivableInstallment.findMany({
+    where: { receivableId },
+    select: { id: true, amountCents: true },
+  });
+  if (status === "PENDING") {
+    await db.receiptAllocation.deleteMany({ where: { installmentId: { in: rows.map((r) => r.id) } } });
+  }
+
+  const now = new Date();
+  for (const r of rows) {
+    await db.receivableInstallment.update({
+      where: { id: r.id },
+      data:
+        status === "PAID"
+          ? { paidCents: r.amountCents, status: "PAID", paidAt: now }
+          : { paidCents: 0, status: "OPEN", paidAt: null },
+    });
+  }
+}
+
+/** Venda cancelada: o que estava em aberto não é mais cobrado. */
+export async function cancelOpenInstallments(db: Db, receivableId: string) {
+  await db.receivableInstallment.updateMany({
+    where: { receivableId, status: { in: OPEN_STATUSES } },
+    data: { status: "CANCELED" },
+  });
+}
+
+/* =========================
+ * Aging e cobrança
+ * ========================= */
+
+export type AgingBucket = "current" | "d0_30" | "d31_60" | "d60p";
+
+export const AGING_BUCKET_LABEL: Record<AgingBucket, string> = {
+  current: "A vencer",
+  d0_30: "0-30 dias",
+  d31_60: "31-60 dias",
+  d60p: "60+ dias",
+};
+
+export function agingBucket(daysOverdue: number): AgingBucket {
+  if (daysOverdue <= 0) return "current";
+  if (daysOverdue <= 30) return "d0_30";
+  if (daysOverdue <= 60) return "d31_60";
+  return "d60p";
+}
+
+function daysBetweenISO(fromISO: string, toISO: string) {
+  return Math.round((Date.parse(`${toISO}T00:00:00Z`) - Date.parse(`${fromISO}T00:00:00Z`)) / 86_400_000);
+}
+
+function fmtMoney(cents: number) {
+  return (cents / 100).toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+}
+
+function fmtDayBR(iso: string) {
+  const [y, m, d] = iso.split("-");
+  return `${d}/${m}/${y}`;
+}
+
+export type OpenInstallmentItem = {
+  id: string;
+  receivableId: string;
+  number: number;
+  count: number;
+  dueDate: string; // YYYY-MM-DD (Recife)
+  amountCents: number;
+  paidCents: number;
+  openCents: number;
+  daysOverdue: number;
+  bucket: AgingBucket;
+  lastReminderAt: Date | null;
+  title: string;
+  sale: { id: string; numero: string } | null;
+  cliente: { id: string; nome: string; telefone: string | null } | null;
+  whatsappUrl: string | null;
+};
+
+export function reminderMessage(item: Pick<OpenInstallmentItem, "number" | "count" | "dueDate" | "openCents" | "sale" | "title" | "cliente">) {
+  const ref = item.sale ? `da venda ${item.sale.numero}` : `de "${item.title}"`;
+  const parcela = item.count > 1 ? `a parcela ${item.number}/${item.count} ` : "o pagamento ";
+  return [
+    `Olá${item.cliente ? `, ${item.cliente.nome}` : ""}! Tudo bem?`,
+    `Consta em aberto ${parcela}${ref}, no valor de ${fmtMoney(item.openCents)}, com vencimento em ${fmtDayBR(item.dueDate)}.`,
+    "Se já pagou, pode nos enviar o comprovante por aqui? Obrigado!",
+  ].join("\n");
+}
+
+/** Parcelas com saldo de recebíveis em aberto (mais antigas primeiro). */
+export async function listOpenInstallments(db: Db, now = new Date()): Promise<OpenInstallmentItem[]> {
+  const today = recifeDateISO(now);
+
+  const rows = await db.receivableInstallment.findMany({
+    where: { status: { in: OPEN_STATUSES }, receivable: { status: "OPEN" } },
+    orderBy: [{ dueDate: "asc" }, { number: "asc" }],
+    select: {
+      id: true,
+      receivableId: true,
+      number: true,
+      dueDate: true,
+      amountCents: true,
+      paidCents: true,
+      lastReminderAt: true,
+      receivable: {
+        select: {
+          title: true,
+          _count: { select: { installments: true } },
+          sale: {
+            select: {
+              id: true,
+              numero: true,
+              cliente: { select: { id: true, nome: true, telefone: true } },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  return rows.map((r) => {
+    const dueDate = recifeDateISO(r.dueDate);
+    const daysOverdue = daysBetweenISO(dueDate, today);
+    const sale = r.receivable.sale;
+    const item: OpenInstallmentItem = {
+      id: r.id,
+      receivableId: r.receivableId,
+      number: r.number,
+      count: r.receivable._count.installments,
+      dueDate,
+      amountCents: r.amountCents,
+      paidCents: r.paidCents,
+      openCents: Math.max(0, r.amountCents - r.paidCents),
+      daysOverdue,
+      bucket: agingBucket(daysOverdue),
+      lastReminderAt: r.lastReminderAt,
+      title: r.receivable.title,
+      sale: sale ? { id: sale.id, numero: sale.numero } : null,
+      cliente: sale?.cliente ?? null,
+      whatsappUrl: null,
+    };
+    const e164 = normalizeBRPhoneToE164(item.cliente?.telefone);
+    if (e164) item.whatsappUrl = buildWhatsAppLink(e164, reminderMessage(item));
+    return item;
+  });
+}
+
+export type AgingRow = {
+  clienteId: string | null;
+  nome: string;
+  installments: number;
+} & Record<AgingBucket, number> & { totalCents: number; overdueCents: number };
+
+/** Saldo em aberto por cliente e faixa de atraso (recebível avulso fica em "Sem cliente"). */
+export function agingByCliente(items: OpenInstallmentItem[]) {
+  const byCliente = new Map<string, AgingRow>();
+  const totals: Record<AgingBucket, number> & { totalCents: number; overdueCents: number } = {
+    current: 0,
+    d0_30: 0,
+    d31_60: 0,
+    d60p: 0,
+    totalCents: 0,
+    overdueCents: 0,
+  };
+
+  for (const it of items) {
+    const key = it.cliente?.id ?? "";
+    const row = byCliente.get(key) ?? {
+      clienteId: it.cliente?.id ?? null,
+      nome: it.cliente?.nome ?? "Sem cliente (avulso)",
+      installments: 0,
+      current: 0,
+      d0_30: 0,
+      d31_60: 0,
+      d60p: 0,
+      totalCents: 0,
+      overdueCents: 0,
+    };
+    row.installments += 1;
+    row[it.bucket] += it.openCents;
+    row.totalCents += it.openCents;
+    totals[it.bucket] += it.openCents;
+    totals.totalCents += it.openCents;
+    if (it.bucket !== "current") {
+      row.overdueCents += it.openCents;
+      totals.overdueCents += it.openCents;
+    }
+    byCliente.set(key, row);
+  }
+
+  const rows = [...byCliente.values()].sort(
+    (a, b) => b.overdueCents - a.overdueCents || b.totalCents - a.totalCents || a.nome.localeCompare(b.nome)
+  );
+  return { rows, totals };
+}
+
+/** Marca que a cobrança foi enviada (o link do WhatsApp é aberto pelo navegador). */
+export async function recordReminder(db: Db, installmentId: string) {
+  const row = await db.receivableInstallment.findUnique({
+    where: { id: installmentId },
+    select: { id: true, status: true },
+  });
+  if (!row) throw new ReceivableError("Parcela não encontrada.");
+  if (!OPEN_STATUSES.includes(row.status)) throw new ReceivableError("Parcela não está em aberto.");
+
+  return db.receivableInstallment.update({
+    where: { id: row.id },
+    data: { lastReminderAt: new Date() },
+    select: { id: true, lastReminderAt: true },
+  });
+}
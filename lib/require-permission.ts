@@ -0,0 +1,63 @@
+// lib/require-permission.ts
+import "server-only";
+import crypto from "node:crypto";
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+import { getSessionServer, type Session } from "@/lib/auth-server";
+import { can, type Permission } from "@/lib/permissions";
+import { tenantPrisma, type TenantPrisma } from "@/lib/tenant";
+
+type Guard =
+  | { session: Session; db: TenantPrisma; denied: null }
+  | { session: null; db: null; denied: NextResponse };
+
+function deny(error: string, status: number) {
+  return NextResponse.json(
+    { ok: false, error },
+    { status, headers: { "Cache-Control": "no-store, max-age=0" } }
+  );
+}
+
+/**
+ * Contexto da auditoria: quem, qual request e o motivo (header X-Audit-Reason,
+ * URI-encoded; opcional).
+ */
+async function auditContext(session: Session) {
+  const h = await headers();
+  const requestId = h.get("x-request-id")?.trim() || h.get("x-vercel-id")?.trim() || crypto.randomUUID();
+
+  let reason = h.get("x-audit-reason")?.trim() || null;
+  if (reason) {
+    try {
+      reason = decodeURIComponent(reason);
+    } catch {
+      // header sem encoding: usa como veio
+    }
+    reason = reason.slice(0, 500);
+  }
+
+  return { actorId: session.id, requestId: requestId.slice(0, 200), reason };
+}
+
+/**
+ * ✅ Guard padrão dos handlers de app/api:
+ *   const { session, denied } = await requirePermission("vendas.write");
+ *   if (denied) return denied;
+ * Sem sessão → 401; sessão sem a permissão → 403.
+ * `db` é o client preso ao time da sessão (lib/tenant.ts).
+ */
+export async function requirePermission(permission: Permission): Promise<Guard> {
+  const session = await getSessionServer();
+  if (!session) return { session: null, db: null, denied: deny("Não autenticado", 401) };
+  if (!can(session.role, permission)) {
+    return { session: null, db: null, denied: deny("Sem permissão", 403) };
+  }
+  return { session, db: tenantPrisma(session.team, await auditContext(session)), denied: null };
+}
+
+/** Rotas de autoatendimento (qualquer usuário logado: trocar a própria senha, convite etc). */
+export async function requireAuthenticated(): Promise<Guard> {
+  const session = await getSessionServer();
+  if (!session) return { session: null, db: null, denied: deny("Não autenticado", 401) };
+  return { session, db: tenantPrisma(session.team, await auditContext(session)), denied: null };
+}
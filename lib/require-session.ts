@@ -1,10 +1,11 @@
 // lib/require-session.ts
-import { readSessionCookie } from "@/lib/session";
+import { SESSION_COOKIE, readSessionCookie } from "@/lib/session";
+import type { Role } from "@/lib/permissions";
 
 export type SessionLike = {
   userId: string;
   login: string;
-  role: "admin" | "staff";
+  role: Role;
   team: string;
 };
 
@@ -22,12 +23,12 @@ function parseCookies(header: string | null) {
   return out;
 }
 
-export function requireSession(req: Request): SessionLike {
+export async function requireSession(req: Request): Promise<SessionLike> {
   const cookies = parseCookies(req.headers.get("cookie"));
-  const raw = cookies["tm.session"];
+  const raw = cookies[SESSION_COOKIE];
   const decodedRaw = raw ? decodeURIComponent(raw) : null;
 
-  const s = readSessionCookie(decodedRaw);
+  const s = await readSessionCookie(decodedRaw);
   if (!s) {
     throw new Error("Não autenticado/sem permissão (cookie tm.session não chegou)");
   }
@@ -1,25 +1,222 @@
 // lib/session.ts
+import crypto from "node:crypto";
+import { prisma } from "@/lib/prisma";
+import { normalizeRole, type Role } from "@/lib/permissions";
+
+export const SESSION_COOKIE = "tm.session";
+export const SESSION_TTL_SECONDS = 60 * 60 * 8;
+
+// depois de metade do TTL, o token é trocado por um novo (rotação)
+const ROTATE_AFTER_SECONDS = SESSION_TTL_SECONDS / 2;
+// token antigo ainda vale por alguns segundos após a rotação (requests em paralelo)
+const ROTATION_GRACE_SECONDS = 60;
+
 export type Sess = {
   id: string;
   login: string;
-  role: "admin" | "staff";
+  role: Role;
   team: string;
+  sid: string;
 };
 
+type TokenPayload = {
+  sid: string;
+  uid: string;
+  iat: number;
+  exp: number;
+};
+
+function sessionSecret() {
+  const secret = process.env.SESSION_SECRET?.trim();
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET não definida.");
+  }
+  return "dev-only-session-secret";
+}
+
+function b64urlEncode(input: Buffer | string) {
+  return Buffer.from(input)
+    .toString("base64")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/g, "");
+}
+
 function b64urlDecode(input: string) {
   const pad = input.length % 4 === 0 ? "" : "=".repeat(4 - (input.length % 4));
   const base64 = (input + pad).replace(/-/g, "+").replace(/_/g, "/");
   return Buffer.from(base64, "base64").toString("utf8");
 }
 
-export function readSessionCookie(raw?: string | null): Sess | null {
+function sign(data: string) {
+  return b64urlEncode(crypto.createHmac("sha256", sessionSecret()).update(data).digest());
+}
+
+function nowSeconds() {
+  return Math.floor(Date.now() / 1000);
+}
+
+export function signSessionToken(payload: TokenPayload) {
+  const body = b64urlEncode(JSON.stringify(payload));
+  return `v1.${body}.${sign(`v1.${body}`)}`;
+}
+
+/** Confere assinatura e expiração (sem banco). */
+export function verifySessionToken(raw?: string | null): TokenPayload | null {
   if (!raw) return null;
+
+  const parts = raw.split(".");
+  if (parts.length !== 3 || parts[0] !== "v1") return null;
+
+  const expected = Buffer.from(sign(`v1.${parts[1]}`));
+  const given = Buffer.from(parts[2]);
+  if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) return null;
+
+  try {
+    const data = JSON.parse(b64urlDecode(parts[1])) as Partial<TokenPayload>;
+    if (!data?.sid || !data?.uid || !data?.exp || !data?.iat) return null;
+    if (data.exp <= nowSeconds()) return null;
+    return data as TokenPayload;
+  } catch {
+    return null;
+  }
+}
+
+/** Cria a sessão no banco e devolve o token para o cookie. */
+export async function createSession(
+  userId: string,
+  meta: { ip?: string | null; userAgent?: string | null } = {}
+) {
+  const iat = nowSeconds();
+  const exp = iat + SESSION_TTL_SECONDS;
+
+  const row = await prisma.userSession.create({
+    data: {
+      userId,
+      ip: meta.ip || null,
+      userAgent: meta.userAgent || null,
+      expiresAt: new Date(exp * 1000),
+    },
+    select: { id: true },
+  });
+
+  return signSessionToken({ sid: row.id, uid: userId, iat, exp });
+}
+
+/**
+ * Valida o token do cookie: assinatura, expiração e lista de revogação.
+ * role/team vêm do banco (mudança de papel vale na hora).
+ */
+export async function readSessionCookie(raw?: string | null): Promise<Sess | null> {
+  const payload = verifySessionToken(raw);
+  if (!payload) return null;
+
   try {
-    const json = b64urlDecode(raw);
-    const data = JSON.parse(json) as Sess;
-    if (!data?.id || !data?.login || !data?.team || !data?.role) return null;
-    return data;
+    const row = await prisma.userSession.findUnique({
+      where: { id: payload.sid },
+      select: {
+        userId: true,
+        expiresAt: true,
+        revokedAt: true,
+        user: { select: { id: true, login: true, role: true, team: true } },
+      },
+    });
+
+    if (!row || row.revokedAt || row.userId !== payload.uid) return null;
+    if (row.expiresAt.getTime() <= Date.now()) return null;
+
+    return {
+      id: row.user.id,
+      login: row.user.login,
+      role: normalizeRole(row.user.role),
+      team: row.user.team,
+      sid: payload.sid,
+    };
   } catch {
     return null;
   }
 }
+
+/**
+ * Se o token já passou da metade do TTL, emite um novo e encurta o antigo.
+ * `apply` grava o cookie novo; se falhar (ex: server component), desfaz a rotação
+ * e o token atual continua valendo normalmente.
+ */
+export async function rotateSessionIfNeeded(
+  raw: string | null | undefined,
+  apply: (token: string) => void
+) {
+  const payload = verifySessionToken(raw);
+  if (!payload) return false;
+  if (nowSeconds() - payload.iat < ROTATE_AFTER_SECONDS) return false;
+
+  // ✅ só uma request rotaciona (as paralelas seguem com o token atual)
+  const claimed = await prisma.userSession.updateMany({
+    where: { id: payload.sid, rotatedAt: null, revokedAt: null },
+    data: { rotatedAt: new Date() },
+  });
+  if (claimed.count !== 1) return false;
+
+  const old = await prisma.userSession.findUnique({
+    where: { id: payload.sid },
+    select: { ip: true, userAgent: true },
+  });
+  const token = await createSession(payload.uid, { ip: old?.ip, userAgent: old?.userAgent });
+
+  try {
+    apply(token);
+  } catch {
+    const next = verifySessionToken(token);
+    if (next) await revokeSession(next.sid, "rotation_aborted");
+    await prisma.userSession.update({ where: { id: payload.sid }, data: { rotatedAt: null } });
+    return false;
+  }
+
+  await prisma.userSession.update({
+    where: { id: payload.sid },
+    data: { expiresAt: new Date((nowSeconds() + ROTATION_GRACE_SECONDS) * 1000) },
+  });
+  return true;
+}
+
+export async function revokeSession(sid: string, reason = "logout") {
+  await prisma.userSession.updateMany({
+    where: { id: sid, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+}
+
+/** "Sair de todos os dispositivos": revoga todas as sessões ativas do usuário. */
+export async function revokeAllSessions(userId: string, reason = "logout_all") {
+  const res = await prisma.userSession.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+  return res.count;
+}
+
+/**
+ * Nova sessão no lugar de `sid` (mesmo ip/user-agent), para quem acabou de
+ * revogar as próprias sessões e deve continuar logado neste dispositivo.
+ */
+export async function reissueSession(sid: string, userId: string) {
+  const old = await prisma.userSession.findUnique({
+    where: { id: sid },
+    select: { ip: true, userAgent: true },
+  });
+  return createSession(userId, { ip: old?.ip, userAgent: old?.userAgent });
+}
+
+export function sessionCookieOptions() {
+  const base = {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax" as const,
+    path: "/",
+    maxAge: SESSION_TTL_SECONDS,
+  };
+
+  const domain = process.env.COOKIE_DOMAIN?.trim();
+  return domain ? { ...base, domain } : base;
+}
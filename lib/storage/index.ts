@@ -0,0 +1,20 @@
+import { createLocalStorageProvider } from "./local";
+import { createS3StorageProvider } from "./s3";
+import type { StorageProvider } from "./types";
+
+export type { StoredObject, StorageProvider } from "./types";
+
+/**
+ * ✅ Storage de anexos
+ *
+ * O nome do provider fica gravado junto do anexo: trocar STORAGE_PROVIDER
+ * não quebra a leitura dos arquivos antigos (cada um é lido de onde foi salvo).
+ */
+
+/** STORAGE_PROVIDER = "local" (padrão) | "s3" */
+export function getStorageProvider(name = process.env.STORAGE_PROVIDER): StorageProvider {
+  const n = String(name || "local").trim().toLowerCase();
+  if (n === "local") return createLocalStorageProvider();
+  if (n === "s3") return createS3StorageProvider();
+  throw new Error(`STORAGE_PROVIDER inválido: ${n}`);
+}
@@ -0,0 +1,47 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { StorageProvider } from "./types";
+
+/**
+ * ✅ Disco local (dev / servidor próprio).
+ * STORAGE_LOCAL_DIR (padrão ./storage). O content-type fica num ".meta" ao lado.
+ */
+export function createLocalStorageProvider(dir = process.env.STORAGE_LOCAL_DIR): StorageProvider {
+  const root = path.resolve(dir || path.join(process.cwd(), "storage"));
+
+  function fileOf(key: string) {
+    const file = path.resolve(root, key);
+    // key vem do nosso código, mas nunca deixa sair da pasta
+    if (!file.startsWith(root + path.sep)) throw new Error("Chave de storage inválida.");
+    return file;
+  }
+
+  return {
+    name: "local",
+
+    async put(key, body, contentType) {
+      const file = fileOf(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, body);
+      await writeFile(`${file}.meta`, contentType, "utf8");
+    },
+
+    async get(key) {
+      const file = fileOf(key);
+      try {
+        const body = await readFile(file);
+        const contentType = await readFile(`${file}.meta`, "utf8").catch(() => null);
+        return { body, contentType };
+      } catch (e: unknown) {
+        if ((e as NodeJS.ErrnoException)?.code === "ENOENT") return null;
+        throw e;
+      }
+    },
+
+    async delete(key) {
+      const file = fileOf(key);
+      await rm(file, { force: true });
+      await rm(`${file}.meta`, { force: true });
+    },
+  };
+}
@@ -0,0 +1,150 @@
+import { createHash, createHmac } from "node:crypto";
+import type { StorageProvider } from "./types";
+
+/**
+ * ✅ S3 compatível (AWS, R2, MinIO, Backblaze...) via REST + SigV4, sem SDK.
+ *
+ * S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY obrigatórios;
+ * S3_REGION (padrão us-east-1), S3_ENDPOINT (padrão AWS) e
+ * S3_FORCE_PATH_STYLE=1 para endpoints que não aceitam bucket no host (MinIO).
+ */
+
+type S3Config = {
+  bucket: string;
+  region: string;
+  endpoint: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  pathStyle: boolean;
+};
+
+function readConfig(): S3Config {
+  const bucket = String(process.env.S3_BUCKET || "").trim();
+  const accessKeyId = String(process.env.S3_ACCESS_KEY_ID || "").trim();
+  const secretAccessKey = String(process.env.S3_SECRET_ACCESS_KEY || "").trim();
+  if (!bucket || !accessKeyId || !secretAccessKey) {
+    throw new Error("S3_BUCKET, S3_ACCESS_KEY_ID e S3_SECRET_ACCESS_KEY são obrigatórios.");
+  }
+
+  const region = String(process.env.S3_REGION || "us-east-1").trim();
+  const endpoint = String(process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`)
+    .trim()
+    .replace(/\/+$/, "");
+
+  return {
+    bucket,
+    region,
+    endpoint,
+    accessKeyId,
+    secretAccessKey,
+    pathStyle: process.env.S3_FORCE_PATH_STYLE === "1",
+  };
+}
+
+function sha256Hex(data: string | Buffer) {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string) {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+function encodeKey(key: string) {
+  return key
+    .split("/")
+    .map((p) => encodeURIComponent(p))
+    .join("/");
+}
+
+function objectUrl(cfg: S3Config, key: string) {
+  const base = new URL(cfg.endpoint);
+  if (cfg.pathStyle) return new URL(`${base.origin}/${cfg.bucket}/${encodeKey(key)}`);
+  return new URL(`${base.protocol}//${cfg.bucket}.${base.host}/${encodeKey(key)}`);
+}
+
+/** Assina a request (AWS Signature V4, payload com hash explícito). */
+function signedHeaders(
+  cfg: S3Config,
+  method: string,
+  url: URL,
+  body: Buffer | null,
+  extra: Record<string, string> = {}
+) {
+  const now = new Date();
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, "");
+  const day = amzDate.slice(0, 8);
+  const payloadHash = sha256Hex(body ?? "");
+
+  const headers: Record<string, string> = {
+    host: url.host,
+    "x-amz-content-sha256": payloadHash,
+    "x-amz-date": amzDate,
+    ...Object.fromEntries(Object.entries(extra).map(([k, v]) => [k.toLowerCase(), v])),
+  };
+
+  const names = Object.keys(headers).sort();
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    "",
+    names.map((n) => `${n}:${headers[n].trim()}\n`).join(""),
+    names.join(";"),
+    payloadHash,
+  ].join("\n");
+
+  const scope = `${day}/${cfg.region}/s3/aws4_request`;
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+
+  const kDate = hmac(`AWS4${cfg.secretAccessKey}`, day);
+  const kSigning = hmac(hmac(hmac(kDate, cfg.region), "s3"), "aws4_request");
+  const signature = createHmac("sha256", kSigning).update(stringToSign).digest("hex");
+
+  // host vai assinado, mas quem manda é o fetch
+  const out: Record<string, string> = { ...headers };
+  delete out.host;
+  return {
+    ...out,
+    authorization: `AWS4-HMAC-SHA256 Credential=${cfg.accessKeyId}/${scope}, SignedHeaders=${names.join(";")}, Signature=${signature}`,
+  };
+}
+
+async function s3Error(res: Response, what: string) {
+  const text = await res.text().catch(() => "");
+  const code = /<Code>([^<]+)<\/Code>/.exec(text)?.[1];
+  return new Error(`S3 ${what} falhou (${res.status}${code ? ` ${code}` : ""}).`);
+}
+
+export function createS3StorageProvider(): StorageProvider {
+  const cfg = readConfig();
+
+  return {
+    name: "s3",
+
+    async put(key, body, contentType) {
+      const url = objectUrl(cfg, key);
+      const res = await fetch(url, {
+        method: "PUT",
+        headers: signedHeaders(cfg, "PUT", url, body, { "content-type": contentType }),
+        body: new Uint8Array(body),
+      });
+      if (!res.ok) throw await s3Error(res, "upload");
+    },
+
+    async get(key) {
+      const url = objectUrl(cfg, key);
+      const res = await fetch(url, { method: "GET", headers: signedHeaders(cfg, "GET", url, null) });
+      if (res.status === 404) return null;
+      if (!res.ok) throw await s3Error(res, "download");
+      return {
+        body: Buffer.from(await res.arrayBuffer()),
+        contentType: res.headers.get("content-type"),
+      };
+    },
+
+    async delete(key) {
+      const url = objectUrl(cfg, key);
+      const res = await fetch(url, { method: "DELETE", headers: signedHeaders(cfg, "DELETE", url, null) });
+      if (!res.ok && res.status !== 404) throw await s3Error(res, "remoção");
+    },
+  };
+}
@@ -0,0 +1,16 @@
+/**
+ * ✅ Storage de arquivos (anexos): o que o provider recebe e devolve.
+ * Quem chama só guarda `name` + `key`; o provider decide onde o arquivo mora.
+ */
+
+export type StoredObject = {
+  body: Buffer;
+  contentType: string | null;
+};
+
+export type StorageProvider = {
+  name: string;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredObject | null>;
+  delete(key: string): Promise<void>;
+};
@@ -1,3 +1,5 @@
+import type { Prisma } from "@prisma/client";
+
 export const TAX_TZ = "America/Recife";
 
 export function monthKeyTZ(date = new Date(), timeZone = TAX_TZ) {
@@ -25,3 +27,125 @@ export function fmtMonthPTBR(month: string) {
   const [y, m] = month.split("-");
   return `${m}/${y}`;
 }
+
+/* =========================
+ * ✅ Imposto do mês (pagamentos de funcionário + balcão)
+ * Usado por /api/taxes/month, /api/taxes/pay e no fechamento do período.
+ * ========================= */
+
+const DEFAULT_TAX_PERCENT = 8;
+
+function toNumber(v: unknown) {
+  if (typeof v === "bigint") return Number(v);
+  if (typeof v === "number") return v;
+  if (v == null) return 0;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : 0;
+}
+
+function normalizePercent(v: unknown, fallback = DEFAULT_TAX_PERCENT) {
+  const n = Number(v);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.max(0, Math.min(100, Math.round(n)));
+}
+
+export function recifeDateISO(date: Date) {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone: TAX_TZ,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  })
+    .formatToParts(date)
+    .reduce<Record<string, string>>((acc, p) => {
+      acc[p.type] = p.value;
+      return acc;
+    }, {});
+
+  return `${parts.year}-${parts.month}-${parts.day}`;
+}
+
+function resolveTaxPercent(
+  dateISO: string,
+  settings: { configuredPercent: number; effectiveISO: string | null }
+) {
+  if (!settings.effectiveISO) return DEFAULT_TAX_PERCENT;
+  return dateISO >= settings.effectiveISO ? settings.configuredPercent : DEFAULT_TAX_PERCENT;
+}
+
+function taxByPercent(profitCents: number, percent: number) {
+  return Math.round(Math.max(0, toNumber(profitCents)) * (percent / 100));
+}
+
+export async function computeTaxMonth(db: Prisma.TransactionClient, team: string, month: string) {
+  const settings = await db.settings.upsert({
+    where: { team_key: { team, key: "default" } },
+    create: { team, key: "default" },
+    update: {},
+    select: { taxPercent: true, taxEffectiveFrom: true },
+  });
+  const taxSettings = {
+    configuredPercent: normalizePercent(settings.taxPercent, DEFAULT_TAX_PERCENT),
+    effectiveISO: settings.taxEffectiveFrom ? settings.taxEffectiveFrom.toISOString().slice(0, 10) : null,
+  };
+
+  const grouped = await db.employeePayout.groupBy({
+    by: ["userId"],
+    where: { team, date: { startsWith: month } },
+    _sum: { tax7Cents: true },
+    _count: { _all: true },
+  });
+
+  const userIds = grouped.map((g) => g.userId);
+  const users = await db.user.findMany({
+    where: { id: { in: userIds.length ? userIds : ["__none__"] } },
+    select: { id: true, name: true, login: true },
+  });
+
+  const uById: Record<string, { name: string; login: string }> = {};
+  for (const u of users) uById[u.id] = { name: u.name, login: u.login };
+
+  const payoutBreakdown = grouped
+    .map((g) => ({
+      userId: g.userId,
+      name: uById[g.userId]?.name || "-",
+      login: uById[g.userId]?.login || "-",
+      taxCents: g._sum.tax7Cents ?? 0,
+      daysCount: g._count._all ?? 0,
+    }))
+    .sort((a, b) => (b.taxCents || 0) - (a.taxCents || 0));
+
+  const payoutTaxCents = payoutBreakdown.reduce((acc, b) => acc + (b.taxCents || 0), 0);
+
+  const balcaoRows = await db.balcaoOperacao.findMany({
+    where: { team },
+    select: {
+      createdAt: true,
+      customerChargeCents: true,
+      supplierPayCents: true,
+      boardingFeeCents: true,
+    },
+  });
+
+  let balcaoTaxCents = 0;
+  let balcaoOperationsCount = 0;
+  for (const row of balcaoRows) {
+    const dateISO = recifeDateISO(row.createdAt);
+    if (!dateISO.startsWith(`${month}-`)) continue;
+    const percent = resolveTaxPercent(dateISO, taxSettings);
+    const profit =
+      toNumber(row.customerChargeCents) - toNumber(row.supplierPayCents) - toNumber(row.boardingFeeCents);
+    balcaoTaxCents += taxByPercent(profit, percent);
+    balcaoOperationsCount += 1;
+  }
+
+  return {
+    payoutTaxCents,
+    balcaoTaxCents,
+    totalTaxCents: payoutTaxCents + balcaoTaxCents,
+    payoutBreakdown,
+    balcaoOperationsCount,
+  };
+}
+
+export type TaxMonthComputed = Awaited<ReturnType<typeof computeTaxMonth>>;
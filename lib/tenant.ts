@@ -0,0 +1,353 @@
+// lib/tenant.ts
+import "server-only";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { Prisma, PrismaClient } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { auditedQuery, isAuditedOperation, withAuditTransactions, type AuditContext } from "@/lib/audit";
+
+/**
+ * Isolamento por time (multi-tenant).
+ *
+ * `tenantPrisma(team)` devolve um client que força o time em toda query dos
+ * models com coluna `team`:
+ * - leitura/update/delete: `where.team = team` (registro de outro time = "não existe")
+ * - create/upsert: grava `team` (e recusa payload com outro time)
+ *
+ * Models filhos sem coluna `team` (CHILD_SCOPES) são filtrados pelo pai:
+ * `where` ganha `{ <relação>: { team } }` e create/upsert só aceitam pai do time.
+ *
+ * Create/update/upsert também conferem as referências do payload (FK escalar
+ * `<relação>Id` ou `connect: { id }`) para models do time: id de outro time
+ * = CrossTeamError. Fica de fora: escrita aninhada (`create`/`connectOrCreate`
+ * dentro do data) e `connect` por outra chave única que não `id`.
+ *
+ * Relações aninhadas (include/select) herdam o escopo do registro pai.
+ * O client cru (`prisma`) fica para cron, páginas públicas e migrações.
+ *
+ * Mutações dos models financeiros também passam pela auditoria (lib/audit.ts);
+ * `audit` diz quem fez (sem ele, o log sai sem ator).
+ */
+
+// ✅ models com coluna `team` (model novo com team entra aqui)
+export const TENANT_MODELS = new Set<Prisma.ModelName>([
+  "User",
+  "VipWhatsappLink",
+  "VipWhatsappLead",
+  "VipWhatsappPayment",
+  "VipWhatsappRateioSetting",
+  "VipWhatsappRateioShare",
+  "ProfitShare",
+  "Cedente",
+  "CedenteCredentialReveal",
+  "CedenteExclusion",
+  "TermDocument",
+  "ClubSubscription",
+  "ClubRule",
+  "ClubCharge",
+  "Protocol",
+  "ProtocolStatusLog",
+  "ProtocolAttachment",
+  "WalletBalance",
+  "CashSnapshot",
+  "Settings",
+  "Debt",
+  "BlockedAccount",
+  "Purchase",
+  "Cliente",
+  "ClienteNote",
+  "ClienteMerge",
+  "Receivable",
+  "EmissionEvent",
+  "EmissionLimitRule",
+  "Sale",
+  "PaymentCard",
+  "PaymentCardCycle",
+  "AccountingPeriod",
+  "PeriodAdjustment",
+  "SaleCancellation",
+  "PayoutClawback",
+  "ReceivableInstallment",
+  "SaleLocatorCheck",
+  "OutboxEvent",
+  "WebhookEndpoint",
+  "WebhookDelivery",
+  "AuditLog",
+  "BankStatement",
+  "BankStatementLine",
+  "BalcaoOperacao",
+  "EmployeePayout",
+  "CommissionPlan",
+  "MilheiroRate",
+  "PointsLot",
+  "PointsLotConsumption",
+  "TaxMonthPayment",
+  "CaixaImediatoSnapshot",
+  "LatamTurboMonth",
+  "LatamTurboAccount",
+  "DividaAReceber",
+  "AgendaEvent",
+  "AgendaAudit",
+  "AgendaMemberColor",
+]);
+
+type Row = Record<string, unknown>;
+
+type ChildScope = { relation: string; parent: Prisma.ModelName };
+
+// ✅ models sem `team`: escopo pela relação obrigatória até um model com team
+// (model filho novo entra aqui)
+export const CHILD_SCOPES: Partial<Record<Prisma.ModelName, ChildScope>> = {
+  EmployeeInvite: { relation: "user", parent: "User" },
+  ProfitShareItem: { relation: "share", parent: "ProfitShare" },
+  CedenteTermAcceptance: { relation: "cedente", parent: "Cedente" },
+  CedenteTermReview: { relation: "cedente", parent: "Cedente" },
+  CedenteBiometriaHorario: { relation: "cedente", parent: "Cedente" },
+  CedenteCommission: { relation: "cedente", parent: "Cedente" },
+  PointsLedgerEntry: { relation: "cedente", parent: "Cedente" },
+  DebtPayment: { relation: "debt", parent: "Debt" },
+  BlockObservation: { relation: "blocked", parent: "BlockedAccount" },
+  PurchaseItem: { relation: "purchase", parent: "Purchase" },
+  Receipt: { relation: "receivable", parent: "Receivable" },
+  ReceiptAllocation: { relation: "receipt", parent: "Receipt" },
+  DividaAReceberPagamento: { relation: "divida", parent: "DividaAReceber" },
+};
+
+type TeamRelation = { field: string; fk: string | null; target: Prisma.ModelName };
+
+function isTeamScoped(model: string) {
+  return TENANT_MODELS.has(model as Prisma.ModelName) || !!CHILD_SCOPES[model as Prisma.ModelName];
+}
+
+// ✅ relações de cada model para models do time, tiradas do schema
+// (FK escalar segue `<relação>Id` em todo o schema)
+const TEAM_RELATIONS = new Map<string, TeamRelation[]>(
+  Prisma.dmmf.datamodel.models.map((m) => {
+    const scalars = new Set(m.fields.filter((f) => f.kind === "scalar").map((f) => f.name));
+    const relations = m.fields
+      .filter((f) => f.kind === "object" && isTeamScoped(f.type))
+      .map((f) => ({
+        field: f.name,
+        fk: scalars.has(`${f.name}Id`) ? `${f.name}Id` : null,
+        target: f.type as Prisma.ModelName,
+      }));
+    return [m.name, relations];
+  })
+);
+
+/** Filtro que prende o model ao time (direto ou subindo pelos pais). */
+export function teamScope(model: Prisma.ModelName, team: string): Row {
+  if (TENANT_MODELS.has(model)) return { team };
+  const child = CHILD_SCOPES[model];
+  if (!child) throw new Error(`Model ${model} sem escopo de time.`);
+  return { [child.relation]: teamScope(child.parent, team) };
+}
+
+export class CrossTeamError extends Error {
+  constructor(model: string) {
+    super(`Operação em ${model} de outro time bloqueada.`);
+    this.name = "CrossTeamError";
+  }
+}
+
+const WHERE_OPS = new Set([
+  "findUnique",
+  "findUniqueOrThrow",
+  "findFirst",
+  "findFirstOrThrow",
+  "findMany",
+  "count",
+  "aggregate",
+  "groupBy",
+  "update",
+  "updateMany",
+  "updateManyAndReturn",
+  "delete",
+  "deleteMany",
+]);
+
+type CountDelegate = { count(args: { where: Row }): Promise<number> };
+
+function withTeam(model: string, data: unknown, team: string): Row {
+  const row = (data ?? {}) as Row;
+  if (row.team !== undefined && row.team !== team) throw new CrossTeamError(model);
+  return { ...row, team };
+}
+
+function guardUpdateData(model: string, data: unknown, team: string) {
+  const row = (data ?? {}) as Row;
+  if (row.team !== undefined && row.team !== team) throw new CrossTeamError(model);
+}
+
+function scopeWhere(where: unknown, scope: Row): Row {
+  const w = (where ?? {}) as Row;
+  const and = w.AND === undefined ? [] : Array.isArray(w.AND) ? w.AND : [w.AND];
+  return { ...w, AND: [...and, scope] };
+}
+
+function idsOf(value: unknown): string[] {
+  const list = Array.isArray(value) ? value : value === undefined || value === null ? [] : [value];
+  return list
+    .map((v) => (typeof v === "object" && v !== null ? (v as Row).id ?? (v as Row).set : v))
+    .filter((id): id is string => typeof id === "string" && !!id);
+}
+
+/** Ids referenciados no payload (FK escalar ou `connect`), por model de destino. */
+function referencedIds(model: string, rows: unknown[]) {
+  const out = new Map<Prisma.ModelName, Set<string>>();
+  for (const rel of TEAM_RELATIONS.get(model) ?? []) {
+    for (const data of rows) {
+      const row = (data ?? {}) as Row;
+      const nested = row[rel.field] as Row | undefined;
+      const ids = [...(rel.fk ? idsOf(row[rel.fk]) : []), ...idsOf(nested?.connect)];
+      if (!ids.length) continue;
+      const set = out.get(rel.target) ?? new Set<string>();
+      ids.forEach((id) => set.add(id));
+      out.set(rel.target, set);
+    }
+  }
+  return out;
+}
+
+/** Linhas de `data` que a operação grava (create, update ou os dois no upsert). */
+function writtenRows(operation: string, a: Row): unknown[] {
+  if (operation === "create" || operation === "update" || operation === "updateMany" || operation === "updateManyAndReturn") {
+    return [a.data];
+  }
+  if (operation === "createMany" || operation === "createManyAndReturn") {
+    return Array.isArray(a.data) ? a.data : [a.data];
+  }
+  if (operation === "upsert") return [a.create, a.update];
+  return [];
+}
+
+function delegateName(model: string) {
+  return model.charAt(0).toLowerCase() + model.slice(1);
+}
+
+// tx da transaction interativa em andamento: a checagem do pai e o "antes" da
+// auditoria precisam enxergar o que a própria transaction acabou de gravar
+const currentTx = new AsyncLocalStorage<object>();
+
+function withTenantTransactions<T extends object>(client: T): T {
+  return new Proxy(client, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+      if (prop !== "$transaction" || typeof value !== "function") return value;
+
+      return (arg: unknown, options?: unknown) => {
+        if (typeof arg !== "function") return value.call(target, arg, options);
+        return value.call(target, (tx: object) => currentTx.run(tx, () => arg(tx)), options);
+      };
+    },
+  });
+}
+
+/** Toda referência do payload precisa existir no time (lida pelo client do time). */
+async function assertReferencesInTeam(model: string, operation: string, a: Row, db: Record<string, CountDelegate>) {
+  const refs = referencedIds(model, writtenRows(operation, a));
+  for (const [target, set] of refs) {
+    const ids = Array.from(set);
+    const found = await db[delegateName(target)].count({ where: { id: { in: ids } } });
+    if (found !== ids.length) throw new CrossTeamError(model);
+  }
+}
+
+const NO_ACTOR: AuditContext = { actorId: null, requestId: null, reason: null };
+
+export function tenantPrisma(team: string, audit: AuditContext = NO_ACTOR) {
+  if (!team) throw new Error("Time obrigatório para acessar o banco.");
+
+  const referenceDb = () => (currentTx.getStore() ?? scoped) as unknown as Record<string, CountDelegate>;
+
+  // ✅ extensão só de query: os tipos continuam os do PrismaClient
+  // (assim `tx` segue compatível com Prisma.TransactionClient nos helpers)
+  const client = prisma.$extends({
+    name: "tenant",
+    query: {
+      $allModels: {
+        async $allOperations({ model, operation, args, query }) {
+          const audited = isAuditedOperation(model, operation);
+          const child = CHILD_SCOPES[model as Prisma.ModelName];
+
+          if (child) {
+            const a = (args ?? {}) as Row;
+            const scope = teamScope(model as Prisma.ModelName, team);
+
+            if (WHERE_OPS.has(operation) || operation === "upsert") {
+              a.where = scopeWhere(a.where, scope);
+            }
+
+            // pai (e demais referências) passam pelo próprio client (ou tx): já chegam filtrados pelo time
+            await assertReferencesInTeam(model, operation, a, referenceDb());
+
+            if (!audited) return query(a as typeof args);
+            return auditedQuery({
+              model,
+              operation,
+              args: a,
+              query: (next) => query(next as typeof args),
+              team,
+              ctx: audit,
+              db: currentTx.getStore(),
+            });
+          }
+
+          if (!TENANT_MODELS.has(model as Prisma.ModelName)) {
+            if (!audited) return query(args);
+            return auditedQuery({
+              model,
+              operation,
+              args: (args ?? {}) as Row,
+              query: (a) => query(a as typeof args),
+              team,
+              ctx: audit,
+              db: currentTx.getStore(),
+            });
+          }
+
+          const a = (args ?? {}) as Row;
+
+          if (WHERE_OPS.has(operation)) {
+            a.where = { ...((a.where as Row) ?? {}), team };
+          }
+          if (operation === "update" || operation === "updateMany" || operation === "updateManyAndReturn") {
+            guardUpdateData(model, a.data, team);
+          }
+          if (operation === "create") {
+            a.data = withTeam(model, a.data, team);
+          }
+          if (operation === "createMany" || operation === "createManyAndReturn") {
+            a.data = Array.isArray(a.data)
+              ? a.data.map((d) => withTeam(model, d, team))
+              : withTeam(model, a.data, team);
+          }
+          if (operation === "upsert") {
+            a.where = { ...((a.where as Row) ?? {}), team };
+            a.create = withTeam(model, a.create, team);
+            guardUpdateData(model, a.update, team);
+          }
+
+          await assertReferencesInTeam(model, operation, a, referenceDb());
+
+          if (audited) {
+            return auditedQuery({
+              model,
+              operation,
+              args: a,
+              query: (next) => query(next as typeof args),
+              team,
+              ctx: audit,
+              db: currentTx.getStore(),
+            });
+          }
+          return query(a as typeof args);
+        },
+      },
+    },
+  });
+
+  const scoped = withTenantTransactions(client);
+  return withAuditTransactions(scoped) as unknown as PrismaClient;
+}
+
+export type TenantPrisma = PrismaClient;
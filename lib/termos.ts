@@ -1,5 +1,150 @@
-export const TERMO_VERSAO = "2026-02-10"; // atualize ao publicar novo termo
+import crypto from "crypto";
+import { LoyaltyProgram, Prisma } from "@prisma/client";
+
+// ✅ legado: vale enquanto o time não publica a primeira versão em /dashboard/atualizacao-termos/versoes
+export const TERMO_VERSAO = "2026-02-10";
 
 export const TERMO_WHATSAPP = `Olá! Atualizamos os valores: LATAM R$ 80 por transação (com 4 a 5 biometrias) e Smiles/Livelo/Esfera R$ 50 (sem biometria).
 Se quiser seguir com LATAM, precisamos da sua disponibilidade para biometria nos turnos M, T ou N.
 Me confirme por aqui se continua com LATAM, só com Smiles/Livelo/Esfera, ou se prefere encerrar.`;
+
+/**
+ * ✅ Termos versionados (TermDocument)
+ *
+ * Cada versão guarda o texto integral, a data de vigência e cláusulas por
+ * programa. O cedente lê e aceita pelo link público /termos/[token]; o aceite
+ * grava IP, user agent e um hash que amarra o conteúdo lido ao aceite.
+ */
+
+// client do time (tenantPrisma) ou `tx` de uma transaction dele
+type Db = Prisma.TransactionClient;
+
+export type TermClause = {
+  program: LoyaltyProgram;
+  title: string;
+  text: string;
+};
+
+export type TermInput = {
+  versao: string;
+  title: string;
+  body: string;
+  clauses: TermClause[];
+  whatsappMsg: string | null;
+  effectiveAt: Date;
+};
+
+export class TermInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TermInputError";
+  }
+}
+
+const PROGRAMS = Object.values(LoyaltyProgram) as string[];
+
+function str(v: unknown, max: number) {
+  const s = typeof v === "string" ? v.trim() : "";
+  return s.length > max ? s.slice(0, max) : s;
+}
+
+/** Lê as cláusulas gravadas no Json (ignora o que não tiver programa válido). */
+export function readClauses(raw: Prisma.JsonValue | null | undefined): TermClause[] {
+  if (!Array.isArray(raw)) return [];
+  const out: TermClause[] = [];
+  for (const c of raw) {
+    if (!c || typeof c !== "object" || Array.isArray(c)) continue;
+    const program = String(c.program || "").toUpperCase();
+    const text = str(c.text, 10_000);
+    if (!PROGRAMS.includes(program) || !text) continue;
+    out.push({ program: program as LoyaltyProgram, title: str(c.title, 120) || program, text });
+  }
+  return out;
+}
+
+/** Valida o body do POST /api/termos. */
+export function parseTermInput(body: Record<string, unknown>): TermInput {
+  const versao = str(body.versao, 40);
+  if (!versao) throw new TermInputError("versao é obrigatória.");
+  if (!/^[\w.-]+$/.test(versao)) throw new TermInputError("versao: use letras, números, ponto, hífen ou _.");
+
+  const title = str(body.title, 160);
+  if (!title) throw new TermInputError("Título é obrigatório.");
+
+  const text = str(body.body, 100_000);
+  if (text.length < 20) throw new TermInputError("Texto do termo muito curto.");
+
+  const effectiveRaw = str(body.effectiveAt, 40);
+  const effectiveAt = effectiveRaw ? new Date(effectiveRaw) : new Date();
+  if (Number.isNaN(effectiveAt.getTime())) throw new TermInputError("effectiveAt inválido.");
+
+  const clauses = readClauses(Array.isArray(body.clauses) ? (body.clauses as Prisma.JsonArray) : []);
+  const seen = new Set<string>();
+  for (const c of clauses) {
+    if (seen.has(c.program)) throw new TermInputError(`Mais de uma cláusula para ${c.program}.`);
+    seen.add(c.program);
+  }
+
+  return {
+    versao,
+    title,
+    body: text,
+    clauses,
+    whatsappMsg: str(body.whatsappMsg, 2_000) || null,
+    effectiveAt,
+  };
+}
+
+function sha256(s: string) {
+  return crypto.createHash("sha256").update(s).digest("hex");
+}
+
+/** Hash do conteúdo publicado (muda se qualquer palavra do termo mudar). */
+export function termContentHash(t: Pick<TermInput, "versao" | "title" | "body" | "clauses">) {
+  return sha256(JSON.stringify([t.versao, t.title, t.body, t.clauses.map((c) => [c.program, c.title, c.text])]));
+}
+
+/** Prova do aceite: conteúdo lido + quem + quando + de onde. */
+export function termAcceptanceHash(a: {
+  contentHash: string;
+  cedenteId: string;
+  cpf: string;
+  acceptedAt: Date;
+  acceptedPrograms: LoyaltyProgram[];
+  ip: string | null;
+  userAgent: string | null;
+}) {
+  return sha256(
+    [
+      a.contentHash,
+      a.cedenteId,
+      a.cpf,
+      a.acceptedAt.toISOString(),
+      [...a.acceptedPrograms].sort().join(","),
+      a.ip || "",
+      a.userAgent || "",
+    ].join("|")
+  );
+}
+
+/** Versão vigente do time (null = time ainda no termo legado). */
+export async function getCurrentTerm(db: Db, now = new Date()) {
+  return db.termDocument.findFirst({
+    where: { effectiveAt: { lte: now } },
+    orderBy: [{ effectiveAt: "desc" }, { createdAt: "desc" }],
+  });
+}
+
+export function termLinkPath(token: string) {
+  return `/termos/${token}`;
+}
+
+/** Versão vigente + mensagem de WhatsApp (com fallback para o termo legado). */
+export async function getCurrentTermInfo(db: Db) {
+  const doc = await getCurrentTerm(db);
+  return {
+    doc,
+    versao: doc?.versao ?? TERMO_VERSAO,
+    whatsappMsg: doc?.whatsappMsg || TERMO_WHATSAPP,
+  };
+}
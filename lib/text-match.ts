@@ -0,0 +1,46 @@
+/**
+ * ✅ Comparação de nomes
+ * Normalização (sem acento/pontuação, minúsculo) + similaridade Dice por bigramas.
+ * Usado no import de emissões (nome do Excel → cedente) e na deduplicação de clientes.
+ */
+
+export function normName(s: string) {
+  return (s || "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Similaridade Dice (bigrams)
+export function diceSimilarity(a: string, b: string) {
+  const A = normName(a);
+  const B = normName(b);
+  if (!A || !B) return 0;
+  if (A === B) return 1;
+
+  const bigrams = (s: string) => {
+    const out: string[] = [];
+    for (let i = 0; i < s.length - 1; i++) out.push(s.slice(i, i + 2));
+    return out;
+  };
+
+  const a2 = bigrams(A);
+  const b2 = bigrams(B);
+  if (a2.length === 0 || b2.length === 0) return 0;
+
+  const map = new Map<string, number>();
+  for (const x of a2) map.set(x, (map.get(x) || 0) + 1);
+
+  let inter = 0;
+  for (const x of b2) {
+    const c = map.get(x) || 0;
+    if (c > 0) {
+      inter++;
+      map.set(x, c - 1);
+    }
+  }
+  return (2 * inter) / (a2.length + b2.length);
+}
@@ -0,0 +1,333 @@
+// lib/webhooks.ts
+import "server-only";
+import crypto from "node:crypto";
+import { lookup } from "node:dns/promises";
+import net from "node:net";
+import { prisma } from "@/lib/prisma";
+import { createEnvelopeCipher } from "@/lib/crypto/envelope";
+
+/**
+ * ✅ Dispatcher de webhooks (outbox → endpoints do time).
+ *
+ * 1) fan-out: evento ainda não despachado vira uma entrega por endpoint ativo
+ *    que assina o tipo (events vazio = todos)
+ * 2) entrega: POST JSON assinado; 2xx = DELIVERED, senão nova tentativa com
+ *    backoff; esgotou MAX_ATTEMPTS → DEAD (fila de dead-letter, reenvio manual)
+ *
+ * Assinatura: header X-Webhook-Signature = "sha256=" + HMAC-SHA256(secret, `${timestamp}.${body}`)
+ * com o timestamp (segundos) em X-Webhook-Timestamp.
+ *
+ * Segredo do endpoint cifrado em repouso com chaveiro próprio
+ * (WEBHOOK_SECRET_KEYS, mesmo formato de CEDENTE_CREDENTIALS_KEYS).
+ *
+ * SSRF: a URL só é aceita se o host resolver para endereço público; a checagem
+ * roda ao salvar o endpoint e de novo antes de cada entrega (o DNS pode mudar).
+ */
+
+export const MAX_ATTEMPTS = 8;
+
+// espera antes da tentativa N+1 (após N falhas)
+const BACKOFF_MINUTES = [1, 5, 15, 60, 180, 360, 720, 1440];
+
+const REQUEST_TIMEOUT_MS = 10_000;
+const LEASE_MS = 5 * 60 * 1000; // "trava" a entrega enquanto um dispatcher envia
+
+/** Campos do endpoint que a API devolve (nunca o segredo). */
+export const WEBHOOK_ENDPOINT_SELECT = {
+  id: true,
+  name: true,
+  url: true,
+  events: true,
+  active: true,
+  createdAt: true,
+  updatedAt: true,
+  createdBy: { select: { name: true } },
+} as const;
+
+export function backoffMs(attempts: number) {
+  const i = Math.min(Math.max(attempts, 1), BACKOFF_MINUTES.length) - 1;
+  return BACKOFF_MINUTES[i] * 60 * 1000;
+}
+
+export function generateWebhookSecret() {
+  return `whsec_${crypto.randomBytes(24).toString("base64url")}`;
+}
+
+const secretCipher = createEnvelopeCipher({
+  envVar: "WEBHOOK_SECRET_KEYS",
+  devSeed: "dev-only-webhook-secrets",
+});
+
+export function sealWebhookSecret(plain: string) {
+  return secretCipher.encrypt(plain);
+}
+
+// chave fora do WEBHOOK_SECRET_KEYS / valor corrompido → ilegível (gere um segredo novo)
+function openWebhookSecret(stored: string) {
+  try {
+    return secretCipher.decrypt(stored);
+  } catch {
+    return null;
+  }
+}
+
+export function signWebhook(secret: string, timestamp: number, body: string) {
+  return crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+// ✅ loopback, rede privada, link-local (metadata da nuvem), CGNAT, multicast…
+const BLOCKED_ADDRESSES = (() => {
+  const list = new net.BlockList();
+  const v4: [string, number][] = [
+    ["0.0.0.0", 8],
+    ["10.0.0.0", 8],
+    ["100.64.0.0", 10],
+    ["127.0.0.0", 8],
+    ["169.254.0.0", 16],
+    ["172.16.0.0", 12],
+    ["192.0.0.0", 24],
+    ["192.168.0.0", 16],
+    ["198.18.0.0", 15],
+    ["224.0.0.0", 4],
+    ["240.0.0.0", 4],
+  ];
+  const v6: [string, number][] = [
+    ["::", 128],
+    ["::1", 128],
+    ["64:ff9b::", 96],
+    ["fc00::", 7],
+    ["fe80::", 10],
+    ["ff00::", 8],
+  ];
+  for (const [net4, prefix] of v4) list.addSubnet(net4, prefix, "ipv4");
+  for (const [net6, prefix] of v6) list.addSubnet(net6, prefix, "ipv6");
+  // IPv4 mapeado (::ffff:127.0.0.1) a BlockList já confere contra as regras IPv4
+  return list;
+})();
+
+export function isPrivateAddress(address: string) {
+  const family = net.isIP(address);
+  if (!family) return true;
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+export type WebhookUrlCheck = { ok: true; url: string } | { ok: false; error: string };
+
+/**
+ * Aceita http(s) apenas (em produção, só https) e host que resolve só para
+ * endereços públicos.
+ */
+export async function validateWebhookUrl(raw: unknown): Promise<WebhookUrlCheck> {
+  let u: URL;
+  try {
+    u = new URL(String(raw || "").trim());
+  } catch {
+    return { ok: false, error: "URL inválida (use https://)." };
+  }
+  if (u.protocol !== "https:" && u.protocol !== "http:") return { ok: false, error: "URL inválida (use https://)." };
+  if (process.env.NODE_ENV === "production" && u.protocol !== "https:") {
+    return { ok: false, error: "URL inválida (use https://)." };
+  }
+
+  const host = u.hostname.replace(/^\[|\]$/g, "");
+  let addresses: string[];
+  try {
+    addresses = (await lookup(host, { all: true, verbatim: true })).map((a) => a.address);
+  } catch {
+    return { ok: false, error: `Não foi possível resolver o host ${host}.` };
+  }
+  if (!addresses.length || addresses.some(isPrivateAddress)) {
+    return { ok: false, error: "URL aponta para endereço interno (localhost, rede privada ou link-local)." };
+  }
+
+  return { ok: true, url: u.toString() };
+}
+
+/** Passo 1: cria as entregas dos eventos ainda não despachados. */
+async function fanOutEvents(batch: number) {
+  const events = await prisma.outboxEvent.findMany({
+    where: { dispatchedAt: null },
+    orderBy: { createdAt: "asc" },
+    take: batch,
+    select: { id: true, team: true, type: true },
+  });
+  if (!events.length) return 0;
+
+  const teams = Array.from(new Set(events.map((e) => e.team)));
+  const endpoints = await prisma.webhookEndpoint.findMany({
+    where: { team: { in: teams }, active: true },
+    select: { id: true, team: true, events: true },
+  });
+
+  const deliveries = events.flatMap((e) =>
+    endpoints
+      .filter((ep) => ep.team === e.team && (ep.events.length === 0 || ep.events.includes(e.type)))
+      .map((ep) => ({ team: e.team, eventId: e.id, endpointId: ep.id }))
+  );
+
+  await prisma.$transaction([
+    prisma.webhookDelivery.createMany({ data: deliveries, skipDuplicates: true }),
+    prisma.outboxEvent.updateMany({
+      where: { id: { in: events.map((e) => e.id) } },
+      data: { dispatchedAt: new Date() },
+    }),
+  ]);
+
+  return deliveries.length;
+}
+
+type DeliveryResult = { ok: boolean; statusCode: number | null; error: string | null };
+
+async function postWebhook(args: {
+  url: string;
+  secret: string;
+  deliveryId: string;
+  event: { id: string; team: string; type: string; aggregateType: string; aggregateId: string; payload: unknown; createdAt: Date };
+}): Promise<DeliveryResult> {
+  const body = JSON.stringify({
+    id: args.event.id,
+    type: args.event.type,
+    team: args.event.team,
+    aggregate: { type: args.event.aggregateType, id: args.event.aggregateId },
+    createdAt: args.event.createdAt.toISOString(),
+    data: args.event.payload,
+  });
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  try {
+    const res = await fetch(args.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "GestaoDoLoiro-Webhooks/1",
+        "X-Webhook-Id": args.event.id,
+        "X-Webhook-Delivery": args.deliveryId,
+        "X-Webhook-Event": args.event.type,
+        "X-Webhook-Timestamp": String(timestamp),
+        "X-Webhook-Signature": `sha256=${signWebhook(args.secret, timestamp, body)}`,
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    await res.body?.cancel().catch(() => null);
+
+    if (res.status >= 200 && res.status < 300) return { ok: true, statusCode: res.status, error: null };
+    return { ok: false, statusCode: res.status, error: `HTTP ${res.status}` };
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return { ok: false, statusCode: null, error: msg.slice(0, 500) };
+  }
+}
+
+/**
+ * Tenta UMA entrega (já "reservada" pelo chamador).
+ * Endpoint desativado/removido: a entrega fica parada até ser reativado.
+ */
+export async function attemptDelivery(deliveryId: string) {
+  const d = await prisma.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    select: {
+      id: true,
+      attempts: true,
+      endpoint: { select: { url: true, secret: true, active: true } },
+      event: {
+        select: {
+          id: true,
+          team: true,
+          type: true,
+          aggregateType: true,
+          aggregateId: true,
+          payload: true,
+          createdAt: true,
+        },
+      },
+    },
+  });
+  if (!d || !d.endpoint.active) return null;
+
+  const secret = openWebhookSecret(d.endpoint.secret);
+  const target = await validateWebhookUrl(d.endpoint.url);
+  const r: DeliveryResult = !target.ok
+    ? { ok: false, statusCode: null, error: target.error }
+    : secret
+      ? await postWebhook({ url: target.url, secret, deliveryId: d.id, event: d.event })
+      : { ok: false, statusCode: null, error: "Segredo do endpoint ilegível." };
+
+  const now = new Date();
+  const attempts = d.attempts + 1;
+
+  return prisma.webhookDelivery.update({
+    where: { id: d.id },
+    data: r.ok
+      ? { status: "DELIVERED", attempts, lastAttemptAt: now, lastStatusCode: r.statusCode, lastError: null, deliveredAt: now }
+      : {
+          status: attempts >= MAX_ATTEMPTS ? "DEAD" : "PENDING",
+          attempts,
+          lastAttemptAt: now,
+          lastStatusCode: r.statusCode,
+          lastError: r.error,
+          nextAttemptAt: new Date(now.getTime() + backoffMs(attempts)),
+        },
+    select: { id: true, status: true, attempts: true, lastStatusCode: true, lastError: true },
+  });
+}
+
+/** Passo 2: entregas vencidas. Cada uma é reservada (lease) antes do envio. */
+async function deliverDue(batch: number, now: Date) {
+  const due = await prisma.webhookDelivery.findMany({
+    where: { status: "PENDING", nextAttemptAt: { lte: now }, endpoint: { active: true } },
+    orderBy: { nextAttemptAt: "asc" },
+    take: batch,
+    select: { id: true, nextAttemptAt: true },
+  });
+
+  let delivered = 0;
+  let failed = 0;
+  let dead = 0;
+
+  for (const d of due) {
+    const claimed = await prisma.webhookDelivery.updateMany({
+      where: { id: d.id, status: "PENDING", nextAttemptAt: d.nextAttemptAt },
+      data: { nextAttemptAt: new Date(Date.now() + LEASE_MS) },
+    });
+    if (claimed.count === 0) continue; // outro dispatcher pegou
+
+    const r = await attemptDelivery(d.id);
+    if (!r) continue;
+    if (r.status === "DELIVERED") delivered++;
+    else if (r.status === "DEAD") dead++;
+    else failed++;
+  }
+
+  return { delivered, failed, dead };
+}
+
+export async function dispatchWebhooks(opts: { batch?: number; now?: Date } = {}) {
+  const batch = opts.batch ?? 200;
+  const fannedOut = await fanOutEvents(batch);
+  const r = await deliverDue(batch, opts.now ?? new Date());
+  return { fannedOut, ...r };
+}
+
+/**
+ * Reenvio manual (dead-letter ou qualquer entrega): zera as tentativas e envia já.
+ * Só entregas do time (`team`).
+ */
+export async function replayDelivery(team: string, deliveryId: string) {
+  const reset = await prisma.webhookDelivery.updateMany({
+    where: { id: deliveryId, team },
+    data: { status: "PENDING", attempts: 0, nextAttemptAt: new Date(Date.now() + LEASE_MS), lastError: null },
+  });
+  if (reset.count === 0) return null;
+
+  const r = await attemptDelivery(deliveryId);
+  if (r) return r;
+
+  // endpoint desativado: volta para a fila normal
+  await prisma.webhookDelivery.update({ where: { id: deliveryId }, data: { nextAttemptAt: new Date() } });
+  return prisma.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    select: { id: true, status: true, attempts: true, lastStatusCode: true, lastError: true },
+  });
+}
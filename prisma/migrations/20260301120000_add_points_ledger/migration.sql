@@ -0,0 +1,54 @@
+-- CreateEnum
+CREATE TYPE "PointsLedgerSource" AS ENUM ('OPENING_BALANCE', 'PURCHASE_RELEASE', 'PURCHASE_ADJUSTMENT', 'SALE', 'SALE_CANCEL', 'MANUAL_ADJUSTMENT', 'EXCLUSION', 'REBUILD');
+
+-- CreateTable
+CREATE TABLE "points_ledger_entries" (
+    "id" TEXT NOT NULL,
+    "cedenteId" TEXT NOT NULL,
+    "program" "LoyaltyProgram" NOT NULL,
+    "deltaPoints" INTEGER NOT NULL,
+    "balanceAfter" INTEGER NOT NULL,
+    "source" "PointsLedgerSource" NOT NULL,
+    "refType" TEXT,
+    "refId" TEXT,
+    "note" TEXT,
+    "actorId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "points_ledger_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "points_ledger_entries_cedenteId_program_createdAt_idx" ON "points_ledger_entries"("cedenteId", "program", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "points_ledger_entries_refType_refId_idx" ON "points_ledger_entries"("refType", "refId");
+
+-- CreateIndex
+CREATE INDEX "points_ledger_entries_source_idx" ON "points_ledger_entries"("source");
+
+-- CreateIndex
+CREATE INDEX "points_ledger_entries_createdAt_idx" ON "points_ledger_entries"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "points_ledger_entries" ADD CONSTRAINT "points_ledger_entries_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "points_ledger_entries" ADD CONSTRAINT "points_ledger_entries_cedenteId_fkey" FOREIGN KEY ("cedenteId") REFERENCES "cedentes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: saldo atual de cada cedente/programa vira OPENING_BALANCE
+INSERT INTO "points_ledger_entries" ("id", "cedenteId", "program", "deltaPoints", "balanceAfter", "source", "note")
+SELECT gen_random_uuid()::text, c."id", p.program::"LoyaltyProgram", p.pts, p.pts, 'OPENING_BALANCE', 'Saldo inicial (migração do extrato)'
+FROM "cedentes" c
+CROSS JOIN LATERAL (VALUES
+  ('LATAM', c."pontosLatam"),
+  ('SMILES', c."pontosSmiles"),
+  ('LIVELO', c."pontosLivelo"),
+  ('ESFERA', c."pontosEsfera"),
+  ('AZUL', c."pontosAzul"),
+  ('IBERIA', c."pontosIberia"),
+  ('AA', c."pontosAA"),
+  ('TAP', c."pontosTAP"),
+  ('FLYING_BLUE', c."pontosFlyingBlue")
+) AS p(program, pts)
+WHERE p.pts <> 0;
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "cedente_credential_reveals" (
+    "id" TEXT NOT NULL,
+    "cedenteId" TEXT NOT NULL,
+    "userId" TEXT,
+    "team" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "ip" TEXT,
+    "userAgent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "cedente_credential_reveals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "cedente_credential_reveals_cedenteId_createdAt_idx" ON "cedente_credential_reveals"("cedenteId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "cedente_credential_reveals_userId_createdAt_idx" ON "cedente_credential_reveals"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "cedente_credential_reveals_team_createdAt_idx" ON "cedente_credential_reveals"("team", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "cedente_credential_reveals" ADD CONSTRAINT "cedente_credential_reveals_cedenteId_fkey" FOREIGN KEY ("cedenteId") REFERENCES "cedentes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cedente_credential_reveals" ADD CONSTRAINT "cedente_credential_reveals_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
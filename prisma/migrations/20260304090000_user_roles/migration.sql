@@ -0,0 +1,6 @@
+-- Papéis: owner | admin | finance | seller | viewer
+-- "staff" (legado) vira "seller"
+UPDATE "users" SET "role" = 'seller' WHERE "role" = 'staff';
+
+-- usuário do seed é o dono
+UPDATE "users" SET "role" = 'owner' WHERE "login" = 'rafael';
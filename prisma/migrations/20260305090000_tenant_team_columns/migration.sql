@@ -0,0 +1,60 @@
+-- Isolamento por time: coluna "team" nas tabelas de negócio.
+-- Backfill: pelo dono/cedente quando existe; senão, o time do primeiro usuário
+-- (até aqui o sistema só teve um time).
+
+-- AlterTable
+ALTER TABLE "cedentes" ADD COLUMN "team" TEXT;
+ALTER TABLE "purchases" ADD COLUMN "team" TEXT;
+ALTER TABLE "sales" ADD COLUMN "team" TEXT;
+ALTER TABLE "blocked_accounts" ADD COLUMN "team" TEXT;
+ALTER TABLE "emission_events" ADD COLUMN "team" TEXT;
+ALTER TABLE "debts" ADD COLUMN "team" TEXT;
+ALTER TABLE "receivables" ADD COLUMN "team" TEXT;
+ALTER TABLE "clientes" ADD COLUMN "team" TEXT;
+ALTER TABLE "cash_snapshots" ADD COLUMN "team" TEXT;
+ALTER TABLE "settings" ADD COLUMN "team" TEXT;
+
+-- Backfill
+UPDATE "cedentes" c SET "team" = u."team" FROM "users" u WHERE u."id" = c."ownerId";
+UPDATE "purchases" p SET "team" = c."team" FROM "cedentes" c WHERE c."id" = p."cedenteId";
+UPDATE "sales" s SET "team" = c."team" FROM "cedentes" c WHERE c."id" = s."cedenteId";
+UPDATE "blocked_accounts" b SET "team" = c."team" FROM "cedentes" c WHERE c."id" = b."cedenteId";
+UPDATE "emission_events" e SET "team" = c."team" FROM "cedentes" c WHERE c."id" = e."cedenteId";
+UPDATE "receivables" r SET "team" = s."team" FROM "sales" s WHERE s."receivableId" = r."id";
+UPDATE "debts" d SET "team" = u."team" FROM "users" u WHERE u."id" = d."createdById";
+UPDATE "clientes" cl SET "team" = u."team" FROM "users" u WHERE u."id" = cl."createdById";
+
+UPDATE "debts" SET "team" = (SELECT "team" FROM "users" ORDER BY "createdAt" LIMIT 1) WHERE "team" IS NULL;
+UPDATE "receivables" SET "team" = (SELECT "team" FROM "users" ORDER BY "createdAt" LIMIT 1) WHERE "team" IS NULL;
+UPDATE "clientes" SET "team" = (SELECT "team" FROM "users" ORDER BY "createdAt" LIMIT 1) WHERE "team" IS NULL;
+UPDATE "cash_snapshots" SET "team" = (SELECT "team" FROM "users" ORDER BY "createdAt" LIMIT 1) WHERE "team" IS NULL;
+UPDATE "settings" SET "team" = (SELECT "team" FROM "users" ORDER BY "createdAt" LIMIT 1) WHERE "team" IS NULL;
+
+-- NOT NULL depois do backfill
+ALTER TABLE "cedentes" ALTER COLUMN "team" SET NOT NULL;
+ALTER TABLE "purchases" ALTER COLUMN "team" SET NOT NULL;
+ALTER TABLE "sales" ALTER COLUMN "team" SET NOT NULL;
+ALTER TABLE "blocked_accounts" ALTER COLUMN "team" SET NOT NULL;
+ALTER TABLE "emission_events" ALTER COLUMN "team" SET NOT NULL;
+ALTER TABLE "debts" ALTER COLUMN "team" SET NOT NULL;
+ALTER TABLE "receivables" ALTER COLUMN "team" SET NOT NULL;
+ALTER TABLE "clientes" ALTER COLUMN "team" SET NOT NULL;
+ALTER TABLE "cash_snapshots" ALTER COLUMN "team" SET NOT NULL;
+ALTER TABLE "settings" ALTER COLUMN "team" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "cash_snapshots_date_key";
+DROP INDEX "settings_key_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cash_snapshots_team_date_key" ON "cash_snapshots"("team", "date");
+CREATE UNIQUE INDEX "settings_team_key_key" ON "settings"("team", "key");
+CREATE INDEX "cedentes_team_idx" ON "cedentes"("team");
+CREATE INDEX "cedentes_team_status_idx" ON "cedentes"("team", "status");
+CREATE INDEX "purchases_team_status_idx" ON "purchases"("team", "status");
+CREATE INDEX "sales_team_date_idx" ON "sales"("team", "date");
+CREATE INDEX "blocked_accounts_team_status_idx" ON "blocked_accounts"("team", "status");
+CREATE INDEX "emission_events_team_program_issuedAt_idx" ON "emission_events"("team", "program", "issuedAt");
+CREATE INDEX "debts_team_status_idx" ON "debts"("team", "status");
+CREATE INDEX "receivables_team_status_idx" ON "receivables"("team", "status");
+CREATE INDEX "clientes_team_idx" ON "clientes"("team");
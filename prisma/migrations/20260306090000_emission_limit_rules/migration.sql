@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "EmissionWindowType" AS ENUM ('ROLLING_DAYS', 'ANNUAL_RESET', 'LIFETIME');
+
+-- CreateTable
+CREATE TABLE "emission_limit_rules" (
+    "id" TEXT NOT NULL,
+    "team" TEXT NOT NULL,
+    "program" "LoyaltyProgram" NOT NULL,
+    "windowType" "EmissionWindowType" NOT NULL,
+    "windowDays" INTEGER,
+    "resetMonth" INTEGER,
+    "resetDay" INTEGER,
+    "paxLimit" INTEGER NOT NULL,
+    "updatedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "emission_limit_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "emission_limit_rules_team_program_key" ON "emission_limit_rules"("team", "program");
+
+-- AddForeignKey
+ALTER TABLE "emission_limit_rules" ADD CONSTRAINT "emission_limit_rules_updatedById_fkey" FOREIGN KEY ("updatedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,60 @@
+-- CreateEnum
+CREATE TYPE "LocatorStatus" AS ENUM ('CONFIRMADO', 'ALTERADO', 'CANCELADO', 'NAO_ENCONTRADO', 'ERRO');
+
+-- CreateEnum
+CREATE TYPE "LocatorCheckSource" AS ENUM ('AUTO', 'MANUAL');
+
+-- CreateTable
+CREATE TABLE "sale_locator_checks" (
+    "id" TEXT NOT NULL,
+    "team" TEXT NOT NULL,
+    "saleId" TEXT NOT NULL,
+    "program" "LoyaltyProgram" NOT NULL,
+    "status" "LocatorStatus" NOT NULL,
+    "source" "LocatorCheckSource" NOT NULL,
+    "provider" TEXT,
+    "note" TEXT,
+    "details" JSONB,
+    "checkedById" TEXT,
+    "flagged" BOOLEAN NOT NULL DEFAULT false,
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedById" TEXT,
+    "resolvedNote" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "sale_locator_checks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sale_locator_checks_saleId_createdAt_idx" ON "sale_locator_checks"("saleId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "sale_locator_checks_team_flagged_resolvedAt_idx" ON "sale_locator_checks"("team", "flagged", "resolvedAt");
+
+-- AddForeignKey
+ALTER TABLE "sale_locator_checks" ADD CONSTRAINT "sale_locator_checks_saleId_fkey" FOREIGN KEY ("saleId") REFERENCES "sales"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sale_locator_checks" ADD CONSTRAINT "sale_locator_checks_checkedById_fkey" FOREIGN KEY ("checkedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sale_locator_checks" ADD CONSTRAINT "sale_locator_checks_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: status manual que estava na venda vira a primeira linha do histórico
+INSERT INTO "sale_locator_checks" ("id", "team", "saleId", "program", "status", "source", "note", "createdAt")
+SELECT
+    gen_random_uuid()::text,
+    s."team",
+    s."id",
+    s."program",
+    s."latamLocatorCheckStatus"::"LocatorStatus",
+    'MANUAL',
+    s."latamLocatorCheckNote",
+    COALESCE(s."latamLocatorCheckedAt", s."updatedAt")
+FROM "sales" s
+WHERE s."latamLocatorCheckStatus" IN ('CONFIRMADO', 'ALTERADO', 'CANCELADO');
+
+-- AlterTable
+ALTER TABLE "sales" DROP COLUMN "latamLocatorCheckStatus",
+DROP COLUMN "latamLocatorCheckedAt",
+DROP COLUMN "latamLocatorCheckNote";
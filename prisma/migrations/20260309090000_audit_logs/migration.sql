@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "AuditAction" AS ENUM ('CREATE', 'UPDATE', 'DELETE');
+
+-- CreateTable
+CREATE TABLE "audit_logs" (
+    "id" TEXT NOT NULL,
+    "team" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "recordId" TEXT NOT NULL,
+    "action" "AuditAction" NOT NULL,
+    "actorId" TEXT,
+    "requestId" TEXT,
+    "reason" TEXT,
+    "before" JSONB,
+    "after" JSONB,
+    "changes" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_logs_team_createdAt_idx" ON "audit_logs"("team", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_team_model_recordId_createdAt_idx" ON "audit_logs"("team", "model", "recordId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_team_actorId_createdAt_idx" ON "audit_logs"("team", "actorId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_requestId_idx" ON "audit_logs"("requestId");
+
+-- AddForeignKey
+ALTER TABLE "audit_logs" ADD CONSTRAINT "audit_logs_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,81 @@
+-- CreateEnum
+CREATE TYPE "BankStatementFormat" AS ENUM ('OFX', 'CSV');
+
+-- CreateEnum
+CREATE TYPE "BankLineDirection" AS ENUM ('CREDIT', 'DEBIT');
+
+-- CreateEnum
+CREATE TYPE "BankLineStatus" AS ENUM ('UNMATCHED', 'SUGGESTED', 'MATCHED', 'IGNORED');
+
+-- CreateEnum
+CREATE TYPE "BankMatchType" AS ENUM ('RECEIVABLE', 'DIVIDA_A_RECEBER', 'VIP_LEAD', 'CEDENTE_COMMISSION', 'EMPLOYEE_PAYOUT');
+
+-- CreateTable
+CREATE TABLE "bank_statements" (
+    "id" TEXT NOT NULL,
+    "team" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "format" "BankStatementFormat" NOT NULL,
+    "bankId" TEXT,
+    "accountId" TEXT,
+    "periodFrom" TIMESTAMP(3),
+    "periodTo" TIMESTAMP(3),
+    "linesCount" INTEGER NOT NULL DEFAULT 0,
+    "skippedCount" INTEGER NOT NULL DEFAULT 0,
+    "importedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bank_statements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bank_statement_lines" (
+    "id" TEXT NOT NULL,
+    "team" TEXT NOT NULL,
+    "statementId" TEXT NOT NULL,
+    "fitId" TEXT NOT NULL,
+    "postedAt" TIMESTAMP(3) NOT NULL,
+    "direction" "BankLineDirection" NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+    "description" TEXT NOT NULL,
+    "document" TEXT,
+    "pixKey" TEXT,
+    "status" "BankLineStatus" NOT NULL DEFAULT 'UNMATCHED',
+    "suggestedType" "BankMatchType",
+    "suggestedId" TEXT,
+    "suggestedScore" INTEGER,
+    "suggestedLabel" TEXT,
+    "matchedType" "BankMatchType",
+    "matchedId" TEXT,
+    "matchedLabel" TEXT,
+    "matchedAt" TIMESTAMP(3),
+    "matchedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bank_statement_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bank_statements_team_createdAt_idx" ON "bank_statements"("team", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bank_statement_lines_team_fitId_key" ON "bank_statement_lines"("team", "fitId");
+
+-- CreateIndex
+CREATE INDEX "bank_statement_lines_team_status_postedAt_idx" ON "bank_statement_lines"("team", "status", "postedAt");
+
+-- CreateIndex
+CREATE INDEX "bank_statement_lines_statementId_idx" ON "bank_statement_lines"("statementId");
+
+-- CreateIndex
+CREATE INDEX "bank_statement_lines_matchedType_matchedId_idx" ON "bank_statement_lines"("matchedType", "matchedId");
+
+-- AddForeignKey
+ALTER TABLE "bank_statements" ADD CONSTRAINT "bank_statements_importedById_fkey" FOREIGN KEY ("importedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_statement_lines" ADD CONSTRAINT "bank_statement_lines_statementId_fkey" FOREIGN KEY ("statementId") REFERENCES "bank_statements"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_statement_lines" ADD CONSTRAINT "bank_statement_lines_matchedById_fkey" FOREIGN KEY ("matchedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
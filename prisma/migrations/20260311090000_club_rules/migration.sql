@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "ClubCycleType" AS ENUM ('MONTHLY', 'FIXED_DAYS', 'MANUAL');
+
+-- CreateTable
+CREATE TABLE "club_rules" (
+    "id" TEXT NOT NULL,
+    "team" TEXT NOT NULL,
+    "program" "LoyaltyProgram" NOT NULL,
+    "cycleType" "ClubCycleType" NOT NULL,
+    "renewalDay" INTEGER,
+    "cycleDays" INTEGER,
+    "pauseAfterDays" INTEGER NOT NULL DEFAULT 1,
+    "cancelAfterDays" INTEGER,
+    "bonusEligibleDays" INTEGER,
+    "updatedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "club_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "club_rules_team_program_key" ON "club_rules"("team", "program");
+
+-- AddForeignKey
+ALTER TABLE "club_rules" ADD CONSTRAINT "club_rules_updatedById_fkey" FOREIGN KEY ("updatedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,60 @@
+-- CreateEnum
+CREATE TYPE "ClubChargeSource" AS ENUM ('MANUAL', 'CRON');
+
+-- AlterTable
+ALTER TABLE "club_subscriptions" ADD COLUMN "autoRenew" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "club_charges" (
+    "id" TEXT NOT NULL,
+    "team" TEXT NOT NULL,
+    "clubSubscriptionId" TEXT,
+    "cedenteId" TEXT NOT NULL,
+    "program" "LoyaltyProgram" NOT NULL,
+    "tierK" INTEGER NOT NULL,
+    "chargedAt" TIMESTAMP(3) NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+    "pointsCredited" INTEGER NOT NULL DEFAULT 0,
+    "source" "ClubChargeSource" NOT NULL,
+    "purchaseId" TEXT,
+    "purchaseItemId" TEXT,
+    "notes" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "club_charges_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "club_charges_purchaseItemId_key" ON "club_charges"("purchaseItemId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "club_charges_clubSubscriptionId_chargedAt_key" ON "club_charges"("clubSubscriptionId", "chargedAt");
+
+-- CreateIndex
+CREATE INDEX "club_charges_team_chargedAt_idx" ON "club_charges"("team", "chargedAt");
+
+-- CreateIndex
+CREATE INDEX "club_charges_team_program_idx" ON "club_charges"("team", "program");
+
+-- CreateIndex
+CREATE INDEX "club_charges_cedenteId_idx" ON "club_charges"("cedenteId");
+
+-- CreateIndex
+CREATE INDEX "club_charges_purchaseId_idx" ON "club_charges"("purchaseId");
+
+-- AddForeignKey
+ALTER TABLE "club_charges" ADD CONSTRAINT "club_charges_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "club_charges" ADD CONSTRAINT "club_charges_clubSubscriptionId_fkey" FOREIGN KEY ("clubSubscriptionId") REFERENCES "club_subscriptions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "club_charges" ADD CONSTRAINT "club_charges_cedenteId_fkey" FOREIGN KEY ("cedenteId") REFERENCES "cedentes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "club_charges" ADD CONSTRAINT "club_charges_purchaseId_fkey" FOREIGN KEY ("purchaseId") REFERENCES "purchases"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "club_charges" ADD CONSTRAINT "club_charges_purchaseItemId_fkey" FOREIGN KEY ("purchaseItemId") REFERENCES "purchase_items"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,47 @@
+-- AlterTable
+ALTER TABLE "cedentes" ADD COLUMN "termToken" TEXT;
+
+-- backfill: um token por cedente existente
+UPDATE "cedentes" SET "termToken" = gen_random_uuid()::text WHERE "termToken" IS NULL;
+
+ALTER TABLE "cedentes" ALTER COLUMN "termToken" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "cedente_term_acceptances" ADD COLUMN "termDocumentId" TEXT,
+ADD COLUMN "acceptedPrograms" "LoyaltyProgram"[],
+ADD COLUMN "acceptanceHash" TEXT;
+
+-- CreateTable
+CREATE TABLE "term_documents" (
+    "id" TEXT NOT NULL,
+    "team" TEXT NOT NULL,
+    "versao" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "clauses" JSONB NOT NULL DEFAULT '[]',
+    "whatsappMsg" TEXT,
+    "effectiveAt" TIMESTAMP(3) NOT NULL,
+    "contentHash" TEXT NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "term_documents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cedentes_termToken_key" ON "cedentes"("termToken");
+
+-- CreateIndex
+CREATE INDEX "cedente_term_acceptances_termDocumentId_idx" ON "cedente_term_acceptances"("termDocumentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "term_documents_team_versao_key" ON "term_documents"("team", "versao");
+
+-- CreateIndex
+CREATE INDEX "term_documents_team_effectiveAt_idx" ON "term_documents"("team", "effectiveAt");
+
+-- AddForeignKey
+ALTER TABLE "cedente_term_acceptances" ADD CONSTRAINT "cedente_term_acceptances_termDocumentId_fkey" FOREIGN KEY ("termDocumentId") REFERENCES "term_documents"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "term_documents" ADD CONSTRAINT "term_documents_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
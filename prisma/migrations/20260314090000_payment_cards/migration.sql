@@ -0,0 +1,73 @@
+-- CreateEnum
+CREATE TYPE "PaymentCardOwnerType" AS ENUM ('COMPANY', 'EMPLOYEE');
+
+-- AlterTable
+ALTER TABLE "sales" ADD COLUMN "feeCardId" TEXT;
+
+-- CreateTable
+CREATE TABLE "payment_cards" (
+    "id" TEXT NOT NULL,
+    "team" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "brand" TEXT,
+    "last4" TEXT NOT NULL,
+    "ownerType" "PaymentCardOwnerType" NOT NULL,
+    "ownerUserId" TEXT,
+    "closingDay" INTEGER NOT NULL,
+    "dueDay" INTEGER NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payment_cards_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "payment_card_cycles" (
+    "id" TEXT NOT NULL,
+    "team" TEXT NOT NULL,
+    "cardId" TEXT NOT NULL,
+    "closingDate" TIMESTAMP(3) NOT NULL,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "invoiceCents" INTEGER,
+    "reconciledAt" TIMESTAMP(3),
+    "reconciledById" TEXT,
+    "reimbursedCents" INTEGER,
+    "reimbursedAt" TIMESTAMP(3),
+    "reimbursedById" TEXT,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payment_card_cycles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sales_feeCardId_date_idx" ON "sales"("feeCardId", "date");
+
+-- CreateIndex
+CREATE INDEX "payment_cards_team_active_idx" ON "payment_cards"("team", "active");
+
+-- CreateIndex
+CREATE INDEX "payment_cards_ownerUserId_idx" ON "payment_cards"("ownerUserId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_card_cycles_cardId_closingDate_key" ON "payment_card_cycles"("cardId", "closingDate");
+
+-- CreateIndex
+CREATE INDEX "payment_card_cycles_team_closingDate_idx" ON "payment_card_cycles"("team", "closingDate");
+
+-- AddForeignKey
+ALTER TABLE "sales" ADD CONSTRAINT "sales_feeCardId_fkey" FOREIGN KEY ("feeCardId") REFERENCES "payment_cards"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_cards" ADD CONSTRAINT "payment_cards_ownerUserId_fkey" FOREIGN KEY ("ownerUserId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_card_cycles" ADD CONSTRAINT "payment_card_cycles_reconciledById_fkey" FOREIGN KEY ("reconciledById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_card_cycles" ADD CONSTRAINT "payment_card_cycles_reimbursedById_fkey" FOREIGN KEY ("reimbursedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_card_cycles" ADD CONSTRAINT "payment_card_cycles_cardId_fkey" FOREIGN KEY ("cardId") REFERENCES "payment_cards"("id") ON DELETE CASCADE ON UPDATE CASCADE;
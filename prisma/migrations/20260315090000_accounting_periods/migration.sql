@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "settings" ADD COLUMN "nfseCnpj" TEXT,
+ADD COLUMN "nfseInscricaoMunicipal" TEXT,
+ADD COLUMN "nfseRazaoSocial" TEXT,
+ADD COLUMN "nfseCodigoMunicipio" TEXT,
+ADD COLUMN "nfseItemListaServico" TEXT,
+ADD COLUMN "nfseCodigoTributacao" TEXT,
+ADD COLUMN "nfseAliquotaBps" INTEGER NOT NULL DEFAULT 500,
+ADD COLUMN "nfseSimplesNacional" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateTable
+CREATE TABLE "accounting_periods" (
+    "id" TEXT NOT NULL,
+    "team" TEXT NOT NULL,
+    "month" TEXT NOT NULL,
+    "closedAt" TIMESTAMP(3),
+    "closedById" TEXT,
+    "exports" JSONB,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "accounting_periods_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "accounting_periods_team_month_key" ON "accounting_periods"("team", "month");
+
+-- CreateIndex
+CREATE INDEX "accounting_periods_team_closedAt_idx" ON "accounting_periods"("team", "closedAt");
+
+-- AddForeignKey
+ALTER TABLE "accounting_periods" ADD CONSTRAINT "accounting_periods_closedById_fkey" FOREIGN KEY ("closedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "PeriodAdjustmentKind" AS ENUM ('SALE_CANCEL', 'SALE_REACTIVATE');
+
+-- AlterTable
+ALTER TABLE "accounting_periods" ADD COLUMN "snapshot" JSONB,
+ADD COLUMN "reopenRequestedAt" TIMESTAMP(3),
+ADD COLUMN "reopenRequestedById" TEXT,
+ADD COLUMN "reopenReason" TEXT,
+ADD COLUMN "reopenedAt" TIMESTAMP(3),
+ADD COLUMN "reopenedById" TEXT;
+
+-- CreateTable
+CREATE TABLE "period_adjustments" (
+    "id" TEXT NOT NULL,
+    "team" TEXT NOT NULL,
+    "periodMonth" TEXT NOT NULL,
+    "postedMonth" TEXT NOT NULL,
+    "kind" "PeriodAdjustmentKind" NOT NULL,
+    "saleId" TEXT,
+    "amountCents" INTEGER NOT NULL,
+    "description" TEXT NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "period_adjustments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "period_adjustments_team_postedMonth_idx" ON "period_adjustments"("team", "postedMonth");
+
+-- CreateIndex
+CREATE INDEX "period_adjustments_team_periodMonth_idx" ON "period_adjustments"("team", "periodMonth");
+
+-- CreateIndex
+CREATE INDEX "period_adjustments_saleId_idx" ON "period_adjustments"("saleId");
+
+-- AddForeignKey
+ALTER TABLE "accounting_periods" ADD CONSTRAINT "accounting_periods_reopenRequestedById_fkey" FOREIGN KEY ("reopenRequestedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "accounting_periods" ADD CONSTRAINT "accounting_periods_reopenedById_fkey" FOREIGN KEY ("reopenedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "period_adjustments" ADD CONSTRAINT "period_adjustments_saleId_fkey" FOREIGN KEY ("saleId") REFERENCES "sales"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "period_adjustments" ADD CONSTRAINT "period_adjustments_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
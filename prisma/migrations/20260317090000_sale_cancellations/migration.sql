@@ -0,0 +1,94 @@
+-- CreateEnum
+CREATE TYPE "SaleRefundStatus" AS ENUM ('NONE', 'PENDING', 'PAID');
+
+-- CreateTable
+CREATE TABLE "sale_cancellations" (
+    "id" TEXT NOT NULL,
+    "team" TEXT NOT NULL,
+    "saleId" TEXT NOT NULL,
+    "clienteId" TEXT NOT NULL,
+    "reason" TEXT,
+    "saleTotalCents" INTEGER NOT NULL,
+    "refundCents" INTEGER NOT NULL DEFAULT 0,
+    "refundStatus" "SaleRefundStatus" NOT NULL DEFAULT 'NONE',
+    "refundPaidAt" TIMESTAMP(3),
+    "refundPaidById" TEXT,
+    "refundNote" TEXT,
+    "pointsReturned" INTEGER NOT NULL DEFAULT 0,
+    "passengersReleased" INTEGER NOT NULL DEFAULT 0,
+    "emissionReversalId" TEXT,
+    "adjustmentId" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sale_cancellations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "payout_clawbacks" (
+    "id" TEXT NOT NULL,
+    "team" TEXT NOT NULL,
+    "cancellationId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "sourceDate" TEXT NOT NULL,
+    "sourcePayoutId" TEXT,
+    "commissionCents" INTEGER NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+    "appliedDate" TEXT,
+    "appliedPayoutId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payout_clawbacks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sale_cancellations_emissionReversalId_key" ON "sale_cancellations"("emissionReversalId");
+
+-- CreateIndex
+CREATE INDEX "sale_cancellations_team_createdAt_idx" ON "sale_cancellations"("team", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "sale_cancellations_team_refundStatus_idx" ON "sale_cancellations"("team", "refundStatus");
+
+-- CreateIndex
+CREATE INDEX "sale_cancellations_saleId_idx" ON "sale_cancellations"("saleId");
+
+-- CreateIndex
+CREATE INDEX "sale_cancellations_clienteId_idx" ON "sale_cancellations"("clienteId");
+
+-- CreateIndex
+CREATE INDEX "payout_clawbacks_team_userId_appliedPayoutId_idx" ON "payout_clawbacks"("team", "userId", "appliedPayoutId");
+
+-- CreateIndex
+CREATE INDEX "payout_clawbacks_cancellationId_idx" ON "payout_clawbacks"("cancellationId");
+
+-- CreateIndex
+CREATE INDEX "payout_clawbacks_appliedPayoutId_idx" ON "payout_clawbacks"("appliedPayoutId");
+
+-- AddForeignKey
+ALTER TABLE "sale_cancellations" ADD CONSTRAINT "sale_cancellations_saleId_fkey" FOREIGN KEY ("saleId") REFERENCES "sales"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sale_cancellations" ADD CONSTRAINT "sale_cancellations_clienteId_fkey" FOREIGN KEY ("clienteId") REFERENCES "clientes"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sale_cancellations" ADD CONSTRAINT "sale_cancellations_refundPaidById_fkey" FOREIGN KEY ("refundPaidById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sale_cancellations" ADD CONSTRAINT "sale_cancellations_emissionReversalId_fkey" FOREIGN KEY ("emissionReversalId") REFERENCES "emission_events"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sale_cancellations" ADD CONSTRAINT "sale_cancellations_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payout_clawbacks" ADD CONSTRAINT "payout_clawbacks_cancellationId_fkey" FOREIGN KEY ("cancellationId") REFERENCES "sale_cancellations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payout_clawbacks" ADD CONSTRAINT "payout_clawbacks_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payout_clawbacks" ADD CONSTRAINT "payout_clawbacks_sourcePayoutId_fkey" FOREIGN KEY ("sourcePayoutId") REFERENCES "employee_payouts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payout_clawbacks" ADD CONSTRAINT "payout_clawbacks_appliedPayoutId_fkey" FOREIGN KEY ("appliedPayoutId") REFERENCES "employee_payouts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,79 @@
+-- CreateEnum
+CREATE TYPE "InstallmentStatus" AS ENUM ('OPEN', 'PARTIAL', 'PAID', 'CANCELED');
+
+-- CreateTable
+CREATE TABLE "receivable_installments" (
+    "id" TEXT NOT NULL,
+    "team" TEXT NOT NULL,
+    "receivableId" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+    "paidCents" INTEGER NOT NULL DEFAULT 0,
+    "status" "InstallmentStatus" NOT NULL DEFAULT 'OPEN',
+    "paidAt" TIMESTAMP(3),
+    "lastReminderAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "receivable_installments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "receipt_allocations" (
+    "id" TEXT NOT NULL,
+    "receiptId" TEXT NOT NULL,
+    "installmentId" TEXT NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "receipt_allocations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "receivable_installments_receivableId_number_key" ON "receivable_installments"("receivableId", "number");
+
+-- CreateIndex
+CREATE INDEX "receivable_installments_team_status_dueDate_idx" ON "receivable_installments"("team", "status", "dueDate");
+
+-- CreateIndex
+CREATE INDEX "receipt_allocations_receiptId_idx" ON "receipt_allocations"("receiptId");
+
+-- CreateIndex
+CREATE INDEX "receipt_allocations_installmentId_idx" ON "receipt_allocations"("installmentId");
+
+-- AddForeignKey
+ALTER TABLE "receivable_installments" ADD CONSTRAINT "receivable_installments_receivableId_fkey" FOREIGN KEY ("receivableId") REFERENCES "receivables"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "receipt_allocations" ADD CONSTRAINT "receipt_allocations_receiptId_fkey" FOREIGN KEY ("receiptId") REFERENCES "Receipt"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "receipt_allocations" ADD CONSTRAINT "receipt_allocations_installmentId_fkey" FOREIGN KEY ("installmentId") REFERENCES "receivable_installments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: recebíveis existentes viram plano de 1 parcela (vencimento = data da venda)
+INSERT INTO "receivable_installments" ("id", "team", "receivableId", "number", "dueDate", "amountCents", "paidCents", "status", "paidAt", "updatedAt")
+SELECT
+    gen_random_uuid()::text,
+    r."team",
+    r."id",
+    1,
+    COALESCE(s."date", r."createdAt"),
+    r."totalCents",
+    LEAST(r."receivedCents", r."totalCents"),
+    (CASE
+        WHEN r."status" = 'CANCELED' THEN 'CANCELED'
+        WHEN r."receivedCents" >= r."totalCents" THEN 'PAID'
+        WHEN r."receivedCents" > 0 THEN 'PARTIAL'
+        ELSE 'OPEN'
+    END)::"InstallmentStatus",
+    CASE WHEN r."receivedCents" >= r."totalCents" THEN r."updatedAt" ELSE NULL END,
+    CURRENT_TIMESTAMP
+FROM "receivables" r
+LEFT JOIN "sales" s ON s."receivableId" = r."id"
+WHERE r."totalCents" > 0;
+
+INSERT INTO "receipt_allocations" ("id", "receiptId", "installmentId", "amountCents")
+SELECT gen_random_uuid()::text, rc."id", i."id", rc."amountCents"
+FROM "Receipt" rc
+JOIN "receivable_installments" i ON i."receivableId" = rc."receivableId" AND i."number" = 1;
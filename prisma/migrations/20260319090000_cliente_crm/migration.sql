@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "clientes" ADD COLUMN "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "cliente_notes" (
+    "id" TEXT NOT NULL,
+    "team" TEXT NOT NULL,
+    "clienteId" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "authorId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "cliente_notes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "cliente_notes_team_clienteId_createdAt_idx" ON "cliente_notes"("team", "clienteId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "cliente_notes" ADD CONSTRAINT "cliente_notes_clienteId_fkey" FOREIGN KEY ("clienteId") REFERENCES "clientes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cliente_notes" ADD CONSTRAINT "cliente_notes_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,54 @@
+-- AlterTable
+ALTER TABLE "clientes" ADD COLUMN "mergedIntoId" TEXT,
+ADD COLUMN "mergedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "cliente_merges" (
+    "id" TEXT NOT NULL,
+    "team" TEXT NOT NULL,
+    "keptId" TEXT NOT NULL,
+    "mergedId" TEXT NOT NULL,
+    "saleIds" TEXT[],
+    "balcaoSupplierIds" TEXT[],
+    "balcaoFinalIds" TEXT[],
+    "cancellationIds" TEXT[],
+    "noteIds" TEXT[],
+    "keptBefore" JSONB NOT NULL,
+    "reason" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "undoneAt" TIMESTAMP(3),
+    "undoneById" TEXT,
+
+    CONSTRAINT "cliente_merges_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "clientes_team_cpfCnpj_idx" ON "clientes"("team", "cpfCnpj");
+
+-- CreateIndex
+CREATE INDEX "clientes_mergedIntoId_idx" ON "clientes"("mergedIntoId");
+
+-- CreateIndex
+CREATE INDEX "cliente_merges_team_createdAt_idx" ON "cliente_merges"("team", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "cliente_merges_keptId_idx" ON "cliente_merges"("keptId");
+
+-- CreateIndex
+CREATE INDEX "cliente_merges_mergedId_idx" ON "cliente_merges"("mergedId");
+
+-- AddForeignKey
+ALTER TABLE "clientes" ADD CONSTRAINT "clientes_mergedIntoId_fkey" FOREIGN KEY ("mergedIntoId") REFERENCES "clientes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cliente_merges" ADD CONSTRAINT "cliente_merges_keptId_fkey" FOREIGN KEY ("keptId") REFERENCES "clientes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cliente_merges" ADD CONSTRAINT "cliente_merges_mergedId_fkey" FOREIGN KEY ("mergedId") REFERENCES "clientes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cliente_merges" ADD CONSTRAINT "cliente_merges_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cliente_merges" ADD CONSTRAINT "cliente_merges_undoneById_fkey" FOREIGN KEY ("undoneById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "CommissionTaxBasis" AS ENUM ('TEAM_SETTINGS', 'FIXED', 'NONE');
+
+-- CreateTable
+CREATE TABLE "commission_plans" (
+    "id" TEXT NOT NULL,
+    "team" TEXT NOT NULL,
+    "userId" TEXT,
+    "version" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL,
+    "c1Tiers" JSONB NOT NULL,
+    "bonusCurve" JSONB NOT NULL,
+    "balcaoBps" INTEGER NOT NULL DEFAULT 6000,
+    "taxBasis" "CommissionTaxBasis" NOT NULL DEFAULT 'TEAM_SETTINGS',
+    "taxPercent" INTEGER,
+    "note" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "commission_plans_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "commission_plans_team_userId_effectiveFrom_idx" ON "commission_plans"("team", "userId", "effectiveFrom");
+
+-- AddForeignKey
+ALTER TABLE "commission_plans" ADD CONSTRAINT "commission_plans_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "commission_plans" ADD CONSTRAINT "commission_plans_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,54 @@
+-- CreateTable
+CREATE TABLE "milheiro_rates" (
+    "id" TEXT NOT NULL,
+    "team" TEXT NOT NULL,
+    "program" "LoyaltyProgram" NOT NULL,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL,
+    "sellRateCents" INTEGER NOT NULL,
+    "buyRateCents" INTEGER,
+    "note" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "milheiro_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "cash_snapshots" ADD COLUMN "milheiroRates" JSONB;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "milheiro_rates_team_program_effectiveFrom_key" ON "milheiro_rates"("team", "program", "effectiveFrom");
+
+-- CreateIndex
+CREATE INDEX "milheiro_rates_team_effectiveFrom_idx" ON "milheiro_rates"("team", "effectiveFrom");
+
+-- AddForeignKey
+ALTER TABLE "milheiro_rates" ADD CONSTRAINT "milheiro_rates_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: o valor atual de cada programa em Settings vira a primeira linha
+-- do histórico, vigente desde a criação das configurações (dia de Recife).
+INSERT INTO "milheiro_rates" ("id", "team", "program", "effectiveFrom", "sellRateCents", "note", "createdAt", "updatedAt")
+SELECT
+    gen_random_uuid()::text,
+    s."team",
+    v."program"::"LoyaltyProgram",
+    (date_trunc('day', s."createdAt" AT TIME ZONE 'UTC' AT TIME ZONE 'America/Recife') AT TIME ZONE 'America/Recife') AT TIME ZONE 'UTC',
+    v."rate",
+    'Valor das configurações na migração',
+    CURRENT_TIMESTAMP,
+    CURRENT_TIMESTAMP
+FROM "settings" s
+CROSS JOIN LATERAL (
+    VALUES
+        ('LATAM', s."latamRateCents"),
+        ('SMILES', s."smilesRateCents"),
+        ('LIVELO', s."liveloRateCents"),
+        ('ESFERA', s."esferaRateCents"),
+        ('AZUL', s."azulRateCents"),
+        ('IBERIA', s."iberiaRateCents"),
+        ('AA', s."aaRateCents"),
+        ('TAP', s."tapRateCents"),
+        ('FLYING_BLUE', s."flyingBlueRateCents")
+) AS v("program", "rate")
+WHERE s."key" = 'default';
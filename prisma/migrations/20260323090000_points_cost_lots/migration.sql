@@ -0,0 +1,122 @@
+-- CreateEnum
+CREATE TYPE "CostMethod" AS ENUM ('FIFO', 'AVERAGE');
+
+-- CreateEnum
+CREATE TYPE "PointsLotSource" AS ENUM ('PURCHASE', 'PURCHASE_ADJUSTMENT', 'OPENING');
+
+-- AlterTable
+ALTER TABLE "settings" ADD COLUMN "costMethod" "CostMethod" NOT NULL DEFAULT 'FIFO';
+
+-- AlterTable
+ALTER TABLE "sales" ADD COLUMN "cogsCents" INTEGER,
+ADD COLUMN "cogsUncoveredPoints" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "points_lots" (
+    "id" TEXT NOT NULL,
+    "team" TEXT NOT NULL,
+    "cedenteId" TEXT NOT NULL,
+    "program" "LoyaltyProgram" NOT NULL,
+    "source" "PointsLotSource" NOT NULL,
+    "purchaseId" TEXT,
+    "purchaseItemId" TEXT,
+    "acquiredAt" TIMESTAMP(3) NOT NULL,
+    "pointsIn" INTEGER NOT NULL,
+    "pointsRemaining" INTEGER NOT NULL,
+    "costPerMilheiroCents" INTEGER NOT NULL,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "points_lots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "points_lot_consumptions" (
+    "id" TEXT NOT NULL,
+    "team" TEXT NOT NULL,
+    "lotId" TEXT NOT NULL,
+    "saleId" TEXT,
+    "refType" TEXT,
+    "refId" TEXT,
+    "points" INTEGER NOT NULL,
+    "costCents" INTEGER NOT NULL,
+    "method" "CostMethod" NOT NULL,
+    "reversedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "points_lot_consumptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "points_lots_cedenteId_program_acquiredAt_idx" ON "points_lots"("cedenteId", "program", "acquiredAt");
+
+-- CreateIndex
+CREATE INDEX "points_lots_team_program_idx" ON "points_lots"("team", "program");
+
+-- CreateIndex
+CREATE INDEX "points_lots_purchaseId_idx" ON "points_lots"("purchaseId");
+
+-- CreateIndex
+CREATE INDEX "points_lot_consumptions_lotId_idx" ON "points_lot_consumptions"("lotId");
+
+-- CreateIndex
+CREATE INDEX "points_lot_consumptions_saleId_idx" ON "points_lot_consumptions"("saleId");
+
+-- CreateIndex
+CREATE INDEX "points_lot_consumptions_refType_refId_idx" ON "points_lot_consumptions"("refType", "refId");
+
+-- AddForeignKey
+ALTER TABLE "points_lots" ADD CONSTRAINT "points_lots_cedenteId_fkey" FOREIGN KEY ("cedenteId") REFERENCES "cedentes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "points_lots" ADD CONSTRAINT "points_lots_purchaseId_fkey" FOREIGN KEY ("purchaseId") REFERENCES "purchases"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "points_lot_consumptions" ADD CONSTRAINT "points_lot_consumptions_lotId_fkey" FOREIGN KEY ("lotId") REFERENCES "points_lots"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "points_lot_consumptions" ADD CONSTRAINT "points_lot_consumptions_saleId_fkey" FOREIGN KEY ("saleId") REFERENCES "sales"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: saldo atual de cada cedente/programa vira um lote de abertura,
+-- custando o milheiro da última compra liberada do cedente naquela CIA
+-- (sem compra: custo 0 — aparece como "sem custo" na tela de estoque).
+INSERT INTO "points_lots" ("id", "team", "cedenteId", "program", "source", "purchaseId", "acquiredAt", "pointsIn", "pointsRemaining", "costPerMilheiroCents", "note", "createdAt", "updatedAt")
+SELECT
+    gen_random_uuid()::text,
+    c."team",
+    c."id",
+    v."program"::"LoyaltyProgram",
+    'OPENING',
+    lp."id",
+    CURRENT_TIMESTAMP,
+    v."points",
+    v."points",
+    COALESCE(lp."custoMilheiroCents", 0),
+    'Saldo inicial (migração dos lotes)',
+    CURRENT_TIMESTAMP,
+    CURRENT_TIMESTAMP
+FROM "cedentes" c
+CROSS JOIN LATERAL (
+    VALUES
+        ('LATAM', c."pontosLatam"),
+        ('SMILES', c."pontosSmiles"),
+        ('LIVELO', c."pontosLivelo"),
+        ('ESFERA', c."pontosEsfera"),
+        ('AZUL', c."pontosAzul"),
+        ('IBERIA', c."pontosIberia"),
+        ('AA', c."pontosAA"),
+        ('TAP', c."pontosTAP"),
+        ('FLYING_BLUE', c."pontosFlyingBlue")
+) AS v("program", "points")
+LEFT JOIN LATERAL (
+    SELECT p."id", p."custoMilheiroCents"
+    FROM "purchases" p
+    WHERE p."cedenteId" = c."id"
+      AND p."ciaAerea"::text = v."program"
+      AND p."status" = 'CLOSED'
+      AND p."custoMilheiroCents" > 0
+    ORDER BY COALESCE(p."liberadoEm", p."createdAt") DESC
+    LIMIT 1
+) lp ON TRUE
+WHERE v."points" > 0;
@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "blocked_accounts" ADD COLUMN "reasonCode" VARCHAR(40),
+ADD COLUMN "pointsAtBlock" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "overdueNotifiedAt" TIMESTAMP(3);
+
+-- Único só entre os OPEN: o mesmo cedente/programa pode ter vários bloqueios resolvidos (histórico do SLA)
+DROP INDEX "uniq_open_block_per_program";
+CREATE UNIQUE INDEX "uniq_open_block_per_program" ON "blocked_accounts"("cedenteId", "program", "status") WHERE "status" = 'OPEN';
+
+-- AlterTable
+ALTER TABLE "protocols" ADD COLUMN "blockedAccountId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "protocols_blockedAccountId_idx" ON "protocols"("blockedAccountId");
+
+-- AddForeignKey
+ALTER TABLE "protocols" ADD CONSTRAINT "protocols_blockedAccountId_fkey" FOREIGN KEY ("blockedAccountId") REFERENCES "blocked_accounts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: pontos travados = saldo atual do cedente no programa (melhor aproximação disponível)
+UPDATE "blocked_accounts" b
+SET "pointsAtBlock" = GREATEST(0, CASE b."program"
+    WHEN 'LATAM' THEN c."pontosLatam"
+    WHEN 'SMILES' THEN c."pontosSmiles"
+    WHEN 'LIVELO' THEN c."pontosLivelo"
+    WHEN 'ESFERA' THEN c."pontosEsfera"
+    WHEN 'AZUL' THEN c."pontosAzul"
+    WHEN 'IBERIA' THEN c."pontosIberia"
+    WHEN 'AA' THEN c."pontosAA"
+    WHEN 'TAP' THEN c."pontosTAP"
+    WHEN 'FLYING_BLUE' THEN c."pontosFlyingBlue"
+    ELSE 0
+  END)
+FROM "cedentes" c
+WHERE c."id" = b."cedenteId";
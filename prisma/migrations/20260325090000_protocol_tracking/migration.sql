@@ -0,0 +1,78 @@
+-- CreateEnum
+CREATE TYPE "ProtocolChannel" AS ENUM ('SAC', 'RECLAME_AQUI', 'CONSUMIDOR_GOV');
+
+-- AlterTable
+ALTER TABLE "protocols" ADD COLUMN "externalNumber" VARCHAR(60),
+ADD COLUMN "channel" "ProtocolChannel",
+ADD COLUMN "sentAt" TIMESTAMP(3),
+ADD COLUMN "dueAt" TIMESTAMP(3),
+ADD COLUMN "closedAt" TIMESTAMP(3),
+ADD COLUMN "escalatedAt" TIMESTAMP(3),
+ADD COLUMN "escalatedFromId" TEXT;
+
+-- CreateTable
+CREATE TABLE "protocol_status_logs" (
+    "id" TEXT NOT NULL,
+    "team" TEXT NOT NULL,
+    "protocolId" TEXT NOT NULL,
+    "fromStatus" "ProtocolStatus",
+    "toStatus" "ProtocolStatus" NOT NULL,
+    "note" VARCHAR(300),
+    "changedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "protocol_status_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "protocol_attachments" (
+    "id" TEXT NOT NULL,
+    "team" TEXT NOT NULL,
+    "protocolId" TEXT NOT NULL,
+    "fileName" VARCHAR(200) NOT NULL,
+    "contentType" VARCHAR(100) NOT NULL,
+    "sizeBytes" INTEGER NOT NULL,
+    "storage" VARCHAR(20) NOT NULL,
+    "storageKey" VARCHAR(300) NOT NULL,
+    "uploadedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "protocol_attachments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "protocols_team_status_dueAt_idx" ON "protocols"("team", "status", "dueAt");
+
+-- CreateIndex
+CREATE INDEX "protocol_status_logs_protocolId_createdAt_idx" ON "protocol_status_logs"("protocolId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "protocol_status_logs_team_idx" ON "protocol_status_logs"("team");
+
+-- CreateIndex
+CREATE INDEX "protocol_attachments_protocolId_idx" ON "protocol_attachments"("protocolId");
+
+-- CreateIndex
+CREATE INDEX "protocol_attachments_team_idx" ON "protocol_attachments"("team");
+
+-- AddForeignKey
+ALTER TABLE "protocols" ADD CONSTRAINT "protocols_escalatedFromId_fkey" FOREIGN KEY ("escalatedFromId") REFERENCES "protocols"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "protocol_status_logs" ADD CONSTRAINT "protocol_status_logs_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "protocol_status_logs" ADD CONSTRAINT "protocol_status_logs_protocolId_fkey" FOREIGN KEY ("protocolId") REFERENCES "protocols"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "protocol_attachments" ADD CONSTRAINT "protocol_attachments_uploadedById_fkey" FOREIGN KEY ("uploadedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "protocol_attachments" ADD CONSTRAINT "protocol_attachments_protocolId_fkey" FOREIGN KEY ("protocolId") REFERENCES "protocols"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: status atual vira a primeira linha do log; fechados ganham closedAt
+INSERT INTO "protocol_status_logs" ("id", "team", "protocolId", "fromStatus", "toStatus", "note", "changedById", "createdAt")
+SELECT gen_random_uuid()::text, p."team", p."id", NULL, p."status", 'Status inicial (antes do log)', p."updatedById", p."updatedAt"
+FROM "protocols" p;
+
+UPDATE "protocols" SET "closedAt" = "updatedAt" WHERE "status" IN ('RESOLVED', 'DENIED');
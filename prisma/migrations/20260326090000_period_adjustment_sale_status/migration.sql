@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "PeriodAdjustmentKind" ADD VALUE IF NOT EXISTS 'SALE_STATUS';
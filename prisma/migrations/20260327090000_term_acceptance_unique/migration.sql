@@ -0,0 +1,15 @@
+-- Aceites repetidos da mesma versão (corrida do link público): o primeiro
+-- continua ligado ao documento, os demais ficam só como histórico
+UPDATE "cedente_term_acceptances" AS a
+SET "termDocumentId" = NULL
+WHERE a."termDocumentId" IS NOT NULL
+  AND EXISTS (
+    SELECT 1
+    FROM "cedente_term_acceptances" AS b
+    WHERE b."cedenteId" = a."cedenteId"
+      AND b."termDocumentId" = a."termDocumentId"
+      AND (b."acceptedAt" < a."acceptedAt" OR (b."acceptedAt" = a."acceptedAt" AND b."id" < a."id"))
+  );
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cedente_term_acceptances_cedenteId_termDocumentId_key" ON "cedente_term_acceptances"("cedenteId", "termDocumentId");
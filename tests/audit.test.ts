@@ -0,0 +1,92 @@
+import type { PrismaClient } from "@prisma/client";
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { createTestDatabase } from "./helpers/db";
+
+/**
+ * ✅ Auditoria pelo client do time: "antes" lido pela própria transação
+ * e nada gravado em rollback.
+ */
+
+type TenantModule = typeof import("@/lib/tenant");
+
+let prisma: PrismaClient;
+let tenant: TenantModule;
+
+const TEAM = "t1";
+
+beforeAll(async () => {
+  ({ prisma } = await createTestDatabase());
+  tenant = await import("@/lib/tenant");
+});
+
+beforeEach(async () => {
+  await prisma.auditLog.deleteMany();
+  await prisma.debt.deleteMany();
+});
+
+async function logsOf(recordId: string) {
+  return prisma.auditLog.findMany({
+    where: { recordId },
+    orderBy: { createdAt: "asc" },
+    select: { action: true, before: true, after: true, changes: true },
+  });
+}
+
+describe("auditedQuery", () => {
+  it("fora de transação: antes e depois do update", async () => {
+    const db = tenant.tenantPrisma(TEAM);
+    const debt = await db.debt.create({ data: { team: TEAM, title: "A", totalCents: 100 } });
+    await db.debt.update({ where: { id: debt.id }, data: { totalCents: 150 } });
+
+    const logs = await logsOf(debt.id);
+    expect(logs.map((l) => l.action)).toEqual(["CREATE", "UPDATE"]);
+    expect(logs[1]).toMatchObject({ before: { totalCents: 100 }, after: { totalCents: 150 }, changes: ["totalCents"] });
+  });
+
+  it("dentro da transação o antes enxerga o que ela já mudou", async () => {
+    const db = tenant.tenantPrisma(TEAM);
+    const debt = await db.debt.create({ data: { team: TEAM, title: "A", totalCents: 100 } });
+
+    await db.$transaction(async (tx) => {
+      await tx.debt.update({ where: { id: debt.id }, data: { totalCents: 150 } });
+      await tx.debt.updateMany({ where: { id: debt.id }, data: { totalCents: { increment: 50 } } });
+      await tx.debt.update({ where: { id: debt.id }, data: { title: "B" } });
+    });
+
+    const updates = (await logsOf(debt.id)).filter((l) => l.action === "UPDATE");
+    expect(updates.map((l) => [(l.before as { totalCents: number }).totalCents, l.changes])).toEqual([
+      [100, ["totalCents"]],
+      [150, ["totalCents"]],
+      [200, ["title"]],
+    ]);
+    expect(updates[1].after).toMatchObject({ totalCents: 200 });
+  });
+
+  it("registro criado na mesma transação e atualizado nela", async () => {
+    const db = tenant.tenantPrisma(TEAM);
+
+    const id = await db.$transaction(async (tx) => {
+      const debt = await tx.debt.create({ data: { team: TEAM, title: "Nova", totalCents: 10 } });
+      await tx.debt.update({ where: { id: debt.id }, data: { totalCents: 20 } });
+      return debt.id;
+    });
+
+    const logs = await logsOf(id);
+    expect(logs.map((l) => l.action)).toEqual(["CREATE", "UPDATE"]);
+    expect(logs[1].before).toMatchObject({ totalCents: 10 });
+  });
+
+  it("rollback não grava log", async () => {
+    const db = tenant.tenantPrisma(TEAM);
+    const debt = await db.debt.create({ data: { team: TEAM, title: "A", totalCents: 100 } });
+
+    await expect(
+      db.$transaction(async (tx) => {
+        await tx.debt.update({ where: { id: debt.id }, data: { totalCents: 999 } });
+        throw new Error("desfaz");
+      })
+    ).rejects.toThrow("desfaz");
+
+    expect((await logsOf(debt.id)).map((l) => l.action)).toEqual(["CREATE"]);
+  });
+});
@@ -0,0 +1,345 @@
+import type { PrismaClient } from "@prisma/client";
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { createTestDatabase } from "./helpers/db";
+
+/**
+ * ✅ Cancelamento de venda: teto do reembolso, pontos de volta (lotes),
+ * estorno de passageiros, estorno de comissão paga e mês fechado.
+ */
+
+type CancelModule = typeof import("@/lib/cancelamentos");
+type LotsModule = typeof import("@/lib/points-lots");
+type TenantModule = typeof import("@/lib/tenant");
+type ContabilModule = typeof import("@/lib/contabil");
+type TaxesModule = typeof import("@/lib/taxes");
+
+let prisma: PrismaClient;
+let cancel: CancelModule;
+let lots: LotsModule;
+let tenant: TenantModule;
+let contabil: ContabilModule;
+let taxes: TaxesModule;
+let sellerId: string;
+let cedenteId: string;
+let clienteId: string;
+
+const TEAM = "t1";
+
+beforeAll(async () => {
+  ({ prisma } = await createTestDatabase());
+  cancel = await import("@/lib/cancelamentos");
+  lots = await import("@/lib/points-lots");
+  tenant = await import("@/lib/tenant");
+  contabil = await import("@/lib/contabil");
+  taxes = await import("@/lib/taxes");
+
+  const seller = await prisma.user.create({
+    data: { team: TEAM, login: "vendedor", name: "Vendedor", role: "seller", passwordHash: "x" },
+  });
+  const cedente = await prisma.cedente.create({
+    data: {
+      team: TEAM,
+      identificador: "CED-1",
+      nomeCompleto: "Cedente",
+      cpf: "11111111111",
+      banco: "Banco",
+      pixTipo: "CPF",
+      chavePix: "pix",
+      ownerId: seller.id,
+    },
+  });
+  const cliente = await prisma.cliente.create({
+    data: { team: TEAM, identificador: "CLI-1", nome: "Cliente", origem: "PARTICULAR" },
+  });
+  sellerId = seller.id;
+  cedenteId = cedente.id;
+  clienteId = cliente.id;
+});
+
+beforeEach(async () => {
+  await prisma.payoutClawback.deleteMany();
+  await prisma.saleCancellation.deleteMany();
+  await prisma.periodAdjustment.deleteMany();
+  await prisma.accountingPeriod.deleteMany();
+  await prisma.pointsLotConsumption.deleteMany();
+  await prisma.pointsLot.deleteMany();
+  await prisma.pointsLedgerEntry.deleteMany();
+  await prisma.emissionEvent.deleteMany();
+  await prisma.employeePayout.deleteMany();
+  await prisma.sale.deleteMany();
+  await prisma.receivable.deleteMany();
+  await prisma.cedente.update({ where: { id: cedenteId }, data: { pontosLatam: 0 } });
+});
+
+let seq = 0;
+async function sale(
+  over: {
+    paymentStatus?: "PENDING" | "PAID";
+    totalCents?: number;
+    receivedCents?: number;
+    date?: Date;
+    commissionCents?: number;
+    bonusCents?: number;
+  } = {}
+) {
+  seq += 1;
+  const totalCents = over.totalCents ?? 10_000;
+  const receivedCents = over.paymentStatus === "PAID" ? totalCents : over.receivedCents ?? 0;
+  const receivable = await prisma.receivable.create({
+    data: {
+      team: TEAM,
+      title: `Venda V-${seq}`,
+      totalCents,
+      receivedCents,
+      balanceCents: totalCents - receivedCents,
+      status: receivedCents >= totalCents ? "RECEIVED" : "OPEN",
+    },
+  });
+  const row = await prisma.sale.create({
+    data: {
+      team: TEAM,
+      numero: `V-${seq}`,
+      date: over.date ?? new Date(),
+      program: "LATAM",
+      points: 40_000,
+      passengers: 2,
+      milheiroCents: 2_500,
+      totalCents,
+      commissionCents: over.commissionCents ?? 0,
+      bonusCents: over.bonusCents ?? 0,
+      paymentStatus: over.paymentStatus ?? "PENDING",
+      cedenteId,
+      clienteId,
+      sellerId,
+      receivableId: receivable.id,
+    },
+  });
+
+  // venda consumiu 40 mil pontos de um lote de 100 mil
+  const db = tenant.tenantPrisma(TEAM);
+  const lot = await lots.createLot(db, {
+    team: TEAM,
+    cedenteId,
+    program: "LATAM",
+    source: "OPENING",
+    points: 100_000,
+    costPerMilheiroCents: 2_000,
+    acquiredAt: new Date(Date.UTC(2025, 0, 1)),
+  });
+  await lots.consumeLots(db, { team: TEAM, cedenteId, program: "LATAM", points: 40_000, saleId: row.id });
+
+  return { ...row, lotId: lot!.id };
+}
+
+function run(saleId: string, input: Partial<Omit<import("@/lib/cancelamentos").CancelInput, "saleId">> = {}) {
+  const db = tenant.tenantPrisma(TEAM);
+  return db.$transaction((tx) =>
+    cancel.cancelSale(tx, {
+      team: TEAM,
+      actorId: sellerId,
+      input: {
+        saleId,
+        reason: null,
+        refundCents: null,
+        returnPoints: true,
+        keepPassengers: true,
+        ajuste: false,
+        ...input,
+      },
+    })
+  );
+}
+
+describe("cancelSale: reembolso", () => {
+  it("venda paga: reembolso padrão é o total e fica pendente", async () => {
+    const s = await sale({ paymentStatus: "PAID" });
+
+    const out = await run(s.id);
+    if (out.alreadyCanceled) throw new Error("não devia estar cancelada");
+    expect(out.cancellation).toMatchObject({ refundCents: 10_000, refundStatus: "PENDING", saleTotalCents: 10_000 });
+
+    const after = await prisma.sale.findUniqueOrThrow({ where: { id: s.id }, include: { receivable: true } });
+    expect(after).toMatchObject({ paymentStatus: "CANCELED", paidAt: null });
+    expect(after.receivable).toMatchObject({ status: "CANCELED", balanceCents: 0 });
+  });
+
+  it("recebimento parcial: teto é o que entrou; parcial abaixo dele passa", async () => {
+    const s = await sale({ receivedCents: 3_000 });
+
+    await expect(run(s.id, { refundCents: 4_000 })).rejects.toBeInstanceOf(cancel.SaleCancelError);
+    expect((await prisma.sale.findUniqueOrThrow({ where: { id: s.id } })).paymentStatus).toBe("PENDING");
+
+    const out = await run(s.id, { refundCents: 2_000 });
+    if (out.alreadyCanceled) throw new Error("não devia estar cancelada");
+    expect(out.cancellation).toMatchObject({ refundCents: 2_000, refundStatus: "PENDING" });
+  });
+
+  it("nada recebido: sem reembolso", async () => {
+    const s = await sale();
+
+    const out = await run(s.id);
+    if (out.alreadyCanceled) throw new Error("não devia estar cancelada");
+    expect(out.cancellation).toMatchObject({ refundCents: 0, refundStatus: "NONE" });
+  });
+});
+
+describe("cancelSale: pontos e passageiros", () => {
+  it("returnPoints devolve ao cedente e aos mesmos lotes", async () => {
+    const s = await sale();
+
+    await run(s.id, { returnPoints: true });
+
+    expect((await prisma.cedente.findUniqueOrThrow({ where: { id: cedenteId } })).pontosLatam).toBe(40_000);
+    expect(await prisma.pointsLedgerEntry.findMany({ select: { deltaPoints: true, source: true, refId: true } })).toEqual([
+      { deltaPoints: 40_000, source: "SALE_CANCEL", refId: s.id },
+    ]);
+    expect((await prisma.pointsLot.findUniqueOrThrow({ where: { id: s.lotId } })).pointsRemaining).toBe(100_000);
+    expect(await prisma.pointsLotConsumption.count({ where: { saleId: s.id, reversedAt: null } })).toBe(0);
+  });
+
+  it("sem returnPoints: saldo e lotes ficam como estão", async () => {
+    const s = await sale();
+
+    const out = await run(s.id, { returnPoints: false });
+    if (out.alreadyCanceled) throw new Error("não devia estar cancelada");
+
+    expect(out.cancellation.pointsReturned).toBe(0);
+    expect((await prisma.cedente.findUniqueOrThrow({ where: { id: cedenteId } })).pontosLatam).toBe(0);
+    expect((await prisma.pointsLot.findUniqueOrThrow({ where: { id: s.lotId } })).pointsRemaining).toBe(60_000);
+  });
+
+  it("keepPassengers=false estorna os CPFs na data da emissão; true não mexe", async () => {
+    const released = await sale();
+    const kept = await sale();
+
+    await run(released.id, { keepPassengers: false });
+    await run(kept.id, { keepPassengers: true });
+
+    const events = await prisma.emissionEvent.findMany({ select: { passengersCount: true, issuedAt: true, source: true } });
+    expect(events).toEqual([{ passengersCount: -2, issuedAt: released.date, source: "ADJUSTMENT" }]);
+
+    const c = await prisma.saleCancellation.findFirstOrThrow({ where: { saleId: released.id } });
+    expect(c.passengersReleased).toBe(2);
+    expect(c.emissionReversalId).not.toBeNull();
+  });
+});
+
+describe("cancelSale: idempotência", () => {
+  it("segundo cancelamento não repete nada", async () => {
+    const s = await sale({ paymentStatus: "PAID" });
+
+    await run(s.id, { keepPassengers: false });
+    expect(await run(s.id, { keepPassengers: false })).toEqual({ alreadyCanceled: true });
+
+    expect(await prisma.saleCancellation.count({ where: { saleId: s.id } })).toBe(1);
+    expect(await prisma.pointsLedgerEntry.count()).toBe(1);
+    expect(await prisma.emissionEvent.count()).toBe(1);
+    expect((await prisma.cedente.findUniqueOrThrow({ where: { id: cedenteId } })).pontosLatam).toBe(40_000);
+  });
+
+  it("corrida: leitura de antes do outro cancelamento commitar não repete os efeitos", async () => {
+    const s = await sale({ paymentStatus: "PAID" });
+    const stale = await prisma.sale.findUniqueOrThrow({
+      where: { id: s.id },
+      include: { receivable: { select: { id: true, receivedCents: true } }, purchase: { select: { finalizedAt: true } } },
+    });
+    await run(s.id);
+
+    // a segunda transação ainda enxerga a venda como paga (PGlite serializa as transações:
+    // a leitura antiga é simulada devolvendo a venda de antes)
+    const db = tenant.tenantPrisma(TEAM);
+    const out = await db.$transaction((tx) => {
+      const racing = new Proxy(tx, {
+        get(target, prop, receiver) {
+          if (prop !== "sale") return Reflect.get(target, prop, receiver);
+          return new Proxy(target.sale, {
+            get(sale, op, r) {
+              if (op === "findUnique") return async () => stale;
+              return Reflect.get(sale, op, r);
+            },
+          });
+        },
+      });
+      return cancel.cancelSale(racing, {
+        team: TEAM,
+        actorId: sellerId,
+        input: { saleId: s.id, reason: null, refundCents: null, returnPoints: true, keepPassengers: false, ajuste: false },
+      });
+    });
+
+    expect(out).toEqual({ alreadyCanceled: true });
+    expect(await prisma.saleCancellation.count({ where: { saleId: s.id } })).toBe(1);
+    expect(await prisma.pointsLedgerEntry.count()).toBe(1);
+    expect(await prisma.emissionEvent.count()).toBe(0);
+    expect((await prisma.pointsLot.findUniqueOrThrow({ where: { id: s.lotId } })).pointsRemaining).toBe(100_000);
+  });
+});
+
+describe("cancelSale: comissão já paga", () => {
+  it("gera estorno líquido que entra no próximo pagamento do vendedor", async () => {
+    const s = await sale({ paymentStatus: "PAID", commissionCents: 1_000, bonusCents: 200 });
+    const day = taxes.recifeDateISO(s.createdAt);
+    await prisma.employeePayout.create({
+      data: {
+        team: TEAM,
+        date: day,
+        userId: sellerId,
+        breakdown: { taxPercent: 10, basis: "SALE_DATE" },
+        paidAt: new Date(),
+        paidById: sellerId,
+      },
+    });
+
+    const out = await run(s.id);
+    if (out.alreadyCanceled) throw new Error("não devia estar cancelada");
+    expect(out.clawback).toMatchObject({ userId: sellerId, sourceDate: day, commissionCents: 1_200, amountCents: 1_080 });
+
+    const db = tenant.tenantPrisma(TEAM);
+    const pending = await cancel.pendingClawbacks(db, {
+      team: TEAM,
+      date: "2999-01-01",
+      dayEnd: new Date(Date.UTC(2999, 0, 2)),
+      userIds: [sellerId],
+    });
+    expect(pending.get(sellerId)).toEqual({ amountCents: 1_080, ids: [out.clawback!.id] });
+  });
+
+  it("dia ainda não pago: sem estorno", async () => {
+    const s = await sale({ paymentStatus: "PAID", commissionCents: 1_000 });
+
+    const out = await run(s.id);
+    if (out.alreadyCanceled) throw new Error("não devia estar cancelada");
+    expect(out.clawback).toBeNull();
+  });
+});
+
+describe("cancelSale: mês fechado", () => {
+  const JAN = new Date("2026-01-15T12:00:00-03:00");
+
+  it("sem ajuste: recusa e não desfaz nada", async () => {
+    await prisma.accountingPeriod.create({ data: { team: TEAM, month: "2026-01", closedAt: new Date() } });
+    const s = await sale({ paymentStatus: "PAID", date: JAN });
+
+    await expect(run(s.id)).rejects.toBeInstanceOf(contabil.ClosedPeriodError);
+
+    expect((await prisma.sale.findUniqueOrThrow({ where: { id: s.id } })).paymentStatus).toBe("PAID");
+    expect(await prisma.saleCancellation.count()).toBe(0);
+    expect(await prisma.pointsLedgerEntry.count()).toBe(0);
+  });
+
+  it("com ajuste: estorno lançado no mês atual", async () => {
+    await prisma.accountingPeriod.create({ data: { team: TEAM, month: "2026-01", closedAt: new Date() } });
+    const s = await sale({ paymentStatus: "PAID", date: JAN });
+
+    const out = await run(s.id, { ajuste: true });
+    if (out.alreadyCanceled) throw new Error("não devia estar cancelada");
+
+    expect(out.adjustment).toMatchObject({
+      periodMonth: "2026-01",
+      postedMonth: contabil.monthOf(new Date()),
+      kind: "SALE_CANCEL",
+      amountCents: -10_000,
+    });
+    expect(out.cancellation.adjustmentId).toBe(out.adjustment!.id);
+  });
+});
@@ -0,0 +1,237 @@
+import type { PrismaClient } from "@prisma/client";
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { createTestDatabase } from "./helpers/db";
+
+/**
+ * ✅ Clientes duplicados: candidatos filtrados no banco, mesclagem que
+ * re-aponta vendas/balcão/cancelamentos/notas e desfazer que devolve tudo.
+ */
+
+type MergeModule = typeof import("@/lib/clientes-merge");
+type TenantModule = typeof import("@/lib/tenant");
+
+let prisma: PrismaClient;
+let merge: MergeModule;
+let tenant: TenantModule;
+let userId: string;
+let cedenteId: string;
+let seq = 0;
+
+const TEAM = "t1";
+
+beforeAll(async () => {
+  ({ prisma } = await createTestDatabase());
+  merge = await import("@/lib/clientes-merge");
+  tenant = await import("@/lib/tenant");
+
+  const user = await prisma.user.create({
+    data: { team: TEAM, login: "admin", name: "Admin", role: "admin", passwordHash: "x" },
+  });
+  const cedente = await prisma.cedente.create({
+    data: {
+      team: TEAM,
+      identificador: "CED-1",
+      nomeCompleto: "Cedente",
+      cpf: "99999999999",
+      banco: "Banco",
+      pixTipo: "CPF",
+      chavePix: "pix",
+      ownerId: user.id,
+    },
+  });
+  userId = user.id;
+  cedenteId = cedente.id;
+});
+
+beforeEach(async () => {
+  await prisma.clienteMerge.deleteMany();
+  await prisma.saleCancellation.deleteMany();
+  await prisma.sale.deleteMany();
+  await prisma.balcaoOperacao.deleteMany();
+  await prisma.clienteNote.deleteMany();
+  await prisma.cliente.deleteMany();
+});
+
+const db = () => tenant.tenantPrisma(TEAM);
+
+type ClienteSeed = { nome: string; cpfCnpj?: string | null; telefone?: string | null; tags?: string[]; team?: string };
+
+function cliente(data: ClienteSeed) {
+  seq += 1;
+  return prisma.cliente.create({
+    data: { team: TEAM, identificador: `CLI-${seq}`, origem: "PARTICULAR", ...data },
+  });
+}
+
+async function movable(clienteId: string, other: string) {
+  seq += 1;
+  const sale = await prisma.sale.create({
+    data: {
+      team: TEAM,
+      numero: `V-${seq}`,
+      date: new Date(),
+      program: "LATAM",
+      points: 1000,
+      passengers: 1,
+      milheiroCents: 2_500,
+      totalCents: 2_500,
+      cedenteId,
+      clienteId,
+    },
+  });
+  const balcaoFields = { team: TEAM, airline: "LATAM" as const, points: 1000, buyRateCents: 1, sellRateCents: 2 };
+  const money = { supplierPayCents: 1, customerChargeCents: 2, profitCents: 1 };
+  const asSupplier = await prisma.balcaoOperacao.create({
+    data: { ...balcaoFields, ...money, supplierClienteId: clienteId, finalClienteId: other },
+  });
+  const asFinal = await prisma.balcaoOperacao.create({
+    data: { ...balcaoFields, ...money, supplierClienteId: other, finalClienteId: clienteId },
+  });
+  const cancellation = await prisma.saleCancellation.create({
+    data: { team: TEAM, saleId: sale.id, clienteId, saleTotalCents: 2_500 },
+  });
+  const note = await prisma.clienteNote.create({ data: { team: TEAM, clienteId, text: "nota" } });
+  return { sale, asSupplier, asFinal, cancellation, note };
+}
+
+async function ownerOf(m: Awaited<ReturnType<typeof movable>>) {
+  const [sale, asSupplier, asFinal, cancellation, note] = await Promise.all([
+    prisma.sale.findUniqueOrThrow({ where: { id: m.sale.id } }),
+    prisma.balcaoOperacao.findUniqueOrThrow({ where: { id: m.asSupplier.id } }),
+    prisma.balcaoOperacao.findUniqueOrThrow({ where: { id: m.asFinal.id } }),
+    prisma.saleCancellation.findUniqueOrThrow({ where: { id: m.cancellation.id } }),
+    prisma.clienteNote.findUniqueOrThrow({ where: { id: m.note.id } }),
+  ]);
+  return [sale.clienteId, asSupplier.supplierClienteId, asFinal.finalClienteId, cancellation.clienteId, note.clienteId];
+}
+
+describe("findDuplicatesFor", () => {
+  it("CPF igual mesmo com máscara antiga", async () => {
+    const old = await cliente({ nome: "Pedro Alves", cpfCnpj: "123.456.789-01" });
+
+    const found = await merge.findDuplicatesFor(db(), { nome: "Outro Nome", cpfCnpj: "12345678901" });
+    expect(found.map((f) => [f.cliente.id, f.reasons])).toEqual([[old.id, ["CPF_CNPJ"]]]);
+  });
+
+  it("telefone igual em formato diferente", async () => {
+    const old = await cliente({ nome: "Ana Souza", telefone: "(81) 98888-7777" });
+    await cliente({ nome: "Bruno Lima", telefone: "81977776666" });
+
+    const found = await merge.findDuplicatesFor(db(), { nome: "Carla", telefone: "5581988887777" });
+    expect(found.map((f) => [f.cliente.id, f.reasons])).toEqual([[old.id, ["TELEFONE"]]]);
+  });
+
+  it("nome parecido pelo primeiro nome (caixa e acento digitado)", async () => {
+    const old = await cliente({ nome: "JOSE DA SILVA SANTOS" });
+    await cliente({ nome: "José Pereira" });
+
+    const found = await merge.findDuplicatesFor(db(), { nome: "José da Silva Santos" });
+    expect(found.map((f) => [f.cliente.id, f.reasons])).toEqual([[old.id, ["NOME"]]]);
+  });
+
+  it("ignora o próprio cliente, os já mesclados e outro time", async () => {
+    const self = await cliente({ nome: "Maria Clara", cpfCnpj: "11122233344" });
+    const gone = await cliente({ nome: "Maria Clara", cpfCnpj: "11122233344" });
+    await prisma.cliente.update({ where: { id: gone.id }, data: { mergedIntoId: self.id } });
+    await cliente({ nome: "Maria Clara", cpfCnpj: "11122233344", team: "t2" });
+
+    expect(
+      await merge.findDuplicatesFor(db(), { nome: "Maria Clara", cpfCnpj: "11122233344", excludeId: self.id })
+    ).toEqual([]);
+  });
+
+  it("CPF igual aparece mesmo com nome comum no time", async () => {
+    for (let i = 0; i < 5; i++) await cliente({ nome: `Maria ${i}` });
+    const same = await cliente({ nome: "Maria Zélia", cpfCnpj: "55566677788" });
+
+    const found = await merge.findDuplicatesFor(db(), { nome: "Maria Qualquer", cpfCnpj: "55566677788" });
+    expect(found[0].cliente.id).toBe(same.id);
+  });
+});
+
+describe("mergeClientes / undoMerge", () => {
+  it("mescla re-aponta tudo e completa o cadastro; desfazer devolve", async () => {
+    const keep = await cliente({ nome: "João Silva", cpfCnpj: "12345678901", tags: ["vip"] });
+    const dup = await cliente({ nome: "Joao Silva", telefone: "81988887777", tags: ["balcao"] });
+    const third = await cliente({ nome: "Terceiro" });
+    const moved = await movable(dup.id, third.id);
+    const stays = await movable(keep.id, third.id);
+
+    const m = await db().$transaction((tx) =>
+      merge.mergeClientes(tx, { team: TEAM, actorId: userId, keepId: keep.id, mergeId: dup.id })
+    );
+
+    expect(await ownerOf(moved)).toEqual(Array(5).fill(keep.id));
+    expect(await ownerOf(stays)).toEqual(Array(5).fill(keep.id));
+    expect(m).toMatchObject({
+      saleIds: [moved.sale.id],
+      balcaoSupplierIds: [moved.asSupplier.id],
+      balcaoFinalIds: [moved.asFinal.id],
+      cancellationIds: [moved.cancellation.id],
+      noteIds: [moved.note.id],
+    });
+    expect(await prisma.cliente.findUniqueOrThrow({ where: { id: keep.id } })).toMatchObject({
+      cpfCnpj: "12345678901",
+      telefone: "81988887777",
+      tags: ["vip", "balcao"],
+    });
+    expect((await prisma.cliente.findUniqueOrThrow({ where: { id: dup.id } })).mergedIntoId).toBe(keep.id);
+
+    await db().$transaction((tx) => merge.undoMerge(tx, { actorId: userId, mergeId: m.id }));
+
+    expect(await ownerOf(moved)).toEqual(Array(5).fill(dup.id));
+    expect(await ownerOf(stays)).toEqual(Array(5).fill(keep.id));
+    expect(await prisma.cliente.findUniqueOrThrow({ where: { id: keep.id } })).toMatchObject({
+      cpfCnpj: "12345678901",
+      telefone: null,
+      tags: ["vip"],
+    });
+    expect(await prisma.cliente.findUniqueOrThrow({ where: { id: dup.id } })).toMatchObject({
+      mergedIntoId: null,
+      mergedAt: null,
+    });
+    expect((await prisma.clienteMerge.findUniqueOrThrow({ where: { id: m.id } })).undoneById).toBe(userId);
+  });
+
+  it("desfazer só devolve o que ainda aponta para o mantido", async () => {
+    const keep = await cliente({ nome: "Keep" });
+    const dup = await cliente({ nome: "Dup" });
+    const other = await cliente({ nome: "Outro" });
+    const moved = await movable(dup.id, other.id);
+
+    const m = await db().$transaction((tx) =>
+      merge.mergeClientes(tx, { team: TEAM, actorId: userId, keepId: keep.id, mergeId: dup.id })
+    );
+    // depois da mesclagem a venda foi trocada de cliente à mão
+    await prisma.sale.update({ where: { id: moved.sale.id }, data: { clienteId: other.id } });
+
+    await db().$transaction((tx) => merge.undoMerge(tx, { actorId: userId, mergeId: m.id }));
+
+    expect((await prisma.sale.findUniqueOrThrow({ where: { id: moved.sale.id } })).clienteId).toBe(other.id);
+    expect((await prisma.clienteNote.findUniqueOrThrow({ where: { id: moved.note.id } })).clienteId).toBe(dup.id);
+  });
+
+  it("recusa CPF diferente, mesclagem repetida e desfazer fora de ordem", async () => {
+    const a = await cliente({ nome: "A", cpfCnpj: "11111111111" });
+    const b = await cliente({ nome: "B", cpfCnpj: "22222222222" });
+    const c = await cliente({ nome: "C" });
+    const d = await cliente({ nome: "D" });
+    const run = <T>(fn: (tx: Parameters<MergeModule["mergeClientes"]>[0]) => Promise<T>) => db().$transaction(fn);
+
+    await expect(
+      run((tx) => merge.mergeClientes(tx, { team: TEAM, actorId: userId, keepId: a.id, mergeId: b.id }))
+    ).rejects.toThrow(/CPF\/CNPJ diferentes/);
+
+    const first = await run((tx) => merge.mergeClientes(tx, { team: TEAM, actorId: userId, keepId: a.id, mergeId: c.id }));
+    await expect(
+      run((tx) => merge.mergeClientes(tx, { team: TEAM, actorId: userId, keepId: a.id, mergeId: c.id }))
+    ).rejects.toBeInstanceOf(merge.ClienteMergeError);
+
+    // createdAt vem do relógio do banco: garante que a segunda é mais recente
+    await new Promise((r) => setTimeout(r, 5));
+    await run((tx) => merge.mergeClientes(tx, { team: TEAM, actorId: userId, keepId: a.id, mergeId: d.id }));
+    await expect(run((tx) => merge.undoMerge(tx, { actorId: userId, mergeId: first.id }))).rejects.toThrow(
+      /mais recentes/
+    );
+  });
+});
@@ -0,0 +1,151 @@
+import type { PrismaClient } from "@prisma/client";
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { createTestDatabase } from "./helpers/db";
+
+/**
+ * ✅ Mês contábil: uma chave só (Recife) para venda, fechamento e ajuste.
+ * 22h de Recife no último dia do mês já é o mês seguinte em UTC.
+ */
+
+type ContabilModule = typeof import("@/lib/contabil");
+type TenantModule = typeof import("@/lib/tenant");
+
+let prisma: PrismaClient;
+let contabil: ContabilModule;
+let tenant: TenantModule;
+let userId: string;
+let saleId: string;
+
+const TEAM = "t1";
+
+// 31/01 às 22h em Recife = 01/02 01h UTC
+const LATE_JAN = new Date("2026-01-31T22:00:00-03:00");
+
+beforeAll(async () => {
+  ({ prisma } = await createTestDatabase());
+  contabil = await import("@/lib/contabil");
+  tenant = await import("@/lib/tenant");
+
+  const user = await prisma.user.create({
+    data: { team: TEAM, login: "admin", name: "Admin", role: "admin", passwordHash: "x" },
+  });
+  const cedente = await prisma.cedente.create({
+    data: {
+      team: TEAM,
+      identificador: "CED-1",
+      nomeCompleto: "Cedente",
+      cpf: "11111111111",
+      banco: "Banco",
+      pixTipo: "CPF",
+      chavePix: "pix",
+      ownerId: user.id,
+    },
+  });
+  const cliente = await prisma.cliente.create({
+    data: { team: TEAM, identificador: "CLI-1", nome: "Cliente", origem: "PARTICULAR" },
+  });
+  const sale = await prisma.sale.create({
+    data: {
+      team: TEAM,
+      numero: "V-1",
+      date: LATE_JAN,
+      program: "LATAM",
+      points: 10_000,
+      passengers: 1,
+      milheiroCents: 2_500,
+      totalCents: 10_000,
+      cedenteId: cedente.id,
+      clienteId: cliente.id,
+    },
+  });
+  userId = user.id;
+  saleId = sale.id;
+});
+
+beforeEach(async () => {
+  await prisma.periodAdjustment.deleteMany();
+  await prisma.accountingPeriod.deleteMany();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+async function closeMonth(month: string) {
+  await prisma.accountingPeriod.create({ data: { team: TEAM, month, closedAt: new Date() } });
+}
+
+function gate(date: Date, ajuste: boolean, extra: { kind?: "SALE_CANCEL" | "SALE_STATUS"; status?: "PAID" | "PENDING" } = {}) {
+  return contabil.gateSaleChange(tenant.tenantPrisma(TEAM), {
+    team: TEAM,
+    userId,
+    sale: { id: saleId, numero: "V-1", date, totalCents: 10_000 },
+    kind: extra.kind ?? "SALE_CANCEL",
+    ajuste,
+    status: extra.status,
+  });
+}
+
+describe("monthOf / monthBounds", () => {
+  it("mês pela hora de Recife, não UTC", () => {
+    expect(contabil.monthOf(LATE_JAN)).toBe("2026-01");
+    expect(contabil.monthOf(new Date("2026-02-01T00:00:00-03:00"))).toBe("2026-02");
+  });
+
+  it("limites do mês batem com monthOf nas bordas", () => {
+    const mb = contabil.monthBounds("2026-01")!;
+
+    expect(mb.start.toISOString()).toBe("2026-01-01T03:00:00.000Z");
+    expect(mb.end.toISOString()).toBe("2026-02-01T03:00:00.000Z");
+    expect(contabil.monthOf(mb.start)).toBe("2026-01");
+    expect(contabil.monthOf(new Date(mb.end.getTime() - 1))).toBe("2026-01");
+    expect(contabil.monthOf(mb.end)).toBe("2026-02");
+  });
+});
+
+describe("gateSaleChange", () => {
+  it("venda da noite do último dia pertence ao mês fechado", async () => {
+    await closeMonth("2026-01");
+
+    const err = await gate(LATE_JAN, false).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(contabil.ClosedPeriodError);
+    expect(err).toMatchObject({ month: "2026-01", adjustable: true });
+  });
+
+  it("ajuste cai no mês corrente de Recife", async () => {
+    await closeMonth("2026-01");
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-02-28T22:30:00-03:00")); // já é março em UTC
+
+    const adj = await gate(LATE_JAN, true);
+    expect(adj).toMatchObject({ periodMonth: "2026-01", postedMonth: "2026-02", amountCents: -10_000 });
+  });
+
+  it("mês corrente (Recife) fechado recusa o ajuste", async () => {
+    await closeMonth("2026-01");
+    await closeMonth("2026-02");
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-02-28T22:30:00-03:00"));
+
+    await expect(gate(LATE_JAN, true)).rejects.toThrow(/também está fechado/);
+  });
+
+  it("pago ↔ pendente em mês fechado também passa pelo portão", async () => {
+    await closeMonth("2026-01");
+
+    await expect(gate(LATE_JAN, false, { kind: "SALE_STATUS", status: "PAID" })).rejects.toBeInstanceOf(
+      contabil.ClosedPeriodError
+    );
+
+    const paid = await gate(LATE_JAN, true, { kind: "SALE_STATUS", status: "PAID" });
+    const pending = await gate(LATE_JAN, true, { kind: "SALE_STATUS", status: "PENDING" });
+    expect(paid).toMatchObject({ kind: "SALE_STATUS", amountCents: 10_000 });
+    expect(paid?.description).toContain("→ paga");
+    expect(pending).toMatchObject({ kind: "SALE_STATUS", amountCents: -10_000 });
+  });
+
+  it("mês aberto: mudança de status não gera ajuste", async () => {
+    expect(await gate(LATE_JAN, false, { kind: "SALE_STATUS", status: "PAID" })).toBeNull();
+    expect(await prisma.periodAdjustment.count()).toBe(0);
+  });
+});
@@ -0,0 +1,56 @@
+import crypto from "node:crypto";
+import { afterEach, describe, expect, it } from "vitest";
+import { createEnvelopeCipher } from "@/lib/crypto/envelope";
+
+/**
+ * ✅ Cifra envelope: cada chaveiro (env) é independente e a rotação
+ * re-embrulha a DEK sem mudar o texto cifrado.
+ */
+
+const key = () => crypto.randomBytes(32).toString("base64");
+
+const ENV_A = "TEST_ENVELOPE_KEYS_A";
+const ENV_B = "TEST_ENVELOPE_KEYS_B";
+
+afterEach(() => {
+  delete process.env[ENV_A];
+  delete process.env[ENV_B];
+});
+
+describe("createEnvelopeCipher", () => {
+  it("cifra e decifra; texto puro legado volta como está", () => {
+    process.env[ENV_A] = `k1:${key()}`;
+    const a = createEnvelopeCipher({ envVar: ENV_A, devSeed: "a" });
+
+    const sealed = a.encrypt("whsec_123");
+    expect(sealed.startsWith("enc:v1:k1:")).toBe(true);
+    expect(a.decrypt(sealed)).toBe("whsec_123");
+    expect(a.decrypt("legado")).toBe("legado");
+    expect(a.decrypt(null)).toBeNull();
+  });
+
+  it("chaveiros separados não abrem os valores um do outro (mesmo kid)", () => {
+    process.env[ENV_A] = `k1:${key()}`;
+    process.env[ENV_B] = `k1:${key()}`;
+    const a = createEnvelopeCipher({ envVar: ENV_A, devSeed: "a" });
+    const b = createEnvelopeCipher({ envVar: ENV_B, devSeed: "b" });
+
+    expect(() => b.decrypt(a.encrypt("segredo"))).toThrow();
+  });
+
+  it("rotação: nova chave ativa re-embrulha só a DEK", () => {
+    const k1 = key();
+    process.env[ENV_A] = `k1:${k1}`;
+    const sealed = createEnvelopeCipher({ envVar: ENV_A, devSeed: "a" }).encrypt("segredo");
+
+    process.env[ENV_A] = `k2:${key()},k1:${k1}`;
+    const rotated = createEnvelopeCipher({ envVar: ENV_A, devSeed: "a" });
+
+    expect(rotated.needsReencrypt(sealed)).toBe(true);
+    const again = rotated.reencrypt(sealed);
+    expect(again.startsWith("enc:v1:k2:")).toBe(true);
+    expect(again.split(":").at(-1)).toBe(sealed.split(":").at(-1));
+    expect(rotated.needsReencrypt(again)).toBe(false);
+    expect(rotated.decrypt(again)).toBe("segredo");
+  });
+});
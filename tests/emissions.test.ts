@@ -0,0 +1,122 @@
+import type { PrismaClient } from "@prisma/client";
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { createTestDatabase } from "./helpers/db";
+
+/**
+ * ✅ Janela de emissões por cedente:
+ * dias contados em São Paulo e borda da janela (último dia dentro / fora).
+ */
+
+type EmissionsModule = typeof import("@/lib/emissions");
+type TenantModule = typeof import("@/lib/tenant");
+
+let prisma: PrismaClient;
+let emissions: EmissionsModule;
+let tenant: TenantModule;
+let cedenteId: string;
+
+const TEAM = "t1";
+
+// 10/03/2026 às 12h em SP
+const AT = new Date("2026-03-10T12:00:00-03:00");
+
+beforeAll(async () => {
+  ({ prisma } = await createTestDatabase());
+  emissions = await import("@/lib/emissions");
+  tenant = await import("@/lib/tenant");
+
+  const user = await prisma.user.create({
+    data: { team: TEAM, login: "admin", name: "Admin", role: "admin", passwordHash: "x" },
+  });
+  const cedente = await prisma.cedente.create({
+    data: {
+      team: TEAM,
+      identificador: "CED-1",
+      nomeCompleto: "Cedente",
+      cpf: "11111111111",
+      banco: "Banco",
+      pixTipo: "CPF",
+      chavePix: "pix",
+      ownerId: user.id,
+    },
+  });
+  cedenteId = cedente.id;
+});
+
+beforeEach(async () => {
+  await prisma.emissionEvent.deleteMany();
+});
+
+async function emit(issuedAt: string, passengersCount = 1, program: "LATAM" | "SMILES" = "LATAM") {
+  await prisma.emissionEvent.create({
+    data: { team: TEAM, cedenteId, program, passengersCount, issuedAt: new Date(issuedAt) },
+  });
+}
+
+async function usedLatam(at: Date, cedenteIds?: string[]) {
+  const { usedByCedente } = await emissions.getEmissionUsageByCedente(tenant.tenantPrisma(TEAM), {
+    program: "LATAM",
+    at,
+    cedenteIds,
+  });
+  return usedByCedente;
+}
+
+describe("windowFor", () => {
+  it("LATAM (365 dias): começa e termina à meia-noite de SP", () => {
+    const { start, end } = emissions.windowFor(emissions.DEFAULT_EMISSION_LIMITS.LATAM, AT);
+
+    expect(end.toISOString()).toBe("2026-03-11T03:00:00.000Z");
+    expect(start.toISOString()).toBe("2025-03-11T03:00:00.000Z");
+  });
+
+  it("22h em SP ainda é o mesmo dia (já é o dia seguinte em UTC)", () => {
+    const late = new Date("2026-03-10T22:00:00-03:00");
+    expect(emissions.windowFor(emissions.DEFAULT_EMISSION_LIMITS.LATAM, late)).toEqual(
+      emissions.windowFor(emissions.DEFAULT_EMISSION_LIMITS.LATAM, AT)
+    );
+  });
+
+  it("SMILES: ciclo vira à meia-noite de 01/01 em SP", () => {
+    const rule = emissions.DEFAULT_EMISSION_LIMITS.SMILES;
+
+    // 31/12 às 22h em SP = 01/01 01h UTC: ainda é o ciclo do ano anterior
+    const eve = emissions.windowFor(rule, new Date("2025-12-31T22:00:00-03:00"));
+    expect(eve.start.toISOString()).toBe("2025-01-01T03:00:00.000Z");
+    expect(eve.end.toISOString()).toBe("2026-01-01T03:00:00.000Z");
+
+    const newYear = emissions.windowFor(rule, new Date("2026-01-01T00:00:00-03:00"));
+    expect(newYear.start.toISOString()).toBe("2026-01-01T03:00:00.000Z");
+  });
+});
+
+describe("getEmissionUsageByCedente", () => {
+  it("primeiro dia da janela conta; o dia anterior não", async () => {
+    await emit("2025-03-11T00:00:00-03:00", 2); // primeiro dia da janela, meia-noite SP
+    await emit("2025-03-10T23:59:59-03:00", 5); // último dia fora da janela
+
+    expect((await usedLatam(AT)).get(cedenteId)).toBe(2);
+  });
+
+  it("dia da emissão conta inteiro em SP; o dia seguinte não", async () => {
+    await emit("2026-03-10T23:30:00-03:00", 1); // 11/03 02:30 UTC, ainda dia 10 em SP
+    await emit("2026-03-11T00:00:00-03:00", 4); // meia-noite SP do dia seguinte
+
+    expect((await usedLatam(AT)).get(cedenteId)).toBe(1);
+  });
+
+  it("borda da meia-noite: emissão às 22h em SP vale para o dia, não para o seguinte", async () => {
+    await emit("2025-03-10T22:00:00-03:00", 3); // 11/03 01h UTC, mas dia 10 em SP
+
+    expect((await usedLatam(AT)).get(cedenteId)).toBeUndefined();
+    expect((await usedLatam(new Date("2026-03-09T12:00:00-03:00"))).get(cedenteId)).toBe(3);
+  });
+
+  it("lista de cedentes vazia devolve mapa vazio; sem lista traz todos", async () => {
+    await emit("2026-03-01T12:00:00-03:00", 2);
+
+    expect((await usedLatam(AT, [])).size).toBe(0);
+    expect((await usedLatam(AT)).get(cedenteId)).toBe(2);
+    expect((await usedLatam(AT, [cedenteId])).get(cedenteId)).toBe(2);
+  });
+});
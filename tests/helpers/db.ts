@@ -0,0 +1,39 @@
+// tests/helpers/db.ts
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { PGlite } from "@electric-sql/pglite";
+import { PrismaClient } from "@prisma/client";
+import { PrismaPGlite } from "pglite-prisma-adapter";
+
+/**
+ * ✅ Banco de teste: Postgres em memória (PGlite) com todas as migrations aplicadas.
+ *
+ * Vira o `prisma` global antes de qualquer import de `@/lib/prisma`
+ * (lib/prisma.ts reaproveita `globalThis.prisma`), então `tenantPrisma` e as
+ * libs rodam de verdade contra ele.
+ */
+
+const MIGRATIONS_DIR = path.join(process.cwd(), "prisma", "migrations");
+
+export async function createTestDatabase() {
+  const pg = new PGlite();
+
+  const dirs = readdirSync(MIGRATIONS_DIR, { withFileTypes: true })
+    .filter((d) => d.isDirectory())
+    .map((d) => d.name)
+    .sort();
+
+  for (const dir of dirs) {
+    const sql = readFileSync(path.join(MIGRATIONS_DIR, dir, "migration.sql"), "utf8");
+    try {
+      await pg.exec(sql);
+    } catch (e) {
+      throw new Error(`Migration ${dir} falhou: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  const prisma = new PrismaClient({ adapter: new PrismaPGlite(pg) });
+  (globalThis as unknown as { prisma?: PrismaClient }).prisma = prisma;
+
+  return { pg, prisma };
+}
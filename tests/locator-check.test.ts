@@ -0,0 +1,161 @@
+import type { PrismaClient } from "@prisma/client";
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { createTestDatabase } from "./helpers/db";
+
+/**
+ * ✅ Check automático de localizador com o provider fake:
+ * mudança de status, fila de revisão e vendas que ficam de fora.
+ */
+
+type LocatorModule = typeof import("@/lib/locator-check");
+type FakeModule = typeof import("@/lib/locator-check/fake");
+
+let prisma: PrismaClient;
+let locator: LocatorModule;
+let fake: FakeModule;
+let cedenteId: string;
+let clienteId: string;
+
+const TEAM = "t1";
+// createdAt dos checks vem do relógio do banco: as rodadas andam a partir de agora
+const NOW = new Date();
+const HOUR_MS = 60 * 60 * 1000;
+
+beforeAll(async () => {
+  ({ prisma } = await createTestDatabase());
+  locator = await import("@/lib/locator-check");
+  fake = await import("@/lib/locator-check/fake");
+
+  const user = await prisma.user.create({
+    data: { team: TEAM, login: "admin", name: "Admin", role: "admin", passwordHash: "x" },
+  });
+  const cedente = await prisma.cedente.create({
+    data: {
+      team: TEAM,
+      identificador: "CED-1",
+      nomeCompleto: "Cedente",
+      cpf: "11111111111",
+      banco: "Banco",
+      pixTipo: "CPF",
+      chavePix: "pix",
+      ownerId: user.id,
+    },
+  });
+  const cliente = await prisma.cliente.create({
+    data: { team: TEAM, identificador: "CLI-1", nome: "Cliente", origem: "PARTICULAR" },
+  });
+  cedenteId = cedente.id;
+  clienteId = cliente.id;
+});
+
+beforeEach(async () => {
+  await prisma.saleLocatorCheck.deleteMany();
+  await prisma.sale.deleteMany();
+});
+
+let seq = 0;
+async function sale(over: { purchaseCode: string; paymentStatus?: "PENDING" | "PAID" | "CANCELED"; departureDate?: Date }) {
+  seq += 1;
+  return prisma.sale.create({
+    data: {
+      team: TEAM,
+      numero: `V-${seq}`,
+      date: NOW,
+      program: "LATAM",
+      points: 10_000,
+      passengers: 1,
+      milheiroCents: 2_500,
+      cedenteId,
+      clienteId,
+      firstPassengerLastName: "SILVA",
+      departureDate: over.departureDate ?? new Date(NOW.getTime() + 5 * 24 * HOUR_MS),
+      purchaseCode: over.purchaseCode,
+      paymentStatus: over.paymentStatus ?? "PENDING",
+    },
+  });
+}
+
+function run(fixtures: Parameters<FakeModule["createFakeLocatorProvider"]>[0], now = NOW) {
+  return locator.runLocatorChecks(TEAM, fake.createFakeLocatorProvider(fixtures), { now });
+}
+
+async function queue() {
+  return prisma.saleLocatorCheck.findMany({
+    where: { flagged: true, resolvedAt: null },
+    orderBy: { createdAt: "asc" },
+    select: { saleId: true, status: true },
+  });
+}
+
+describe("runLocatorChecks", () => {
+  it("reserva alterada entra na fila; confirmada não", async () => {
+    const changed = await sale({ purchaseCode: "LA111" });
+    await sale({ purchaseCode: "LA222" });
+
+    const out = await run([
+      { code: "LA111", status: "ALTERADO", note: "voo trocado" },
+      { code: "LA222", status: "CONFIRMADO" },
+    ]);
+
+    expect(out).toEqual({ checked: 2, flagged: 1, errors: 0 });
+    expect(await queue()).toEqual([{ saleId: changed.id, status: "ALTERADO" }]);
+
+    const row = await prisma.saleLocatorCheck.findFirstOrThrow({ where: { saleId: changed.id } });
+    expect(row).toMatchObject({ source: "AUTO", provider: "fake", note: "voo trocado" });
+  });
+
+  it("mesmo status na rodada seguinte não duplica a fila; mudança de status entra de novo", async () => {
+    const s = await sale({ purchaseCode: "LA333" });
+
+    await run([{ code: "LA333", status: "ALTERADO" }]);
+    const again = await run([{ code: "LA333", status: "ALTERADO" }], new Date(NOW.getTime() + 13 * HOUR_MS));
+    expect(again).toMatchObject({ checked: 1, flagged: 0 });
+
+    const canceled = await run([{ code: "LA333", status: "CANCELADO" }], new Date(NOW.getTime() + 26 * HOUR_MS));
+    expect(canceled).toMatchObject({ checked: 1, flagged: 1 });
+
+    expect(await queue()).toEqual([
+      { saleId: s.id, status: "ALTERADO" },
+      { saleId: s.id, status: "CANCELADO" },
+    ]);
+  });
+
+  it("ERRO não conta como mudança e não some com o status anterior", async () => {
+    await sale({ purchaseCode: "LA444" });
+
+    await run([{ code: "LA444", status: "ALTERADO" }]);
+    expect(await run([{ code: "LA444", status: "ERRO" }], new Date(NOW.getTime() + 13 * HOUR_MS))).toEqual({
+      checked: 1,
+      flagged: 0,
+      errors: 1,
+    });
+    const back = await run([{ code: "LA444", status: "ALTERADO" }], new Date(NOW.getTime() + 26 * HOUR_MS));
+
+    expect(back).toMatchObject({ checked: 1, flagged: 0 });
+    expect(await queue()).toHaveLength(1);
+  });
+
+  it("sem fixture vira NAO_ENCONTRADO, fora da fila", async () => {
+    await sale({ purchaseCode: "LA555" });
+
+    expect(await run([])).toEqual({ checked: 1, flagged: 0, errors: 0 });
+    expect((await prisma.saleLocatorCheck.findFirstOrThrow()).status).toBe("NAO_ENCONTRADO");
+  });
+
+  it("pula venda cancelada, venda checada há pouco e voo fora do horizonte", async () => {
+    await sale({ purchaseCode: "LA666", paymentStatus: "CANCELED" });
+    await sale({ purchaseCode: "LA777", departureDate: new Date(NOW.getTime() + 60 * 24 * HOUR_MS) });
+    await sale({ purchaseCode: "LA888" });
+
+    const fixtures = [
+      { code: "LA666", status: "CANCELADO" as const },
+      { code: "LA777", status: "ALTERADO" as const },
+      { code: "LA888", status: "CONFIRMADO" as const },
+    ];
+    expect((await run(fixtures)).checked).toBe(1);
+    // checada agora: só volta depois de LOCATOR_CHECK_MIN_HOURS
+    expect((await run(fixtures, new Date(NOW.getTime() + HOUR_MS))).checked).toBe(0);
+
+    expect(await queue()).toEqual([]);
+  });
+});
@@ -0,0 +1,120 @@
+import type { PrismaClient } from "@prisma/client";
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { PERMISSIONS, can, normalizeRole, type Permission, type Role } from "@/lib/permissions";
+import { createTestDatabase } from "./helpers/db";
+
+/**
+ * ✅ Matriz de permissões e o guard dos handlers: papel sem a permissão
+ * recebe 403 antes de tocar no banco do time.
+ */
+
+const jar = { value: undefined as string | undefined };
+vi.mock("next/headers", () => ({
+  cookies: async () => ({
+    get: () => (jar.value ? { value: jar.value } : undefined),
+    set: () => {},
+  }),
+  headers: async () => new Headers(),
+}));
+
+describe("can(role, permission)", () => {
+  const cases: [Role, Permission, boolean][] = [
+    ["owner", "system.manage", true],
+    ["owner", "credentials.rotate", true],
+    ["admin", "system.manage", false],
+    ["admin", "credentials.rotate", false],
+    ["admin", "periodos.reopen", true],
+    ["admin", "webhooks.manage", true],
+    ["finance", "vendas.read", true],
+    ["finance", "vendas.write", false],
+    ["finance", "taxes.write", true],
+    ["finance", "credentials.reveal", false],
+    ["seller", "vendas.write", true],
+    ["seller", "credentials.reveal", true],
+    ["seller", "taxes.read", false],
+    ["seller", "funcionarios.write", false],
+    ["seller", "webhooks.manage", false],
+    ["viewer", "vendas.read", true],
+    ["viewer", "vendas.write", false],
+    ["viewer", "financeiro.read", false],
+    ["viewer", "credentials.reveal", false],
+  ];
+
+  it.each(cases)("%s / %s → %s", (role, permission, expected) => {
+    expect(can(role, permission)).toBe(expected);
+  });
+
+  it("owner pode tudo; admin tudo menos chave e sistema", () => {
+    expect(PERMISSIONS.every((p) => can("owner", p))).toBe(true);
+    expect(PERMISSIONS.filter((p) => !can("admin", p))).toEqual(["credentials.rotate", "system.manage"]);
+  });
+
+  it("finance lê tudo", () => {
+    expect(PERMISSIONS.filter((p) => p.endsWith(".read")).every((p) => can("finance", p))).toBe(true);
+  });
+
+  it("papel do banco: legado e desconhecido", () => {
+    expect(normalizeRole(" Staff ")).toBe("seller");
+    expect(normalizeRole("ADMIN")).toBe("admin");
+    expect(normalizeRole("root")).toBe("viewer");
+    expect(can(null, "vendas.write")).toBe(false);
+  });
+});
+
+describe("requirePermission", () => {
+  type SessionModule = typeof import("@/lib/session");
+  type WebhooksRoute = typeof import("@/app/api/webhooks/route");
+
+  let prisma: PrismaClient;
+  let session: SessionModule;
+  let route: WebhooksRoute;
+
+  beforeAll(async () => {
+    ({ prisma } = await createTestDatabase());
+    session = await import("@/lib/session");
+    route = await import("@/app/api/webhooks/route");
+  });
+
+  beforeEach(() => {
+    jar.value = undefined;
+  });
+
+  async function loginAs(role: Role) {
+    const user = await prisma.user.create({
+      data: { team: "t1", login: `u-${role}-${Date.now()}`, name: role, role, passwordHash: "x" },
+    });
+    jar.value = await session.createSession(user.id);
+  }
+
+  it("sem sessão → 401", async () => {
+    const res = await route.GET();
+    expect(res.status).toBe(401);
+  });
+
+  it("papel sem a permissão → 403", async () => {
+    await loginAs("seller");
+
+    const res = await route.GET();
+    expect(res.status).toBe(403);
+    expect(await res.json()).toEqual({ ok: false, error: "Sem permissão" });
+  });
+
+  it("POST também é barrado antes de criar nada", async () => {
+    await loginAs("viewer");
+
+    const req = new Request("http://localhost/api/webhooks", {
+      method: "POST",
+      body: JSON.stringify({ name: "x", url: "https://93.184.216.34/hook" }),
+    });
+    expect((await route.POST(req)).status).toBe(403);
+    expect(await prisma.webhookEndpoint.count()).toBe(0);
+  });
+
+  it("papel com a permissão passa", async () => {
+    await loginAs("admin");
+
+    const res = await route.GET();
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ ok: true, data: [] });
+  });
+});
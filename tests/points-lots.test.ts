@@ -0,0 +1,177 @@
+import type { PrismaClient } from "@prisma/client";
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { createTestDatabase } from "./helpers/db";
+
+/**
+ * ✅ Lotes de custo na liberação da compra:
+ * compra + transferência não duplica estoque e o custo segue os pontos.
+ */
+
+type LotsModule = typeof import("@/lib/points-lots");
+type TenantModule = typeof import("@/lib/tenant");
+
+let prisma: PrismaClient;
+let lots: LotsModule;
+let tenant: TenantModule;
+let cedenteId: string;
+
+const TEAM = "t1";
+
+beforeAll(async () => {
+  ({ prisma } = await createTestDatabase());
+  lots = await import("@/lib/points-lots");
+  tenant = await import("@/lib/tenant");
+
+  const user = await prisma.user.create({
+    data: { team: TEAM, login: "admin", name: "Admin", role: "admin", passwordHash: "x" },
+  });
+  const cedente = await prisma.cedente.create({
+    data: {
+      team: TEAM,
+      identificador: "CED-1",
+      nomeCompleto: "Cedente",
+      cpf: "11111111111",
+      banco: "Banco",
+      pixTipo: "CPF",
+      chavePix: "pix",
+      ownerId: user.id,
+    },
+  });
+  cedenteId = cedente.id;
+});
+
+beforeEach(async () => {
+  await prisma.pointsLotConsumption.deleteMany();
+  await prisma.pointsLot.deleteMany();
+});
+
+let seq = 0;
+function item(over: Partial<Parameters<LotsModule["createPurchaseLots"]>[1]["items"][number]>) {
+  seq += 1;
+  return {
+    id: `item-${seq}`,
+    status: "PENDING",
+    programFrom: null,
+    programTo: null,
+    pointsFinal: 0,
+    pointsDebitedFromOrigin: 0,
+    amountCents: 0,
+    title: `Item ${seq}`,
+    createdAt: new Date(Date.UTC(2026, 0, 1, 0, 0, seq)),
+    ...over,
+  };
+}
+
+async function release(totalCents: number, items: ReturnType<typeof item>[]) {
+  const purchase = await prisma.purchase.create({
+    data: { team: TEAM, numero: `ID-${++seq}`, cedenteId, totalCents },
+  });
+  const db = tenant.tenantPrisma(TEAM);
+  return lots.createPurchaseLots(db, {
+    team: TEAM,
+    purchase: { id: purchase.id, numero: purchase.numero, cedenteId, totalCents },
+    items,
+    acquiredAt: new Date(Date.UTC(2026, 0, 2)),
+  });
+}
+
+async function openLots() {
+  return prisma.pointsLot.findMany({ where: { pointsRemaining: { gt: 0 } }, orderBy: { createdAt: "asc" } });
+}
+
+function stockCents(rows: Array<{ pointsRemaining: number; costPerMilheiroCents: number }>) {
+  return rows.reduce((a, l) => a + lots.lotCostCents(l.pointsRemaining, l.costPerMilheiroCents), 0);
+}
+
+describe("createPurchaseLots", () => {
+  it("compra na Livelo + transferência para LATAM: só sobra o lote LATAM, com o custo total", async () => {
+    // transferência lançada antes da compra de pontos: a ordem dos itens não pode importar
+    const transfer = item({
+      programFrom: "LIVELO",
+      programTo: "LATAM",
+      pointsDebitedFromOrigin: 100_000,
+      pointsFinal: 180_000,
+      amountCents: 0,
+    });
+    const buy = item({ programTo: "LIVELO", pointsFinal: 100_000, amountCents: 250_000 });
+
+    await release(260_000, [transfer, { ...buy, createdAt: new Date(Date.UTC(2026, 0, 1)) }]);
+
+    const open = await openLots();
+    expect(open.map((l) => [l.program, l.pointsRemaining])).toEqual([["LATAM", 180_000]]);
+    // milheiro é inteiro em centavos: 260.000 / 180 mil = 1.444,44 → 1.444
+    expect(open[0].costPerMilheiroCents).toBe(Math.round((260_000 * 1000) / 180_000));
+  });
+
+  it("transferência consome primeiro o lote da própria compra, não os antigos", async () => {
+    const db = tenant.tenantPrisma(TEAM);
+    const old = await lots.createLot(db, {
+      team: TEAM,
+      cedenteId,
+      program: "LIVELO",
+      source: "OPENING",
+      points: 50_000,
+      costPerMilheiroCents: 3_000,
+      acquiredAt: new Date(Date.UTC(2025, 0, 1)),
+    });
+
+    await release(200_000, [
+      item({ programTo: "LIVELO", pointsFinal: 100_000, amountCents: 200_000 }),
+      item({ programFrom: "LIVELO", programTo: "SMILES", pointsDebitedFromOrigin: 100_000, pointsFinal: 100_000 }),
+    ]);
+
+    const oldAfter = await prisma.pointsLot.findUniqueOrThrow({ where: { id: old!.id } });
+    expect(oldAfter.pointsRemaining).toBe(50_000);
+
+    const smiles = (await openLots()).filter((l) => l.program === "SMILES");
+    expect(smiles).toHaveLength(1);
+    expect(lots.lotCostCents(smiles[0].pointsRemaining, smiles[0].costPerMilheiroCents)).toBe(200_000);
+  });
+
+  it("débito maior que o lote da compra completa com os antigos e carrega o custo deles", async () => {
+    const db = tenant.tenantPrisma(TEAM);
+    await lots.createLot(db, {
+      team: TEAM,
+      cedenteId,
+      program: "LIVELO",
+      source: "OPENING",
+      points: 50_000,
+      costPerMilheiroCents: 3_000, // 50 mil a R$ 30,00 = R$ 1.500,00
+      acquiredAt: new Date(Date.UTC(2025, 0, 1)),
+    });
+
+    await release(100_000, [
+      item({ programTo: "LIVELO", pointsFinal: 50_000, amountCents: 100_000 }),
+      item({ programFrom: "LIVELO", programTo: "LATAM", pointsDebitedFromOrigin: 100_000, pointsFinal: 100_000 }),
+    ]);
+
+    const open = await openLots();
+    expect(open.map((l) => l.program)).toEqual(["LATAM"]);
+    expect(stockCents(open)).toBe(100_000 + 150_000);
+  });
+
+  it("parte da compra fica na origem: cada programa guarda só o que ficou", async () => {
+    await release(300_000, [
+      item({ programTo: "ESFERA", pointsFinal: 150_000, amountCents: 300_000 }),
+      item({ programFrom: "ESFERA", programTo: "SMILES", pointsDebitedFromOrigin: 100_000, pointsFinal: 100_000 }),
+    ]);
+
+    const open = await openLots();
+    expect(open.map((l) => [l.program, l.pointsRemaining])).toEqual([
+      ["ESFERA", 50_000],
+      ["SMILES", 100_000],
+    ]);
+    expect(stockCents(open)).toBe(300_000);
+  });
+
+  it("taxa do cedente e comissão são rateadas pelo valor dos itens", async () => {
+    await release(150_000, [
+      item({ programTo: "LATAM", pointsFinal: 100_000, amountCents: 80_000 }),
+      item({ programTo: "SMILES", pointsFinal: 100_000, amountCents: 20_000 }),
+    ]);
+
+    const open = await openLots();
+    const cost = Object.fromEntries(open.map((l) => [l.program, lots.lotCostCents(l.pointsRemaining, l.costPerMilheiroCents)]));
+    expect(cost).toEqual({ LATAM: 120_000, SMILES: 30_000 });
+  });
+});
@@ -0,0 +1,256 @@
+import type { PrismaClient } from "@prisma/client";
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { createTestDatabase } from "./helpers/db";
+
+/**
+ * ✅ Recebíveis parcelados: alocação por vencimento, pagamento parcial,
+ * quitação (venda paga) e troca de plano com recebimentos já lançados.
+ */
+
+type RecebiveisModule = typeof import("@/lib/recebiveis");
+type TenantModule = typeof import("@/lib/tenant");
+
+let prisma: PrismaClient;
+let rec: RecebiveisModule;
+let tenant: TenantModule;
+let cedenteId: string;
+let clienteId: string;
+let seq = 0;
+
+const TEAM = "t1";
+const day = (iso: string) => new Date(`${iso}T12:00:00Z`);
+
+beforeAll(async () => {
+  ({ prisma } = await createTestDatabase());
+  rec = await import("@/lib/recebiveis");
+  tenant = await import("@/lib/tenant");
+
+  const user = await prisma.user.create({
+    data: { team: TEAM, login: "admin", name: "Admin", role: "admin", passwordHash: "x" },
+  });
+  const cedente = await prisma.cedente.create({
+    data: {
+      team: TEAM,
+      identificador: "CED-1",
+      nomeCompleto: "Cedente",
+      cpf: "11111111111",
+      banco: "Banco",
+      pixTipo: "CPF",
+      chavePix: "pix",
+      ownerId: user.id,
+    },
+  });
+  const cliente = await prisma.cliente.create({
+    data: { team: TEAM, identificador: "CLI-1", nome: "Cliente", origem: "PARTICULAR" },
+  });
+  cedenteId = cedente.id;
+  clienteId = cliente.id;
+});
+
+beforeEach(async () => {
+  await prisma.sale.deleteMany();
+  await prisma.receivable.deleteMany();
+});
+
+const db = () => tenant.tenantPrisma(TEAM);
+
+/** Recebível de venda pendente com o plano dado (parcelas em ordem de vencimento). */
+async function receivableWithPlan(plan: { dueDate: Date; amountCents: number }[]) {
+  seq += 1;
+  const totalCents = plan.reduce((a, p) => a + p.amountCents, 0);
+  const receivable = await prisma.receivable.create({
+    data: { team: TEAM, title: `Venda V-${seq}`, totalCents, balanceCents: totalCents },
+  });
+  await prisma.sale.create({
+    data: {
+      team: TEAM,
+      numero: `V-${seq}`,
+      date: plan[0].dueDate,
+      program: "LATAM",
+      points: 10_000,
+      passengers: 1,
+      milheiroCents: 2_500,
+      totalCents,
+      cedenteId,
+      clienteId,
+      receivableId: receivable.id,
+    },
+  });
+  await rec.createInstallmentPlan(db(), {
+    team: TEAM,
+    receivableId: receivable.id,
+    plan: plan.map((p, i) => ({ number: i + 1, ...p })),
+  });
+  return receivable.id;
+}
+
+function pay(receivableId: string, amountCents: number, receivedAt = day("2026-03-01")) {
+  return db().$transaction((tx) => rec.applyReceipt(tx, { receivableId, amountCents, note: null, receivedAt }));
+}
+
+function installments(receivableId: string) {
+  return prisma.receivableInstallment.findMany({
+    where: { receivableId },
+    orderBy: { number: "asc" },
+    select: { number: true, amountCents: true, paidCents: true, status: true, paidAt: true },
+  });
+}
+
+describe("buildPlan", () => {
+  it("centavos que sobram vão nas primeiras; mês curto não pula", () => {
+    const plan = rec.buildPlan(10_000, { count: 3, firstDueDate: day("2026-01-31") });
+
+    expect(plan.map((p) => p.amountCents)).toEqual([3_334, 3_333, 3_333]);
+    expect(plan.map((p) => p.dueDate.toISOString().slice(0, 10))).toEqual(["2026-01-31", "2026-02-28", "2026-03-31"]);
+  });
+
+  it("recusa mais parcelas que centavos ou fora do limite", () => {
+    expect(() => rec.buildPlan(2, { count: 3, firstDueDate: day("2026-01-01") })).toThrow(rec.ReceivableError);
+    expect(() => rec.buildPlan(10_000, { count: rec.MAX_INSTALLMENTS + 1, firstDueDate: day("2026-01-01") })).toThrow(
+      rec.ReceivableError
+    );
+  });
+});
+
+describe("applyReceipt", () => {
+  it("aloca pela ordem de vencimento e deixa a parcela parcial", async () => {
+    const id = await receivableWithPlan([
+      { dueDate: day("2026-01-10"), amountCents: 4_000 },
+      { dueDate: day("2026-02-10"), amountCents: 3_000 },
+      { dueDate: day("2026-03-10"), amountCents: 3_000 },
+    ]);
+
+    const out = await pay(id, 5_000);
+
+    expect(out.receivable).toMatchObject({ receivedCents: 5_000, balanceCents: 5_000, status: "OPEN" });
+    expect(out.salePaid).toBe(false);
+    expect((await installments(id)).map((i) => [i.paidCents, i.status])).toEqual([
+      [4_000, "PAID"],
+      [1_000, "PARTIAL"],
+      [0, "OPEN"],
+    ]);
+    const allocations = await prisma.receiptAllocation.findMany({
+      where: { receiptId: out.receipt.id },
+      select: { amountCents: true },
+      orderBy: { amountCents: "desc" },
+    });
+    expect(allocations.map((a) => a.amountCents)).toEqual([4_000, 1_000]);
+  });
+
+  it("quitou: recebível RECEIVED e venda paga", async () => {
+    const id = await receivableWithPlan([
+      { dueDate: day("2026-01-10"), amountCents: 5_000 },
+      { dueDate: day("2026-02-10"), amountCents: 5_000 },
+    ]);
+
+    await pay(id, 3_000);
+    const out = await pay(id, 7_000, day("2026-03-05"));
+
+    expect(out.receivable).toMatchObject({ receivedCents: 10_000, balanceCents: 0, status: "RECEIVED" });
+    expect(out.salePaid).toBe(true);
+    expect((await installments(id)).every((i) => i.status === "PAID")).toBe(true);
+    expect(await prisma.sale.findFirstOrThrow({ where: { receivableId: id } })).toMatchObject({
+      paymentStatus: "PAID",
+      paidAt: day("2026-03-05"),
+    });
+  });
+
+  it("recusa valor maior que o saldo e recebível quitado", async () => {
+    const id = await receivableWithPlan([{ dueDate: day("2026-01-10"), amountCents: 1_000 }]);
+
+    await expect(pay(id, 1_001)).rejects.toThrow(/maior que o saldo/);
+    await pay(id, 1_000);
+    await expect(pay(id, 1)).rejects.toThrow(/não está em aberto/);
+  });
+
+  it("outro recebimento gravou depois da leitura: não lança nada", async () => {
+    const id = await receivableWithPlan([{ dueDate: day("2026-01-10"), amountCents: 1_000 }]);
+    await pay(id, 600);
+
+    // leitura antiga (antes do recebimento de 600) chegando ao lançamento
+    const err = await db()
+      .$transaction(async (tx) => {
+        const stale = await tx.receivable.findUniqueOrThrow({ where: { id } });
+        const staleTx = new Proxy(tx, {
+          get(target, prop, receiver) {
+            if (prop !== "receivable") return Reflect.get(target, prop, receiver);
+            return new Proxy(target.receivable, {
+              get(d, p, r) {
+                if (p === "findUnique") return async () => ({ ...stale, receivedCents: 0 });
+                return Reflect.get(d, p, r);
+              },
+            });
+          },
+        });
+        return rec.applyReceipt(staleTx, { receivableId: id, amountCents: 1_000, note: null });
+      })
+      .catch((e: unknown) => e);
+
+    expect(err).toBeInstanceOf(rec.ReceivableError);
+    expect(await prisma.receipt.count({ where: { receivableId: id } })).toBe(1);
+    expect(await prisma.receivable.findUniqueOrThrow({ where: { id } })).toMatchObject({
+      receivedCents: 600,
+      status: "OPEN",
+    });
+  });
+});
+
+describe("setInstallmentPlan", () => {
+  it("novo plano realoca os recebimentos já lançados", async () => {
+    const id = await receivableWithPlan([{ dueDate: day("2026-01-10"), amountCents: 9_000 }]);
+    await pay(id, 2_000, day("2026-01-05"));
+    await pay(id, 2_000, day("2026-01-20"));
+
+    const rows = await db().$transaction((tx) =>
+      rec.setInstallmentPlan(tx, {
+        team: TEAM,
+        receivableId: id,
+        plan: [
+          // fora de ordem de propósito: numera pelo vencimento
+          { number: 1, dueDate: day("2026-03-10"), amountCents: 3_000 },
+          { number: 2, dueDate: day("2026-01-10"), amountCents: 3_000 },
+          { number: 3, dueDate: day("2026-02-10"), amountCents: 3_000 },
+        ],
+      })
+    );
+
+    expect(rows.map((r) => [r.number, r.dueDate.toISOString().slice(0, 10), r.paidCents, r.status])).toEqual([
+      [1, "2026-01-10", 3_000, "PAID"],
+      [2, "2026-02-10", 1_000, "PARTIAL"],
+      [3, "2026-03-10", 0, "OPEN"],
+    ]);
+    // quitou a primeira com o segundo recebimento
+    expect(rows[0].paidAt).toEqual(day("2026-01-20"));
+    expect(await prisma.receiptAllocation.count({ where: { installment: { receivableId: id } } })).toBe(3);
+  });
+
+  it("soma diferente do total é recusada", async () => {
+    const id = await receivableWithPlan([{ dueDate: day("2026-01-10"), amountCents: 1_000 }]);
+
+    await expect(
+      rec.setInstallmentPlan(db(), {
+        team: TEAM,
+        receivableId: id,
+        plan: [{ number: 1, dueDate: day("2026-01-10"), amountCents: 999 }],
+      })
+    ).rejects.toThrow(/soma das parcelas/);
+  });
+
+  it("recebível quitado ou cancelado não troca de plano", async () => {
+    const paid = await receivableWithPlan([{ dueDate: day("2026-01-10"), amountCents: 1_000 }]);
+    await pay(paid, 1_000);
+    const canceled = await receivableWithPlan([{ dueDate: day("2026-01-10"), amountCents: 1_000 }]);
+    await prisma.receivable.update({ where: { id: canceled }, data: { status: "CANCELED" } });
+
+    for (const id of [paid, canceled]) {
+      await expect(
+        rec.setInstallmentPlan(db(), {
+          team: TEAM,
+          receivableId: id,
+          plan: [{ number: 1, dueDate: day("2026-02-10"), amountCents: 1_000 }],
+        })
+      ).rejects.toThrow(/não está em aberto/);
+    }
+    expect((await installments(paid)).map((i) => [i.paidCents, i.status])).toEqual([[1_000, "PAID"]]);
+  });
+});
@@ -0,0 +1,163 @@
+import type { PrismaClient } from "@prisma/client";
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { createTestDatabase } from "./helpers/db";
+
+/**
+ * ✅ Sessão: token assinado + linha no banco. Assinatura, payload, expiração
+ * e revogação derrubam; papel vem do banco; rotação troca o cookie.
+ */
+
+type SessionModule = typeof import("@/lib/session");
+type AuthServerModule = typeof import("@/lib/auth-server");
+
+// cookies() do Next só existe dentro de uma request: aqui vira um jar em memória
+const jar = {
+  value: undefined as string | undefined,
+  set: vi.fn((_name: string, value: string) => {
+    jar.value = value;
+  }),
+  get: vi.fn(() => (jar.value ? { value: jar.value } : undefined)),
+};
+vi.mock("next/headers", () => ({ cookies: async () => jar }));
+
+let prisma: PrismaClient;
+let session: SessionModule;
+let authServer: AuthServerModule;
+let userId: string;
+
+beforeAll(async () => {
+  ({ prisma } = await createTestDatabase());
+  session = await import("@/lib/session");
+  authServer = await import("@/lib/auth-server");
+
+  const user = await prisma.user.create({
+    data: { team: "t1", login: "ana", name: "Ana", role: "seller", passwordHash: "x" },
+  });
+  userId = user.id;
+});
+
+beforeEach(async () => {
+  await prisma.userSession.deleteMany();
+  await prisma.user.update({ where: { id: userId }, data: { role: "seller" } });
+  jar.value = undefined;
+  jar.set.mockClear();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+function parts(token: string) {
+  const [v, body, sig] = token.split(".");
+  return { v, body, sig, payload: JSON.parse(Buffer.from(body, "base64url").toString("utf8")) };
+}
+
+describe("readSessionCookie", () => {
+  it("token válido devolve a sessão", async () => {
+    const token = await session.createSession(userId);
+    expect(await session.readSessionCookie(token)).toMatchObject({ id: userId, login: "ana", role: "seller", team: "t1" });
+  });
+
+  it("assinatura errada é recusada", async () => {
+    const token = await session.createSession(userId);
+    const { v, body, sig } = parts(token);
+    const forged = `${v}.${body}.${sig.slice(0, -2)}${sig.endsWith("AA") ? "BB" : "AA"}`;
+
+    expect(await session.readSessionCookie(forged)).toBeNull();
+  });
+
+  it("payload alterado (outro uid) não bate com a assinatura", async () => {
+    const token = await session.createSession(userId);
+    const { v, sig, payload } = parts(token);
+    const body = Buffer.from(JSON.stringify({ ...payload, uid: "outro" })).toString("base64url");
+
+    expect(await session.readSessionCookie(`${v}.${body}.${sig}`)).toBeNull();
+  });
+
+  it("token expirado é recusado mesmo com a sessão ativa no banco", async () => {
+    const token = await session.createSession(userId);
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.now() + (session.SESSION_TTL_SECONDS + 1) * 1000);
+
+    expect(session.verifySessionToken(token)).toBeNull();
+    expect(await session.readSessionCookie(token)).toBeNull();
+  });
+
+  it("sessão revogada é recusada", async () => {
+    const token = await session.createSession(userId);
+    await session.revokeSession(parts(token).payload.sid);
+
+    expect(await session.readSessionCookie(token)).toBeNull();
+  });
+
+  it("papel vem do banco, não do cookie", async () => {
+    const token = await session.createSession(userId);
+    await prisma.user.update({ where: { id: userId }, data: { role: "admin" } });
+
+    expect(await session.readSessionCookie(token)).toMatchObject({ role: "admin" });
+  });
+});
+
+describe("revokeAllSessions / reissueSession", () => {
+  it("troca de senha: derruba todas e a nova sessão herda ip/user-agent", async () => {
+    const a = await session.createSession(userId, { ip: "10.0.0.1", userAgent: "UA" });
+    const b = await session.createSession(userId);
+
+    expect(await session.revokeAllSessions(userId, "password_changed")).toBe(2);
+    expect(await session.readSessionCookie(a)).toBeNull();
+    expect(await session.readSessionCookie(b)).toBeNull();
+
+    const fresh = await session.reissueSession(parts(a).payload.sid, userId);
+    expect(await session.readSessionCookie(fresh)).toMatchObject({ id: userId });
+    expect(await prisma.userSession.findUnique({ where: { id: parts(fresh).payload.sid } })).toMatchObject({
+      ip: "10.0.0.1",
+      userAgent: "UA",
+    });
+  });
+});
+
+describe("getSessionServer", () => {
+  it("token novo: não rotaciona", async () => {
+    jar.value = await session.createSession(userId);
+
+    expect(await authServer.getSessionServer()).toMatchObject({ id: userId });
+    expect(jar.set).not.toHaveBeenCalled();
+  });
+
+  it("passou da metade do TTL: grava token novo e o antigo só vale pela carência", async () => {
+    const old = await session.createSession(userId);
+    jar.value = old;
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.now() + (session.SESSION_TTL_SECONDS / 2 + 1) * 1000);
+
+    const sess = await authServer.getSessionServer();
+
+    expect(sess).toMatchObject({ id: userId, sid: parts(old).payload.sid });
+    expect(jar.set).toHaveBeenCalledTimes(1);
+    expect(jar.value).not.toBe(old);
+    expect(await session.readSessionCookie(jar.value)).toMatchObject({ id: userId });
+
+    const oldRow = await prisma.userSession.findUnique({ where: { id: parts(old).payload.sid } });
+    expect(oldRow?.rotatedAt).not.toBeNull();
+    expect(oldRow!.expiresAt.getTime() - Date.now()).toBeLessThanOrEqual(60_000);
+  });
+
+  it("cookie não gravável (server component): desfaz a rotação", async () => {
+    const old = await session.createSession(userId);
+    jar.value = old;
+    jar.set.mockImplementationOnce(() => {
+      throw new Error("cookies are read-only");
+    });
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.now() + (session.SESSION_TTL_SECONDS / 2 + 1) * 1000);
+
+    expect(await authServer.getSessionServer()).toMatchObject({ id: userId });
+    expect(jar.value).toBe(old);
+
+    const oldSid = parts(old).payload.sid;
+    const rows = await prisma.userSession.findMany();
+    expect(rows).toHaveLength(2);
+    expect(rows.find((r) => r.id === oldSid)).toMatchObject({ rotatedAt: null, revokedAt: null });
+    expect(rows.find((r) => r.id !== oldSid)).toMatchObject({ revokedReason: "rotation_aborted" });
+  });
+});
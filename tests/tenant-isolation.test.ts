@@ -0,0 +1,290 @@
+import type { PrismaClient } from "@prisma/client";
+import { beforeAll, describe, expect, it } from "vitest";
+import { createTestDatabase } from "./helpers/db";
+
+/**
+ * ✅ Isolamento entre times via tenantPrisma:
+ * o time A não lê nem altera nada do time B — nem nos models com `team`,
+ * nem nos filhos sem coluna `team` (escopo pelo pai).
+ */
+
+type TenantModule = typeof import("@/lib/tenant");
+
+let prisma: PrismaClient;
+let tenant: TenantModule;
+
+type Seed = Awaited<ReturnType<typeof seedTeam>>;
+let A: Seed;
+let B: Seed;
+
+async function seedTeam(team: string) {
+  const user = await prisma.user.create({
+    data: { team, login: `admin-${team}`, name: `Admin ${team}`, role: "admin", passwordHash: "x" },
+  });
+  const cedente = await prisma.cedente.create({
+    data: {
+      team,
+      identificador: `CED-${team}`,
+      nomeCompleto: `Cedente ${team}`,
+      cpf: team === "a" ? "11111111111" : "22222222222",
+      banco: "Banco",
+      pixTipo: "CPF",
+      chavePix: `pix-${team}`,
+      ownerId: user.id,
+    },
+  });
+  const purchase = await prisma.purchase.create({
+    data: { team, numero: `ID-${team}`, cedenteId: cedente.id },
+  });
+  const purchaseItem = await prisma.purchaseItem.create({
+    data: { purchaseId: purchase.id, type: "POINTS_BUY", title: "Compra" },
+  });
+  const commission = await prisma.cedenteCommission.create({
+    data: { cedenteId: cedente.id, amountCents: 1000 },
+  });
+  const debt = await prisma.debt.create({ data: { team, title: "Dívida", totalCents: 5000 } });
+  const debtPayment = await prisma.debtPayment.create({ data: { debtId: debt.id, amountCents: 100 } });
+  const receivable = await prisma.receivable.create({
+    data: { team, title: "Recebível", totalCents: 5000, balanceCents: 5000 },
+  });
+  const receipt = await prisma.receipt.create({ data: { receivableId: receivable.id, amountCents: 200 } });
+  const blocked = await prisma.blockedAccount.create({ data: { team, cedenteId: cedente.id, program: "LATAM" } });
+  const observation = await prisma.blockObservation.create({ data: { blockedId: blocked.id, text: "obs" } });
+  const ledger = await prisma.pointsLedgerEntry.create({
+    data: { cedenteId: cedente.id, program: "LATAM", deltaPoints: 1000, balanceAfter: 1000, source: "OPENING_BALANCE" },
+  });
+  const divida = await prisma.dividaAReceber.create({
+    data: { team, ownerId: user.id, debtorName: "Fulano", title: "Empréstimo", totalCents: 3000 },
+  });
+  const dividaPagamento = await prisma.dividaAReceberPagamento.create({
+    data: { dividaId: divida.id, amountCents: 300 },
+  });
+
+  return {
+    team,
+    user,
+    cedente,
+    purchase,
+    purchaseItem,
+    commission,
+    debt,
+    debtPayment,
+    receivable,
+    receipt,
+    blocked,
+    observation,
+    ledger,
+    divida,
+    dividaPagamento,
+  };
+}
+
+beforeAll(async () => {
+  ({ prisma } = await createTestDatabase());
+  tenant = await import("@/lib/tenant");
+  A = await seedTeam("a");
+  B = await seedTeam("b");
+});
+
+describe("models com coluna team", () => {
+  it("listagens só trazem o próprio time", async () => {
+    const db = tenant.tenantPrisma("a");
+
+    expect((await db.cedente.findMany()).map((c) => c.id)).toEqual([A.cedente.id]);
+    expect((await db.purchase.findMany()).map((p) => p.id)).toEqual([A.purchase.id]);
+    expect((await db.debt.findMany()).map((d) => d.id)).toEqual([A.debt.id]);
+    expect(await db.receivable.count()).toBe(1);
+    expect(await db.blockedAccount.count()).toBe(1);
+  });
+
+  it("registro de outro time não existe para leitura", async () => {
+    const db = tenant.tenantPrisma("a");
+
+    expect(await db.cedente.findUnique({ where: { id: B.cedente.id } })).toBeNull();
+    expect(await db.purchase.findFirst({ where: { numero: B.purchase.numero } })).toBeNull();
+    expect(await db.debt.findUnique({ where: { id: B.debt.id } })).toBeNull();
+  });
+
+  it("não altera nem apaga registro de outro time", async () => {
+    const db = tenant.tenantPrisma("a");
+
+    await expect(
+      db.cedente.update({ where: { id: B.cedente.id }, data: { nomeCompleto: "hack" } })
+    ).rejects.toThrow();
+    expect((await db.debt.updateMany({ where: { id: B.debt.id }, data: { title: "hack" } })).count).toBe(0);
+    expect((await db.receivable.deleteMany({ where: { id: B.receivable.id } })).count).toBe(0);
+
+    const still = await prisma.cedente.findUniqueOrThrow({ where: { id: B.cedente.id } });
+    expect(still.nomeCompleto).toBe("Cedente b");
+    expect(await prisma.receivable.count({ where: { id: B.receivable.id } })).toBe(1);
+  });
+
+  it("recusa gravar com o time de outro", async () => {
+    const db = tenant.tenantPrisma("a");
+
+    await expect(db.debt.create({ data: { team: "b", title: "x", totalCents: 1 } })).rejects.toBeInstanceOf(
+      tenant.CrossTeamError
+    );
+    await expect(
+      db.debt.update({ where: { id: A.debt.id }, data: { team: "b" } })
+    ).rejects.toBeInstanceOf(tenant.CrossTeamError);
+  });
+});
+
+describe("referências para outro time", () => {
+  it("create recusa FK escalar de outro time", async () => {
+    const db = tenant.tenantPrisma("a");
+
+    await expect(
+      db.purchase.create({ data: { team: "a", numero: "ID-hack", cedenteId: B.cedente.id } })
+    ).rejects.toBeInstanceOf(tenant.CrossTeamError);
+    await expect(
+      db.blockedAccount.createMany({
+        data: [
+          { team: "a", cedenteId: A.cedente.id, program: "SMILES" },
+          { team: "a", cedenteId: B.cedente.id, program: "SMILES" },
+        ],
+      })
+    ).rejects.toBeInstanceOf(tenant.CrossTeamError);
+
+    expect(await prisma.purchase.count({ where: { numero: "ID-hack" } })).toBe(0);
+    expect(await prisma.blockedAccount.count({ where: { program: "SMILES" } })).toBe(0);
+  });
+
+  it("create recusa connect de outro time", async () => {
+    const db = tenant.tenantPrisma("a");
+
+    await expect(
+      db.dividaAReceber.create({
+        data: { team: "a", owner: { connect: { id: B.user.id } }, debtorName: "x", title: "hack", totalCents: 1 },
+      })
+    ).rejects.toBeInstanceOf(tenant.CrossTeamError);
+    expect(await prisma.dividaAReceber.count({ where: { title: "hack" } })).toBe(0);
+  });
+
+  it("update e updateMany não trocam a FK para outro time", async () => {
+    const db = tenant.tenantPrisma("a");
+
+    await expect(
+      db.purchase.update({ where: { id: A.purchase.id }, data: { cedenteId: B.cedente.id } })
+    ).rejects.toBeInstanceOf(tenant.CrossTeamError);
+    await expect(
+      db.blockedAccount.updateMany({ where: { id: A.blocked.id }, data: { cedenteId: B.cedente.id } })
+    ).rejects.toBeInstanceOf(tenant.CrossTeamError);
+
+    expect((await prisma.purchase.findUniqueOrThrow({ where: { id: A.purchase.id } })).cedenteId).toBe(A.cedente.id);
+  });
+
+  it("filho recusa FK não-pai de outro time", async () => {
+    const db = tenant.tenantPrisma("a");
+    const installmentB = await prisma.receivableInstallment.create({
+      data: { team: "b", receivableId: B.receivable.id, number: 1, dueDate: new Date(), amountCents: 5000 },
+    });
+
+    await expect(
+      db.receiptAllocation.create({ data: { receiptId: A.receipt.id, installmentId: installmentB.id, amountCents: 1 } })
+    ).rejects.toBeInstanceOf(tenant.CrossTeamError);
+    expect(await prisma.receiptAllocation.count({ where: { installmentId: installmentB.id } })).toBe(0);
+  });
+
+  it("referências do próprio time passam", async () => {
+    const db = tenant.tenantPrisma("a");
+
+    const p = await db.purchase.create({
+      data: { team: "a", numero: "ID-ok", cedente: { connect: { id: A.cedente.id } } },
+    });
+    expect(p.cedenteId).toBe(A.cedente.id);
+    await db.purchase.delete({ where: { id: p.id } });
+  });
+});
+
+describe("models filhos sem coluna team", () => {
+  it("listagens só trazem filhos de pais do próprio time", async () => {
+    const db = tenant.tenantPrisma("a");
+
+    expect((await db.cedenteCommission.findMany()).map((c) => c.id)).toEqual([A.commission.id]);
+    expect((await db.purchaseItem.findMany()).map((i) => i.id)).toEqual([A.purchaseItem.id]);
+    expect((await db.debtPayment.findMany()).map((p) => p.id)).toEqual([A.debtPayment.id]);
+    expect((await db.receipt.findMany()).map((r) => r.id)).toEqual([A.receipt.id]);
+    expect((await db.blockObservation.findMany()).map((o) => o.id)).toEqual([A.observation.id]);
+    expect((await db.pointsLedgerEntry.findMany()).map((e) => e.id)).toEqual([A.ledger.id]);
+    expect((await db.dividaAReceberPagamento.findMany()).map((p) => p.id)).toEqual([A.dividaPagamento.id]);
+  });
+
+  it("filho de outro time não existe para leitura por id", async () => {
+    const db = tenant.tenantPrisma("a");
+
+    expect(await db.cedenteCommission.findUnique({ where: { id: B.commission.id } })).toBeNull();
+    expect(await db.debtPayment.findUnique({ where: { id: B.debtPayment.id } })).toBeNull();
+    expect(await db.receipt.findFirst({ where: { id: B.receipt.id } })).toBeNull();
+    expect(await db.purchaseItem.count({ where: { purchaseId: B.purchase.id } })).toBe(0);
+  });
+
+  it("não paga/cancela comissão de outro time (update por id)", async () => {
+    const db = tenant.tenantPrisma("a");
+
+    expect(await db.cedenteCommission.findFirst({ where: { id: B.commission.id, status: "PENDING" } })).toBeNull();
+    await expect(
+      db.cedenteCommission.update({ where: { id: B.commission.id }, data: { status: "PAID", paidAt: new Date() } })
+    ).rejects.toThrow(/not found|No record/i);
+    await expect(
+      db.cedenteCommission.update({ where: { id: B.commission.id }, data: { status: "CANCELED" } })
+    ).rejects.toThrow(/not found|No record/i);
+
+    const row = await prisma.cedenteCommission.findUniqueOrThrow({ where: { id: B.commission.id } });
+    expect(row.status).toBe("PENDING");
+    expect(row.paidAt).toBeNull();
+  });
+
+  it("não altera nem apaga filhos de outro time em massa", async () => {
+    const db = tenant.tenantPrisma("a");
+
+    expect(
+      (await db.dividaAReceberPagamento.updateMany({ where: { id: B.dividaPagamento.id }, data: { amountCents: 1 } }))
+        .count
+    ).toBe(0);
+    expect((await db.blockObservation.deleteMany({ where: { id: B.observation.id } })).count).toBe(0);
+    await expect(db.debtPayment.delete({ where: { id: B.debtPayment.id } })).rejects.toThrow();
+
+    expect(await prisma.blockObservation.count({ where: { id: B.observation.id } })).toBe(1);
+    expect(await prisma.debtPayment.count({ where: { id: B.debtPayment.id } })).toBe(1);
+  });
+
+  it("recusa criar filho pendurado em pai de outro time", async () => {
+    const db = tenant.tenantPrisma("a");
+
+    await expect(
+      db.debtPayment.create({ data: { debtId: B.debt.id, amountCents: 1 } })
+    ).rejects.toBeInstanceOf(tenant.CrossTeamError);
+    await expect(
+      db.purchaseItem.createMany({
+        data: [
+          { purchaseId: A.purchase.id, type: "ADJUSTMENT", title: "ok" },
+          { purchaseId: B.purchase.id, type: "ADJUSTMENT", title: "hack" },
+        ],
+      })
+    ).rejects.toBeInstanceOf(tenant.CrossTeamError);
+    await expect(
+      db.blockObservation.create({ data: { blocked: { connect: { id: B.blocked.id } }, text: "hack" } })
+    ).rejects.toBeInstanceOf(tenant.CrossTeamError);
+
+    expect(await prisma.debtPayment.count({ where: { debtId: B.debt.id } })).toBe(1);
+    expect(await prisma.purchaseItem.count({ where: { title: { in: ["ok", "hack"] } } })).toBe(0);
+  });
+
+  it("cria filho de pai criado na mesma transaction", async () => {
+    const db = tenant.tenantPrisma("a");
+
+    const payment = await db.$transaction(async (tx) => {
+      const debt = await tx.debt.create({ data: { team: "a", title: "Nova", totalCents: 100 } });
+      return tx.debtPayment.create({ data: { debtId: debt.id, amountCents: 50 } });
+    });
+
+    expect(await db.debtPayment.findUnique({ where: { id: payment.id } })).not.toBeNull();
+    expect(await tenant.tenantPrisma("b").debtPayment.findUnique({ where: { id: payment.id } })).toBeNull();
+  });
+
+  it("escopo de neto sobe até o model com team", () => {
+    expect(tenant.teamScope("ReceiptAllocation", "a")).toEqual({ receipt: { receivable: { team: "a" } } });
+  });
+});
@@ -0,0 +1,88 @@
+import type { PrismaClient } from "@prisma/client";
+import { NextRequest } from "next/server";
+import { beforeAll, describe, expect, it } from "vitest";
+import { createTestDatabase } from "./helpers/db";
+
+/**
+ * ✅ Aceite pelo link público: um aceite por cedente + versão, mesmo com
+ * dois envios ao mesmo tempo.
+ */
+
+type TermosRoute = typeof import("@/app/api/termos/public/[token]/route");
+
+let prisma: PrismaClient;
+let route: TermosRoute;
+let token: string;
+let cedenteId: string;
+
+const TEAM = "t1";
+
+beforeAll(async () => {
+  ({ prisma } = await createTestDatabase());
+  route = await import("@/app/api/termos/public/[token]/route");
+
+  const user = await prisma.user.create({
+    data: { team: TEAM, login: "admin", name: "Admin", role: "admin", passwordHash: "x" },
+  });
+  const cedente = await prisma.cedente.create({
+    data: {
+      team: TEAM,
+      identificador: "CED-1",
+      nomeCompleto: "Fulano de Tal",
+      cpf: "11111111111",
+      banco: "Banco",
+      pixTipo: "CPF",
+      chavePix: "pix",
+      ownerId: user.id,
+    },
+  });
+  await prisma.termDocument.create({
+    data: {
+      team: TEAM,
+      versao: "v2",
+      title: "Termo",
+      body: "Corpo",
+      clauses: [{ program: "LATAM", title: "Latam", text: "..." }],
+      effectiveAt: new Date("2026-01-01T00:00:00Z"),
+      contentHash: "hash",
+    },
+  });
+  token = cedente.termToken;
+  cedenteId = cedente.id;
+});
+
+function post(t: string, body: unknown) {
+  const req = new NextRequest(`http://localhost/api/termos/public/${t}`, {
+    method: "POST",
+    body: JSON.stringify(body),
+    headers: { "x-forwarded-for": "200.1.2.3", "user-agent": "vitest" },
+  });
+  return route.POST(req, { params: Promise.resolve({ token: t }) });
+}
+
+describe("POST /api/termos/public/:token", () => {
+  it("token desconhecido: link inválido", async () => {
+    const res = await post("nao-existe", { aceito: true, versao: "v2" });
+    expect(res.status).toBe(404);
+    expect(await res.json()).toEqual({ ok: false, error: "Link inválido." });
+  });
+
+  it("dois envios ao mesmo tempo gravam um aceite só", async () => {
+    const body = { aceito: true, versao: "v2", programs: ["LATAM", "SMILES"] };
+    const [a, b] = await Promise.all([post(token, body), post(token, body)]);
+
+    expect([a.status, b.status].sort()).toEqual([200, 201]);
+    const [ja, jb] = await Promise.all([a.json(), b.json()]);
+    expect(ja.data.accepted).toEqual(jb.data.accepted);
+    expect(ja.data.accepted.acceptedPrograms).toEqual(["LATAM"]);
+    expect(await prisma.cedenteTermAcceptance.count({ where: { cedenteId } })).toBe(1);
+  });
+
+  it("aceitar de novo devolve o aceite original", async () => {
+    const before = await prisma.cedenteTermAcceptance.findFirstOrThrow({ where: { cedenteId } });
+
+    const res = await post(token, { aceito: true, versao: "v2", programs: [] });
+    expect(res.status).toBe(200);
+    expect((await res.json()).data.accepted.acceptanceHash).toBe(before.acceptanceHash);
+  });
+});
@@ -0,0 +1,89 @@
+import type { PrismaClient } from "@prisma/client";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { createTestDatabase } from "./helpers/db";
+
+/**
+ * ✅ SSRF: URL de webhook só para endereço público, ao salvar e antes de
+ * cada entrega.
+ */
+
+type WebhooksModule = typeof import("@/lib/webhooks");
+
+let prisma: PrismaClient;
+let webhooks: WebhooksModule;
+
+const TEAM = "t1";
+const PUBLIC_URL = "https://93.184.216.34/hook";
+
+beforeAll(async () => {
+  ({ prisma } = await createTestDatabase());
+  webhooks = await import("@/lib/webhooks");
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+async function deliveryTo(url: string) {
+  const endpoint = await prisma.webhookEndpoint.create({
+    data: { team: TEAM, name: "hook", url, secret: webhooks.sealWebhookSecret("whsec_test"), events: [] },
+  });
+  const event = await prisma.outboxEvent.create({
+    data: { team: TEAM, type: "sale.created", aggregateType: "Sale", aggregateId: "s1", payload: { ok: true } },
+  });
+  return prisma.webhookDelivery.create({ data: { team: TEAM, eventId: event.id, endpointId: endpoint.id } });
+}
+
+describe("validateWebhookUrl", () => {
+  it.each([
+    "http://localhost:3000/hook",
+    "http://127.0.0.1/hook",
+    "http://2130706433/hook", // 127.0.0.1 em decimal
+    "http://10.0.0.5/hook",
+    "http://172.16.0.1/hook",
+    "http://192.168.1.10/hook",
+    "http://169.254.169.254/latest/meta-data/",
+    "http://0.0.0.0/hook",
+    "http://[::1]/hook",
+    "http://[::ffff:127.0.0.1]/hook",
+    "http://[fd00::1]/hook",
+    "http://[fe80::1]/hook",
+  ])("recusa %s", async (url) => {
+    const r = await webhooks.validateWebhookUrl(url);
+    expect(r).toMatchObject({ ok: false, error: expect.stringMatching(/endereço interno/) });
+  });
+
+  it("recusa protocolo que não é http(s)", async () => {
+    expect(await webhooks.validateWebhookUrl("ftp://93.184.216.34/")).toMatchObject({ ok: false });
+    expect(await webhooks.validateWebhookUrl("não é url")).toMatchObject({ ok: false });
+  });
+
+  it("aceita endereço público", async () => {
+    expect(await webhooks.validateWebhookUrl(PUBLIC_URL)).toEqual({ ok: true, url: PUBLIC_URL });
+  });
+});
+
+describe("attemptDelivery", () => {
+  it("endpoint salvo com endereço interno não recebe o POST", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+    const d = await deliveryTo("http://169.254.169.254/latest/meta-data/");
+
+    const r = await webhooks.attemptDelivery(d.id);
+
+    expect(fetchSpy).not.toHaveBeenCalled();
+    expect(r).toMatchObject({ status: "PENDING", attempts: 1, lastStatusCode: null });
+    expect(r?.lastError).toMatch(/endereço interno/);
+  });
+
+  it("endereço público é entregue assinado", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response(null, { status: 204 }));
+    const d = await deliveryTo(PUBLIC_URL);
+
+    const r = await webhooks.attemptDelivery(d.id);
+
+    expect(r).toMatchObject({ status: "DELIVERED", lastStatusCode: 204 });
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(url).toBe(PUBLIC_URL);
+    expect((init?.headers as Record<string, string>)["X-Webhook-Signature"]).toMatch(/^sha256=[0-9a-f]{64}$/);
+  });
+});